@@ -1,10 +1,16 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { Client, Guild, GuildMember, VoiceState } from 'discord.js';
-import { AFKDetectionService, MIN_USERS_FOR_AFK_TRACKING } from '../services/AFKDetectionService';
+import { AFKDetectionService } from '../services/AFKDetectionService';
 import { WarningService } from '../services/WarningService';
 import { GuildConfigService } from '../services/GuildConfigService';
+import type { EscalationService } from '../services/EscalationService';
+import type { ModLogService } from '../services/ModLogService';
 import type { GuildSettings } from '../database/repositories/GuildSettingsRepository';
 import type { RateLimiter } from '../utils/RateLimiter';
+import type { AFKTrackingRepository, AFKTrackingRecord } from '../database/repositories/AFKTrackingRepository';
+import type { AFKEventRepository } from '../database/repositories/AFKEventRepository';
+import type { AFKExemption, AFKExemptionRepository } from '../database/repositories/AFKExemptionRepository';
+import { BotMetrics } from '../utils/metrics';
 import {
   createMockGuildSettings,
   createMockLogger,
@@ -18,6 +24,9 @@ describe('AFKDetectionService', () => {
   let mockWarningService: WarningService;
   let mockConfigService: GuildConfigService;
   let mockRateLimiter: RateLimiter;
+  let mockTrackingRepository: AFKTrackingRepository;
+  let mockEventRepository: AFKEventRepository;
+  let metrics: BotMetrics;
   let mockLogger: ReturnType<typeof createMockLogger>;
   let service: AFKDetectionService;
 
@@ -32,31 +41,55 @@ describe('AFKDetectionService', () => {
     mockClient = {
       guilds: {
         fetch: vi.fn(),
+        cache: new Map(),
       },
     } as unknown as Client;
 
     // Mock the WarningService
     mockWarningService = {
-      sendWarning: vi.fn(),
+      sendWarning: vi.fn().mockResolvedValue(['channel']),
+      updateWarning: vi.fn().mockResolvedValue(undefined),
+      clearWarning: vi.fn().mockResolvedValue(undefined),
     } as unknown as WarningService;
 
     // Mock the GuildConfigService
     mockConfigService = {
       getConfig: vi.fn(),
+      getEffectiveConfig: vi.fn((guildId: string) => mockConfigService.getConfig(guildId)),
     } as unknown as GuildConfigService;
 
     // Mock the RateLimiter
     mockRateLimiter = {
       recordAction: vi.fn(),
       getActionCount: vi.fn().mockReturnValue(0),
+      getKickPauseRemainingMs: vi.fn().mockReturnValue(0),
     } as unknown as RateLimiter;
 
+    // Mock the AFKTrackingRepository
+    mockTrackingRepository = {
+      findAll: vi.fn().mockReturnValue([]),
+      upsert: vi.fn(),
+      markWarned: vi.fn(),
+      delete: vi.fn(),
+    } as unknown as AFKTrackingRepository;
+
+    // Mock the AFKEventRepository
+    mockEventRepository = {
+      insert: vi.fn(),
+      find: vi.fn(),
+    } as unknown as AFKEventRepository;
+
+    metrics = new BotMetrics();
+
     service = new AFKDetectionService(
       mockWarningService,
       mockConfigService,
       mockClient,
       mockLogger,
-      mockRateLimiter
+      mockRateLimiter,
+      mockTrackingRepository,
+      mockEventRepository,
+      metrics
     );
   });
 
@@ -98,6 +131,36 @@ describe('AFKDetectionService', () => {
       });
     });
 
+    describe('when an enforcement schedule is set', () => {
+      const guildId = 'scheduled-guild';
+      const userId = 'user-123';
+      const channelId = 'channel-456';
+      const scheduleWindows = [{ days: [1], start: '18:00', end: '22:00' }];
+
+      it('should not track users outside the schedule', async () => {
+        // 2024-01-01 was a Monday
+        vi.setSystemTime(Date.UTC(2024, 0, 1, 23, 0));
+        vi.mocked(mockConfigService.getConfig).mockReturnValue(
+          createMockGuildSettings({ guildId, enabled: true, scheduleWindows })
+        );
+
+        await service.startTracking(guildId, userId, channelId);
+
+        expect(service.isTracking(guildId, userId)).toBe(false);
+      });
+
+      it('should track users inside the schedule', async () => {
+        vi.setSystemTime(Date.UTC(2024, 0, 1, 19, 0));
+        vi.mocked(mockConfigService.getConfig).mockReturnValue(
+          createMockGuildSettings({ guildId, enabled: true, scheduleWindows })
+        );
+
+        await service.startTracking(guildId, userId, channelId);
+
+        expect(service.isTracking(guildId, userId)).toBe(true);
+      });
+    });
+
     describe('when config is enabled', () => {
       it('should start tracking user with enabled config', async () => {
         const guildId = 'enabled-guild';
@@ -127,7 +190,7 @@ describe('AFKDetectionService', () => {
             warningChannelId: 'warning-channel',
           })
         );
-        vi.mocked(mockWarningService.sendWarning).mockResolvedValue();
+        vi.mocked(mockWarningService.sendWarning).mockResolvedValue(['channel']);
 
         await service.startTracking(guildId, userId, channelId);
 
@@ -167,7 +230,7 @@ describe('AFKDetectionService', () => {
           })
         );
         vi.mocked(mockClient.guilds.fetch).mockResolvedValue(mockGuild as Guild);
-        vi.mocked(mockWarningService.sendWarning).mockResolvedValue();
+        vi.mocked(mockWarningService.sendWarning).mockResolvedValue(['channel']);
 
         const mockDisconnect = vi.fn();
         (mockMember.voice as any).disconnect = mockDisconnect;
@@ -201,7 +264,7 @@ describe('AFKDetectionService', () => {
             warningSecondsBefore: 120, // 2 minutes before
           })
         );
-        vi.mocked(mockWarningService.sendWarning).mockResolvedValue();
+        vi.mocked(mockWarningService.sendWarning).mockResolvedValue(['channel']);
 
         await service.startTracking(guildId, userId, channelId);
 
@@ -266,7 +329,7 @@ describe('AFKDetectionService', () => {
             warningSecondsBefore: 30,
           })
         );
-        vi.mocked(mockWarningService.sendWarning).mockResolvedValue();
+        vi.mocked(mockWarningService.sendWarning).mockResolvedValue(['channel']);
 
         await service.startTracking(guildId, userId, channelId1);
 
@@ -398,7 +461,7 @@ describe('AFKDetectionService', () => {
           warningSecondsBefore: 30,
         })
       );
-      vi.mocked(mockWarningService.sendWarning).mockResolvedValue();
+      vi.mocked(mockWarningService.sendWarning).mockResolvedValue(['channel']);
 
       await service.startTracking(guildId, userId, channelId);
 
@@ -413,6 +476,34 @@ describe('AFKDetectionService', () => {
       expect(mockWarningService.sendWarning).not.toHaveBeenCalled();
     });
 
+    it('should record a stop event only when given an audit reason', async () => {
+      vi.mocked(mockConfigService.getConfig).mockReturnValue(
+        createMockGuildSettings({ guildId: 'guild-1', enabled: true })
+      );
+      await service.startTracking('guild-1', 'user-1', 'channel-1');
+      await service.startTracking('guild-1', 'user-2', 'channel-1');
+
+      service.stopTracking('guild-1', 'user-1');
+      service.stopTracking('guild-1', 'user-2', 'api');
+
+      expect(mockEventRepository.insert).toHaveBeenCalledTimes(1);
+      expect(mockEventRepository.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ guildId: 'guild-1', userId: 'user-2', channelId: 'channel-1', action: 'stop', reason: 'api' })
+      );
+      expect(service.isTracking('guild-1', 'user-2')).toBe(false);
+    });
+
+    it('should report whether the member was being tracked', async () => {
+      vi.mocked(mockConfigService.getConfig).mockReturnValue(
+        createMockGuildSettings({ guildId: 'guild-1', enabled: true })
+      );
+      await service.startTracking('guild-1', 'user-1', 'channel-1');
+
+      expect(service.stopTracking('guild-1', 'user-1', 'api:token')).toBe(true);
+      expect(service.stopTracking('guild-1', 'user-1', 'api:token')).toBe(false);
+      expect(mockEventRepository.insert).toHaveBeenCalledTimes(1);
+    });
+
     it('should do nothing when stopping non-tracked user', () => {
       const guildId = 'not-tracked-guild';
       const userId = 'not-tracked-user';
@@ -439,14 +530,14 @@ describe('AFKDetectionService', () => {
           warningSecondsBefore: 30,
         })
       );
-      vi.mocked(mockWarningService.sendWarning).mockResolvedValue();
+      vi.mocked(mockWarningService.sendWarning).mockResolvedValue(['channel']);
 
       await service.startTracking(guildId, userId, channelId);
 
       // Advance partway
       await vi.advanceTimersByTimeAsync(60000);
 
-      await service.resetTimer(guildId, userId);
+      await expect(service.resetTimer(guildId, userId)).resolves.toBe(true);
 
       // Advance to where old warning would have been (70s from start)
       await vi.advanceTimersByTimeAsync(10000);
@@ -463,7 +554,8 @@ describe('AFKDetectionService', () => {
       const guildId = 'not-tracked-reset-guild';
       const userId = 'not-tracked-reset-user';
 
-      await expect(service.resetTimer(guildId, userId)).resolves.toBeUndefined();
+      await expect(service.resetTimer(guildId, userId)).resolves.toBe(false);
+      expect(mockEventRepository.insert).not.toHaveBeenCalled();
     });
 
     it('should preserve channel info when resetting', async () => {
@@ -479,7 +571,7 @@ describe('AFKDetectionService', () => {
           warningSecondsBefore: 30,
         })
       );
-      vi.mocked(mockWarningService.sendWarning).mockResolvedValue();
+      vi.mocked(mockWarningService.sendWarning).mockResolvedValue(['channel']);
 
       await service.startTracking(guildId, userId, channelId);
       await service.resetTimer(guildId, userId);
@@ -575,7 +667,7 @@ describe('AFKDetectionService', () => {
           warningSecondsBefore: 50,
         })
       );
-      vi.mocked(mockWarningService.sendWarning).mockResolvedValue();
+      vi.mocked(mockWarningService.sendWarning).mockResolvedValue(['channel']);
 
       await service.startTracking(guildId, userId, channelId);
 
@@ -749,166 +841,1470 @@ describe('AFKDetectionService', () => {
     });
   });
 
-  describe('MIN_USERS_FOR_AFK_TRACKING constant', () => {
-    it('should exist and equal 2', () => {
-      expect(MIN_USERS_FOR_AFK_TRACKING).toBe(2);
+  describe('configured AFK actions', () => {
+    const guildId = 'action-guild';
+    const userId = 'action-user';
+    const channelId = 'action-channel';
+
+    let mockVoice: Record<string, any>;
+    let mockMember: Record<string, any>;
+    let mockGuild: Record<string, any>;
+
+    const runKick = async (overrides: Partial<GuildSettings>): Promise<void> => {
+      vi.mocked(mockConfigService.getConfig).mockReturnValue(
+        createMockGuildSettings({
+          guildId,
+          enabled: true,
+          afkTimeoutSeconds: 100,
+          warningSecondsBefore: 20,
+          ...overrides,
+        })
+      );
+
+      await service.startTracking(guildId, userId, channelId);
+      await vi.advanceTimersByTimeAsync(100000);
+    };
+
+    beforeEach(() => {
+      mockVoice = {
+        channel: { id: channelId },
+        channelId,
+        disconnect: vi.fn().mockResolvedValue(undefined),
+        setChannel: vi.fn().mockResolvedValue(undefined),
+        setMute: vi.fn().mockResolvedValue(undefined),
+        setDeaf: vi.fn().mockResolvedValue(undefined),
+      };
+      mockMember = {
+        voice: mockVoice,
+        timeout: vi.fn().mockResolvedValue(undefined),
+        roles: { add: vi.fn().mockResolvedValue(undefined) },
+      };
+      mockGuild = {
+        id: guildId,
+        afkChannelId: 'guild-afk-channel',
+        members: {
+          fetch: vi.fn().mockResolvedValue(mockMember),
+          me: { permissions: { missing: vi.fn().mockReturnValue([]) } },
+        },
+      };
+      vi.mocked(mockClient.guilds.fetch).mockResolvedValue(mockGuild as unknown as Guild);
+      vi.mocked(mockWarningService.sendWarning).mockResolvedValue(['channel']);
     });
 
-    it('should be a number', () => {
-      expect(typeof MIN_USERS_FOR_AFK_TRACKING).toBe('number');
+    it('should move the user to the configured channel', async () => {
+      await runKick({ afkAction: 'move', afkMoveChannelId: 'configured-afk-channel' });
+
+      expect(mockVoice.setChannel).toHaveBeenCalledWith('configured-afk-channel', 'AFK timeout');
+      expect(mockVoice.disconnect).not.toHaveBeenCalled();
+      expect(mockRateLimiter.recordAction).toHaveBeenCalledWith('voice.setChannel', guildId);
     });
 
-    it('should be positive', () => {
-      expect(MIN_USERS_FOR_AFK_TRACKING).toBeGreaterThan(0);
+    it('should fall back to the guild AFK channel for the move action', async () => {
+      await runKick({ afkAction: 'move', afkMoveChannelId: null });
+
+      expect(mockVoice.setChannel).toHaveBeenCalledWith('guild-afk-channel', 'AFK timeout');
     });
-  });
 
-  describe('stopAllTrackingForChannel', () => {
-    const guildId = 'bulk-stop-guild';
-    const channelId = 'target-channel';
+    it('should disconnect when the move action has no channel to move to', async () => {
+      mockGuild.afkChannelId = null;
 
-    describe('when multiple users are in same channel', () => {
-      it('should stop tracking all users in that specific channel', async () => {
-        const user1 = 'user-1';
-        const user2 = 'user-2';
-        const user3 = 'user-3';
+      await runKick({ afkAction: 'move', afkMoveChannelId: null });
 
-        vi.mocked(mockConfigService.getConfig).mockReturnValue(
-          createMockGuildSettings({ guildId, enabled: true })
+      expect(mockVoice.setChannel).not.toHaveBeenCalled();
+      expect(mockVoice.disconnect).toHaveBeenCalledWith('AFK timeout');
+    });
+
+    it('should server-mute and deafen for the mute action', async () => {
+      await runKick({ afkAction: 'mute' });
+
+      expect(mockVoice.setMute).toHaveBeenCalledWith(true, 'AFK timeout');
+      expect(mockVoice.setDeaf).toHaveBeenCalledWith(true, 'AFK timeout');
+      expect(mockVoice.disconnect).not.toHaveBeenCalled();
+    });
+
+    it('should apply a native timeout for the configured duration', async () => {
+      await runKick({ afkAction: 'timeout', memberTimeoutSeconds: 900 });
+
+      expect(mockMember.timeout).toHaveBeenCalledWith(900000, 'AFK timeout');
+      expect(mockRateLimiter.recordAction).toHaveBeenCalledWith('member.timeout', guildId);
+    });
+
+    it('should assign the configured role for the role action', async () => {
+      await runKick({ afkAction: 'role', afkRoleId: 'sleeping-role' });
+
+      expect(mockMember.roles.add).toHaveBeenCalledWith('sleeping-role', 'AFK timeout');
+    });
+
+    it('should skip the role action when no role is configured', async () => {
+      await runKick({ afkAction: 'role', afkRoleId: null });
+
+      expect(mockMember.roles.add).not.toHaveBeenCalled();
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ guildId, userId, afkAction: 'role' }),
+        'No AFK role configured, skipping AFK action'
+      );
+    });
+
+    it('should skip the action and log when the bot is missing permissions', async () => {
+      mockGuild.members.me.permissions.missing.mockReturnValue(['ModerateMembers']);
+
+      await runKick({ afkAction: 'timeout' });
+
+      expect(mockMember.timeout).not.toHaveBeenCalled();
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ afkAction: 'timeout', missingPermissions: ['ModerateMembers'] }),
+        'Missing permissions for AFK action, skipping'
+      );
+    });
+
+    it('should defer the action while the rate limiter has enforcement paused', async () => {
+      vi.mocked(mockRateLimiter.getKickPauseRemainingMs).mockReturnValueOnce(30000);
+
+      await runKick({ afkAction: 'disconnect' });
+
+      expect(mockVoice.disconnect).not.toHaveBeenCalled();
+      expect(service.isTracking(guildId, userId)).toBe(true);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ guildId, userId, delayMs: 30000, action: 'kick_deferred' }),
+        'AFK enforcement paused by rate limiter, deferring action'
+      );
+      expect(mockTrackingRepository.upsert).toHaveBeenLastCalledWith(
+        expect.objectContaining({ guildId, userId, kickAt: Date.now() + 30000 })
+      );
+
+      await vi.advanceTimersByTimeAsync(30000);
+
+      expect(mockVoice.disconnect).toHaveBeenCalledWith('AFK timeout');
+      expect(service.isTracking(guildId, userId)).toBe(false);
+    });
+
+    describe('message templates', () => {
+      beforeEach(() => {
+        mockGuild.name = 'Action Guild';
+        mockWarningService.sendKickDm = vi.fn().mockResolvedValue(undefined);
+      });
+
+      it("should give Discord the guild's kick reason template", async () => {
+        await runKick({ afkAction: 'disconnect', messageTemplates: { kickReason: 'Idle in {channel} for {timeout}m' } });
+
+        expect(mockVoice.disconnect).toHaveBeenCalledWith(`Idle in <#${channelId}> for 2m`);
+      });
+
+      it("should translate the built-in kick reason into the guild's preferred locale", async () => {
+        mockGuild.preferredLocale = 'fr';
+
+        await runKick({ afkAction: 'mute' });
+
+        expect(mockVoice.setMute).toHaveBeenCalledWith(true, "Délai d'inactivité dépassé");
+      });
+
+      it('should DM the member after the action when enabled', async () => {
+        await runKick({ afkAction: 'disconnect', kickDmEnabled: true });
+
+        expect(mockWarningService.sendKickDm).toHaveBeenCalledWith(
+          mockMember,
+          `You were marked AFK in <#${channelId}> on Action Guild after 2 minutes without activity.`
         );
+      });
 
-        await service.startTracking(guildId, user1, channelId);
-        await service.startTracking(guildId, user2, channelId);
-        await service.startTracking(guildId, user3, channelId);
+      it('should not DM the member when disabled or when the action failed', async () => {
+        await runKick({ afkAction: 'disconnect', kickDmEnabled: false });
+        await runKick({ afkAction: 'role', afkRoleId: null, kickDmEnabled: true });
 
-        service.stopAllTrackingForChannel(guildId, channelId);
+        expect(mockWarningService.sendKickDm).not.toHaveBeenCalled();
+      });
+    });
 
-        expect(service.isTracking(guildId, user1)).toBe(false);
-        expect(service.isTracking(guildId, user2)).toBe(false);
-        expect(service.isTracking(guildId, user3)).toBe(false);
+    describe('audit events', () => {
+      const recordedActions = (): string[] =>
+        vi.mocked(mockEventRepository.insert).mock.calls.map(([event]) => event.action);
+
+      it('should record the warning and kick with one correlation ID and a config snapshot', async () => {
+        await runKick({ afkAction: 'disconnect' });
+
+        const [warning, kick] = vi.mocked(mockEventRepository.insert).mock.calls.map(([event]) => event);
+        expect(warning).toMatchObject({ guildId, userId, channelId, action: 'warning' });
+        expect(kick).toMatchObject({
+          guildId,
+          userId,
+          channelId,
+          action: 'kick',
+          reason: 'disconnect',
+          configSnapshot: { enabled: true, afkTimeoutSeconds: 100, warningSecondsBefore: 20, afkAction: 'disconnect' },
+        });
+        expect(kick?.correlationId).toEqual(expect.any(String));
+        expect(kick?.correlationId).toBe(warning?.correlationId);
       });
 
-      it('should clear all timers for stopped users', async () => {
-        const user1 = 'timer-user-1';
-        const user2 = 'timer-user-2';
+      it('should record the action actually taken when a move falls back to disconnect', async () => {
+        mockGuild.afkChannelId = null;
+
+        await runKick({ afkAction: 'move', afkMoveChannelId: null });
+
+        expect(mockEventRepository.insert).toHaveBeenLastCalledWith(
+          expect.objectContaining({ action: 'kick', reason: 'disconnect (no AFK channel)' })
+        );
+      });
+
+      it('should record a failed kick when permissions are missing', async () => {
+        mockGuild.members.me.permissions.missing.mockReturnValue(['ModerateMembers']);
+
+        await runKick({ afkAction: 'timeout' });
+
+        expect(mockEventRepository.insert).toHaveBeenLastCalledWith(
+          expect.objectContaining({ action: 'kick_failed', reason: 'missing_permissions: ModerateMembers' })
+        );
+      });
+
+      it('should record a failed kick with the error message when Discord rejects it', async () => {
+        mockVoice.disconnect.mockRejectedValue(new Error('Missing Access'));
+
+        await runKick({ afkAction: 'disconnect' });
 
+        expect(recordedActions()).toEqual(['warning', 'kick_failed']);
+        expect(mockEventRepository.insert).toHaveBeenLastCalledWith(
+          expect.objectContaining({ action: 'kick_failed', reason: 'Missing Access' })
+        );
+      });
+
+      it('should record a timer reset with its reason under the old session', async () => {
         vi.mocked(mockConfigService.getConfig).mockReturnValue(
-          createMockGuildSettings({
-            guildId,
-            enabled: true,
-            afkTimeoutSeconds: 100,
-            warningSecondsBefore: 30,
-          })
+          createMockGuildSettings({ guildId, enabled: true, afkTimeoutSeconds: 100, warningSecondsBefore: 20 })
         );
-        vi.mocked(mockWarningService.sendWarning).mockResolvedValue();
+        await service.startTracking(guildId, userId, channelId);
+        await vi.advanceTimersByTimeAsync(80000);
 
-        await service.startTracking(guildId, user1, channelId);
-        await service.startTracking(guildId, user2, channelId);
+        await service.resetTimer(guildId, userId, 'still_here_button');
 
-        service.stopAllTrackingForChannel(guildId, channelId);
+        const [warning, reset] = vi.mocked(mockEventRepository.insert).mock.calls.map(([event]) => event);
+        expect(reset).toMatchObject({ action: 'reset', reason: 'still_here_button', channelId });
+        expect(reset?.correlationId).toBe(warning?.correlationId);
+      });
 
-        // Advance past warning time
-        await vi.advanceTimersByTimeAsync(100000);
+      it('should record an exemption hit with the matched role', async () => {
+        vi.mocked(mockConfigService.getConfig).mockReturnValue(
+          createMockGuildSettings({ guildId, enabled: true, exemptRoleIds: ['exempt-role'] })
+        );
+        mockMember.roles = { cache: { find: vi.fn().mockReturnValue({ id: 'exempt-role' }) } };
 
-        expect(mockWarningService.sendWarning).not.toHaveBeenCalled();
+        await service.startTracking(guildId, userId, channelId);
+
+        expect(service.isTracking(guildId, userId)).toBe(false);
+        expect(mockEventRepository.insert).toHaveBeenCalledWith(
+          expect.objectContaining({ guildId, userId, channelId, action: 'exempt', reason: 'role:exempt-role' })
+        );
+      });
+
+      it('should keep enforcing when the audit log write fails', async () => {
+        vi.mocked(mockEventRepository.insert).mockImplementation(() => {
+          throw new Error('disk full');
+        });
+
+        await runKick({ afkAction: 'disconnect' });
+
+        expect(mockVoice.disconnect).toHaveBeenCalledWith('AFK timeout');
+        expect(mockLogger.error).toHaveBeenCalledWith(
+          expect.objectContaining({ guildId, userId, eventAction: 'kick' }),
+          'Failed to record AFK event'
+        );
       });
     });
 
-    describe('when users are in different channels', () => {
-      it('should only stop users in target channel and leave other channels untouched', async () => {
-        const user1 = 'user-in-target';
-        const user2 = 'user-in-other';
-        const otherChannel = 'other-channel';
+    describe('enforcement modes', () => {
+      const recordedEvents = (): Array<{ action: string; reason: string | null }> =>
+        vi.mocked(mockEventRepository.insert).mock.calls.map(([event]) => ({ action: event.action, reason: event.reason }));
 
-        vi.mocked(mockConfigService.getConfig).mockReturnValue(
-          createMockGuildSettings({ guildId, enabled: true })
+      it('should only record would-be warnings and actions in observe mode', async () => {
+        await runKick({ afkAction: 'disconnect', mode: 'observe' });
+
+        expect(mockWarningService.sendWarning).not.toHaveBeenCalled();
+        expect(mockClient.guilds.fetch).not.toHaveBeenCalled();
+        expect(mockVoice.disconnect).not.toHaveBeenCalled();
+        expect(recordedEvents()).toEqual([
+          { action: 'would_warn', reason: null },
+          { action: 'would_kick', reason: 'disconnect' },
+        ]);
+        expect(service.isTracking(guildId, userId)).toBe(false);
+        expect(mockTrackingRepository.delete).toHaveBeenCalledWith(guildId, userId);
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          expect.objectContaining({ guildId, userId, afkAction: 'disconnect', mode: 'observe' }),
+          'AFK action not applied: guild is not in enforce mode'
         );
+      });
 
-        await service.startTracking(guildId, user1, channelId);
-        await service.startTracking(guildId, user2, otherChannel);
+      it('should warn but only record the AFK action in warn-only mode', async () => {
+        await runKick({ afkAction: 'timeout', mode: 'warn-only' });
 
-        service.stopAllTrackingForChannel(guildId, channelId);
+        expect(mockWarningService.sendWarning).toHaveBeenCalledWith(guildId, userId, channelId);
+        expect(mockMember.timeout).not.toHaveBeenCalled();
+        expect(recordedEvents()).toEqual([
+          { action: 'warning', reason: 'channel' },
+          { action: 'would_kick', reason: 'timeout' },
+        ]);
+        expect(metrics.afkActions.get({ action: 'timeout' })).toBe(0);
+      });
 
-        expect(service.isTracking(guildId, user1)).toBe(false);
-        expect(service.isTracking(guildId, user2)).toBe(true);
+      it('should record where the warning was delivered', async () => {
+        vi.mocked(mockWarningService.sendWarning).mockResolvedValueOnce(['dm', 'channel']).mockResolvedValueOnce([]);
+
+        await runKick({ afkAction: 'timeout', mode: 'warn-only' });
+        await runKick({ afkAction: 'timeout', mode: 'warn-only' });
+
+        expect(recordedEvents().filter(event => event.action === 'warning')).toEqual([
+          { action: 'warning', reason: 'dm+channel' },
+          { action: 'warning', reason: 'undelivered' },
+        ]);
       });
 
-      it('should preserve timers for users in other channels', async () => {
-        const userInTarget = 'user-target';
-        const userInOther = 'user-other';
-        const otherChannel = 'other-channel';
+      it('should include the mode in the config snapshot', async () => {
+        await runKick({ mode: 'observe' });
+
+        expect(mockEventRepository.insert).toHaveBeenLastCalledWith(
+          expect.objectContaining({ configSnapshot: expect.objectContaining({ mode: 'observe' }) })
+        );
+      });
+    });
 
+    describe('warning countdown', () => {
+      const startStagedTracking = async (overrides: Partial<GuildSettings> = {}): Promise<void> => {
         vi.mocked(mockConfigService.getConfig).mockReturnValue(
           createMockGuildSettings({
             guildId,
             enabled: true,
             afkTimeoutSeconds: 100,
-            warningSecondsBefore: 30,
+            warningSecondsBefore: 60,
+            warningStages: [10, 30],
+            ...overrides,
           })
         );
-        vi.mocked(mockWarningService.sendWarning).mockResolvedValue();
-
-        await service.startTracking(guildId, userInTarget, channelId);
-        await service.startTracking(guildId, userInOther, otherChannel);
 
-        service.stopAllTrackingForChannel(guildId, channelId);
+        await service.startTracking(guildId, userId, channelId);
+      };
 
-        // Advance to warning time
-        await vi.advanceTimersByTimeAsync(70000);
+      it('should update the warning at each stage, then delete it once the action is applied', async () => {
+        await startStagedTracking();
 
-        // Only user in other channel should get warning
+        await vi.advanceTimersByTimeAsync(40000);
         expect(mockWarningService.sendWarning).toHaveBeenCalledTimes(1);
-        expect(mockWarningService.sendWarning).toHaveBeenCalledWith(guildId, userInOther, otherChannel);
+        expect(mockWarningService.updateWarning).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(30000);
+        expect(mockWarningService.updateWarning).toHaveBeenCalledWith(guildId, userId, channelId, 30);
+
+        await vi.advanceTimersByTimeAsync(20000);
+        expect(mockWarningService.updateWarning).toHaveBeenLastCalledWith(guildId, userId, channelId, 10);
+        expect(mockVoice.disconnect).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(10000);
+        expect(mockVoice.disconnect).toHaveBeenCalled();
+        expect(mockWarningService.updateWarning).toHaveBeenCalledTimes(2);
+        expect(mockWarningService.clearWarning).toHaveBeenCalledWith(guildId, userId, 'delete');
       });
-    });
 
-    describe('when channel has no tracked users', () => {
-      it('should be a no-op and not throw', () => {
-        const emptyChannel = 'empty-channel';
+      it('should ignore stages that are not below the warning time', async () => {
+        await startStagedTracking({ warningStages: [90, 60, 30] });
 
-        expect(() => {
-          service.stopAllTrackingForChannel(guildId, emptyChannel);
-        }).not.toThrow();
+        await vi.advanceTimersByTimeAsync(100000);
+
+        expect(mockWarningService.updateWarning).toHaveBeenCalledTimes(1);
+        expect(mockWarningService.updateWarning).toHaveBeenCalledWith(guildId, userId, channelId, 30);
       });
-    });
 
-    describe('guild isolation', () => {
-      it('should only affect the specified guild', async () => {
-        const guild1 = 'guild-1';
-        const guild2 = 'guild-2';
-        const userId = 'cross-guild-user';
+      it('should dismiss the warning and cancel later stages when the member becomes active', async () => {
+        await startStagedTracking();
+        await vi.advanceTimersByTimeAsync(45000);
 
-        vi.mocked(mockConfigService.getConfig).mockReturnValue(
-          createMockGuildSettings({ enabled: true })
-        );
+        await service.resetTimer(guildId, userId);
+        await vi.advanceTimersByTimeAsync(30000);
 
-        await service.startTracking(guild1, userId, channelId);
-        await service.startTracking(guild2, userId, channelId);
+        expect(mockWarningService.clearWarning).toHaveBeenCalledWith(guildId, userId, 'dismiss');
+        expect(mockWarningService.updateWarning).not.toHaveBeenCalled();
+      });
 
-        service.stopAllTrackingForChannel(guild1, channelId);
+      it('should not touch any warning when the member becomes active before being warned', async () => {
+        await startStagedTracking();
+        await vi.advanceTimersByTimeAsync(20000);
 
-        expect(service.isTracking(guild1, userId)).toBe(false);
-        expect(service.isTracking(guild2, userId)).toBe(true);
+        await service.resetTimer(guildId, userId);
+
+        expect(mockWarningService.clearWarning).not.toHaveBeenCalled();
+      });
+
+      it('should not count down in observe mode', async () => {
+        await startStagedTracking({ mode: 'observe' });
+
+        await vi.advanceTimersByTimeAsync(100000);
+
+        expect(mockWarningService.updateWarning).not.toHaveBeenCalled();
       });
     });
 
-    describe('edge cases', () => {
-      it('should handle stopping same channel multiple times', async () => {
-        const userId = 'edge-user';
+    describe('metrics', () => {
+      it('should count applied actions by configured action', async () => {
+        await runKick({ afkAction: 'mute' });
 
-        vi.mocked(mockConfigService.getConfig).mockReturnValue(
-          createMockGuildSettings({ guildId, enabled: true })
-        );
+        expect(metrics.afkActions.get({ action: 'mute' })).toBe(1);
+        expect(metrics.afkActionFailures.get({ code: 'unknown' })).toBe(0);
+      });
 
-        await service.startTracking(guildId, userId, channelId);
+      it('should count failures by Discord API error code', async () => {
+        mockVoice.disconnect.mockRejectedValue(Object.assign(new Error('Missing Permissions'), { code: 50013 }));
 
-        expect(() => {
-          service.stopAllTrackingForChannel(guildId, channelId);
-          service.stopAllTrackingForChannel(guildId, channelId);
-        }).not.toThrow();
+        await runKick({ afkAction: 'disconnect' });
+
+        expect(metrics.afkActionFailures.get({ code: '50013' })).toBe(1);
+        expect(metrics.afkActions.get({ action: 'disconnect' })).toBe(0);
       });
 
-      it('should handle empty string channel ID', async () => {
+      it('should count bot-side failures by reason', async () => {
+        mockGuild.members.me.permissions.missing.mockReturnValue(['ModerateMembers']);
+
+        await runKick({ afkAction: 'timeout' });
+
+        expect(metrics.afkActionFailures.get({ code: 'missing_permissions' })).toBe(1);
+      });
+    });
+
+    describe('escalation', () => {
+      let mockEscalationService: EscalationService;
+
+      beforeEach(() => {
+        mockEscalationService = {
+          resolvePenalty: vi.fn().mockReturnValue({ action: 'timeout', memberTimeoutSeconds: 1800, notify: false, strikeCount: 3 }),
+          recordStrike: vi.fn(),
+          notifyModerators: vi.fn().mockResolvedValue(undefined),
+        } as unknown as EscalationService;
+
+        service = new AFKDetectionService(
+          mockWarningService,
+          mockConfigService,
+          mockClient,
+          mockLogger,
+          mockRateLimiter,
+          mockTrackingRepository,
+          mockEventRepository,
+          metrics,
+          mockEscalationService
+        );
+      });
+
+      it('should apply the escalated action instead of the configured one and record a strike', async () => {
+        await runKick({ afkAction: 'disconnect', escalationEnabled: true });
+
+        expect(mockVoice.disconnect).not.toHaveBeenCalled();
+        expect(mockMember.timeout).toHaveBeenCalledWith(1800 * 1000, 'AFK timeout');
+        expect(mockEscalationService.recordStrike).toHaveBeenCalledWith(guildId, userId, channelId, 'timeout');
+        expect(mockEscalationService.notifyModerators).not.toHaveBeenCalled();
+        expect(mockEventRepository.insert).toHaveBeenLastCalledWith(
+          expect.objectContaining({ action: 'kick', reason: 'timeout (strike 3)' })
+        );
+        expect(metrics.afkActions.get({ action: 'timeout' })).toBe(1);
+      });
+
+      it('should check permissions for the escalated action', async () => {
+        mockGuild.members.me.permissions.missing.mockReturnValue(['ModerateMembers']);
+
+        await runKick({ afkAction: 'disconnect', escalationEnabled: true });
+
+        expect(mockGuild.members.me.permissions.missing).toHaveBeenCalledWith(['ModerateMembers']);
+        expect(mockEscalationService.recordStrike).not.toHaveBeenCalled();
+      });
+
+      it('should notify moderators when the step asks for it', async () => {
+        const penalty = { action: 'disconnect', memberTimeoutSeconds: 600, notify: true, strikeCount: 5 };
+        vi.mocked(mockEscalationService.resolvePenalty).mockReturnValue(penalty as any);
+
+        await runKick({ escalationEnabled: true });
+
+        expect(mockVoice.disconnect).toHaveBeenCalled();
+        expect(mockEscalationService.notifyModerators).toHaveBeenCalledWith(
+          expect.objectContaining({ guildId }),
+          userId,
+          channelId,
+          penalty
+        );
+      });
+
+      it('should not record a strike when the action fails', async () => {
+        mockMember.timeout.mockRejectedValue(new Error('Missing Permissions'));
+
+        await runKick({ escalationEnabled: true });
+
+        expect(mockEscalationService.recordStrike).not.toHaveBeenCalled();
+        expect(mockEventRepository.insert).toHaveBeenLastCalledWith(expect.objectContaining({ action: 'kick_failed' }));
+      });
+
+      it('should not record strikes while escalation is disabled', async () => {
+        vi.mocked(mockEscalationService.resolvePenalty).mockReturnValue({
+          action: 'disconnect',
+          memberTimeoutSeconds: 600,
+          notify: false,
+          strikeCount: null,
+        });
+
+        await runKick({ afkAction: 'disconnect', escalationEnabled: false });
+
+        expect(mockVoice.disconnect).toHaveBeenCalled();
+        expect(mockEscalationService.recordStrike).not.toHaveBeenCalled();
+        expect(mockEventRepository.insert).toHaveBeenLastCalledWith(expect.objectContaining({ reason: 'disconnect' }));
+      });
+
+      it('should not escalate or record strikes outside enforce mode', async () => {
+        await runKick({ escalationEnabled: true, mode: 'warn-only' });
+
+        expect(mockEscalationService.resolvePenalty).not.toHaveBeenCalled();
+        expect(mockEscalationService.recordStrike).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('mod log', () => {
+      let mockModLogService: ModLogService;
+
+      beforeEach(() => {
+        mockModLogService = { log: vi.fn() } as unknown as ModLogService;
+
+        service = new AFKDetectionService(
+          mockWarningService,
+          mockConfigService,
+          mockClient,
+          mockLogger,
+          mockRateLimiter,
+          mockTrackingRepository,
+          mockEventRepository,
+          metrics,
+          null,
+          null,
+          mockModLogService
+        );
+      });
+
+      it('should log the action that was applied', async () => {
+        await runKick({ afkAction: 'disconnect' });
+
+        expect(mockModLogService.log).toHaveBeenCalledWith(
+          expect.objectContaining({ guildId, userId, channelId, outcome: 'kick', detail: 'disconnect', errorCode: null })
+        );
+      });
+
+      it('should log failures with the Discord error code', async () => {
+        mockVoice.disconnect.mockRejectedValue(Object.assign(new Error('Unknown Member'), { code: 10007 }));
+
+        await runKick({ afkAction: 'disconnect' });
+
+        expect(mockModLogService.log).toHaveBeenCalledWith(
+          expect.objectContaining({ outcome: 'kick_failed', detail: 'Unknown Member', errorCode: '10007' })
+        );
+      });
+
+      it('should log missing permissions as a failure', async () => {
+        mockGuild.members.me.permissions.missing.mockReturnValue(['MoveMembers']);
+
+        await runKick({ afkAction: 'disconnect' });
+
+        expect(mockModLogService.log).toHaveBeenCalledWith(
+          expect.objectContaining({ outcome: 'kick_failed', detail: 'missing_permissions: MoveMembers', errorCode: 'missing_permissions' })
+        );
+      });
+
+      it('should log exempt role matches', async () => {
+        vi.mocked(mockConfigService.getConfig).mockReturnValue(
+          createMockGuildSettings({ guildId, enabled: true, exemptRoleIds: ['exempt-role'] })
+        );
+        mockMember.roles = { cache: { find: vi.fn().mockReturnValue({ id: 'exempt-role' }) } };
+
+        await service.startTracking(guildId, userId, channelId);
+
+        expect(mockModLogService.log).toHaveBeenCalledWith(
+          expect.objectContaining({ outcome: 'exempt', detail: 'exempt role <@&exempt-role>', errorCode: null })
+        );
+      });
+
+      it('should log an exempt role match once per voice session', async () => {
+        vi.mocked(mockConfigService.getConfig).mockReturnValue(
+          createMockGuildSettings({ guildId, enabled: true, exemptRoleIds: ['exempt-role'] })
+        );
+        mockMember.roles = { cache: { find: vi.fn().mockReturnValue({ id: 'exempt-role' }) } };
+
+        // Each time the member stops speaking, tracking is started again
+        await service.startTracking(guildId, userId, channelId);
+        await service.startTracking(guildId, userId, channelId);
+        await service.startTracking(guildId, userId, channelId);
+
+        expect(mockModLogService.log).toHaveBeenCalledTimes(1);
+        expect(mockEventRepository.insert).toHaveBeenCalledTimes(1);
+
+        service.endVoiceSession(guildId, userId);
+        await service.startTracking(guildId, userId, channelId);
+
+        expect(mockModLogService.log).toHaveBeenCalledTimes(2);
+        expect(mockEventRepository.insert).toHaveBeenCalledTimes(2);
+      });
+
+      it('should log the match again when the member is exempt in another channel', async () => {
+        vi.mocked(mockConfigService.getConfig).mockReturnValue(
+          createMockGuildSettings({ guildId, enabled: true, exemptRoleIds: ['exempt-role'] })
+        );
+        mockMember.roles = { cache: { find: vi.fn().mockReturnValue({ id: 'exempt-role' }) } };
+
+        await service.startTracking(guildId, userId, channelId);
+        await service.startTracking(guildId, userId, 'other-channel');
+
+        expect(mockModLogService.log).toHaveBeenCalledTimes(2);
+      });
+
+      it('should not log would-be actions outside enforce mode', async () => {
+        await runKick({ afkAction: 'disconnect', mode: 'warn-only' });
+
+        expect(mockModLogService.log).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('forced actions', () => {
+      const startTracked = async (overrides: Partial<GuildSettings> = {}): Promise<void> => {
+        vi.mocked(mockConfigService.getConfig).mockReturnValue(
+          createMockGuildSettings({ guildId, enabled: true, afkTimeoutSeconds: 100, warningSecondsBefore: 20, ...overrides })
+        );
+        await service.startTracking(guildId, userId, channelId);
+      };
+
+      it('should apply the AFK action straight away with the given reason', async () => {
+        await startTracked({ afkAction: 'disconnect' });
+
+        const outcome = await service.forceAction(guildId, userId, 'Asked to by a moderator');
+
+        expect(outcome).toEqual({ action: 'kick', reason: 'disconnect' });
+        expect(mockVoice.disconnect).toHaveBeenCalledWith('Asked to by a moderator');
+        expect(mockEventRepository.insert).toHaveBeenLastCalledWith(
+          expect.objectContaining({ action: 'kick', reason: 'disconnect (forced: Asked to by a moderator)' })
+        );
+        expect(service.isTracking(guildId, userId)).toBe(false);
+        expect(mockTrackingRepository.delete).toHaveBeenCalledWith(guildId, userId);
+      });
+
+      it('should cancel the pending timers', async () => {
+        await startTracked();
+
+        await service.forceAction(guildId, userId, 'manual');
+        await vi.advanceTimersByTimeAsync(100000);
+
+        expect(mockWarningService.sendWarning).not.toHaveBeenCalled();
+        expect(mockVoice.disconnect).toHaveBeenCalledTimes(1);
+      });
+
+      it('should apply the action outside enforce mode and while enforcement is paused', async () => {
+        await startTracked({ afkAction: 'timeout', mode: 'observe' });
+        vi.mocked(mockRateLimiter.getKickPauseRemainingMs).mockReturnValue(60000);
+
+        await service.forceAction(guildId, userId, 'manual');
+
+        expect(mockMember.timeout).toHaveBeenCalledWith(expect.any(Number), 'manual');
+      });
+
+      it('should record a failed forced action', async () => {
+        await startTracked({ afkAction: 'disconnect' });
+        mockVoice.disconnect.mockRejectedValue(new Error('Missing Access'));
+
+        const outcome = await service.forceAction(guildId, userId, 'manual');
+
+        expect(outcome).toMatchObject({ action: 'kick_failed', reason: 'Missing Access' });
+        expect(mockEventRepository.insert).toHaveBeenLastCalledWith(
+          expect.objectContaining({ action: 'kick_failed', reason: 'Missing Access (forced: manual)' })
+        );
+      });
+
+      it('should return null for members who are not tracked or already left voice', async () => {
+        expect(await service.forceAction(guildId, userId, 'manual')).toBeNull();
+
+        await startTracked();
+        mockMember.voice = { channel: null };
+
+        expect(await service.forceAction(guildId, userId, 'manual')).toBeNull();
+        expect(service.isTracking(guildId, userId)).toBe(false);
+      });
+    });
+  });
+
+  describe('temporary exemptions', () => {
+    const guildId = 'exempt-guild';
+    const userId = 'exempt-user';
+    const channelId = 'exempt-channel';
+    let mockExemptionRepository: AFKExemptionRepository;
+
+    beforeEach(() => {
+      vi.setSystemTime(1_700_000_000_000);
+      mockExemptionRepository = {
+        findActiveByUser: vi.fn().mockReturnValue(null),
+      } as unknown as AFKExemptionRepository;
+
+      service = new AFKDetectionService(
+        mockWarningService,
+        mockConfigService,
+        mockClient,
+        mockLogger,
+        mockRateLimiter,
+        mockTrackingRepository,
+        mockEventRepository,
+        metrics,
+        null,
+        mockExemptionRepository
+      );
+
+      vi.mocked(mockConfigService.getConfig).mockReturnValue(
+        createMockGuildSettings({ guildId, enabled: true, afkTimeoutSeconds: 100, warningSecondsBefore: 30 })
+      );
+      vi.mocked(mockWarningService.sendWarning).mockResolvedValue(['channel']);
+    });
+
+    const mockActiveExemption = (exemption: AFKExemption): void => {
+      vi.mocked(mockExemptionRepository.findActiveByUser).mockImplementation(
+        (_guildId, _userId, now) => (exemption.expiresAt > now ? exemption : null)
+      );
+    };
+
+    it('should hold the AFK clock until the exemption expires', async () => {
+      mockActiveExemption({
+        id: 9,
+        guildId,
+        userId,
+        source: 'snooze',
+        reason: null,
+        grantedBy: userId,
+        expiresAt: Date.now() + 600_000,
+        createdAt: Date.now(),
+      });
+
+      await service.startTracking(guildId, userId, channelId);
+
+      expect(service.isTracking(guildId, userId)).toBe(true);
+      expect(mockEventRepository.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'exempt', reason: 'exemption:9' })
+      );
+
+      await vi.advanceTimersByTimeAsync(600_000 + 69_000);
+      expect(mockWarningService.sendWarning).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(mockWarningService.sendWarning).toHaveBeenCalled();
+    });
+
+    it('should hold the AFK clock for an exemption longer than the longest timer delay', async () => {
+      mockActiveExemption({
+        id: 13,
+        guildId,
+        userId,
+        source: 'moderator',
+        reason: null,
+        grantedBy: 'mod-1',
+        expiresAt: Date.now() + 30 * 24 * 60 * 60 * 1000,
+        createdAt: Date.now(),
+      });
+
+      await service.startTracking(guildId, userId, channelId);
+
+      await vi.advanceTimersByTimeAsync(30 * 24 * 60 * 60 * 1000 + 69_000);
+      expect(service.isTracking(guildId, userId)).toBe(true);
+      expect(mockWarningService.sendWarning).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(mockWarningService.sendWarning).toHaveBeenCalled();
+    });
+
+    it('should hold a restored timer until a long exemption expires', async () => {
+      const expiresAt = Date.now() + 30 * 24 * 60 * 60 * 1000;
+      mockActiveExemption({
+        id: 14,
+        guildId,
+        userId,
+        source: 'moderator',
+        reason: null,
+        grantedBy: 'mod-1',
+        expiresAt,
+        createdAt: Date.now(),
+      });
+      vi.mocked(mockTrackingRepository.findAll).mockReturnValue([
+        { guildId, userId, channelId, startedAt: Date.now(), warningAt: expiresAt + 70_000, kickAt: expiresAt + 100_000, warned: false },
+      ]);
+      const members = { filter: () => ({ size: 2 }) };
+      (mockClient.guilds as any).cache = new Map([
+        [guildId, {
+          id: guildId,
+          voiceStates: { cache: new Map([[userId, { channel: { id: channelId, members } }]]) },
+          channels: { cache: new Map() },
+        }],
+      ]);
+
+      await service.restoreTracking();
+
+      await vi.advanceTimersByTimeAsync(30 * 24 * 60 * 60 * 1000 + 69_000);
+      expect(service.isTracking(guildId, userId)).toBe(true);
+      expect(mockWarningService.sendWarning).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(mockWarningService.sendWarning).toHaveBeenCalled();
+    });
+
+    it('should log the exemption to the mod log', async () => {
+      const mockModLogService = { log: vi.fn() } as unknown as ModLogService;
+      service = new AFKDetectionService(
+        mockWarningService,
+        mockConfigService,
+        mockClient,
+        mockLogger,
+        mockRateLimiter,
+        mockTrackingRepository,
+        mockEventRepository,
+        metrics,
+        null,
+        mockExemptionRepository,
+        mockModLogService
+      );
+      vi.mocked(mockExemptionRepository.findActiveByUser).mockReturnValue({
+        id: 9,
+        guildId,
+        userId,
+        source: 'snooze',
+        reason: null,
+        grantedBy: userId,
+        expiresAt: 1_700_000_600_000,
+        createdAt: Date.now(),
+      });
+
+      await service.startTracking(guildId, userId, channelId);
+
+      expect(mockModLogService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ outcome: 'exempt', detail: 'temporary exemption until <t:1700000600:f>' })
+      );
+    });
+
+    it('should record a temporary exemption only when it is first applied', async () => {
+      vi.mocked(mockExemptionRepository.findActiveByUser).mockReturnValue({
+        id: 9,
+        guildId,
+        userId,
+        source: 'moderator',
+        reason: null,
+        grantedBy: 'mod-1',
+        expiresAt: Date.now() + 600_000,
+        createdAt: Date.now(),
+      });
+
+      await service.startTracking(guildId, userId, channelId);
+      await service.restartTracking(guildId, userId);
+      await service.resetTimer(guildId, userId, 'speaking');
+      await service.startTracking(guildId, userId, channelId);
+
+      const exemptEvents = vi.mocked(mockEventRepository.insert).mock.calls.filter(([event]) => event.action === 'exempt');
+      expect(exemptEvents).toHaveLength(1);
+
+      vi.mocked(mockExemptionRepository.findActiveByUser).mockReturnValue({
+        id: 10,
+        guildId,
+        userId,
+        source: 'moderator',
+        reason: null,
+        grantedBy: 'mod-1',
+        expiresAt: Date.now() + 1_200_000,
+        createdAt: Date.now(),
+      });
+      await service.restartTracking(guildId, userId);
+
+      expect(mockEventRepository.insert).toHaveBeenLastCalledWith(
+        expect.objectContaining({ action: 'exempt', reason: 'exemption:10' })
+      );
+    });
+
+    it('should record a granted exemption for a member who is not tracked', () => {
+      service.recordExemptionGrant(
+        {
+          id: 11,
+          guildId,
+          userId,
+          source: 'api',
+          reason: 'Recording a podcast',
+          grantedBy: null,
+          expiresAt: Date.now() + 3_600_000,
+          createdAt: Date.now(),
+        },
+        3600,
+        'api:token'
+      );
+
+      expect(service.isTracking(guildId, userId)).toBe(false);
+      expect(mockEventRepository.insert).toHaveBeenCalledWith({
+        guildId,
+        userId,
+        channelId: null,
+        action: 'exempt',
+        reason: 'granted exemption:11 for 3600s via api by api:token: Recording a podcast',
+        configSnapshot: null,
+        correlationId: null,
+      });
+    });
+
+    it('should record a granted exemption under a tracked member\'s session', async () => {
+      await service.startTracking(guildId, userId, channelId);
+
+      service.recordExemptionGrant(
+        { id: 12, guildId, userId, source: 'moderator', reason: null, grantedBy: 'mod-1', expiresAt: 0, createdAt: 0 },
+        600,
+        '<@mod-1>'
+      );
+
+      expect(mockEventRepository.insert).toHaveBeenCalledWith(expect.objectContaining({
+        channelId,
+        reason: 'granted exemption:12 for 600s via moderator by <@mod-1>',
+        correlationId: expect.any(String),
+      }));
+    });
+
+    it('should not start tracking when the exemption lookup fails', async () => {
+      vi.mocked(mockExemptionRepository.findActiveByUser).mockImplementation(() => {
+        throw new Error('database is locked');
+      });
+
+      await service.startTracking(guildId, userId, channelId);
+
+      expect(service.isTracking(guildId, userId)).toBe(false);
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        expect.objectContaining({ guildId, userId }),
+        'Failed to check user exemptions'
+      );
+    });
+
+    it('should restart a tracked member\'s timer without recording a reset', async () => {
+      await service.startTracking(guildId, userId, channelId);
+      await vi.advanceTimersByTimeAsync(60_000);
+
+      await service.restartTracking(guildId, userId);
+
+      expect(mockEventRepository.insert).not.toHaveBeenCalledWith(expect.objectContaining({ action: 'reset' }));
+      await vi.advanceTimersByTimeAsync(69_000);
+      expect(mockWarningService.sendWarning).not.toHaveBeenCalled();
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(mockWarningService.sendWarning).toHaveBeenCalled();
+    });
+
+    it('should ignore restarts for members who are not tracked', async () => {
+      await service.restartTracking(guildId, userId);
+
+      expect(service.isTracking(guildId, userId)).toBe(false);
+      expect(mockExemptionRepository.findActiveByUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getTrackedCountsByGuild', () => {
+    it('should count tracked users per guild across channels', async () => {
+      vi.mocked(mockConfigService.getConfig).mockImplementation((guildId: string) =>
+        createMockGuildSettings({ guildId, enabled: true })
+      );
+
+      await service.startTracking('guild-a', 'user-1', 'channel-1');
+      await service.startTracking('guild-a', 'user-2', 'channel-2');
+      await service.startTracking('guild-b', 'user-3', 'channel-3');
+
+      expect(service.getTrackedCountsByGuild()).toEqual(new Map([['guild-a', 2], ['guild-b', 1]]));
+    });
+  });
+
+  describe('getTrackedUser', () => {
+    beforeEach(() => {
+      vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+      vi.mocked(mockConfigService.getConfig).mockImplementation((guildId: string) =>
+        createMockGuildSettings({ guildId, enabled: true, afkTimeoutSeconds: 300, warningSecondsBefore: 60 })
+      );
+    });
+
+    it('should return a copy of the member\'s timer', async () => {
+      const now = Date.now();
+      await service.startTracking('guild-a', 'user-1', 'channel-1');
+
+      const tracked = service.getTrackedUser('guild-a', 'user-1');
+
+      expect(tracked).toEqual({
+        guildId: 'guild-a',
+        userId: 'user-1',
+        channelId: 'channel-1',
+        warned: false,
+        startedAt: now,
+        warningAt: now + 240_000,
+        kickAt: now + 300_000,
+      });
+
+      if (tracked !== null) {
+        tracked.kickAt = 0;
+      }
+      expect(service.getTrackedUser('guild-a', 'user-1')?.kickAt).toBe(now + 300_000);
+    });
+
+    it('should show the warning once it was sent', async () => {
+      await service.startTracking('guild-a', 'user-1', 'channel-1');
+      await vi.advanceTimersByTimeAsync(240_000);
+
+      expect(service.getTrackedUser('guild-a', 'user-1')?.warned).toBe(true);
+    });
+
+    it('should return null for members who are not tracked', () => {
+      expect(service.getTrackedUser('guild-a', 'user-1')).toBeNull();
+    });
+  });
+
+  describe('getTrackedUsers', () => {
+    it('should list a guild\'s timers, soonest AFK action first', async () => {
+      vi.mocked(mockConfigService.getConfig).mockImplementation((guildId: string) =>
+        createMockGuildSettings({ guildId, enabled: true, afkTimeoutSeconds: 300, warningSecondsBefore: 60 })
+      );
+
+      await service.startTracking('guild-a', 'user-1', 'channel-1');
+      await vi.advanceTimersByTimeAsync(10_000);
+      await service.startTracking('guild-a', 'user-2', 'channel-2');
+      await service.startTracking('guild-b', 'user-3', 'channel-3');
+      await service.resetTimer('guild-a', 'user-1');
+
+      expect(service.getTrackedUsers('guild-a').map(user => user.userId)).toEqual(['user-2', 'user-1']);
+    });
+  });
+
+  describe('tracking persistence', () => {
+    const guildId = 'persist-guild';
+    const userId = 'persist-user';
+    const channelId = 'persist-channel';
+
+    beforeEach(() => {
+      vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+      vi.mocked(mockConfigService.getConfig).mockReturnValue(
+        createMockGuildSettings({
+          guildId,
+          enabled: true,
+          afkTimeoutSeconds: 300,
+          warningSecondsBefore: 60,
+        })
+      );
+    });
+
+    it('should persist start time, deadlines and channel when tracking starts', async () => {
+      const now = Date.now();
+
+      await service.startTracking(guildId, userId, channelId);
+
+      expect(mockTrackingRepository.upsert).toHaveBeenCalledWith({
+        guildId,
+        userId,
+        channelId,
+        startedAt: now,
+        warningAt: now + 240000,
+        kickAt: now + 300000,
+        warned: false,
+      });
+    });
+
+    it('should remove persisted state when tracking stops', async () => {
+      await service.startTracking(guildId, userId, channelId);
+
+      service.stopTracking(guildId, userId);
+
+      expect(mockTrackingRepository.delete).toHaveBeenCalledWith(guildId, userId);
+    });
+
+    it('should persist the warned flag after a warning is sent', async () => {
+      vi.mocked(mockWarningService.sendWarning).mockResolvedValue(['channel']);
+
+      await service.startTracking(guildId, userId, channelId);
+      await vi.advanceTimersByTimeAsync(240000);
+
+      expect(mockTrackingRepository.markWarned).toHaveBeenCalledWith(guildId, userId);
+    });
+
+    it('should not persist the warned flag when the warning fails', async () => {
+      vi.mocked(mockWarningService.sendWarning).mockRejectedValue(new Error('Send failed'));
+
+      await service.startTracking(guildId, userId, channelId);
+      await vi.advanceTimersByTimeAsync(240000);
+
+      expect(mockTrackingRepository.markWarned).not.toHaveBeenCalled();
+    });
+
+    it('should remove persisted state after the kick timer fires', async () => {
+      vi.mocked(mockClient.guilds.fetch).mockRejectedValue(new Error('Guild unavailable'));
+
+      await service.startTracking(guildId, userId, channelId);
+      vi.mocked(mockTrackingRepository.delete).mockClear();
+      await vi.advanceTimersByTimeAsync(300000);
+
+      expect(mockTrackingRepository.delete).toHaveBeenCalledWith(guildId, userId);
+    });
+
+    it('should keep tracking in memory when the database write fails', async () => {
+      vi.mocked(mockTrackingRepository.upsert).mockImplementation(() => {
+        throw new Error('SQLITE_BUSY');
+      });
+
+      await service.startTracking(guildId, userId, channelId);
+
+      expect(service.isTracking(guildId, userId)).toBe(true);
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        expect.objectContaining({ guildId, userId }),
+        'Failed to persist AFK tracking state'
+      );
+    });
+  });
+
+  describe('restoreTracking', () => {
+    const guildId = 'restore-guild';
+    const channelId = 'restore-channel';
+
+    const createRecord = (overrides: Partial<AFKTrackingRecord> = {}): AFKTrackingRecord => {
+      const now = Date.now();
+      return {
+        guildId,
+        userId: 'restore-user',
+        channelId,
+        startedAt: now - 60000,
+        warningAt: now + 180000,
+        kickAt: now + 240000,
+        warned: false,
+        ...overrides,
+      };
+    };
+
+    const setVoiceStates = (
+      states: Record<string, string>,
+      memberCount = 2
+    ): void => {
+      const members = {
+        filter: () => ({ size: memberCount }),
+      };
+      const voiceStates = new Map(
+        Object.entries(states).map(([userId, stateChannelId]) => [
+          userId,
+          { channel: { id: stateChannelId, members } },
+        ])
+      );
+      (mockClient.guilds as any).cache = new Map([
+        [guildId, { id: guildId, voiceStates: { cache: voiceStates }, channels: { cache: new Map() } }],
+      ]);
+    };
+
+    beforeEach(() => {
+      vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+      vi.mocked(mockConfigService.getConfig).mockReturnValue(
+        createMockGuildSettings({
+          guildId,
+          enabled: true,
+          afkTimeoutSeconds: 300,
+          warningSecondsBefore: 60,
+        })
+      );
+      vi.mocked(mockWarningService.sendWarning).mockResolvedValue(['channel']);
+    });
+
+    it('should rebuild timers from the remaining time in persisted records', async () => {
+      vi.mocked(mockTrackingRepository.findAll).mockReturnValue([createRecord()]);
+      setVoiceStates({ 'restore-user': channelId });
+
+      await service.restoreTracking();
+
+      expect(service.isTracking(guildId, 'restore-user')).toBe(true);
+
+      await vi.advanceTimersByTimeAsync(179999);
+      expect(mockWarningService.sendWarning).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(mockWarningService.sendWarning).toHaveBeenCalledWith(guildId, 'restore-user', channelId);
+    });
+
+    it('should not send a second warning for users already warned', async () => {
+      vi.mocked(mockTrackingRepository.findAll).mockReturnValue([
+        createRecord({ warned: true, warningAt: Date.now() - 1000, kickAt: Date.now() + 30000 }),
+      ]);
+      setVoiceStates({ 'restore-user': channelId });
+      vi.mocked(mockClient.guilds.fetch).mockRejectedValue(new Error('Guild unavailable'));
+
+      await service.restoreTracking();
+      await vi.advanceTimersByTimeAsync(30000);
+
+      expect(mockWarningService.sendWarning).not.toHaveBeenCalled();
+      expect(mockClient.guilds.fetch).toHaveBeenCalledWith(guildId);
+    });
+
+    it('should resume the countdown of users already warned', async () => {
+      vi.mocked(mockConfigService.getConfig).mockReturnValue(
+        createMockGuildSettings({ guildId, enabled: true, afkTimeoutSeconds: 300, warningSecondsBefore: 60, warningStages: [45, 15] })
+      );
+      vi.mocked(mockTrackingRepository.findAll).mockReturnValue([
+        createRecord({ warned: true, warningAt: Date.now() - 20000, kickAt: Date.now() + 40000 }),
+      ]);
+      setVoiceStates({ 'restore-user': channelId });
+
+      await service.restoreTracking();
+      await vi.advanceTimersByTimeAsync(25000);
+
+      expect(mockWarningService.updateWarning).toHaveBeenCalledTimes(1);
+      expect(mockWarningService.updateWarning).toHaveBeenCalledWith(guildId, 'restore-user', channelId, 15);
+    });
+
+    it('should warn immediately and extend the kick deadline when the warning was missed', async () => {
+      const now = Date.now();
+      vi.mocked(mockTrackingRepository.findAll).mockReturnValue([
+        createRecord({ warningAt: now - 5000, kickAt: now + 10000 }),
+      ]);
+      setVoiceStates({ 'restore-user': channelId });
+
+      await service.restoreTracking();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(mockWarningService.sendWarning).toHaveBeenCalledTimes(1);
+      expect(mockTrackingRepository.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'restore-user', kickAt: now + 60000 })
+      );
+    });
+
+    it('should discard records for users no longer in the tracked channel', async () => {
+      vi.mocked(mockTrackingRepository.findAll).mockReturnValue([
+        createRecord({ userId: 'moved-user' }),
+        createRecord({ userId: 'gone-user' }),
+      ]);
+      setVoiceStates({ 'moved-user': 'other-channel' });
+
+      await service.restoreTracking();
+
+      expect(service.isTracking(guildId, 'moved-user')).toBe(false);
+      expect(service.isTracking(guildId, 'gone-user')).toBe(false);
+      expect(mockTrackingRepository.delete).toHaveBeenCalledWith(guildId, 'moved-user');
+      expect(mockTrackingRepository.delete).toHaveBeenCalledWith(guildId, 'gone-user');
+    });
+
+    it('should discard records when the channel is below the tracking threshold', async () => {
+      vi.mocked(mockTrackingRepository.findAll).mockReturnValue([createRecord()]);
+      setVoiceStates({ 'restore-user': channelId }, 1);
+
+      await service.restoreTracking();
+
+      expect(service.isTracking(guildId, 'restore-user')).toBe(false);
+      expect(mockTrackingRepository.delete).toHaveBeenCalledWith(guildId, 'restore-user');
+    });
+
+    it('should discard records in a channel that has since been exempted', async () => {
+      vi.mocked(mockConfigService.getConfig).mockReturnValue(
+        createMockGuildSettings({ guildId, enabled: true, exemptChannelIds: [channelId] })
+      );
+      vi.mocked(mockTrackingRepository.findAll).mockReturnValue([createRecord()]);
+      setVoiceStates({ 'restore-user': channelId });
+
+      await service.restoreTracking();
+
+      expect(service.isTracking(guildId, 'restore-user')).toBe(false);
+      expect(mockTrackingRepository.delete).toHaveBeenCalledWith(guildId, 'restore-user');
+    });
+
+    it('should use the guild minimum-user threshold', async () => {
+      vi.mocked(mockConfigService.getConfig).mockReturnValue(
+        createMockGuildSettings({ guildId, enabled: true, minUsersForTracking: 1 })
+      );
+      vi.mocked(mockTrackingRepository.findAll).mockReturnValue([createRecord()]);
+      setVoiceStates({ 'restore-user': channelId }, 1);
+
+      await service.restoreTracking();
+
+      expect(service.isTracking(guildId, 'restore-user')).toBe(true);
+    });
+
+    it('should discard records for guilds with monitoring disabled', async () => {
+      vi.mocked(mockConfigService.getConfig).mockReturnValue(DISABLED_CONFIG);
+      vi.mocked(mockTrackingRepository.findAll).mockReturnValue([createRecord()]);
+      setVoiceStates({ 'restore-user': channelId });
+
+      await service.restoreTracking();
+
+      expect(service.isTracking(guildId, 'restore-user')).toBe(false);
+      expect(mockTrackingRepository.delete).toHaveBeenCalledWith(guildId, 'restore-user');
+    });
+
+    it('should discard records for guilds the bot is no longer in', async () => {
+      vi.mocked(mockTrackingRepository.findAll).mockReturnValue([createRecord()]);
+      (mockClient.guilds as any).cache = new Map();
+
+      await service.restoreTracking();
+
+      expect(service.isTracking(guildId, 'restore-user')).toBe(false);
+      expect(mockTrackingRepository.delete).toHaveBeenCalledWith(guildId, 'restore-user');
+    });
+
+    it('should log a summary of restored and discarded records', async () => {
+      vi.mocked(mockTrackingRepository.findAll).mockReturnValue([
+        createRecord({ userId: 'present-user' }),
+        createRecord({ userId: 'gone-user' }),
+      ]);
+      setVoiceStates({ 'present-user': channelId });
+
+      await service.restoreTracking();
+
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        { action: 'restore_tracking', restored: 1, discarded: 1 },
+        'Restored AFK tracking state from database'
+      );
+    });
+
+    it('should log and return when persisted state cannot be loaded', async () => {
+      const error = new Error('SQLITE_CORRUPT');
+      vi.mocked(mockTrackingRepository.findAll).mockImplementation(() => {
+        throw error;
+      });
+
+      await expect(service.restoreTracking()).resolves.toBeUndefined();
+
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        { error },
+        'Failed to load persisted AFK tracking state'
+      );
+    });
+  });
+
+  describe('stopAllTrackingForChannel', () => {
+    const guildId = 'bulk-stop-guild';
+    const channelId = 'target-channel';
+
+    describe('when multiple users are in same channel', () => {
+      it('should stop tracking all users in that specific channel', async () => {
+        const user1 = 'user-1';
+        const user2 = 'user-2';
+        const user3 = 'user-3';
+
+        vi.mocked(mockConfigService.getConfig).mockReturnValue(
+          createMockGuildSettings({ guildId, enabled: true })
+        );
+
+        await service.startTracking(guildId, user1, channelId);
+        await service.startTracking(guildId, user2, channelId);
+        await service.startTracking(guildId, user3, channelId);
+
+        service.stopAllTrackingForChannel(guildId, channelId);
+
+        expect(service.isTracking(guildId, user1)).toBe(false);
+        expect(service.isTracking(guildId, user2)).toBe(false);
+        expect(service.isTracking(guildId, user3)).toBe(false);
+      });
+
+      it('should clear all timers for stopped users', async () => {
+        const user1 = 'timer-user-1';
+        const user2 = 'timer-user-2';
+
+        vi.mocked(mockConfigService.getConfig).mockReturnValue(
+          createMockGuildSettings({
+            guildId,
+            enabled: true,
+            afkTimeoutSeconds: 100,
+            warningSecondsBefore: 30,
+          })
+        );
+        vi.mocked(mockWarningService.sendWarning).mockResolvedValue(['channel']);
+
+        await service.startTracking(guildId, user1, channelId);
+        await service.startTracking(guildId, user2, channelId);
+
+        service.stopAllTrackingForChannel(guildId, channelId);
+
+        // Advance past warning time
+        await vi.advanceTimersByTimeAsync(100000);
+
+        expect(mockWarningService.sendWarning).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('when users are in different channels', () => {
+      it('should only stop users in target channel and leave other channels untouched', async () => {
+        const user1 = 'user-in-target';
+        const user2 = 'user-in-other';
+        const otherChannel = 'other-channel';
+
+        vi.mocked(mockConfigService.getConfig).mockReturnValue(
+          createMockGuildSettings({ guildId, enabled: true })
+        );
+
+        await service.startTracking(guildId, user1, channelId);
+        await service.startTracking(guildId, user2, otherChannel);
+
+        service.stopAllTrackingForChannel(guildId, channelId);
+
+        expect(service.isTracking(guildId, user1)).toBe(false);
+        expect(service.isTracking(guildId, user2)).toBe(true);
+      });
+
+      it('should preserve timers for users in other channels', async () => {
+        const userInTarget = 'user-target';
+        const userInOther = 'user-other';
+        const otherChannel = 'other-channel';
+
+        vi.mocked(mockConfigService.getConfig).mockReturnValue(
+          createMockGuildSettings({
+            guildId,
+            enabled: true,
+            afkTimeoutSeconds: 100,
+            warningSecondsBefore: 30,
+          })
+        );
+        vi.mocked(mockWarningService.sendWarning).mockResolvedValue(['channel']);
+
+        await service.startTracking(guildId, userInTarget, channelId);
+        await service.startTracking(guildId, userInOther, otherChannel);
+
+        service.stopAllTrackingForChannel(guildId, channelId);
+
+        // Advance to warning time
+        await vi.advanceTimersByTimeAsync(70000);
+
+        // Only user in other channel should get warning
+        expect(mockWarningService.sendWarning).toHaveBeenCalledTimes(1);
+        expect(mockWarningService.sendWarning).toHaveBeenCalledWith(guildId, userInOther, otherChannel);
+      });
+    });
+
+    describe('when channel has no tracked users', () => {
+      it('should be a no-op and not throw', () => {
+        const emptyChannel = 'empty-channel';
+
+        expect(() => {
+          service.stopAllTrackingForChannel(guildId, emptyChannel);
+        }).not.toThrow();
+      });
+    });
+
+    describe('guild isolation', () => {
+      it('should only affect the specified guild', async () => {
+        const guild1 = 'guild-1';
+        const guild2 = 'guild-2';
+        const userId = 'cross-guild-user';
+
+        vi.mocked(mockConfigService.getConfig).mockReturnValue(
+          createMockGuildSettings({ enabled: true })
+        );
+
+        await service.startTracking(guild1, userId, channelId);
+        await service.startTracking(guild2, userId, channelId);
+
+        service.stopAllTrackingForChannel(guild1, channelId);
+
+        expect(service.isTracking(guild1, userId)).toBe(false);
+        expect(service.isTracking(guild2, userId)).toBe(true);
+      });
+    });
+
+    describe('edge cases', () => {
+      it('should handle stopping same channel multiple times', async () => {
+        const userId = 'edge-user';
+
+        vi.mocked(mockConfigService.getConfig).mockReturnValue(
+          createMockGuildSettings({ guildId, enabled: true })
+        );
+
+        await service.startTracking(guildId, userId, channelId);
+
+        expect(() => {
+          service.stopAllTrackingForChannel(guildId, channelId);
+          service.stopAllTrackingForChannel(guildId, channelId);
+        }).not.toThrow();
+      });
+
+      it('should handle empty string channel ID', async () => {
         expect(() => {
           service.stopAllTrackingForChannel(guildId, '');
         }).not.toThrow();
@@ -916,6 +2312,22 @@ describe('AFKDetectionService', () => {
     });
   });
 
+  describe('stopAllTrackingForGuild', () => {
+    it('should stop every tracked user in the guild and no other guild', async () => {
+      vi.mocked(mockConfigService.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true }));
+
+      await service.startTracking('guild-a', 'user-1', 'channel-1');
+      await service.startTracking('guild-a', 'user-2', 'channel-2');
+      await service.startTracking('guild-b', 'user-3', 'channel-3');
+
+      service.stopAllTrackingForGuild('guild-a');
+
+      expect(service.isTracking('guild-a', 'user-1')).toBe(false);
+      expect(service.isTracking('guild-a', 'user-2')).toBe(false);
+      expect(service.isTracking('guild-b', 'user-3')).toBe(true);
+    });
+  });
+
   describe('startTrackingAllInChannel', () => {
     const guildId = 'bulk-start-guild';
     const channelId = 'bulk-start-channel';
@@ -946,7 +2358,7 @@ describe('AFKDetectionService', () => {
             warningSecondsBefore: 30,
           })
         );
-        vi.mocked(mockWarningService.sendWarning).mockResolvedValue();
+        vi.mocked(mockWarningService.sendWarning).mockResolvedValue(['channel']);
 
         await service.startTrackingAllInChannel(guildId, channelId, userIds);
 
@@ -1307,7 +2719,7 @@ describe('AFKDetectionService', () => {
           })
         );
         vi.mocked(mockClient.guilds.fetch).mockRejectedValue(new Error('Fetch failed'));
-        vi.mocked(mockWarningService.sendWarning).mockResolvedValue();
+        vi.mocked(mockWarningService.sendWarning).mockResolvedValue(['channel']);
 
         await service.startTracking(guildId, userId, channelId);
 
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import type { Logger } from 'pino';
+import { AFKEventRepository, type NewAFKEvent } from '../database/repositories/AFKEventRepository';
+import { createTables } from '../database/schema';
+import { createMockLogger } from './fixtures';
+
+describe('AFKEventRepository', () => {
+  let db: Database.Database;
+  let repository: AFKEventRepository;
+  let mockLogger: Logger;
+
+  const baseEvent: NewAFKEvent = {
+    guildId: 'guild-1',
+    userId: 'user-1',
+    channelId: 'channel-1',
+    action: 'warning',
+    reason: null,
+    configSnapshot: null,
+    correlationId: null,
+  };
+
+  const page = { limit: 50, offset: 0 };
+
+  beforeEach(() => {
+    mockLogger = createMockLogger() as unknown as Logger;
+
+    // Create an in-memory SQLite database for each test
+    db = new Database(':memory:');
+    createTables(db, mockLogger);
+    repository = new AFKEventRepository(db, mockLogger);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('insert', () => {
+    it('should round-trip every field including the config snapshot', () => {
+      repository.insert({
+        ...baseEvent,
+        action: 'kick',
+        reason: 'disconnect',
+        configSnapshot: { enabled: true, afkTimeoutSeconds: 300, warningSecondsBefore: 60, afkAction: 'disconnect' },
+        correlationId: 'corr-1',
+        createdAt: 1_700_000_000_000,
+      });
+
+      const { events, total } = repository.find({ guildId: 'guild-1', ...page });
+
+      expect(total).toBe(1);
+      expect(events[0]).toEqual({
+        id: expect.any(Number),
+        guildId: 'guild-1',
+        userId: 'user-1',
+        channelId: 'channel-1',
+        action: 'kick',
+        reason: 'disconnect',
+        configSnapshot: { enabled: true, afkTimeoutSeconds: 300, warningSecondsBefore: 60, afkAction: 'disconnect' },
+        correlationId: 'corr-1',
+        createdAt: 1_700_000_000_000,
+      });
+    });
+
+    it('should default createdAt to now', () => {
+      const before = Date.now();
+      repository.insert(baseEvent);
+
+      const createdAt = repository.find({ guildId: 'guild-1', ...page }).events[0]?.createdAt ?? 0;
+
+      expect(createdAt).toBeGreaterThanOrEqual(before);
+      expect(createdAt).toBeLessThanOrEqual(Date.now());
+    });
+
+    it('should return a null snapshot when the stored JSON is corrupt', () => {
+      db.prepare(
+        `INSERT INTO afk_events (guild_id, user_id, action, config_snapshot, created_at) VALUES (?, ?, ?, ?, ?)`
+      ).run('guild-1', 'user-1', 'warning', '{broken', 1);
+
+      expect(repository.find({ guildId: 'guild-1', ...page }).events[0]?.configSnapshot).toBeNull();
+      expect(mockLogger.warn).toHaveBeenCalled();
+    });
+  });
+
+  describe('find', () => {
+    beforeEach(() => {
+      repository.insert({ ...baseEvent, action: 'warning', createdAt: 1000 });
+      repository.insert({ ...baseEvent, action: 'kick', createdAt: 2000 });
+      repository.insert({ ...baseEvent, userId: 'user-2', action: 'reset', createdAt: 3000 });
+      repository.insert({ ...baseEvent, channelId: 'channel-2', action: 'exempt', createdAt: 4000 });
+      repository.insert({ ...baseEvent, guildId: 'guild-2', action: 'kick', createdAt: 5000 });
+    });
+
+    it('should return only the requested guild, newest first', () => {
+      const { events, total } = repository.find({ guildId: 'guild-1', ...page });
+
+      expect(total).toBe(4);
+      expect(events.map(e => e.createdAt)).toEqual([4000, 3000, 2000, 1000]);
+    });
+
+    it('should filter by user and channel', () => {
+      expect(repository.find({ guildId: 'guild-1', userId: 'user-2', ...page }).total).toBe(1);
+      expect(repository.find({ guildId: 'guild-1', channelId: 'channel-2', ...page }).events[0]?.action).toBe('exempt');
+    });
+
+    it('should filter by a set of actions', () => {
+      const { events } = repository.find({ guildId: 'guild-1', actions: ['warning', 'kick'], ...page });
+
+      expect(events.map(e => e.action)).toEqual(['kick', 'warning']);
+    });
+
+    it('should treat since as inclusive and until as exclusive', () => {
+      const { events } = repository.find({ guildId: 'guild-1', since: 2000, until: 4000, ...page });
+
+      expect(events.map(e => e.createdAt)).toEqual([3000, 2000]);
+    });
+
+    it('should paginate while reporting the full total', () => {
+      const { events, total } = repository.find({ guildId: 'guild-1', limit: 2, offset: 2 });
+
+      expect(total).toBe(4);
+      expect(events.map(e => e.createdAt)).toEqual([2000, 1000]);
+    });
+  });
+
+  describe('summarizeObserved', () => {
+    it('should count would-be warnings and actions since the given time', () => {
+      repository.insert({ ...baseEvent, action: 'would_warn', createdAt: 1000 });
+      repository.insert({ ...baseEvent, action: 'would_warn', createdAt: 2000 });
+      repository.insert({ ...baseEvent, action: 'would_kick', createdAt: 2000 });
+      repository.insert({ ...baseEvent, action: 'would_kick', createdAt: 3000 });
+      repository.insert({ ...baseEvent, userId: 'user-2', action: 'would_kick', createdAt: 3000 });
+      repository.insert({ ...baseEvent, action: 'kick', createdAt: 3000 });
+      repository.insert({ ...baseEvent, guildId: 'guild-2', action: 'would_kick', createdAt: 3000 });
+
+      expect(repository.summarizeObserved('guild-1', 2000)).toEqual({
+        since: 2000,
+        wouldWarn: 1,
+        wouldKick: 3,
+        wouldKickUsers: 2,
+      });
+    });
+
+    it('should return zeros when nothing was observed', () => {
+      expect(repository.summarizeObserved('guild-1', 0)).toEqual({
+        since: 0,
+        wouldWarn: 0,
+        wouldKick: 0,
+        wouldKickUsers: 0,
+      });
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import type { Logger } from 'pino';
+import { AFKExemptionRepository, type NewAFKExemption } from '../database/repositories/AFKExemptionRepository';
+import { createTables } from '../database/schema';
+import { createMockLogger } from './fixtures';
+
+describe('AFKExemptionRepository', () => {
+  let db: Database.Database;
+  let repository: AFKExemptionRepository;
+  let mockLogger: Logger;
+
+  const baseExemption: NewAFKExemption = {
+    guildId: 'guild-1',
+    userId: 'user-1',
+    source: 'moderator',
+    reason: 'Streaming tonight',
+    grantedBy: 'mod-1',
+    expiresAt: 10_000,
+    createdAt: 1000,
+  };
+
+  beforeEach(() => {
+    mockLogger = createMockLogger() as unknown as Logger;
+
+    db = new Database(':memory:');
+    createTables(db, mockLogger);
+    repository = new AFKExemptionRepository(db, mockLogger);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('insert', () => {
+    it('should return the stored exemption and round-trip every field', () => {
+      const inserted = repository.insert(baseExemption);
+
+      expect(inserted).toEqual({ ...baseExemption, id: expect.any(Number) });
+      expect(repository.findActiveByUser('guild-1', 'user-1', 5000)).toEqual(inserted);
+    });
+
+    it('should keep a null reason and grantedBy', () => {
+      repository.insert({ ...baseExemption, source: 'api', reason: null, grantedBy: null });
+
+      expect(repository.findActiveByUser('guild-1', 'user-1', 5000)).toMatchObject({
+        source: 'api',
+        reason: null,
+        grantedBy: null,
+      });
+    });
+
+    it('should default createdAt to now', () => {
+      const before = Date.now();
+      const { createdAt: _createdAt, ...withoutCreatedAt } = baseExemption;
+
+      const inserted = repository.insert(withoutCreatedAt);
+
+      expect(inserted.createdAt).toBeGreaterThanOrEqual(before);
+    });
+  });
+
+  describe('findActiveByUser', () => {
+    it('should return null when the member has no exemption', () => {
+      expect(repository.findActiveByUser('guild-1', 'user-1', 5000)).toBeNull();
+    });
+
+    it('should ignore exemptions that have expired', () => {
+      repository.insert(baseExemption);
+
+      expect(repository.findActiveByUser('guild-1', 'user-1', 10_000)).toBeNull();
+    });
+
+    it('should return the active exemption that runs longest', () => {
+      repository.insert({ ...baseExemption, expiresAt: 8000 });
+      const longest = repository.insert({ ...baseExemption, expiresAt: 20_000 });
+      repository.insert({ ...baseExemption, expiresAt: 12_000 });
+
+      expect(repository.findActiveByUser('guild-1', 'user-1', 5000)?.id).toBe(longest.id);
+    });
+
+    it('should scope lookups to the guild and member', () => {
+      repository.insert({ ...baseExemption, guildId: 'guild-2' });
+      repository.insert({ ...baseExemption, userId: 'user-2' });
+
+      expect(repository.findActiveByUser('guild-1', 'user-1', 5000)).toBeNull();
+    });
+  });
+
+  describe('findActiveByGuild', () => {
+    it('should return active exemptions soonest to expire first', () => {
+      repository.insert({ ...baseExemption, userId: 'user-1', expiresAt: 30_000 });
+      repository.insert({ ...baseExemption, userId: 'user-2', expiresAt: 20_000 });
+      repository.insert({ ...baseExemption, userId: 'user-3', expiresAt: 4000 });
+      repository.insert({ ...baseExemption, guildId: 'guild-2', userId: 'user-4' });
+
+      const exemptions = repository.findActiveByGuild('guild-1', 5000);
+
+      expect(exemptions.map(exemption => exemption.userId)).toEqual(['user-2', 'user-1']);
+    });
+  });
+
+  describe('countBySourceSince', () => {
+    it('should count matching exemptions since the cutoff, expired or not', () => {
+      repository.insert({ ...baseExemption, source: 'snooze', createdAt: 500, expiresAt: 600 });
+      repository.insert({ ...baseExemption, source: 'snooze', createdAt: 1000, expiresAt: 1100 });
+      repository.insert({ ...baseExemption, source: 'snooze', createdAt: 2000, expiresAt: 9000 });
+      repository.insert({ ...baseExemption, source: 'moderator', createdAt: 2000 });
+      repository.insert({ ...baseExemption, userId: 'user-2', source: 'snooze', createdAt: 2000 });
+
+      expect(repository.countBySourceSince('guild-1', 'user-1', 'snooze', 1000)).toBe(2);
+    });
+  });
+
+  describe('expireByUser', () => {
+    it('should expire the member\'s active exemptions and report how many ended', () => {
+      repository.insert(baseExemption);
+      repository.insert({ ...baseExemption, source: 'snooze', expiresAt: 6000 });
+      repository.insert({ ...baseExemption, expiresAt: 2000 });
+      repository.insert({ ...baseExemption, userId: 'user-2' });
+
+      expect(repository.expireByUser('guild-1', 'user-1', 5000)).toBe(2);
+      expect(repository.findActiveByUser('guild-1', 'user-1', 5000)).toBeNull();
+      expect(repository.findActiveByUser('guild-1', 'user-2', 5000)).not.toBeNull();
+    });
+
+    it('should keep expired snoozes countable toward the daily limit', () => {
+      repository.insert({ ...baseExemption, source: 'snooze' });
+
+      repository.expireByUser('guild-1', 'user-1', 5000);
+
+      expect(repository.countBySourceSince('guild-1', 'user-1', 'snooze', 0)).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import type { Logger } from 'pino';
+import { AFKStrikeRepository, type NewAFKStrike } from '../database/repositories/AFKStrikeRepository';
+import { createTables } from '../database/schema';
+import { createMockLogger } from './fixtures';
+
+describe('AFKStrikeRepository', () => {
+  let db: Database.Database;
+  let repository: AFKStrikeRepository;
+  let mockLogger: Logger;
+
+  const baseStrike: NewAFKStrike = {
+    guildId: 'guild-1',
+    userId: 'user-1',
+    channelId: 'channel-1',
+    action: 'disconnect',
+  };
+
+  beforeEach(() => {
+    mockLogger = createMockLogger() as unknown as Logger;
+
+    db = new Database(':memory:');
+    createTables(db, mockLogger);
+    repository = new AFKStrikeRepository(db, mockLogger);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('insert', () => {
+    it('should round-trip every field', () => {
+      repository.insert({ ...baseStrike, action: 'timeout', createdAt: 1_700_000_000_000 });
+
+      expect(repository.findByUser('guild-1', 'user-1', 0)).toEqual([
+        {
+          id: expect.any(Number),
+          guildId: 'guild-1',
+          userId: 'user-1',
+          channelId: 'channel-1',
+          action: 'timeout',
+          createdAt: 1_700_000_000_000,
+        },
+      ]);
+    });
+
+    it('should default createdAt to now', () => {
+      const before = Date.now();
+      repository.insert(baseStrike);
+
+      const [strike] = repository.findByUser('guild-1', 'user-1', 0);
+
+      expect(strike?.createdAt).toBeGreaterThanOrEqual(before);
+    });
+  });
+
+  describe('findByUser', () => {
+    it('should return strikes since the cutoff, newest first, for one member only', () => {
+      repository.insert({ ...baseStrike, createdAt: 1000 });
+      repository.insert({ ...baseStrike, createdAt: 3000 });
+      repository.insert({ ...baseStrike, createdAt: 2000 });
+      repository.insert({ ...baseStrike, userId: 'user-2', createdAt: 3000 });
+      repository.insert({ ...baseStrike, guildId: 'guild-2', createdAt: 3000 });
+
+      const strikes = repository.findByUser('guild-1', 'user-1', 2000);
+
+      expect(strikes.map((strike) => strike.createdAt)).toEqual([3000, 2000]);
+    });
+  });
+
+  describe('countSince', () => {
+    it('should count only strikes inside the window', () => {
+      repository.insert({ ...baseStrike, createdAt: 1000 });
+      repository.insert({ ...baseStrike, createdAt: 5000 });
+      repository.insert({ ...baseStrike, createdAt: 6000 });
+
+      expect(repository.countSince('guild-1', 'user-1', 5000)).toBe(2);
+      expect(repository.countSince('guild-1', 'user-2', 0)).toBe(0);
+    });
+  });
+
+  describe('deleteByUser', () => {
+    it('should remove every strike for the member, including decayed ones', () => {
+      repository.insert({ ...baseStrike, createdAt: 1000 });
+      repository.insert({ ...baseStrike, createdAt: 5000 });
+      repository.insert({ ...baseStrike, userId: 'user-2', createdAt: 5000 });
+
+      expect(repository.deleteByUser('guild-1', 'user-1')).toBe(2);
+      expect(repository.countSince('guild-1', 'user-1', 0)).toBe(0);
+      expect(repository.countSince('guild-1', 'user-2', 0)).toBe(1);
+    });
+
+    it('should return 0 when the member has no strikes', () => {
+      expect(repository.deleteByUser('guild-1', 'user-1')).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import type { Logger } from 'pino';
+import { AFKTrackingRepository, type AFKTrackingRecord } from '../database/repositories/AFKTrackingRepository';
+import { createTables } from '../database/schema';
+import { createMockLogger } from './fixtures';
+
+describe('AFKTrackingRepository', () => {
+  let db: Database.Database;
+  let repository: AFKTrackingRepository;
+  let mockLogger: Logger;
+
+  const createRecord = (overrides: Partial<AFKTrackingRecord> = {}): AFKTrackingRecord => ({
+    guildId: 'guild-1',
+    userId: 'user-1',
+    channelId: 'channel-1',
+    startedAt: 1704067200000,
+    warningAt: 1704067440000,
+    kickAt: 1704067500000,
+    warned: false,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockLogger = createMockLogger() as unknown as Logger;
+
+    // Create an in-memory SQLite database for each test
+    db = new Database(':memory:');
+    createTables(db, mockLogger);
+    repository = new AFKTrackingRepository(db, mockLogger);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('findAll', () => {
+    it('should return an empty array when nothing is persisted', () => {
+      expect(repository.findAll()).toEqual([]);
+    });
+
+    it('should return every persisted record', () => {
+      repository.upsert(createRecord({ userId: 'user-1' }));
+      repository.upsert(createRecord({ userId: 'user-2', guildId: 'guild-2' }));
+
+      const records = repository.findAll();
+
+      expect(records).toHaveLength(2);
+      expect(records.map(r => r.userId).sort()).toEqual(['user-1', 'user-2']);
+    });
+  });
+
+  describe('upsert', () => {
+    it('should round-trip every field', () => {
+      const record = createRecord({ warned: true });
+
+      repository.upsert(record);
+
+      expect(repository.findAll()).toEqual([record]);
+    });
+
+    it('should replace the existing record for the same guild and user', () => {
+      repository.upsert(createRecord());
+      repository.upsert(createRecord({ channelId: 'channel-2', kickAt: 1704067900000 }));
+
+      const records = repository.findAll();
+
+      expect(records).toHaveLength(1);
+      expect(records[0]?.channelId).toBe('channel-2');
+      expect(records[0]?.kickAt).toBe(1704067900000);
+    });
+
+    it('should keep the same user in different guilds separate', () => {
+      repository.upsert(createRecord({ guildId: 'guild-1' }));
+      repository.upsert(createRecord({ guildId: 'guild-2' }));
+
+      expect(repository.findAll()).toHaveLength(2);
+    });
+  });
+
+  describe('markWarned', () => {
+    it('should set the warned flag without touching deadlines', () => {
+      const record = createRecord();
+      repository.upsert(record);
+
+      repository.markWarned('guild-1', 'user-1');
+
+      expect(repository.findAll()).toEqual([{ ...record, warned: true }]);
+    });
+
+    it('should be a no-op for users that are not persisted', () => {
+      expect(() => repository.markWarned('guild-1', 'missing-user')).not.toThrow();
+      expect(repository.findAll()).toEqual([]);
+    });
+  });
+
+  describe('delete', () => {
+    it('should remove only the matching record', () => {
+      repository.upsert(createRecord({ userId: 'user-1' }));
+      repository.upsert(createRecord({ userId: 'user-2' }));
+
+      repository.delete('guild-1', 'user-1');
+
+      const records = repository.findAll();
+      expect(records).toHaveLength(1);
+      expect(records[0]?.userId).toBe('user-2');
+    });
+
+    it('should be a no-op for users that are not persisted', () => {
+      expect(() => repository.delete('guild-1', 'missing-user')).not.toThrow();
+    });
+  });
+});
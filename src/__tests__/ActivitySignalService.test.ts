@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { ChatInputCommandInteraction, Message, MessageReaction, User, VoiceState } from 'discord.js';
+import type { Logger } from 'pino';
+import { ActivitySignalService } from '../services/ActivitySignalService';
+import type { AFKDetectionService } from '../services/AFKDetectionService';
+import type { GuildConfigService } from '../services/GuildConfigService';
+import type { GuildSettings } from '../database/repositories/GuildSettingsRepository';
+import { createMockGuildSettings, createMockLogger } from './fixtures';
+
+describe('ActivitySignalService', () => {
+  const guildId = '123456789012345678';
+  const userId = '234567890123456789';
+  const voiceChannelId = '345678901234567890';
+  const linkedChannelId = '456789012345678901';
+
+  let config: GuildSettings;
+  let mockConfigService: GuildConfigService;
+  let mockAfkDetection: AFKDetectionService;
+  let mockLogger: ReturnType<typeof createMockLogger>;
+  let service: ActivitySignalService;
+
+  const member = { voice: { channelId: voiceChannelId } };
+
+  function createMessage(channelId: string, bot = false): Message {
+    return {
+      guildId,
+      channelId,
+      author: { id: userId, bot },
+      member,
+    } as unknown as Message;
+  }
+
+  function createReaction(channelId: string): MessageReaction {
+    return {
+      message: {
+        guildId,
+        channelId,
+        guild: { members: { cache: new Map([[userId, member]]) } },
+      },
+    } as unknown as MessageReaction;
+  }
+
+  function createVoiceState(selfVideo: boolean, streaming: boolean): VoiceState {
+    return { id: userId, guild: { id: guildId }, selfVideo, streaming } as unknown as VoiceState;
+  }
+
+  beforeEach(() => {
+    config = createMockGuildSettings({
+      guildId,
+      activitySignals: ['messages', 'reactions', 'video', 'stream', 'commands'],
+      activityChannelIds: [linkedChannelId],
+    });
+    mockConfigService = {
+      getConfig: vi.fn(() => config),
+    } as unknown as GuildConfigService;
+    mockAfkDetection = {
+      isTracking: vi.fn().mockReturnValue(true),
+      resetTimer: vi.fn().mockResolvedValue(undefined),
+    } as unknown as AFKDetectionService;
+    mockLogger = createMockLogger();
+    service = new ActivitySignalService(mockConfigService, mockAfkDetection, mockLogger as unknown as Logger);
+  });
+
+  describe('recordActivity', () => {
+    it('should reset the timer with the signal as the reason', async () => {
+      await service.recordActivity(guildId, userId, 'commands');
+
+      expect(mockAfkDetection.resetTimer).toHaveBeenCalledWith(guildId, userId, 'commands');
+    });
+
+    it('should ignore signals the guild has not enabled', async () => {
+      config = createMockGuildSettings({ guildId, activitySignals: ['messages'] });
+
+      await service.recordActivity(guildId, userId, 'video');
+
+      expect(mockAfkDetection.resetTimer).not.toHaveBeenCalled();
+    });
+
+    it('should ignore members who are not being tracked', async () => {
+      vi.mocked(mockAfkDetection.isTracking).mockReturnValue(false);
+
+      await service.recordActivity(guildId, userId, 'commands');
+
+      expect(mockAfkDetection.resetTimer).not.toHaveBeenCalled();
+    });
+
+    it('should log and swallow reset failures', async () => {
+      vi.mocked(mockAfkDetection.resetTimer).mockRejectedValue(new Error('database is locked'));
+
+      await expect(service.recordActivity(guildId, userId, 'commands')).resolves.toBeUndefined();
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        expect.objectContaining({ guildId, userId, signal: 'commands' }),
+        'Failed to reset AFK timer from activity signal'
+      );
+    });
+  });
+
+  describe('handleMessage', () => {
+    it('should count messages in the voice channel chat and linked channels', async () => {
+      await service.handleMessage(createMessage(voiceChannelId));
+      await service.handleMessage(createMessage(linkedChannelId));
+
+      expect(mockAfkDetection.resetTimer).toHaveBeenCalledTimes(2);
+      expect(mockAfkDetection.resetTimer).toHaveBeenCalledWith(guildId, userId, 'messages');
+    });
+
+    it('should ignore messages in other channels and from bots', async () => {
+      await service.handleMessage(createMessage('999999999999999999'));
+      await service.handleMessage(createMessage(voiceChannelId, true));
+
+      expect(mockAfkDetection.resetTimer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleReaction', () => {
+    it('should count reactions in the voice channel chat', async () => {
+      await service.handleReaction(createReaction(voiceChannelId), { id: userId, bot: false } as User);
+
+      expect(mockAfkDetection.resetTimer).toHaveBeenCalledWith(guildId, userId, 'reactions');
+    });
+
+    it('should ignore reactions in unlinked channels', async () => {
+      await service.handleReaction(createReaction('999999999999999999'), { id: userId, bot: false } as User);
+
+      expect(mockAfkDetection.resetTimer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleVoiceStateChange', () => {
+    it('should count camera and stream toggles separately', async () => {
+      await service.handleVoiceStateChange(createVoiceState(false, false), createVoiceState(true, true));
+
+      expect(mockAfkDetection.resetTimer).toHaveBeenCalledWith(guildId, userId, 'video');
+      expect(mockAfkDetection.resetTimer).toHaveBeenCalledWith(guildId, userId, 'stream');
+    });
+
+    it('should ignore other voice state changes', async () => {
+      await service.handleVoiceStateChange(createVoiceState(true, false), createVoiceState(true, false));
+
+      expect(mockAfkDetection.resetTimer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleCommand', () => {
+    it('should count slash commands used in a guild', async () => {
+      await service.handleCommand({ guildId, user: { id: userId } } as ChatInputCommandInteraction);
+
+      expect(mockAfkDetection.resetTimer).toHaveBeenCalledWith(guildId, userId, 'commands');
+    });
+  });
+});
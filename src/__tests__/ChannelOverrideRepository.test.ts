@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import type { Logger } from 'pino';
+import { ChannelOverrideRepository } from '../database/repositories/ChannelOverrideRepository';
+import { createTables } from '../database/schema';
+import { createMockLogger } from './fixtures';
+
+describe('ChannelOverrideRepository', () => {
+  let db: Database.Database;
+  let repository: ChannelOverrideRepository;
+  let mockLogger: Logger;
+
+  beforeEach(() => {
+    mockLogger = createMockLogger() as unknown as Logger;
+
+    // Create an in-memory SQLite database for each test
+    db = new Database(':memory:');
+    createTables(db, mockLogger);
+    repository = new ChannelOverrideRepository(db, mockLogger);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('findByGuildId', () => {
+    it('should return an empty array when the guild has no overrides', () => {
+      expect(repository.findByGuildId('guild-1')).toEqual([]);
+    });
+
+    it('should only return overrides for the requested guild', () => {
+      repository.upsert({ guildId: 'guild-1', channelId: 'channel-b', enabled: false });
+      repository.upsert({ guildId: 'guild-1', channelId: 'channel-a', afkTimeoutSeconds: 1200 });
+      repository.upsert({ guildId: 'guild-2', channelId: 'channel-c', enabled: true });
+
+      const overrides = repository.findByGuildId('guild-1');
+
+      expect(overrides.map(o => o.channelId)).toEqual(['channel-a', 'channel-b']);
+    });
+  });
+
+  describe('upsert', () => {
+    it('should store unset fields as null so they inherit', () => {
+      repository.upsert({ guildId: 'guild-1', channelId: 'channel-1', afkTimeoutSeconds: 180 });
+
+      const [override] = repository.findByGuildId('guild-1');
+
+      expect(override).toMatchObject({
+        guildId: 'guild-1',
+        channelId: 'channel-1',
+        enabled: null,
+        afkTimeoutSeconds: 180,
+        warningSecondsBefore: null,
+        warningChannelId: null,
+      });
+      expect(override?.createdAt).toBeDefined();
+    });
+
+    it('should round-trip enabled false without treating it as unset', () => {
+      repository.upsert({ guildId: 'guild-1', channelId: 'channel-1', enabled: false });
+
+      expect(repository.findByGuildId('guild-1')[0]?.enabled).toBe(false);
+    });
+
+    it('should keep omitted fields on update', () => {
+      repository.upsert({
+        guildId: 'guild-1',
+        channelId: 'channel-1',
+        afkTimeoutSeconds: 1200,
+        warningChannelId: 'text-1',
+      });
+
+      repository.upsert({ guildId: 'guild-1', channelId: 'channel-1', warningSecondsBefore: 90 });
+
+      expect(repository.findByGuildId('guild-1')[0]).toMatchObject({
+        afkTimeoutSeconds: 1200,
+        warningSecondsBefore: 90,
+        warningChannelId: 'text-1',
+      });
+    });
+
+    it('should reset a field to inherit when null is given', () => {
+      repository.upsert({ guildId: 'guild-1', channelId: 'channel-1', enabled: false, afkTimeoutSeconds: 1200 });
+
+      repository.upsert({ guildId: 'guild-1', channelId: 'channel-1', enabled: null });
+
+      expect(repository.findByGuildId('guild-1')[0]).toMatchObject({
+        enabled: null,
+        afkTimeoutSeconds: 1200,
+      });
+    });
+  });
+
+  describe('delete', () => {
+    it('should remove a single override and report it', () => {
+      repository.upsert({ guildId: 'guild-1', channelId: 'channel-1', enabled: false });
+      repository.upsert({ guildId: 'guild-1', channelId: 'channel-2', enabled: false });
+
+      expect(repository.delete('guild-1', 'channel-1')).toBe(true);
+      expect(repository.findByGuildId('guild-1').map(o => o.channelId)).toEqual(['channel-2']);
+    });
+
+    it('should return false when no override exists', () => {
+      expect(repository.delete('guild-1', 'missing')).toBe(false);
+    });
+  });
+
+  describe('deleteByGuildId', () => {
+    it('should remove every override for the guild only', () => {
+      repository.upsert({ guildId: 'guild-1', channelId: 'channel-1', enabled: false });
+      repository.upsert({ guildId: 'guild-1', channelId: 'channel-2', enabled: false });
+      repository.upsert({ guildId: 'guild-2', channelId: 'channel-3', enabled: false });
+
+      repository.deleteByGuildId('guild-1');
+
+      expect(repository.findByGuildId('guild-1')).toEqual([]);
+      expect(repository.findByGuildId('guild-2')).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Logger } from 'pino';
+import { BUNDLED_CHIME_PATH, ChimeStore, getChimeError, MAX_CHIME_BYTES } from '../voice/ChimeStore';
+import { createMockLogger } from './fixtures';
+
+describe('ChimeStore', () => {
+  const guildId = '123456789012345678';
+  const chime = readFileSync(BUNDLED_CHIME_PATH);
+
+  let directory: string;
+  let store: ChimeStore;
+
+  beforeEach(() => {
+    directory = join(mkdtempSync(join(tmpdir(), 'chimes-')), 'nested');
+    store = new ChimeStore(directory, createMockLogger() as unknown as Logger);
+  });
+
+  afterEach(() => {
+    rmSync(join(directory, '..'), { recursive: true, force: true });
+  });
+
+  it('should ship a playable bundled chime', () => {
+    expect(getChimeError(chime)).toBeNull();
+  });
+
+  it('should play the bundled chime until the guild uploads one', async () => {
+    expect(store.getChimePath(guildId)).toBe(BUNDLED_CHIME_PATH);
+    expect(store.hasCustomChime(guildId)).toBe(false);
+
+    await store.save(guildId, chime);
+
+    const customPath = join(directory, `${guildId}.ogg`);
+    expect(store.getChimePath(guildId)).toBe(customPath);
+    expect(store.hasCustomChime(guildId)).toBe(true);
+    expect(readFileSync(customPath)).toEqual(chime);
+    expect(existsSync(`${customPath}.partial`)).toBe(false);
+  });
+
+  it('should go back to the bundled chime once the upload is removed', async () => {
+    await store.save(guildId, chime);
+
+    expect(await store.remove(guildId)).toBe(true);
+    expect(store.getChimePath(guildId)).toBe(BUNDLED_CHIME_PATH);
+    expect(await store.remove(guildId)).toBe(false);
+  });
+
+  it('should refuse guild IDs that are not snowflakes', async () => {
+    expect(() => store.getChimePath('../bot')).toThrow('Invalid guild ID for chime');
+    await expect(store.save('../bot', chime)).rejects.toThrow('Invalid guild ID for chime');
+  });
+
+  describe('getChimeError', () => {
+    it('should refuse empty and oversized files', () => {
+      expect(getChimeError(Buffer.alloc(0))).toBe('Chime must be an Ogg Opus file of at most 512 KB');
+      expect(getChimeError(Buffer.alloc(MAX_CHIME_BYTES + 1))).toBe('Chime must be an Ogg Opus file of at most 512 KB');
+    });
+
+    it('should refuse audio that would need FFmpeg', () => {
+      expect(getChimeError(Buffer.from('ID3 pretend this is an mp3'))).toContain('would need FFmpeg');
+    });
+
+    it('should refuse chimes longer than 10 seconds', () => {
+      // Rewrite the final granule position to claim a minute of audio
+      const long = Buffer.from(chime);
+      long.writeBigInt64LE(60n * 48_000n, long.lastIndexOf('OggS') + 6);
+
+      expect(getChimeError(long)).toBe('Chime must be at most 10 seconds long');
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ChannelType, type Client } from 'discord.js';
+import type { Logger } from 'pino';
+import { EscalationService, selectEscalationStep, type AFKPenalty } from '../services/EscalationService';
+import type { AFKStrikeRepository } from '../database/repositories/AFKStrikeRepository';
+import type { EscalationStep } from '../database/repositories/GuildSettingsRepository';
+import type { RateLimiter } from '../utils/RateLimiter';
+import { createMockGuildSettings, createMockLogger, createMockRateLimiter } from './fixtures';
+
+describe('EscalationService', () => {
+  const guildId = '123456789012345678';
+  const userId = '234567890123456789';
+  const now = 1_700_000_000_000;
+
+  const ladder: EscalationStep[] = [
+    { strikes: 1, action: 'disconnect', memberTimeoutSeconds: null, notify: false },
+    { strikes: 3, action: 'timeout', memberTimeoutSeconds: 600, notify: false },
+    { strikes: 5, action: 'disconnect', memberTimeoutSeconds: null, notify: true },
+  ];
+
+  let mockStrikeRepository: AFKStrikeRepository;
+  let mockSend: ReturnType<typeof vi.fn>;
+  let mockChannels: Map<string, unknown>;
+  let mockClient: Client;
+  let mockLogger: ReturnType<typeof createMockLogger>;
+  let mockRateLimiter: ReturnType<typeof createMockRateLimiter>;
+  let service: EscalationService;
+
+  beforeEach(() => {
+    mockStrikeRepository = {
+      insert: vi.fn(),
+      findByUser: vi.fn().mockReturnValue([]),
+      countSince: vi.fn().mockReturnValue(0),
+      deleteByUser: vi.fn().mockReturnValue(0),
+    } as unknown as AFKStrikeRepository;
+    mockSend = vi.fn().mockResolvedValue(undefined);
+    mockChannels = new Map();
+    mockClient = {
+      guilds: { cache: { get: vi.fn().mockReturnValue({ channels: { cache: mockChannels } }) } },
+    } as unknown as Client;
+    mockLogger = createMockLogger();
+    mockRateLimiter = createMockRateLimiter();
+    service = new EscalationService(
+      mockStrikeRepository,
+      mockClient,
+      mockLogger as unknown as Logger,
+      mockRateLimiter as unknown as RateLimiter
+    );
+  });
+
+  describe('selectEscalationStep', () => {
+    it('should pick the highest step the strike count has reached', () => {
+      expect(selectEscalationStep(ladder, 1)?.strikes).toBe(1);
+      expect(selectEscalationStep(ladder, 4)?.strikes).toBe(3);
+      expect(selectEscalationStep(ladder, 9)?.strikes).toBe(5);
+    });
+
+    it('should return null below the first step, regardless of step order', () => {
+      const unordered = [ladder[2]!, ladder[1]!];
+
+      expect(selectEscalationStep(unordered, 2)).toBeNull();
+      expect(selectEscalationStep(unordered, 3)?.strikes).toBe(3);
+    });
+  });
+
+  describe('resolvePenalty', () => {
+    it('should use the guild AFK action when escalation is disabled', () => {
+      const config = createMockGuildSettings({ guildId, afkAction: 'mute', escalationSteps: ladder });
+
+      expect(service.resolvePenalty(config, userId, now)).toEqual({
+        action: 'mute',
+        memberTimeoutSeconds: 600,
+        notify: false,
+        strikeCount: null,
+      });
+      expect(mockStrikeRepository.countSince).not.toHaveBeenCalled();
+    });
+
+    it('should count strikes inside the decay window and apply the matching step', () => {
+      vi.mocked(mockStrikeRepository.countSince).mockReturnValue(2);
+      const config = createMockGuildSettings({
+        guildId,
+        escalationEnabled: true,
+        escalationWindowSeconds: 86400,
+        escalationSteps: ladder,
+      });
+
+      const penalty = service.resolvePenalty(config, userId, now);
+
+      expect(mockStrikeRepository.countSince).toHaveBeenCalledWith(guildId, userId, now - 86400 * 1000);
+      expect(penalty).toEqual({ action: 'timeout', memberTimeoutSeconds: 600, notify: false, strikeCount: 3 });
+    });
+
+    it('should fall back to the guild timeout duration when the step has none', () => {
+      vi.mocked(mockStrikeRepository.countSince).mockReturnValue(2);
+      const config = createMockGuildSettings({
+        guildId,
+        memberTimeoutSeconds: 120,
+        escalationEnabled: true,
+        escalationSteps: [{ strikes: 3, action: 'timeout', memberTimeoutSeconds: null, notify: false }],
+      });
+
+      expect(service.resolvePenalty(config, userId, now).memberTimeoutSeconds).toBe(120);
+    });
+
+    it('should keep the guild AFK action below the first step but still report the strike count', () => {
+      const config = createMockGuildSettings({
+        guildId,
+        afkAction: 'move',
+        escalationEnabled: true,
+        escalationSteps: [ladder[1]!],
+      });
+
+      expect(service.resolvePenalty(config, userId, now)).toEqual({
+        action: 'move',
+        memberTimeoutSeconds: 600,
+        notify: false,
+        strikeCount: 1,
+      });
+    });
+
+    it('should use the guild AFK action when strikes cannot be read', () => {
+      vi.mocked(mockStrikeRepository.countSince).mockImplementation(() => {
+        throw new Error('database is locked');
+      });
+      const config = createMockGuildSettings({ guildId, escalationEnabled: true, escalationSteps: ladder });
+
+      expect(service.resolvePenalty(config, userId, now).strikeCount).toBeNull();
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        expect.objectContaining({ guildId, userId }),
+        'Failed to count AFK strikes, using base AFK action'
+      );
+    });
+  });
+
+  describe('recordStrike', () => {
+    it('should insert a strike for the applied action', () => {
+      service.recordStrike(guildId, userId, 'voice-1', 'timeout');
+
+      expect(mockStrikeRepository.insert).toHaveBeenCalledWith({ guildId, userId, channelId: 'voice-1', action: 'timeout' });
+    });
+
+    it('should log and swallow database errors', () => {
+      vi.mocked(mockStrikeRepository.insert).mockImplementation(() => {
+        throw new Error('disk full');
+      });
+
+      expect(() => service.recordStrike(guildId, userId, 'voice-1', 'disconnect')).not.toThrow();
+      expect(mockLogger.error).toHaveBeenCalledWith(expect.objectContaining({ guildId, userId }), 'Failed to record AFK strike');
+    });
+  });
+
+  describe('getActiveStrikes and clearStrikes', () => {
+    it('should only ask for strikes inside the decay window', () => {
+      const config = createMockGuildSettings({ guildId, escalationWindowSeconds: 3600 });
+
+      service.getActiveStrikes(config, userId, now);
+
+      expect(mockStrikeRepository.findByUser).toHaveBeenCalledWith(guildId, userId, now - 3600 * 1000);
+    });
+
+    it('should return the number of strikes cleared', () => {
+      vi.mocked(mockStrikeRepository.deleteByUser).mockReturnValue(4);
+
+      expect(service.clearStrikes(guildId, userId)).toBe(4);
+      expect(mockStrikeRepository.deleteByUser).toHaveBeenCalledWith(guildId, userId);
+    });
+  });
+
+  describe('notifyModerators', () => {
+    const penalty: AFKPenalty = { action: 'disconnect', memberTimeoutSeconds: 600, notify: true, strikeCount: 5 };
+
+    it('should post to the escalation channel and mention admin roles', async () => {
+      mockChannels.set('mod-channel', { type: ChannelType.GuildText, send: mockSend });
+      const config = createMockGuildSettings({
+        guildId,
+        escalationNotifyChannelId: 'mod-channel',
+        warningChannelId: 'warning-channel',
+        adminRoleIds: ['role-1', 'role-2'],
+      });
+
+      await service.notifyModerators(config, userId, 'voice-1', penalty);
+
+      expect(mockSend).toHaveBeenCalledWith(
+        expect.objectContaining({
+          content: '<@&role-1> <@&role-2>',
+          allowedMentions: { roles: ['role-1', 'role-2'] },
+        })
+      );
+      const [{ embeds }] = mockSend.mock.calls[0] as [{ embeds: Array<{ data: { description: string } }> }];
+      expect(embeds[0]?.data.description).toContain('5 strikes in the last 7 days');
+    });
+
+    it('should fall back to the warning channel', async () => {
+      mockChannels.set('warning-channel', { type: ChannelType.GuildText, send: mockSend });
+      const config = createMockGuildSettings({ guildId, warningChannelId: 'warning-channel' });
+
+      await service.notifyModerators(config, userId, 'voice-1', penalty);
+
+      expect(mockSend).toHaveBeenCalledWith(expect.objectContaining({ content: undefined }));
+    });
+
+    it('should warn and skip when no channel is configured', async () => {
+      await service.notifyModerators(createMockGuildSettings({ guildId }), userId, 'voice-1', penalty);
+
+      expect(mockSend).not.toHaveBeenCalled();
+      expect(mockLogger.warn).toHaveBeenCalledWith({ guildId, userId }, 'No channel configured for escalation notices');
+    });
+
+    it('should skip the notice when the rate limiter has no token', async () => {
+      mockChannels.set('warning-channel', { type: ChannelType.GuildText, send: mockSend });
+      mockRateLimiter.acquire.mockResolvedValue(false);
+
+      await service.notifyModerators(createMockGuildSettings({ guildId, warningChannelId: 'warning-channel' }), userId, 'voice-1', penalty);
+
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+
+    it('should log and swallow send failures', async () => {
+      mockSend.mockRejectedValue(new Error('Missing Access'));
+      mockChannels.set('warning-channel', { type: ChannelType.GuildText, send: mockSend });
+
+      await expect(
+        service.notifyModerators(createMockGuildSettings({ guildId, warningChannelId: 'warning-channel' }), userId, 'voice-1', penalty)
+      ).resolves.toBeUndefined();
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        expect.objectContaining({ guildId, userId, channelId: 'warning-channel' }),
+        'Failed to send escalation notice'
+      );
+    });
+  });
+});
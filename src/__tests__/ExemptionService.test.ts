@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Logger } from 'pino';
+import { ExemptionService, SNOOZE_LIMIT_WINDOW_MS } from '../services/ExemptionService';
+import type { AFKExemption, AFKExemptionRepository, NewAFKExemption } from '../database/repositories/AFKExemptionRepository';
+import type { GuildConfigService } from '../services/GuildConfigService';
+import type { AFKDetectionService } from '../services/AFKDetectionService';
+import { createMockGuildSettings, createMockLogger } from './fixtures';
+
+describe('ExemptionService', () => {
+  const guildId = '123456789012345678';
+  const userId = '234567890123456789';
+  const moderatorId = '345678901234567890';
+  const now = 1_700_000_000_000;
+
+  let mockExemptionRepository: AFKExemptionRepository;
+  let mockConfigService: GuildConfigService;
+  let mockAfkDetectionService: AFKDetectionService;
+  let mockLogger: ReturnType<typeof createMockLogger>;
+  let service: ExemptionService;
+
+  beforeEach(() => {
+    mockExemptionRepository = {
+      insert: vi.fn((exemption: NewAFKExemption): AFKExemption => ({
+        ...exemption,
+        id: 7,
+        createdAt: exemption.createdAt ?? now,
+      })),
+      findActiveByUser: vi.fn().mockReturnValue(null),
+      findActiveByGuild: vi.fn().mockReturnValue([]),
+      countBySourceSince: vi.fn().mockReturnValue(0),
+      expireByUser: vi.fn().mockReturnValue(0),
+    } as unknown as AFKExemptionRepository;
+    mockConfigService = {
+      getConfig: vi.fn().mockReturnValue(createMockGuildSettings({ guildId, snoozeDailyLimit: 3 })),
+    } as unknown as GuildConfigService;
+    mockAfkDetectionService = {
+      restartTracking: vi.fn().mockResolvedValue(undefined),
+      recordExemptionGrant: vi.fn(),
+    } as unknown as AFKDetectionService;
+    mockLogger = createMockLogger();
+    service = new ExemptionService(
+      mockExemptionRepository,
+      mockConfigService,
+      mockAfkDetectionService,
+      mockLogger as unknown as Logger
+    );
+  });
+
+  describe('grant', () => {
+    it('should store the exemption and restart the member\'s timer', async () => {
+      const exemption = await service.grant(
+        { guildId, userId, durationSeconds: 3600, source: 'moderator', reason: 'Streaming', grantedBy: moderatorId },
+        now
+      );
+
+      expect(mockExemptionRepository.insert).toHaveBeenCalledWith({
+        guildId,
+        userId,
+        source: 'moderator',
+        reason: 'Streaming',
+        grantedBy: moderatorId,
+        expiresAt: now + 3600 * 1000,
+        createdAt: now,
+      });
+      expect(exemption.id).toBe(7);
+      expect(mockAfkDetectionService.restartTracking).toHaveBeenCalledWith(guildId, userId);
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        expect.objectContaining({ guildId, userId, exemptionId: 7, source: 'moderator' }),
+        'AFK exemption granted'
+      );
+    });
+
+    it('should record the grant in the audit log before restarting the timer', async () => {
+      const exemption = await service.grant(
+        { guildId, userId, durationSeconds: 3600, source: 'moderator', reason: null, grantedBy: moderatorId },
+        now
+      );
+
+      expect(mockAfkDetectionService.recordExemptionGrant).toHaveBeenCalledWith(exemption, 3600, `<@${moderatorId}>`);
+      expect(vi.mocked(mockAfkDetectionService.recordExemptionGrant).mock.invocationCallOrder[0]).toBeLessThan(
+        vi.mocked(mockAfkDetectionService.restartTracking).mock.invocationCallOrder[0] ?? 0
+      );
+    });
+
+    it('should name who asked for an API grant in the audit log', async () => {
+      const exemption = await service.grant(
+        { guildId, userId, durationSeconds: 600, source: 'api', reason: null, grantedBy: null, requestedBy: 'api:token' },
+        now
+      );
+
+      expect(mockAfkDetectionService.recordExemptionGrant).toHaveBeenCalledWith(exemption, 600, 'api:token');
+    });
+  });
+
+  describe('snooze', () => {
+    it('should snooze the member and report the snoozes left', async () => {
+      vi.mocked(mockExemptionRepository.countBySourceSince).mockReturnValue(1);
+
+      const result = await service.snooze(guildId, userId, 1800, now);
+
+      expect(mockExemptionRepository.countBySourceSince).toHaveBeenCalledWith(
+        guildId,
+        userId,
+        'snooze',
+        now - SNOOZE_LIMIT_WINDOW_MS
+      );
+      expect(mockExemptionRepository.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ source: 'snooze', grantedBy: userId, reason: null, expiresAt: now + 1800 * 1000 })
+      );
+      expect(result).toEqual({ status: 'snoozed', exemption: expect.objectContaining({ id: 7 }), remaining: 1 });
+      expect(mockAfkDetectionService.restartTracking).toHaveBeenCalledWith(guildId, userId);
+    });
+
+    it('should refuse once the daily limit is reached', async () => {
+      vi.mocked(mockExemptionRepository.countBySourceSince).mockReturnValue(3);
+
+      const result = await service.snooze(guildId, userId, 1800, now);
+
+      expect(result).toEqual({ status: 'limit_reached', limit: 3 });
+      expect(mockExemptionRepository.insert).not.toHaveBeenCalled();
+      expect(mockAfkDetectionService.restartTracking).not.toHaveBeenCalled();
+    });
+
+    it('should report snoozing as disabled when the limit is 0', async () => {
+      vi.mocked(mockConfigService.getConfig).mockReturnValue(createMockGuildSettings({ guildId, snoozeDailyLimit: 0 }));
+
+      const result = await service.snooze(guildId, userId, 1800, now);
+
+      expect(result).toEqual({ status: 'disabled' });
+      expect(mockExemptionRepository.countBySourceSince).not.toHaveBeenCalled();
+      expect(mockExemptionRepository.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getActiveExemptions', () => {
+    it('should list the guild\'s active exemptions', () => {
+      service.getActiveExemptions(guildId, now);
+
+      expect(mockExemptionRepository.findActiveByGuild).toHaveBeenCalledWith(guildId, now);
+    });
+  });
+
+  describe('revoke', () => {
+    it('should expire the member\'s exemptions and restart their timer', async () => {
+      vi.mocked(mockExemptionRepository.expireByUser).mockReturnValue(2);
+
+      const revoked = await service.revoke(guildId, userId, now);
+
+      expect(revoked).toBe(2);
+      expect(mockExemptionRepository.expireByUser).toHaveBeenCalledWith(guildId, userId, now);
+      expect(mockAfkDetectionService.restartTracking).toHaveBeenCalledWith(guildId, userId);
+    });
+
+    it('should leave the timer alone when nothing was active', async () => {
+      const revoked = await service.revoke(guildId, userId, now);
+
+      expect(revoked).toBe(0);
+      expect(mockAfkDetectionService.restartTracking).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { GuildConfigService } from '../services/GuildConfigService';
 import type { GuildSettingsRepository, GuildSettings } from '../database/repositories/GuildSettingsRepository';
+import type { ChannelOverrideRepository, ChannelOverride } from '../database/repositories/ChannelOverrideRepository';
+import { BotMetrics } from '../utils/metrics';
 import { createMockLogger, createMockGuildSettings } from './fixtures';
 
 // Mock the logger module
@@ -52,6 +54,32 @@ describe('GuildConfigService', () => {
           warningChannelId: null,
           exemptRoleIds: [],
           adminRoleIds: [],
+          afkAction: 'disconnect',
+          afkMoveChannelId: null,
+          afkRoleId: null,
+          memberTimeoutSeconds: 600,
+          mode: 'enforce',
+          escalationEnabled: false,
+          escalationWindowSeconds: 604800,
+          escalationSteps: [],
+          escalationNotifyChannelId: null,
+          activitySignals: [],
+          activityChannelIds: [],
+          scheduleTimeZone: 'UTC',
+          scheduleType: 'active',
+          scheduleWindows: [],
+          minUsersForTracking: 2,
+          countDeafenedUsers: true,
+          countBots: false,
+          snoozeDailyLimit: 3,
+          exemptChannelIds: [],
+          messageLocale: null,
+          messageTemplates: {},
+          kickDmEnabled: false,
+          warningDelivery: 'channel',
+          warningStages: [],
+          warningChimeEnabled: false,
+          modLogChannelId: null,
           createdAt: expect.any(String),
           updatedAt: expect.any(String),
         });
@@ -145,6 +173,19 @@ describe('GuildConfigService', () => {
         expect(config1).toEqual(dbSettings);
       });
 
+      it('should count cache hits and misses when metrics are provided', () => {
+        const metrics = new BotMetrics();
+        const metricsService = new GuildConfigService(mockRepository, mockLogger, 1000, null, metrics);
+        vi.mocked(mockRepository.findByGuildId).mockReturnValue(createMockGuildSettings({ guildId: 'metrics-guild' }));
+
+        metricsService.getConfig('metrics-guild');
+        metricsService.getConfig('metrics-guild');
+        metricsService.getConfig('metrics-guild');
+
+        expect(metrics.configCacheLookups.get({ result: 'miss' })).toBe(1);
+        expect(metrics.configCacheLookups.get({ result: 'hit' })).toBe(2);
+      });
+
       it('should cache default config when guild not in database', () => {
         const guildId = 'non-existent-cached';
         vi.mocked(mockRepository.findByGuildId).mockReturnValue(null);
@@ -215,6 +256,32 @@ describe('GuildConfigService', () => {
           warningChannelId: null,
           exemptRoleIds: [],
           adminRoleIds: [],
+          afkAction: 'disconnect',
+          afkMoveChannelId: null,
+          afkRoleId: null,
+          memberTimeoutSeconds: 600,
+          mode: 'enforce',
+          escalationEnabled: false,
+          escalationWindowSeconds: 604800,
+          escalationSteps: [],
+          escalationNotifyChannelId: null,
+          activitySignals: [],
+          activityChannelIds: [],
+          scheduleTimeZone: 'UTC',
+          scheduleType: 'active',
+          scheduleWindows: [],
+          minUsersForTracking: 2,
+          countDeafenedUsers: true,
+          countBots: false,
+          snoozeDailyLimit: 3,
+          exemptChannelIds: [],
+          messageLocale: null,
+          messageTemplates: {},
+          kickDmEnabled: false,
+          warningDelivery: 'channel',
+          warningStages: [],
+          warningChimeEnabled: false,
+          modLogChannelId: null,
           createdAt: '2024-01-01T00:00:00.000Z',
           updatedAt: '2024-01-01T00:00:00.000Z',
         };
@@ -245,6 +312,32 @@ describe('GuildConfigService', () => {
         warningChannelId: null,
         exemptRoleIds: [],
         adminRoleIds: [],
+        afkAction: 'disconnect',
+        afkMoveChannelId: null,
+        afkRoleId: null,
+        memberTimeoutSeconds: 600,
+        mode: 'enforce',
+        escalationEnabled: false,
+        escalationWindowSeconds: 604800,
+        escalationSteps: [],
+        escalationNotifyChannelId: null,
+        activitySignals: [],
+        activityChannelIds: [],
+        scheduleTimeZone: 'UTC',
+        scheduleType: 'active',
+        scheduleWindows: [],
+        minUsersForTracking: 2,
+        countDeafenedUsers: true,
+        countBots: false,
+        snoozeDailyLimit: 3,
+        exemptChannelIds: [],
+        messageLocale: null,
+        messageTemplates: {},
+        kickDmEnabled: false,
+        warningDelivery: 'channel',
+        warningStages: [],
+        warningChimeEnabled: false,
+        modLogChannelId: null,
         createdAt: '2024-01-01T00:00:00.000Z',
         updatedAt: '2024-01-01T12:00:00.000Z',
       };
@@ -269,6 +362,32 @@ describe('GuildConfigService', () => {
         warningChannelId: 'new-channel',
         exemptRoleIds: ['new-role'],
         adminRoleIds: [],
+        afkAction: 'disconnect',
+        afkMoveChannelId: null,
+        afkRoleId: null,
+        memberTimeoutSeconds: 600,
+        mode: 'enforce',
+        escalationEnabled: false,
+        escalationWindowSeconds: 604800,
+        escalationSteps: [],
+        escalationNotifyChannelId: null,
+        activitySignals: [],
+        activityChannelIds: [],
+        scheduleTimeZone: 'UTC',
+        scheduleType: 'active',
+        scheduleWindows: [],
+        minUsersForTracking: 2,
+        countDeafenedUsers: true,
+        countBots: false,
+        snoozeDailyLimit: 3,
+        exemptChannelIds: [],
+        messageLocale: null,
+        messageTemplates: {},
+        kickDmEnabled: false,
+        warningDelivery: 'channel',
+        warningStages: [],
+        warningChimeEnabled: false,
+        modLogChannelId: null,
         createdAt: '2024-01-01T00:00:00.000Z',
         updatedAt: '2024-01-01T13:00:00.000Z',
       };
@@ -300,6 +419,32 @@ describe('GuildConfigService', () => {
         warningChannelId: 'channel-999',
         exemptRoleIds: [],
         adminRoleIds: [],
+        afkAction: 'disconnect',
+        afkMoveChannelId: null,
+        afkRoleId: null,
+        memberTimeoutSeconds: 600,
+        mode: 'enforce',
+        escalationEnabled: false,
+        escalationWindowSeconds: 604800,
+        escalationSteps: [],
+        escalationNotifyChannelId: null,
+        activitySignals: [],
+        activityChannelIds: [],
+        scheduleTimeZone: 'UTC',
+        scheduleType: 'active',
+        scheduleWindows: [],
+        minUsersForTracking: 2,
+        countDeafenedUsers: true,
+        countBots: false,
+        snoozeDailyLimit: 3,
+        exemptChannelIds: [],
+        messageLocale: null,
+        messageTemplates: {},
+        kickDmEnabled: false,
+        warningDelivery: 'channel',
+        warningStages: [],
+        warningChimeEnabled: false,
+        modLogChannelId: null,
         createdAt: '2024-01-01T00:00:00.000Z',
         updatedAt: '2024-01-01T14:00:00.000Z',
       };
@@ -334,6 +479,32 @@ describe('GuildConfigService', () => {
         warningChannelId: null,
         exemptRoleIds: [],
         adminRoleIds: [],
+        afkAction: 'disconnect',
+        afkMoveChannelId: null,
+        afkRoleId: null,
+        memberTimeoutSeconds: 600,
+        mode: 'enforce',
+        escalationEnabled: false,
+        escalationWindowSeconds: 604800,
+        escalationSteps: [],
+        escalationNotifyChannelId: null,
+        activitySignals: [],
+        activityChannelIds: [],
+        scheduleTimeZone: 'UTC',
+        scheduleType: 'active',
+        scheduleWindows: [],
+        minUsersForTracking: 2,
+        countDeafenedUsers: true,
+        countBots: false,
+        snoozeDailyLimit: 3,
+        exemptChannelIds: [],
+        messageLocale: null,
+        messageTemplates: {},
+        kickDmEnabled: false,
+        warningDelivery: 'channel',
+        warningStages: [],
+        warningChimeEnabled: false,
+        modLogChannelId: null,
         createdAt: '2024-01-01T00:00:00.000Z',
         updatedAt: '2024-01-01T15:00:00.000Z',
       };
@@ -359,6 +530,32 @@ describe('GuildConfigService', () => {
         warningChannelId: null,
         exemptRoleIds: newRoles,
         adminRoleIds: [],
+        afkAction: 'disconnect',
+        afkMoveChannelId: null,
+        afkRoleId: null,
+        memberTimeoutSeconds: 600,
+        mode: 'enforce',
+        escalationEnabled: false,
+        escalationWindowSeconds: 604800,
+        escalationSteps: [],
+        escalationNotifyChannelId: null,
+        activitySignals: [],
+        activityChannelIds: [],
+        scheduleTimeZone: 'UTC',
+        scheduleType: 'active',
+        scheduleWindows: [],
+        minUsersForTracking: 2,
+        countDeafenedUsers: true,
+        countBots: false,
+        snoozeDailyLimit: 3,
+        exemptChannelIds: [],
+        messageLocale: null,
+        messageTemplates: {},
+        kickDmEnabled: false,
+        warningDelivery: 'channel',
+        warningStages: [],
+        warningChimeEnabled: false,
+        modLogChannelId: null,
         createdAt: '2024-01-01T00:00:00.000Z',
         updatedAt: '2024-01-01T16:00:00.000Z',
       };
@@ -387,6 +584,32 @@ describe('GuildConfigService', () => {
         guildId,
         ...updates,
         adminRoleIds: [],
+        afkAction: 'disconnect',
+        afkMoveChannelId: null,
+        afkRoleId: null,
+        memberTimeoutSeconds: 600,
+        mode: 'enforce',
+        escalationEnabled: false,
+        escalationWindowSeconds: 604800,
+        escalationSteps: [],
+        escalationNotifyChannelId: null,
+        activitySignals: [],
+        activityChannelIds: [],
+        scheduleTimeZone: 'UTC',
+        scheduleType: 'active',
+        scheduleWindows: [],
+        minUsersForTracking: 2,
+        countDeafenedUsers: true,
+        countBots: false,
+        snoozeDailyLimit: 3,
+        exemptChannelIds: [],
+        messageLocale: null,
+        messageTemplates: {},
+        kickDmEnabled: false,
+        warningDelivery: 'channel',
+        warningStages: [],
+        warningChimeEnabled: false,
+        modLogChannelId: null,
         createdAt: '2024-01-01T00:00:00.000Z',
         updatedAt: '2024-01-01T17:00:00.000Z',
       };
@@ -412,6 +635,32 @@ describe('GuildConfigService', () => {
         warningChannelId: null,
         exemptRoleIds: [],
         adminRoleIds: [],
+        afkAction: 'disconnect',
+        afkMoveChannelId: null,
+        afkRoleId: null,
+        memberTimeoutSeconds: 600,
+        mode: 'enforce',
+        escalationEnabled: false,
+        escalationWindowSeconds: 604800,
+        escalationSteps: [],
+        escalationNotifyChannelId: null,
+        activitySignals: [],
+        activityChannelIds: [],
+        scheduleTimeZone: 'UTC',
+        scheduleType: 'active',
+        scheduleWindows: [],
+        minUsersForTracking: 2,
+        countDeafenedUsers: true,
+        countBots: false,
+        snoozeDailyLimit: 3,
+        exemptChannelIds: [],
+        messageLocale: null,
+        messageTemplates: {},
+        kickDmEnabled: false,
+        warningDelivery: 'channel',
+        warningStages: [],
+        warningChimeEnabled: false,
+        modLogChannelId: null,
         createdAt: '2024-01-01T00:00:00.000Z',
         updatedAt: '2024-01-01T00:00:00.000Z',
       };
@@ -423,6 +672,32 @@ describe('GuildConfigService', () => {
         warningChannelId: 'channel-new',
         exemptRoleIds: ['role-new'],
         adminRoleIds: [],
+        afkAction: 'disconnect',
+        afkMoveChannelId: null,
+        afkRoleId: null,
+        memberTimeoutSeconds: 600,
+        mode: 'enforce',
+        escalationEnabled: false,
+        escalationWindowSeconds: 604800,
+        escalationSteps: [],
+        escalationNotifyChannelId: null,
+        activitySignals: [],
+        activityChannelIds: [],
+        scheduleTimeZone: 'UTC',
+        scheduleType: 'active',
+        scheduleWindows: [],
+        minUsersForTracking: 2,
+        countDeafenedUsers: true,
+        countBots: false,
+        snoozeDailyLimit: 3,
+        exemptChannelIds: [],
+        messageLocale: null,
+        messageTemplates: {},
+        kickDmEnabled: false,
+        warningDelivery: 'channel',
+        warningStages: [],
+        warningChimeEnabled: false,
+        modLogChannelId: null,
         createdAt: '2024-01-01T00:00:00.000Z',
         updatedAt: '2024-01-01T18:00:00.000Z',
       };
@@ -444,6 +719,171 @@ describe('GuildConfigService', () => {
     });
   });
 
+  describe('channel overrides', () => {
+    const guildId = 'override-guild';
+    let mockOverrideRepository: ChannelOverrideRepository;
+    let overrideService: GuildConfigService;
+
+    const createOverride = (overrides: Partial<ChannelOverride>): ChannelOverride => ({
+      guildId,
+      channelId: 'channel-1',
+      enabled: null,
+      afkTimeoutSeconds: null,
+      warningSecondsBefore: null,
+      warningChannelId: null,
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      mockOverrideRepository = {
+        findByGuildId: vi.fn().mockReturnValue([]),
+        upsert: vi.fn(),
+        delete: vi.fn().mockReturnValue(true),
+        deleteByGuildId: vi.fn(),
+      } as unknown as ChannelOverrideRepository;
+
+      vi.mocked(mockRepository.findByGuildId).mockReturnValue(
+        createMockGuildSettings({
+          guildId,
+          enabled: true,
+          afkTimeoutSeconds: 300,
+          warningSecondsBefore: 60,
+          warningChannelId: 'guild-warning-channel',
+        })
+      );
+
+      overrideService = new GuildConfigService(mockRepository, mockLogger, 1000, mockOverrideRepository);
+    });
+
+    describe('getEffectiveConfig', () => {
+      it('should return the guild config when no overrides exist', () => {
+        const config = overrideService.getEffectiveConfig(guildId, 'channel-1', 'category-1');
+
+        expect(config).toEqual(overrideService.getConfig(guildId));
+      });
+
+      it('should return the guild config when no override repository is configured', () => {
+        const config = service.getEffectiveConfig(guildId, 'channel-1');
+
+        expect(config.afkTimeoutSeconds).toBe(300);
+      });
+
+      it('should apply channel override fields and inherit the rest', () => {
+        vi.mocked(mockOverrideRepository.findByGuildId).mockReturnValue([
+          createOverride({ channelId: 'study-hall', afkTimeoutSeconds: 1200 }),
+        ]);
+
+        const config = overrideService.getEffectiveConfig(guildId, 'study-hall');
+
+        expect(config.afkTimeoutSeconds).toBe(1200);
+        expect(config.warningSecondsBefore).toBe(60);
+        expect(config.warningChannelId).toBe('guild-warning-channel');
+        expect(config.enabled).toBe(true);
+      });
+
+      it('should inherit from the category override', () => {
+        vi.mocked(mockOverrideRepository.findByGuildId).mockReturnValue([
+          createOverride({ channelId: 'category-1', afkTimeoutSeconds: 180, warningChannelId: 'category-warnings' }),
+        ]);
+
+        const config = overrideService.getEffectiveConfig(guildId, 'quick-chat', 'category-1');
+
+        expect(config.afkTimeoutSeconds).toBe(180);
+        expect(config.warningChannelId).toBe('category-warnings');
+      });
+
+      it('should let the channel override win over the category override', () => {
+        vi.mocked(mockOverrideRepository.findByGuildId).mockReturnValue([
+          createOverride({ channelId: 'category-1', enabled: false, afkTimeoutSeconds: 180 }),
+          createOverride({ channelId: 'movie-night', enabled: true }),
+        ]);
+
+        const config = overrideService.getEffectiveConfig(guildId, 'movie-night', 'category-1');
+
+        expect(config.enabled).toBe(true);
+        expect(config.afkTimeoutSeconds).toBe(180);
+      });
+
+      it('should allow a channel override to disable monitoring', () => {
+        vi.mocked(mockOverrideRepository.findByGuildId).mockReturnValue([
+          createOverride({ channelId: 'movie-night', enabled: false }),
+        ]);
+
+        expect(overrideService.getEffectiveConfig(guildId, 'movie-night').enabled).toBe(false);
+        expect(overrideService.getEffectiveConfig(guildId, 'other-channel').enabled).toBe(true);
+      });
+
+      it('should cache overrides per guild', () => {
+        overrideService.getEffectiveConfig(guildId, 'channel-1');
+        overrideService.getEffectiveConfig(guildId, 'channel-2');
+
+        expect(mockOverrideRepository.findByGuildId).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('setChannelOverride', () => {
+      it('should persist the override and reload it', () => {
+        vi.mocked(mockOverrideRepository.findByGuildId).mockReturnValue([]);
+        overrideService.getChannelOverrides(guildId);
+
+        const stored = createOverride({ channelId: 'channel-1', afkTimeoutSeconds: 600 });
+        vi.mocked(mockOverrideRepository.findByGuildId).mockReturnValue([stored]);
+
+        const result = overrideService.setChannelOverride(guildId, 'channel-1', { afkTimeoutSeconds: 600 });
+
+        expect(mockOverrideRepository.upsert).toHaveBeenCalledWith({
+          guildId,
+          channelId: 'channel-1',
+          afkTimeoutSeconds: 600,
+        });
+        expect(result).toEqual(stored);
+        expect(overrideService.getEffectiveConfig(guildId, 'channel-1').afkTimeoutSeconds).toBe(600);
+      });
+
+      it('should wrap repository errors', () => {
+        vi.mocked(mockOverrideRepository.upsert).mockImplementation(() => {
+          throw new Error('SQLITE_BUSY');
+        });
+
+        expect(() => overrideService.setChannelOverride(guildId, 'channel-1', { enabled: false })).toThrow(
+          'Failed to update channel override for channel channel-1: SQLITE_BUSY'
+        );
+      });
+
+      it('should throw when no override repository is configured', () => {
+        expect(() => service.setChannelOverride(guildId, 'channel-1', { enabled: false })).toThrow(
+          'Channel overrides are not available'
+        );
+      });
+    });
+
+    describe('removeChannelOverride', () => {
+      it('should delete the override and invalidate the cache', () => {
+        overrideService.getChannelOverrides(guildId);
+
+        expect(overrideService.removeChannelOverride(guildId, 'channel-1')).toBe(true);
+        overrideService.getChannelOverrides(guildId);
+
+        expect(mockOverrideRepository.delete).toHaveBeenCalledWith(guildId, 'channel-1');
+        expect(mockOverrideRepository.findByGuildId).toHaveBeenCalledTimes(2);
+      });
+
+      it('should return false when the channel had no override', () => {
+        vi.mocked(mockOverrideRepository.delete).mockReturnValue(false);
+
+        expect(overrideService.removeChannelOverride(guildId, 'channel-1')).toBe(false);
+      });
+    });
+
+    it('should delete overrides when the guild config is reset', () => {
+      overrideService.resetConfig(guildId);
+
+      expect(mockOverrideRepository.deleteByGuildId).toHaveBeenCalledWith(guildId);
+    });
+  });
+
   describe('clearCache', () => {
     describe('when clearing specific guild cache', () => {
       it('should clear cache for specific guild', () => {
@@ -456,6 +896,32 @@ describe('GuildConfigService', () => {
           warningChannelId: null,
           exemptRoleIds: [],
           adminRoleIds: [],
+          afkAction: 'disconnect',
+          afkMoveChannelId: null,
+          afkRoleId: null,
+          memberTimeoutSeconds: 600,
+          mode: 'enforce',
+          escalationEnabled: false,
+          escalationWindowSeconds: 604800,
+          escalationSteps: [],
+          escalationNotifyChannelId: null,
+          activitySignals: [],
+          activityChannelIds: [],
+          scheduleTimeZone: 'UTC',
+          scheduleType: 'active',
+          scheduleWindows: [],
+          minUsersForTracking: 2,
+          countDeafenedUsers: true,
+          countBots: false,
+          snoozeDailyLimit: 3,
+          exemptChannelIds: [],
+          messageLocale: null,
+          messageTemplates: {},
+          kickDmEnabled: false,
+          warningDelivery: 'channel',
+          warningStages: [],
+          warningChimeEnabled: false,
+          modLogChannelId: null,
           createdAt: '2024-01-01T00:00:00.000Z',
           updatedAt: '2024-01-01T00:00:00.000Z',
         };
@@ -485,6 +951,32 @@ describe('GuildConfigService', () => {
           warningChannelId: null,
           exemptRoleIds: [],
           adminRoleIds: [],
+          afkAction: 'disconnect',
+          afkMoveChannelId: null,
+          afkRoleId: null,
+          memberTimeoutSeconds: 600,
+          mode: 'enforce',
+          escalationEnabled: false,
+          escalationWindowSeconds: 604800,
+          escalationSteps: [],
+          escalationNotifyChannelId: null,
+          activitySignals: [],
+          activityChannelIds: [],
+          scheduleTimeZone: 'UTC',
+          scheduleType: 'active',
+          scheduleWindows: [],
+          minUsersForTracking: 2,
+          countDeafenedUsers: true,
+          countBots: false,
+          snoozeDailyLimit: 3,
+          exemptChannelIds: [],
+          messageLocale: null,
+          messageTemplates: {},
+          kickDmEnabled: false,
+          warningDelivery: 'channel',
+          warningStages: [],
+          warningChimeEnabled: false,
+          modLogChannelId: null,
           createdAt: '2024-01-01T00:00:00.000Z',
           updatedAt: '2024-01-01T00:00:00.000Z',
         };
@@ -496,6 +988,32 @@ describe('GuildConfigService', () => {
           warningChannelId: null,
           exemptRoleIds: [],
           adminRoleIds: [],
+          afkAction: 'disconnect',
+          afkMoveChannelId: null,
+          afkRoleId: null,
+          memberTimeoutSeconds: 600,
+          mode: 'enforce',
+          escalationEnabled: false,
+          escalationWindowSeconds: 604800,
+          escalationSteps: [],
+          escalationNotifyChannelId: null,
+          activitySignals: [],
+          activityChannelIds: [],
+          scheduleTimeZone: 'UTC',
+          scheduleType: 'active',
+          scheduleWindows: [],
+          minUsersForTracking: 2,
+          countDeafenedUsers: true,
+          countBots: false,
+          snoozeDailyLimit: 3,
+          exemptChannelIds: [],
+          messageLocale: null,
+          messageTemplates: {},
+          kickDmEnabled: false,
+          warningDelivery: 'channel',
+          warningStages: [],
+          warningChimeEnabled: false,
+          modLogChannelId: null,
           createdAt: '2024-01-02T00:00:00.000Z',
           updatedAt: '2024-01-02T00:00:00.000Z',
         };
@@ -577,6 +1095,32 @@ describe('GuildConfigService', () => {
           warningChannelId: null,
           exemptRoleIds: [],
           adminRoleIds: [],
+          afkAction: 'disconnect',
+          afkMoveChannelId: null,
+          afkRoleId: null,
+          memberTimeoutSeconds: 600,
+          mode: 'enforce',
+          escalationEnabled: false,
+          escalationWindowSeconds: 604800,
+          escalationSteps: [],
+          escalationNotifyChannelId: null,
+          activitySignals: [],
+          activityChannelIds: [],
+          scheduleTimeZone: 'UTC',
+          scheduleType: 'active',
+          scheduleWindows: [],
+          minUsersForTracking: 2,
+          countDeafenedUsers: true,
+          countBots: false,
+          snoozeDailyLimit: 3,
+          exemptChannelIds: [],
+          messageLocale: null,
+          messageTemplates: {},
+          kickDmEnabled: false,
+          warningDelivery: 'channel',
+          warningStages: [],
+          warningChimeEnabled: false,
+          modLogChannelId: null,
           createdAt: '2024-01-01T00:00:00.000Z',
           updatedAt: '2024-01-01T00:00:00.000Z',
         };
@@ -833,6 +1377,32 @@ describe('GuildConfigService', () => {
           warningChannelId: null,
           exemptRoleIds: [],
           adminRoleIds: [],
+          afkAction: 'disconnect',
+          afkMoveChannelId: null,
+          afkRoleId: null,
+          memberTimeoutSeconds: 600,
+          mode: 'enforce',
+          escalationEnabled: false,
+          escalationWindowSeconds: 604800,
+          escalationSteps: [],
+          escalationNotifyChannelId: null,
+          activitySignals: [],
+          activityChannelIds: [],
+          scheduleTimeZone: 'UTC',
+          scheduleType: 'active',
+          scheduleWindows: [],
+          minUsersForTracking: 2,
+          countDeafenedUsers: true,
+          countBots: false,
+          snoozeDailyLimit: 3,
+          exemptChannelIds: [],
+          messageLocale: null,
+          messageTemplates: {},
+          kickDmEnabled: false,
+          warningDelivery: 'channel',
+          warningStages: [],
+          warningChimeEnabled: false,
+          modLogChannelId: null,
           createdAt: '2024-01-01T00:00:00.000Z',
           updatedAt: '2024-01-01T00:00:00.000Z',
         });
@@ -891,6 +1461,32 @@ describe('GuildConfigService', () => {
           warningChannelId: null,
           exemptRoleIds: [],
           adminRoleIds: [],
+          afkAction: 'disconnect',
+          afkMoveChannelId: null,
+          afkRoleId: null,
+          memberTimeoutSeconds: 600,
+          mode: 'enforce',
+          escalationEnabled: false,
+          escalationWindowSeconds: 604800,
+          escalationSteps: [],
+          escalationNotifyChannelId: null,
+          activitySignals: [],
+          activityChannelIds: [],
+          scheduleTimeZone: 'UTC',
+          scheduleType: 'active',
+          scheduleWindows: [],
+          minUsersForTracking: 2,
+          countDeafenedUsers: true,
+          countBots: false,
+          snoozeDailyLimit: 3,
+          exemptChannelIds: [],
+          messageLocale: null,
+          messageTemplates: {},
+          kickDmEnabled: false,
+          warningDelivery: 'channel',
+          warningStages: [],
+          warningChimeEnabled: false,
+          modLogChannelId: null,
           createdAt: '2024-01-01T00:00:00.000Z',
           updatedAt: '2024-01-01T00:00:00.000Z',
         });
@@ -944,6 +1540,32 @@ describe('GuildConfigService', () => {
           warningChannelId: null,
           exemptRoleIds: [],
           adminRoleIds: [],
+          afkAction: 'disconnect',
+          afkMoveChannelId: null,
+          afkRoleId: null,
+          memberTimeoutSeconds: 600,
+          mode: 'enforce',
+          escalationEnabled: false,
+          escalationWindowSeconds: 604800,
+          escalationSteps: [],
+          escalationNotifyChannelId: null,
+          activitySignals: [],
+          activityChannelIds: [],
+          scheduleTimeZone: 'UTC',
+          scheduleType: 'active',
+          scheduleWindows: [],
+          minUsersForTracking: 2,
+          countDeafenedUsers: true,
+          countBots: false,
+          snoozeDailyLimit: 3,
+          exemptChannelIds: [],
+          messageLocale: null,
+          messageTemplates: {},
+          kickDmEnabled: false,
+          warningDelivery: 'channel',
+          warningStages: [],
+          warningChimeEnabled: false,
+          modLogChannelId: null,
           createdAt: '2024-01-01T00:00:00.000Z',
           updatedAt: '2024-01-01T00:00:00.000Z',
         });
@@ -1038,6 +1660,32 @@ describe('GuildConfigService', () => {
           warningChannelId: null,
           exemptRoleIds: [],
           adminRoleIds: [],
+          afkAction: 'disconnect',
+          afkMoveChannelId: null,
+          afkRoleId: null,
+          memberTimeoutSeconds: 600,
+          mode: 'enforce',
+          escalationEnabled: false,
+          escalationWindowSeconds: 604800,
+          escalationSteps: [],
+          escalationNotifyChannelId: null,
+          activitySignals: [],
+          activityChannelIds: [],
+          scheduleTimeZone: 'UTC',
+          scheduleType: 'active',
+          scheduleWindows: [],
+          minUsersForTracking: 2,
+          countDeafenedUsers: true,
+          countBots: false,
+          snoozeDailyLimit: 3,
+          exemptChannelIds: [],
+          messageLocale: null,
+          messageTemplates: {},
+          kickDmEnabled: false,
+          warningDelivery: 'channel',
+          warningStages: [],
+          warningChimeEnabled: false,
+          modLogChannelId: null,
           createdAt: '2024-01-01T00:00:00.000Z',
           updatedAt: '2024-01-01T01:00:00.000Z',
         };
@@ -1095,6 +1743,32 @@ describe('GuildConfigService', () => {
           warningChannelId: null,
           exemptRoleIds: [],
           adminRoleIds: [],
+          afkAction: 'disconnect',
+          afkMoveChannelId: null,
+          afkRoleId: null,
+          memberTimeoutSeconds: 600,
+          mode: 'enforce',
+          escalationEnabled: false,
+          escalationWindowSeconds: 604800,
+          escalationSteps: [],
+          escalationNotifyChannelId: null,
+          activitySignals: [],
+          activityChannelIds: [],
+          scheduleTimeZone: 'UTC',
+          scheduleType: 'active',
+          scheduleWindows: [],
+          minUsersForTracking: 2,
+          countDeafenedUsers: true,
+          countBots: false,
+          snoozeDailyLimit: 3,
+          exemptChannelIds: [],
+          messageLocale: null,
+          messageTemplates: {},
+          kickDmEnabled: false,
+          warningDelivery: 'channel',
+          warningStages: [],
+          warningChimeEnabled: false,
+          modLogChannelId: null,
           createdAt: '2024-01-01T00:00:00.000Z',
           updatedAt: '2024-01-01T00:00:00.000Z',
         };
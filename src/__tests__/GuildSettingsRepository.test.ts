@@ -323,6 +323,212 @@ describe('GuildSettingsRepository', () => {
         expect(result?.exemptRoleIds).toEqual(['role-3', 'role-4', 'role-5']);
       });
 
+      it('should persist AFK action settings', () => {
+        const guildId = 'afk-action-guild';
+
+        repository.upsert({
+          guildId,
+          afkAction: 'move',
+          afkMoveChannelId: 'afk-channel',
+          afkRoleId: 'afk-role',
+          memberTimeoutSeconds: 1200,
+        });
+
+        const result = repository.findByGuildId(guildId);
+        expect(result?.afkAction).toBe('move');
+        expect(result?.afkMoveChannelId).toBe('afk-channel');
+        expect(result?.afkRoleId).toBe('afk-role');
+        expect(result?.memberTimeoutSeconds).toBe(1200);
+      });
+
+      it('should keep AFK action targets when omitted and clear them when null', () => {
+        const guildId = 'afk-action-clear-guild';
+
+        repository.upsert({
+          guildId,
+          afkAction: 'role',
+          afkMoveChannelId: 'afk-channel',
+          afkRoleId: 'afk-role',
+        });
+
+        repository.upsert({ guildId, enabled: true });
+        let result = repository.findByGuildId(guildId);
+        expect(result?.afkAction).toBe('role');
+        expect(result?.afkMoveChannelId).toBe('afk-channel');
+        expect(result?.afkRoleId).toBe('afk-role');
+
+        repository.upsert({ guildId, afkMoveChannelId: null, afkRoleId: null });
+        result = repository.findByGuildId(guildId);
+        expect(result?.afkMoveChannelId).toBeNull();
+        expect(result?.afkRoleId).toBeNull();
+      });
+
+      it('should persist the enforcement mode and keep it when omitted', () => {
+        const guildId = 'mode-guild';
+
+        repository.upsert({ guildId, mode: 'observe' });
+        repository.upsert({ guildId, afkTimeoutSeconds: 120 });
+        expect(repository.findByGuildId(guildId)?.mode).toBe('observe');
+      });
+
+      it('should persist activity signals and linked channels and keep them when omitted', () => {
+        const guildId = 'activity-guild';
+
+        repository.upsert({ guildId, activitySignals: ['reactions', 'stream'], activityChannelIds: ['chat-1'] });
+        repository.upsert({ guildId, enabled: true });
+
+        const result = repository.findByGuildId(guildId);
+        expect(result?.activitySignals).toEqual(['reactions', 'stream']);
+        expect(result?.activityChannelIds).toEqual(['chat-1']);
+      });
+
+      it('should persist the tracking threshold and counting rules', () => {
+        const guildId = 'threshold-guild';
+
+        repository.upsert({ guildId, minUsersForTracking: 5, countDeafenedUsers: false, countBots: true });
+        repository.upsert({ guildId, enabled: true });
+
+        const result = repository.findByGuildId(guildId);
+        expect(result?.minUsersForTracking).toBe(5);
+        expect(result?.countDeafenedUsers).toBe(false);
+        expect(result?.countBots).toBe(true);
+      });
+
+      it('should persist the snooze limit, including 0', () => {
+        const guildId = 'snooze-guild';
+
+        repository.upsert({ guildId, snoozeDailyLimit: 0 });
+        repository.upsert({ guildId, enabled: true });
+
+        expect(repository.findByGuildId(guildId)?.snoozeDailyLimit).toBe(0);
+      });
+
+      it('should persist exempt channels', () => {
+        const guildId = 'exempt-channel-guild';
+
+        repository.upsert({ guildId, exemptChannelIds: ['music', 'lounges'] });
+        repository.upsert({ guildId, enabled: true });
+
+        expect(repository.findByGuildId(guildId)?.exemptChannelIds).toEqual(['music', 'lounges']);
+      });
+
+      it('should persist message settings and clear the locale with an explicit null', () => {
+        const guildId = 'message-guild';
+        const messageTemplates = { warningTitle: 'Hallo?', warningColor: 0x00ff00 };
+
+        repository.upsert({ guildId, messageLocale: 'de', messageTemplates, kickDmEnabled: true });
+        repository.upsert({ guildId, enabled: true });
+
+        expect(repository.findByGuildId(guildId)).toMatchObject({ messageLocale: 'de', messageTemplates, kickDmEnabled: true });
+
+        repository.upsert({ guildId, messageLocale: null, messageTemplates: {} });
+
+        expect(repository.findByGuildId(guildId)).toMatchObject({ messageLocale: null, messageTemplates: {}, kickDmEnabled: true });
+      });
+
+      it('should persist the warning delivery mode', () => {
+        const guildId = 'delivery-guild';
+
+        repository.upsert({ guildId, warningDelivery: 'both' });
+        repository.upsert({ guildId, enabled: true });
+
+        expect(repository.findByGuildId(guildId)?.warningDelivery).toBe('both');
+      });
+
+      it('should persist warning stages and drop malformed ones', () => {
+        const guildId = 'stages-guild';
+
+        repository.upsert({ guildId, warningStages: [60, 15] });
+        repository.upsert({ guildId, enabled: true });
+
+        expect(repository.findByGuildId(guildId)?.warningStages).toEqual([60, 15]);
+
+        db.prepare('UPDATE guild_settings SET warning_stages = ? WHERE guild_id = ?').run('[60,"soon"]', guildId);
+
+        expect(repository.findByGuildId(guildId)?.warningStages).toEqual([]);
+      });
+
+      it('should keep the warning chime on until it is turned off', () => {
+        const guildId = 'chime-guild';
+
+        repository.upsert({ guildId, warningChimeEnabled: true });
+        repository.upsert({ guildId, enabled: true });
+
+        expect(repository.findByGuildId(guildId)?.warningChimeEnabled).toBe(true);
+
+        repository.upsert({ guildId, warningChimeEnabled: false });
+
+        expect(repository.findByGuildId(guildId)?.warningChimeEnabled).toBe(false);
+      });
+
+      it('should keep the mod log channel until it is cleared with null', () => {
+        const guildId = 'mod-log-guild';
+
+        repository.upsert({ guildId, modLogChannelId: 'mod-log-channel' });
+        repository.upsert({ guildId, enabled: true });
+
+        expect(repository.findByGuildId(guildId)?.modLogChannelId).toBe('mod-log-channel');
+
+        repository.upsert({ guildId, modLogChannelId: null });
+
+        expect(repository.findByGuildId(guildId)?.modLogChannelId).toBeNull();
+      });
+
+      it('should fall back to no templates when the stored JSON is malformed', () => {
+        const guildId = 'malformed-templates';
+        repository.upsert({ guildId, enabled: true });
+        db.prepare('UPDATE guild_settings SET message_templates = ? WHERE guild_id = ?').run('{"warningColor":"red"}', guildId);
+
+        expect(repository.findByGuildId(guildId)?.messageTemplates).toEqual({});
+      });
+
+      it('should count deafened members when a new row leaves the flag unset', () => {
+        repository.upsert({ guildId: 'threshold-default', enabled: true });
+
+        expect(repository.findByGuildId('threshold-default')?.countDeafenedUsers).toBe(true);
+      });
+
+      it('should persist the schedule and keep it when omitted', () => {
+        const guildId = 'schedule-guild';
+        const scheduleWindows = [{ days: [5, 6], start: '20:00', end: '02:00' }];
+
+        repository.upsert({ guildId, scheduleTimeZone: 'Europe/Berlin', scheduleType: 'quiet', scheduleWindows });
+        repository.upsert({ guildId, enabled: true });
+
+        const result = repository.findByGuildId(guildId);
+        expect(result?.scheduleTimeZone).toBe('Europe/Berlin');
+        expect(result?.scheduleType).toBe('quiet');
+        expect(result?.scheduleWindows).toEqual(scheduleWindows);
+      });
+
+      it('should persist the escalation settings and clear the notify channel with explicit null', () => {
+        const guildId = 'escalation-guild';
+        const escalationSteps = [
+          { strikes: 2, action: 'timeout' as const, memberTimeoutSeconds: 3600, notify: false },
+          { strikes: 4, action: 'disconnect' as const, memberTimeoutSeconds: null, notify: true },
+        ];
+
+        repository.upsert({
+          guildId,
+          escalationEnabled: true,
+          escalationWindowSeconds: 86400,
+          escalationSteps,
+          escalationNotifyChannelId: 'mod-channel',
+        });
+        repository.upsert({ guildId, enabled: true });
+
+        let result = repository.findByGuildId(guildId);
+        expect(result?.escalationEnabled).toBe(true);
+        expect(result?.escalationWindowSeconds).toBe(86400);
+        expect(result?.escalationSteps).toEqual(escalationSteps);
+        expect(result?.escalationNotifyChannelId).toBe('mod-channel');
+
+        repository.upsert({ guildId, escalationNotifyChannelId: null });
+        result = repository.findByGuildId(guildId);
+        expect(result?.escalationNotifyChannelId).toBeNull();
+        expect(result?.escalationSteps).toEqual(escalationSteps);
+      });
+
       it('should update updatedAt timestamp on update', () => {
         const guildId = 'timestamp-update-guild';
 
@@ -516,6 +722,43 @@ describe('GuildSettingsRepository', () => {
   });
 
   describe('safe JSON parsing', () => {
+    it('should return no schedule windows when the stored schedule is malformed', () => {
+      const guildId = 'malformed-schedule';
+
+      db.prepare(`
+        INSERT INTO guild_settings (guild_id, schedule_windows)
+        VALUES (?, ?)
+      `).run(guildId, '[{"days":"weekdays"}]');
+
+      expect(repository.findByGuildId(guildId)?.scheduleWindows).toEqual([]);
+      expect(mockLogger.warn).toHaveBeenCalled();
+    });
+
+    it('should drop unknown activity signals', () => {
+      const guildId = 'unknown-activity-signal';
+
+      db.prepare(`
+        INSERT INTO guild_settings (guild_id, activity_signals)
+        VALUES (?, ?)
+      `).run(guildId, '["messages","typing"]');
+
+      expect(repository.findByGuildId(guildId)?.activitySignals).toEqual(['messages']);
+    });
+
+    it('should return no escalation steps when the stored ladder is malformed', () => {
+      const guildId = 'malformed-escalation-steps';
+
+      db.prepare(`
+        INSERT INTO guild_settings (guild_id, escalation_steps)
+        VALUES (?, ?)
+      `).run(guildId, '[{"strikes":"three","action":"ban"}]');
+
+      const result = repository.findByGuildId(guildId);
+
+      expect(result?.escalationSteps).toEqual([]);
+      expect(mockLogger.warn).toHaveBeenCalled();
+    });
+
     it('should handle malformed JSON gracefully for exempt_role_ids', () => {
       const guildId = 'malformed-json-exempt';
 
@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ChannelType, type Client } from 'discord.js';
+import type { Logger } from 'pino';
+import { ModLogService, MOD_LOG_BATCH_MS, MOD_LOG_STOP_TIMEOUT_MS, type ModLogEntry } from '../services/ModLogService';
+import type { GuildConfigService } from '../services/GuildConfigService';
+import type { RateLimiter } from '../utils/RateLimiter';
+import { createMockGuildSettings, createMockLogger, createMockRateLimiter } from './fixtures';
+
+type SentEmbeds = Array<{ data: { title: string; description: string; fields?: Array<{ name: string; value: string }> } }>;
+
+describe('ModLogService', () => {
+  const guildId = '123456789012345678';
+  const modLogChannelId = '345678901234567890';
+
+  let mockConfigService: GuildConfigService;
+  let mockSend: ReturnType<typeof vi.fn>;
+  let mockChannels: Map<string, unknown>;
+  let mockClient: Client;
+  let mockLogger: ReturnType<typeof createMockLogger>;
+  let mockRateLimiter: ReturnType<typeof createMockRateLimiter>;
+  let service: ModLogService;
+
+  function entry(overrides: Partial<ModLogEntry> = {}): ModLogEntry {
+    return {
+      guildId,
+      userId: '234567890123456789',
+      channelId: 'voice-1',
+      outcome: 'kick',
+      detail: 'disconnect',
+      errorCode: null,
+      timestamp: 1_700_000_000_000,
+      ...overrides,
+    };
+  }
+
+  function sentEmbeds(call = 0): SentEmbeds {
+    const [{ embeds }] = mockSend.mock.calls[call] as [{ embeds: SentEmbeds }];
+    return embeds;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockConfigService = {
+      getConfig: vi.fn().mockReturnValue(createMockGuildSettings({ guildId, modLogChannelId })),
+    } as unknown as GuildConfigService;
+    mockSend = vi.fn().mockResolvedValue(undefined);
+    mockChannels = new Map([[modLogChannelId, { type: ChannelType.GuildText, send: mockSend }]]);
+    mockClient = {
+      guilds: { cache: { get: vi.fn().mockReturnValue({ channels: { cache: mockChannels } }) } },
+    } as unknown as Client;
+    mockLogger = createMockLogger();
+    mockRateLimiter = createMockRateLimiter();
+    service = new ModLogService(
+      mockConfigService,
+      mockClient,
+      mockLogger as unknown as Logger,
+      mockRateLimiter as unknown as RateLimiter
+    );
+  });
+
+  afterEach(async () => {
+    await service.stop();
+    vi.useRealTimers();
+  });
+
+  it('should post a burst of outcomes as one message with an embed each', async () => {
+    service.log(entry());
+    service.log(entry({ outcome: 'exempt', detail: 'exempt role <@&role-1>' }));
+
+    await vi.advanceTimersByTimeAsync(MOD_LOG_BATCH_MS - 1);
+    expect(mockSend).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(mockSend).toHaveBeenCalledTimes(1);
+    expect(mockRateLimiter.acquire).toHaveBeenCalledTimes(1);
+    expect(mockRateLimiter.acquire).toHaveBeenCalledWith('channel.send', guildId);
+    expect(sentEmbeds().map(embed => embed.data.title)).toEqual(['AFK action applied', 'AFK exemption matched']);
+    expect(sentEmbeds()[0]?.data.description).toBe('<@234567890123456789> in <#voice-1>: disconnect');
+  });
+
+  it('should include the error code of failed actions', async () => {
+    service.log(entry({ outcome: 'kick_failed', detail: 'Unknown Member', errorCode: '10007' }));
+
+    await vi.advanceTimersByTimeAsync(MOD_LOG_BATCH_MS);
+
+    expect(sentEmbeds()[0]?.data.title).toBe('AFK action failed');
+    expect(sentEmbeds()[0]?.data.fields).toEqual([{ name: 'Error code', value: '10007', inline: true }]);
+  });
+
+  it('should summarize bursts too large for one embed each', async () => {
+    for (let index = 0; index < 12; index++) {
+      service.log(entry({ outcome: index === 0 ? 'kick_failed' : 'kick', errorCode: index === 0 ? '50013' : null }));
+    }
+
+    await vi.advanceTimersByTimeAsync(MOD_LOG_BATCH_MS);
+
+    const embeds = sentEmbeds();
+    expect(embeds).toHaveLength(1);
+    expect(embeds[0]?.data.title).toBe('12 AFK enforcement outcomes');
+    const lines = embeds[0]?.data.description.split('\n') ?? [];
+    expect(lines).toHaveLength(12);
+    expect(lines[0]).toContain('(code 50013)');
+  });
+
+  it('should cap queued entries and count the ones not shown', async () => {
+    for (let index = 0; index < 60; index++) {
+      service.log(entry());
+    }
+
+    await vi.advanceTimersByTimeAsync(MOD_LOG_BATCH_MS);
+
+    const [embed] = sentEmbeds();
+    const lines = embed?.data.description.split('\n') ?? [];
+    const hidden = Number(/^…and (\d+) more$/.exec(lines.at(-1) ?? '')?.[1]);
+    expect(embed?.data.title).toBe('60 AFK enforcement outcomes');
+    expect(embed?.data.description.length).toBeLessThanOrEqual(4096);
+    expect(lines.length - 1 + hidden).toBe(60);
+  });
+
+  it('should hold posting while the guild enforcement is paused', async () => {
+    mockRateLimiter.getKickPauseRemainingMs.mockReturnValueOnce(20_000);
+    service.log(entry());
+
+    await vi.advanceTimersByTimeAsync(MOD_LOG_BATCH_MS);
+    expect(mockSend).not.toHaveBeenCalled();
+
+    service.log(entry({ detail: 'move' }));
+    await vi.advanceTimersByTimeAsync(20_000);
+
+    expect(mockSend).toHaveBeenCalledTimes(1);
+    expect(sentEmbeds()).toHaveLength(2);
+  });
+
+  it('should not queue anything when the guild has no mod log channel', async () => {
+    vi.mocked(mockConfigService.getConfig).mockReturnValue(createMockGuildSettings({ guildId }));
+
+    service.log(entry());
+    await vi.advanceTimersByTimeAsync(MOD_LOG_BATCH_MS);
+
+    expect(mockSend).not.toHaveBeenCalled();
+    expect(mockRateLimiter.acquire).not.toHaveBeenCalled();
+  });
+
+  it('should drop the batch when the rate limiter has no token', async () => {
+    mockRateLimiter.acquire.mockResolvedValue(false);
+
+    service.log(entry());
+    await vi.advanceTimersByTimeAsync(MOD_LOG_BATCH_MS);
+
+    expect(mockSend).not.toHaveBeenCalled();
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      { guildId, channelId: modLogChannelId, dropped: 1 },
+      'Mod log entries dropped due to rate limiting'
+    );
+  });
+
+  it('should warn when the channel is missing and swallow send failures', async () => {
+    mockChannels.clear();
+    service.log(entry());
+    await vi.advanceTimersByTimeAsync(MOD_LOG_BATCH_MS);
+
+    expect(mockLogger.warn).toHaveBeenCalledWith({ guildId, channelId: modLogChannelId }, 'Mod log channel not found or not a text channel');
+
+    mockChannels.set(modLogChannelId, { type: ChannelType.GuildText, send: mockSend });
+    mockSend.mockRejectedValue(new Error('Missing Access'));
+    service.log(entry());
+    await vi.advanceTimersByTimeAsync(MOD_LOG_BATCH_MS);
+
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      expect.objectContaining({ guildId, channelId: modLogChannelId }),
+      'Failed to post mod log entries'
+    );
+  });
+
+  it('should post queued entries when stopped', async () => {
+    service.log(entry());
+    await service.stop();
+
+    expect(mockSend).toHaveBeenCalledTimes(1);
+    expect(sentEmbeds()[0]?.data.title).toBe('AFK action applied');
+
+    await vi.advanceTimersByTimeAsync(MOD_LOG_BATCH_MS);
+    expect(mockSend).toHaveBeenCalledTimes(1);
+  });
+
+  it('should post queued entries on stop even while enforcement is paused', async () => {
+    mockRateLimiter.getKickPauseRemainingMs.mockReturnValue(60_000);
+    service.log(entry());
+
+    await service.stop();
+
+    expect(mockSend).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop waiting for Discord after the shutdown timeout', async () => {
+    mockSend.mockReturnValue(new Promise(() => {}));
+    service.log(entry());
+
+    const stopped = service.stop();
+    await vi.advanceTimersByTimeAsync(MOD_LOG_STOP_TIMEOUT_MS);
+    await stopped;
+
+    expect(mockLogger.warn).toHaveBeenCalledWith({ guilds: 1 }, 'Mod log entries not posted before shutdown');
+  });
+});
@@ -65,15 +65,15 @@ describe('RateLimiter', () => {
     it('should accept partial config override for crashThreshold', () => {
       const limiter = new RateLimiter(mockLogger, { crashThreshold: 25 });
 
-      // 24 actions should not crash
+      // 24 actions should not enter safe mode
       for (let i = 0; i < 24; i++) {
         limiter.recordAction();
       }
       expect(mockProcessExit).not.toHaveBeenCalled();
 
-      // 25th action should crash
+      // 25th action should enter safe mode
       limiter.recordAction();
-      expect(mockProcessExit).toHaveBeenCalledWith(1);
+      expect(limiter.getState().safeMode).toBe(true);
     });
 
     it('should accept multiple config overrides simultaneously', () => {
@@ -89,11 +89,11 @@ describe('RateLimiter', () => {
       }
       expect(mockLogger.warn).toHaveBeenCalledOnce();
 
-      // Verify crash threshold
+      // Verify crash threshold enters safe mode
       for (let i = 0; i < 5; i++) {
         limiter.recordAction();
       }
-      expect(mockProcessExit).toHaveBeenCalledWith(1);
+      expect(limiter.getState().safeMode).toBe(true);
     });
   });
 
@@ -154,18 +154,19 @@ describe('RateLimiter', () => {
     });
 
     describe('crash threshold boundary testing', () => {
-      it('should not crash at 49 actions (just below crash threshold)', () => {
+      it('should not enter safe mode at 49 actions (just below crash threshold)', () => {
         const limiter = new RateLimiter(mockLogger);
 
         for (let i = 0; i < 49; i++) {
           limiter.recordAction();
         }
 
+        expect(limiter.getState().safeMode).toBe(false);
         expect(mockProcessExit).not.toHaveBeenCalled();
         expect(mockLogger.error).not.toHaveBeenCalled();
       });
 
-      it('should log error and call process.exit(1) exactly at 50 actions', () => {
+      it('should log error and enter safe mode exactly at 50 actions without exiting', () => {
         const limiter = new RateLimiter(mockLogger);
 
         for (let i = 0; i < 50; i++) {
@@ -180,20 +181,68 @@ describe('RateLimiter', () => {
           }),
           expect.stringContaining('Rate limit exceeded')
         );
-        expect(mockProcessExit).toHaveBeenCalledWith(1);
-        expect(mockProcessExit).toHaveBeenCalledOnce();
+        expect(limiter.getState().safeMode).toBe(true);
+        expect(mockProcessExit).not.toHaveBeenCalled();
       });
 
-      it('should not call process.exit more than once even if actions continue', () => {
+      it('should only log entering safe mode once while saturated', () => {
         const limiter = new RateLimiter(mockLogger);
 
         for (let i = 0; i < 55; i++) {
           limiter.recordAction();
         }
 
-        // Exit should only be called once at action 50
-        expect(mockProcessExit).toHaveBeenCalledOnce();
-        expect(mockProcessExit).toHaveBeenCalledWith(1);
+        expect(mockLogger.error).toHaveBeenCalledOnce();
+      });
+
+      it('should leave safe mode once the window drains below the crash threshold', () => {
+        const limiter = new RateLimiter(mockLogger);
+
+        for (let i = 0; i < 50; i++) {
+          limiter.recordAction();
+        }
+        expect(limiter.isKickingPaused('any-guild')).toBe(true);
+
+        vi.advanceTimersByTime(60001);
+
+        expect(limiter.isKickingPaused('any-guild')).toBe(false);
+        expect(limiter.getState().safeMode).toBe(false);
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          expect.objectContaining({ actionCount: 0 }),
+          'Rate limit recovered - leaving safe mode'
+        );
+      });
+
+      describe('when exitOnCrashThreshold is set', () => {
+        it('should log error and call process.exit(1) exactly at 50 actions', () => {
+          const limiter = new RateLimiter(mockLogger, { exitOnCrashThreshold: true });
+
+          for (let i = 0; i < 49; i++) {
+            limiter.recordAction();
+          }
+          expect(mockProcessExit).not.toHaveBeenCalled();
+
+          limiter.recordAction();
+
+          expect(mockLogger.error).toHaveBeenCalledWith(
+            expect.objectContaining({ actionCount: 50, crashThreshold: 50 }),
+            'Rate limit exceeded - crashing bot to prevent API ban'
+          );
+          expect(mockProcessExit).toHaveBeenCalledWith(1);
+          expect(mockProcessExit).toHaveBeenCalledOnce();
+        });
+
+        it('should not call process.exit more than once even if actions continue', () => {
+          const limiter = new RateLimiter(mockLogger, { exitOnCrashThreshold: true });
+
+          for (let i = 0; i < 55; i++) {
+            limiter.recordAction();
+          }
+
+          // Exit should only be called once at action 50
+          expect(mockProcessExit).toHaveBeenCalledOnce();
+          expect(mockProcessExit).toHaveBeenCalledWith(1);
+        });
       });
     });
 
@@ -707,11 +756,11 @@ describe('RateLimiter', () => {
       limiter.recordAction();
       expect(mockLogger.warn).toHaveBeenCalled();
 
-      // Should crash at 5
+      // Should enter safe mode at 5
       for (let i = 0; i < 4; i++) {
         limiter.recordAction();
       }
-      expect(mockProcessExit).toHaveBeenCalledWith(1);
+      expect(limiter.getState().safeMode).toBe(true);
     });
 
     it('should handle very large action counts', () => {
@@ -780,10 +829,10 @@ describe('RateLimiter', () => {
         limiter.recordAction();
       }
 
-      // Should have warned first (from 20-49), then crashed at 50
+      // Should have warned first (from 20-49), then entered safe mode at 50
       expect(mockLogger.warn).toHaveBeenCalled();
       expect(mockLogger.error).toHaveBeenCalled();
-      expect(mockProcessExit).toHaveBeenCalledWith(1);
+      expect(limiter.getState().safeMode).toBe(true);
     });
 
     it('should stop warning after crash threshold is reached', () => {
@@ -795,12 +844,12 @@ describe('RateLimiter', () => {
 
       const warnCallsAt50 = mockLogger.warn.mock.calls.length;
 
-      // Additional actions shouldn't add more warnings (process already exited)
+      // Additional actions shouldn't add more warnings (already in safe mode)
       for (let i = 0; i < 5; i++) {
         limiter.recordAction();
       }
 
-      // Warning count shouldn't increase after exit was called
+      // Warning count shouldn't increase while in safe mode
       expect(mockLogger.warn).toHaveBeenCalledTimes(warnCallsAt50);
     });
 
@@ -814,10 +863,10 @@ describe('RateLimiter', () => {
         limiter.recordAction();
       }
 
-      // Crash happens first and sets exited=true, so warn never fires
+      // Safe mode check happens first, so warn never fires
       expect(mockLogger.warn).not.toHaveBeenCalled();
       expect(mockLogger.error).toHaveBeenCalled();
-      expect(mockProcessExit).toHaveBeenCalledWith(1);
+      expect(limiter.getState().safeMode).toBe(true);
     });
 
     it('should handle crashThreshold lower than warnThreshold (unusual but valid)', () => {
@@ -826,14 +875,14 @@ describe('RateLimiter', () => {
         crashThreshold: 20,
       });
 
-      // Should crash before warning
+      // Should enter safe mode before warning
       for (let i = 0; i < 20; i++) {
         limiter.recordAction();
       }
 
       expect(mockLogger.warn).not.toHaveBeenCalled();
       expect(mockLogger.error).toHaveBeenCalled();
-      expect(mockProcessExit).toHaveBeenCalledWith(1);
+      expect(limiter.getState().safeMode).toBe(true);
     });
   });
 
@@ -1050,7 +1099,7 @@ describe('RateLimiter', () => {
         expect(mockLogger.debug).not.toHaveBeenCalled();
       });
 
-      it('should still crash when debug is disabled but crash threshold is reached', () => {
+      it('should still enter safe mode when debug is disabled but crash threshold is reached', () => {
         vi.mocked(mockLogger.isLevelEnabled).mockReturnValue(false);
         const limiter = new RateLimiter(mockLogger);
 
@@ -1060,7 +1109,7 @@ describe('RateLimiter', () => {
 
         // Error should still fire even with debug disabled
         expect(mockLogger.error).toHaveBeenCalled();
-        expect(mockProcessExit).toHaveBeenCalledWith(1);
+        expect(limiter.getState().safeMode).toBe(true);
         expect(mockLogger.debug).not.toHaveBeenCalled();
       });
 
@@ -1156,7 +1205,7 @@ describe('RateLimiter', () => {
 
       it('should not skip level check even after exited flag is set', () => {
         vi.mocked(mockLogger.isLevelEnabled).mockReturnValue(false);
-        const limiter = new RateLimiter(mockLogger, { crashThreshold: 2 });
+        const limiter = new RateLimiter(mockLogger, { crashThreshold: 2, exitOnCrashThreshold: true });
 
         limiter.recordAction();
         limiter.recordAction(); // Should crash here
@@ -1166,4 +1215,147 @@ describe('RateLimiter', () => {
       });
     });
   });
+  describe('per-guild pause', () => {
+    it('should pause only the busy guild once it reaches the guild threshold', () => {
+      const limiter = new RateLimiter(mockLogger, { guildThreshold: 5 });
+
+      for (let i = 0; i < 5; i++) {
+        limiter.recordAction('voice.disconnect', 'busy-guild');
+      }
+
+      expect(limiter.isKickingPaused('busy-guild')).toBe(true);
+      expect(limiter.isKickingPaused('quiet-guild')).toBe(false);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ guildId: 'busy-guild', guildThreshold: 5 }),
+        'Guild rate limit reached - pausing AFK enforcement for guild'
+      );
+    });
+
+    it('should report when the guild resumes', () => {
+      const limiter = new RateLimiter(mockLogger, { guildThreshold: 3 });
+
+      limiter.recordAction('voice.disconnect', 'guild-1');
+      vi.advanceTimersByTime(10000);
+      limiter.recordAction('voice.disconnect', 'guild-1');
+      limiter.recordAction('voice.disconnect', 'guild-1');
+
+      // The oldest action leaves the window 50s from now, dropping the count below 3
+      expect(limiter.getKickPauseRemainingMs('guild-1')).toBe(50001);
+
+      vi.advanceTimersByTime(50001);
+      expect(limiter.isKickingPaused('guild-1')).toBe(false);
+    });
+
+    it('should pause every guild while in safe mode', () => {
+      const limiter = new RateLimiter(mockLogger, { crashThreshold: 5 });
+
+      for (let i = 0; i < 5; i++) {
+        limiter.recordAction('client.guilds.fetch');
+      }
+
+      expect(limiter.isKickingPaused('guild-1')).toBe(true);
+      expect(limiter.isKickingPaused('guild-2')).toBe(true);
+    });
+  });
+
+  describe('token buckets', () => {
+    it('should hand out tokens up to the bucket capacity per action type', () => {
+      const limiter = new RateLimiter(mockLogger, { bucketCapacity: 2 });
+
+      expect(limiter.tryAcquire('channel.send')).toBe(true);
+      expect(limiter.tryAcquire('channel.send')).toBe(true);
+      expect(limiter.tryAcquire('channel.send')).toBe(false);
+      expect(limiter.tryAcquire('voice.disconnect')).toBe(true);
+    });
+
+    it('should refill tokens over the window', () => {
+      const limiter = new RateLimiter(mockLogger, { bucketCapacity: 2 });
+      limiter.tryAcquire('channel.send');
+      limiter.tryAcquire('channel.send');
+
+      vi.advanceTimersByTime(30000);
+
+      expect(limiter.tryAcquire('channel.send')).toBe(true);
+      expect(limiter.tryAcquire('channel.send')).toBe(false);
+    });
+
+    it('should spend tokens for critical actions recorded directly', () => {
+      const limiter = new RateLimiter(mockLogger, { bucketCapacity: 1 });
+
+      limiter.recordAction('channel.send');
+
+      expect(limiter.tryAcquire('channel.send')).toBe(false);
+    });
+
+    it('should queue work until a token refills', async () => {
+      const limiter = new RateLimiter(mockLogger, { bucketCapacity: 10, maxQueueMs: 10000 });
+      for (let i = 0; i < 10; i++) {
+        limiter.tryAcquire('channel.send');
+      }
+
+      const pending = limiter.acquire('channel.send', 'guild-1');
+      expect(limiter.getState().buckets[0]?.queued).toBe(1);
+
+      await vi.advanceTimersByTimeAsync(6000);
+
+      await expect(pending).resolves.toBe(true);
+      expect(limiter.getState().buckets[0]?.queued).toBe(0);
+    });
+
+    it('should drop work that would wait longer than maxQueueMs', async () => {
+      const limiter = new RateLimiter(mockLogger, { bucketCapacity: 2, maxQueueMs: 1000 });
+      limiter.tryAcquire('channel.send');
+      limiter.tryAcquire('channel.send');
+
+      await expect(limiter.acquire('channel.send', 'guild-1')).resolves.toBe(false);
+
+      expect(limiter.getState().buckets[0]?.dropped).toBe(1);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ actionType: 'channel.send', guildId: 'guild-1' }),
+        'Rate limit bucket empty - dropping non-critical action'
+      );
+    });
+  });
+
+  describe('getState', () => {
+    it('should summarize counts, pauses and buckets', () => {
+      const limiter = new RateLimiter(mockLogger, { guildThreshold: 2, bucketCapacity: 5 });
+
+      limiter.recordAction('voice.disconnect', 'guild-1');
+      limiter.recordAction('voice.disconnect', 'guild-1');
+
+      expect(limiter.getState()).toEqual({
+        windowMs: 60000,
+        actionCount: 2,
+        warnThreshold: 20,
+        crashThreshold: 50,
+        guildThreshold: 2,
+        safeMode: false,
+        safeModeResumesInMs: 0,
+        pausedGuilds: [{ guildId: 'guild-1', actionCount: 2, resumesInMs: 60001 }],
+        buckets: [{ actionType: 'voice.disconnect', tokens: 3, capacity: 5, queued: 0, dropped: 0 }],
+      });
+    });
+  });
+
+  describe('getActionCountsByType', () => {
+    it('should count window actions per action type and report idle types as 0', () => {
+      const limiter = new RateLimiter(mockLogger, { windowMs: 1000 });
+
+      limiter.recordAction('voice.disconnect', 'guild-1');
+      limiter.recordAction('voice.disconnect', 'guild-2');
+      limiter.recordAction('channel.send', 'guild-1');
+      limiter.recordAction();
+
+      expect(limiter.getActionCountsByType()).toEqual(
+        new Map([['voice.disconnect', 2], ['channel.send', 1]])
+      );
+
+      vi.advanceTimersByTime(1001);
+
+      expect(limiter.getActionCountsByType()).toEqual(
+        new Map([['voice.disconnect', 0], ['channel.send', 0]])
+      );
+    });
+  });
 });
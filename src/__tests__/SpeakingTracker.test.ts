@@ -33,6 +33,8 @@ describe('SpeakingTracker', () => {
         // WHY: The tracker needs to listen to speaking events from the connection's receiver.
 
         const guildId = 'test-guild';
+
+        const channelId = 'test-guild-channel';
         const mockSpeakingEmitter = {
           on: vi.fn(),
           removeAllListeners: vi.fn(),
@@ -44,7 +46,7 @@ describe('SpeakingTracker', () => {
           },
         } as unknown as VoiceConnection;
 
-        tracker.registerConnection(guildId, mockConnection);
+        tracker.registerConnection(guildId, channelId, mockConnection);
 
         // Should register listeners for 'start' and 'end' events
         expect(mockSpeakingEmitter.on).toHaveBeenCalledWith('start', expect.any(Function));
@@ -52,7 +54,7 @@ describe('SpeakingTracker', () => {
 
         // Should log registration
         expect(mockLogger.info).toHaveBeenCalledWith(
-          { guildId },
+          { guildId, channelId },
           'Voice connection registered for speaking tracking'
         );
       });
@@ -61,6 +63,8 @@ describe('SpeakingTracker', () => {
         // WHY: The tracker needs to maintain a reference to the connection.
 
         const guildId = 'stored-guild';
+
+        const channelId = 'stored-guild-channel';
         const mockConnection = {
           receiver: {
             speaking: {
@@ -70,10 +74,10 @@ describe('SpeakingTracker', () => {
           },
         } as unknown as VoiceConnection;
 
-        tracker.registerConnection(guildId, mockConnection);
+        tracker.registerConnection(guildId, channelId, mockConnection);
 
-        expect(tracker.hasConnection(guildId)).toBe(true);
-        expect(tracker.getConnection(guildId)).toBe(mockConnection);
+        expect(tracker.hasConnection(channelId)).toBe(true);
+        expect(tracker.getConnection(channelId)).toBe(mockConnection);
       });
 
       it('should replace existing connection when registering same guild twice', () => {
@@ -81,6 +85,8 @@ describe('SpeakingTracker', () => {
 
         const guildId = 'replace-guild';
 
+        const channelId = 'replace-guild-channel';
+
         const mockConnection1 = {
           receiver: {
             speaking: {
@@ -99,27 +105,67 @@ describe('SpeakingTracker', () => {
           },
         } as unknown as VoiceConnection;
 
-        tracker.registerConnection(guildId, mockConnection1);
-        tracker.registerConnection(guildId, mockConnection2);
+        tracker.registerConnection(guildId, channelId, mockConnection1);
+        tracker.registerConnection(guildId, channelId, mockConnection2);
 
         // Should warn about replacement
         expect(mockLogger.warn).toHaveBeenCalledWith(
-          { guildId },
+          { guildId, channelId },
           'Connection already registered, replacing'
         );
 
         // Should have the new connection
-        expect(tracker.getConnection(guildId)).toBe(mockConnection2);
+        expect(tracker.getConnection(channelId)).toBe(mockConnection2);
       });
     });
   });
 
+  describe('multiple channels in one guild', () => {
+    it('should track each channel independently and emit the channel ID', () => {
+      // WHY: Helper identities let several channels in the same guild be monitored at once.
+
+      const guildId = 'multi-channel-guild';
+      const handlers = new Map<string, (userId: string) => void>();
+      const createMockConnection = (channelId: string) => ({
+        receiver: {
+          speaking: {
+            on: vi.fn((event: string, handler: (userId: string) => void) => {
+              if (event === 'start') {
+                handlers.set(channelId, handler);
+              }
+            }),
+            removeAllListeners: vi.fn(),
+          },
+        },
+      }) as unknown as VoiceConnection;
+
+      tracker.registerConnection(guildId, 'channel-a', createMockConnection('channel-a'));
+      tracker.registerConnection(guildId, 'channel-b', createMockConnection('channel-b'));
+
+      const startListener = vi.fn();
+      tracker.on('userStartedSpeaking', startListener);
+
+      handlers.get('channel-b')?.('user-1');
+
+      expect(tracker.hasConnection('channel-a')).toBe(true);
+      expect(tracker.hasConnection('channel-b')).toBe(true);
+      expect(startListener).toHaveBeenCalledWith('user-1', guildId, 'channel-b');
+
+      tracker.unregisterConnection('channel-a');
+
+      expect(tracker.hasConnection('channel-a')).toBe(false);
+      expect(tracker.hasConnection('channel-b')).toBe(true);
+    });
+  });
+
   describe('unregisterConnection', () => {
     describe('when unregistering a connection', () => {
       it('should remove all listeners from speaking emitter', () => {
         // WHY: Prevent memory leaks by cleaning up event listeners.
 
         const guildId = 'unregister-guild';
+
+        const channelId = 'unregister-guild-channel';
         const mockRemoveAllListeners = vi.fn();
         const mockConnection = {
           receiver: {
@@ -130,8 +176,8 @@ describe('SpeakingTracker', () => {
           },
         } as unknown as VoiceConnection;
 
-        tracker.registerConnection(guildId, mockConnection);
-        tracker.unregisterConnection(guildId);
+        tracker.registerConnection(guildId, channelId, mockConnection);
+        tracker.unregisterConnection(channelId);
 
         expect(mockRemoveAllListeners).toHaveBeenCalled();
       });
@@ -140,6 +186,8 @@ describe('SpeakingTracker', () => {
         // WHY: The connection should no longer be tracked after unregistering.
 
         const guildId = 'removed-guild';
+
+        const channelId = 'removed-guild-channel';
         const mockConnection = {
           receiver: {
             speaking: {
@@ -149,18 +197,20 @@ describe('SpeakingTracker', () => {
           },
         } as unknown as VoiceConnection;
 
-        tracker.registerConnection(guildId, mockConnection);
-        expect(tracker.hasConnection(guildId)).toBe(true);
+        tracker.registerConnection(guildId, channelId, mockConnection);
+        expect(tracker.hasConnection(channelId)).toBe(true);
 
-        tracker.unregisterConnection(guildId);
-        expect(tracker.hasConnection(guildId)).toBe(false);
-        expect(tracker.getConnection(guildId)).toBeUndefined();
+        tracker.unregisterConnection(channelId);
+        expect(tracker.hasConnection(channelId)).toBe(false);
+        expect(tracker.getConnection(channelId)).toBeUndefined();
       });
 
       it('should log unregistration', () => {
         // WHY: Track when connections are unregistered for debugging.
 
         const guildId = 'log-unregister-guild';
+
+        const channelId = 'log-unregister-guild-channel';
         const mockConnection = {
           receiver: {
             speaking: {
@@ -170,19 +220,42 @@ describe('SpeakingTracker', () => {
           },
         } as unknown as VoiceConnection;
 
-        tracker.registerConnection(guildId, mockConnection);
+        tracker.registerConnection(guildId, channelId, mockConnection);
 
         // Clear registration logs
         vi.mocked(mockLogger.info).mockClear();
 
-        tracker.unregisterConnection(guildId);
+        tracker.unregisterConnection(channelId);
 
         expect(mockLogger.info).toHaveBeenCalledWith(
-          { guildId },
+          { channelId },
           'Voice connection unregistered from speaking tracking'
         );
       });
 
+      it('should announce when the bot starts and stops hearing a channel', () => {
+        const registered = vi.fn();
+        const unregistered = vi.fn();
+        tracker.on('connectionRegistered', registered);
+        tracker.on('connectionUnregistered', unregistered);
+        const mockConnection = {
+          receiver: {
+            speaking: {
+              on: vi.fn(),
+              removeAllListeners: vi.fn(),
+            },
+          },
+        } as unknown as VoiceConnection;
+
+        tracker.registerConnection('events-guild', 'events-channel', mockConnection);
+        tracker.unregisterConnection('events-channel');
+        tracker.unregisterConnection('events-channel');
+
+        expect(registered).toHaveBeenCalledWith('events-guild', 'events-channel');
+        expect(unregistered).toHaveBeenCalledTimes(1);
+        expect(unregistered).toHaveBeenCalledWith('events-channel');
+      });
+
       it('should not throw when unregistering non-existent connection', () => {
         // WHY: Defensive coding - should be safe to call on non-existent guilds.
 
@@ -209,6 +282,8 @@ describe('SpeakingTracker', () => {
         // when debug level is actually enabled to avoid performance overhead.
 
         const guildId = 'debug-guard-guild';
+
+        const channelId = 'debug-guard-guild-channel';
         const userId = 'user-123';
 
         let startHandler: ((userId: string) => void) | undefined;
@@ -228,7 +303,7 @@ describe('SpeakingTracker', () => {
           },
         } as unknown as VoiceConnection;
 
-        tracker.registerConnection(guildId, mockConnection);
+        tracker.registerConnection(guildId, channelId, mockConnection);
 
         // Clear registration logs
         vi.mocked(mockLogger.isLevelEnabled).mockClear();
@@ -253,6 +328,8 @@ describe('SpeakingTracker', () => {
         // WHY: When debug is enabled, we want structured logs with action identifiers.
 
         const guildId = 'debug-enabled-guild';
+
+        const channelId = 'debug-enabled-guild-channel';
         const userId = 'user-456';
 
         let startHandler: ((userId: string) => void) | undefined;
@@ -272,7 +349,7 @@ describe('SpeakingTracker', () => {
           },
         } as unknown as VoiceConnection;
 
-        tracker.registerConnection(guildId, mockConnection);
+        tracker.registerConnection(guildId, channelId, mockConnection);
 
         // Clear registration logs
         vi.mocked(mockLogger.isLevelEnabled).mockClear();
@@ -305,6 +382,8 @@ describe('SpeakingTracker', () => {
         // needs these events even when debug logging is disabled.
 
         const guildId = 'emit-guild';
+
+        const channelId = 'emit-guild-channel';
         const userId = 'user-789';
 
         let startHandler: ((userId: string) => void) | undefined;
@@ -324,7 +403,7 @@ describe('SpeakingTracker', () => {
           },
         } as unknown as VoiceConnection;
 
-        tracker.registerConnection(guildId, mockConnection);
+        tracker.registerConnection(guildId, channelId, mockConnection);
 
         // Set debug logging disabled
         mockLogger.isLevelEnabled = vi.fn().mockReturnValue(false);
@@ -338,13 +417,15 @@ describe('SpeakingTracker', () => {
         }
 
         // Event should be emitted even when debug logging is disabled
-        expect(startListener).toHaveBeenCalledWith(userId, guildId);
+        expect(startListener).toHaveBeenCalledWith(userId, guildId, channelId);
       });
 
       it('should include userId and guildId in debug log', () => {
         // WHY: These IDs are essential for correlating speaking events with specific users and servers.
 
         const guildId = 'ids-guild';
+
+        const channelId = 'ids-guild-channel';
         const userId = 'user-with-id';
 
         let startHandler: ((userId: string) => void) | undefined;
@@ -364,7 +445,7 @@ describe('SpeakingTracker', () => {
           },
         } as unknown as VoiceConnection;
 
-        tracker.registerConnection(guildId, mockConnection);
+        tracker.registerConnection(guildId, channelId, mockConnection);
 
         mockLogger.isLevelEnabled = vi.fn().mockReturnValue(true);
         vi.mocked(mockLogger.debug).mockClear();
@@ -388,6 +469,8 @@ describe('SpeakingTracker', () => {
         // WHY: Speaking stop events also fire frequently and need performance guards.
 
         const guildId = 'stop-guard-guild';
+
+        const channelId = 'stop-guard-guild-channel';
         const userId = 'user-stop-123';
 
         let endHandler: ((userId: string) => void) | undefined;
@@ -407,7 +490,7 @@ describe('SpeakingTracker', () => {
           },
         } as unknown as VoiceConnection;
 
-        tracker.registerConnection(guildId, mockConnection);
+        tracker.registerConnection(guildId, channelId, mockConnection);
 
         // Clear registration logs
         vi.mocked(mockLogger.isLevelEnabled).mockClear();
@@ -432,6 +515,8 @@ describe('SpeakingTracker', () => {
         // WHY: Structured logs help track when users stop speaking.
 
         const guildId = 'stop-enabled-guild';
+
+        const channelId = 'stop-enabled-guild-channel';
         const userId = 'user-stop-456';
 
         let endHandler: ((userId: string) => void) | undefined;
@@ -451,7 +536,7 @@ describe('SpeakingTracker', () => {
           },
         } as unknown as VoiceConnection;
 
-        tracker.registerConnection(guildId, mockConnection);
+        tracker.registerConnection(guildId, channelId, mockConnection);
 
         // Clear registration logs
         vi.mocked(mockLogger.isLevelEnabled).mockClear();
@@ -484,6 +569,8 @@ describe('SpeakingTracker', () => {
         // needs these events even when debug logging is disabled.
 
         const guildId = 'emit-stop-guild';
+
+        const channelId = 'emit-stop-guild-channel';
         const userId = 'user-stop-789';
 
         let endHandler: ((userId: string) => void) | undefined;
@@ -503,7 +590,7 @@ describe('SpeakingTracker', () => {
           },
         } as unknown as VoiceConnection;
 
-        tracker.registerConnection(guildId, mockConnection);
+        tracker.registerConnection(guildId, channelId, mockConnection);
 
         // Set debug logging disabled
         mockLogger.isLevelEnabled = vi.fn().mockReturnValue(false);
@@ -517,13 +604,15 @@ describe('SpeakingTracker', () => {
         }
 
         // Event should be emitted even when debug logging is disabled
-        expect(stopListener).toHaveBeenCalledWith(userId, guildId);
+        expect(stopListener).toHaveBeenCalledWith(userId, guildId, channelId);
       });
 
       it('should include userId and guildId in debug log', () => {
         // WHY: These IDs are essential for correlating speaking events with specific users and servers.
 
         const guildId = 'stop-ids-guild';
+
+        const channelId = 'stop-ids-guild-channel';
         const userId = 'user-stop-with-id';
 
         let endHandler: ((userId: string) => void) | undefined;
@@ -543,7 +632,7 @@ describe('SpeakingTracker', () => {
           },
         } as unknown as VoiceConnection;
 
-        tracker.registerConnection(guildId, mockConnection);
+        tracker.registerConnection(guildId, channelId, mockConnection);
 
         mockLogger.isLevelEnabled = vi.fn().mockReturnValue(true);
         vi.mocked(mockLogger.debug).mockClear();
@@ -567,6 +656,8 @@ describe('SpeakingTracker', () => {
         // WHY: Object construction has overhead. We should guard it behind isLevelEnabled.
 
         const guildId = 'perf-guild';
+
+        const channelId = 'perf-guild-channel';
         const userId = 'perf-user';
 
         let startHandler: ((userId: string) => void) | undefined;
@@ -590,7 +681,7 @@ describe('SpeakingTracker', () => {
           },
         } as unknown as VoiceConnection;
 
-        tracker.registerConnection(guildId, mockConnection);
+        tracker.registerConnection(guildId, channelId, mockConnection);
 
         // Set debug logging disabled
         mockLogger.isLevelEnabled = vi.fn().mockReturnValue(false);
@@ -613,6 +704,8 @@ describe('SpeakingTracker', () => {
         // WHY: isLevelEnabled check should happen before debug log, not after.
 
         const guildId = 'single-check-guild';
+
+        const channelId = 'single-check-guild-channel';
         const userId = 'single-check-user';
 
         let startHandler: ((userId: string) => void) | undefined;
@@ -632,7 +725,7 @@ describe('SpeakingTracker', () => {
           },
         } as unknown as VoiceConnection;
 
-        tracker.registerConnection(guildId, mockConnection);
+        tracker.registerConnection(guildId, channelId, mockConnection);
 
         mockLogger.isLevelEnabled = vi.fn().mockReturnValue(true);
         vi.mocked(mockLogger.isLevelEnabled).mockClear();
@@ -655,6 +748,8 @@ describe('SpeakingTracker', () => {
         // WHY: Errors in listeners shouldn't crash the tracker or stop other listeners.
 
         const guildId = 'error-start-guild';
+
+        const channelId = 'error-start-guild-channel';
         const userId = 'error-user';
 
         let startHandler: ((userId: string) => void) | undefined;
@@ -674,7 +769,7 @@ describe('SpeakingTracker', () => {
           },
         } as unknown as VoiceConnection;
 
-        tracker.registerConnection(guildId, mockConnection);
+        tracker.registerConnection(guildId, channelId, mockConnection);
 
         // Add a listener that throws
         tracker.on('userStartedSpeaking', () => {
@@ -704,6 +799,8 @@ describe('SpeakingTracker', () => {
         // WHY: Errors in stop listeners shouldn't crash the tracker.
 
         const guildId = 'error-stop-guild';
+
+        const channelId = 'error-stop-guild-channel';
         const userId = 'error-stop-user';
 
         let endHandler: ((userId: string) => void) | undefined;
@@ -723,7 +820,7 @@ describe('SpeakingTracker', () => {
           },
         } as unknown as VoiceConnection;
 
-        tracker.registerConnection(guildId, mockConnection);
+        tracker.registerConnection(guildId, channelId, mockConnection);
 
         // Add a listener that throws
         tracker.on('userStoppedSpeaking', () => {
@@ -755,9 +852,10 @@ describe('SpeakingTracker', () => {
     it('should unregister all connections', () => {
       // WHY: When shutting down, we need to clean up all connections.
 
-      const guild1 = 'clear-guild-1';
-      const guild2 = 'clear-guild-2';
-      const guild3 = 'clear-guild-3';
+      const guildId = 'clear-guild';
+      const channel1 = 'clear-channel-1';
+      const channel2 = 'clear-channel-2';
+      const channel3 = 'clear-channel-3';
 
       const createMockConnection = () => ({
         receiver: {
@@ -768,19 +866,19 @@ describe('SpeakingTracker', () => {
         },
       }) as unknown as VoiceConnection;
 
-      tracker.registerConnection(guild1, createMockConnection());
-      tracker.registerConnection(guild2, createMockConnection());
-      tracker.registerConnection(guild3, createMockConnection());
+      tracker.registerConnection(guildId, channel1, createMockConnection());
+      tracker.registerConnection(guildId, channel2, createMockConnection());
+      tracker.registerConnection(guildId, channel3, createMockConnection());
 
-      expect(tracker.hasConnection(guild1)).toBe(true);
-      expect(tracker.hasConnection(guild2)).toBe(true);
-      expect(tracker.hasConnection(guild3)).toBe(true);
+      expect(tracker.hasConnection(channel1)).toBe(true);
+      expect(tracker.hasConnection(channel2)).toBe(true);
+      expect(tracker.hasConnection(channel3)).toBe(true);
 
       tracker.clear();
 
-      expect(tracker.hasConnection(guild1)).toBe(false);
-      expect(tracker.hasConnection(guild2)).toBe(false);
-      expect(tracker.hasConnection(guild3)).toBe(false);
+      expect(tracker.hasConnection(channel1)).toBe(false);
+      expect(tracker.hasConnection(channel2)).toBe(false);
+      expect(tracker.hasConnection(channel3)).toBe(false);
     });
 
     it('should log when clearing all connections', () => {
@@ -796,7 +894,7 @@ describe('SpeakingTracker', () => {
         },
       } as unknown as VoiceConnection;
 
-      tracker.registerConnection(guild, mockConnection);
+      tracker.registerConnection(guild, 'single-channel', mockConnection);
 
       vi.mocked(mockLogger.info).mockClear();
 
@@ -837,6 +935,8 @@ describe('SpeakingTracker', () => {
       // WHY: After registration, we should be able to retrieve the connection.
 
       const guildId = 'get-guild';
+
+      const channelId = 'get-guild-channel';
       const mockConnection = {
         receiver: {
           speaking: {
@@ -846,10 +946,10 @@ describe('SpeakingTracker', () => {
         },
       } as unknown as VoiceConnection;
 
-      tracker.registerConnection(guildId, mockConnection);
+      tracker.registerConnection(guildId, channelId, mockConnection);
 
-      expect(tracker.getConnection(guildId)).toBe(mockConnection);
-      expect(tracker.hasConnection(guildId)).toBe(true);
+      expect(tracker.getConnection(channelId)).toBe(mockConnection);
+      expect(tracker.hasConnection(channelId)).toBe(true);
     });
   });
 });
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import type { Logger } from 'pino';
+import { VoiceActivityRepository, type VoiceActivityDelta } from '../database/repositories/VoiceActivityRepository';
+import { createTables } from '../database/schema';
+import { createMockLogger } from './fixtures';
+
+describe('VoiceActivityRepository', () => {
+  let db: Database.Database;
+  let repository: VoiceActivityRepository;
+  let mockLogger: Logger;
+
+  const delta = (overrides: Partial<VoiceActivityDelta>): VoiceActivityDelta => ({
+    guildId: 'guild-1',
+    userId: 'user-1',
+    channelId: 'voice-1',
+    day: '2026-03-01',
+    speakingMs: 0,
+    presentMs: 0,
+    speakingSessions: 0,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockLogger = createMockLogger() as unknown as Logger;
+
+    db = new Database(':memory:');
+    createTables(db, mockLogger);
+    repository = new VoiceActivityRepository(db, mockLogger);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('addActivity', () => {
+    it('should add repeated deltas to the same daily rollup', () => {
+      repository.addActivity([delta({ speakingMs: 1000, presentMs: 5000, speakingSessions: 1 })]);
+      repository.addActivity([delta({ speakingMs: 500, presentMs: 2000, speakingSessions: 2 })]);
+
+      expect(repository.find('guild-1', '2026-03-01', '2026-03-01')).toEqual([
+        delta({ speakingMs: 1500, presentMs: 7000, speakingSessions: 3 }),
+      ]);
+    });
+
+    it('should keep days, members and channels apart', () => {
+      repository.addActivity([
+        delta({ presentMs: 1000 }),
+        delta({ day: '2026-03-02', presentMs: 2000 }),
+        delta({ userId: 'user-2', presentMs: 3000 }),
+        delta({ channelId: 'voice-2', presentMs: 4000 }),
+      ]);
+
+      expect(repository.find('guild-1', '2026-03-01', '2026-03-02')).toHaveLength(4);
+    });
+  });
+
+  describe('find', () => {
+    it('should return rollups in the inclusive day range, oldest first, for the guild only', () => {
+      repository.addActivity([
+        delta({ day: '2026-03-03', presentMs: 3 }),
+        delta({ day: '2026-02-28', presentMs: 1 }),
+        delta({ day: '2026-03-01', presentMs: 2 }),
+        delta({ guildId: 'guild-2', presentMs: 9 }),
+      ]);
+
+      expect(repository.find('guild-1', '2026-03-01', '2026-03-03').map(rollup => rollup.day)).toEqual([
+        '2026-03-01',
+        '2026-03-03',
+      ]);
+    });
+  });
+
+  describe('summarizeUsers', () => {
+    beforeEach(() => {
+      repository.addActivity([
+        delta({ userId: 'talker', speakingMs: 9000, presentMs: 10_000, speakingSessions: 4 }),
+        delta({ userId: 'talker', channelId: 'voice-2', day: '2026-03-02', speakingMs: 1000, presentMs: 1000, speakingSessions: 1 }),
+        delta({ userId: 'lurker', speakingMs: 100, presentMs: 20_000, speakingSessions: 1 }),
+        delta({ userId: 'quiet', speakingMs: 0, presentMs: 5000 }),
+      ]);
+    });
+
+    it('should rank members by speaking time, summed across days and channels', () => {
+      expect(repository.summarizeUsers('guild-1', '2026-03-01', '2026-03-02', 'speaking', 2)).toEqual([
+        { userId: 'talker', speakingMs: 10_000, presentMs: 11_000, speakingSessions: 5 },
+        { userId: 'lurker', speakingMs: 100, presentMs: 20_000, speakingSessions: 1 },
+      ]);
+    });
+
+    it('should rank members by time in voice without speaking', () => {
+      expect(
+        repository.summarizeUsers('guild-1', '2026-03-01', '2026-03-02', 'silent', 5).map(summary => summary.userId)
+      ).toEqual(['lurker', 'quiet', 'talker']);
+    });
+  });
+
+  describe('summarizeChannels', () => {
+    it('should sum member time per channel and count distinct members', () => {
+      repository.addActivity([
+        delta({ userId: 'a', presentMs: 4000, speakingMs: 1000 }),
+        delta({ userId: 'a', day: '2026-03-02', presentMs: 4000 }),
+        delta({ userId: 'b', presentMs: 2000 }),
+        delta({ userId: 'a', channelId: 'voice-2', presentMs: 1000 }),
+      ]);
+
+      expect(repository.summarizeChannels('guild-1', '2026-03-01', '2026-03-02', 10)).toEqual([
+        { channelId: 'voice-1', presentMs: 10_000, speakingMs: 1000, members: 2 },
+        { channelId: 'voice-2', presentMs: 1000, speakingMs: 0, members: 1 },
+      ]);
+    });
+  });
+});
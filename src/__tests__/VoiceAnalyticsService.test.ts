@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Client, VoiceState } from 'discord.js';
+import type { Logger } from 'pino';
+import { ANALYTICS_FLUSH_INTERVAL_MS, toActivityDay, VoiceAnalyticsService } from '../services/VoiceAnalyticsService';
+import type { VoiceActivityDelta, VoiceActivityRepository } from '../database/repositories/VoiceActivityRepository';
+import type { SpeakingTracker } from '../voice/SpeakingTracker';
+import { createMockLogger } from './fixtures';
+
+describe('VoiceAnalyticsService', () => {
+  const guildId = 'guild-1';
+  const channelId = 'voice-1';
+  // 2026-03-01T12:00:00Z
+  const noon = Date.UTC(2026, 2, 1, 12);
+
+  let mockRepository: VoiceActivityRepository;
+  let connectedChannels: Set<string>;
+  let channelMembers: Map<string, { id: string; user: { bot: boolean } }>;
+  let mockLogger: ReturnType<typeof createMockLogger>;
+  let service: VoiceAnalyticsService;
+
+  function written(): VoiceActivityDelta[] {
+    return vi.mocked(mockRepository.addActivity).mock.calls.flatMap(([deltas]) => deltas);
+  }
+
+  function voiceState(userId: string, stateChannelId: string | null, bot = false): VoiceState {
+    return {
+      channelId: stateChannelId,
+      guild: { id: guildId },
+      member: { id: userId, user: { bot } },
+    } as unknown as VoiceState;
+  }
+
+  beforeEach(() => {
+    mockRepository = { addActivity: vi.fn() } as unknown as VoiceActivityRepository;
+    connectedChannels = new Set([channelId]);
+    channelMembers = new Map([
+      ['user-1', { id: 'user-1', user: { bot: false } }],
+      ['bot-1', { id: 'bot-1', user: { bot: true } }],
+    ]);
+    const mockChannel = { isVoiceBased: () => true, members: channelMembers };
+    const mockClient = {
+      guilds: { cache: new Map([[guildId, { channels: { cache: new Map([[channelId, mockChannel]]) } }]]) },
+    } as unknown as Client;
+    const mockSpeakingTracker = {
+      hasConnection: (id: string) => connectedChannels.has(id),
+    } as unknown as SpeakingTracker;
+    mockLogger = createMockLogger();
+    service = new VoiceAnalyticsService(mockRepository, mockSpeakingTracker, mockClient, mockLogger as unknown as Logger);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should record presence and speaking for members of a channel the bot joined', () => {
+    service.handleConnectionOpened(guildId, channelId, noon);
+    service.handleSpeakingStart(guildId, 'user-1', channelId, noon + 10_000);
+    service.handleSpeakingEnd(guildId, 'user-1', noon + 15_000);
+    service.handleSpeakingStart(guildId, 'user-1', channelId, noon + 20_000);
+    service.handleSpeakingEnd(guildId, 'user-1', noon + 22_000);
+    service.handleConnectionClosed(channelId, noon + 60_000);
+    service.flush(noon + 60_000);
+
+    expect(written()).toEqual([
+      { guildId, userId: 'user-1', channelId, day: '2026-03-01', speakingMs: 7000, presentMs: 60_000, speakingSessions: 2 },
+    ]);
+  });
+
+  it('should ignore bots and speaking from members whose presence is not recorded', () => {
+    service.handleConnectionOpened(guildId, channelId, noon);
+    service.handleSpeakingStart(guildId, 'bot-1', channelId, noon);
+    service.handleSpeakingStart(guildId, 'stranger', channelId, noon);
+    service.flush(noon + 1000);
+
+    expect(written().map(delta => delta.userId)).toEqual(['user-1']);
+  });
+
+  it('should follow members joining, switching and leaving monitored channels', () => {
+    connectedChannels.add('voice-2');
+
+    service.handleVoiceStateChange(voiceState('user-2', null), voiceState('user-2', channelId), noon);
+    service.handleVoiceStateChange(voiceState('user-2', channelId), voiceState('user-2', 'voice-2'), noon + 5000);
+    service.handleVoiceStateChange(voiceState('user-2', 'voice-2'), voiceState('user-2', 'unmonitored'), noon + 8000);
+    service.handleVoiceStateChange(voiceState('user-2', 'unmonitored'), voiceState('user-2', null), noon + 20_000);
+    service.flush(noon + 30_000);
+
+    expect(written().map(delta => [delta.channelId, delta.presentMs])).toEqual([
+      [channelId, 5000],
+      ['voice-2', 3000],
+    ]);
+  });
+
+  it('should end an open speaking session when the member leaves', () => {
+    service.handleVoiceStateChange(voiceState('user-2', null), voiceState('user-2', channelId), noon);
+    service.handleSpeakingStart(guildId, 'user-2', channelId, noon + 1000);
+    service.handleVoiceStateChange(voiceState('user-2', channelId), voiceState('user-2', null), noon + 4000);
+    service.handleSpeakingEnd(guildId, 'user-2', noon + 9000);
+    service.flush(noon + 10_000);
+
+    expect(written()).toEqual([expect.objectContaining({ speakingMs: 3000, presentMs: 4000, speakingSessions: 1 })]);
+  });
+
+  it('should split intervals that cross UTC midnight between the two days', () => {
+    const beforeMidnight = Date.UTC(2026, 2, 1, 23, 59, 30);
+
+    service.handleConnectionOpened(guildId, channelId, beforeMidnight);
+    service.handleConnectionClosed(channelId, beforeMidnight + 90_000);
+    service.flush(beforeMidnight + 90_000);
+
+    expect(written().map(delta => [delta.day, delta.presentMs])).toEqual([
+      ['2026-03-01', 30_000],
+      ['2026-03-02', 60_000],
+    ]);
+  });
+
+  it('should credit open intervals on every flush without counting time twice', () => {
+    service.handleConnectionOpened(guildId, channelId, noon);
+    service.handleSpeakingStart(guildId, 'user-1', channelId, noon);
+
+    service.flush(noon + 30_000);
+    service.flush(noon + 45_000);
+
+    expect(vi.mocked(mockRepository.addActivity).mock.calls.map(([deltas]) => deltas[0])).toEqual([
+      expect.objectContaining({ presentMs: 30_000, speakingMs: 30_000, speakingSessions: 1 }),
+      expect.objectContaining({ presentMs: 15_000, speakingMs: 15_000, speakingSessions: 0 }),
+    ]);
+  });
+
+  it('should not write when nothing was recorded', () => {
+    service.flush(noon);
+
+    expect(mockRepository.addActivity).not.toHaveBeenCalled();
+  });
+
+  it('should log and drop activity the database rejects', () => {
+    vi.mocked(mockRepository.addActivity).mockImplementationOnce(() => {
+      throw new Error('database is locked');
+    });
+    service.handleConnectionOpened(guildId, channelId, noon);
+
+    service.flush(noon + 1000);
+    service.flush(noon + 2000);
+
+    expect(mockLogger.error).toHaveBeenCalledWith(expect.objectContaining({ rows: 1 }), 'Failed to write voice activity rollups');
+    expect(vi.mocked(mockRepository.addActivity).mock.calls[1]?.[0]).toEqual([expect.objectContaining({ presentMs: 1000 })]);
+  });
+
+  it('should flush on a timer once started and write everything when stopped', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(noon);
+    service.start();
+    service.handleConnectionOpened(guildId, channelId);
+
+    vi.advanceTimersByTime(ANALYTICS_FLUSH_INTERVAL_MS);
+    expect(mockRepository.addActivity).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(10_000);
+    service.stop();
+    vi.advanceTimersByTime(ANALYTICS_FLUSH_INTERVAL_MS);
+
+    expect(mockRepository.addActivity).toHaveBeenCalledTimes(2);
+    expect(written().reduce((total, delta) => total + delta.presentMs, 0)).toBe(ANALYTICS_FLUSH_INTERVAL_MS + 10_000);
+  });
+
+  describe('toActivityDay', () => {
+    it('should use the UTC date', () => {
+      expect(toActivityDay(Date.UTC(2026, 0, 31, 23, 59, 59))).toBe('2026-01-31');
+      expect(toActivityDay(Date.UTC(2026, 1, 1))).toBe('2026-02-01');
+    });
+  });
+});
@@ -1,9 +1,11 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { VoiceConnection, VoiceConnectionStatus, StreamType, AudioPlayerStatus } from '@discordjs/voice';
+import { VoiceConnection, VoiceConnectionStatus, StreamType, AudioPlayerStatus, joinVoiceChannel } from '@discordjs/voice';
 import type { VoiceBasedChannel, Client } from 'discord.js';
 import { VoiceConnectionManager } from '../voice/VoiceConnectionManager';
 import { SpeakingTracker } from '../voice/SpeakingTracker';
+import { BUNDLED_CHIME_PATH } from '../voice/ChimeStore';
 import { Readable } from 'stream';
+import { EventEmitter } from 'events';
 import { createMockLogger, createMockRateLimiter } from './fixtures';
 
 // Mock @discordjs/voice module
@@ -130,11 +132,11 @@ describe('VoiceConnectionManager', () => {
           state: { status: VoiceConnectionStatus.Ready },
         } as unknown as VoiceConnection;
 
-        // Pre-populate the connections map
-        (manager as any).connections.set(guildId, mockExistingConnection);
+        // Pre-populate the connections map (keyed by channel ID)
+        (manager as any).connections.set(channelId, mockExistingConnection);
 
         const mockChannel = {
-          id: 'channel-2', // Different channel ID
+          id: channelId,
           guild: {
             id: guildId,
             voiceAdapterCreator: vi.fn(),
@@ -148,14 +150,42 @@ describe('VoiceConnectionManager', () => {
 
         // Should log a warning about already being connected
         expect(mockLogger.warn).toHaveBeenCalledWith(
-          { guildId, channelId: 'channel-2' },
-          'Already connected to a channel in this guild'
+          { guildId, channelId },
+          'Already connected to this channel'
         );
 
         // Should NOT attempt to join (no 'Joining voice channel' debug log)
         expect(mockLogger.debug).not.toHaveBeenCalled();
       });
 
+      it('should reject when every identity is already connected in the guild', async () => {
+        const guildId = 'busy-guild';
+
+        const mockExistingConnection = {
+          joinConfig: { guildId, channelId: 'channel-1', group: 'default' },
+          state: { status: VoiceConnectionStatus.Ready },
+        } as unknown as VoiceConnection;
+
+        (manager as any).connections.set('channel-1', mockExistingConnection);
+
+        const mockChannel = {
+          id: 'channel-2', // Different channel ID
+          guild: {
+            id: guildId,
+            voiceAdapterCreator: vi.fn(),
+          },
+        } as unknown as VoiceBasedChannel;
+
+        await expect(manager.joinChannel(mockChannel)).rejects.toThrow(/No voice identity available/);
+
+        expect(manager.hasAvailableIdentity(guildId)).toBe(false);
+        expect(mockLogger.warn).toHaveBeenCalledWith(
+          expect.objectContaining({ guildId, channelId: 'channel-2', identityCount: 1 }),
+          'No voice identity available in this guild'
+        );
+        expect(mockRateLimiter.recordAction).not.toHaveBeenCalled();
+      });
+
       it('should not call voiceAdapterCreator when connection exists', async () => {
         const guildId = 'guild-with-connection';
 
@@ -164,7 +194,7 @@ describe('VoiceConnectionManager', () => {
           state: { status: VoiceConnectionStatus.Ready },
         } as unknown as VoiceConnection;
 
-        (manager as any).connections.set(guildId, mockExistingConnection);
+        (manager as any).connections.set('channel-1', mockExistingConnection);
 
         const voiceAdapterCreator = vi.fn();
         const mockChannel = {
@@ -197,7 +227,7 @@ describe('VoiceConnectionManager', () => {
         //   if (map.has(key)) { return map.get(key)!; }
         // because it eliminates the race condition and avoids non-null assertion
 
-        (manager as any).connections.set(guildId, mockConnection);
+        (manager as any).connections.set('channel-1', mockConnection);
 
         const mockChannel = {
           id: 'channel-1',
@@ -260,7 +290,7 @@ describe('VoiceConnectionManager', () => {
           state: { status: VoiceConnectionStatus.Ready },
         } as unknown as VoiceConnection;
 
-        (manager as any).connections.set(guildId, mockConnection);
+        (manager as any).connections.set('channel-1', mockConnection);
 
         const mockChannel = {
           id: 'channel-1',
@@ -350,6 +380,146 @@ describe('VoiceConnectionManager', () => {
     });
   });
 
+  describe('helper identities', () => {
+    let helperAdapterCreator: ReturnType<typeof vi.fn>;
+    let helperClient: Client;
+    let pooledManager: VoiceConnectionManager;
+
+    beforeEach(() => {
+      helperAdapterCreator = vi.fn();
+      helperClient = {
+        guilds: {
+          cache: new Map([['pool-guild', { id: 'pool-guild', voiceAdapterCreator: helperAdapterCreator }]]),
+        },
+      } as unknown as Client;
+
+      pooledManager = new VoiceConnectionManager(
+        mockSpeakingTracker,
+        mockClient,
+        mockLogger,
+        mockRateLimiter,
+        [helperClient]
+      );
+    });
+
+    it('should count the primary client and every helper', () => {
+      expect(pooledManager.getIdentityCount()).toBe(2);
+    });
+
+    it('should recognise the primary and helper bot users as voice identities', () => {
+      (mockClient as any).user = { id: 'primary-bot' };
+      (helperClient as any).user = { id: 'helper-bot' };
+
+      expect(pooledManager.isVoiceIdentity('primary-bot')).toBe(true);
+      expect(pooledManager.isVoiceIdentity('helper-bot')).toBe(true);
+      expect(pooledManager.isVoiceIdentity('music-bot')).toBe(false);
+    });
+
+    it('should join a second channel in the same guild with a helper identity', async () => {
+      const primaryConnection = {
+        joinConfig: { guildId: 'pool-guild', channelId: 'channel-1', group: 'default' },
+      } as unknown as VoiceConnection;
+      (pooledManager as any).connections.set('channel-1', primaryConnection);
+
+      const mockChannel = {
+        id: 'channel-2',
+        guild: {
+          id: 'pool-guild',
+          voiceAdapterCreator: vi.fn(),
+        },
+      } as unknown as VoiceBasedChannel;
+
+      expect(pooledManager.hasAvailableIdentity('pool-guild')).toBe(true);
+
+      // joinVoiceChannel is mocked without a real connection, so readiness fails afterwards
+      await expect(pooledManager.joinChannel(mockChannel)).rejects.toThrow();
+
+      expect(joinVoiceChannel).toHaveBeenCalledWith(
+        expect.objectContaining({
+          channelId: 'channel-2',
+          guildId: 'pool-guild',
+          group: 'helper-1',
+          adapterCreator: helperAdapterCreator,
+        })
+      );
+    });
+
+    it('should give concurrent joins in the same guild different identities', async () => {
+      const pendingConnections = [1, 2].map(() => Object.assign(new EventEmitter(), {
+        state: { status: VoiceConnectionStatus.Signalling },
+        destroy: vi.fn(),
+      }));
+      for (const connection of pendingConnections) {
+        vi.mocked(joinVoiceChannel).mockReturnValueOnce(connection as unknown as VoiceConnection);
+      }
+      const channelFor = (channelId: string): VoiceBasedChannel => ({
+        id: channelId,
+        guild: { id: 'pool-guild', voiceAdapterCreator: vi.fn() },
+      }) as unknown as VoiceBasedChannel;
+
+      const firstJoin = pooledManager.joinChannel(channelFor('channel-1'));
+      const secondJoin = pooledManager.joinChannel(channelFor('channel-2'));
+      const repeatedJoin = pooledManager.joinChannel(channelFor('channel-1'));
+
+      expect(vi.mocked(joinVoiceChannel).mock.calls.map(([config]) => config.group)).toEqual(['default', 'helper-1']);
+      expect(pooledManager.hasAvailableIdentity('pool-guild')).toBe(false);
+      expect(pooledManager.hasChannelConnection('channel-1')).toBe(false);
+
+      // Failed joins hand their identities back
+      for (const connection of pendingConnections) {
+        connection.emit('error', new Error('Voice gateway unavailable'));
+      }
+      await expect(firstJoin).rejects.toThrow('Voice gateway unavailable');
+      await expect(secondJoin).rejects.toThrow('Voice gateway unavailable');
+      await expect(repeatedJoin).rejects.toThrow('Voice gateway unavailable');
+      expect(pooledManager.hasAvailableIdentity('pool-guild')).toBe(true);
+    });
+
+    it('should not use a helper that is not a member of the guild', () => {
+      const primaryConnection = {
+        joinConfig: { guildId: 'other-guild', channelId: 'channel-1', group: 'default' },
+      } as unknown as VoiceConnection;
+      (pooledManager as any).connections.set('channel-1', primaryConnection);
+
+      expect(pooledManager.hasAvailableIdentity('other-guild')).toBe(false);
+    });
+
+    it('should report monitored channels per guild', () => {
+      (pooledManager as any).connections.set('channel-1', {
+        joinConfig: { guildId: 'pool-guild', channelId: 'channel-1', group: 'default' },
+      });
+      (pooledManager as any).connections.set('channel-2', {
+        joinConfig: { guildId: 'pool-guild', channelId: 'channel-2', group: 'helper-1' },
+      });
+      (pooledManager as any).connections.set('channel-3', {
+        joinConfig: { guildId: 'other-guild', channelId: 'channel-3', group: 'default' },
+      });
+
+      expect(pooledManager.getChannelIds('pool-guild')).toEqual(['channel-1', 'channel-2']);
+      expect(pooledManager.getChannelIds()).toHaveLength(3);
+      expect(pooledManager.getAllGuildIds()).toEqual(['pool-guild', 'other-guild']);
+      expect(pooledManager.hasConnection('pool-guild')).toBe(true);
+      expect(pooledManager.hasChannelConnection('channel-2')).toBe(true);
+      expect(pooledManager.hasAvailableIdentity('pool-guild')).toBe(false);
+    });
+
+    it('should leave every channel in a guild with leaveGuild', () => {
+      const createConnection = (channelId: string, group: string) => ({
+        joinConfig: { guildId: 'pool-guild', channelId, group },
+        destroy: vi.fn(),
+        off: vi.fn(),
+      });
+      (pooledManager as any).connections.set('channel-1', createConnection('channel-1', 'default'));
+      (pooledManager as any).connections.set('channel-2', createConnection('channel-2', 'helper-1'));
+
+      pooledManager.leaveGuild('pool-guild');
+
+      expect(pooledManager.hasConnection('pool-guild')).toBe(false);
+      expect(mockSpeakingTracker.unregisterConnection).toHaveBeenCalledWith('channel-1');
+      expect(mockSpeakingTracker.unregisterConnection).toHaveBeenCalledWith('channel-2');
+    });
+  });
+
   describe('getConnection', () => {
     describe('null safety: get() return value handling', () => {
       it('should return undefined for non-existent guild without throwing', () => {
@@ -550,6 +720,22 @@ describe('VoiceConnectionManager', () => {
     });
   });
 
+  describe('getConnectionStatusCounts', () => {
+    it('should count connections by status', () => {
+      (manager as any).connections.set('channel-1', { state: { status: VoiceConnectionStatus.Ready } });
+      (manager as any).connections.set('channel-2', { state: { status: VoiceConnectionStatus.Ready } });
+      (manager as any).connections.set('channel-3', { state: { status: VoiceConnectionStatus.Signalling } });
+
+      expect(manager.getConnectionStatusCounts()).toEqual(
+        new Map([['ready', 2], ['signalling', 1]])
+      );
+    });
+
+    it('should return an empty map when no connections exist', () => {
+      expect(manager.getConnectionStatusCounts().size).toBe(0);
+    });
+  });
+
   describe('disconnectAll', () => {
     it('should handle empty connections map without errors', () => {
       expect(() => {
@@ -587,6 +773,99 @@ describe('VoiceConnectionManager', () => {
     });
   });
 
+  describe('playClip', () => {
+    const guildId = 'guild-1';
+    const channelId = 'channel-1';
+    let handlers: Record<string, (error?: Error) => void>;
+    let mockSubscription: { unsubscribe: ReturnType<typeof vi.fn> };
+    let mockConnection: any;
+
+    beforeEach(() => {
+      handlers = {};
+      mockPlayer.on.mockImplementation((event: string, handler: (error?: Error) => void) => {
+        handlers[event] = handler;
+      });
+      mockSubscription = { unsubscribe: vi.fn() };
+      mockConnection = {
+        joinConfig: { guildId, channelId, group: 'default', selfDeaf: false, selfMute: true },
+        subscribe: vi.fn(() => mockSubscription),
+        rejoin: vi.fn(),
+      };
+      (manager as any).connections.set(channelId, mockConnection);
+    });
+
+    afterEach(() => {
+      mockResource?.stream.destroy();
+    });
+
+    it('should unmute, play the file as Ogg Opus, then self-mute again', async () => {
+      const playing = manager.playClip(channelId, BUNDLED_CHIME_PATH);
+
+      expect(mockConnection.rejoin).toHaveBeenCalledWith({ channelId, selfDeaf: false, selfMute: false });
+      expect(capturedStreamType).toBe(StreamType.OggOpus);
+      expect(mockPlayer.play).toHaveBeenCalledWith(mockResource);
+      expect(mockConnection.subscribe).toHaveBeenCalledWith(mockPlayer);
+
+      handlers[AudioPlayerStatus.Idle]!();
+
+      await expect(playing).resolves.toBe(true);
+      expect(mockConnection.rejoin).toHaveBeenLastCalledWith({ channelId, selfDeaf: false, selfMute: true });
+      expect(mockSubscription.unsubscribe).toHaveBeenCalled();
+      expect(mockPlayer.stop).toHaveBeenCalled();
+    });
+
+    it('should not play in channels it is not connected to', async () => {
+      await expect(manager.playClip('other-channel', BUNDLED_CHIME_PATH)).resolves.toBe(false);
+
+      expect(mockPlayer.play).not.toHaveBeenCalled();
+    });
+
+    it('should not overlap clips in the same channel', async () => {
+      const first = manager.playClip(channelId, BUNDLED_CHIME_PATH);
+
+      await expect(manager.playClip(channelId, BUNDLED_CHIME_PATH)).resolves.toBe(false);
+      expect(mockPlayer.play).toHaveBeenCalledTimes(1);
+
+      handlers[AudioPlayerStatus.Idle]!();
+      await first;
+    });
+
+    it('should self-mute again when playback fails', async () => {
+      const playing = manager.playClip(channelId, BUNDLED_CHIME_PATH);
+
+      handlers['error']!(new Error('corrupt stream'));
+
+      await expect(playing).resolves.toBe(false);
+      expect(mockConnection.rejoin).toHaveBeenLastCalledWith({ channelId, selfDeaf: false, selfMute: true });
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ guildId, channelId }),
+        'Failed to play audio clip'
+      );
+    });
+
+    it('should give up on a clip that never finishes', async () => {
+      vi.useFakeTimers();
+
+      const playing = manager.playClip(channelId, BUNDLED_CHIME_PATH);
+      await vi.advanceTimersByTimeAsync(15_000);
+
+      await expect(playing).resolves.toBe(true);
+      expect(mockConnection.rejoin).toHaveBeenLastCalledWith({ channelId, selfDeaf: false, selfMute: true });
+
+      vi.useRealTimers();
+    });
+
+    it('should not rejoin a channel that was left during playback', async () => {
+      const playing = manager.playClip(channelId, BUNDLED_CHIME_PATH);
+      (manager as any).connections.delete(channelId);
+
+      handlers[AudioPlayerStatus.Idle]!();
+
+      await playing;
+      expect(mockConnection.rejoin).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('playSilence', () => {
     /**
      * The playSilence method is critical for initializing Discord voice reception.
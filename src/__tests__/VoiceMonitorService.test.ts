@@ -1,8 +1,9 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { Client, Collection, VoiceBasedChannel, GuildMember } from 'discord.js';
 import { VoiceMonitorService } from '../services/VoiceMonitorService';
 import { VoiceConnectionManager } from '../voice/VoiceConnectionManager';
 import { GuildConfigService } from '../services/GuildConfigService';
+import { AFKDetectionService } from '../services/AFKDetectionService';
 import type { GuildSettings } from '../database/repositories/GuildSettingsRepository';
 import { createMockLogger, createMockRateLimiter, createMockGuildSettings } from './fixtures';
 
@@ -12,6 +13,7 @@ describe('VoiceMonitorService', () => {
   let mockGuildConfig: GuildConfigService;
   let mockLogger: ReturnType<typeof createMockLogger>;
   let mockRateLimiter: ReturnType<typeof createMockRateLimiter>;
+  let mockAfkDetection: AFKDetectionService;
   let service: VoiceMonitorService;
 
   beforeEach(() => {
@@ -24,21 +26,37 @@ describe('VoiceMonitorService', () => {
       joinChannel: vi.fn(),
       leaveChannel: vi.fn(),
       hasConnection: vi.fn(),
+      hasChannelConnection: vi.fn().mockReturnValue(false),
+      hasAvailableIdentity: vi.fn().mockReturnValue(true),
     } as unknown as VoiceConnectionManager;
 
     mockGuildConfig = {
       getConfig: vi.fn(),
+      getEffectiveConfig: vi.fn((guildId: string) => mockGuildConfig.getConfig(guildId)),
+      getChannelOverrides: vi.fn().mockReturnValue([]),
     } as unknown as GuildConfigService;
 
+    mockAfkDetection = {
+      isTracking: vi.fn().mockReturnValue(false),
+      startTrackingAllInChannel: vi.fn().mockResolvedValue(undefined),
+      getTrackedCountsByChannel: vi.fn().mockReturnValue(new Map()),
+      stopAllTrackingForChannel: vi.fn(),
+    } as unknown as AFKDetectionService;
+
     service = new VoiceMonitorService(
       mockConnectionManager,
       mockGuildConfig,
       mockClient,
       mockLogger,
-      mockRateLimiter
+      mockRateLimiter,
+      mockAfkDetection
     );
   });
 
+  afterEach(() => {
+    service.stopScheduleWatcher();
+  });
+
   describe('handleUserJoin', () => {
     describe('when monitoring is enabled', () => {
       it('should join channel when user joins and bot is not already connected', async () => {
@@ -53,14 +71,14 @@ describe('VoiceMonitorService', () => {
         } as VoiceBasedChannel;
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await service.handleUserJoin(mockChannel);
 
         expect(mockConnectionManager.joinChannel).toHaveBeenCalledWith(mockChannel);
       });
 
-      it('should not join if bot is already connected to guild', async () => {
+      it('should not join if bot is already connected to the channel', async () => {
         const guildId = 'guild-1';
         const channelId = 'channel-1';
         const mockChannel = {
@@ -72,7 +90,7 @@ describe('VoiceMonitorService', () => {
         } as VoiceBasedChannel;
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(true);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(true);
 
         await service.handleUserJoin(mockChannel);
 
@@ -91,7 +109,7 @@ describe('VoiceMonitorService', () => {
         } as VoiceBasedChannel;
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await service.handleUserJoin(mockChannel);
 
@@ -102,6 +120,35 @@ describe('VoiceMonitorService', () => {
       });
     });
 
+    describe('when the channel is exempt', () => {
+      it.each([
+        ['the guild AFK channel', 'afk-channel', []],
+        ['an exempt channel', 'music-channel', ['music-channel']],
+      ])('should not join %s', async (_label, channelId, exemptChannelIds) => {
+        const guildId = 'guild-1';
+        const mockChannel = {
+          id: channelId,
+          parentId: null,
+          guild: { id: guildId, afkChannelId: 'afk-channel' },
+          members: new Collection([
+            ['user1', { user: { bot: false } } as GuildMember],
+          ]),
+        } as unknown as VoiceBasedChannel;
+
+        vi.mocked(mockGuildConfig.getConfig).mockReturnValue(
+          createMockGuildSettings({ enabled: true, guildId, exemptChannelIds })
+        );
+
+        await service.handleUserJoin(mockChannel);
+
+        expect(mockConnectionManager.joinChannel).not.toHaveBeenCalled();
+        expect(mockLogger.debug).toHaveBeenCalledWith(
+          { guildId, channelId },
+          'Channel is exempt from AFK handling, not joining'
+        );
+      });
+    });
+
     describe('when monitoring is disabled', () => {
       it('should not join channel when config is disabled', async () => {
         const guildId = 'guild-disabled';
@@ -117,7 +164,7 @@ describe('VoiceMonitorService', () => {
         const disabledConfig = createMockGuildSettings({ enabled: false, guildId });
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(disabledConfig);
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await service.handleUserJoin(mockChannel);
 
@@ -176,7 +223,7 @@ describe('VoiceMonitorService', () => {
 
         await service.handleUserLeave(guildId, channelId);
 
-        expect(mockConnectionManager.leaveChannel).toHaveBeenCalledWith(guildId);
+        expect(mockConnectionManager.leaveChannel).toHaveBeenCalledWith(channelId);
       });
 
       it('should log when leaving empty channel', async () => {
@@ -316,7 +363,7 @@ describe('VoiceMonitorService', () => {
         await service.handleUserLeave(guildId, channelId);
 
         // Should leave when error occurs (defensive behavior)
-        expect(mockConnectionManager.leaveChannel).toHaveBeenCalledWith(guildId);
+        expect(mockConnectionManager.leaveChannel).toHaveBeenCalledWith(channelId);
       });
 
       it('should handle non-voice channel gracefully', async () => {
@@ -344,7 +391,7 @@ describe('VoiceMonitorService', () => {
           { guildId, channelId },
           'Channel not found or not voice-based'
         );
-        expect(mockConnectionManager.leaveChannel).toHaveBeenCalledWith(guildId);
+        expect(mockConnectionManager.leaveChannel).toHaveBeenCalledWith(channelId);
       });
 
       it('should handle null channel gracefully', async () => {
@@ -399,7 +446,7 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(disabledConfig);
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await (service as any).scanGuild(mockGuild);
 
@@ -429,6 +476,111 @@ describe('VoiceMonitorService', () => {
       });
     });
 
+    describe('with channel overrides', () => {
+      const guildId = 'override-guild';
+
+      const createChannel = (id: string): any => ({
+        id,
+        name: id,
+        parentId: null,
+        isVoiceBased: () => true,
+        members: new Collection<string, GuildMember>([
+          ['user1', { user: { bot: false } } as GuildMember],
+          ['user2', { user: { bot: false } } as GuildMember],
+        ]),
+        guild: { id: guildId },
+      });
+
+      it('should scan a disabled guild when an override enables a channel', async () => {
+        const studyHall = createChannel('study-hall');
+        const lobby = createChannel('lobby');
+        const mockGuild: any = {
+          id: guildId,
+          name: 'Override Guild',
+          channels: {
+            fetch: vi.fn().mockResolvedValue(new Collection<string, any>([
+              ['study-hall', studyHall],
+              ['lobby', lobby],
+            ])),
+          },
+        };
+
+        vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: false, guildId }));
+        vi.mocked(mockGuildConfig.getChannelOverrides).mockReturnValue([{ channelId: 'study-hall', enabled: true } as any]);
+        vi.mocked(mockGuildConfig.getEffectiveConfig).mockImplementation((_guildId, channelId) =>
+          createMockGuildSettings({ enabled: channelId === 'study-hall', guildId })
+        );
+
+        await (service as any).scanGuild(mockGuild);
+
+        expect(mockConnectionManager.joinChannel).toHaveBeenCalledTimes(1);
+        expect(mockConnectionManager.joinChannel).toHaveBeenCalledWith(studyHall);
+      });
+
+      it('should not join channels an override disables', async () => {
+        const movieNight = createChannel('movie-night');
+        const mockGuild: any = {
+          id: guildId,
+          name: 'Override Guild',
+          channels: {
+            fetch: vi.fn().mockResolvedValue(new Collection<string, any>([['movie-night', movieNight]])),
+          },
+        };
+
+        vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
+        vi.mocked(mockGuildConfig.getEffectiveConfig).mockReturnValue(createMockGuildSettings({ enabled: false, guildId }));
+
+        await (service as any).scanGuild(mockGuild);
+
+        expect(mockConnectionManager.joinChannel).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('with exempt channels', () => {
+      const guildId = 'exempt-channel-guild';
+
+      const createChannel = (id: string, parentId: string | null = null): any => ({
+        id,
+        name: id,
+        parentId,
+        isVoiceBased: () => true,
+        members: new Collection<string, GuildMember>([
+          ['user1', { user: { bot: false } } as GuildMember],
+          ['user2', { user: { bot: false } } as GuildMember],
+        ]),
+        guild: { id: guildId },
+      });
+
+      it('should not join the guild AFK channel or exempt channels and categories', async () => {
+        const afk = createChannel('afk');
+        const music = createChannel('music');
+        const lounge = createChannel('lounge', 'chill-category');
+        const general = createChannel('general');
+        const mockGuild: any = {
+          id: guildId,
+          name: 'Exempt Guild',
+          afkChannelId: 'afk',
+          channels: {
+            fetch: vi.fn().mockResolvedValue(new Collection<string, any>([
+              ['afk', afk],
+              ['music', music],
+              ['lounge', lounge],
+              ['general', general],
+            ])),
+          },
+        };
+
+        vi.mocked(mockGuildConfig.getConfig).mockReturnValue(
+          createMockGuildSettings({ enabled: true, guildId, exemptChannelIds: ['music', 'chill-category'] })
+        );
+
+        await (service as any).scanGuild(mockGuild);
+
+        expect(mockConnectionManager.joinChannel).toHaveBeenCalledTimes(1);
+        expect(mockConnectionManager.joinChannel).toHaveBeenCalledWith(general);
+      });
+    });
+
     describe('when guild monitoring is enabled', () => {
       it('should find and join first channel with 2+ non-bot users', async () => {
         const guildId = 'active-guild';
@@ -456,7 +608,7 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await (service as any).scanGuild(mockGuild);
 
@@ -506,7 +658,7 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await (service as any).scanGuild(mockGuild);
 
@@ -564,7 +716,7 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await (service as any).scanGuild(mockGuild);
 
@@ -572,7 +724,7 @@ describe('VoiceMonitorService', () => {
         expect(mockConnectionManager.joinChannel).toHaveBeenCalledWith(activeChannel);
       });
 
-      it('should only join ONE channel even if multiple have 2+ users', async () => {
+      it('should only join ONE channel when a single voice identity is available', async () => {
         const guildId = 'multi-active-guild';
 
         const channel1: any = {
@@ -610,16 +762,119 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasAvailableIdentity)
+          .mockReturnValueOnce(true)
+          .mockReturnValue(false);
 
         await (service as any).scanGuild(mockGuild);
 
         // Should join exactly ONE channel (the first one found)
         expect(mockConnectionManager.joinChannel).toHaveBeenCalledTimes(1);
         expect(mockConnectionManager.joinChannel).toHaveBeenCalledWith(channel1);
+
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          { guildId, unmonitoredChannelId: 'channel-2' },
+          'No voice identity available for remaining eligible channels'
+        );
       });
 
-      it('should not join if bot is already connected to the guild', async () => {
+      it('should join every eligible channel when enough voice identities are available', async () => {
+        const guildId = 'multi-active-guild';
+
+        const channel1: any = {
+          id: 'channel-1',
+          name: 'Active 1',
+          isVoiceBased: () => true,
+          members: new Collection<string, GuildMember>([
+            ['user1', { user: { bot: false } } as GuildMember],
+            ['user2', { user: { bot: false } } as GuildMember],
+          ]),
+          guild: { id: guildId },
+        };
+
+        const channel2: any = {
+          id: 'channel-2',
+          name: 'Active 2',
+          isVoiceBased: () => true,
+          members: new Collection<string, GuildMember>([
+            ['user3', { user: { bot: false } } as GuildMember],
+            ['user4', { user: { bot: false } } as GuildMember],
+            ['user5', { user: { bot: false } } as GuildMember],
+          ]),
+          guild: { id: guildId },
+        };
+
+        const mockGuild: any = {
+          id: guildId,
+          name: 'Multi Active Guild',
+          channels: {
+            fetch: vi.fn().mockResolvedValue(new Collection<string, any>([
+              ['channel-1', channel1],
+              ['channel-2', channel2],
+            ])),
+          },
+        };
+
+        vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
+
+        await (service as any).scanGuild(mockGuild);
+
+        expect(mockConnectionManager.joinChannel).toHaveBeenCalledTimes(2);
+        expect(mockConnectionManager.joinChannel).toHaveBeenCalledWith(channel1);
+        expect(mockConnectionManager.joinChannel).toHaveBeenCalledWith(channel2);
+      });
+
+      it('should skip channels that are already monitored and join the rest', async () => {
+        const guildId = 'multi-active-guild';
+
+        const channel1: any = {
+          id: 'channel-1',
+          name: 'Active 1',
+          isVoiceBased: () => true,
+          members: new Collection<string, GuildMember>([
+            ['user1', { user: { bot: false } } as GuildMember],
+            ['user2', { user: { bot: false } } as GuildMember],
+          ]),
+          guild: { id: guildId },
+        };
+
+        const channel2: any = {
+          id: 'channel-2',
+          name: 'Active 2',
+          isVoiceBased: () => true,
+          members: new Collection<string, GuildMember>([
+            ['user3', { user: { bot: false } } as GuildMember],
+            ['user4', { user: { bot: false } } as GuildMember],
+            ['user5', { user: { bot: false } } as GuildMember],
+          ]),
+          guild: { id: guildId },
+        };
+
+        const mockGuild: any = {
+          id: guildId,
+          name: 'Multi Active Guild',
+          channels: {
+            fetch: vi.fn().mockResolvedValue(new Collection<string, any>([
+              ['channel-1', channel1],
+              ['channel-2', channel2],
+            ])),
+          },
+        };
+
+        vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockImplementation(
+          (channelId: string) => channelId === 'channel-1'
+        );
+
+        await (service as any).scanGuild(mockGuild);
+
+        expect(mockConnectionManager.joinChannel).toHaveBeenCalledTimes(1);
+        expect(mockConnectionManager.joinChannel).toHaveBeenCalledWith(channel2);
+      });
+
+      it('should not join if bot is already connected to the channel', async () => {
         const guildId = 'already-connected-guild';
 
         const mockChannel: any = {
@@ -644,7 +899,7 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(true);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(true);
 
         await (service as any).scanGuild(mockGuild);
 
@@ -677,7 +932,7 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await (service as any).scanGuild(mockGuild);
 
@@ -705,7 +960,7 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await expect((service as any).scanGuild(mockGuild)).resolves.not.toThrow();
       });
@@ -730,7 +985,7 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await (service as any).scanGuild(mockGuild);
 
@@ -758,7 +1013,7 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await (service as any).scanGuild(mockGuild);
 
@@ -876,7 +1131,7 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         // Should not throw when encountering null
         await expect((service as any).scanGuild(mockGuild)).resolves.not.toThrow();
@@ -926,7 +1181,7 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await (service as any).scanGuild(mockGuild);
 
@@ -953,7 +1208,7 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await (service as any).scanGuild(mockGuild);
 
@@ -1000,7 +1255,7 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await (service as any).scanGuild(mockGuild);
 
@@ -1064,7 +1319,7 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await (service as any).scanGuild(mockGuild);
 
@@ -1102,7 +1357,7 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await (service as any).scanGuild(mockGuild);
 
@@ -1137,7 +1392,7 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await (service as any).scanGuild(mockGuild);
 
@@ -1194,7 +1449,7 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await (service as any).scanGuild(mockGuild);
 
@@ -1205,6 +1460,242 @@ describe('VoiceMonitorService', () => {
     });
   });
 
+  describe('startup tracking reconciliation', () => {
+    const guildId = 'seed-guild';
+
+    const createChannel = (id: string, members: Array<[string, boolean]>): any => ({
+      id,
+      name: id,
+      isVoiceBased: () => true,
+      members: new Collection<string, GuildMember>(
+        members.map(([userId, bot]) => [userId, { user: { bot } } as GuildMember])
+      ),
+      guild: { id: guildId },
+    });
+
+    const createGuild = (channels: any[]): any => ({
+      id: guildId,
+      name: 'Seed Guild',
+      channels: {
+        fetch: vi.fn().mockResolvedValue(
+          new Collection<string, any>(channels.map((channel) => [channel.id, channel]))
+        ),
+      },
+    });
+
+    beforeEach(() => {
+      vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
+    });
+
+    it('should start tracking non-bot members already in a monitored channel', async () => {
+      const channel = createChannel('seed-channel', [
+        ['user-1', false],
+        ['user-2', false],
+        ['bot-1', true],
+      ]);
+      vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(true);
+
+      await service.scanGuild(createGuild([channel]));
+
+      expect(mockAfkDetection.startTrackingAllInChannel).toHaveBeenCalledWith(
+        guildId,
+        'seed-channel',
+        ['user-1', 'user-2']
+      );
+    });
+
+    it('should seed tracking after joining a channel during the scan', async () => {
+      const channel = createChannel('joined-channel', [
+        ['user-1', false],
+        ['user-2', false],
+      ]);
+      let joined = false;
+      vi.mocked(mockConnectionManager.hasChannelConnection).mockImplementation(() => joined);
+      vi.mocked(mockConnectionManager.joinChannel).mockImplementation(async () => {
+        joined = true;
+        return {} as any;
+      });
+
+      await service.scanGuild(createGuild([channel]));
+
+      expect(mockConnectionManager.joinChannel).toHaveBeenCalledWith(channel);
+      expect(mockAfkDetection.startTrackingAllInChannel).toHaveBeenCalledWith(
+        guildId,
+        'joined-channel',
+        ['user-1', 'user-2']
+      );
+    });
+
+    it('should not seed channels the bot could not join', async () => {
+      const channel = createChannel('unmonitored-channel', [
+        ['user-1', false],
+        ['user-2', false],
+      ]);
+      vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
+      vi.mocked(mockConnectionManager.hasAvailableIdentity).mockReturnValue(false);
+
+      await service.scanGuild(createGuild([channel]));
+
+      expect(mockAfkDetection.startTrackingAllInChannel).not.toHaveBeenCalled();
+    });
+
+    it('should skip members whose tracking was already restored', async () => {
+      const channel = createChannel('seed-channel', [
+        ['restored-user', false],
+        ['new-user', false],
+      ]);
+      vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(true);
+      vi.mocked(mockAfkDetection.isTracking).mockImplementation(
+        (_guildId: string, userId: string) => userId === 'restored-user'
+      );
+
+      await service.scanGuild(createGuild([channel]));
+
+      expect(mockAfkDetection.startTrackingAllInChannel).toHaveBeenCalledWith(
+        guildId,
+        'seed-channel',
+        ['new-user']
+      );
+    });
+
+    it('should log a per-guild summary including exempt members that were skipped', async () => {
+      const channel = createChannel('seed-channel', [
+        ['restored-user', false],
+        ['new-user', false],
+        ['exempt-user', false],
+      ]);
+      const tracked = new Set(['restored-user']);
+      vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(true);
+      vi.mocked(mockAfkDetection.isTracking).mockImplementation(
+        (_guildId: string, userId: string) => tracked.has(userId)
+      );
+      // Exempt members are rejected inside startTracking, so only new-user ends up tracked
+      vi.mocked(mockAfkDetection.startTrackingAllInChannel).mockImplementation(async () => {
+        tracked.add('new-user');
+      });
+
+      await service.scanGuild(createGuild([channel]));
+
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        { guildId, action: 'tracking_seed', channelCount: 1, seeded: 1, alreadyTracked: 1, skipped: 1 },
+        'Seeded AFK tracking for members already in voice'
+      );
+    });
+
+    it('should not seed tracking when monitoring is disabled', async () => {
+      vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: false, guildId }));
+      const guild = createGuild([createChannel('seed-channel', [['user-1', false], ['user-2', false]])]);
+
+      await service.scanGuild(guild);
+
+      expect(mockAfkDetection.startTrackingAllInChannel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('enforcement schedules', () => {
+    // 2024-01-01 was a Monday
+    const insideWindow = Date.UTC(2024, 0, 1, 19, 0);
+    const outsideWindow = Date.UTC(2024, 0, 1, 23, 0);
+    const scheduledConfig = createMockGuildSettings({
+      enabled: true,
+      guildId: 'guild-1',
+      scheduleWindows: [{ days: [1], start: '18:00', end: '22:00' }],
+    });
+
+    let mockGuild: any;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      mockGuild = {
+        id: 'guild-1',
+        name: 'Guild 1',
+        channels: { fetch: vi.fn().mockResolvedValue(new Collection<string, any>()) },
+      };
+      mockClient.guilds = { cache: new Collection([['guild-1', mockGuild]]) } as any;
+      mockConnectionManager.leaveGuild = vi.fn();
+      mockAfkDetection.stopAllTrackingForGuild = vi.fn();
+      vi.mocked(mockGuildConfig.getConfig).mockReturnValue(scheduledConfig);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should not join a channel outside the schedule', async () => {
+      vi.setSystemTime(outsideWindow);
+      const mockChannel = {
+        id: 'channel-1',
+        guild: { id: 'guild-1' },
+        members: new Collection([['user1', { user: { bot: false } } as GuildMember]]),
+      } as VoiceBasedChannel;
+
+      await service.handleUserJoin(mockChannel);
+
+      expect(mockConnectionManager.joinChannel).not.toHaveBeenCalled();
+    });
+
+    it('should skip the guild scan outside the schedule', async () => {
+      vi.setSystemTime(outsideWindow);
+
+      await service.scanGuild(mockGuild);
+
+      expect(mockGuild.channels.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should drop restored timers when the watcher starts outside the schedule', () => {
+      service.startScheduleWatcher(outsideWindow);
+
+      expect(mockAfkDetection.stopAllTrackingForGuild).toHaveBeenCalledWith('guild-1');
+    });
+
+    it('should stop tracking and leave voice when the window closes', async () => {
+      service.startScheduleWatcher(insideWindow);
+
+      await service.checkSchedules(outsideWindow);
+
+      expect(mockAfkDetection.stopAllTrackingForGuild).toHaveBeenCalledWith('guild-1');
+      expect(mockConnectionManager.leaveGuild).toHaveBeenCalledWith('guild-1');
+    });
+
+    it('should scan the guild when the window opens', async () => {
+      service.startScheduleWatcher(outsideWindow);
+      vi.setSystemTime(insideWindow);
+
+      await service.checkSchedules(insideWindow);
+
+      expect(mockGuild.channels.fetch).toHaveBeenCalled();
+    });
+
+    it('should do nothing while the schedule state is unchanged', async () => {
+      service.startScheduleWatcher(insideWindow);
+
+      await service.checkSchedules(insideWindow + 60_000);
+
+      expect(mockAfkDetection.stopAllTrackingForGuild).not.toHaveBeenCalled();
+      expect(mockGuild.channels.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should check schedules every minute once started', async () => {
+      vi.setSystemTime(insideWindow);
+      service.startScheduleWatcher();
+      vi.setSystemTime(outsideWindow);
+
+      await vi.advanceTimersByTimeAsync(60_000);
+
+      expect(mockConnectionManager.leaveGuild).toHaveBeenCalledWith('guild-1');
+    });
+
+    it('should ignore guilds without a schedule', async () => {
+      vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId: 'guild-1' }));
+      service.startScheduleWatcher(outsideWindow);
+
+      await service.checkSchedules(outsideWindow);
+
+      expect(mockAfkDetection.stopAllTrackingForGuild).not.toHaveBeenCalled();
+      expect(mockGuild.channels.fetch).not.toHaveBeenCalled();
+    });
+  });
+
   describe('initialize', () => {
     describe('when client has multiple guilds', () => {
       it('should call scanGuild for each guild in client.guilds.cache', async () => {
@@ -1288,7 +1779,7 @@ describe('VoiceMonitorService', () => {
         } as any;
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId: 'guild-1' }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await service.initialize();
 
@@ -1298,6 +1789,33 @@ describe('VoiceMonitorService', () => {
       });
     });
 
+    describe('when timers were restored before the scan', () => {
+      it('should stop restored timers in channels the bot could not join', async () => {
+        const mockGuild: any = {
+          id: 'guild-1',
+          name: 'Guild 1',
+          channels: { fetch: vi.fn().mockResolvedValue(new Collection<string, any>()) },
+        };
+        mockClient.guilds = { cache: new Collection([['guild-1', mockGuild]]) } as any;
+        vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId: 'guild-1' }));
+        vi.mocked(mockAfkDetection.getTrackedCountsByChannel).mockReturnValue(
+          new Map([['connected-channel', 2], ['unjoined-channel', 1]])
+        );
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockImplementation(
+          channelId => channelId === 'connected-channel'
+        );
+
+        await service.initialize();
+
+        expect(mockAfkDetection.stopAllTrackingForChannel).toHaveBeenCalledTimes(1);
+        expect(mockAfkDetection.stopAllTrackingForChannel).toHaveBeenCalledWith('guild-1', 'unjoined-channel');
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          expect.objectContaining({ guildId: 'guild-1', channelId: 'unjoined-channel', count: 1, action: 'restore_discard' }),
+          'Dropping restored AFK timers in a channel the bot is not connected to'
+        );
+      });
+    });
+
     describe('when client has no guilds', () => {
       it('should complete successfully with empty guild cache', async () => {
         mockClient.guilds = {
@@ -1498,7 +2016,7 @@ describe('VoiceMonitorService', () => {
         } as any;
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId: 'guild-1' }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await service.initialize();
 
@@ -1562,7 +2080,7 @@ describe('VoiceMonitorService', () => {
         } as VoiceBasedChannel;
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await service.handleUserJoin(mockChannel);
 
@@ -1594,7 +2112,7 @@ describe('VoiceMonitorService', () => {
         } as VoiceBasedChannel;
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await service.handleUserJoin(mockChannel);
 
@@ -1622,7 +2140,7 @@ describe('VoiceMonitorService', () => {
         } as VoiceBasedChannel;
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await service.handleUserJoin(mockChannel);
 
@@ -1648,7 +2166,7 @@ describe('VoiceMonitorService', () => {
         } as VoiceBasedChannel;
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await service.handleUserJoin(mockChannel);
 
@@ -1825,7 +2343,7 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await (service as any).scanGuild(mockGuild);
 
@@ -1867,7 +2385,7 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await (service as any).scanGuild(mockGuild);
 
@@ -1899,7 +2417,7 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await (service as any).scanGuild(mockGuild);
 
@@ -1934,7 +2452,7 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await (service as any).scanGuild(mockGuild);
 
@@ -1950,7 +2468,7 @@ describe('VoiceMonitorService', () => {
     });
 
     describe('threshold check logging', () => {
-      it('should log threshold_check with action, nonBotCount, and result for each channel', async () => {
+      it('should log threshold_check with action, memberCount, and result for each channel', async () => {
         const guildId = 'test-guild';
 
         const activeChannel: any = {
@@ -1975,7 +2493,7 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await (service as any).scanGuild(mockGuild);
 
@@ -1985,8 +2503,8 @@ describe('VoiceMonitorService', () => {
             guildId,
             channelId: 'active',
             action: 'threshold_check',
-            nonBotCount: 2,
-            threshold: 2, // MIN_USERS_FOR_AFK_TRACKING
+            memberCount: 2,
+            threshold: 2,
             result: true,
           }),
           'Threshold check for AFK tracking'
@@ -2016,14 +2534,14 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await (service as any).scanGuild(mockGuild);
 
         expect(mockLogger.debug).toHaveBeenCalledWith(
           expect.objectContaining({
             action: 'threshold_check',
-            nonBotCount: 1,
+            memberCount: 1,
             result: false,
           }),
           expect.any(String)
@@ -2064,7 +2582,7 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await (service as any).scanGuild(mockGuild);
 
@@ -2073,7 +2591,7 @@ describe('VoiceMonitorService', () => {
           expect.objectContaining({
             channelId: 'channel-1',
             action: 'threshold_check',
-            nonBotCount: 1,
+            memberCount: 1,
             result: false,
           }),
           expect.any(String)
@@ -2084,14 +2602,14 @@ describe('VoiceMonitorService', () => {
           expect.objectContaining({
             channelId: 'channel-2',
             action: 'threshold_check',
-            nonBotCount: 3,
+            memberCount: 3,
             result: true,
           }),
           expect.any(String)
         );
       });
 
-      it('should exclude bots from nonBotCount in threshold check', async () => {
+      it('should exclude bots from memberCount in threshold check', async () => {
         const guildId = 'test-guild';
 
         const mixedChannel: any = {
@@ -2118,7 +2636,7 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await (service as any).scanGuild(mockGuild);
 
@@ -2126,7 +2644,7 @@ describe('VoiceMonitorService', () => {
         expect(mockLogger.debug).toHaveBeenCalledWith(
           expect.objectContaining({
             action: 'threshold_check',
-            nonBotCount: 2,
+            memberCount: 2,
             result: true,
           }),
           expect.any(String)
@@ -2157,14 +2675,14 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await (service as any).scanGuild(mockGuild);
 
         expect(mockLogger.debug).toHaveBeenCalledWith(
           expect.objectContaining({
             action: 'threshold_check',
-            nonBotCount: 2,
+            memberCount: 2,
             threshold: 2,
             result: true,
           }),
@@ -2192,14 +2710,14 @@ describe('VoiceMonitorService', () => {
         };
 
         vi.mocked(mockGuildConfig.getConfig).mockReturnValue(createMockGuildSettings({ enabled: true, guildId }));
-        vi.mocked(mockConnectionManager.hasConnection).mockReturnValue(false);
+        vi.mocked(mockConnectionManager.hasChannelConnection).mockReturnValue(false);
 
         await (service as any).scanGuild(mockGuild);
 
         expect(mockLogger.debug).toHaveBeenCalledWith(
           expect.objectContaining({
             action: 'threshold_check',
-            nonBotCount: 0,
+            memberCount: 0,
             result: false,
           }),
           expect.any(String)
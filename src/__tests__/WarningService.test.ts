@@ -3,6 +3,9 @@ import { Client, Guild, TextChannel, ChannelType, PermissionFlagsBits, Permissio
 import { WarningService } from '../services/WarningService';
 import { GuildConfigService } from '../services/GuildConfigService';
 import type { RateLimiter } from '../utils/RateLimiter';
+import { BotMetrics } from '../utils/metrics';
+import type { VoiceConnectionManager } from '../voice/VoiceConnectionManager';
+import type { ChimeStore } from '../voice/ChimeStore';
 import { createMockLogger, createMockGuildSettings } from './fixtures';
 
 describe('WarningService', () => {
@@ -26,11 +29,13 @@ describe('WarningService', () => {
     // Mock the GuildConfigService
     mockConfigService = {
       getConfig: vi.fn(),
+      getEffectiveConfig: vi.fn((guildId: string) => mockConfigService.getConfig(guildId)),
     } as unknown as GuildConfigService;
 
     // Mock the RateLimiter
     mockRateLimiter = {
       recordAction: vi.fn(),
+      acquire: vi.fn().mockResolvedValue(true),
       getActionCount: vi.fn().mockReturnValue(0),
     } as unknown as RateLimiter;
 
@@ -91,7 +96,7 @@ describe('WarningService', () => {
 
           // Verify message was sent
           expect(mockSend).toHaveBeenCalledTimes(1);
-          expect(mockSend).toHaveBeenCalledWith({
+          expect(mockSend).toHaveBeenCalledWith(expect.objectContaining({
             embeds: [expect.objectContaining({
               data: expect.objectContaining({
                 color: 0xFF9900,
@@ -99,7 +104,7 @@ describe('WarningService', () => {
                 description: expect.stringContaining(`<@${userId}>`),
               }),
             })],
-          });
+          }));
 
           // Verify success was logged and no permission warnings
           expect(mockLogger.info).toHaveBeenCalled();
@@ -149,12 +154,51 @@ describe('WarningService', () => {
 
           await service.sendWarning(guildId, userId, voiceChannelId);
 
-          expect(mockSend).toHaveBeenCalledWith({
+          expect(mockSend).toHaveBeenCalledWith(expect.objectContaining({
             embeds: [expect.objectContaining({
               data: expect.objectContaining({
                 description: expect.stringContaining(`${warningSecondsBefore} seconds`),
               }),
             })],
+          }));
+        });
+
+        it("should attach an \"I'm still here\" button for the warned user", async () => {
+          const guildId = 'guild-button';
+          const userId = 'user-button';
+          const warningChannelId = 'warning-channel-button';
+
+          const mockSend = vi.fn().mockResolvedValue({ id: 'message-button' });
+          const mockWarningChannel = {
+            id: warningChannelId,
+            type: ChannelType.GuildText,
+            send: mockSend,
+            permissionsFor: vi.fn().mockReturnValue(new PermissionsBitField([PermissionFlagsBits.SendMessages])),
+          } as unknown as TextChannel;
+
+          const mockGuild = {
+            id: guildId,
+            channels: {
+              cache: new Collection<string, GuildBasedChannel>([[warningChannelId, mockWarningChannel]]),
+            },
+            members: {
+              me: { id: 'bot-member-id' } as GuildMember,
+            },
+          } as unknown as Guild;
+
+          vi.mocked(mockConfigService.getConfig).mockReturnValue(
+            createMockGuildSettings({ guildId, enabled: true, warningChannelId })
+          );
+          vi.mocked(mockClient.guilds.fetch).mockResolvedValue(mockGuild);
+
+          await service.sendWarning(guildId, userId, 'voice-button');
+
+          const payload = mockSend.mock.calls[0]?.[0];
+          const [row] = payload.components;
+          const [button] = row.toJSON().components;
+          expect(button).toMatchObject({
+            custom_id: `afk-still-here:${guildId}:${userId}`,
+            label: "I'm still here",
           });
         });
 
@@ -205,13 +249,13 @@ describe('WarningService', () => {
 
           await service.sendWarning(guildId, userId, voiceChannelId);
 
-          expect(mockSend).toHaveBeenCalledWith({
+          expect(mockSend).toHaveBeenCalledWith(expect.objectContaining({
             embeds: [expect.objectContaining({
               data: expect.objectContaining({
                 description: expect.stringContaining(`<#${voiceChannelId}>`),
               }),
             })],
-          });
+          }));
         });
 
         it('should use generic text when voice channel not found', async () => {
@@ -256,22 +300,22 @@ describe('WarningService', () => {
 
           await service.sendWarning(guildId, userId, voiceChannelId);
 
-          expect(mockSend).toHaveBeenCalledWith({
+          expect(mockSend).toHaveBeenCalledWith(expect.objectContaining({
             embeds: [expect.objectContaining({
               data: expect.objectContaining({
                 description: expect.stringContaining('voice channel'),
               }),
             })],
-          });
+          }));
 
           // Should NOT contain channel mention
-          expect(mockSend).toHaveBeenCalledWith({
+          expect(mockSend).toHaveBeenCalledWith(expect.objectContaining({
             embeds: [expect.objectContaining({
               data: expect.objectContaining({
                 description: expect.not.stringContaining(`<#${voiceChannelId}>`),
               }),
             })],
-          });
+          }));
         });
       });
 
@@ -587,14 +631,14 @@ describe('WarningService', () => {
 
         // Verify message was sent to systemChannel
         expect(mockSend).toHaveBeenCalledTimes(1);
-        expect(mockSend).toHaveBeenCalledWith({
+        expect(mockSend).toHaveBeenCalledWith(expect.objectContaining({
           embeds: [expect.objectContaining({
             data: expect.objectContaining({
               color: 0xFF9900,
               title: 'AFK Warning',
             }),
           })],
-        });
+        }));
 
         // Verify success was logged
         expect(mockLogger.info).toHaveBeenCalled();
@@ -651,14 +695,14 @@ describe('WarningService', () => {
 
         // Verify message was sent to first text channel
         expect(mockSend).toHaveBeenCalledTimes(1);
-        expect(mockSend).toHaveBeenCalledWith({
+        expect(mockSend).toHaveBeenCalledWith(expect.objectContaining({
           embeds: [expect.objectContaining({
             data: expect.objectContaining({
               color: 0xFF9900,
               title: 'AFK Warning',
             }),
           })],
-        });
+        }));
 
         // Verify success was logged
         expect(mockLogger.info).toHaveBeenCalled();
@@ -740,8 +784,362 @@ describe('WarningService', () => {
 
         await service.sendWarning(guildId, userId, voiceChannelId);
 
-        // Should record action twice: once for guild fetch, once for message send
-        expect(mockRateLimiter.recordAction).toHaveBeenCalledTimes(2);
+        // Guild fetch is recorded directly; the message send waits for a token
+        expect(mockRateLimiter.recordAction).toHaveBeenCalledTimes(1);
+        expect(mockRateLimiter.recordAction).toHaveBeenCalledWith('client.guilds.fetch', guildId);
+        expect(mockRateLimiter.acquire).toHaveBeenCalledWith('channel.send', guildId);
+        expect(mockSend).toHaveBeenCalled();
+      });
+
+      it('should drop the warning when no send token becomes available', async () => {
+        const guildId = 'guild-rate-limited';
+        const userId = 'user-rate-limited';
+        const warningChannelId = 'warning-rate-limited';
+
+        const mockSend = vi.fn();
+        const mockWarningChannel = {
+          id: warningChannelId,
+          type: ChannelType.GuildText,
+          send: mockSend,
+          permissionsFor: vi.fn().mockReturnValue({ has: vi.fn().mockReturnValue(true) }),
+        } as unknown as TextChannel;
+
+        const mockChannelCollection = new Collection<string, GuildBasedChannel>();
+        mockChannelCollection.set(warningChannelId, mockWarningChannel);
+
+        vi.mocked(mockConfigService.getConfig).mockReturnValue(
+          createMockGuildSettings({ guildId, enabled: true, warningChannelId })
+        );
+        vi.mocked(mockClient.guilds.fetch).mockResolvedValue({
+          id: guildId,
+          channels: { cache: mockChannelCollection },
+          members: { me: { id: 'bot-id' } },
+        } as unknown as Guild);
+        vi.mocked(mockRateLimiter.acquire).mockResolvedValue(false);
+
+        await service.sendWarning(guildId, userId, 'voice-rate-limited');
+
+        expect(mockSend).not.toHaveBeenCalled();
+        expect(mockLogger.warn).toHaveBeenCalledWith(
+          { guildId, userId, channelId: warningChannelId },
+          'Warning dropped due to rate limiting'
+        );
+      });
+    });
+
+    describe('metrics', () => {
+      function setupWarningChannel(guildId: string, warningChannelId: string): ReturnType<typeof vi.fn> {
+        const mockSend = vi.fn().mockResolvedValue({ id: 'message-123' });
+        const mockChannelCollection = new Collection<string, GuildBasedChannel>();
+        mockChannelCollection.set(warningChannelId, {
+          id: warningChannelId,
+          type: ChannelType.GuildText,
+          send: mockSend,
+          permissionsFor: vi.fn().mockReturnValue({ has: vi.fn().mockReturnValue(true) }),
+        } as unknown as TextChannel);
+
+        vi.mocked(mockConfigService.getConfig).mockReturnValue(
+          createMockGuildSettings({ guildId, enabled: true, warningChannelId })
+        );
+        vi.mocked(mockClient.guilds.fetch).mockResolvedValue({
+          id: guildId,
+          channels: { cache: mockChannelCollection },
+          members: { me: { id: 'bot-id' } },
+        } as unknown as Guild);
+        return mockSend;
+      }
+
+      it('should count warnings that were sent', async () => {
+        const metrics = new BotMetrics();
+        const metricsService = new WarningService(mockClient, mockConfigService, mockLogger, mockRateLimiter, metrics);
+        setupWarningChannel('guild-metrics', 'warning-metrics');
+
+        await metricsService.sendWarning('guild-metrics', 'user-metrics', 'voice-metrics');
+
+        expect(metrics.warningsSent.get()).toBe(1);
+      });
+
+      it('should not send or count warnings in observe mode', async () => {
+        const metrics = new BotMetrics();
+        const metricsService = new WarningService(mockClient, mockConfigService, mockLogger, mockRateLimiter, metrics);
+        const mockSend = setupWarningChannel('guild-metrics', 'warning-metrics');
+        vi.mocked(mockConfigService.getConfig).mockReturnValue(
+          createMockGuildSettings({ guildId: 'guild-metrics', enabled: true, warningChannelId: 'warning-metrics', mode: 'observe' })
+        );
+
+        await metricsService.sendWarning('guild-metrics', 'user-metrics', 'voice-metrics');
+
+        expect(mockSend).not.toHaveBeenCalled();
+        expect(metrics.warningsSent.get()).toBe(0);
+      });
+
+      it('should not count warnings dropped by the rate limiter', async () => {
+        const metrics = new BotMetrics();
+        const metricsService = new WarningService(mockClient, mockConfigService, mockLogger, mockRateLimiter, metrics);
+        setupWarningChannel('guild-metrics', 'warning-metrics');
+        vi.mocked(mockRateLimiter.acquire).mockResolvedValue(false);
+
+        await metricsService.sendWarning('guild-metrics', 'user-metrics', 'voice-metrics');
+
+        expect(metrics.warningsSent.get()).toBe(0);
+      });
+    });
+
+    describe('message templates', () => {
+      const guildId = 'guild-templates';
+      const warningChannelId = 'warning-templates';
+
+      function setupGuild(preferredLocale: string, settings: Parameters<typeof createMockGuildSettings>[0]): ReturnType<typeof vi.fn> {
+        const mockSend = vi.fn().mockResolvedValue({ id: 'message-123' });
+        const mockChannelCollection = new Collection<string, GuildBasedChannel>();
+        mockChannelCollection.set(warningChannelId, {
+          id: warningChannelId,
+          type: ChannelType.GuildText,
+          send: mockSend,
+          permissionsFor: vi.fn().mockReturnValue({ has: vi.fn().mockReturnValue(true) }),
+        } as unknown as TextChannel);
+        mockChannelCollection.set('voice-templates', { id: 'voice-templates', parentId: null } as unknown as GuildBasedChannel);
+
+        vi.mocked(mockConfigService.getConfig).mockReturnValue(
+          createMockGuildSettings({ guildId, enabled: true, warningChannelId, ...settings })
+        );
+        vi.mocked(mockClient.guilds.fetch).mockResolvedValue({
+          id: guildId,
+          name: 'Template Guild',
+          preferredLocale,
+          channels: { cache: mockChannelCollection },
+          members: { me: { id: 'bot-id' } },
+        } as unknown as Guild);
+        return mockSend;
+      }
+
+      it("should translate the built-in warning into the guild's preferred locale", async () => {
+        const mockSend = setupGuild('de', { warningSecondsBefore: 30 });
+
+        await service.sendWarning(guildId, 'user-1', 'voice-templates');
+
+        expect(mockSend).toHaveBeenCalledWith(expect.objectContaining({
+          embeds: [expect.objectContaining({
+            data: expect.objectContaining({
+              title: 'AFK-Warnung',
+              description: '<@user-1>, du wirst in 30 Sekunden wegen Inaktivität aus <#voice-templates> entfernt.',
+            }),
+          })],
+        }));
+      });
+
+      it("should use the guild's templates and color over the built-in messages", async () => {
+        const mockSend = setupGuild('de', {
+          messageLocale: 'en',
+          messageTemplates: { warningBody: 'Still with us in {channel}, {user}? {seconds}s left on {server}.', warningColor: 0x00ff00 },
+        });
+
+        await service.sendWarning(guildId, 'user-1', 'voice-templates');
+
+        expect(mockSend).toHaveBeenCalledWith(expect.objectContaining({
+          embeds: [expect.objectContaining({
+            data: expect.objectContaining({
+              color: 0x00ff00,
+              title: 'AFK Warning',
+              description: 'Still with us in <#voice-templates>, <@user-1>? 60s left on Template Guild.',
+            }),
+          })],
+        }));
+      });
+    });
+
+    describe('delivery modes', () => {
+      const guildId = 'guild-delivery';
+      const warningChannelId = 'warning-delivery';
+      const voiceChannelId = 'voice-delivery';
+
+      function setupGuild(settings: Parameters<typeof createMockGuildSettings>[0]) {
+        const channelSend = vi.fn().mockResolvedValue({ id: 'message-123' });
+        const voiceSend = vi.fn().mockResolvedValue({ id: 'message-456' });
+        const memberSend = vi.fn().mockResolvedValue({ id: 'message-789' });
+        const mockChannelCollection = new Collection<string, GuildBasedChannel>();
+        mockChannelCollection.set(warningChannelId, {
+          id: warningChannelId,
+          type: ChannelType.GuildText,
+          send: channelSend,
+          permissionsFor: vi.fn().mockReturnValue({ has: vi.fn().mockReturnValue(true) }),
+        } as unknown as TextChannel);
+        mockChannelCollection.set(voiceChannelId, {
+          id: voiceChannelId,
+          parentId: null,
+          isVoiceBased: () => true,
+          send: voiceSend,
+          permissionsFor: vi.fn().mockReturnValue({ has: vi.fn().mockReturnValue(true) }),
+        } as unknown as GuildBasedChannel);
+
+        vi.mocked(mockConfigService.getConfig).mockReturnValue(
+          createMockGuildSettings({ guildId, enabled: true, warningChannelId, ...settings })
+        );
+        vi.mocked(mockClient.guilds.fetch).mockResolvedValue({
+          id: guildId,
+          name: 'Delivery Guild',
+          preferredLocale: 'en-US',
+          channels: { cache: mockChannelCollection },
+          members: {
+            me: { id: 'bot-id' },
+            fetch: vi.fn().mockResolvedValue({ id: 'user-1', send: memberSend }),
+          },
+        } as unknown as Guild);
+        return { channelSend, voiceSend, memberSend };
+      }
+
+      it('should only post in the warning channel by default', async () => {
+        const { channelSend, memberSend } = setupGuild({});
+
+        const delivered = await service.sendWarning(guildId, 'user-1', voiceChannelId);
+
+        expect(delivered).toEqual(['channel']);
+        expect(channelSend).toHaveBeenCalledTimes(1);
+        expect(memberSend).not.toHaveBeenCalled();
+      });
+
+      it('should DM the warning with the still-here button and skip the channel', async () => {
+        const { channelSend, memberSend } = setupGuild({ warningDelivery: 'dm' });
+
+        const delivered = await service.sendWarning(guildId, 'user-1', voiceChannelId);
+
+        expect(delivered).toEqual(['dm']);
+        expect(mockRateLimiter.acquire).toHaveBeenCalledWith('member.send', guildId);
+        expect(memberSend).toHaveBeenCalledWith(expect.objectContaining({
+          embeds: [expect.objectContaining({ data: expect.objectContaining({ title: 'AFK Warning' }) })],
+          components: [expect.anything()],
+        }));
+        expect(channelSend).not.toHaveBeenCalled();
+      });
+
+      it('should fall back to the warning channel when the member has DMs closed', async () => {
+        const { channelSend, memberSend } = setupGuild({ warningDelivery: 'dm' });
+        memberSend.mockRejectedValue(Object.assign(new Error('Cannot send messages to this user'), { code: 50007 }));
+
+        const delivered = await service.sendWarning(guildId, 'user-1', voiceChannelId);
+
+        expect(delivered).toEqual(['channel']);
+        expect(channelSend).toHaveBeenCalledTimes(1);
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          { guildId, userId: 'user-1' },
+          'Member has DMs closed, warning not sent by DM'
+        );
+        expect(mockLogger.warn).not.toHaveBeenCalled();
+      });
+
+      it('should send by DM and in the warning channel', async () => {
+        const { channelSend, memberSend } = setupGuild({ warningDelivery: 'both' });
+
+        const delivered = await service.sendWarning(guildId, 'user-1', voiceChannelId);
+
+        expect(delivered).toEqual(['dm', 'channel']);
+        expect(memberSend).toHaveBeenCalledTimes(1);
+        expect(channelSend).toHaveBeenCalledTimes(1);
+      });
+
+      it("should post in the voice channel's text chat", async () => {
+        const { channelSend, voiceSend } = setupGuild({ warningDelivery: 'voice-chat' });
+
+        const delivered = await service.sendWarning(guildId, 'user-1', voiceChannelId);
+
+        expect(delivered).toEqual(['voice_chat']);
+        expect(voiceSend).toHaveBeenCalledTimes(1);
+        expect(channelSend).not.toHaveBeenCalled();
+      });
+
+      it('should report nothing delivered when every path fails', async () => {
+        const { channelSend, memberSend } = setupGuild({ warningDelivery: 'dm' });
+        memberSend.mockRejectedValue(Object.assign(new Error('Cannot send messages to this user'), { code: 50007 }));
+        channelSend.mockRejectedValue(new Error('Missing Access'));
+
+        const delivered = await service.sendWarning(guildId, 'user-1', voiceChannelId);
+
+        expect(delivered).toEqual([]);
+      });
+    });
+
+    describe('warning chime', () => {
+      const guildId = 'guild-chime';
+      const warningChannelId = 'warning-chime';
+      const voiceChannelId = 'voice-chime';
+      let mockVoiceConnectionManager: VoiceConnectionManager;
+      let mockChimeStore: ChimeStore;
+      let channelSend: ReturnType<typeof vi.fn>;
+
+      beforeEach(() => {
+        mockVoiceConnectionManager = {
+          playClip: vi.fn().mockResolvedValue(true),
+        } as unknown as VoiceConnectionManager;
+        mockChimeStore = {
+          getChimePath: vi.fn().mockReturnValue('/data/chimes/guild-chime.ogg'),
+        } as unknown as ChimeStore;
+        service = new WarningService(
+          mockClient,
+          mockConfigService,
+          mockLogger,
+          mockRateLimiter,
+          null,
+          mockVoiceConnectionManager,
+          mockChimeStore
+        );
+
+        channelSend = vi.fn().mockResolvedValue({ id: 'message-123' });
+        const mockChannelCollection = new Collection<string, GuildBasedChannel>();
+        mockChannelCollection.set(warningChannelId, {
+          id: warningChannelId,
+          type: ChannelType.GuildText,
+          send: channelSend,
+          permissionsFor: vi.fn().mockReturnValue({ has: vi.fn().mockReturnValue(true) }),
+        } as unknown as TextChannel);
+        vi.mocked(mockClient.guilds.fetch).mockResolvedValue({
+          id: guildId,
+          name: 'Chime Guild',
+          channels: { cache: mockChannelCollection },
+          members: { me: { id: 'bot-id' } },
+        } as unknown as Guild);
+      });
+
+      it("should play the guild's chime in the voice channel when enabled", async () => {
+        vi.mocked(mockConfigService.getConfig).mockReturnValue(
+          createMockGuildSettings({ guildId, enabled: true, warningChannelId, warningChimeEnabled: true })
+        );
+
+        await service.sendWarning(guildId, 'user-1', voiceChannelId);
+
+        expect(mockChimeStore.getChimePath).toHaveBeenCalledWith(guildId);
+        expect(mockVoiceConnectionManager.playClip).toHaveBeenCalledWith(voiceChannelId, '/data/chimes/guild-chime.ogg');
+        expect(channelSend).toHaveBeenCalledTimes(1);
+      });
+
+      it('should stay silent when the chime is off', async () => {
+        vi.mocked(mockConfigService.getConfig).mockReturnValue(
+          createMockGuildSettings({ guildId, enabled: true, warningChannelId })
+        );
+
+        await service.sendWarning(guildId, 'user-1', voiceChannelId);
+
+        expect(mockVoiceConnectionManager.playClip).not.toHaveBeenCalled();
+      });
+
+      it('should stay silent in observe mode', async () => {
+        vi.mocked(mockConfigService.getConfig).mockReturnValue(
+          createMockGuildSettings({ guildId, enabled: true, warningChannelId, warningChimeEnabled: true, mode: 'observe' })
+        );
+
+        await service.sendWarning(guildId, 'user-1', voiceChannelId);
+
+        expect(mockVoiceConnectionManager.playClip).not.toHaveBeenCalled();
+      });
+
+      it('should not hold up the warning while the chime plays', async () => {
+        vi.mocked(mockConfigService.getConfig).mockReturnValue(
+          createMockGuildSettings({ guildId, enabled: true, warningChannelId, warningChimeEnabled: true })
+        );
+        vi.mocked(mockVoiceConnectionManager.playClip).mockReturnValue(new Promise(() => {}));
+
+        const delivered = await service.sendWarning(guildId, 'user-1', voiceChannelId);
+
+        expect(delivered).toEqual(['channel']);
       });
     });
 
@@ -1566,4 +1964,150 @@ describe('WarningService', () => {
       });
     });
   });
+
+  describe('warning countdown', () => {
+    const guildId = 'guild-countdown';
+    const warningChannelId = 'warning-countdown';
+    const voiceChannelId = 'voice-countdown';
+
+    let postedMessage: { id: string; edit: ReturnType<typeof vi.fn>; delete: ReturnType<typeof vi.fn> };
+    let channelSend: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      postedMessage = {
+        id: 'message-countdown',
+        edit: vi.fn().mockResolvedValue(undefined),
+        delete: vi.fn().mockResolvedValue(undefined),
+      };
+      channelSend = vi.fn().mockResolvedValue(postedMessage);
+      const mockChannelCollection = new Collection<string, GuildBasedChannel>();
+      mockChannelCollection.set(warningChannelId, {
+        id: warningChannelId,
+        type: ChannelType.GuildText,
+        send: channelSend,
+        permissionsFor: vi.fn().mockReturnValue({ has: vi.fn().mockReturnValue(true) }),
+      } as unknown as TextChannel);
+      mockChannelCollection.set(voiceChannelId, { id: voiceChannelId, parentId: null } as unknown as GuildBasedChannel);
+
+      vi.mocked(mockConfigService.getConfig).mockReturnValue(
+        createMockGuildSettings({ guildId, enabled: true, warningChannelId, warningSecondsBefore: 60 })
+      );
+      vi.mocked(mockClient.guilds.fetch).mockResolvedValue({
+        id: guildId,
+        name: 'Countdown Guild',
+        preferredLocale: 'en-US',
+        channels: { cache: mockChannelCollection },
+        members: { me: { id: 'bot-id' } },
+      } as unknown as Guild);
+    });
+
+    describe('updateWarning', () => {
+      it('should edit the posted warning with the time left', async () => {
+        await service.sendWarning(guildId, 'user-1', voiceChannelId);
+
+        await service.updateWarning(guildId, 'user-1', voiceChannelId, 15);
+
+        expect(channelSend).toHaveBeenCalledTimes(1);
+        expect(mockRateLimiter.acquire).toHaveBeenCalledWith('message.edit', guildId);
+        expect(postedMessage.edit).toHaveBeenCalledWith(expect.objectContaining({
+          embeds: [expect.objectContaining({
+            data: expect.objectContaining({
+              description: '<@user-1> you will be disconnected from <#voice-countdown> in 15 seconds due to inactivity.',
+            }),
+          })],
+          components: [expect.anything()],
+        }));
+      });
+
+      it('should post a fresh warning when there is nothing to edit', async () => {
+        await service.updateWarning(guildId, 'user-1', voiceChannelId, 15);
+
+        expect(channelSend).toHaveBeenCalledWith(expect.objectContaining({
+          embeds: [expect.objectContaining({
+            data: expect.objectContaining({ description: expect.stringContaining('in 15 seconds') }),
+          })],
+        }));
+      });
+
+      it('should post a fresh warning when the posted one was deleted', async () => {
+        await service.sendWarning(guildId, 'user-1', voiceChannelId);
+        postedMessage.edit.mockRejectedValue(new Error('Unknown Message'));
+
+        await service.updateWarning(guildId, 'user-1', voiceChannelId, 15);
+
+        expect(channelSend).toHaveBeenCalledTimes(2);
+      });
+    });
+
+    describe('clearWarning', () => {
+      it('should mark the warning as no longer applying and drop its button', async () => {
+        await service.sendWarning(guildId, 'user-1', voiceChannelId);
+
+        await service.clearWarning(guildId, 'user-1', 'dismiss');
+
+        expect(postedMessage.edit).toHaveBeenCalledWith({
+          embeds: [expect.objectContaining({
+            data: expect.objectContaining({
+              title: 'AFK Warning Dismissed',
+              description: 'This warning for <@user-1> no longer applies.',
+            }),
+          })],
+          components: [],
+        });
+        expect(postedMessage.delete).not.toHaveBeenCalled();
+      });
+
+      it('should delete the warning and forget it', async () => {
+        await service.sendWarning(guildId, 'user-1', voiceChannelId);
+
+        await service.clearWarning(guildId, 'user-1', 'delete');
+        await service.clearWarning(guildId, 'user-1', 'delete');
+
+        expect(mockRateLimiter.acquire).toHaveBeenCalledWith('message.delete', guildId);
+        expect(postedMessage.delete).toHaveBeenCalledTimes(1);
+      });
+
+      it('should swallow failures to clean up', async () => {
+        await service.sendWarning(guildId, 'user-1', voiceChannelId);
+        postedMessage.delete.mockRejectedValue(new Error('Unknown Message'));
+
+        await expect(service.clearWarning(guildId, 'user-1', 'delete')).resolves.toBeUndefined();
+      });
+    });
+  });
+
+  describe('sendKickDm', () => {
+    function createMember(send: ReturnType<typeof vi.fn>): GuildMember {
+      return { id: 'user-dm', guild: { id: 'guild-dm' }, send } as unknown as GuildMember;
+    }
+
+    it('should DM the member', async () => {
+      const send = vi.fn().mockResolvedValue(undefined);
+
+      await service.sendKickDm(createMember(send), 'You were marked AFK.');
+
+      expect(mockRateLimiter.acquire).toHaveBeenCalledWith('member.send', 'guild-dm');
+      expect(send).toHaveBeenCalledWith({ content: 'You were marked AFK.' });
+    });
+
+    it('should log and swallow failures when the member has DMs closed', async () => {
+      const send = vi.fn().mockRejectedValue(new Error('Cannot send messages to this user'));
+
+      await expect(service.sendKickDm(createMember(send), 'You were marked AFK.')).resolves.toBeUndefined();
+
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ guildId: 'guild-dm', userId: 'user-dm' }),
+        'Failed to send AFK action DM'
+      );
+    });
+
+    it('should drop the DM when no send token becomes available', async () => {
+      const send = vi.fn();
+      vi.mocked(mockRateLimiter.acquire).mockResolvedValue(false);
+
+      await service.sendKickDm(createMember(send), 'You were marked AFK.');
+
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,4 +1,5 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { readFileSync } from 'fs';
 import {
   ChatInputCommandInteraction,
   PermissionsBitField,
@@ -10,9 +11,13 @@ import {
   CommandInteractionOptionResolver,
 } from 'discord.js';
 import { execute } from '../handlers/commands/afk-config';
+import type { CommandServices } from '../handlers/commands';
+import type { AFKEventRepository } from '../database/repositories/AFKEventRepository';
+import type { ExemptionService } from '../services/ExemptionService';
+import { BUNDLED_CHIME_PATH, type ChimeStore } from '../voice/ChimeStore';
 import { GuildConfigService } from '../services/GuildConfigService';
 import type { GuildSettings } from '../database/repositories/GuildSettingsRepository';
-import { hasAFKAdminPermission } from '../utils/permissions';
+import { hasAFKAdminPermission, getMissingAFKActionPermissions } from '../utils/permissions';
 import { createMockLogger, createMockGuildSettings } from './fixtures';
 
 /**
@@ -551,10 +556,1135 @@ describe('afk-config command', () => {
     });
   });
 
+  describe('modlog subcommand', () => {
+    const guildId = 'modlog-test-guild';
+
+    function createModLogInteraction(channel: TextChannel | null) {
+      return createMockInteraction(guildId, true, {
+        getSubcommandGroup: vi.fn().mockReturnValue(null),
+        getSubcommand: vi.fn().mockReturnValue('modlog'),
+        getChannel: vi.fn().mockReturnValue(channel),
+      });
+    }
+
+    beforeEach(() => {
+      vi.mocked(hasAFKAdminPermission).mockReturnValue(true);
+    });
+
+    it('should set the mod log channel', async () => {
+      const interaction = createModLogInteraction({ id: 'mod-log-123', type: ChannelType.GuildText } as TextChannel);
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { modLogChannelId: 'mod-log-123' });
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'AFK actions, failed actions and exemptions will be logged in <#mod-log-123>.',
+        ephemeral: true,
+      });
+    });
+
+    it('should turn the mod log off when no channel is given', async () => {
+      const interaction = createModLogInteraction(null);
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { modLogChannelId: null });
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'The moderator log is now off.',
+        ephemeral: true,
+      });
+    });
+  });
+
+  /**
+   * ACTION SUBCOMMAND
+   */
+
+  describe('channel-override subcommands', () => {
+    const guildId = 'override-test-guild';
+
+    function createOverrideInteraction(
+      subcommand: string,
+      options: {
+        channel?: unknown;
+        enabled?: boolean | null;
+        timeout?: number | null;
+        warning?: number | null;
+        warningChannel?: unknown;
+        parentId?: string | null;
+      } = {}
+    ): ChatInputCommandInteraction {
+      const interaction = createMockInteraction(guildId, true, {
+        getSubcommandGroup: vi.fn().mockReturnValue('channel-override'),
+        getSubcommand: vi.fn().mockReturnValue(subcommand),
+        getChannel: vi.fn((name: string) =>
+          name === 'warning-channel' ? options.warningChannel ?? null : options.channel ?? null
+        ),
+        getBoolean: vi.fn().mockReturnValue(options.enabled ?? null),
+        getInteger: vi.fn((name: string) =>
+          name === 'timeout' ? options.timeout ?? null : options.warning ?? null
+        ),
+      } as any);
+
+      (interaction as any).guild = {
+        channels: {
+          cache: new Map([['voice-1', { parentId: options.parentId ?? null }]]),
+        },
+      };
+
+      return interaction;
+    }
+
+    beforeEach(() => {
+      vi.mocked(hasAFKAdminPermission).mockReturnValue(true);
+      mockConfigService.getEffectiveConfig = vi.fn().mockReturnValue(
+        createMockGuildSettings({ guildId, afkTimeoutSeconds: 300, warningSecondsBefore: 60 })
+      );
+      mockConfigService.getChannelOverrides = vi.fn().mockReturnValue([]);
+      mockConfigService.setChannelOverride = vi.fn((_guildId: string, channelId: string, updates: object) => ({
+        guildId,
+        channelId,
+        enabled: null,
+        afkTimeoutSeconds: null,
+        warningSecondsBefore: null,
+        warningChannelId: null,
+        createdAt: '',
+        updatedAt: '',
+        ...updates,
+      }));
+      mockConfigService.removeChannelOverride = vi.fn().mockReturnValue(true);
+    });
+
+    it('should set a longer timeout for a single channel', async () => {
+      const interaction = createOverrideInteraction('set', { channel: { id: 'voice-1' }, timeout: 1200 });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.setChannelOverride).toHaveBeenCalledWith(guildId, 'voice-1', {
+        afkTimeoutSeconds: 1200,
+      });
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'Override for <#voice-1> updated: timeout 1200s.',
+        ephemeral: true,
+      });
+    });
+
+    it('should disable monitoring for a channel', async () => {
+      const interaction = createOverrideInteraction('set', { channel: { id: 'voice-1' }, enabled: false });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.setChannelOverride).toHaveBeenCalledWith(guildId, 'voice-1', { enabled: false });
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'Override for <#voice-1> updated: disabled.',
+        ephemeral: true,
+      });
+    });
+
+    it('should validate against the inherited config including the category', async () => {
+      const interaction = createOverrideInteraction('set', {
+        channel: { id: 'voice-1' },
+        timeout: 60,
+        parentId: 'category-1',
+      });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.getEffectiveConfig).toHaveBeenCalledWith(guildId, 'voice-1', 'category-1');
+      expect(mockConfigService.setChannelOverride).not.toHaveBeenCalled();
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'Warning time (60s) must be less than timeout (60s).',
+        ephemeral: true,
+      });
+    });
+
+    it('should require at least one setting', async () => {
+      const interaction = createOverrideInteraction('set', { channel: { id: 'voice-1' } });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.setChannelOverride).not.toHaveBeenCalled();
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'Provide at least one setting to override.',
+        ephemeral: true,
+      });
+    });
+
+    it('should clear an override', async () => {
+      const interaction = createOverrideInteraction('clear', { channel: { id: 'voice-1' } });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.removeChannelOverride).toHaveBeenCalledWith(guildId, 'voice-1');
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'Override for <#voice-1> removed. It now inherits the server settings.',
+        ephemeral: true,
+      });
+    });
+
+    it('should report when there is no override to clear', async () => {
+      vi.mocked(mockConfigService.removeChannelOverride).mockReturnValue(false);
+      const interaction = createOverrideInteraction('clear', { channel: { id: 'voice-1' } });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: '<#voice-1> has no override.',
+        ephemeral: true,
+      });
+    });
+
+    it('should list overrides', async () => {
+      vi.mocked(mockConfigService.getChannelOverrides).mockReturnValue([
+        {
+          guildId,
+          channelId: 'voice-1',
+          enabled: false,
+          afkTimeoutSeconds: null,
+          warningSecondsBefore: null,
+          warningChannelId: null,
+          createdAt: '',
+          updatedAt: '',
+        },
+        {
+          guildId,
+          channelId: 'category-1',
+          enabled: null,
+          afkTimeoutSeconds: 180,
+          warningSecondsBefore: 30,
+          warningChannelId: 'text-1',
+          createdAt: '',
+          updatedAt: '',
+        },
+      ]);
+      const interaction = createOverrideInteraction('list');
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: '<#voice-1>: disabled\n<#category-1>: timeout 180s, warning 30s, warnings in <#text-1>',
+        ephemeral: true,
+      });
+    });
+
+    it('should say when no overrides exist', async () => {
+      const interaction = createOverrideInteraction('list');
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'No channel overrides configured.',
+        ephemeral: true,
+      });
+    });
+  });
+
+  describe('action subcommand', () => {
+    const guildId = 'action-test-guild';
+
+    function createActionInteraction(
+      type: string,
+      options: { channel?: unknown; role?: unknown; minutes?: number | null; afkChannelId?: string | null } = {}
+    ): ChatInputCommandInteraction {
+      const interaction = createMockInteraction(guildId, true, {
+        getSubcommandGroup: vi.fn().mockReturnValue(null),
+        getSubcommand: vi.fn().mockReturnValue('action'),
+        getString: vi.fn().mockReturnValue(type),
+        getChannel: vi.fn().mockReturnValue(options.channel ?? null),
+        getRole: vi.fn().mockReturnValue(options.role ?? null),
+        getInteger: vi.fn().mockReturnValue(options.minutes ?? null),
+      });
+
+      (interaction as any).guild = {
+        afkChannelId: options.afkChannelId ?? null,
+        members: {
+          me: { roles: { highest: { position: 10 } } },
+        },
+      };
+
+      return interaction;
+    }
+
+    beforeEach(() => {
+      vi.mocked(hasAFKAdminPermission).mockReturnValue(true);
+      vi.mocked(getMissingAFKActionPermissions).mockReturnValue([]);
+      vi.mocked(mockConfigService.updateConfig).mockResolvedValue();
+    });
+
+    it('should set the disconnect action', async () => {
+      const interaction = createActionInteraction('disconnect');
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { afkAction: 'disconnect' });
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'AFK action set to disconnect.',
+        ephemeral: true,
+      });
+    });
+
+    it('should set the move action with an explicit channel', async () => {
+      const interaction = createActionInteraction('move', { channel: { id: 'afk-voice-channel' } });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, {
+        afkAction: 'move',
+        afkMoveChannelId: 'afk-voice-channel',
+      });
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'AFK action set to move. Users will be moved to <#afk-voice-channel>.',
+        ephemeral: true,
+      });
+    });
+
+    it('should clear the move target to use the server AFK channel when no channel is given', async () => {
+      const interaction = createActionInteraction('move', { afkChannelId: 'server-afk-channel' });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, {
+        afkAction: 'move',
+        afkMoveChannelId: null,
+      });
+    });
+
+    it('should reject the move action when there is no channel to move to', async () => {
+      const interaction = createActionInteraction('move');
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).not.toHaveBeenCalled();
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'This server has no AFK channel. Pick a voice channel for the move action.',
+        ephemeral: true,
+      });
+    });
+
+    it('should store the timeout duration in seconds', async () => {
+      const interaction = createActionInteraction('timeout', { minutes: 15 });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, {
+        afkAction: 'timeout',
+        memberTimeoutSeconds: 900,
+      });
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'AFK action set to timeout. Users will be timed out for 15 minutes.',
+        ephemeral: true,
+      });
+    });
+
+    it('should require a role for the role action', async () => {
+      const interaction = createActionInteraction('role');
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).not.toHaveBeenCalled();
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'The role action requires a role.',
+        ephemeral: true,
+      });
+    });
+
+    it('should reject roles above the bot\'s highest role', async () => {
+      const interaction = createActionInteraction('role', {
+        role: { id: 'sleeping-role', name: 'Sleeping', position: 10 },
+      });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).not.toHaveBeenCalled();
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'Role Sleeping is above my highest role, so I cannot assign it.',
+        ephemeral: true,
+      });
+    });
+
+    it('should set the role action with an assignable role', async () => {
+      const interaction = createActionInteraction('role', {
+        role: { id: 'sleeping-role', name: 'Sleeping', position: 3 },
+      });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, {
+        afkAction: 'role',
+        afkRoleId: 'sleeping-role',
+      });
+    });
+
+    it('should reject actions the bot lacks permissions for', async () => {
+      vi.mocked(getMissingAFKActionPermissions).mockReturnValue(['MuteMembers', 'DeafenMembers']);
+      const interaction = createActionInteraction('mute');
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(getMissingAFKActionPermissions).toHaveBeenCalledWith((interaction as any).guild.members.me, 'mute');
+      expect(mockConfigService.updateConfig).not.toHaveBeenCalled();
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'I need the MuteMembers, DeafenMembers permission(s) to use the "mute" action.',
+        ephemeral: true,
+      });
+    });
+  });
+
   /**
    * EXEMPT SUBCOMMAND GROUP
    */
 
+  describe('mode subcommand', () => {
+    const guildId = 'mode-test-guild';
+
+    function createModeInteraction(mode: string): ChatInputCommandInteraction {
+      return createMockInteraction(guildId, true, {
+        getSubcommandGroup: vi.fn().mockReturnValue(null),
+        getSubcommand: vi.fn().mockReturnValue('mode'),
+        getString: vi.fn().mockReturnValue(mode),
+      });
+    }
+
+    beforeEach(() => {
+      vi.mocked(hasAFKAdminPermission).mockReturnValue(true);
+      vi.mocked(mockConfigService.updateConfig).mockResolvedValue();
+    });
+
+    it('should switch the guild to observe mode', async () => {
+      const interaction = createModeInteraction('observe');
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { mode: 'observe' });
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: expect.stringContaining('Enforcement mode set to observe.'),
+        ephemeral: true,
+      });
+    });
+
+    it('should switch the guild to warn-only mode', async () => {
+      const interaction = createModeInteraction('warn-only');
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { mode: 'warn-only' });
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: expect.stringContaining('AFK users will be warned, but the AFK action will only be recorded.'),
+        ephemeral: true,
+      });
+    });
+
+    it('should switch the guild back to enforce mode', async () => {
+      const interaction = createModeInteraction('enforce');
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { mode: 'enforce' });
+    });
+  });
+
+  describe('threshold subcommand', () => {
+    const guildId = 'threshold-test-guild';
+
+    function createThresholdInteraction(
+      minUsers: number,
+      booleans: Record<string, boolean | null> = {}
+    ): ChatInputCommandInteraction {
+      return createMockInteraction(guildId, true, {
+        getSubcommandGroup: vi.fn().mockReturnValue(null),
+        getSubcommand: vi.fn().mockReturnValue('threshold'),
+        getInteger: vi.fn().mockReturnValue(minUsers),
+        getBoolean: vi.fn((name: string) => booleans[name] ?? null),
+      });
+    }
+
+    beforeEach(() => {
+      vi.mocked(hasAFKAdminPermission).mockReturnValue(true);
+      vi.mocked(mockConfigService.updateConfig).mockResolvedValue();
+      vi.mocked(mockConfigService.getConfig).mockReturnValue(createMockGuildSettings({ guildId }));
+    });
+
+    it('should set the threshold and keep the counting rules when omitted', async () => {
+      const interaction = createThresholdInteraction(1);
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { minUsersForTracking: 1 });
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'AFK users are now tracked once a voice channel has 1 or more members. Deafened members count.',
+        ephemeral: true,
+      });
+    });
+
+    it('should update the counting rules when given', async () => {
+      const interaction = createThresholdInteraction(5, { 'count-deafened': false, 'count-bots': true });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, {
+        minUsersForTracking: 5,
+        countDeafenedUsers: false,
+        countBots: true,
+      });
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'AFK users are now tracked once a voice channel has 5 or more members and other bots. Deafened members do not count.',
+        ephemeral: true,
+      });
+    });
+  });
+
+  describe('countdown subcommand', () => {
+    const guildId = 'countdown-test-guild';
+
+    function createCountdownInteraction(points: string): ChatInputCommandInteraction {
+      return createMockInteraction(guildId, true, {
+        getSubcommandGroup: vi.fn().mockReturnValue(null),
+        getSubcommand: vi.fn().mockReturnValue('countdown'),
+        getString: vi.fn().mockReturnValue(points),
+      });
+    }
+
+    beforeEach(() => {
+      vi.mocked(hasAFKAdminPermission).mockReturnValue(true);
+      vi.mocked(mockConfigService.updateConfig).mockResolvedValue();
+      vi.mocked(mockConfigService.getConfig).mockReturnValue(
+        createMockGuildSettings({ guildId, warningSecondsBefore: 300 })
+      );
+    });
+
+    it('should store the points largest first', async () => {
+      const interaction = createCountdownInteraction('15s 1m');
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { warningStages: [60, 15] });
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'The AFK warning will be posted 300s before the AFK action and updated at 60s, 15s left.',
+        ephemeral: true,
+      });
+    });
+
+    it('should turn the countdown off', async () => {
+      await execute(createCountdownInteraction('off'), mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { warningStages: [] });
+    });
+
+    it('should reject points that are unreadable or not below the warning time', async () => {
+      const unreadable = createCountdownInteraction('1m soon');
+      const tooLate = createCountdownInteraction('5m 1m');
+
+      await execute(unreadable, mockConfigService, mockLogger);
+      await execute(tooLate, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).not.toHaveBeenCalled();
+      expect(unreadable.reply).toHaveBeenCalledWith({
+        content: 'Countdown points look like 1m, 30s or 1m30s, separated by spaces.',
+        ephemeral: true,
+      });
+      expect(tooLate.reply).toHaveBeenCalledWith({
+        content: 'Countdown points must be less than the warning time (300s).',
+        ephemeral: true,
+      });
+    });
+  });
+
+  describe('snooze-limit subcommand', () => {
+    const guildId = 'snooze-limit-test-guild';
+
+    function createSnoozeLimitInteraction(count: number): ChatInputCommandInteraction {
+      return createMockInteraction(guildId, true, {
+        getSubcommandGroup: vi.fn().mockReturnValue(null),
+        getSubcommand: vi.fn().mockReturnValue('snooze-limit'),
+        getInteger: vi.fn().mockReturnValue(count),
+      });
+    }
+
+    beforeEach(() => {
+      vi.mocked(hasAFKAdminPermission).mockReturnValue(true);
+      vi.mocked(mockConfigService.updateConfig).mockResolvedValue();
+    });
+
+    it('should set the daily snooze limit', async () => {
+      const interaction = createSnoozeLimitInteraction(5);
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { snoozeDailyLimit: 5 });
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'Members can now snooze their AFK timer 5 times per 24 hours.',
+        ephemeral: true,
+      });
+    });
+
+    it('should turn snoozing off at 0', async () => {
+      const interaction = createSnoozeLimitInteraction(0);
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { snoozeDailyLimit: 0 });
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'Members can no longer snooze their AFK timer.',
+        ephemeral: true,
+      });
+    });
+  });
+
+  describe('escalation subcommand group', () => {
+    const guildId = 'escalation-test-guild';
+
+    function createEscalationInteraction(
+      subcommand: string,
+      options: { strikes?: number; type?: string; minutes?: number | null; notify?: boolean | null; days?: number; channel?: unknown } = {}
+    ): ChatInputCommandInteraction {
+      const interaction = createMockInteraction(guildId, true, {
+        getSubcommandGroup: vi.fn().mockReturnValue('escalation'),
+        getSubcommand: vi.fn().mockReturnValue(subcommand),
+        getString: vi.fn().mockReturnValue(options.type ?? null),
+        getBoolean: vi.fn().mockReturnValue(options.notify ?? null),
+        getChannel: vi.fn().mockReturnValue(options.channel ?? null),
+        getInteger: vi.fn((name: string) => {
+          if (name === 'strikes') return options.strikes ?? null;
+          if (name === 'days') return options.days ?? null;
+          return options.minutes ?? null;
+        }),
+      });
+      (interaction as any).guild = { members: { me: {} } };
+      return interaction;
+    }
+
+    const existingSteps = [
+      { strikes: 3, action: 'timeout' as const, memberTimeoutSeconds: 600, notify: false },
+      { strikes: 5, action: 'disconnect' as const, memberTimeoutSeconds: null, notify: true },
+    ];
+
+    beforeEach(() => {
+      vi.mocked(hasAFKAdminPermission).mockReturnValue(true);
+      vi.mocked(getMissingAFKActionPermissions).mockReturnValue([]);
+      vi.mocked(mockConfigService.updateConfig).mockResolvedValue();
+      vi.mocked(mockConfigService.getConfig).mockReturnValue(
+        createMockGuildSettings({ guildId, escalationSteps: existingSteps })
+      );
+    });
+
+    it('should enable escalation', async () => {
+      const interaction = createEscalationInteraction('enable');
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { escalationEnabled: true });
+      expect(interaction.reply).toHaveBeenCalledWith({ content: 'AFK escalation has been enabled.', ephemeral: true });
+    });
+
+    it('should point out that enabling without steps changes nothing yet', async () => {
+      vi.mocked(mockConfigService.getConfig).mockReturnValue(createMockGuildSettings({ guildId }));
+      const interaction = createEscalationInteraction('enable');
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: expect.stringContaining('No steps are configured yet'),
+        ephemeral: true,
+      });
+    });
+
+    it('should add a step and keep the ladder sorted', async () => {
+      const interaction = createEscalationInteraction('step', { strikes: 1, type: 'disconnect' });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, {
+        escalationSteps: [
+          { strikes: 1, action: 'disconnect', memberTimeoutSeconds: null, notify: false },
+          ...existingSteps,
+        ],
+      });
+      expect(interaction.reply).toHaveBeenCalledWith({ content: 'Escalation step set: 1 strike: disconnect.', ephemeral: true });
+    });
+
+    it('should replace the step at the same strike count', async () => {
+      const interaction = createEscalationInteraction('step', { strikes: 3, type: 'timeout', minutes: 60, notify: true });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, {
+        escalationSteps: [
+          { strikes: 3, action: 'timeout', memberTimeoutSeconds: 3600, notify: true },
+          existingSteps[1],
+        ],
+      });
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'Escalation step set: 3 strikes: timeout for 60 minutes, notify moderators.',
+        ephemeral: true,
+      });
+    });
+
+    it('should refuse a step the bot lacks permission for', async () => {
+      vi.mocked(getMissingAFKActionPermissions).mockReturnValue(['ModerateMembers']);
+      const interaction = createEscalationInteraction('step', { strikes: 2, type: 'timeout' });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).not.toHaveBeenCalled();
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'I need the ModerateMembers permission(s) to use the "timeout" action.',
+        ephemeral: true,
+      });
+    });
+
+    it('should refuse a role step when no AFK role is configured', async () => {
+      const interaction = createEscalationInteraction('step', { strikes: 2, type: 'role' });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).not.toHaveBeenCalled();
+    });
+
+    it('should remove a step', async () => {
+      const interaction = createEscalationInteraction('remove-step', { strikes: 5 });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { escalationSteps: [existingSteps[0]] });
+    });
+
+    it('should report a missing step without saving', async () => {
+      const interaction = createEscalationInteraction('remove-step', { strikes: 4 });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).not.toHaveBeenCalled();
+      expect(interaction.reply).toHaveBeenCalledWith({ content: 'There is no escalation step for 4 strikes.', ephemeral: true });
+    });
+
+    it('should set the decay window in days', async () => {
+      const interaction = createEscalationInteraction('window', { days: 14 });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { escalationWindowSeconds: 14 * 86400 });
+    });
+
+    it('should set the moderator notice channel', async () => {
+      const interaction = createEscalationInteraction('notify-channel', { channel: { id: 'mod-channel' } });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { escalationNotifyChannelId: 'mod-channel' });
+    });
+
+    it('should show the ladder', async () => {
+      const interaction = createEscalationInteraction('show');
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: [
+          'Escalation is disabled. Strikes count for 7 days.',
+          'Below the first step: disconnect.',
+          '3 strikes: timeout for 10 minutes',
+          '5 strikes: disconnect, notify moderators',
+        ].join('\n'),
+        ephemeral: true,
+      });
+    });
+  });
+
+  describe('activity subcommand group', () => {
+    const guildId = 'activity-test-guild';
+
+    function createActivityInteraction(subcommand: string, options: { signal?: string; channel?: unknown } = {}) {
+      return createMockInteraction(guildId, true, {
+        getSubcommandGroup: vi.fn().mockReturnValue('activity'),
+        getSubcommand: vi.fn().mockReturnValue(subcommand),
+        getString: vi.fn().mockReturnValue(options.signal ?? null),
+        getChannel: vi.fn().mockReturnValue(options.channel ?? null),
+      });
+    }
+
+    beforeEach(() => {
+      vi.mocked(hasAFKAdminPermission).mockReturnValue(true);
+      vi.mocked(mockConfigService.updateConfig).mockResolvedValue();
+      vi.mocked(mockConfigService.getConfig).mockReturnValue(
+        createMockGuildSettings({ guildId, activitySignals: ['messages'], activityChannelIds: ['linked-1'] })
+      );
+    });
+
+    it('should enable a signal', async () => {
+      const interaction = createActivityInteraction('enable', { signal: 'video' });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { activitySignals: ['messages', 'video'] });
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'The video activity signal now resets AFK timers.',
+        ephemeral: true,
+      });
+    });
+
+    it('should not duplicate a signal that is already enabled', async () => {
+      const interaction = createActivityInteraction('enable', { signal: 'messages' });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { activitySignals: ['messages'] });
+    });
+
+    it('should disable a signal', async () => {
+      const interaction = createActivityInteraction('disable', { signal: 'messages' });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { activitySignals: [] });
+    });
+
+    it('should link and unlink text channels', async () => {
+      await execute(createActivityInteraction('link-channel', { channel: { id: 'linked-2' } }), mockConfigService, mockLogger);
+      await execute(createActivityInteraction('unlink-channel', { channel: { id: 'linked-1' } }), mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { activityChannelIds: ['linked-1', 'linked-2'] });
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { activityChannelIds: [] });
+    });
+
+    it('should not link a channel twice', async () => {
+      const interaction = createActivityInteraction('link-channel', { channel: { id: 'linked-1' } });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).not.toHaveBeenCalled();
+      expect(interaction.reply).toHaveBeenCalledWith({ content: '<#linked-1> is already linked.', ephemeral: true });
+    });
+
+    it('should show the counted signals and linked channels', async () => {
+      const interaction = createActivityInteraction('show');
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'Activity signals: Speaking, messages.\nLinked text channels: <#linked-1>.',
+        ephemeral: true,
+      });
+    });
+  });
+
+  describe('schedule subcommand group', () => {
+    const guildId = 'schedule-test-guild';
+    const existingWindow = { days: [1, 2, 3, 4, 5], start: '18:00', end: '23:00' };
+
+    function createScheduleInteraction(subcommand: string, options: Record<string, string | number> = {}) {
+      return createMockInteraction(guildId, true, {
+        getSubcommandGroup: vi.fn().mockReturnValue('schedule'),
+        getSubcommand: vi.fn().mockReturnValue(subcommand),
+        getString: vi.fn((name: string) => options[name] ?? null),
+        getInteger: vi.fn((name: string) => options[name] ?? null),
+      });
+    }
+
+    beforeEach(() => {
+      vi.mocked(hasAFKAdminPermission).mockReturnValue(true);
+      vi.mocked(mockConfigService.updateConfig).mockResolvedValue();
+      vi.mocked(mockConfigService.getConfig).mockReturnValue(
+        createMockGuildSettings({ guildId, scheduleTimeZone: 'Europe/Berlin', scheduleWindows: [existingWindow] })
+      );
+    });
+
+    it('should add a window for a day preset', async () => {
+      const interaction = createScheduleInteraction('add', { days: 'weekends', start: '22:00', end: '02:00' });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, {
+        scheduleWindows: [existingWindow, { days: [0, 6], start: '22:00', end: '02:00' }],
+      });
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'Schedule window added: Sunday, Saturday 22:00-02:00 (Europe/Berlin).',
+        ephemeral: true,
+      });
+    });
+
+    it('should reject times that are not HH:MM', async () => {
+      const interaction = createScheduleInteraction('add', { days: 'monday', start: '6pm', end: '23:00' });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).not.toHaveBeenCalled();
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'Times must be in 24 hour HH:MM format, e.g. 09:00 or 23:30.',
+        ephemeral: true,
+      });
+    });
+
+    it('should remove a window by its number', async () => {
+      const interaction = createScheduleInteraction('remove', { number: 1 });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { scheduleWindows: [] });
+    });
+
+    it('should report a window number that does not exist', async () => {
+      const interaction = createScheduleInteraction('remove', { number: 3 });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).not.toHaveBeenCalled();
+      expect(interaction.reply).toHaveBeenCalledWith({ content: 'There is no schedule window 3.', ephemeral: true });
+    });
+
+    it('should set a valid time zone and reject an unknown one', async () => {
+      await execute(createScheduleInteraction('timezone', { zone: 'America/New_York' }), mockConfigService, mockLogger);
+      const invalid = createScheduleInteraction('timezone', { zone: 'Moon/Base' });
+      await execute(invalid, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledTimes(1);
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { scheduleTimeZone: 'America/New_York' });
+      expect(invalid.reply).toHaveBeenCalledWith({
+        content: '"Moon/Base" is not a known time zone. Use an IANA name such as Europe/Berlin.',
+        ephemeral: true,
+      });
+    });
+
+    it('should switch to quiet hours', async () => {
+      await execute(createScheduleInteraction('type', { type: 'quiet' }), mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { scheduleType: 'quiet' });
+    });
+
+    it('should show the numbered windows', async () => {
+      const interaction = createScheduleInteraction('show');
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: expect.stringContaining('1. Monday, Tuesday, Wednesday, Thursday, Friday 18:00-23:00'),
+        ephemeral: true,
+      });
+    });
+  });
+
+  describe('messages subcommand group', () => {
+    const guildId = 'messages-test-guild';
+    const existingTemplates = { warningTitle: 'Hello?', warningColor: 0x00ff00 };
+
+    function createMessagesInteraction(subcommand: string, options: Record<string, string | boolean> = {}) {
+      const interaction = createMockInteraction(guildId, true, {
+        getSubcommandGroup: vi.fn().mockReturnValue('messages'),
+        getSubcommand: vi.fn().mockReturnValue(subcommand),
+        getString: vi.fn((name: string) => options[name] ?? null),
+        getBoolean: vi.fn((name: string) => options[name] ?? null),
+      });
+      return Object.assign(interaction, { guild: { name: 'Messages Guild', preferredLocale: 'es-ES' } });
+    }
+
+    beforeEach(() => {
+      vi.mocked(hasAFKAdminPermission).mockReturnValue(true);
+      vi.mocked(mockConfigService.updateConfig).mockResolvedValue();
+      vi.mocked(mockConfigService.getConfig).mockReturnValue(
+        createMockGuildSettings({ guildId, messageTemplates: existingTemplates })
+      );
+    });
+
+    it('should set one template and keep the others', async () => {
+      const interaction = createMessagesInteraction('set', { message: 'kickDm', text: ' See you, {user}! ' });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, {
+        messageTemplates: { ...existingTemplates, kickDm: 'See you, {user}!' },
+      });
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'DM sent after the AFK action updated. Use `/afk-config messages preview` to see it.',
+        ephemeral: true,
+      });
+    });
+
+    it('should reject a template longer than its limit', async () => {
+      const interaction = createMessagesInteraction('set', { message: 'warningTitle', text: 'x'.repeat(201) });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).not.toHaveBeenCalled();
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'That message must be between 1 and 200 characters.',
+        ephemeral: true,
+      });
+    });
+
+    it('should set the warning color from a hex value and reject anything else', async () => {
+      await execute(createMessagesInteraction('color', { hex: '#3366ff' }), mockConfigService, mockLogger);
+      const invalid = createMessagesInteraction('color', { hex: 'orange' });
+      await execute(invalid, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledTimes(1);
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, {
+        messageTemplates: { ...existingTemplates, warningColor: 0x3366ff },
+      });
+      expect(invalid.reply).toHaveBeenCalledWith({ content: 'Colors are six hex digits, e.g. #FF9900.', ephemeral: true });
+    });
+
+    it('should reset one template or all of them', async () => {
+      await execute(createMessagesInteraction('reset', { message: 'warningColor' }), mockConfigService, mockLogger);
+      await execute(createMessagesInteraction('reset', { message: 'all' }), mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenNthCalledWith(1, guildId, { messageTemplates: { warningTitle: 'Hello?' } });
+      expect(mockConfigService.updateConfig).toHaveBeenNthCalledWith(2, guildId, { messageTemplates: {} });
+    });
+
+    it("should pick a language or go back to the server's", async () => {
+      const german = createMessagesInteraction('language', { language: 'de' });
+      await execute(german, mockConfigService, mockLogger);
+      await execute(createMessagesInteraction('language', { language: 'auto' }), mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenNthCalledWith(1, guildId, { messageLocale: 'de' });
+      expect(mockConfigService.updateConfig).toHaveBeenNthCalledWith(2, guildId, { messageLocale: null });
+      expect(german.reply).toHaveBeenCalledWith({ content: 'Built-in messages are now in Deutsch.', ephemeral: true });
+    });
+
+    it('should turn the DM on', async () => {
+      const interaction = createMessagesInteraction('dm', { enabled: true });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { kickDmEnabled: true });
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'Members will get a DM after the AFK action is applied to them.',
+        ephemeral: true,
+      });
+    });
+
+    it('should choose where warnings are sent', async () => {
+      const interaction = createMessagesInteraction('delivery', { mode: 'dm' });
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { warningDelivery: 'dm' });
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'Warnings are now sent by DM, falling back to the warning channel when DMs are closed.',
+        ephemeral: true,
+      });
+    });
+
+    it("should preview the messages in the server's language", async () => {
+      const interaction = createMessagesInteraction('preview');
+
+      await execute(interaction, mockConfigService, mockLogger);
+
+      const reply = vi.mocked(interaction.reply).mock.calls[0]?.[0] as { embeds: Array<{ data: Record<string, any> }> };
+      expect(reply.embeds[0]?.data).toMatchObject({
+        title: 'Hello?',
+        color: 0x00ff00,
+        description: '<@mock-user-id>, serás desconectado de #voice-channel en 60 segundos por inactividad.',
+        footer: { text: 'Built-in language: Español' },
+      });
+      expect(reply.embeds[0]?.data['fields']).toEqual([
+        { name: 'Audit log reason', value: 'Tiempo de inactividad agotado' },
+        {
+          name: 'DM after the AFK action (off)',
+          value: 'Se te marcó como AFK en #voice-channel de Messages Guild tras 5 minutos sin actividad.',
+        },
+      ]);
+    });
+  });
+
+  describe('chime subcommand group', () => {
+    const guildId = '123456789012345678';
+    const chime = readFileSync(BUNDLED_CHIME_PATH);
+    let mockChimeStore: ChimeStore;
+    let services: CommandServices;
+
+    function createChimeInteraction(subcommand: string, options: { enabled?: boolean; file?: { url: string; size: number } } = {}) {
+      const interaction = createMockInteraction(guildId, true, {
+        getSubcommandGroup: vi.fn().mockReturnValue('chime'),
+        getSubcommand: vi.fn().mockReturnValue(subcommand),
+        getBoolean: vi.fn().mockReturnValue(options.enabled ?? null),
+        getAttachment: vi.fn().mockReturnValue(options.file ?? null),
+      });
+      return Object.assign(interaction, { deferReply: vi.fn(), editReply: vi.fn() });
+    }
+
+    beforeEach(() => {
+      vi.mocked(hasAFKAdminPermission).mockReturnValue(true);
+      vi.mocked(mockConfigService.updateConfig).mockResolvedValue();
+      vi.mocked(mockConfigService.getConfig).mockReturnValue(createMockGuildSettings({ guildId, warningChimeEnabled: true }));
+      mockChimeStore = {
+        save: vi.fn().mockResolvedValue(undefined),
+        remove: vi.fn().mockResolvedValue(true),
+      } as unknown as ChimeStore;
+      services = { eventRepository: {} as AFKEventRepository, exemptionService: {} as ExemptionService, chimeStore: mockChimeStore };
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should turn the chime on', async () => {
+      const interaction = createChimeInteraction('enable', { enabled: true });
+
+      await execute(interaction, mockConfigService, mockLogger, services);
+
+      expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { warningChimeEnabled: true });
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'A chime will now play in the voice channel when the AFK warning is posted.',
+        ephemeral: true,
+      });
+    });
+
+    it('should download and store an uploaded chime', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response(chime));
+      vi.stubGlobal('fetch', fetchMock);
+      const interaction = createChimeInteraction('upload', { file: { url: 'https://cdn.example/chime.ogg', size: chime.length } });
+
+      await execute(interaction, mockConfigService, mockLogger, services);
+
+      expect(interaction.deferReply).toHaveBeenCalledWith({ ephemeral: true });
+      expect(fetchMock).toHaveBeenCalledWith('https://cdn.example/chime.ogg');
+      expect(mockChimeStore.save).toHaveBeenCalledWith(guildId, chime);
+      expect(interaction.editReply).toHaveBeenCalledWith({ content: 'Chime uploaded. It will play with the next AFK warning.' });
+    });
+
+    it('should refuse files that are not Ogg Opus', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('ID3 pretend this is an mp3')));
+      const interaction = createChimeInteraction('upload', { file: { url: 'https://cdn.example/chime.mp3', size: 26 } });
+
+      await execute(interaction, mockConfigService, mockLogger, services);
+
+      expect(mockChimeStore.save).not.toHaveBeenCalled();
+      expect(interaction.editReply).toHaveBeenCalledWith({
+        content: 'Chime must be an Ogg Opus file (.ogg or .opus); other formats would need FFmpeg to play.',
+      });
+    });
+
+    it('should refuse oversized files without downloading them', async () => {
+      const fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+      const interaction = createChimeInteraction('upload', { file: { url: 'https://cdn.example/long.ogg', size: 600 * 1024 } });
+
+      await execute(interaction, mockConfigService, mockLogger, services);
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(interaction.reply).toHaveBeenCalledWith({ content: 'Chimes can be at most 512 KB.', ephemeral: true });
+    });
+
+    it('should report a failed download', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(null, { status: 404 })));
+      const interaction = createChimeInteraction('upload', { file: { url: 'https://cdn.example/gone.ogg', size: 100 } });
+
+      await execute(interaction, mockConfigService, mockLogger, services);
+
+      expect(mockChimeStore.save).not.toHaveBeenCalled();
+      expect(interaction.editReply).toHaveBeenCalledWith({ content: 'Could not download the file: HTTP 404' });
+    });
+
+    it('should go back to the built-in chime', async () => {
+      const interaction = createChimeInteraction('reset');
+
+      await execute(interaction, mockConfigService, mockLogger, services);
+
+      expect(mockChimeStore.remove).toHaveBeenCalledWith(guildId);
+      expect(interaction.reply).toHaveBeenCalledWith({ content: 'The built-in chime will play again.', ephemeral: true });
+    });
+  });
+
   describe('exempt subcommand group', () => {
     describe('exempt add', () => {
       it('should add role with narrowed guildId', async () => {
@@ -652,6 +1782,74 @@ describe('afk-config command', () => {
       });
     });
 
+    describe('exempt add-channel and remove-channel', () => {
+      const guildId = 'exempt-channel-guild';
+
+      function createChannelInteraction(subcommand: string, channelId: string): ChatInputCommandInteraction {
+        return createMockInteraction(guildId, true, {
+          getSubcommandGroup: vi.fn().mockReturnValue('exempt'),
+          getSubcommand: vi.fn().mockReturnValue(subcommand),
+          getChannel: vi.fn().mockReturnValue({ id: channelId }),
+        });
+      }
+
+      beforeEach(() => {
+        vi.mocked(hasAFKAdminPermission).mockReturnValue(true);
+        vi.mocked(mockConfigService.updateConfig).mockResolvedValue();
+        vi.mocked(mockConfigService.getConfig).mockReturnValue(
+          createMockGuildSettings({ guildId, exemptChannelIds: ['music'] })
+        );
+      });
+
+      it('should exempt a voice channel', async () => {
+        const interaction = createChannelInteraction('add-channel', 'lounge');
+
+        await execute(interaction, mockConfigService, mockLogger);
+
+        expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { exemptChannelIds: ['music', 'lounge'] });
+        expect(interaction.reply).toHaveBeenCalledWith({
+          content: 'Members in <#lounge> are no longer tracked for AFK.',
+          ephemeral: true,
+        });
+      });
+
+      it('should reject a channel that is already exempt', async () => {
+        const interaction = createChannelInteraction('add-channel', 'music');
+
+        await execute(interaction, mockConfigService, mockLogger);
+
+        expect(mockConfigService.updateConfig).not.toHaveBeenCalled();
+        expect(interaction.reply).toHaveBeenCalledWith({
+          content: '<#music> is already exempt from AFK handling.',
+          ephemeral: true,
+        });
+      });
+
+      it('should remove a channel from the exemptions', async () => {
+        const interaction = createChannelInteraction('remove-channel', 'music');
+
+        await execute(interaction, mockConfigService, mockLogger);
+
+        expect(mockConfigService.updateConfig).toHaveBeenCalledWith(guildId, { exemptChannelIds: [] });
+        expect(interaction.reply).toHaveBeenCalledWith({
+          content: '<#music> has been removed from AFK channel exemptions.',
+          ephemeral: true,
+        });
+      });
+
+      it('should reject removing a channel that is not exempt', async () => {
+        const interaction = createChannelInteraction('remove-channel', 'lounge');
+
+        await execute(interaction, mockConfigService, mockLogger);
+
+        expect(mockConfigService.updateConfig).not.toHaveBeenCalled();
+        expect(interaction.reply).toHaveBeenCalledWith({
+          content: '<#lounge> is not in the exempt list.',
+          ephemeral: true,
+        });
+      });
+    });
+
     describe('exempt remove', () => {
       it('should remove role with narrowed guildId', async () => {
         const guildId = 'exempt-remove-guild';
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { ChatInputCommandInteraction } from 'discord.js';
+import { execute } from '../handlers/commands/afk-exempt';
+import { GuildConfigService } from '../services/GuildConfigService';
+import type { AFKEventRepository } from '../database/repositories/AFKEventRepository';
+import type { AFKExemption } from '../database/repositories/AFKExemptionRepository';
+import type { ExemptionService } from '../services/ExemptionService';
+import type { CommandServices } from '../handlers/commands';
+import { hasAFKAdminPermission } from '../utils/permissions';
+import { createMockLogger } from './fixtures';
+
+vi.mock('../utils/permissions');
+
+describe('afk-exempt command', () => {
+  const guildId = '123456789012345678';
+  const memberId = '234567890123456789';
+  const moderatorId = '345678901234567890';
+
+  let mockConfigService: GuildConfigService;
+  let mockExemptionService: ExemptionService;
+  let services: CommandServices;
+  let mockLogger: ReturnType<typeof createMockLogger>;
+
+  const exemption: AFKExemption = {
+    id: 3,
+    guildId,
+    userId: memberId,
+    source: 'moderator',
+    reason: 'Streaming tonight',
+    grantedBy: moderatorId,
+    expiresAt: 1_700_010_800_000,
+    createdAt: 1_700_000_000_000,
+  };
+
+  function createMockInteraction(
+    subcommand: string,
+    options: { duration?: string; reason?: string | null } = {}
+  ): ChatInputCommandInteraction {
+    return {
+      guildId,
+      user: { id: moderatorId },
+      options: {
+        getSubcommand: vi.fn().mockReturnValue(subcommand),
+        getUser: vi.fn().mockReturnValue({ id: memberId }),
+        getString: vi.fn((name: string) => (name === 'duration' ? options.duration ?? null : options.reason ?? null)),
+      },
+      reply: vi.fn(),
+    } as unknown as ChatInputCommandInteraction;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockConfigService = { getConfig: vi.fn() } as unknown as GuildConfigService;
+    mockExemptionService = {
+      grant: vi.fn().mockResolvedValue(exemption),
+      revoke: vi.fn().mockResolvedValue(0),
+      getActiveExemptions: vi.fn().mockReturnValue([]),
+    } as unknown as ExemptionService;
+    services = { eventRepository: {} as AFKEventRepository, exemptionService: mockExemptionService };
+    mockLogger = createMockLogger();
+
+    vi.mocked(hasAFKAdminPermission).mockReturnValue(true);
+  });
+
+  it('should reject members without admin permission', async () => {
+    vi.mocked(hasAFKAdminPermission).mockReturnValue(false);
+    const interaction = createMockInteraction('add', { duration: '3h' });
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    expect(interaction.reply).toHaveBeenCalledWith(
+      expect.objectContaining({ content: expect.stringContaining('You do not have permission'), ephemeral: true })
+    );
+    expect(mockExemptionService.grant).not.toHaveBeenCalled();
+  });
+
+  describe('add', () => {
+    it('should grant a moderator exemption', async () => {
+      const interaction = createMockInteraction('add', { duration: '3h', reason: 'Streaming tonight' });
+
+      await execute(interaction, mockConfigService, mockLogger as any, services);
+
+      expect(mockExemptionService.grant).toHaveBeenCalledWith({
+        guildId,
+        userId: memberId,
+        durationSeconds: 10800,
+        source: 'moderator',
+        reason: 'Streaming tonight',
+        grantedBy: moderatorId,
+      });
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: `<@${memberId}> is exempt from AFK handling until <t:1700010800:f> (<t:1700010800:R>).`,
+        ephemeral: true,
+      });
+    });
+
+    it.each(['forever', '31d'])('should reject a duration of %s', async (duration) => {
+      const interaction = createMockInteraction('add', { duration });
+
+      await execute(interaction, mockConfigService, mockLogger as any, services);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'Durations look like 30m, 3h, 2d or 1h30m, up to 30 days.',
+        ephemeral: true,
+      });
+      expect(mockExemptionService.grant).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('should end the member\'s exemptions', async () => {
+      vi.mocked(mockExemptionService.revoke).mockResolvedValue(2);
+      const interaction = createMockInteraction('remove');
+
+      await execute(interaction, mockConfigService, mockLogger as any, services);
+
+      expect(mockExemptionService.revoke).toHaveBeenCalledWith(guildId, memberId);
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: `Ended 2 exemptions for <@${memberId}>.`,
+        ephemeral: true,
+      });
+    });
+
+    it('should say so when the member has none', async () => {
+      const interaction = createMockInteraction('remove');
+
+      await execute(interaction, mockConfigService, mockLogger as any, services);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: `<@${memberId}> has no active exemptions.`,
+        ephemeral: true,
+      });
+    });
+  });
+
+  describe('list', () => {
+    it('should list active exemptions with who granted them', async () => {
+      vi.mocked(mockExemptionService.getActiveExemptions).mockReturnValue([
+        exemption,
+        { ...exemption, id: 4, source: 'snooze', reason: null, grantedBy: memberId, expiresAt: 1_700_001_800_000 },
+      ]);
+      const interaction = createMockInteraction('list');
+
+      await execute(interaction, mockConfigService, mockLogger as any, services);
+
+      const reply = vi.mocked(interaction.reply).mock.calls[0]?.[0] as any;
+      const embed = reply.embeds[0].toJSON();
+      expect(embed.title).toBe('Active AFK Exemptions');
+      expect(embed.description).toBe(
+        `<@${memberId}> until <t:1700010800:R> (moderator by <@${moderatorId}>) - Streaming tonight\n` +
+        `<@${memberId}> until <t:1700001800:R> (snooze)`
+      );
+    });
+
+    it('should say so when nothing is active', async () => {
+      const interaction = createMockInteraction('list');
+
+      await execute(interaction, mockConfigService, mockLogger as any, services);
+
+      const reply = vi.mocked(interaction.reply).mock.calls[0]?.[0] as any;
+      expect(reply.embeds[0].toJSON().description).toBe('No active exemptions.');
+    });
+  });
+
+  it('should report errors', async () => {
+    vi.mocked(mockExemptionService.revoke).mockRejectedValue(new Error('database is locked'));
+    const interaction = createMockInteraction('remove');
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    expect(mockLogger.error).toHaveBeenCalled();
+    expect(interaction.reply).toHaveBeenCalledWith({
+      content: 'Error: database is locked',
+      ephemeral: true,
+    });
+  });
+});
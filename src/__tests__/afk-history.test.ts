@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { ChatInputCommandInteraction } from 'discord.js';
+import { execute } from '../handlers/commands/afk-history';
+import { GuildConfigService } from '../services/GuildConfigService';
+import type { AFKEvent, AFKEventRepository } from '../database/repositories/AFKEventRepository';
+import type { CommandServices } from '../handlers/commands';
+import type { ExemptionService } from '../services/ExemptionService';
+import { hasAFKAdminPermission } from '../utils/permissions';
+import { createMockLogger } from './fixtures';
+
+vi.mock('../utils/permissions');
+
+describe('afk-history command', () => {
+  const guildId = '123456789012345678';
+
+  let mockConfigService: GuildConfigService;
+  let mockEventRepository: AFKEventRepository;
+  let services: CommandServices;
+  let mockLogger: ReturnType<typeof createMockLogger>;
+
+  const event: AFKEvent = {
+    id: 1,
+    guildId,
+    userId: 'user-1',
+    channelId: 'voice-1',
+    action: 'kick',
+    reason: 'disconnect',
+    configSnapshot: null,
+    correlationId: 'abcd1234',
+    createdAt: 1_700_000_000_000,
+  };
+
+  function createMockInteraction(
+    interactionGuildId: string | null,
+    options: { user?: { id: string } | null; action?: string | null; limit?: number | null } = {}
+  ): ChatInputCommandInteraction {
+    return {
+      guildId: interactionGuildId,
+      user: { id: 'admin-1' },
+      options: {
+        getUser: vi.fn().mockReturnValue(options.user ?? null),
+        getString: vi.fn().mockReturnValue(options.action ?? null),
+        getInteger: vi.fn().mockReturnValue(options.limit ?? null),
+      },
+      reply: vi.fn(),
+    } as unknown as ChatInputCommandInteraction;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockConfigService = { getConfig: vi.fn() } as unknown as GuildConfigService;
+    mockEventRepository = {
+      insert: vi.fn(),
+      find: vi.fn().mockReturnValue({ events: [event], total: 7 }),
+    } as unknown as AFKEventRepository;
+    services = { eventRepository: mockEventRepository, exemptionService: {} as ExemptionService };
+    mockLogger = createMockLogger();
+
+    vi.mocked(hasAFKAdminPermission).mockReturnValue(true);
+  });
+
+  it('should reject use outside a server', async () => {
+    const interaction = createMockInteraction(null);
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    expect(interaction.reply).toHaveBeenCalledWith({
+      content: 'This command can only be used in a server.',
+      ephemeral: true,
+    });
+    expect(mockEventRepository.find).not.toHaveBeenCalled();
+  });
+
+  it('should reject members without admin permission', async () => {
+    vi.mocked(hasAFKAdminPermission).mockReturnValue(false);
+    const interaction = createMockInteraction(guildId);
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    expect(interaction.reply).toHaveBeenCalledWith(
+      expect.objectContaining({ content: expect.stringContaining('You do not have permission'), ephemeral: true })
+    );
+    expect(mockEventRepository.find).not.toHaveBeenCalled();
+  });
+
+  it('should show the latest ten events by default', async () => {
+    const interaction = createMockInteraction(guildId);
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    expect(mockEventRepository.find).toHaveBeenCalledWith({
+      guildId,
+      userId: undefined,
+      actions: undefined,
+      limit: 10,
+      offset: 0,
+    });
+
+    const reply = vi.mocked(interaction.reply).mock.calls[0]?.[0] as any;
+    expect(reply.ephemeral).toBe(true);
+    const embed = reply.embeds[0].toJSON();
+    expect(embed.description).toBe('<t:1700000000:f> **kick** <@user-1> in <#voice-1> — disconnect');
+    expect(embed.footer.text).toBe('Showing 1 of 7 events');
+  });
+
+  it('should pass user, action and limit filters through', async () => {
+    const interaction = createMockInteraction(guildId, { user: { id: 'user-9' }, action: 'warning', limit: 5 });
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    expect(mockEventRepository.find).toHaveBeenCalledWith({
+      guildId,
+      userId: 'user-9',
+      actions: ['warning'],
+      limit: 5,
+      offset: 0,
+    });
+  });
+
+  it('should say so when nothing matches', async () => {
+    vi.mocked(mockEventRepository.find).mockReturnValue({ events: [], total: 0 });
+    const interaction = createMockInteraction(guildId);
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    const reply = vi.mocked(interaction.reply).mock.calls[0]?.[0] as any;
+    expect(reply.embeds[0].toJSON().description).toBe('No matching events recorded.');
+  });
+
+  it('should report query errors to the user', async () => {
+    vi.mocked(mockEventRepository.find).mockImplementation(() => {
+      throw new Error('database is locked');
+    });
+    const interaction = createMockInteraction(guildId);
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    expect(interaction.reply).toHaveBeenCalledWith({
+      content: 'Error retrieving AFK history: database is locked',
+      ephemeral: true,
+    });
+    expect(mockLogger.error).toHaveBeenCalled();
+  });
+});
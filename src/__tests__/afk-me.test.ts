@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { ChatInputCommandInteraction } from 'discord.js';
+import { execute } from '../handlers/commands/afk-me';
+import { GuildConfigService } from '../services/GuildConfigService';
+import type { AFKDetectionService, TrackedUser } from '../services/AFKDetectionService';
+import type { ExemptionService } from '../services/ExemptionService';
+import type { AFKEventRepository } from '../database/repositories/AFKEventRepository';
+import type { VoiceActivityRepository } from '../database/repositories/VoiceActivityRepository';
+import type { AFKExemption } from '../database/repositories/AFKExemptionRepository';
+import type { CommandServices } from '../handlers/commands';
+import type { ChimeStore } from '../voice/ChimeStore';
+import type { VoiceConnectionManager } from '../voice/VoiceConnectionManager';
+import { createMockGuildSettings, createMockLogger } from './fixtures';
+
+describe('afk-me command', () => {
+  const guildId = '123456789012345678';
+  const userId = 'member-1';
+  const now = Date.UTC(2026, 2, 10, 15);
+
+  let mockConfigService: GuildConfigService;
+  let mockAfkDetectionService: AFKDetectionService;
+  let mockExemptionService: ExemptionService;
+  let services: CommandServices;
+  let mockLogger: ReturnType<typeof createMockLogger>;
+
+  const tracked: TrackedUser = {
+    guildId,
+    userId,
+    channelId: 'voice-1',
+    warned: false,
+    startedAt: now - 60_000,
+    warningAt: now + 180_000,
+    kickAt: now + 240_000,
+  };
+
+  function createMockInteraction(
+    interactionGuildId: string | null,
+    options: { channel?: { id: string; parentId: string | null } | null; roleIds?: string[] } = {}
+  ): ChatInputCommandInteraction {
+    const member = {
+      id: userId,
+      voice: { channel: options.channel ?? null },
+      roles: { cache: new Map((options.roleIds ?? []).map(roleId => [roleId, { id: roleId }])) },
+    };
+    return {
+      guildId: interactionGuildId,
+      guild: { afkChannelId: 'afk-voice', members: { cache: new Map([[userId, member]]) } },
+      user: { id: userId },
+      reply: vi.fn(),
+    } as unknown as ChatInputCommandInteraction;
+  }
+
+  function repliedEmbed(interaction: ChatInputCommandInteraction): any {
+    const reply = vi.mocked(interaction.reply).mock.calls[0]?.[0] as any;
+    expect(reply.ephemeral).toBe(true);
+    return reply.embeds[0].toJSON();
+  }
+
+  function field(embed: any, name: string): string | undefined {
+    return embed.fields.find((embedField: { name: string }) => embedField.name === name)?.value;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+
+    const config = createMockGuildSettings({ guildId, enabled: true, exemptRoleIds: ['role-vip'] });
+    mockConfigService = {
+      getConfig: vi.fn().mockReturnValue(config),
+      getEffectiveConfig: vi.fn().mockReturnValue(config),
+    } as unknown as GuildConfigService;
+    mockAfkDetectionService = {
+      getTrackedUser: vi.fn().mockReturnValue(null),
+    } as unknown as AFKDetectionService;
+    mockExemptionService = {
+      getActiveExemptions: vi.fn().mockReturnValue([]),
+    } as unknown as ExemptionService;
+    services = {
+      eventRepository: {} as AFKEventRepository,
+      exemptionService: mockExemptionService,
+      chimeStore: {} as ChimeStore,
+      voiceActivityRepository: {} as VoiceActivityRepository,
+      afkDetectionService: mockAfkDetectionService,
+      voiceConnectionManager: {} as VoiceConnectionManager,
+    };
+    mockLogger = createMockLogger();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should reject use outside a server', async () => {
+    const interaction = createMockInteraction(null);
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    expect(interaction.reply).toHaveBeenCalledWith({
+      content: 'This command can only be used in a server.',
+      ephemeral: true,
+    });
+  });
+
+  it('should show the time left until the warning and the AFK action', async () => {
+    vi.mocked(mockAfkDetectionService.getTrackedUser).mockReturnValue(tracked);
+    const interaction = createMockInteraction(guildId, { channel: { id: 'voice-1', parentId: 'category-1' } });
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    expect(mockAfkDetectionService.getTrackedUser).toHaveBeenCalledWith(guildId, userId);
+    expect(mockConfigService.getEffectiveConfig).toHaveBeenCalledWith(guildId, 'voice-1', 'category-1');
+
+    const embed = repliedEmbed(interaction);
+    expect(embed.description).toContain('Your AFK timer is running in <#voice-1>');
+    expect(field(embed, 'Warning')).toBe(`in 180s (<t:${(now + 180_000) / 1000}:R>)`);
+    expect(field(embed, 'AFK Action')).toBe(`in 240s (<t:${(now + 240_000) / 1000}:R>)`);
+    expect(field(embed, 'Exemptions')).toBe('None');
+    expect(field(embed, 'Settings for This Channel')).toBe([
+      'Timeout: 5m',
+      'Warning: 1m before',
+      'Action: Disconnect',
+      'Mode: enforce',
+      'Tracking starts with 2 or more members in the channel',
+    ].join('\n'));
+  });
+
+  it('should show a sent warning and mark actions that are not applied', async () => {
+    vi.mocked(mockAfkDetectionService.getTrackedUser).mockReturnValue({ ...tracked, warned: true });
+    vi.mocked(mockConfigService.getEffectiveConfig).mockReturnValue(
+      createMockGuildSettings({ guildId, enabled: true, mode: 'observe' })
+    );
+    const interaction = createMockInteraction(guildId, { channel: { id: 'voice-1', parentId: null } });
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    const embed = repliedEmbed(interaction);
+    expect(field(embed, 'Warning')).toBe('Sent');
+    expect(field(embed, 'AFK Action (not applied)')).toBeDefined();
+  });
+
+  it('should list the exemptions that apply to the member', async () => {
+    const exemptions: AFKExemption[] = [
+      { id: 1, guildId, userId, source: 'snooze', reason: null, grantedBy: userId, expiresAt: now + 1_800_000, createdAt: now },
+      { id: 2, guildId, userId: 'someone-else', source: 'moderator', reason: null, grantedBy: 'mod-1', expiresAt: now + 60_000, createdAt: now },
+    ];
+    vi.mocked(mockExemptionService.getActiveExemptions).mockReturnValue(exemptions);
+    const interaction = createMockInteraction(guildId, { channel: { id: 'afk-voice', parentId: null }, roleIds: ['role-vip'] });
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    const embed = repliedEmbed(interaction);
+    expect(embed.description).toBe('You are not being tracked in <#afk-voice>.');
+    expect(field(embed, 'Warning')).toBeUndefined();
+    expect(field(embed, 'Exemptions')).toBe([
+      'This channel is exempt',
+      'Exempt role <@&role-vip>',
+      `Snoozed until <t:${(now + 1_800_000) / 1000}:f>`,
+    ].join('\n'));
+  });
+
+  it('should show the server settings when the member is not in voice', async () => {
+    vi.mocked(mockConfigService.getConfig).mockReturnValue(createMockGuildSettings({ guildId, enabled: false }));
+    const interaction = createMockInteraction(guildId);
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    expect(mockConfigService.getEffectiveConfig).not.toHaveBeenCalled();
+    const embed = repliedEmbed(interaction);
+    expect(embed.description).toBe('You are not in a voice channel, so you are not being tracked.');
+    expect(field(embed, 'Exemptions')).toBe('AFK detection is off in this server');
+    expect(field(embed, 'Server Settings')).toBeDefined();
+  });
+
+  it('should report errors to the member', async () => {
+    vi.mocked(mockExemptionService.getActiveExemptions).mockImplementation(() => {
+      throw new Error('database is locked');
+    });
+    const interaction = createMockInteraction(guildId);
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    expect(interaction.reply).toHaveBeenCalledWith({
+      content: 'Error retrieving your AFK status: database is locked',
+      ephemeral: true,
+    });
+    expect(mockLogger.error).toHaveBeenCalled();
+  });
+});
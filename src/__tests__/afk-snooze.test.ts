@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { ChatInputCommandInteraction } from 'discord.js';
+import { execute } from '../handlers/commands/afk-snooze';
+import { GuildConfigService } from '../services/GuildConfigService';
+import type { AFKEventRepository } from '../database/repositories/AFKEventRepository';
+import type { ExemptionService } from '../services/ExemptionService';
+import type { CommandServices } from '../handlers/commands';
+import { createMockLogger } from './fixtures';
+
+describe('afk-snooze command', () => {
+  const guildId = '123456789012345678';
+  const userId = '234567890123456789';
+
+  let mockConfigService: GuildConfigService;
+  let mockExemptionService: ExemptionService;
+  let services: CommandServices;
+  let mockLogger: ReturnType<typeof createMockLogger>;
+
+  function createMockInteraction(interactionGuildId: string | null, duration: string): ChatInputCommandInteraction {
+    return {
+      guildId: interactionGuildId,
+      user: { id: userId },
+      options: {
+        getString: vi.fn().mockReturnValue(duration),
+      },
+      reply: vi.fn(),
+    } as unknown as ChatInputCommandInteraction;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockConfigService = { getConfig: vi.fn() } as unknown as GuildConfigService;
+    mockExemptionService = { snooze: vi.fn() } as unknown as ExemptionService;
+    services = { eventRepository: {} as AFKEventRepository, exemptionService: mockExemptionService };
+    mockLogger = createMockLogger();
+  });
+
+  it('should reject use outside a server', async () => {
+    const interaction = createMockInteraction(null, '30m');
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    expect(interaction.reply).toHaveBeenCalledWith({
+      content: 'This command can only be used in a server.',
+      ephemeral: true,
+    });
+    expect(mockExemptionService.snooze).not.toHaveBeenCalled();
+  });
+
+  it.each(['soon', '30s', '3h'])('should reject a duration of %s', async (duration) => {
+    const interaction = createMockInteraction(guildId, duration);
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    expect(interaction.reply).toHaveBeenCalledWith({
+      content: 'Snooze for between 1 minute and 2 hours, e.g. 30m, 90m or 1h30m.',
+      ephemeral: true,
+    });
+    expect(mockExemptionService.snooze).not.toHaveBeenCalled();
+  });
+
+  it('should snooze the timer and say how many snoozes are left', async () => {
+    vi.mocked(mockExemptionService.snooze).mockResolvedValue({
+      status: 'snoozed',
+      exemption: {
+        id: 1,
+        guildId,
+        userId,
+        source: 'snooze',
+        reason: null,
+        grantedBy: userId,
+        expiresAt: 1_700_001_800_000,
+        createdAt: 1_700_000_000_000,
+      },
+      remaining: 2,
+    });
+    const interaction = createMockInteraction(guildId, '30m');
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    expect(mockExemptionService.snooze).toHaveBeenCalledWith(guildId, userId, 1800);
+    expect(interaction.reply).toHaveBeenCalledWith({
+      content: 'Your AFK timer is snoozed until <t:1700001800:t> (<t:1700001800:R>). Snoozes left in the next 24 hours: 2.',
+      ephemeral: true,
+    });
+  });
+
+  it('should explain when the daily limit is reached', async () => {
+    vi.mocked(mockExemptionService.snooze).mockResolvedValue({ status: 'limit_reached', limit: 3 });
+    const interaction = createMockInteraction(guildId, '1h');
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    expect(interaction.reply).toHaveBeenCalledWith({
+      content: 'You have already snoozed 3 times in the last 24 hours.',
+      ephemeral: true,
+    });
+  });
+
+  it('should explain when snoozing is turned off', async () => {
+    vi.mocked(mockExemptionService.snooze).mockResolvedValue({ status: 'disabled' });
+    const interaction = createMockInteraction(guildId, '1h');
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    expect(interaction.reply).toHaveBeenCalledWith({
+      content: 'Snoozing is turned off in this server.',
+      ephemeral: true,
+    });
+  });
+
+  it('should report errors', async () => {
+    vi.mocked(mockExemptionService.snooze).mockRejectedValue(new Error('database is locked'));
+    const interaction = createMockInteraction(guildId, '1h');
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    expect(mockLogger.error).toHaveBeenCalled();
+    expect(interaction.reply).toHaveBeenCalledWith({
+      content: 'Error snoozing your AFK timer: database is locked',
+      ephemeral: true,
+    });
+  });
+});
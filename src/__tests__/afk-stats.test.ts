@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { ChatInputCommandInteraction } from 'discord.js';
+import { execute } from '../handlers/commands/afk-stats';
+import { GuildConfigService } from '../services/GuildConfigService';
+import type { AFKEventRepository } from '../database/repositories/AFKEventRepository';
+import type { VoiceActivityRepository } from '../database/repositories/VoiceActivityRepository';
+import type { CommandServices } from '../handlers/commands';
+import type { ExemptionService } from '../services/ExemptionService';
+import type { AFKDetectionService } from '../services/AFKDetectionService';
+import type { ChimeStore } from '../voice/ChimeStore';
+import type { VoiceConnectionManager } from '../voice/VoiceConnectionManager';
+import { hasAFKAdminPermission } from '../utils/permissions';
+import { createMockLogger } from './fixtures';
+
+vi.mock('../utils/permissions');
+
+describe('afk-stats command', () => {
+  const guildId = '123456789012345678';
+
+  let mockConfigService: GuildConfigService;
+  let mockVoiceActivityRepository: VoiceActivityRepository;
+  let services: CommandServices;
+  let mockLogger: ReturnType<typeof createMockLogger>;
+
+  function createMockInteraction(
+    interactionGuildId: string | null,
+    days: number | null = null
+  ): ChatInputCommandInteraction {
+    return {
+      guildId: interactionGuildId,
+      user: { id: 'admin-1' },
+      options: {
+        getInteger: vi.fn().mockReturnValue(days),
+      },
+      reply: vi.fn(),
+    } as unknown as ChatInputCommandInteraction;
+  }
+
+  function repliedEmbed(interaction: ChatInputCommandInteraction): any {
+    const reply = vi.mocked(interaction.reply).mock.calls[0]?.[0] as any;
+    expect(reply.ephemeral).toBe(true);
+    return reply.embeds[0].toJSON();
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.UTC(2026, 2, 10, 15));
+
+    mockConfigService = { getConfig: vi.fn() } as unknown as GuildConfigService;
+    mockVoiceActivityRepository = {
+      summarizeUsers: vi.fn().mockImplementation((_guildId, _from, _to, orderBy: string) =>
+        orderBy === 'speaking'
+          ? [
+            { userId: 'talker', speakingMs: 5_400_000, presentMs: 7_200_000, speakingSessions: 12 },
+            { userId: 'lurker', speakingMs: 0, presentMs: 3_600_000, speakingSessions: 0 },
+          ]
+          : [
+            { userId: 'lurker', speakingMs: 0, presentMs: 3_600_000, speakingSessions: 0 },
+            { userId: 'talker', speakingMs: 5_400_000, presentMs: 7_200_000, speakingSessions: 12 },
+          ]
+      ),
+      summarizeChannels: vi.fn().mockReturnValue([
+        { channelId: 'voice-1', presentMs: 10_800_000, speakingMs: 5_400_000, members: 2 },
+      ]),
+    } as unknown as VoiceActivityRepository;
+    services = {
+      eventRepository: {} as AFKEventRepository,
+      exemptionService: {} as ExemptionService,
+      chimeStore: {} as ChimeStore,
+      voiceActivityRepository: mockVoiceActivityRepository,
+      afkDetectionService: {} as AFKDetectionService,
+      voiceConnectionManager: {} as VoiceConnectionManager,
+    };
+    mockLogger = createMockLogger();
+
+    vi.mocked(hasAFKAdminPermission).mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should reject use outside a server', async () => {
+    const interaction = createMockInteraction(null);
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    expect(interaction.reply).toHaveBeenCalledWith({
+      content: 'This command can only be used in a server.',
+      ephemeral: true,
+    });
+    expect(mockVoiceActivityRepository.summarizeUsers).not.toHaveBeenCalled();
+  });
+
+  it('should reject members without admin permission', async () => {
+    vi.mocked(hasAFKAdminPermission).mockReturnValue(false);
+    const interaction = createMockInteraction(guildId);
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    expect(interaction.reply).toHaveBeenCalledWith(
+      expect.objectContaining({ content: expect.stringContaining('You do not have permission'), ephemeral: true })
+    );
+    expect(mockVoiceActivityRepository.summarizeUsers).not.toHaveBeenCalled();
+  });
+
+  it('should show top speakers, silent members and channel occupancy for the last 7 days', async () => {
+    const interaction = createMockInteraction(guildId);
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    expect(mockVoiceActivityRepository.summarizeUsers).toHaveBeenCalledWith(guildId, '2026-03-04', '2026-03-10', 'speaking', 5);
+    expect(mockVoiceActivityRepository.summarizeUsers).toHaveBeenCalledWith(guildId, '2026-03-04', '2026-03-10', 'silent', 5);
+    expect(mockVoiceActivityRepository.summarizeChannels).toHaveBeenCalledWith(guildId, '2026-03-04', '2026-03-10', 5);
+
+    const embed = repliedEmbed(interaction);
+    expect(embed.description).toBe('2026-03-04 to 2026-03-10');
+    expect(embed.fields).toEqual([
+      { name: 'Top Speakers', value: '1. <@talker> — 1h 30m speaking (12 sessions)' },
+      {
+        name: 'Most Silent',
+        value: '1. <@lurker> — 1h silent of 1h\n2. <@talker> — 30m silent of 2h',
+      },
+      { name: 'Channel Occupancy', value: '1. <#voice-1> — 3h member time, 2 members' },
+    ]);
+  });
+
+  it('should cover the requested number of days', async () => {
+    const interaction = createMockInteraction(guildId, 1);
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    expect(mockVoiceActivityRepository.summarizeChannels).toHaveBeenCalledWith(guildId, '2026-03-10', '2026-03-10', 5);
+  });
+
+  it('should say so when no activity was recorded', async () => {
+    vi.mocked(mockVoiceActivityRepository.summarizeUsers).mockReturnValue([]);
+    vi.mocked(mockVoiceActivityRepository.summarizeChannels).mockReturnValue([]);
+    const interaction = createMockInteraction(guildId);
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    expect(repliedEmbed(interaction).fields).toEqual([
+      { name: 'No activity', value: 'No voice activity recorded in this period.' },
+    ]);
+  });
+
+  it('should report query errors to the user', async () => {
+    vi.mocked(mockVoiceActivityRepository.summarizeUsers).mockImplementation(() => {
+      throw new Error('database is locked');
+    });
+    const interaction = createMockInteraction(guildId);
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    expect(interaction.reply).toHaveBeenCalledWith({
+      content: 'Error retrieving voice activity: database is locked',
+      ephemeral: true,
+    });
+    expect(mockLogger.error).toHaveBeenCalled();
+  });
+});
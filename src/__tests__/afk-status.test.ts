@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { ChatInputCommandInteraction, EmbedBuilder } from 'discord.js';
+import { execute } from '../handlers/commands/afk-status';
+import { GuildConfigService } from '../services/GuildConfigService';
+import type { AFKEventRepository } from '../database/repositories/AFKEventRepository';
+import type { CommandServices } from '../handlers/commands';
+import type { ExemptionService } from '../services/ExemptionService';
+import type { AFKDetectionService } from '../services/AFKDetectionService';
+import type { VoiceConnectionManager } from '../voice/VoiceConnectionManager';
+import { hasAFKAdminPermission } from '../utils/permissions';
+import { createMockGuildSettings, createMockLogger } from './fixtures';
+
+vi.mock('../utils/permissions');
+
+describe('afk-status command', () => {
+  const guildId = '123456789012345678';
+
+  let mockConfigService: GuildConfigService;
+  let mockEventRepository: AFKEventRepository;
+  let mockAfkDetectionService: AFKDetectionService;
+  let mockVoiceConnectionManager: VoiceConnectionManager;
+  let services: CommandServices;
+  let mockLogger: ReturnType<typeof createMockLogger>;
+
+  function createMockInteraction(subcommand = 'settings'): ChatInputCommandInteraction {
+    return {
+      guildId,
+      user: { id: 'admin-1' },
+      options: {
+        getSubcommand: vi.fn().mockReturnValue(subcommand),
+      },
+      reply: vi.fn(),
+    } as unknown as ChatInputCommandInteraction;
+  }
+
+  function getEmbedFields(interaction: ChatInputCommandInteraction): Array<{ name: string; value: string }> {
+    const [reply] = vi.mocked(interaction.reply).mock.calls[0] as [{ embeds: EmbedBuilder[] }];
+    return reply.embeds[0]?.data.fields ?? [];
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockConfigService = { getConfig: vi.fn() } as unknown as GuildConfigService;
+    mockEventRepository = {
+      summarizeObserved: vi.fn().mockReturnValue({ since: 0, wouldWarn: 4, wouldKick: 3, wouldKickUsers: 2 }),
+    } as unknown as AFKEventRepository;
+    mockAfkDetectionService = {
+      getTrackedUsers: vi.fn().mockReturnValue([]),
+    } as unknown as AFKDetectionService;
+    mockVoiceConnectionManager = {
+      getChannelIds: vi.fn().mockReturnValue([]),
+    } as unknown as VoiceConnectionManager;
+    services = {
+      eventRepository: mockEventRepository,
+      exemptionService: {} as ExemptionService,
+      afkDetectionService: mockAfkDetectionService,
+      voiceConnectionManager: mockVoiceConnectionManager,
+    } as CommandServices;
+    mockLogger = createMockLogger();
+
+    vi.mocked(hasAFKAdminPermission).mockReturnValue(true);
+  });
+
+  it('should show the mode without an observed summary when enforcing', async () => {
+    vi.mocked(mockConfigService.getConfig).mockReturnValue(createMockGuildSettings({ guildId, mode: 'enforce' }));
+    const interaction = createMockInteraction();
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    const fields = getEmbedFields(interaction);
+    expect(fields).toContainEqual(expect.objectContaining({ name: 'Mode', value: 'enforce' }));
+    expect(fields.map((field) => field.name)).not.toContain('Observed (last 24h)');
+    expect(mockEventRepository.summarizeObserved).not.toHaveBeenCalled();
+  });
+
+  it('should show where the mod log goes, or that it is off', async () => {
+    vi.mocked(mockConfigService.getConfig)
+      .mockReturnValueOnce(createMockGuildSettings({ guildId, modLogChannelId: '234567890123456789' }))
+      .mockReturnValueOnce(createMockGuildSettings({ guildId }));
+    const withLog = createMockInteraction();
+    const withoutLog = createMockInteraction();
+
+    await execute(withLog, mockConfigService, mockLogger as any, services);
+    await execute(withoutLog, mockConfigService, mockLogger as any, services);
+
+    expect(getEmbedFields(withLog)).toContainEqual(expect.objectContaining({ name: 'Mod Log', value: '<#234567890123456789>' }));
+    expect(getEmbedFields(withoutLog)).toContainEqual(expect.objectContaining({ name: 'Mod Log', value: 'Off' }));
+  });
+
+  it('should summarize would-be actions from the last 24 hours in observe mode', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_700_000_000_000);
+    vi.mocked(mockConfigService.getConfig).mockReturnValue(createMockGuildSettings({ guildId, mode: 'observe' }));
+    const interaction = createMockInteraction();
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+    vi.useRealTimers();
+
+    expect(mockEventRepository.summarizeObserved).toHaveBeenCalledWith(guildId, 1_700_000_000_000 - 24 * 60 * 60 * 1000);
+    expect(getEmbedFields(interaction)).toContainEqual({
+      name: 'Observed (last 24h)',
+      value: '4 would-be warnings, 3 would-be AFK actions (2 members). See /afk-history for details.',
+      inline: false,
+    });
+  });
+
+  it('should show the observed summary in warn-only mode', async () => {
+    vi.mocked(mockConfigService.getConfig).mockReturnValue(createMockGuildSettings({ guildId, mode: 'warn-only' }));
+    const interaction = createMockInteraction();
+
+    await execute(interaction, mockConfigService, mockLogger as any, services);
+
+    expect(getEmbedFields(interaction).map((field) => field.name)).toContain('Observed (last 24h)');
+  });
+
+  describe('live', () => {
+    function getEmbed(interaction: ChatInputCommandInteraction): EmbedBuilder['data'] {
+      const [reply] = vi.mocked(interaction.reply).mock.calls[0] as [{ embeds: EmbedBuilder[]; ephemeral: boolean }];
+      expect(reply.ephemeral).toBe(true);
+      return reply.embeds[0]?.data ?? {};
+    }
+
+    it('should list tracked members with their deadlines and the monitored channels', async () => {
+      vi.mocked(mockVoiceConnectionManager.getChannelIds).mockReturnValue(['voice-1', 'voice-2']);
+      vi.mocked(mockAfkDetectionService.getTrackedUsers).mockReturnValue([
+        { guildId, userId: 'user-1', channelId: 'voice-1', warned: true, startedAt: 1_700_000_000_000, warningAt: 1_700_000_240_000, kickAt: 1_700_000_300_000 },
+        { guildId, userId: 'user-2', channelId: 'voice-2', warned: false, startedAt: 1_700_000_100_000, warningAt: 1_700_000_340_000, kickAt: 1_700_000_400_000 },
+      ]);
+      const interaction = createMockInteraction('live');
+
+      await execute(interaction, mockConfigService, mockLogger as any, services);
+
+      expect(mockAfkDetectionService.getTrackedUsers).toHaveBeenCalledWith(guildId);
+      expect(mockConfigService.getConfig).not.toHaveBeenCalled();
+      const embed = getEmbed(interaction);
+      expect(embed.description).toBe([
+        '<@user-1> in <#voice-1> — started <t:1700000000:R>, warned, action <t:1700000300:R>',
+        '<@user-2> in <#voice-2> — started <t:1700000100:R>, warning <t:1700000340:R>, action <t:1700000400:R>',
+      ].join('\n'));
+      expect(embed.fields).toEqual([{ name: 'Monitored Channels', value: '<#voice-1>, <#voice-2>', inline: false }]);
+      expect(embed.footer?.text).toBe('2 members tracked, soonest AFK action first');
+    });
+
+    it('should cap the list and count the members not shown', async () => {
+      vi.mocked(mockAfkDetectionService.getTrackedUsers).mockReturnValue(
+        Array.from({ length: 23 }, (_, index) => ({
+          guildId,
+          userId: `user-${index}`,
+          channelId: 'voice-1',
+          warned: false,
+          startedAt: 0,
+          warningAt: 0,
+          kickAt: 0,
+        }))
+      );
+      const interaction = createMockInteraction('live');
+
+      await execute(interaction, mockConfigService, mockLogger as any, services);
+
+      const lines = getEmbed(interaction).description?.split('\n') ?? [];
+      expect(lines).toHaveLength(21);
+      expect(lines[20]).toBe('…and 3 more');
+    });
+
+    it('should say so when nobody is tracked', async () => {
+      const interaction = createMockInteraction('live');
+
+      await execute(interaction, mockConfigService, mockLogger as any, services);
+
+      const embed = getEmbed(interaction);
+      expect(embed.description).toBe('Nobody is being timed right now.');
+      expect(embed.fields).toEqual([{ name: 'Monitored Channels', value: 'Not connected to any voice channel', inline: false }]);
+    });
+
+    it('should require admin permission', async () => {
+      vi.mocked(hasAFKAdminPermission).mockReturnValue(false);
+      const interaction = createMockInteraction('live');
+
+      await execute(interaction, mockConfigService, mockLogger as any, services);
+
+      expect(interaction.reply).toHaveBeenCalledWith(
+        expect.objectContaining({ content: expect.stringContaining('You do not have permission'), ephemeral: true })
+      );
+      expect(mockAfkDetectionService.getTrackedUsers).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,6 +1,13 @@
 import { describe, it, expect } from 'vitest';
 import {
   guildConfigUpdateSchema,
+  channelOverrideUpdateSchema,
+  afkEventsQuerySchema,
+  voiceAnalyticsQuerySchema,
+  exemptionCreateSchema,
+  memberKickSchema,
+  memberExemptSchema,
+  messagePreviewSchema,
   loginRequestSchema,
   type HealthResponse,
   type StatusResponse,
@@ -341,6 +348,227 @@ describe('API Types - guildConfigUpdateSchema', () => {
     });
   });
 
+  describe('when validating AFK action fields', () => {
+    it('should accept each supported afkAction', () => {
+      for (const afkAction of ['disconnect', 'move', 'mute', 'timeout', 'role']) {
+        expect(guildConfigUpdateSchema.safeParse({ afkAction }).success).toBe(true);
+      }
+    });
+
+    it('should reject unknown afkAction values', () => {
+      const result = guildConfigUpdateSchema.safeParse({ afkAction: 'ban' });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should accept snowflakes or null for afkMoveChannelId and afkRoleId', () => {
+      expect(
+        guildConfigUpdateSchema.safeParse({
+          afkMoveChannelId: '123456789012345678',
+          afkRoleId: null,
+        }).success
+      ).toBe(true);
+      expect(guildConfigUpdateSchema.safeParse({ afkRoleId: 'not-a-role' }).success).toBe(false);
+    });
+
+    it('should bound memberTimeoutSeconds to the Discord timeout limit', () => {
+      expect(guildConfigUpdateSchema.safeParse({ memberTimeoutSeconds: 600 }).success).toBe(true);
+      expect(guildConfigUpdateSchema.safeParse({ memberTimeoutSeconds: 0 }).success).toBe(false);
+      expect(guildConfigUpdateSchema.safeParse({ memberTimeoutSeconds: 2419201 }).success).toBe(false);
+    });
+  });
+
+  describe('when validating the enforcement mode', () => {
+    it('should accept each supported mode', () => {
+      for (const mode of ['enforce', 'observe', 'warn-only']) {
+        expect(guildConfigUpdateSchema.safeParse({ mode }).success).toBe(true);
+      }
+    });
+
+    it('should reject unknown modes', () => {
+      expect(guildConfigUpdateSchema.safeParse({ mode: 'dry-run' }).success).toBe(false);
+    });
+  });
+
+  describe('when validating activity signal fields', () => {
+    it('should accept known signals and channel IDs', () => {
+      const result = guildConfigUpdateSchema.safeParse({
+        activitySignals: ['messages', 'reactions', 'video', 'stream', 'commands'],
+        activityChannelIds: ['123456789012345678'],
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject unknown signals and invalid channel IDs', () => {
+      expect(guildConfigUpdateSchema.safeParse({ activitySignals: ['typing'] }).success).toBe(false);
+      expect(guildConfigUpdateSchema.safeParse({ activityChannelIds: ['general'] }).success).toBe(false);
+    });
+  });
+
+  describe('when validating tracking threshold fields', () => {
+    it('should accept a threshold and counting rules', () => {
+      expect(
+        guildConfigUpdateSchema.safeParse({ minUsersForTracking: 5, countDeafenedUsers: false, countBots: true }).success
+      ).toBe(true);
+    });
+
+    it('should reject thresholds outside 1-99', () => {
+      expect(guildConfigUpdateSchema.safeParse({ minUsersForTracking: 0 }).success).toBe(false);
+      expect(guildConfigUpdateSchema.safeParse({ minUsersForTracking: 100 }).success).toBe(false);
+      expect(guildConfigUpdateSchema.safeParse({ minUsersForTracking: 1.5 }).success).toBe(false);
+    });
+  });
+
+  describe('when validating exempt channels', () => {
+    it('should accept channel IDs and reject anything else', () => {
+      expect(guildConfigUpdateSchema.safeParse({ exemptChannelIds: ['123456789012345678'] }).success).toBe(true);
+      expect(guildConfigUpdateSchema.safeParse({ exemptChannelIds: ['music'] }).success).toBe(false);
+    });
+  });
+
+  describe('when validating warning delivery', () => {
+    it('should accept the known modes and reject anything else', () => {
+      expect(guildConfigUpdateSchema.safeParse({ warningDelivery: 'voice-chat' }).success).toBe(true);
+      expect(guildConfigUpdateSchema.safeParse({ warningDelivery: 'email' }).success).toBe(false);
+    });
+  });
+
+  describe('when validating warning stages', () => {
+    it('should accept distinct positive integers', () => {
+      expect(guildConfigUpdateSchema.safeParse({ warningStages: [60, 15] }).success).toBe(true);
+      expect(guildConfigUpdateSchema.safeParse({ warningStages: [] }).success).toBe(true);
+    });
+
+    it('should reject duplicates, non-positive values and more than 5 stages', () => {
+      expect(guildConfigUpdateSchema.safeParse({ warningStages: [30, 30] }).success).toBe(false);
+      expect(guildConfigUpdateSchema.safeParse({ warningStages: [0] }).success).toBe(false);
+      expect(guildConfigUpdateSchema.safeParse({ warningStages: [1, 2, 3, 4, 5, 6] }).success).toBe(false);
+    });
+  });
+
+  describe('when validating the warning chime', () => {
+    it('should accept a boolean and nothing else', () => {
+      expect(guildConfigUpdateSchema.safeParse({ warningChimeEnabled: true }).success).toBe(true);
+      expect(guildConfigUpdateSchema.safeParse({ warningChimeEnabled: 'on' }).success).toBe(false);
+    });
+  });
+
+  describe('when validating the mod log channel', () => {
+    it('should accept a channel ID or null', () => {
+      expect(guildConfigUpdateSchema.safeParse({ modLogChannelId: '123456789012345678' }).success).toBe(true);
+      expect(guildConfigUpdateSchema.safeParse({ modLogChannelId: null }).success).toBe(true);
+      expect(guildConfigUpdateSchema.safeParse({ modLogChannelId: 'mod-log' }).success).toBe(false);
+    });
+  });
+
+  describe('when validating message settings', () => {
+    it('should accept a locale, templates and the DM flag', () => {
+      const result = guildConfigUpdateSchema.safeParse({
+        messageLocale: 'pt-BR',
+        messageTemplates: { warningBody: '{user}, still there?', warningColor: 0xff0000 },
+        kickDmEnabled: true,
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should accept a null locale to follow the guild', () => {
+      expect(guildConfigUpdateSchema.safeParse({ messageLocale: null }).success).toBe(true);
+    });
+
+    it('should reject unknown locales, unknown template fields and out-of-range colors', () => {
+      expect(guildConfigUpdateSchema.safeParse({ messageLocale: 'ja' }).success).toBe(false);
+      expect(guildConfigUpdateSchema.safeParse({ messageTemplates: { footer: 'hi' } }).success).toBe(false);
+      expect(guildConfigUpdateSchema.safeParse({ messageTemplates: { warningColor: 0x1000000 } }).success).toBe(false);
+      expect(guildConfigUpdateSchema.safeParse({ messageTemplates: { warningTitle: '   ' } }).success).toBe(false);
+    });
+
+    it('should validate preview requests the same way', () => {
+      expect(messagePreviewSchema.safeParse({}).success).toBe(true);
+      expect(messagePreviewSchema.safeParse({ messageLocale: 'fr', messageTemplates: { kickDm: 'Bye {user}' } }).success).toBe(true);
+      expect(messagePreviewSchema.safeParse({ kickDmEnabled: true }).success).toBe(false);
+    });
+  });
+
+  describe('when validating the snooze limit', () => {
+    it('should accept 0 through 20', () => {
+      expect(guildConfigUpdateSchema.safeParse({ snoozeDailyLimit: 0 }).success).toBe(true);
+      expect(guildConfigUpdateSchema.safeParse({ snoozeDailyLimit: 20 }).success).toBe(true);
+    });
+
+    it('should reject limits outside 0-20', () => {
+      expect(guildConfigUpdateSchema.safeParse({ snoozeDailyLimit: -1 }).success).toBe(false);
+      expect(guildConfigUpdateSchema.safeParse({ snoozeDailyLimit: 21 }).success).toBe(false);
+    });
+  });
+
+  describe('when validating schedule fields', () => {
+    it('should accept a time zone, type and windows', () => {
+      const result = guildConfigUpdateSchema.safeParse({
+        scheduleTimeZone: 'America/New_York',
+        scheduleType: 'quiet',
+        scheduleWindows: [{ days: [0, 6], start: '23:00', end: '07:00' }],
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject unknown time zones and types', () => {
+      expect(guildConfigUpdateSchema.safeParse({ scheduleTimeZone: 'Nowhere/Land' }).success).toBe(false);
+      expect(guildConfigUpdateSchema.safeParse({ scheduleType: 'sometimes' }).success).toBe(false);
+    });
+
+    it('should reject malformed windows', () => {
+      const parse = (window: object) => guildConfigUpdateSchema.safeParse({ scheduleWindows: [window] }).success;
+
+      expect(parse({ days: [], start: '09:00', end: '17:00' })).toBe(false);
+      expect(parse({ days: [7], start: '09:00', end: '17:00' })).toBe(false);
+      expect(parse({ days: [1], start: '9am', end: '17:00' })).toBe(false);
+      expect(parse({ days: [1], start: '09:00', end: '09:00' })).toBe(false);
+      expect(parse({ days: [1], start: '09:00', end: '17:00', note: 'x' })).toBe(false);
+    });
+  });
+
+  describe('when validating escalation fields', () => {
+    it('should accept a ladder with optional step fields omitted', () => {
+      const result = guildConfigUpdateSchema.safeParse({
+        escalationEnabled: true,
+        escalationWindowSeconds: 86400,
+        escalationSteps: [
+          { strikes: 2, action: 'timeout', memberTimeoutSeconds: 3600 },
+          { strikes: 4, action: 'disconnect', notify: true },
+        ],
+        escalationNotifyChannelId: '123456789012345678',
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject two steps for the same strike count', () => {
+      const result = guildConfigUpdateSchema.safeParse({
+        escalationSteps: [
+          { strikes: 2, action: 'timeout' },
+          { strikes: 2, action: 'disconnect' },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject unknown step fields and actions', () => {
+      expect(
+        guildConfigUpdateSchema.safeParse({ escalationSteps: [{ strikes: 2, action: 'timeout', ban: true }] }).success
+      ).toBe(false);
+      expect(guildConfigUpdateSchema.safeParse({ escalationSteps: [{ strikes: 2, action: 'ban' }] }).success).toBe(false);
+    });
+
+    it('should bound the escalation window', () => {
+      expect(guildConfigUpdateSchema.safeParse({ escalationWindowSeconds: 60 }).success).toBe(false);
+      expect(guildConfigUpdateSchema.safeParse({ escalationWindowSeconds: 366 * 86400 }).success).toBe(false);
+    });
+  });
+
   describe('when validating strict mode (unknown fields)', () => {
     it('should reject objects with unknown fields', () => {
       const result = guildConfigUpdateSchema.safeParse({
@@ -380,6 +608,148 @@ describe('API Types - guildConfigUpdateSchema', () => {
 // TEST SUITE: loginRequestSchema
 // ============================================================================
 
+describe('API Types - channelOverrideUpdateSchema', () => {
+  it('should accept override values', () => {
+    const result = channelOverrideUpdateSchema.safeParse({
+      enabled: false,
+      afkTimeoutSeconds: 1200,
+      warningSecondsBefore: 120,
+      warningChannelId: '123456789012345678',
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should accept null to reset a field to inherit', () => {
+    const result = channelOverrideUpdateSchema.safeParse({
+      enabled: null,
+      afkTimeoutSeconds: null,
+      warningSecondsBefore: null,
+      warningChannelId: null,
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject an empty object', () => {
+    expect(channelOverrideUpdateSchema.safeParse({}).success).toBe(false);
+  });
+
+  it('should reject guild-only fields', () => {
+    expect(channelOverrideUpdateSchema.safeParse({ exemptRoleIds: [] }).success).toBe(false);
+  });
+
+  it('should reject a non-positive timeout', () => {
+    expect(channelOverrideUpdateSchema.safeParse({ afkTimeoutSeconds: 0 }).success).toBe(false);
+  });
+});
+
+describe('API Types - afkEventsQuerySchema', () => {
+  it('should apply pagination defaults', () => {
+    const result = afkEventsQuerySchema.safeParse({});
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual({ limit: 50, offset: 0 });
+    }
+  });
+
+  it('should coerce query strings and split actions', () => {
+    const result = afkEventsQuerySchema.safeParse({
+      userId: '123456789012345678',
+      action: 'warning,kick_failed',
+      since: '2024-01-01T00:00:00Z',
+      limit: '25',
+      offset: '50',
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.action).toEqual(['warning', 'kick_failed']);
+      expect(result.data.limit).toBe(25);
+      expect(result.data.offset).toBe(50);
+    }
+  });
+
+  it('should reject unknown actions', () => {
+    expect(afkEventsQuerySchema.safeParse({ action: 'warning,ban' }).success).toBe(false);
+  });
+
+  it('should reject a limit above 100', () => {
+    expect(afkEventsQuerySchema.safeParse({ limit: '101' }).success).toBe(false);
+  });
+
+  it('should reject non-ISO timestamps', () => {
+    expect(afkEventsQuerySchema.safeParse({ until: 'yesterday' }).success).toBe(false);
+  });
+});
+
+describe('API Types - voiceAnalyticsQuerySchema', () => {
+  it('should default to JSON', () => {
+    const result = voiceAnalyticsQuerySchema.safeParse({ from: '2026-03-01' });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual({ from: '2026-03-01', format: 'json' });
+    }
+  });
+
+  it('should reject other day formats, formats and unknown fields', () => {
+    expect(voiceAnalyticsQuerySchema.safeParse({ to: '03/01/2026' }).success).toBe(false);
+    expect(voiceAnalyticsQuerySchema.safeParse({ format: 'xml' }).success).toBe(false);
+    expect(voiceAnalyticsQuerySchema.safeParse({ limit: '10' }).success).toBe(false);
+  });
+});
+
+describe('API Types - exemptionCreateSchema', () => {
+  it('should accept a member, duration and optional reason', () => {
+    expect(exemptionCreateSchema.safeParse({ userId: '123456789012345678', durationSeconds: 3600 }).success).toBe(true);
+    expect(
+      exemptionCreateSchema.safeParse({ userId: '123456789012345678', durationSeconds: 3600, reason: null }).success
+    ).toBe(true);
+  });
+
+  it('should reject durations outside one minute to 30 days', () => {
+    expect(exemptionCreateSchema.safeParse({ userId: '123456789012345678', durationSeconds: 59 }).success).toBe(false);
+    expect(exemptionCreateSchema.safeParse({ userId: '123456789012345678', durationSeconds: 2592001 }).success).toBe(false);
+  });
+
+  it('should reject invalid user IDs, long reasons and unknown fields', () => {
+    expect(exemptionCreateSchema.safeParse({ userId: 'user-1', durationSeconds: 3600 }).success).toBe(false);
+    expect(
+      exemptionCreateSchema.safeParse({ userId: '123456789012345678', durationSeconds: 3600, reason: 'x'.repeat(201) }).success
+    ).toBe(false);
+    expect(
+      exemptionCreateSchema.safeParse({ userId: '123456789012345678', durationSeconds: 3600, source: 'snooze' }).success
+    ).toBe(false);
+  });
+});
+
+describe('API Types - memberKickSchema', () => {
+  it('should require a reason', () => {
+    expect(memberKickSchema.safeParse({ reason: 'Asleep in voice' }).success).toBe(true);
+    expect(memberKickSchema.safeParse({}).success).toBe(false);
+  });
+
+  it('should reject blank or long reasons and unknown fields', () => {
+    expect(memberKickSchema.safeParse({ reason: '   ' }).success).toBe(false);
+    expect(memberKickSchema.safeParse({ reason: 'x'.repeat(201) }).success).toBe(false);
+    expect(memberKickSchema.safeParse({ reason: 'manual', action: 'ban' }).success).toBe(false);
+  });
+});
+
+describe('API Types - memberExemptSchema', () => {
+  it('should accept a duration and optional reason', () => {
+    expect(memberExemptSchema.safeParse({ durationSeconds: 3600 }).success).toBe(true);
+    expect(memberExemptSchema.safeParse({ durationSeconds: 3600, reason: 'Recording a podcast' }).success).toBe(true);
+  });
+
+  it('should reject out-of-range durations and a user ID in the body', () => {
+    expect(memberExemptSchema.safeParse({ durationSeconds: 59 }).success).toBe(false);
+    expect(memberExemptSchema.safeParse({ durationSeconds: 3600, userId: '123456789012345678' }).success).toBe(false);
+  });
+});
+
 describe('API Types - loginRequestSchema', () => {
   describe('when validating valid credentials', () => {
     it('should accept valid username and password', () => {
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { buildStillHereButtonId, parseStillHereButtonId } from '../utils/componentIds';
+
+describe('still-here button IDs', () => {
+  it('should round-trip the guild and user', () => {
+    const customId = buildStillHereButtonId('123456789012345678', '876543210987654321');
+
+    expect(parseStillHereButtonId(customId)).toEqual({
+      guildId: '123456789012345678',
+      userId: '876543210987654321',
+    });
+  });
+
+  it('should stay within the Discord custom ID length limit', () => {
+    const customId = buildStillHereButtonId('1234567890123456789', '1234567890123456789');
+
+    expect(customId.length).toBeLessThanOrEqual(100);
+  });
+
+  it.each([
+    'other-button:1:2',
+    'afk-still-here',
+    'afk-still-here:1',
+    'afk-still-here::2',
+    'afk-still-here:1:2:3',
+  ])('should reject %s', (customId) => {
+    expect(parseStillHereButtonId(customId)).toBeNull();
+  });
+});
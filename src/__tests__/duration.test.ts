@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { formatDuration, parseDuration } from '../utils/duration';
+
+describe('parseDuration', () => {
+  it.each([
+    ['45s', 45],
+    ['30m', 1800],
+    ['3h', 10800],
+    ['2d', 172800],
+    ['1h30m', 5400],
+    [' 1H 30M ', 5400],
+  ])('should parse %s', (input, seconds) => {
+    expect(parseDuration(input)).toBe(seconds);
+  });
+
+  it('should read a bare number as minutes', () => {
+    expect(parseDuration('90')).toBe(5400);
+  });
+
+  it.each(['', '0', '0m', 'soon', '1w', '1.5h', 'h30', '-5m'])('should reject %j', (input) => {
+    expect(parseDuration(input)).toBeNull();
+  });
+});
+
+describe('formatDuration', () => {
+  it.each([
+    [0, '0s'],
+    [40.7, '40s'],
+    [60, '1m'],
+    [3900, '1h 5m'],
+    [3959, '1h 5m'],
+    [183_600, '2d 3h'],
+    [-5, '0s'],
+  ])('should format %d seconds as %s', (seconds, expected) => {
+    expect(formatDuration(seconds)).toBe(expected);
+  });
+});
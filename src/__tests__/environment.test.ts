@@ -23,11 +23,14 @@ describe('environment configuration', () => {
     delete process.env.DISCORD_TOKEN;
     delete process.env.CLIENT_ID;
     delete process.env.DATABASE_PATH;
+    delete process.env.CHIME_DIRECTORY;
     delete process.env.LOG_LEVEL;
     delete process.env.LOG_FILE_PATH;
     delete process.env.RATE_LIMIT_WARN_THRESHOLD;
     delete process.env.RATE_LIMIT_CRASH_THRESHOLD;
     delete process.env.RATE_LIMIT_WINDOW_MS;
+    delete process.env.RATE_LIMIT_GUILD_THRESHOLD;
+    delete process.env.RATE_LIMIT_EXIT_ON_CRASH;
     delete process.env.ADMIN_API_ENABLED;
     delete process.env.ADMIN_API_PORT;
     delete process.env.ADMIN_API_TOKEN;
@@ -69,10 +72,13 @@ describe('environment configuration', () => {
 
         // Verify all default values are correctly applied
         expect(config.DATABASE_PATH).toBe('./data/bot.db');
+        expect(config.CHIME_DIRECTORY).toBe('./data/chimes');
         expect(config.LOG_LEVEL).toBe('info');
         expect(config.RATE_LIMIT_WARN_THRESHOLD).toBe(20);
         expect(config.RATE_LIMIT_CRASH_THRESHOLD).toBe(50);
         expect(config.RATE_LIMIT_WINDOW_MS).toBe(60_000);
+        expect(config.RATE_LIMIT_GUILD_THRESHOLD).toBe(30);
+        expect(config.RATE_LIMIT_EXIT_ON_CRASH).toBe(false);
         expect(config.ADMIN_API_ENABLED).toBe(false);
         expect(config.ADMIN_API_PORT).toBe(3000);
       });
@@ -85,10 +91,14 @@ describe('environment configuration', () => {
         process.env.RATE_LIMIT_WARN_THRESHOLD = '100';
         process.env.RATE_LIMIT_CRASH_THRESHOLD = '200';
         process.env.RATE_LIMIT_WINDOW_MS = '120000';
+        process.env.RATE_LIMIT_GUILD_THRESHOLD = '15';
+        process.env.RATE_LIMIT_EXIT_ON_CRASH = 'true';
 
         const { loadConfig } = await import('../config/environment');
         const config = loadConfig();
 
+        expect(config.RATE_LIMIT_GUILD_THRESHOLD).toBe(15);
+        expect(config.RATE_LIMIT_EXIT_ON_CRASH).toBe(true);
         expect(config.DATABASE_PATH).toBe('./custom/path/db.sqlite');
         expect(config.LOG_LEVEL).toBe('debug');
         expect(config.RATE_LIMIT_WARN_THRESHOLD).toBe(100);
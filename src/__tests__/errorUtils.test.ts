@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { formatError } from '../utils/errorUtils';
+import { formatError, getErrorCode } from '../utils/errorUtils';
 
 describe('formatError', () => {
   it('should format Error objects with message and stack', () => {
@@ -52,3 +52,24 @@ describe('formatError', () => {
     expect(result.stack).toBeUndefined();
   });
 });
+
+describe('getErrorCode', () => {
+  it('should return numeric Discord API error codes as strings', () => {
+    const error = Object.assign(new Error('Missing Permissions'), { code: 50013 });
+
+    expect(getErrorCode(error)).toBe('50013');
+  });
+
+  it('should return string error codes', () => {
+    const error = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+
+    expect(getErrorCode(error)).toBe('ECONNRESET');
+  });
+
+  it('should return unknown when the error has no usable code', () => {
+    expect(getErrorCode(new Error('plain'))).toBe('unknown');
+    expect(getErrorCode({ code: '' })).toBe('unknown');
+    expect(getErrorCode('string error')).toBe('unknown');
+    expect(getErrorCode(null)).toBe('unknown');
+  });
+});
@@ -55,7 +55,7 @@ describe('SpeakingTracker - Event Emission Error Handling', () => {
         },
       } as unknown as VoiceConnection;
 
-      speakingTracker.registerConnection('test-guild', mockConnection);
+      speakingTracker.registerConnection('test-guild', 'test-channel', mockConnection);
 
       // Add a listener that throws
       speakingTracker.on('userStartedSpeaking', throwingListener);
@@ -197,14 +197,14 @@ describe('SpeakingTracker - Event Emission Error Handling', () => {
       } as unknown as VoiceConnection;
 
       expect(() => {
-        speakingTracker.registerConnection('test-guild-2', mockConnection);
+        speakingTracker.registerConnection('test-guild-2', 'test-channel-2', mockConnection);
       }).not.toThrow();
 
-      expect(speakingTracker.hasConnection('test-guild-2')).toBe(true);
+      expect(speakingTracker.hasConnection('test-channel-2')).toBe(true);
     });
 
     it('should handle re-registration by cleaning up old connection', () => {
-      // WHY: Re-registering the same guild should clean up old listeners to prevent memory leaks.
+      // WHY: Re-registering the same channel should clean up old listeners to prevent memory leaks.
 
       const mockConnection1 = {
         receiver: {
@@ -224,14 +224,14 @@ describe('SpeakingTracker - Event Emission Error Handling', () => {
         },
       } as unknown as VoiceConnection;
 
-      speakingTracker.registerConnection('guild-replace', mockConnection1);
+      speakingTracker.registerConnection('guild-replace', 'channel-replace', mockConnection1);
 
       // Re-register should remove old listeners
-      speakingTracker.registerConnection('guild-replace', mockConnection2);
+      speakingTracker.registerConnection('guild-replace', 'channel-replace', mockConnection2);
 
       expect(mockConnection1.receiver.speaking.removeAllListeners).toHaveBeenCalled();
       expect(mockLogger.warn).toHaveBeenCalledWith(
-        { guildId: 'guild-replace' },
+        { guildId: 'guild-replace', channelId: 'channel-replace' },
         'Connection already registered, replacing'
       );
     });
@@ -240,7 +240,7 @@ describe('SpeakingTracker - Event Emission Error Handling', () => {
       // WHY: Attempting to unregister a connection that doesn't exist should be a no-op, not an error.
 
       expect(() => {
-        speakingTracker.unregisterConnection('non-existent-guild');
+        speakingTracker.unregisterConnection('non-existent-channel');
       }).not.toThrow();
 
       // Should not log anything for non-existent connection
@@ -260,7 +260,7 @@ describe('SpeakingTracker - Event Emission Error Handling', () => {
       })) as unknown as VoiceConnection[];
 
       mockConnections.forEach((conn, i) => {
-        speakingTracker.registerConnection(`guild-${i}`, conn);
+        speakingTracker.registerConnection(`guild-${i}`, `channel-${i}`, conn);
       });
 
       expect(() => {
@@ -331,18 +331,21 @@ describe('voiceStateUpdate Handler - Error Handling', () => {
     mockVoiceMonitor = {
       handleUserJoin: vi.fn(),
       handleUserLeave: vi.fn(),
+      hasChannelConnection: vi.fn().mockReturnValue(true),
     } as unknown as VoiceMonitorService;
 
     mockAfkDetection = {
       startTracking: vi.fn(),
       startTrackingAllInChannel: vi.fn(),
       stopTracking: vi.fn(),
+      endVoiceSession: vi.fn(),
       stopAllTrackingForChannel: vi.fn(),
       resetTimer: vi.fn(),
     } as unknown as AFKDetectionService;
 
     mockGuildConfig = {
       getConfig: vi.fn().mockReturnValue(enabledConfig),
+      getEffectiveConfig: vi.fn((guildId: string) => mockGuildConfig.getConfig(guildId)),
     } as unknown as GuildConfigService;
 
     const deps: VoiceStateHandlerDeps = {
@@ -694,7 +697,7 @@ describe('voiceStateUpdate Handler - Error Handling', () => {
       await handler(oldState as VoiceState, newState as VoiceState);
 
       expect(mockLogger.debug).toHaveBeenCalledWith(
-        { guildId: 'test-guild' },
+        { guildId: 'test-guild', oldChannelId: undefined, newChannelId: 'channel-123' },
         'Guild monitoring not enabled'
       );
     });
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { isExemptChannel } from '../utils/exemptChannels';
+
+describe('isExemptChannel', () => {
+  const config = { exemptChannelIds: ['music', 'lounges'] };
+
+  it('should always exempt the guild AFK channel', () => {
+    expect(isExemptChannel({ id: 'afk', parentId: null }, { exemptChannelIds: [] }, 'afk')).toBe(true);
+  });
+
+  it('should exempt listed channels and channels in listed categories', () => {
+    expect(isExemptChannel({ id: 'music', parentId: null }, config, null)).toBe(true);
+    expect(isExemptChannel({ id: 'lounge-1', parentId: 'lounges' }, config, null)).toBe(true);
+  });
+
+  it('should not exempt other channels', () => {
+    expect(isExemptChannel({ id: 'general', parentId: 'text' }, config, 'afk')).toBe(false);
+    expect(isExemptChannel({ id: 'general', parentId: null }, config, null)).toBe(false);
+  });
+});
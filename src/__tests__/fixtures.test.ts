@@ -117,6 +117,13 @@ describe('fixtures', () => {
       expect(rateLimiter.getActionCount()).toBe(0);
     });
 
+    it('should grant tokens and never pause enforcement by default', async () => {
+      const rateLimiter = createMockRateLimiter();
+
+      await expect(rateLimiter.acquire('channel.send')).resolves.toBe(true);
+      expect(rateLimiter.getKickPauseRemainingMs('guild-1')).toBe(0);
+    });
+
     it('should return a fresh instance on each call to prevent shared state', () => {
       const rateLimiter1 = createMockRateLimiter();
       const rateLimiter2 = createMockRateLimiter();
@@ -210,6 +217,32 @@ describe('fixtures', () => {
           warningChannelId: 'custom-channel',
           exemptRoleIds: ['role1', 'role2'],
           adminRoleIds: ['admin1'],
+          afkAction: 'disconnect',
+          afkMoveChannelId: null,
+          afkRoleId: null,
+          memberTimeoutSeconds: 600,
+          mode: 'observe',
+          escalationEnabled: true,
+          escalationWindowSeconds: 86400,
+          escalationSteps: [{ strikes: 3, action: 'timeout', memberTimeoutSeconds: 600, notify: true }],
+          escalationNotifyChannelId: 'mod-channel',
+          activitySignals: ['messages', 'video'],
+          activityChannelIds: ['chat-channel'],
+          scheduleTimeZone: 'Europe/Berlin',
+          scheduleType: 'quiet',
+          scheduleWindows: [{ days: [0, 6], start: '23:00', end: '07:00' }],
+          minUsersForTracking: 1,
+          countDeafenedUsers: false,
+          countBots: true,
+          snoozeDailyLimit: 0,
+          exemptChannelIds: ['lounge-channel'],
+          messageLocale: 'de',
+          messageTemplates: { warningTitle: 'Hallo?', warningColor: 0x00ff00 },
+          kickDmEnabled: true,
+          warningDelivery: 'dm',
+          warningStages: [60, 15],
+          warningChimeEnabled: true,
+          modLogChannelId: 'mod-log-channel',
           createdAt: '2025-12-29T00:00:00.000Z',
           updatedAt: '2025-12-29T00:00:00.000Z',
         };
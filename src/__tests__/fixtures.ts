@@ -45,19 +45,24 @@ export function createMockLogger(): MockLogger {
 export interface MockRateLimiter {
   recordAction: ReturnType<typeof vi.fn>;
   getActionCount: ReturnType<typeof vi.fn>;
+  acquire: ReturnType<typeof vi.fn>;
+  getKickPauseRemainingMs: ReturnType<typeof vi.fn>;
 }
 
 /**
  * Creates a fresh mock rate limiter instance.
- * By default, getActionCount returns 0 (not rate limited).
+ * By default, getActionCount returns 0, acquire grants a token and enforcement
+ * is never paused (not rate limited).
  * Each call returns a new instance to prevent shared mutable state.
  *
- * @returns Mock rate limiter with recordAction and getActionCount methods
+ * @returns Mock rate limiter with recordAction, getActionCount, acquire and getKickPauseRemainingMs methods
  */
 export function createMockRateLimiter(): MockRateLimiter {
   return {
     recordAction: vi.fn(),
     getActionCount: vi.fn().mockReturnValue(0),
+    acquire: vi.fn().mockResolvedValue(true),
+    getKickPauseRemainingMs: vi.fn().mockReturnValue(0),
   };
 }
 
@@ -75,6 +80,32 @@ const DEFAULT_GUILD_SETTINGS: GuildSettings = {
   warningChannelId: null,
   exemptRoleIds: [],
   adminRoleIds: [],
+  afkAction: 'disconnect',
+  afkMoveChannelId: null,
+  afkRoleId: null,
+  memberTimeoutSeconds: 600,
+  mode: 'enforce',
+  escalationEnabled: false,
+  escalationWindowSeconds: 604800,
+  escalationSteps: [],
+  escalationNotifyChannelId: null,
+  activitySignals: [],
+  activityChannelIds: [],
+  scheduleTimeZone: 'UTC',
+  scheduleType: 'active',
+  scheduleWindows: [],
+  minUsersForTracking: 2,
+  countDeafenedUsers: true,
+  countBots: false,
+  snoozeDailyLimit: 3,
+  exemptChannelIds: [],
+  messageLocale: null,
+  messageTemplates: {},
+  kickDmEnabled: false,
+  warningDelivery: 'channel',
+  warningStages: [],
+  warningChimeEnabled: false,
+  modLogChannelId: null,
   createdAt: '2024-01-01T00:00:00.000Z',
   updatedAt: '2024-01-01T00:00:00.000Z',
 };
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_WARNING_COLOR, renderMessages, renderTemplate, resolveMessageLocale } from '../utils/messageTemplates';
+
+describe('messageTemplates', () => {
+  describe('resolveMessageLocale', () => {
+    it("should prefer the guild's chosen locale", () => {
+      expect(resolveMessageLocale('fr', 'de')).toBe('fr');
+    });
+
+    it("should match the guild's preferred locale exactly, then by language", () => {
+      expect(resolveMessageLocale(null, 'pt-BR')).toBe('pt-BR');
+      expect(resolveMessageLocale(null, 'es-419')).toBe('es');
+      expect(resolveMessageLocale(null, 'en-GB')).toBe('en');
+    });
+
+    it('should fall back to English for untranslated or missing locales', () => {
+      expect(resolveMessageLocale(null, 'ja')).toBe('en');
+      expect(resolveMessageLocale(null, undefined)).toBe('en');
+    });
+  });
+
+  describe('renderTemplate', () => {
+    const values = { user: '<@1>', channel: '<#2>', seconds: '60', timeout: '5', server: 'Guild' };
+
+    it('should replace every known placeholder', () => {
+      expect(renderTemplate('{user} {channel} {seconds} {timeout} {server} {user}', values))
+        .toBe('<@1> <#2> 60 5 Guild <@1>');
+    });
+
+    it('should leave unknown placeholders as written', () => {
+      expect(renderTemplate('{user} {nickname}', values)).toBe('<@1> {nickname}');
+    });
+  });
+
+  describe('renderMessages', () => {
+    const context = { user: '<@1>', channel: '<#2>', serverName: 'Guild' };
+    const config = {
+      messageLocale: null,
+      messageTemplates: {},
+      warningSecondsBefore: 60,
+      afkTimeoutSeconds: 300,
+    };
+
+    it('should render the built-in English messages by default', () => {
+      expect(renderMessages(config, 'en-US', context)).toEqual({
+        locale: 'en',
+        warningTitle: 'AFK Warning',
+        warningBody: '<@1> you will be disconnected from <#2> in 60 seconds due to inactivity.',
+        warningColor: DEFAULT_WARNING_COLOR,
+        kickReason: 'AFK timeout',
+        kickDm: 'You were marked AFK in <#2> on Guild after 5 minutes without activity.',
+      });
+    });
+
+    it('should fill gaps in the templates with the built-in translation', () => {
+      const messages = renderMessages(
+        { ...config, messageTemplates: { warningTitle: 'Hallo {user}?', kickReason: 'Zu lange still' } },
+        'de',
+        context
+      );
+
+      expect(messages.warningTitle).toBe('Hallo <@1>?');
+      expect(messages.kickReason).toBe('Zu lange still');
+      expect(messages.warningBody).toBe('<@1>, du wirst in 60 Sekunden wegen Inaktivität aus <#2> entfernt.');
+    });
+
+    it('should report the timeout in whole minutes, at least 1', () => {
+      const messages = renderMessages({ ...config, afkTimeoutSeconds: 20, messageTemplates: { kickDm: '{timeout}' } }, 'en-US', context);
+
+      expect(messages.kickDm).toBe('1');
+    });
+  });
+});
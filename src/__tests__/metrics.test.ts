@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { BotMetrics, Counter, Gauge, Histogram, MetricsRegistry } from '../utils/metrics';
+
+describe('metrics', () => {
+  describe('Counter', () => {
+    it('should accumulate values per label set regardless of label order', () => {
+      const counter = new Counter('test_total', 'Test counter');
+
+      counter.inc({ a: '1', b: '2' });
+      counter.inc({ b: '2', a: '1' }, 2);
+      counter.inc({ a: '3', b: '2' });
+
+      expect(counter.get({ a: '1', b: '2' })).toBe(3);
+      expect(counter.get({ a: '3', b: '2' })).toBe(1);
+      expect(counter.collect()).toEqual(['test_total{a="1",b="2"} 3', 'test_total{a="3",b="2"} 1']);
+    });
+
+    it('should reject negative increments', () => {
+      const counter = new Counter('test_total', 'Test counter');
+
+      expect(() => counter.inc({}, -1)).toThrow('cannot be decreased');
+    });
+
+    it('should escape label values', () => {
+      const counter = new Counter('test_total', 'Test counter');
+
+      counter.inc({ reason: 'say "hi"\\\n' });
+
+      expect(counter.collect()).toEqual(['test_total{reason="say \\"hi\\"\\\\\\n"} 1']);
+    });
+  });
+
+  describe('Gauge', () => {
+    it('should overwrite values and drop all series on reset', () => {
+      const gauge = new Gauge('test_gauge', 'Test gauge');
+
+      gauge.set({ guild_id: '1' }, 5);
+      gauge.set({ guild_id: '1' }, 2);
+
+      expect(gauge.get({ guild_id: '1' })).toBe(2);
+
+      gauge.reset();
+
+      expect(gauge.collect()).toEqual([]);
+    });
+  });
+
+  describe('Histogram', () => {
+    it('should render cumulative buckets, sum and count', () => {
+      const histogram = new Histogram('test_seconds', 'Test histogram', [0.1, 1]);
+
+      histogram.observe({ route: '/x' }, 0.05);
+      histogram.observe({ route: '/x' }, 0.5);
+      histogram.observe({ route: '/x' }, 3);
+
+      expect(histogram.getCount({ route: '/x' })).toBe(3);
+      expect(histogram.collect()).toEqual([
+        'test_seconds_bucket{le="0.1",route="/x"} 1',
+        'test_seconds_bucket{le="1",route="/x"} 2',
+        'test_seconds_bucket{le="+Inf",route="/x"} 3',
+        'test_seconds_sum{route="/x"} 3.55',
+        'test_seconds_count{route="/x"} 3',
+      ]);
+    });
+  });
+
+  describe('MetricsRegistry', () => {
+    it('should render HELP and TYPE lines for every metric', () => {
+      const registry = new MetricsRegistry();
+      const counter = registry.register(new Counter('test_total', 'Test counter'));
+      registry.register(new Gauge('test_gauge', 'Test gauge'));
+      counter.inc();
+
+      expect(registry.render()).toBe(
+        [
+          '# HELP test_total Test counter',
+          '# TYPE test_total counter',
+          'test_total 1',
+          '# HELP test_gauge Test gauge',
+          '# TYPE test_gauge gauge',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should reject duplicate metric names', () => {
+      const registry = new MetricsRegistry();
+      registry.register(new Counter('test_total', 'Test counter'));
+
+      expect(() => registry.register(new Gauge('test_total', 'Test gauge'))).toThrow('already registered');
+    });
+  });
+
+  describe('BotMetrics', () => {
+    it('should register the bot metrics in one registry', () => {
+      const metrics = new BotMetrics();
+      const output = metrics.registry.render();
+
+      for (const name of [
+        'shawnbot_warnings_sent_total',
+        'shawnbot_afk_actions_total',
+        'shawnbot_afk_action_failures_total',
+        'shawnbot_tracked_users',
+        'shawnbot_voice_connections',
+        'shawnbot_rate_limiter_window_actions',
+        'shawnbot_config_cache_lookups_total',
+        'shawnbot_api_request_duration_seconds',
+      ]) {
+        expect(output).toContain(`# TYPE ${name} `);
+      }
+    });
+  });
+});
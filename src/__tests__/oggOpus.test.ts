@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { getOggOpusDuration } from '../utils/oggOpus';
+
+/**
+ * Builds a single-segment Ogg page; the checksum is not verified, so it is left zero.
+ */
+function oggPage(granule: bigint, body: Buffer): Buffer {
+  const header = Buffer.alloc(28);
+  header.write('OggS', 0, 'latin1');
+  header.writeBigInt64LE(granule, 6);
+  header[26] = 1;
+  header[27] = body.length;
+  return Buffer.concat([header, body]);
+}
+
+function opusHead(preSkip: number): Buffer {
+  const head = Buffer.alloc(19);
+  head.write('OpusHead', 0, 'latin1');
+  head[8] = 1;
+  head[9] = 2;
+  head.writeUInt16LE(preSkip, 10);
+  head.writeUInt32LE(48_000, 12);
+  return head;
+}
+
+describe('getOggOpusDuration', () => {
+  it('should read the length of the bundled chime', () => {
+    const chime = readFileSync(new URL('../../assets/warning-chime.ogg', import.meta.url));
+
+    expect(getOggOpusDuration(chime)).toBeCloseTo(1.2, 2);
+  });
+
+  it('should subtract the pre-skip from the last granule position', () => {
+    const data = Buffer.concat([
+      oggPage(0n, opusHead(312)),
+      oggPage(0n, Buffer.from('OpusTags')),
+      oggPage(48_000n, Buffer.alloc(10)),
+      oggPage(96_312n, Buffer.alloc(10)),
+    ]);
+
+    expect(getOggOpusDuration(data)).toBe(2);
+  });
+
+  it('should skip pages on which no packet ends', () => {
+    const data = Buffer.concat([
+      oggPage(0n, opusHead(0)),
+      oggPage(24_000n, Buffer.alloc(10)),
+      oggPage(-1n, Buffer.alloc(10)),
+    ]);
+
+    expect(getOggOpusDuration(data)).toBe(0.5);
+  });
+
+  it('should reject data that is not Ogg', () => {
+    expect(getOggOpusDuration(Buffer.from('ID3 not an ogg file at all, just some bytes'))).toBeNull();
+    expect(getOggOpusDuration(Buffer.alloc(0))).toBeNull();
+  });
+
+  it('should reject Ogg streams that are not Opus', () => {
+    const vorbis = Buffer.concat([oggPage(0n, Buffer.from('\x01vorbis and more header bytes', 'latin1')), oggPage(48_000n, Buffer.alloc(10))]);
+
+    expect(getOggOpusDuration(vorbis)).toBeNull();
+  });
+
+  it('should reject truncated files', () => {
+    const data = Buffer.concat([oggPage(0n, opusHead(0)), oggPage(48_000n, Buffer.alloc(10))]);
+
+    expect(getOggOpusDuration(data.subarray(0, data.length - 4))).toBeNull();
+  });
+
+  it('should reject streams with no audio', () => {
+    expect(getOggOpusDuration(oggPage(0n, opusHead(312)))).toBeNull();
+  });
+});
@@ -5,6 +5,7 @@ import { createMockLogger } from './fixtures';
 
 describe('createReadyHandler', () => {
   let mockVoiceMonitor: any;
+  let mockAfkDetection: any;
   let mockLogger: ReturnType<typeof createMockLogger>;
   let mockClient: Partial<Client>;
 
@@ -16,6 +17,11 @@ describe('createReadyHandler', () => {
       initialize: vi.fn().mockResolvedValue(undefined),
     };
 
+    // Mock AFKDetectionService with restoreTracking method
+    mockAfkDetection = {
+      restoreTracking: vi.fn().mockResolvedValue(undefined),
+    };
+
     mockLogger = createMockLogger();
 
     // Mock Discord client with user
@@ -30,6 +36,7 @@ describe('createReadyHandler', () => {
     it('should log bot tag with correct message', async () => {
       const handler = createReadyHandler({
         voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
         logger: mockLogger,
       });
 
@@ -44,6 +51,7 @@ describe('createReadyHandler', () => {
     it('should log ready message', async () => {
       const handler = createReadyHandler({
         voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
         logger: mockLogger,
       });
 
@@ -57,6 +65,7 @@ describe('createReadyHandler', () => {
     it('should call voiceMonitor.initialize()', async () => {
       const handler = createReadyHandler({
         voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
         logger: mockLogger,
       });
 
@@ -78,6 +87,7 @@ describe('createReadyHandler', () => {
 
       const handler = createReadyHandler({
         voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
         logger: mockLogger,
       });
 
@@ -88,6 +98,48 @@ describe('createReadyHandler', () => {
     });
   });
 
+  describe('restoring persisted AFK tracking', () => {
+    it('should restore tracking before initializing voice monitoring', async () => {
+      const callOrder: string[] = [];
+
+      mockAfkDetection.restoreTracking.mockImplementation(async () => {
+        callOrder.push('restore');
+      });
+      mockVoiceMonitor.initialize.mockImplementation(async () => {
+        callOrder.push('initialize');
+      });
+
+      const handler = createReadyHandler({
+        voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
+        logger: mockLogger,
+      });
+
+      await handler(mockClient as Client);
+
+      expect(callOrder).toEqual(['restore', 'initialize']);
+    });
+
+    it('should log and continue to initialize when restore fails', async () => {
+      const testError = new Error('Restore failed');
+      mockAfkDetection.restoreTracking.mockRejectedValue(testError);
+
+      const handler = createReadyHandler({
+        voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
+        logger: mockLogger,
+      });
+
+      await handler(mockClient as Client);
+
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        { error: testError },
+        'Failed to restore AFK tracking state on startup'
+      );
+      expect(mockVoiceMonitor.initialize).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('when initialize() throws an error', () => {
     it('should catch and log the error', async () => {
       const testError = new Error('Initialization failed');
@@ -95,6 +147,7 @@ describe('createReadyHandler', () => {
 
       const handler = createReadyHandler({
         voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
         logger: mockLogger,
       });
 
@@ -111,6 +164,7 @@ describe('createReadyHandler', () => {
 
       const handler = createReadyHandler({
         voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
         logger: mockLogger,
       });
 
@@ -123,6 +177,7 @@ describe('createReadyHandler', () => {
 
       const handler = createReadyHandler({
         voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
         logger: mockLogger,
       });
 
@@ -144,6 +199,7 @@ describe('createReadyHandler', () => {
 
       const handler = createReadyHandler({
         voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
         logger: mockLogger,
       });
 
@@ -164,6 +220,7 @@ describe('createReadyHandler', () => {
 
       const handler = createReadyHandler({
         voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
         logger: mockLogger,
       });
 
@@ -182,6 +239,7 @@ describe('createReadyHandler', () => {
 
       const handler = createReadyHandler({
         voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
         logger: mockLogger,
       });
 
@@ -200,6 +258,7 @@ describe('createReadyHandler', () => {
 
       const handler = createReadyHandler({
         voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
         logger: mockLogger,
       });
 
@@ -219,6 +278,7 @@ describe('createReadyHandler', () => {
 
       const handler = createReadyHandler({
         voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
         logger: mockLogger,
       });
 
@@ -239,6 +299,7 @@ describe('createReadyHandler', () => {
 
       const handler = createReadyHandler({
         voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
         logger: mockLogger,
       });
 
@@ -255,6 +316,7 @@ describe('createReadyHandler', () => {
     it('should return a function that accepts a Client', () => {
       const handler = createReadyHandler({
         voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
         logger: mockLogger,
       });
 
@@ -265,6 +327,7 @@ describe('createReadyHandler', () => {
     it('should be callable multiple times with same dependencies', async () => {
       const handler = createReadyHandler({
         voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
         logger: mockLogger,
       });
 
@@ -291,6 +354,7 @@ describe('createReadyHandler', () => {
 
       const handler = createReadyHandler({
         voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
         logger: mockLogger,
       });
 
@@ -307,6 +371,7 @@ describe('createReadyHandler', () => {
 
       const handler = createReadyHandler({
         voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
         logger: mockLogger,
       });
 
@@ -327,6 +392,7 @@ describe('createReadyHandler', () => {
 
       const handler = createReadyHandler({
         voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
         logger: mockLogger,
       });
 
@@ -343,6 +409,7 @@ describe('createReadyHandler', () => {
 
       const handler = createReadyHandler({
         voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
         logger: mockLogger,
       });
 
@@ -359,6 +426,7 @@ describe('createReadyHandler', () => {
 
       const handler = createReadyHandler({
         voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
         logger: mockLogger,
       });
 
@@ -375,6 +443,7 @@ describe('createReadyHandler', () => {
     it('should call logger.info exactly twice on success', async () => {
       const handler = createReadyHandler({
         voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
         logger: mockLogger,
       });
 
@@ -388,6 +457,7 @@ describe('createReadyHandler', () => {
 
       const handler = createReadyHandler({
         voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
         logger: mockLogger,
       });
 
@@ -399,6 +469,7 @@ describe('createReadyHandler', () => {
     it('should never call logger.error on successful initialization', async () => {
       const handler = createReadyHandler({
         voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
         logger: mockLogger,
       });
 
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import type { ScheduleWindow } from '../database/repositories/GuildSettingsRepository';
+import { isValidTimeZone, isWithinSchedule, parseTimeOfDay, validateScheduleWindow } from '../utils/schedule';
+
+// 2024-01-01 was a Monday
+const mondayAt = (hour: number, minute = 0): number => Date.UTC(2024, 0, 1, hour, minute);
+const tuesdayAt = (hour: number, minute = 0): number => Date.UTC(2024, 0, 2, hour, minute);
+
+const schedule = (windows: ScheduleWindow[], scheduleType: 'active' | 'quiet' = 'active', scheduleTimeZone = 'UTC') => ({
+  scheduleTimeZone,
+  scheduleType,
+  scheduleWindows: windows,
+});
+
+describe('schedule', () => {
+  describe('parseTimeOfDay', () => {
+    it('should convert HH:MM to minutes after midnight', () => {
+      expect(parseTimeOfDay('00:00')).toBe(0);
+      expect(parseTimeOfDay('09:30')).toBe(570);
+      expect(parseTimeOfDay('23:59')).toBe(1439);
+    });
+
+    it.each(['24:00', '9:30', '09:60', '0930', ''])('should reject %s', (value) => {
+      expect(parseTimeOfDay(value)).toBeNull();
+    });
+  });
+
+  describe('isValidTimeZone', () => {
+    it('should accept IANA zones and reject unknown names', () => {
+      expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+      expect(isValidTimeZone('UTC')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    });
+  });
+
+  describe('validateScheduleWindow', () => {
+    it('should accept a valid window', () => {
+      expect(validateScheduleWindow({ days: [1, 2], start: '18:00', end: '23:00' })).toBeNull();
+    });
+
+    it('should reject bad days, times and empty ranges', () => {
+      expect(validateScheduleWindow({ days: [], start: '18:00', end: '23:00' })).toContain('days');
+      expect(validateScheduleWindow({ days: [7], start: '18:00', end: '23:00' })).toContain('days');
+      expect(validateScheduleWindow({ days: [1, 1], start: '18:00', end: '23:00' })).toContain('days');
+      expect(validateScheduleWindow({ days: [1], start: '6pm', end: '23:00' })).toContain('HH:MM');
+      expect(validateScheduleWindow({ days: [1], start: '18:00', end: '18:00' })).toBe('start and end must differ');
+    });
+  });
+
+  describe('isWithinSchedule', () => {
+    it('should always be active without windows', () => {
+      expect(isWithinSchedule(schedule([]), mondayAt(3))).toBe(true);
+      expect(isWithinSchedule(schedule([], 'quiet'), mondayAt(3))).toBe(true);
+    });
+
+    it('should be active only inside an active window, end exclusive', () => {
+      const config = schedule([{ days: [1], start: '18:00', end: '22:00' }]);
+
+      expect(isWithinSchedule(config, mondayAt(17, 59))).toBe(false);
+      expect(isWithinSchedule(config, mondayAt(18))).toBe(true);
+      expect(isWithinSchedule(config, mondayAt(22))).toBe(false);
+      expect(isWithinSchedule(config, tuesdayAt(19))).toBe(false);
+    });
+
+    it('should continue an overnight window into the next day', () => {
+      const config = schedule([{ days: [1], start: '22:00', end: '02:00' }]);
+
+      expect(isWithinSchedule(config, mondayAt(23))).toBe(true);
+      expect(isWithinSchedule(config, tuesdayAt(1, 30))).toBe(true);
+      expect(isWithinSchedule(config, tuesdayAt(2))).toBe(false);
+      expect(isWithinSchedule(config, mondayAt(1))).toBe(false);
+    });
+
+    it('should invert the windows for quiet hours', () => {
+      const config = schedule([{ days: [0, 1, 2, 3, 4, 5, 6], start: '23:00', end: '07:00' }], 'quiet');
+
+      expect(isWithinSchedule(config, mondayAt(3))).toBe(false);
+      expect(isWithinSchedule(config, mondayAt(12))).toBe(true);
+    });
+
+    it('should read windows in the configured time zone', () => {
+      // 12:00 UTC is 13:00 in Berlin in winter
+      const config = schedule([{ days: [1], start: '13:00', end: '14:00' }], 'active', 'Europe/Berlin');
+
+      expect(isWithinSchedule(config, mondayAt(12))).toBe(true);
+      expect(isWithinSchedule(config, mondayAt(13))).toBe(false);
+    });
+
+    it('should fall back to UTC for an unknown time zone', () => {
+      const config = schedule([{ days: [1], start: '12:00', end: '13:00' }], 'active', 'Not/AZone');
+
+      expect(isWithinSchedule(config, mondayAt(12, 30))).toBe(true);
+    });
+  });
+});
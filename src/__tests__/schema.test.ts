@@ -61,6 +61,215 @@ describe('schema', () => {
         db.close();
       });
 
+      it('should create afk_tracking table keyed by guild and user', () => {
+        const db = new Database(':memory:');
+        createTables(db, mockLogger);
+
+        const columns = db
+          .prepare(`PRAGMA table_info(afk_tracking)`)
+          .all() as Array<{ name: string; pk: number }>;
+
+        expect(columns.map((col) => col.name)).toEqual([
+          'guild_id',
+          'user_id',
+          'channel_id',
+          'started_at',
+          'warning_at',
+          'kick_at',
+          'warned',
+        ]);
+        expect(columns.filter((col) => col.pk > 0).map((col) => col.name)).toEqual([
+          'guild_id',
+          'user_id',
+        ]);
+
+        db.close();
+      });
+
+      it('should create channel_overrides table keyed by guild and channel', () => {
+        const db = new Database(':memory:');
+        createTables(db, mockLogger);
+
+        const columns = db
+          .prepare(`PRAGMA table_info(channel_overrides)`)
+          .all() as Array<{ name: string; pk: number }>;
+
+        expect(columns.map((col) => col.name)).toEqual([
+          'guild_id',
+          'channel_id',
+          'enabled',
+          'afk_timeout_seconds',
+          'warning_seconds_before',
+          'warning_channel_id',
+          'created_at',
+          'updated_at',
+        ]);
+        expect(columns.filter((col) => col.pk > 0).map((col) => col.name)).toEqual([
+          'guild_id',
+          'channel_id',
+        ]);
+
+        db.close();
+      });
+
+      it('should create afk_events table with a guild and time index', () => {
+        const db = new Database(':memory:');
+        createTables(db, mockLogger);
+
+        const columns = db
+          .prepare(`PRAGMA table_info(afk_events)`)
+          .all() as Array<{ name: string }>;
+        const indexes = db
+          .prepare(`PRAGMA index_list(afk_events)`)
+          .all() as Array<{ name: string }>;
+
+        expect(columns.map((col) => col.name)).toEqual([
+          'id',
+          'guild_id',
+          'user_id',
+          'channel_id',
+          'action',
+          'reason',
+          'config_snapshot',
+          'correlation_id',
+          'created_at',
+        ]);
+        expect(indexes.map((index) => index.name)).toContain('idx_afk_events_guild_created');
+
+        db.close();
+      });
+
+      it('should create afk_strikes table with a member and time index', () => {
+        const db = new Database(':memory:');
+        createTables(db, mockLogger);
+
+        const columns = db
+          .prepare(`PRAGMA table_info(afk_strikes)`)
+          .all() as Array<{ name: string }>;
+        const indexes = db
+          .prepare(`PRAGMA index_list(afk_strikes)`)
+          .all() as Array<{ name: string }>;
+
+        expect(columns.map((col) => col.name)).toEqual([
+          'id',
+          'guild_id',
+          'user_id',
+          'channel_id',
+          'action',
+          'created_at',
+        ]);
+        expect(indexes.map((index) => index.name)).toContain('idx_afk_strikes_guild_user_created');
+
+        db.close();
+      });
+
+      it('should create afk_exemptions table with a member and expiry index', () => {
+        const db = new Database(':memory:');
+        createTables(db, mockLogger);
+
+        const columns = db
+          .prepare(`PRAGMA table_info(afk_exemptions)`)
+          .all() as Array<{ name: string }>;
+        const indexes = db
+          .prepare(`PRAGMA index_list(afk_exemptions)`)
+          .all() as Array<{ name: string }>;
+
+        expect(columns.map((col) => col.name)).toEqual([
+          'id',
+          'guild_id',
+          'user_id',
+          'source',
+          'reason',
+          'granted_by',
+          'expires_at',
+          'created_at',
+        ]);
+        expect(indexes.map((index) => index.name)).toContain('idx_afk_exemptions_guild_user_expires');
+
+        db.close();
+      });
+
+      it('should create voice_activity_daily keyed by guild, day, member and channel', () => {
+        const db = new Database(':memory:');
+        createTables(db, mockLogger);
+
+        const columns = db
+          .prepare(`PRAGMA table_info(voice_activity_daily)`)
+          .all() as Array<{ name: string; pk: number }>;
+
+        expect(columns.map((col) => col.name)).toEqual([
+          'guild_id',
+          'user_id',
+          'channel_id',
+          'day',
+          'speaking_ms',
+          'present_ms',
+          'speaking_sessions',
+        ]);
+        expect(columns.filter((col) => col.pk > 0).sort((a, b) => a.pk - b.pk).map((col) => col.name)).toEqual([
+          'guild_id',
+          'day',
+          'user_id',
+          'channel_id',
+        ]);
+
+        db.close();
+      });
+
+      it('should add AFK action columns to an existing guild_settings table', () => {
+        const db = new Database(':memory:');
+        db.exec(`
+          CREATE TABLE guild_settings (
+            guild_id TEXT PRIMARY KEY,
+            enabled INTEGER DEFAULT 0,
+            afk_timeout_seconds INTEGER DEFAULT 300,
+            warning_seconds_before INTEGER DEFAULT 60,
+            warning_channel_id TEXT,
+            exempt_role_ids TEXT,
+            admin_role_ids TEXT,
+            created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+            updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+          );
+        `);
+        db.prepare('INSERT INTO guild_settings (guild_id, enabled) VALUES (?, ?)').run('legacy-guild', 1);
+
+        createTables(db, mockLogger);
+
+        const row = db
+          .prepare('SELECT * FROM guild_settings WHERE guild_id = ?')
+          .get('legacy-guild') as any;
+
+        expect(row.enabled).toBe(1);
+        expect(row.afk_action).toBe('disconnect');
+        expect(row.afk_move_channel_id).toBeNull();
+        expect(row.afk_role_id).toBeNull();
+        expect(row.member_timeout_seconds).toBe(600);
+        expect(row.mode).toBe('enforce');
+        expect(row.escalation_enabled).toBe(0);
+        expect(row.activity_signals).toBeNull();
+        expect(row.schedule_time_zone).toBe('UTC');
+        expect(row.schedule_type).toBe('active');
+        expect(row.schedule_windows).toBeNull();
+        expect(row.min_users_for_tracking).toBe(2);
+        expect(row.count_deafened_users).toBe(1);
+        expect(row.count_bots).toBe(0);
+        expect(row.snooze_daily_limit).toBe(3);
+        expect(row.exempt_channel_ids).toBeNull();
+        expect(row.message_locale).toBeNull();
+        expect(row.message_templates).toBeNull();
+        expect(row.kick_dm_enabled).toBe(0);
+        expect(row.warning_delivery).toBe('channel');
+        expect(row.warning_stages).toBeNull();
+        expect(row.warning_chime_enabled).toBe(0);
+        expect(row.mod_log_channel_id).toBeNull();
+        expect(row.activity_channel_ids).toBeNull();
+        expect(row.escalation_window_seconds).toBe(604800);
+        expect(row.escalation_steps).toBeNull();
+        expect(row.escalation_notify_channel_id).toBeNull();
+
+        db.close();
+      });
+
       it('should be idempotent (safe to call multiple times)', () => {
         // This proves CREATE TABLE IF NOT EXISTS works correctly
         const db = new Database(':memory:');
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ButtonInteraction } from 'discord.js';
+import type { AFKDetectionService } from '../services/AFKDetectionService';
+import { createStillHereButtonHandler } from '../handlers/components/stillHereButton';
+import { buildStillHereButtonId } from '../utils/componentIds';
+import { createMockLogger } from './fixtures';
+
+describe('createStillHereButtonHandler', () => {
+  const guildId = 'guild-1';
+  const userId = 'user-1';
+
+  let mockAfkDetection: AFKDetectionService;
+  let mockLogger: ReturnType<typeof createMockLogger>;
+  let handler: (interaction: ButtonInteraction) => Promise<void>;
+
+  const createInteraction = (overrides: { customId?: string; clickedBy?: string; guildId?: string | null } = {}) => ({
+    customId: overrides.customId ?? buildStillHereButtonId(guildId, userId),
+    guildId: overrides.guildId === undefined ? guildId : overrides.guildId,
+    user: { id: overrides.clickedBy ?? userId },
+    message: {
+      embeds: [{ data: { title: 'AFK Warning', color: 0xFF9900, description: 'you will be disconnected' } }],
+    },
+    reply: vi.fn().mockResolvedValue(undefined),
+    update: vi.fn().mockResolvedValue(undefined),
+  }) as unknown as ButtonInteraction;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockAfkDetection = {
+      isTracking: vi.fn().mockReturnValue(true),
+      resetTimer: vi.fn().mockResolvedValue(undefined),
+    } as unknown as AFKDetectionService;
+
+    mockLogger = createMockLogger();
+
+    handler = createStillHereButtonHandler({ afkDetection: mockAfkDetection, logger: mockLogger });
+  });
+
+  it('should reset the timer and mark the warning as confirmed', async () => {
+    const interaction = createInteraction();
+
+    await handler(interaction);
+
+    expect(mockAfkDetection.resetTimer).toHaveBeenCalledWith(guildId, userId, 'still_here_button');
+    expect(interaction.update).toHaveBeenCalledWith({
+      embeds: [
+        expect.objectContaining({
+          data: expect.objectContaining({
+            title: 'AFK Warning Dismissed',
+            description: `<@${userId}> confirmed they are still here.`,
+          }),
+        }),
+      ],
+      components: [],
+    });
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      { guildId, userId, action: 'still_here_confirmed' },
+      'User confirmed presence from AFK warning'
+    );
+  });
+
+  it('should refuse clicks from anyone but the warned user', async () => {
+    const interaction = createInteraction({ clickedBy: 'someone-else' });
+
+    await handler(interaction);
+
+    expect(mockAfkDetection.resetTimer).not.toHaveBeenCalled();
+    expect(interaction.update).not.toHaveBeenCalled();
+    expect(interaction.reply).toHaveBeenCalledWith({
+      content: 'Only the warned user can confirm they are still here.',
+      ephemeral: true,
+    });
+  });
+
+  it('should tell the user when they are no longer tracked', async () => {
+    vi.mocked(mockAfkDetection.isTracking).mockReturnValue(false);
+    const interaction = createInteraction();
+
+    await handler(interaction);
+
+    expect(mockAfkDetection.resetTimer).not.toHaveBeenCalled();
+    expect(interaction.reply).toHaveBeenCalledWith({
+      content: 'You are no longer being tracked for inactivity.',
+      ephemeral: true,
+    });
+  });
+
+  it('should reject buttons from a different guild', async () => {
+    const interaction = createInteraction({ guildId: 'other-guild' });
+
+    await handler(interaction);
+
+    expect(mockAfkDetection.resetTimer).not.toHaveBeenCalled();
+    expect(interaction.reply).toHaveBeenCalledWith({
+      content: 'This button is no longer valid.',
+      ephemeral: true,
+    });
+  });
+
+  it('should accept clicks on warnings sent by direct message', async () => {
+    const interaction = createInteraction({ guildId: null });
+
+    await handler(interaction);
+
+    expect(mockAfkDetection.resetTimer).toHaveBeenCalledWith(guildId, userId, 'still_here_button');
+    expect(interaction.update).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { Collection, type GuildMember, type VoiceBasedChannel } from 'discord.js';
+import {
+  countsTowardThreshold,
+  countThresholdMembers,
+  meetsTrackingThreshold,
+  type TrackingThresholdRules,
+} from '../utils/trackingThreshold';
+
+describe('trackingThreshold', () => {
+  const defaultRules: TrackingThresholdRules = { minUsersForTracking: 2, countDeafenedUsers: true, countBots: false };
+  const isVoiceIdentity = (userId: string): boolean => userId === 'afk-bot';
+
+  function createMember(id: string, options: { bot?: boolean; deaf?: boolean } = {}): GuildMember {
+    return {
+      id,
+      user: { id, bot: options.bot ?? false },
+      voice: { deaf: options.deaf ?? false },
+    } as unknown as GuildMember;
+  }
+
+  function createChannel(members: GuildMember[]): VoiceBasedChannel {
+    return { members: new Collection(members.map(member => [member.id, member])) } as unknown as VoiceBasedChannel;
+  }
+
+  describe('countsTowardThreshold', () => {
+    it('should count members and skip bots by default', () => {
+      expect(countsTowardThreshold(createMember('user'), defaultRules, isVoiceIdentity)).toBe(true);
+      expect(countsTowardThreshold(createMember('deaf', { deaf: true }), defaultRules, isVoiceIdentity)).toBe(true);
+      expect(countsTowardThreshold(createMember('music-bot', { bot: true }), defaultRules, isVoiceIdentity)).toBe(false);
+    });
+
+    it('should skip deafened members when the guild excludes them', () => {
+      const rules = { ...defaultRules, countDeafenedUsers: false };
+
+      expect(countsTowardThreshold(createMember('deaf', { deaf: true }), rules, isVoiceIdentity)).toBe(false);
+      expect(countsTowardThreshold(createMember('user'), rules, isVoiceIdentity)).toBe(true);
+    });
+
+    it('should count other bots but never the bot\'s own identities when bots count', () => {
+      const rules = { ...defaultRules, countBots: true };
+
+      expect(countsTowardThreshold(createMember('music-bot', { bot: true }), rules, isVoiceIdentity)).toBe(true);
+      expect(countsTowardThreshold(createMember('afk-bot', { bot: true }), rules, isVoiceIdentity)).toBe(false);
+    });
+  });
+
+  describe('countThresholdMembers and meetsTrackingThreshold', () => {
+    const channel = createChannel([
+      createMember('talker'),
+      createMember('listener', { deaf: true }),
+      createMember('music-bot', { bot: true }),
+      createMember('afk-bot', { bot: true }),
+    ]);
+
+    it('should apply every counting rule', () => {
+      expect(countThresholdMembers(channel, defaultRules, isVoiceIdentity)).toBe(2);
+      expect(countThresholdMembers(channel, { ...defaultRules, countDeafenedUsers: false }, isVoiceIdentity)).toBe(1);
+      expect(countThresholdMembers(channel, { ...defaultRules, countBots: true }, isVoiceIdentity)).toBe(3);
+    });
+
+    it('should compare the count with the guild minimum', () => {
+      expect(meetsTrackingThreshold(channel, defaultRules, isVoiceIdentity)).toBe(true);
+      expect(meetsTrackingThreshold(channel, { ...defaultRules, minUsersForTracking: 3 }, isVoiceIdentity)).toBe(false);
+      expect(meetsTrackingThreshold(createChannel([createMember('solo')]), { ...defaultRules, minUsersForTracking: 1 }, isVoiceIdentity)).toBe(true);
+    });
+  });
+});
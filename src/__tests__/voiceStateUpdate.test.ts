@@ -10,8 +10,9 @@ import { createMockLogger, createMockGuildSettings } from './fixtures';
 /**
  * These tests verify the THRESHOLD COORDINATION behavior for WU-2.
  *
- * KEY CONCEPT: Tracking only starts when there are 2+ users in a voice channel.
- * This prevents false AFK detection when a user is alone in a channel.
+ * KEY CONCEPT: Tracking only starts when there are 2+ users in a voice channel
+ * (the default minUsersForTracking). This prevents false AFK detection when a user
+ * is alone in a channel.
  *
  * When user count transitions:
  * - 1 → 2: Start tracking ALL users in channel (threshold crossed)
@@ -34,18 +35,21 @@ describe('voiceStateUpdate - Threshold Coordination', () => {
     mockVoiceMonitor = {
       handleUserJoin: vi.fn(),
       handleUserLeave: vi.fn(),
+      hasChannelConnection: vi.fn().mockReturnValue(true),
     } as unknown as VoiceMonitorService;
 
     mockAfkDetection = {
       startTracking: vi.fn(),
       startTrackingAllInChannel: vi.fn(),
       stopTracking: vi.fn(),
+      endVoiceSession: vi.fn(),
       stopAllTrackingForChannel: vi.fn(),
       resetTimer: vi.fn(),
     } as unknown as AFKDetectionService;
 
     mockGuildConfig = {
       getConfig: vi.fn().mockReturnValue(enabledConfig),
+      getEffectiveConfig: vi.fn((guildId: string) => mockGuildConfig.getConfig(guildId)),
     } as unknown as GuildConfigService;
 
     const deps: VoiceStateHandlerDeps = {
@@ -281,6 +285,67 @@ describe('voiceStateUpdate - Threshold Coordination', () => {
     });
   });
 
+  describe('voice sessions', () => {
+    it('should end the member\'s voice session when they leave', async () => {
+      const channel = createMockChannel('channel-session', ['user-staying']);
+
+      await handler(
+        createMockVoiceState('user-leaving', channel) as VoiceState,
+        createMockVoiceState('user-leaving', null) as VoiceState
+      );
+
+      expect(mockAfkDetection.endVoiceSession).toHaveBeenCalledWith('test-guild', 'user-leaving');
+    });
+
+    it('should end the member\'s voice session before joining the new channel when they switch', async () => {
+      const oldChannel = createMockChannel('channel-old', ['user-a', 'user-b']);
+      const newChannel = createMockChannel('channel-new', ['user-c', 'user-d', 'user-switching']);
+
+      await handler(
+        createMockVoiceState('user-switching', oldChannel) as VoiceState,
+        createMockVoiceState('user-switching', newChannel) as VoiceState
+      );
+
+      expect(vi.mocked(mockAfkDetection.endVoiceSession).mock.invocationCallOrder[0]).toBeLessThan(
+        vi.mocked(mockAfkDetection.startTracking).mock.invocationCallOrder[0] ?? 0
+      );
+    });
+  });
+
+  describe('when the bot could not join the channel', () => {
+    it('should not track anyone when every voice identity is busy elsewhere', async () => {
+      // WHY: handleUserJoin returns without joining when the identity pool is full. With no
+      // connection nobody hears the channel, so members who are talking would still be kicked.
+      vi.mocked(mockVoiceMonitor.hasChannelConnection).mockReturnValue(false);
+
+      const channelAfterJoin = createMockChannel('channel-unjoined', ['user-existing', 'user-joining']);
+      const oldState = createMockVoiceState('user-joining', null);
+      const newState = createMockVoiceState('user-joining', channelAfterJoin);
+
+      await handler(oldState as VoiceState, newState as VoiceState);
+
+      expect(mockVoiceMonitor.handleUserJoin).toHaveBeenCalledWith(channelAfterJoin);
+      expect(mockVoiceMonitor.hasChannelConnection).toHaveBeenCalledWith('channel-unjoined');
+      expect(mockAfkDetection.startTracking).not.toHaveBeenCalled();
+      expect(mockAfkDetection.startTrackingAllInChannel).not.toHaveBeenCalled();
+    });
+
+    it('should not track the newcomer when switching into an unjoined channel', async () => {
+      vi.mocked(mockVoiceMonitor.hasChannelConnection).mockReturnValue(false);
+
+      const oldChannel = createMockChannel('channel-old', ['user-a', 'user-b']);
+      const newChannel = createMockChannel('channel-unjoined', ['user-c', 'user-d', 'user-switching']);
+      const oldState = createMockVoiceState('user-switching', oldChannel);
+      const newState = createMockVoiceState('user-switching', newChannel);
+
+      await handler(oldState as VoiceState, newState as VoiceState);
+
+      expect(mockAfkDetection.stopTracking).toHaveBeenCalledWith('test-guild', 'user-switching');
+      expect(mockAfkDetection.startTracking).not.toHaveBeenCalled();
+      expect(mockAfkDetection.startTrackingAllInChannel).not.toHaveBeenCalled();
+    });
+  });
+
   describe('when user leaves a channel', () => {
     describe('making count = 1 (dropped below threshold)', () => {
       it('should call stopAllTrackingForChannel', async () => {
@@ -665,6 +730,50 @@ describe('voiceStateUpdate - Threshold Coordination', () => {
       expect(mockAfkDetection.startTrackingAllInChannel).not.toHaveBeenCalled();
     });
 
+    it('should skip channels disabled by a channel override', async () => {
+      // WHY: Overrides let a single channel opt out while the rest of the guild is monitored.
+
+      vi.mocked(mockGuildConfig.getEffectiveConfig).mockImplementation((_guildId, channelId) => ({
+        ...enabledConfig,
+        enabled: channelId !== 'movie-night',
+      }));
+
+      const joiningUserId = 'user-1';
+      const channelAfterJoin = createMockChannel('movie-night', ['existing-user', joiningUserId]);
+      const oldState = createMockVoiceState(joiningUserId, null);
+      const newState = createMockVoiceState(joiningUserId, channelAfterJoin);
+
+      await handler(oldState as VoiceState, newState as VoiceState);
+
+      expect(mockVoiceMonitor.handleUserJoin).not.toHaveBeenCalled();
+      expect(mockAfkDetection.startTrackingAllInChannel).not.toHaveBeenCalled();
+    });
+
+    it('should only apply join logic when switching out of an overridden channel', async () => {
+      vi.mocked(mockGuildConfig.getEffectiveConfig).mockImplementation((_guildId, channelId) => ({
+        ...enabledConfig,
+        enabled: channelId !== 'movie-night',
+      }));
+
+      const userId = 'user-1';
+      const oldChannel = createMockChannel('movie-night', ['other-user']);
+      const newChannel = createMockChannel('study-hall', ['existing-user', userId]);
+
+      await handler(
+        createMockVoiceState(userId, oldChannel) as VoiceState,
+        createMockVoiceState(userId, newChannel) as VoiceState
+      );
+
+      expect(mockVoiceMonitor.handleUserLeave).not.toHaveBeenCalled();
+      expect(mockAfkDetection.stopAllTrackingForChannel).not.toHaveBeenCalled();
+      expect(mockVoiceMonitor.handleUserJoin).toHaveBeenCalledWith(newChannel);
+      expect(mockAfkDetection.startTrackingAllInChannel).toHaveBeenCalledWith(
+        'test-guild',
+        'study-hall',
+        expect.arrayContaining(['existing-user', userId])
+      );
+    });
+
     it('should handle bot users joining (should be ignored)', async () => {
       // WHY: Bot voice state changes should be completely ignored.
 
@@ -723,6 +832,221 @@ describe('voiceStateUpdate - Threshold Coordination', () => {
     });
   });
 
+  describe('activity signals', () => {
+    it('should pass camera and stream changes in the same channel to the activity signals', async () => {
+      const handleVoiceStateChange = vi.fn();
+      handler = createVoiceStateUpdateHandler({
+        voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
+        guildConfig: mockGuildConfig,
+        activitySignals: { handleVoiceStateChange } as any,
+        logger: mockLogger,
+      });
+      const channel = createMockChannel('channel-camera', ['user-camera', 'other']);
+      const oldState = { ...createMockVoiceState('user-camera', channel), selfVideo: false };
+      const newState = { ...createMockVoiceState('user-camera', channel), selfVideo: true };
+
+      await handler(oldState as VoiceState, newState as VoiceState);
+
+      expect(handleVoiceStateChange).toHaveBeenCalledWith(oldState, newState);
+      expect(mockAfkDetection.startTracking).not.toHaveBeenCalled();
+    });
+
+    it('should not pass channel moves to the activity signals', async () => {
+      const handleVoiceStateChange = vi.fn();
+      handler = createVoiceStateUpdateHandler({
+        voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
+        guildConfig: mockGuildConfig,
+        activitySignals: { handleVoiceStateChange } as any,
+        logger: mockLogger,
+      });
+      const channel = createMockChannel('channel-join', ['user-join', 'other']);
+
+      await handler(createMockVoiceState('user-join', null) as VoiceState, createMockVoiceState('user-join', channel) as VoiceState);
+
+      expect(handleVoiceStateChange).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('voice analytics', () => {
+    it('should pass member voice state changes to the voice analytics', async () => {
+      const handleVoiceStateChange = vi.fn();
+      handler = createVoiceStateUpdateHandler({
+        voiceMonitor: mockVoiceMonitor,
+        afkDetection: mockAfkDetection,
+        guildConfig: mockGuildConfig,
+        voiceAnalytics: { handleVoiceStateChange } as any,
+        logger: mockLogger,
+      });
+      const channel = createMockChannel('channel-join', ['user-join', 'other']);
+      const oldState = createMockVoiceState('user-join', null);
+      const newState = createMockVoiceState('user-join', channel);
+
+      await handler(oldState as VoiceState, newState as VoiceState);
+
+      expect(handleVoiceStateChange).toHaveBeenCalledWith(oldState, newState);
+    });
+  });
+
+  describe('per-guild threshold and counting rules', () => {
+    function createMember(id: string, options: { bot?: boolean; deaf?: boolean } = {}): GuildMember {
+      return {
+        id,
+        user: { id, bot: options.bot ?? false },
+        voice: { deaf: options.deaf ?? false },
+      } as unknown as GuildMember;
+    }
+
+    function createChannel(channelId: string, members: GuildMember[]): Partial<VoiceChannel> {
+      return {
+        id: channelId,
+        members: new Collection(members.map((member) => [member.id, member])),
+        guild: { id: 'test-guild' } as any,
+      };
+    }
+
+    function createState(member: GuildMember, channel: Partial<VoiceChannel> | null, deaf = false): Partial<VoiceState> {
+      return {
+        channel: channel as VoiceChannel,
+        channelId: channel?.id ?? null,
+        member,
+        deaf,
+        guild: { id: 'test-guild' } as any,
+      };
+    }
+
+    function useConfig(overrides: Partial<GuildSettings>): void {
+      vi.mocked(mockGuildConfig.getConfig).mockReturnValue(
+        createMockGuildSettings({ enabled: true, guildId: 'test-guild', ...overrides })
+      );
+    }
+
+    beforeEach(() => {
+      (mockVoiceMonitor as any).isVoiceIdentity = vi.fn((userId: string) => userId === 'afk-bot');
+      (mockAfkDetection as any).isTracking = vi.fn().mockReturnValue(false);
+    });
+
+    it('should track a member alone in a channel when the threshold is 1', async () => {
+      useConfig({ minUsersForTracking: 1 });
+      const solo = createMember('solo');
+      const channel = createChannel('solo-channel', [solo]);
+
+      await handler(createState(solo, null) as VoiceState, createState(solo, channel) as VoiceState);
+
+      expect(mockAfkDetection.startTrackingAllInChannel).toHaveBeenCalledWith('test-guild', 'solo-channel', ['solo']);
+    });
+
+    it('should wait for the configured number of members', async () => {
+      useConfig({ minUsersForTracking: 3 });
+      const [first, second, third] = [createMember('first'), createMember('second'), createMember('third')];
+
+      await handler(
+        createState(second, null) as VoiceState,
+        createState(second, createChannel('big-channel', [first, second])) as VoiceState
+      );
+      expect(mockAfkDetection.startTrackingAllInChannel).not.toHaveBeenCalled();
+
+      await handler(
+        createState(third, null) as VoiceState,
+        createState(third, createChannel('big-channel', [first, second, third])) as VoiceState
+      );
+      expect(mockAfkDetection.startTrackingAllInChannel).toHaveBeenCalledWith('test-guild', 'big-channel', [
+        'first',
+        'second',
+        'third',
+      ]);
+    });
+
+    it('should not count deafened members when the guild excludes them', async () => {
+      useConfig({ countDeafenedUsers: false });
+      const deafened = createMember('deafened', { deaf: true });
+      const joining = createMember('joining');
+
+      await handler(
+        createState(joining, null) as VoiceState,
+        createState(joining, createChannel('deaf-channel', [deafened, joining])) as VoiceState
+      );
+
+      expect(mockAfkDetection.startTrackingAllInChannel).not.toHaveBeenCalled();
+      expect(mockAfkDetection.startTracking).not.toHaveBeenCalled();
+    });
+
+    it('should track only the newcomer when a deafened newcomer joins a channel already at the threshold', async () => {
+      useConfig({ countDeafenedUsers: false });
+      const joining = createMember('joining', { deaf: true });
+      const channel = createChannel('full-channel', [createMember('a'), createMember('b'), joining]);
+
+      await handler(createState(joining, null) as VoiceState, createState(joining, channel) as VoiceState);
+
+      expect(mockAfkDetection.startTracking).toHaveBeenCalledWith('test-guild', 'joining', 'full-channel');
+      expect(mockAfkDetection.startTrackingAllInChannel).not.toHaveBeenCalled();
+    });
+
+    it('should stop tracking the channel when a deafening member drops it below the threshold', async () => {
+      useConfig({ countDeafenedUsers: false });
+      const deafening = createMember('deafening', { deaf: true });
+      const channel = createChannel('deafen-channel', [createMember('other'), deafening]);
+
+      await handler(createState(deafening, channel, false) as VoiceState, createState(deafening, channel, true) as VoiceState);
+
+      expect(mockAfkDetection.stopAllTrackingForChannel).toHaveBeenCalledWith('test-guild', 'deafen-channel');
+    });
+
+    it('should start tracking untracked members when an undeafening member meets the threshold', async () => {
+      useConfig({ countDeafenedUsers: false });
+      const undeafening = createMember('undeafening');
+      const channel = createChannel('undeafen-channel', [createMember('other'), undeafening]);
+
+      await handler(createState(undeafening, channel, true) as VoiceState, createState(undeafening, channel, false) as VoiceState);
+
+      expect(mockAfkDetection.startTrackingAllInChannel).toHaveBeenCalledWith('test-guild', 'undeafen-channel', [
+        'other',
+        'undeafening',
+      ]);
+    });
+
+    it('should ignore deafen changes when deafened members count', async () => {
+      const deafening = createMember('deafening', { deaf: true });
+      const channel = createChannel('deafen-channel', [createMember('other'), deafening]);
+
+      await handler(createState(deafening, channel, false) as VoiceState, createState(deafening, channel, true) as VoiceState);
+
+      expect(mockAfkDetection.stopAllTrackingForChannel).not.toHaveBeenCalled();
+    });
+
+    it('should start tracking the humans when a counted bot brings the channel to the threshold', async () => {
+      useConfig({ countBots: true });
+      const musicBot = createMember('music-bot', { bot: true });
+      const channel = createChannel('music-channel', [createMember('listener'), musicBot]);
+
+      await handler(createState(musicBot, null) as VoiceState, createState(musicBot, channel) as VoiceState);
+
+      expect(mockAfkDetection.startTrackingAllInChannel).toHaveBeenCalledWith('test-guild', 'music-channel', ['listener']);
+    });
+
+    it('should stop tracking when a counted bot leaves the channel below the threshold', async () => {
+      useConfig({ countBots: true });
+      const musicBot = createMember('music-bot', { bot: true });
+      const channelAfterLeave = createChannel('music-channel', [createMember('listener')]);
+
+      await handler(createState(musicBot, channelAfterLeave) as VoiceState, createState(musicBot, null) as VoiceState);
+
+      expect(mockAfkDetection.stopAllTrackingForChannel).toHaveBeenCalledWith('test-guild', 'music-channel');
+    });
+
+    it('should never count the bot\'s own voice identities', async () => {
+      useConfig({ countBots: true });
+      const afkBot = createMember('afk-bot', { bot: true });
+      const channel = createChannel('monitored-channel', [createMember('listener'), afkBot]);
+
+      await handler(createState(afkBot, null) as VoiceState, createState(afkBot, channel) as VoiceState);
+
+      expect(mockAfkDetection.startTrackingAllInChannel).not.toHaveBeenCalled();
+      expect(mockAfkDetection.stopAllTrackingForChannel).not.toHaveBeenCalled();
+    });
+  });
+
   describe('WU-6: Debug Logging with eventType detection', () => {
     describe('when logger.isLevelEnabled returns true', () => {
       beforeEach(() => {
@@ -1178,4 +1502,40 @@ describe('voiceStateUpdate - Threshold Coordination', () => {
       });
     });
   });
+
+  describe('exempt channels', () => {
+    function createState(userId: string, channel: Partial<VoiceChannel> | null): Partial<VoiceState> {
+      return {
+        ...createMockVoiceState(userId, channel),
+        guild: { id: 'test-guild', afkChannelId: 'afk-channel' } as any,
+      };
+    }
+
+    beforeEach(() => {
+      vi.mocked(mockGuildConfig.getConfig).mockReturnValue(
+        createMockGuildSettings({ enabled: true, guildId: 'test-guild', exemptChannelIds: ['music-channel'] })
+      );
+    });
+
+    it.each(['afk-channel', 'music-channel'])('should not join or track anyone in %s', async (channelId) => {
+      const channel = createMockChannel(channelId, ['user-a', 'user-b']);
+
+      await handler(createState('user-b', null) as VoiceState, createState('user-b', channel) as VoiceState);
+
+      expect(mockVoiceMonitor.handleUserJoin).not.toHaveBeenCalled();
+      expect(mockAfkDetection.startTracking).not.toHaveBeenCalled();
+      expect(mockAfkDetection.startTrackingAllInChannel).not.toHaveBeenCalled();
+    });
+
+    it('should stop tracking a member who moves into the guild AFK channel', async () => {
+      const general = createMockChannel('general', ['user-a', 'user-b']);
+      const afk = createMockChannel('afk-channel', ['user-c']);
+
+      await handler(createState('user-c', general) as VoiceState, createState('user-c', afk) as VoiceState);
+
+      expect(mockAfkDetection.stopTracking).toHaveBeenCalledWith('test-guild', 'user-c');
+      expect(mockVoiceMonitor.handleUserLeave).toHaveBeenCalledWith('test-guild', 'general');
+      expect(mockVoiceMonitor.handleUserJoin).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -5,9 +5,55 @@ import bcrypt from 'bcrypt';
 import type { Logger } from 'pino';
 import type { Client } from 'discord.js';
 import { GuildConfigService } from '../services/GuildConfigService';
-import { AFKDetectionService } from '../services/AFKDetectionService';
+import {
+  ACTIVITY_SIGNALS,
+  AFK_ACTIONS,
+  ENFORCEMENT_MODES,
+  MESSAGE_LOCALES,
+  MESSAGE_TEMPLATE_TEXT_FIELDS,
+  SCHEDULE_TYPES,
+  WARNING_DELIVERY_MODES,
+  type AFKAction,
+  type ActivitySignal,
+  type EnforcementMode,
+  type EscalationStep,
+  type GuildSettings,
+  type MessageLocale,
+  type MessageTemplates,
+  type ScheduleType,
+  type ScheduleWindow,
+  type WarningDeliveryMode,
+} from '../database/repositories/GuildSettingsRepository';
+import type { AFKStrike } from '../database/repositories/AFKStrikeRepository';
+import type { AFKExemption, ExemptionSource } from '../database/repositories/AFKExemptionRepository';
+import type { ChannelOverride, ChannelOverrideFields } from '../database/repositories/ChannelOverrideRepository';
+import type {
+  VoiceActivityChannelSummary,
+  VoiceActivityRepository,
+  VoiceActivityUserSummary,
+} from '../database/repositories/VoiceActivityRepository';
+import {
+  AFK_EVENT_ACTIONS,
+  type AFKEvent,
+  type AFKEventAction,
+  type AFKEventConfigSnapshot,
+  type AFKEventRepository,
+  type ObservedSummary,
+  OBSERVED_SUMMARY_WINDOW_MS,
+} from '../database/repositories/AFKEventRepository';
+import { getMissingAFKActionPermissions } from '../utils/permissions';
+import { isValidTimeZone, validateScheduleWindow } from '../utils/schedule';
+import { MESSAGE_TEMPLATE_MAX_LENGTHS, renderMessages, type RenderedMessages } from '../utils/messageTemplates';
+import { AFKDetectionService, type TrackedUser } from '../services/AFKDetectionService';
+import type { EscalationService } from '../services/EscalationService';
+import { MAX_EXEMPTION_SECONDS, MIN_SNOOZE_SECONDS, type ExemptionService } from '../services/ExemptionService';
+import { toActivityDay } from '../services/VoiceAnalyticsService';
 import { VoiceConnectionManager } from '../voice/VoiceConnectionManager';
+import { getChimeError, MAX_CHIME_BYTES, type ChimeStore } from '../voice/ChimeStore';
 import { generateCorrelationId } from '../utils/correlation';
+import { userIdSchema, type UserId } from '../types/ids';
+import type { RateLimiter, RateLimiterState } from '../utils/RateLimiter';
+import { PROMETHEUS_CONTENT_TYPE, type BotMetrics } from '../utils/metrics';
 
 /**
  * Dependencies required for AdminApiService.
@@ -18,6 +64,13 @@ export interface AdminApiDependencies {
   guildConfigService: GuildConfigService;
   afkDetectionService: AFKDetectionService;
   voiceConnectionManager: VoiceConnectionManager;
+  eventRepository: AFKEventRepository;
+  escalationService: EscalationService;
+  exemptionService: ExemptionService;
+  chimeStore: ChimeStore;
+  voiceActivityRepository: VoiceActivityRepository;
+  rateLimiter: RateLimiter;
+  metrics: BotMetrics;
   logger: Logger;
   token: string;
   port: number;
@@ -31,6 +84,8 @@ export interface AdminApiDependencies {
  */
 interface RequestWithCorrelation extends Request {
   correlationId?: string;
+  /** How the request authenticated, set by the auth middleware */
+  authType?: 'session' | 'bearer';
 }
 
 /**
@@ -49,6 +104,7 @@ interface HealthResponse {
 interface StatusResponse {
   guilds: number;
   voiceConnections: number;
+  voiceIdentities: number;
   memory: {
     heapUsed: number;
     heapTotal: number;
@@ -64,7 +120,42 @@ interface GuildStatusResponse {
   enabled: boolean;
   afkTimeoutSeconds: number;
   warningSecondsBefore: number;
+  mode: EnforcementMode;
   connected: boolean;
+  channels: MonitoredChannelStatus[];
+  /** Would-be enforcement over the last 24 hours; null while the guild is enforcing */
+  observedSummary: ObservedSummary | null;
+}
+
+/**
+ * Per-channel monitoring status within a guild.
+ */
+interface MonitoredChannelStatus {
+  channelId: string;
+  trackedUsers: number;
+}
+
+/**
+ * One member's running AFK timer.
+ */
+interface TrackedUserResponse {
+  userId: string;
+  channelId: string;
+  warned: boolean;
+  startedAt: string;
+  warningAt: string;
+  kickAt: string;
+  secondsUntilWarning: number;
+  secondsUntilKick: number;
+}
+
+/**
+ * Live tracking state response structure.
+ */
+interface GuildTrackingResponse {
+  guildId: string;
+  monitoredChannelIds: string[];
+  trackedUsers: TrackedUserResponse[];
 }
 
 /**
@@ -124,6 +215,32 @@ interface GuildConfigResponse {
   warningChannelId: string | null;
   exemptRoleIds: string[];
   adminRoleIds: string[];
+  afkAction: AFKAction;
+  afkMoveChannelId: string | null;
+  afkRoleId: string | null;
+  memberTimeoutSeconds: number;
+  mode: EnforcementMode;
+  escalationEnabled: boolean;
+  escalationWindowSeconds: number;
+  escalationSteps: EscalationStep[];
+  escalationNotifyChannelId: string | null;
+  activitySignals: ActivitySignal[];
+  activityChannelIds: string[];
+  scheduleTimeZone: string;
+  scheduleType: ScheduleType;
+  scheduleWindows: ScheduleWindow[];
+  minUsersForTracking: number;
+  countDeafenedUsers: boolean;
+  countBots: boolean;
+  snoozeDailyLimit: number;
+  exemptChannelIds: string[];
+  messageLocale: MessageLocale | null;
+  messageTemplates: MessageTemplates;
+  kickDmEnabled: boolean;
+  warningDelivery: WarningDeliveryMode;
+  warningStages: number[];
+  warningChimeEnabled: boolean;
+  modLogChannelId: string | null;
 }
 
 /**
@@ -136,8 +253,273 @@ interface GuildConfigUpdateRequest {
   warningChannelId?: string | null;
   exemptRoleIds?: string[];
   adminRoleIds?: string[];
+  afkAction?: AFKAction;
+  afkMoveChannelId?: string | null;
+  afkRoleId?: string | null;
+  memberTimeoutSeconds?: number;
+  mode?: EnforcementMode;
+  escalationEnabled?: boolean;
+  escalationWindowSeconds?: number;
+  escalationSteps?: EscalationStepRequest[];
+  escalationNotifyChannelId?: string | null;
+  activitySignals?: ActivitySignal[];
+  activityChannelIds?: string[];
+  scheduleTimeZone?: string;
+  scheduleType?: ScheduleType;
+  scheduleWindows?: ScheduleWindow[];
+  minUsersForTracking?: number;
+  countDeafenedUsers?: boolean;
+  countBots?: boolean;
+  snoozeDailyLimit?: number;
+  exemptChannelIds?: string[];
+  messageLocale?: MessageLocale | null;
+  messageTemplates?: MessageTemplates;
+  kickDmEnabled?: boolean;
+  warningDelivery?: WarningDeliveryMode;
+  warningStages?: number[];
+  warningChimeEnabled?: boolean;
+  modLogChannelId?: string | null;
+}
+
+/**
+ * Message preview request structure. Omitted fields use the guild's saved settings.
+ */
+interface MessagePreviewRequest {
+  messageLocale?: MessageLocale | null;
+  messageTemplates?: MessageTemplates;
+}
+
+/**
+ * Message preview response structure, rendered with sample member and channel names.
+ */
+interface MessagePreviewResponse extends RenderedMessages {
+  guildId: string;
+}
+
+/**
+ * Escalation step in a config update. Omitted fields default to no timeout override and no notification.
+ */
+interface EscalationStepRequest {
+  strikes: number;
+  action: AFKAction;
+  memberTimeoutSeconds?: number | null;
+  notify?: boolean;
+}
+
+/**
+ * Channel override response structure. Null fields inherit.
+ */
+interface ChannelOverrideResponse {
+  channelId: string;
+  enabled: boolean | null;
+  afkTimeoutSeconds: number | null;
+  warningSecondsBefore: number | null;
+  warningChannelId: string | null;
+}
+
+/**
+ * Channel overrides list response structure.
+ */
+interface ChannelOverridesListResponse {
+  guildId: string;
+  overrides: ChannelOverrideResponse[];
+}
+
+/**
+ * Channel override update request structure. Null resets a field to inherit.
+ */
+interface ChannelOverrideUpdateRequest {
+  enabled?: boolean | null;
+  afkTimeoutSeconds?: number | null;
+  warningSecondsBefore?: number | null;
+  warningChannelId?: string | null;
+}
+
+/**
+ * AFK audit event response structure.
+ */
+interface AFKEventResponse {
+  id: number;
+  userId: string;
+  channelId: string | null;
+  action: AFKEventAction;
+  reason: string | null;
+  configSnapshot: AFKEventConfigSnapshot | null;
+  correlationId: string | null;
+  createdAt: string;
+}
+
+/**
+ * AFK audit events page response structure.
+ */
+interface AFKEventsListResponse {
+  guildId: string;
+  events: AFKEventResponse[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * One AFK strike response structure.
+ */
+interface StrikeResponse {
+  id: number;
+  channelId: string | null;
+  action: AFKAction;
+  createdAt: string;
+}
+
+/**
+ * A member's strikes within the guild's escalation window.
+ */
+interface UserStrikesResponse {
+  guildId: string;
+  userId: string;
+  escalationEnabled: boolean;
+  windowSeconds: number;
+  strikeCount: number;
+  strikes: StrikeResponse[];
+}
+
+/**
+ * Strikes cleared response structure.
+ */
+interface StrikesClearedResponse {
+  success: boolean;
+  guildId: string;
+  userId: string;
+  cleared: number;
+}
+
+/**
+ * One temporary exemption response structure.
+ */
+interface ExemptionResponse {
+  id: number;
+  userId: string;
+  source: ExemptionSource;
+  reason: string | null;
+  grantedBy: string | null;
+  expiresAt: string;
+  createdAt: string;
+}
+
+/**
+ * Active exemptions list response structure.
+ */
+interface ExemptionsListResponse {
+  guildId: string;
+  exemptions: ExemptionResponse[];
+}
+
+/**
+ * Exemption create request structure.
+ */
+interface ExemptionCreateRequest {
+  userId: string;
+  durationSeconds: number;
+  reason?: string | null;
+}
+
+/**
+ * Exemptions revoked response structure.
+ */
+interface ExemptionsRevokedResponse {
+  success: boolean;
+  guildId: string;
+  userId: string;
+  revoked: number;
+}
+
+/**
+ * Forced AFK action request structure.
+ */
+interface MemberKickRequest {
+  reason: string;
+}
+
+/**
+ * Member exemption request structure.
+ */
+type MemberExemptRequest = Omit<ExemptionCreateRequest, 'userId'>;
+
+/**
+ * Member timer reset/stop response structure.
+ */
+interface MemberTrackingActionResponse {
+  success: boolean;
+  guildId: string;
+  userId: string;
+  action: 'reset' | 'stop';
+}
+
+/**
+ * Forced AFK action response structure.
+ */
+interface MemberKickResponse {
+  success: boolean;
+  guildId: string;
+  userId: string;
+  outcome: 'kick' | 'kick_failed';
+  detail: string;
+}
+
+/**
+ * Warning chime upload/reset response structure.
+ */
+interface ChimeResponse {
+  success: boolean;
+  guildId: string;
+  customChime: boolean;
+}
+
+/**
+ * Voice activity summary response structure.
+ */
+interface VoiceAnalyticsResponse {
+  guildId: string;
+  from: string;
+  to: string;
+  users: VoiceActivityUserSummary[];
+  channels: VoiceActivityChannelSummary[];
 }
 
+/**
+ * Content types accepted for chime uploads; anything else is left unparsed and rejected.
+ */
+const CHIME_CONTENT_TYPES = ['audio/ogg', 'audio/opus', 'application/ogg'];
+
+const DEFAULT_EVENTS_PAGE_SIZE = 50;
+const MAX_EVENTS_PAGE_SIZE = 100;
+
+const DEFAULT_ANALYTICS_DAYS = 7;
+const MAX_ANALYTICS_DAYS = 366;
+const ANALYTICS_SUMMARY_LIMIT = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ACTIVITY_DAY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Longest native member timeout Discord allows (28 days).
+ */
+const MAX_MEMBER_TIMEOUT_SECONDS = 28 * 24 * 60 * 60;
+
+const MIN_ESCALATION_WINDOW_SECONDS = 60 * 60;
+const MAX_ESCALATION_WINDOW_SECONDS = 365 * 24 * 60 * 60;
+const MAX_ESCALATION_STEPS = 10;
+const MAX_ESCALATION_STRIKES = 100;
+const MAX_SCHEDULE_WINDOWS = 20;
+
+/**
+ * Largest user limit Discord allows on a voice channel.
+ */
+const MAX_MIN_USERS_FOR_TRACKING = 99;
+
+const MAX_SNOOZE_DAILY_LIMIT = 20;
+const MAX_WARNING_STAGES = 5;
+const MAX_EXEMPTION_REASON_LENGTH = 200;
+const MAX_KICK_REASON_LENGTH = 200;
+
 /**
  * Config reset response structure.
  */
@@ -187,6 +569,13 @@ export class AdminApiService {
   private readonly guildConfigService: GuildConfigService;
   private readonly afkDetectionService: AFKDetectionService;
   private readonly voiceConnectionManager: VoiceConnectionManager;
+  private readonly eventRepository: AFKEventRepository;
+  private readonly escalationService: EscalationService;
+  private readonly exemptionService: ExemptionService;
+  private readonly chimeStore: ChimeStore;
+  private readonly voiceActivityRepository: VoiceActivityRepository;
+  private readonly rateLimiter: RateLimiter;
+  private readonly metrics: BotMetrics;
   private readonly logger: Logger;
   private readonly token: string;
   private readonly port: number;
@@ -204,6 +593,13 @@ export class AdminApiService {
     this.guildConfigService = deps.guildConfigService;
     this.afkDetectionService = deps.afkDetectionService;
     this.voiceConnectionManager = deps.voiceConnectionManager;
+    this.eventRepository = deps.eventRepository;
+    this.escalationService = deps.escalationService;
+    this.exemptionService = deps.exemptionService;
+    this.chimeStore = deps.chimeStore;
+    this.voiceActivityRepository = deps.voiceActivityRepository;
+    this.rateLimiter = deps.rateLimiter;
+    this.metrics = deps.metrics;
     this.logger = deps.logger;
     this.token = deps.token;
     this.port = deps.port;
@@ -239,6 +635,18 @@ export class AdminApiService {
       next();
     });
 
+    // Request latency, labelled by route pattern rather than raw path to keep label cardinality bounded
+    this.app.use((req: Request, res: Response, next: NextFunction) => {
+      const start = process.hrtime.bigint();
+      res.on('finish', () => {
+        this.metrics.apiRequestDuration.observe(
+          { method: req.method, route: this.getRouteLabel(req), status: String(res.statusCode) },
+          Number(process.hrtime.bigint() - start) / 1e9
+        );
+      });
+      next();
+    });
+
     // Request logging
     this.app.use((req: RequestWithCorrelation, _res: Response, next: NextFunction) => {
       this.logger.debug(
@@ -261,17 +669,44 @@ export class AdminApiService {
     // Public health check (no auth required)
     this.app.get('/health', this.handleHealth.bind(this));
 
+    // Prometheus scrape endpoint, authenticated with the same Bearer token as the API
+    this.app.get('/metrics', this.authMiddleware.bind(this), this.handleMetrics.bind(this));
+
     // Auth endpoints
     this.app.post('/api/auth/login', this.handleLogin.bind(this));
     this.app.post('/api/auth/logout', this.authMiddleware.bind(this), this.handleLogout.bind(this));
 
     // Protected endpoints (auth required)
     this.app.get('/api/status', this.authMiddleware.bind(this), this.handleStatus.bind(this));
+    this.app.get('/api/rate-limits', this.authMiddleware.bind(this), this.handleRateLimits.bind(this));
     this.app.get('/api/guilds', this.authMiddleware.bind(this), this.handleGuildsList.bind(this));
     this.app.get('/api/guilds/:id/status', this.authMiddleware.bind(this), this.handleGuildStatus.bind(this));
+    this.app.get('/api/guilds/:id/tracking', this.authMiddleware.bind(this), this.handleGuildTracking.bind(this));
     this.app.get('/api/guilds/:id/config', this.authMiddleware.bind(this), this.handleGuildConfig.bind(this));
     this.app.put('/api/guilds/:id/config', this.authMiddleware.bind(this), this.handleGuildConfigUpdate.bind(this));
     this.app.delete('/api/guilds/:id/config', this.authMiddleware.bind(this), this.handleGuildConfigReset.bind(this));
+    this.app.get('/api/guilds/:id/channel-overrides', this.authMiddleware.bind(this), this.handleChannelOverridesList.bind(this));
+    this.app.put('/api/guilds/:id/channel-overrides/:channelId', this.authMiddleware.bind(this), this.handleChannelOverrideUpdate.bind(this));
+    this.app.delete('/api/guilds/:id/channel-overrides/:channelId', this.authMiddleware.bind(this), this.handleChannelOverrideDelete.bind(this));
+    this.app.get('/api/guilds/:id/events', this.authMiddleware.bind(this), this.handleEventsList.bind(this));
+    this.app.get('/api/guilds/:id/analytics', this.authMiddleware.bind(this), this.handleVoiceAnalytics.bind(this));
+    this.app.get('/api/guilds/:id/strikes/:userId', this.authMiddleware.bind(this), this.handleUserStrikes.bind(this));
+    this.app.delete('/api/guilds/:id/strikes/:userId', this.authMiddleware.bind(this), this.handleUserStrikesClear.bind(this));
+    this.app.get('/api/guilds/:id/exemptions', this.authMiddleware.bind(this), this.handleExemptionsList.bind(this));
+    this.app.post('/api/guilds/:id/exemptions', this.authMiddleware.bind(this), this.handleExemptionCreate.bind(this));
+    this.app.delete('/api/guilds/:id/exemptions/:userId', this.authMiddleware.bind(this), this.handleExemptionsRevoke.bind(this));
+    this.app.post('/api/guilds/:id/members/:userId/reset', this.authMiddleware.bind(this), this.handleMemberReset.bind(this));
+    this.app.post('/api/guilds/:id/members/:userId/stop', this.authMiddleware.bind(this), this.handleMemberStop.bind(this));
+    this.app.post('/api/guilds/:id/members/:userId/kick', this.authMiddleware.bind(this), this.handleMemberKick.bind(this));
+    this.app.post('/api/guilds/:id/members/:userId/exempt', this.authMiddleware.bind(this), this.handleMemberExempt.bind(this));
+    this.app.put(
+      '/api/guilds/:id/chime',
+      this.authMiddleware.bind(this),
+      express.raw({ type: CHIME_CONTENT_TYPES, limit: MAX_CHIME_BYTES }),
+      this.handleChimeUpload.bind(this)
+    );
+    this.app.delete('/api/guilds/:id/chime', this.authMiddleware.bind(this), this.handleChimeReset.bind(this));
+    this.app.post('/api/guilds/:id/messages/preview', this.authMiddleware.bind(this), this.handleMessagePreview.bind(this));
     this.app.post('/api/guilds/:id/enable', this.authMiddleware.bind(this), this.handleGuildEnable.bind(this));
     this.app.post('/api/guilds/:id/disable', this.authMiddleware.bind(this), this.handleGuildDisable.bind(this));
 
@@ -286,6 +721,15 @@ export class AdminApiService {
     // Error handler
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     this.app.use((err: Error, req: RequestWithCorrelation, res: Response, _next: NextFunction) => {
+      // Raised by the body parsers when a body is over their limit
+      if ((err as Error & { type?: string }).type === 'entity.too.large') {
+        res.status(413).json({
+          error: 'Payload Too Large',
+          message: 'Request body is too large',
+        } satisfies ErrorResponse);
+        return;
+      }
+
       this.logger.error(
         {
           correlationId: req.correlationId,
@@ -378,6 +822,7 @@ export class AdminApiService {
         },
         'API auth success (session)'
       );
+      req.authType = 'session';
       next();
       return;
     }
@@ -427,6 +872,7 @@ export class AdminApiService {
       'API auth success (bearer token)'
     );
 
+    req.authType = 'bearer';
     next();
   }
 
@@ -451,7 +897,8 @@ export class AdminApiService {
    */
   private handleStatus(req: RequestWithCorrelation, res: Response): void {
     const guilds = this.client.guilds.cache.size;
-    const voiceConnections = this.voiceConnectionManager.getAllGuildIds().length;
+    const voiceConnections = this.voiceConnectionManager.getChannelIds().length;
+    const voiceIdentities = this.voiceConnectionManager.getIdentityCount();
     const memoryUsage = process.memoryUsage();
 
     this.logger.info(
@@ -467,6 +914,7 @@ export class AdminApiService {
     res.json({
       guilds,
       voiceConnections,
+      voiceIdentities,
       memory: {
         heapUsed: memoryUsage.heapUsed,
         heapTotal: memoryUsage.heapTotal,
@@ -475,6 +923,45 @@ export class AdminApiService {
     } satisfies StatusResponse);
   }
 
+  /**
+   * GET /metrics - Prometheus text-format metrics.
+   */
+  private handleMetrics(req: RequestWithCorrelation, res: Response): void {
+    this.refreshStateGauges();
+
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug(
+        {
+          correlationId: req.correlationId,
+          ip: req.ip,
+          action: 'metrics_scrape',
+        },
+        'Metrics endpoint accessed'
+      );
+    }
+
+    res.set('Content-Type', PROMETHEUS_CONTENT_TYPE).send(this.metrics.registry.render());
+  }
+
+  /**
+   * GET /api/rate-limits - Rate limiter backpressure: safe mode, paused guilds and token buckets.
+   */
+  private handleRateLimits(req: RequestWithCorrelation, res: Response): void {
+    const state = this.rateLimiter.getState();
+
+    this.logger.info(
+      {
+        correlationId: req.correlationId,
+        ip: req.ip,
+        safeMode: state.safeMode,
+        pausedGuilds: state.pausedGuilds.length,
+      },
+      'Rate limits endpoint accessed'
+    );
+
+    res.json(state satisfies RateLimiterState);
+  }
+
   /**
    * GET /api/guilds - List all guilds the bot is in.
    */
@@ -506,7 +993,7 @@ export class AdminApiService {
   private handleGuildStatus(req: RequestWithCorrelation, res: Response): void {
     const guildId = req.params['id'];
 
-    if (guildId === undefined || guildId === '' || !this.isValidGuildId(guildId)) {
+    if (typeof guildId !== 'string' || guildId === '' || !this.isValidGuildId(guildId)) {
       res.status(400).json({
         error: 'Bad Request',
         message: 'Invalid guild ID format',
@@ -526,6 +1013,11 @@ export class AdminApiService {
 
     const config = this.guildConfigService.getConfig(guildId);
     const connected = this.voiceConnectionManager.hasConnection(guildId);
+    const trackedCounts = this.afkDetectionService.getTrackedCountsByChannel(guildId);
+    const channels = this.voiceConnectionManager.getChannelIds(guildId).map((channelId) => ({
+      channelId,
+      trackedUsers: trackedCounts.get(channelId) ?? 0,
+    }));
 
     this.logger.info(
       {
@@ -534,19 +1026,70 @@ export class AdminApiService {
         guildId,
         enabled: config.enabled,
         connected,
+        channelCount: channels.length,
       },
       'Guild status endpoint accessed'
     );
 
+    const observedSummary = config.mode !== 'enforce'
+      ? this.eventRepository.summarizeObserved(guildId, Date.now() - OBSERVED_SUMMARY_WINDOW_MS)
+      : null;
+
     res.json({
       guildId,
       enabled: config.enabled,
       afkTimeoutSeconds: config.afkTimeoutSeconds,
       warningSecondsBefore: config.warningSecondsBefore,
+      mode: config.mode,
       connected,
+      channels,
+      observedSummary,
     } satisfies GuildStatusResponse);
   }
 
+  /**
+   * GET /api/guilds/:id/tracking - Live AFK timers: the channels the bot monitors and every
+   * member being timed, soonest AFK action first.
+   */
+  private handleGuildTracking(req: RequestWithCorrelation, res: Response): void {
+    const guildId = req.params['id'];
+
+    if (typeof guildId !== 'string' || !this.isValidGuildId(guildId)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid guild ID format',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (!this.client.guilds.cache.get(guildId)) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Bot is not in the specified guild',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    const now = Date.now();
+    const trackedUsers = this.afkDetectionService.getTrackedUsers(guildId);
+
+    this.logger.info(
+      {
+        correlationId: req.correlationId,
+        ip: req.ip,
+        guildId,
+        resultCount: trackedUsers.length,
+      },
+      'Guild tracking endpoint accessed'
+    );
+
+    res.json({
+      guildId,
+      monitoredChannelIds: this.voiceConnectionManager.getChannelIds(guildId),
+      trackedUsers: trackedUsers.map(tracked => this.buildTrackedUserResponse(tracked, now)),
+    } satisfies GuildTrackingResponse);
+  }
+
   /**
    * GET /api/guilds/:id/config - Get full guild configuration.
    */
@@ -582,15 +1125,7 @@ export class AdminApiService {
       'Guild config endpoint accessed'
     );
 
-    res.json({
-      guildId,
-      enabled: config.enabled,
-      afkTimeoutSeconds: config.afkTimeoutSeconds,
-      warningSecondsBefore: config.warningSecondsBefore,
-      warningChannelId: config.warningChannelId,
-      exemptRoleIds: config.exemptRoleIds,
-      adminRoleIds: config.adminRoleIds,
-    } satisfies GuildConfigResponse);
+    res.json(this.buildConfigResponse(guildId, config));
   }
 
   /**
@@ -621,7 +1156,40 @@ export class AdminApiService {
     const updates = req.body as GuildConfigUpdateRequest;
 
     // Check for empty body and unknown fields
-    const validFields = ['enabled', 'afkTimeoutSeconds', 'warningSecondsBefore', 'warningChannelId', 'exemptRoleIds', 'adminRoleIds'];
+    const validFields = [
+      'enabled',
+      'afkTimeoutSeconds',
+      'warningSecondsBefore',
+      'warningChannelId',
+      'exemptRoleIds',
+      'adminRoleIds',
+      'afkAction',
+      'afkMoveChannelId',
+      'afkRoleId',
+      'memberTimeoutSeconds',
+      'mode',
+      'escalationEnabled',
+      'escalationWindowSeconds',
+      'escalationSteps',
+      'escalationNotifyChannelId',
+      'activitySignals',
+      'activityChannelIds',
+      'scheduleTimeZone',
+      'scheduleType',
+      'scheduleWindows',
+      'minUsersForTracking',
+      'countDeafenedUsers',
+      'countBots',
+      'snoozeDailyLimit',
+      'exemptChannelIds',
+      'messageLocale',
+      'messageTemplates',
+      'kickDmEnabled',
+      'warningDelivery',
+      'warningStages',
+      'warningChimeEnabled',
+      'modLogChannelId',
+    ];
     const bodyKeys = Object.keys(req.body as object);
     const providedFields = bodyKeys.filter(key => validFields.includes(key));
 
@@ -725,53 +1293,1737 @@ export class AdminApiService {
       }
     }
 
-    try {
-      const updatedConfig = this.guildConfigService.updateConfig(guildId, updates);
+    // Validate afkAction and check the bot can actually perform it
+    if (updates.afkAction !== undefined) {
+      if (!AFK_ACTIONS.includes(updates.afkAction)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `afkAction must be one of: ${AFK_ACTIONS.join(', ')}`,
+        } satisfies ErrorResponse);
+        return;
+      }
 
-      this.logger.info(
-        {
-          correlationId: req.correlationId,
-          ip: req.ip,
-          guildId,
-          action: 'update_guild_config',
-          updates: Object.keys(updates),
-        },
-        'Guild config updated via API'
-      );
+      const missingPermissions = getMissingAFKActionPermissions(guild.members.me, updates.afkAction);
+      if (missingPermissions.length > 0) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `Bot is missing permission(s) for afkAction '${updates.afkAction}': ${missingPermissions.join(', ')}`,
+        } satisfies ErrorResponse);
+        return;
+      }
+    }
 
-      res.json({
-        guildId,
-        enabled: updatedConfig.enabled,
-        afkTimeoutSeconds: updatedConfig.afkTimeoutSeconds,
-        warningSecondsBefore: updatedConfig.warningSecondsBefore,
-        warningChannelId: updatedConfig.warningChannelId,
-        exemptRoleIds: updatedConfig.exemptRoleIds,
-        adminRoleIds: updatedConfig.adminRoleIds,
-      } satisfies GuildConfigResponse);
-    } catch (error) {
-      this.logger.error(
-        {
-          correlationId: req.correlationId,
-          error,
-          guildId,
-        },
-        'Failed to update guild config'
-      );
+    // Validate afkMoveChannelId
+    if (updates.afkMoveChannelId !== undefined && updates.afkMoveChannelId !== null) {
+      if (typeof updates.afkMoveChannelId !== 'string' || !this.isValidGuildId(updates.afkMoveChannelId)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'afkMoveChannelId must be null or a valid Discord snowflake',
+        } satisfies ErrorResponse);
+        return;
+      }
+    }
 
-      res.status(500).json({
-        error: 'Internal Server Error',
-        message: 'Failed to update guild config',
-      } satisfies ErrorResponse);
+    // Validate afkRoleId
+    if (updates.afkRoleId !== undefined && updates.afkRoleId !== null) {
+      if (typeof updates.afkRoleId !== 'string' || !this.isValidGuildId(updates.afkRoleId)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'afkRoleId must be null or a valid Discord snowflake',
+        } satisfies ErrorResponse);
+        return;
+      }
     }
-  }
 
-  /**
+    // Validate memberTimeoutSeconds
+    if (updates.memberTimeoutSeconds !== undefined) {
+      if (
+        typeof updates.memberTimeoutSeconds !== 'number' ||
+        updates.memberTimeoutSeconds < 1 ||
+        updates.memberTimeoutSeconds > MAX_MEMBER_TIMEOUT_SECONDS
+      ) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `memberTimeoutSeconds must be between 1 and ${MAX_MEMBER_TIMEOUT_SECONDS}`,
+        } satisfies ErrorResponse);
+        return;
+      }
+    }
+
+    // Validate mode
+    if (updates.mode !== undefined && !ENFORCEMENT_MODES.includes(updates.mode)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `mode must be one of: ${ENFORCEMENT_MODES.join(', ')}`,
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    // Validate escalation settings; each step's action must be one the bot can perform
+    if (updates.escalationEnabled !== undefined && typeof updates.escalationEnabled !== 'boolean') {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'escalationEnabled must be a boolean',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (updates.escalationWindowSeconds !== undefined) {
+      if (
+        typeof updates.escalationWindowSeconds !== 'number' ||
+        !Number.isInteger(updates.escalationWindowSeconds) ||
+        updates.escalationWindowSeconds < MIN_ESCALATION_WINDOW_SECONDS ||
+        updates.escalationWindowSeconds > MAX_ESCALATION_WINDOW_SECONDS
+      ) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `escalationWindowSeconds must be an integer between ${MIN_ESCALATION_WINDOW_SECONDS} and ${MAX_ESCALATION_WINDOW_SECONDS}`,
+        } satisfies ErrorResponse);
+        return;
+      }
+    }
+
+    if (updates.escalationSteps !== undefined) {
+      const stepsError = this.validateEscalationSteps(updates.escalationSteps);
+      if (stepsError !== null) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: stepsError,
+        } satisfies ErrorResponse);
+        return;
+      }
+
+      for (const step of updates.escalationSteps) {
+        const missingPermissions = getMissingAFKActionPermissions(guild.members.me, step.action);
+        if (missingPermissions.length > 0) {
+          res.status(400).json({
+            error: 'Bad Request',
+            message: `Bot is missing permission(s) for escalation action '${step.action}': ${missingPermissions.join(', ')}`,
+          } satisfies ErrorResponse);
+          return;
+        }
+      }
+    }
+
+    if (updates.escalationNotifyChannelId !== undefined && updates.escalationNotifyChannelId !== null) {
+      if (typeof updates.escalationNotifyChannelId !== 'string' || !this.isValidGuildId(updates.escalationNotifyChannelId)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'escalationNotifyChannelId must be null or a valid Discord snowflake',
+        } satisfies ErrorResponse);
+        return;
+      }
+    }
+
+    if (updates.activitySignals !== undefined) {
+      if (
+        !Array.isArray(updates.activitySignals) ||
+        !updates.activitySignals.every(signal => (ACTIVITY_SIGNALS as readonly unknown[]).includes(signal))
+      ) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `activitySignals must be an array containing only: ${ACTIVITY_SIGNALS.join(', ')}`,
+        } satisfies ErrorResponse);
+        return;
+      }
+    }
+
+    if (updates.activityChannelIds !== undefined) {
+      if (
+        !Array.isArray(updates.activityChannelIds) ||
+        !updates.activityChannelIds.every(channelId => typeof channelId === 'string' && this.isValidGuildId(channelId))
+      ) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'activityChannelIds must be an array of valid Discord snowflakes',
+        } satisfies ErrorResponse);
+        return;
+      }
+    }
+
+    if (updates.scheduleTimeZone !== undefined) {
+      if (typeof updates.scheduleTimeZone !== 'string' || !isValidTimeZone(updates.scheduleTimeZone)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'scheduleTimeZone must be a valid IANA time zone, e.g. Europe/Berlin',
+        } satisfies ErrorResponse);
+        return;
+      }
+    }
+
+    if (updates.scheduleType !== undefined && !SCHEDULE_TYPES.includes(updates.scheduleType)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `scheduleType must be one of: ${SCHEDULE_TYPES.join(', ')}`,
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (updates.scheduleWindows !== undefined) {
+      const windowsError = this.validateScheduleWindows(updates.scheduleWindows);
+      if (windowsError !== null) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: windowsError,
+        } satisfies ErrorResponse);
+        return;
+      }
+    }
+
+    if (updates.minUsersForTracking !== undefined) {
+      if (
+        typeof updates.minUsersForTracking !== 'number' ||
+        !Number.isInteger(updates.minUsersForTracking) ||
+        updates.minUsersForTracking < 1 ||
+        updates.minUsersForTracking > MAX_MIN_USERS_FOR_TRACKING
+      ) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `minUsersForTracking must be an integer between 1 and ${MAX_MIN_USERS_FOR_TRACKING}`,
+        } satisfies ErrorResponse);
+        return;
+      }
+    }
+
+    if (updates.countDeafenedUsers !== undefined && typeof updates.countDeafenedUsers !== 'boolean') {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'countDeafenedUsers must be a boolean',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (updates.countBots !== undefined && typeof updates.countBots !== 'boolean') {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'countBots must be a boolean',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (updates.snoozeDailyLimit !== undefined) {
+      if (
+        typeof updates.snoozeDailyLimit !== 'number' ||
+        !Number.isInteger(updates.snoozeDailyLimit) ||
+        updates.snoozeDailyLimit < 0 ||
+        updates.snoozeDailyLimit > MAX_SNOOZE_DAILY_LIMIT
+      ) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `snoozeDailyLimit must be an integer between 0 and ${MAX_SNOOZE_DAILY_LIMIT}`,
+        } satisfies ErrorResponse);
+        return;
+      }
+    }
+
+    if (updates.exemptChannelIds !== undefined) {
+      if (
+        !Array.isArray(updates.exemptChannelIds) ||
+        !updates.exemptChannelIds.every(channelId => typeof channelId === 'string' && this.isValidGuildId(channelId))
+      ) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'exemptChannelIds must be an array of valid Discord snowflakes',
+        } satisfies ErrorResponse);
+        return;
+      }
+    }
+
+    if (updates.messageLocale !== undefined && updates.messageLocale !== null && !MESSAGE_LOCALES.includes(updates.messageLocale)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `messageLocale must be null or one of: ${MESSAGE_LOCALES.join(', ')}`,
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (updates.messageTemplates !== undefined) {
+      const templatesError = this.validateMessageTemplates(updates.messageTemplates);
+      if (templatesError !== null) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: templatesError,
+        } satisfies ErrorResponse);
+        return;
+      }
+    }
+
+    if (updates.kickDmEnabled !== undefined && typeof updates.kickDmEnabled !== 'boolean') {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'kickDmEnabled must be a boolean',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (updates.warningDelivery !== undefined && !WARNING_DELIVERY_MODES.includes(updates.warningDelivery)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `warningDelivery must be one of: ${WARNING_DELIVERY_MODES.join(', ')}`,
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (updates.warningStages !== undefined) {
+      if (
+        !Array.isArray(updates.warningStages) ||
+        updates.warningStages.length > MAX_WARNING_STAGES ||
+        !updates.warningStages.every(stage => Number.isInteger(stage) && stage > 0) ||
+        new Set(updates.warningStages).size !== updates.warningStages.length
+      ) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `warningStages must be an array of at most ${MAX_WARNING_STAGES} distinct positive integers`,
+        } satisfies ErrorResponse);
+        return;
+      }
+    }
+
+    if (updates.warningChimeEnabled !== undefined && typeof updates.warningChimeEnabled !== 'boolean') {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'warningChimeEnabled must be a boolean',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (updates.modLogChannelId !== undefined && updates.modLogChannelId !== null) {
+      if (typeof updates.modLogChannelId !== 'string' || !this.isValidGuildId(updates.modLogChannelId)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'modLogChannelId must be null or a valid Discord snowflake',
+        } satisfies ErrorResponse);
+        return;
+      }
+    }
+
+    const { escalationSteps, ...settingsUpdates } = updates;
+
+    try {
+      const updatedConfig = this.guildConfigService.updateConfig(guildId, {
+        ...settingsUpdates,
+        ...(escalationSteps !== undefined && { escalationSteps: this.normalizeEscalationSteps(escalationSteps) }),
+        ...(settingsUpdates.warningStages !== undefined && { warningStages: [...settingsUpdates.warningStages].sort((a, b) => b - a) }),
+      });
+
+      this.logger.info(
+        {
+          correlationId: req.correlationId,
+          ip: req.ip,
+          guildId,
+          action: 'update_guild_config',
+          updates: Object.keys(updates),
+        },
+        'Guild config updated via API'
+      );
+
+      res.json(this.buildConfigResponse(guildId, updatedConfig));
+    } catch (error) {
+      this.logger.error(
+        {
+          correlationId: req.correlationId,
+          error,
+          guildId,
+        },
+        'Failed to update guild config'
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to update guild config',
+      } satisfies ErrorResponse);
+    }
+  }
+
+  /**
    * DELETE /api/guilds/:id/config - Reset guild configuration to defaults.
    */
-  private handleGuildConfigReset(req: RequestWithCorrelation, res: Response): void {
+  private handleGuildConfigReset(req: RequestWithCorrelation, res: Response): void {
+    const guildId = req.params['id'];
+
+    if (guildId === undefined || guildId === '' || !this.isValidGuildId(guildId)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid guild ID format',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    // Check if bot is in the guild
+    const guild = this.client.guilds.cache.get(guildId);
+    if (!guild) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Bot is not in the specified guild',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    try {
+      this.guildConfigService.resetConfig(guildId);
+
+      this.logger.info(
+        {
+          correlationId: req.correlationId,
+          ip: req.ip,
+          guildId,
+          action: 'reset_guild_config',
+        },
+        'Guild config reset to defaults via API'
+      );
+
+      res.json({
+        success: true,
+        guildId,
+        message: 'Guild configuration reset to defaults',
+      } satisfies ConfigResetResponse);
+    } catch (error) {
+      this.logger.error(
+        {
+          correlationId: req.correlationId,
+          error,
+          guildId,
+        },
+        'Failed to reset guild config'
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to reset guild config',
+      } satisfies ErrorResponse);
+    }
+  }
+
+  /**
+   * POST /api/guilds/:id/messages/preview - Render the guild's warning and kick
+   * messages, optionally with an unsaved locale or templates.
+   */
+  private handleMessagePreview(req: RequestWithCorrelation, res: Response): void {
+    const guildId = req.params['id'];
+
+    if (typeof guildId !== 'string' || !this.isValidGuildId(guildId)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid guild ID format',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    const guild = this.client.guilds.cache.get(guildId);
+    if (!guild) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Bot is not in the specified guild',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    const body = (req.body ?? {}) as MessagePreviewRequest;
+    const unknownFields = Object.keys(body).filter(key => key !== 'messageLocale' && key !== 'messageTemplates');
+    if (unknownFields.length > 0) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `Unknown field(s): ${unknownFields.join(', ')}`,
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (body.messageLocale !== undefined && body.messageLocale !== null && !MESSAGE_LOCALES.includes(body.messageLocale)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `messageLocale must be null or one of: ${MESSAGE_LOCALES.join(', ')}`,
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (body.messageTemplates !== undefined) {
+      const templatesError = this.validateMessageTemplates(body.messageTemplates);
+      if (templatesError !== null) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: templatesError,
+        } satisfies ErrorResponse);
+        return;
+      }
+    }
+
+    try {
+      const config = this.guildConfigService.getConfig(guildId);
+      const messages = renderMessages(
+        {
+          ...config,
+          ...(body.messageLocale !== undefined && { messageLocale: body.messageLocale }),
+          ...(body.messageTemplates !== undefined && { messageTemplates: body.messageTemplates }),
+        },
+        guild.preferredLocale,
+        { user: '@member', channel: '#voice-channel', serverName: guild.name }
+      );
+
+      this.logger.info(
+        {
+          correlationId: req.correlationId,
+          ip: req.ip,
+          guildId,
+          locale: messages.locale,
+        },
+        'Message preview rendered via API'
+      );
+
+      res.json({ guildId, ...messages } satisfies MessagePreviewResponse);
+    } catch (error) {
+      this.logger.error(
+        {
+          correlationId: req.correlationId,
+          error,
+          guildId,
+        },
+        'Failed to render message preview'
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to render message preview',
+      } satisfies ErrorResponse);
+    }
+  }
+
+  /**
+   * GET /api/guilds/:id/channel-overrides - List per-channel and per-category overrides.
+   */
+  private handleChannelOverridesList(req: RequestWithCorrelation, res: Response): void {
+    const guildId = req.params['id'];
+
+    if (typeof guildId !== 'string' || !this.isValidGuildId(guildId)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid guild ID format',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (!this.client.guilds.cache.get(guildId)) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Bot is not in the specified guild',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    const overrides = this.guildConfigService.getChannelOverrides(guildId);
+
+    this.logger.info(
+      {
+        correlationId: req.correlationId,
+        ip: req.ip,
+        guildId,
+      },
+      'Channel overrides endpoint accessed'
+    );
+
+    res.json({
+      guildId,
+      overrides: overrides.map(override => this.buildChannelOverrideResponse(override)),
+    } satisfies ChannelOverridesListResponse);
+  }
+
+  /**
+   * PUT /api/guilds/:id/channel-overrides/:channelId - Create or update an override.
+   * The channel may be a voice channel or a category; null fields reset to inherit.
+   */
+  private handleChannelOverrideUpdate(req: RequestWithCorrelation, res: Response): void {
+    const guildId = req.params['id'];
+    const channelId = req.params['channelId'];
+
+    if (typeof guildId !== 'string' || !this.isValidGuildId(guildId)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid guild ID format',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (typeof channelId !== 'string' || !this.isValidGuildId(channelId)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid channel ID format',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    const guild = this.client.guilds.cache.get(guildId);
+    if (!guild) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Bot is not in the specified guild',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    const updates = req.body as ChannelOverrideUpdateRequest;
+    const validFields = ['enabled', 'afkTimeoutSeconds', 'warningSecondsBefore', 'warningChannelId'];
+    const bodyKeys = Object.keys(req.body as object);
+
+    if (bodyKeys.length === 0) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'At least one field must be provided',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    const unknownFields = bodyKeys.filter(key => !validFields.includes(key));
+    if (unknownFields.length > 0) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `Unknown field(s): ${unknownFields.join(', ')}`,
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (updates.enabled !== undefined && updates.enabled !== null && typeof updates.enabled !== 'boolean') {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'enabled must be a boolean or null',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (updates.afkTimeoutSeconds !== undefined && updates.afkTimeoutSeconds !== null) {
+      if (typeof updates.afkTimeoutSeconds !== 'number' || updates.afkTimeoutSeconds < 1) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'afkTimeoutSeconds must be null or greater than 0',
+        } satisfies ErrorResponse);
+        return;
+      }
+    }
+
+    if (updates.warningSecondsBefore !== undefined && updates.warningSecondsBefore !== null) {
+      if (typeof updates.warningSecondsBefore !== 'number' || updates.warningSecondsBefore < 0) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'warningSecondsBefore must be null or greater than or equal to 0',
+        } satisfies ErrorResponse);
+        return;
+      }
+    }
+
+    if (updates.warningChannelId !== undefined && updates.warningChannelId !== null) {
+      if (typeof updates.warningChannelId !== 'string' || !this.isValidGuildId(updates.warningChannelId)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'warningChannelId must be null or a valid Discord snowflake',
+        } satisfies ErrorResponse);
+        return;
+      }
+    }
+
+    // The warning must still fire before the timeout once inheritance is applied.
+    // A channel without a category (or a category itself) inherits straight from the guild.
+    const parentId = guild.channels.cache.get(channelId)?.parentId ?? null;
+    const inherited = parentId !== null
+      ? this.guildConfigService.getEffectiveConfig(guildId, parentId)
+      : this.guildConfigService.getConfig(guildId);
+    const existing = this.guildConfigService
+      .getChannelOverrides(guildId)
+      .find(override => override.channelId === channelId);
+    const merged = { ...existing, ...updates };
+    const effectiveTimeout = merged.afkTimeoutSeconds ?? inherited.afkTimeoutSeconds;
+    const effectiveWarning = merged.warningSecondsBefore ?? inherited.warningSecondsBefore;
+
+    if (effectiveWarning >= effectiveTimeout) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `warningSecondsBefore (${effectiveWarning}) must be less than afkTimeoutSeconds (${effectiveTimeout})`,
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    try {
+      const override = this.guildConfigService.setChannelOverride(
+        guildId,
+        channelId,
+        updates as Partial<ChannelOverrideFields>
+      );
+
+      this.logger.info(
+        {
+          correlationId: req.correlationId,
+          ip: req.ip,
+          guildId,
+          channelId,
+          action: 'update_channel_override',
+          updates: bodyKeys,
+        },
+        'Channel override updated via API'
+      );
+
+      res.json(this.buildChannelOverrideResponse(override));
+    } catch (error) {
+      this.logger.error(
+        {
+          correlationId: req.correlationId,
+          error,
+          guildId,
+          channelId,
+        },
+        'Failed to update channel override'
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to update channel override',
+      } satisfies ErrorResponse);
+    }
+  }
+
+  /**
+   * DELETE /api/guilds/:id/channel-overrides/:channelId - Remove an override.
+   */
+  private handleChannelOverrideDelete(req: RequestWithCorrelation, res: Response): void {
+    const guildId = req.params['id'];
+    const channelId = req.params['channelId'];
+
+    if (typeof guildId !== 'string' || !this.isValidGuildId(guildId)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid guild ID format',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (typeof channelId !== 'string' || !this.isValidGuildId(channelId)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid channel ID format',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (!this.client.guilds.cache.get(guildId)) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Bot is not in the specified guild',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    try {
+      const removed = this.guildConfigService.removeChannelOverride(guildId, channelId);
+      if (!removed) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: 'No override exists for the specified channel',
+        } satisfies ErrorResponse);
+        return;
+      }
+
+      this.logger.info(
+        {
+          correlationId: req.correlationId,
+          ip: req.ip,
+          guildId,
+          channelId,
+          action: 'delete_channel_override',
+        },
+        'Channel override removed via API'
+      );
+
+      res.status(204).send();
+    } catch (error) {
+      this.logger.error(
+        {
+          correlationId: req.correlationId,
+          error,
+          guildId,
+          channelId,
+        },
+        'Failed to remove channel override'
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to remove channel override',
+      } satisfies ErrorResponse);
+    }
+  }
+
+  /**
+   * GET /api/guilds/:id/events - Page through the AFK audit log, newest first.
+   * Filters: userId, channelId, action (comma-separated), since/until (ISO 8601), limit, offset.
+   */
+  private handleEventsList(req: RequestWithCorrelation, res: Response): void {
+    const guildId = req.params['id'];
+
+    if (typeof guildId !== 'string' || !this.isValidGuildId(guildId)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid guild ID format',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (!this.client.guilds.cache.get(guildId)) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Bot is not in the specified guild',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    const query = req.query;
+    for (const key of ['userId', 'channelId', 'action', 'since', 'until', 'limit', 'offset']) {
+      if (query[key] !== undefined && typeof query[key] !== 'string') {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `${key} must be a single value`,
+        } satisfies ErrorResponse);
+        return;
+      }
+    }
+
+    const userId = query['userId'] as string | undefined;
+    const channelId = query['channelId'] as string | undefined;
+    const action = query['action'] as string | undefined;
+
+    if (userId !== undefined && !this.isValidGuildId(userId)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid user ID format',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (channelId !== undefined && !this.isValidGuildId(channelId)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid channel ID format',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    const actions = action !== undefined ? action.split(',') : undefined;
+    const invalidAction = actions?.find(a => !(AFK_EVENT_ACTIONS as readonly string[]).includes(a));
+    if (invalidAction !== undefined) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `action must be one of: ${AFK_EVENT_ACTIONS.join(', ')}`,
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    const since = this.parseTimestampParam(query['since'] as string | undefined);
+    const until = this.parseTimestampParam(query['until'] as string | undefined);
+    if (Number.isNaN(since) || Number.isNaN(until)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'since and until must be ISO 8601 timestamps',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    const limit = query['limit'] !== undefined ? Number(query['limit']) : DEFAULT_EVENTS_PAGE_SIZE;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_EVENTS_PAGE_SIZE) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `limit must be an integer between 1 and ${MAX_EVENTS_PAGE_SIZE}`,
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    const offset = query['offset'] !== undefined ? Number(query['offset']) : 0;
+    if (!Number.isInteger(offset) || offset < 0) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'offset must be a non-negative integer',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    try {
+      const page = this.eventRepository.find({
+        guildId,
+        userId,
+        channelId,
+        actions: actions as AFKEventAction[] | undefined,
+        since,
+        until,
+        limit,
+        offset,
+      });
+
+      this.logger.info(
+        {
+          correlationId: req.correlationId,
+          ip: req.ip,
+          guildId,
+          resultCount: page.events.length,
+        },
+        'AFK events endpoint accessed'
+      );
+
+      res.json({
+        guildId,
+        events: page.events.map(event => this.buildEventResponse(event)),
+        total: page.total,
+        limit,
+        offset,
+      } satisfies AFKEventsListResponse);
+    } catch (error) {
+      this.logger.error(
+        {
+          correlationId: req.correlationId,
+          ip: req.ip,
+          guildId,
+          error,
+        },
+        'Failed to query AFK events'
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to query AFK events',
+      } satisfies ErrorResponse);
+    }
+  }
+
+  /**
+   * GET /api/guilds/:id/analytics - Voice activity over a range of UTC days, both ends inclusive.
+   * Query: from/to (YYYY-MM-DD, default the last 7 days), format (json or csv).
+   * JSON sums activity per member and per channel; CSV exports the daily rollups.
+   */
+  private handleVoiceAnalytics(req: RequestWithCorrelation, res: Response): void {
+    const guildId = req.params['id'];
+
+    if (typeof guildId !== 'string' || !this.isValidGuildId(guildId)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid guild ID format',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (!this.client.guilds.cache.get(guildId)) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Bot is not in the specified guild',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    const query = req.query;
+    for (const key of ['from', 'to', 'format']) {
+      if (query[key] !== undefined && typeof query[key] !== 'string') {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `${key} must be a single value`,
+        } satisfies ErrorResponse);
+        return;
+      }
+    }
+
+    const to = (query['to'] as string | undefined) ?? toActivityDay(Date.now());
+    const toTime = this.parseActivityDay(to);
+    const from = (query['from'] as string | undefined) ??
+      (Number.isNaN(toTime) ? to : toActivityDay(toTime - (DEFAULT_ANALYTICS_DAYS - 1) * DAY_MS));
+    const fromTime = this.parseActivityDay(from);
+    if (Number.isNaN(fromTime) || Number.isNaN(toTime)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'from and to must be dates in YYYY-MM-DD format',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (fromTime > toTime || (toTime - fromTime) / DAY_MS + 1 > MAX_ANALYTICS_DAYS) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `from must not be after to, and the range must span at most ${MAX_ANALYTICS_DAYS} days`,
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    const format = (query['format'] as string | undefined) ?? 'json';
+    if (format !== 'json' && format !== 'csv') {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'format must be one of: json, csv',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    try {
+      if (format === 'csv') {
+        const rollups = this.voiceActivityRepository.find(guildId, from, to);
+        const lines = [
+          'day,user_id,channel_id,speaking_ms,present_ms,speaking_sessions',
+          ...rollups.map(rollup =>
+            [rollup.day, rollup.userId, rollup.channelId, rollup.speakingMs, rollup.presentMs, rollup.speakingSessions].join(',')
+          ),
+        ];
+
+        this.logger.info(
+          {
+            correlationId: req.correlationId,
+            ip: req.ip,
+            guildId,
+            from,
+            to,
+            format,
+            resultCount: rollups.length,
+          },
+          'Voice analytics endpoint accessed'
+        );
+
+        res
+          .set('Content-Type', 'text/csv; charset=utf-8')
+          .set('Content-Disposition', `attachment; filename="voice-activity-${guildId}-${from}-${to}.csv"`)
+          .send(`${lines.join('\n')}\n`);
+        return;
+      }
+
+      const users = this.voiceActivityRepository.summarizeUsers(guildId, from, to, 'speaking', ANALYTICS_SUMMARY_LIMIT);
+      const channels = this.voiceActivityRepository.summarizeChannels(guildId, from, to, ANALYTICS_SUMMARY_LIMIT);
+
+      this.logger.info(
+        {
+          correlationId: req.correlationId,
+          ip: req.ip,
+          guildId,
+          from,
+          to,
+          format,
+          resultCount: users.length,
+        },
+        'Voice analytics endpoint accessed'
+      );
+
+      res.json({ guildId, from, to, users, channels } satisfies VoiceAnalyticsResponse);
+    } catch (error) {
+      this.logger.error(
+        {
+          correlationId: req.correlationId,
+          ip: req.ip,
+          guildId,
+          error,
+        },
+        'Failed to query voice analytics'
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to query voice analytics',
+      } satisfies ErrorResponse);
+    }
+  }
+
+  /**
+   * GET /api/guilds/:id/strikes/:userId - A member's strikes within the escalation window.
+   */
+  private handleUserStrikes(req: RequestWithCorrelation, res: Response): void {
+    const guildId = req.params['id'];
+    const userId = req.params['userId'];
+
+    if (typeof guildId !== 'string' || !this.isValidGuildId(guildId)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid guild ID format',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (typeof userId !== 'string' || !this.isValidGuildId(userId)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid user ID format',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (!this.client.guilds.cache.get(guildId)) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Bot is not in the specified guild',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    try {
+      const config = this.guildConfigService.getConfig(guildId);
+      const strikes = this.escalationService.getActiveStrikes(config, userId);
+
+      this.logger.info(
+        {
+          correlationId: req.correlationId,
+          ip: req.ip,
+          guildId,
+          userId,
+        },
+        'User strikes endpoint accessed'
+      );
+
+      res.json({
+        guildId,
+        userId,
+        escalationEnabled: config.escalationEnabled,
+        windowSeconds: config.escalationWindowSeconds,
+        strikeCount: strikes.length,
+        strikes: strikes.map(strike => this.buildStrikeResponse(strike)),
+      } satisfies UserStrikesResponse);
+    } catch (error) {
+      this.logger.error(
+        {
+          correlationId: req.correlationId,
+          error,
+          guildId,
+          userId,
+        },
+        'Failed to query AFK strikes'
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to query AFK strikes',
+      } satisfies ErrorResponse);
+    }
+  }
+
+  /**
+   * DELETE /api/guilds/:id/strikes/:userId - Clear a member's strike history.
+   */
+  private handleUserStrikesClear(req: RequestWithCorrelation, res: Response): void {
+    const guildId = req.params['id'];
+    const userId = req.params['userId'];
+
+    if (typeof guildId !== 'string' || !this.isValidGuildId(guildId)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid guild ID format',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (typeof userId !== 'string' || !this.isValidGuildId(userId)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid user ID format',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (!this.client.guilds.cache.get(guildId)) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Bot is not in the specified guild',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    try {
+      const cleared = this.escalationService.clearStrikes(guildId, userId);
+
+      this.logger.info(
+        {
+          correlationId: req.correlationId,
+          ip: req.ip,
+          guildId,
+          userId,
+          cleared,
+          action: 'clear_user_strikes',
+        },
+        'User strikes cleared via API'
+      );
+
+      res.json({
+        success: true,
+        guildId,
+        userId,
+        cleared,
+      } satisfies StrikesClearedResponse);
+    } catch (error) {
+      this.logger.error(
+        {
+          correlationId: req.correlationId,
+          error,
+          guildId,
+          userId,
+        },
+        'Failed to clear AFK strikes'
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to clear AFK strikes',
+      } satisfies ErrorResponse);
+    }
+  }
+
+  /**
+   * GET /api/guilds/:id/exemptions - List the guild's active temporary exemptions.
+   */
+  private handleExemptionsList(req: RequestWithCorrelation, res: Response): void {
+    const guildId = req.params['id'];
+
+    if (typeof guildId !== 'string' || !this.isValidGuildId(guildId)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid guild ID format',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (!this.client.guilds.cache.get(guildId)) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Bot is not in the specified guild',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    try {
+      const exemptions = this.exemptionService.getActiveExemptions(guildId);
+
+      this.logger.info(
+        {
+          correlationId: req.correlationId,
+          ip: req.ip,
+          guildId,
+          count: exemptions.length,
+        },
+        'Exemptions endpoint accessed'
+      );
+
+      res.json({
+        guildId,
+        exemptions: exemptions.map(exemption => this.buildExemptionResponse(exemption)),
+      } satisfies ExemptionsListResponse);
+    } catch (error) {
+      this.logger.error(
+        {
+          correlationId: req.correlationId,
+          error,
+          guildId,
+        },
+        'Failed to query AFK exemptions'
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to query AFK exemptions',
+      } satisfies ErrorResponse);
+    }
+  }
+
+  /**
+   * POST /api/guilds/:id/exemptions - Exempt a member from AFK handling for a while.
+   */
+  private async handleExemptionCreate(req: RequestWithCorrelation, res: Response): Promise<void> {
+    const guildId = req.params['id'];
+
+    if (typeof guildId !== 'string' || !this.isValidGuildId(guildId)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid guild ID format',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (!this.client.guilds.cache.get(guildId)) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Bot is not in the specified guild',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    const body = req.body as ExemptionCreateRequest;
+    const validFields = ['userId', 'durationSeconds', 'reason'];
+    const unknownFields = Object.keys(req.body as object).filter(key => !validFields.includes(key));
+    if (unknownFields.length > 0) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `Unknown field(s): ${unknownFields.join(', ')}`,
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (typeof body.userId !== 'string' || !this.isValidGuildId(body.userId)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'userId must be a valid Discord user ID',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (
+      typeof body.durationSeconds !== 'number' ||
+      !Number.isInteger(body.durationSeconds) ||
+      body.durationSeconds < MIN_SNOOZE_SECONDS ||
+      body.durationSeconds > MAX_EXEMPTION_SECONDS
+    ) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `durationSeconds must be an integer between ${MIN_SNOOZE_SECONDS} and ${MAX_EXEMPTION_SECONDS}`,
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (
+      body.reason !== undefined &&
+      body.reason !== null &&
+      (typeof body.reason !== 'string' || body.reason.length > MAX_EXEMPTION_REASON_LENGTH)
+    ) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `reason must be a string of at most ${MAX_EXEMPTION_REASON_LENGTH} characters or null`,
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    try {
+      const exemption = await this.exemptionService.grant({
+        guildId,
+        userId: body.userId,
+        durationSeconds: body.durationSeconds,
+        source: 'api',
+        reason: body.reason ?? null,
+        grantedBy: null,
+        requestedBy: this.getAuditActor(req),
+      });
+
+      this.logger.info(
+        {
+          correlationId: req.correlationId,
+          ip: req.ip,
+          guildId,
+          userId: body.userId,
+          exemptionId: exemption.id,
+          durationSeconds: body.durationSeconds,
+          action: 'create_exemption',
+        },
+        'Exemption granted via API'
+      );
+
+      res.status(201).json(this.buildExemptionResponse(exemption));
+    } catch (error) {
+      this.logger.error(
+        {
+          correlationId: req.correlationId,
+          error,
+          guildId,
+          userId: body.userId,
+        },
+        'Failed to grant AFK exemption'
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to grant AFK exemption',
+      } satisfies ErrorResponse);
+    }
+  }
+
+  /**
+   * DELETE /api/guilds/:id/exemptions/:userId - End a member's active exemptions, including snoozes.
+   */
+  private async handleExemptionsRevoke(req: RequestWithCorrelation, res: Response): Promise<void> {
+    const guildId = req.params['id'];
+    const userId = req.params['userId'];
+
+    if (typeof guildId !== 'string' || !this.isValidGuildId(guildId)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid guild ID format',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (typeof userId !== 'string' || !this.isValidGuildId(userId)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid user ID format',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (!this.client.guilds.cache.get(guildId)) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Bot is not in the specified guild',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    try {
+      const revoked = await this.exemptionService.revoke(guildId, userId);
+
+      this.logger.info(
+        {
+          correlationId: req.correlationId,
+          ip: req.ip,
+          guildId,
+          userId,
+          revoked,
+          action: 'revoke_exemptions',
+        },
+        'Exemptions revoked via API'
+      );
+
+      res.json({
+        success: true,
+        guildId,
+        userId,
+        revoked,
+      } satisfies ExemptionsRevokedResponse);
+    } catch (error) {
+      this.logger.error(
+        {
+          correlationId: req.correlationId,
+          error,
+          guildId,
+          userId,
+        },
+        'Failed to revoke AFK exemptions'
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to revoke AFK exemptions',
+      } satisfies ErrorResponse);
+    }
+  }
+
+  /**
+   * POST /api/guilds/:id/members/:userId/reset - Restart a tracked member's AFK timer.
+   */
+  private async handleMemberReset(req: RequestWithCorrelation, res: Response): Promise<void> {
+    const target = this.parseMemberTarget(req, res);
+    if (target === null) {
+      return;
+    }
+    const { guildId, userId } = target;
+
+    try {
+      if (!(await this.afkDetectionService.resetTimer(guildId, userId, this.getAuditActor(req)))) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: 'Member is not being tracked',
+        } satisfies ErrorResponse);
+        return;
+      }
+
+      this.logger.info(
+        {
+          correlationId: req.correlationId,
+          ip: req.ip,
+          guildId,
+          userId,
+          action: 'reset_member_timer',
+        },
+        'Member AFK timer reset via API'
+      );
+
+      res.json({
+        success: true,
+        guildId,
+        userId,
+        action: 'reset',
+      } satisfies MemberTrackingActionResponse);
+    } catch (error) {
+      this.logger.error(
+        {
+          correlationId: req.correlationId,
+          error,
+          guildId,
+          userId,
+        },
+        'Failed to reset AFK timer'
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to reset AFK timer',
+      } satisfies ErrorResponse);
+    }
+  }
+
+  /**
+   * POST /api/guilds/:id/members/:userId/stop - Stop tracking a member until their next voice event.
+   */
+  private handleMemberStop(req: RequestWithCorrelation, res: Response): void {
+    const target = this.parseMemberTarget(req, res);
+    if (target === null) {
+      return;
+    }
+    const { guildId, userId } = target;
+
+    try {
+      if (!this.afkDetectionService.stopTracking(guildId, userId, this.getAuditActor(req))) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: 'Member is not being tracked',
+        } satisfies ErrorResponse);
+        return;
+      }
+
+      this.logger.info(
+        {
+          correlationId: req.correlationId,
+          ip: req.ip,
+          guildId,
+          userId,
+          action: 'stop_member_tracking',
+        },
+        'Member AFK tracking stopped via API'
+      );
+
+      res.json({
+        success: true,
+        guildId,
+        userId,
+        action: 'stop',
+      } satisfies MemberTrackingActionResponse);
+    } catch (error) {
+      this.logger.error(
+        {
+          correlationId: req.correlationId,
+          error,
+          guildId,
+          userId,
+        },
+        'Failed to stop AFK tracking'
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to stop AFK tracking',
+      } satisfies ErrorResponse);
+    }
+  }
+
+  /**
+   * POST /api/guilds/:id/members/:userId/kick - Apply the AFK action to a tracked member now.
+   */
+  private async handleMemberKick(req: RequestWithCorrelation, res: Response): Promise<void> {
+    const target = this.parseMemberTarget(req, res);
+    if (target === null) {
+      return;
+    }
+    const { guildId, userId } = target;
+
+    const body = (req.body ?? {}) as MemberKickRequest;
+    const unknownFields = Object.keys(body).filter(key => key !== 'reason');
+    if (unknownFields.length > 0) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `Unknown field(s): ${unknownFields.join(', ')}`,
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (typeof body.reason !== 'string' || body.reason.trim() === '' || body.reason.length > MAX_KICK_REASON_LENGTH) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `reason must be a non-empty string of at most ${MAX_KICK_REASON_LENGTH} characters`,
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (!this.afkDetectionService.isTracking(guildId, userId)) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Member is not being tracked',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    try {
+      const outcome = await this.afkDetectionService.forceAction(guildId, userId, body.reason);
+
+      if (outcome === null) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: 'Member is no longer in a voice channel',
+        } satisfies ErrorResponse);
+        return;
+      }
+
+      this.logger.info(
+        {
+          correlationId: req.correlationId,
+          ip: req.ip,
+          guildId,
+          userId,
+          outcome: outcome.action,
+          action: 'force_afk_action',
+        },
+        'AFK action forced via API'
+      );
+
+      res.json({
+        success: outcome.action === 'kick',
+        guildId,
+        userId,
+        outcome: outcome.action,
+        detail: outcome.reason,
+      } satisfies MemberKickResponse);
+    } catch (error) {
+      this.logger.error(
+        {
+          correlationId: req.correlationId,
+          error,
+          guildId,
+          userId,
+        },
+        'Failed to force AFK action'
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to force AFK action',
+      } satisfies ErrorResponse);
+    }
+  }
+
+  /**
+   * POST /api/guilds/:id/members/:userId/exempt - Exempt a member from AFK handling for a while.
+   */
+  private async handleMemberExempt(req: RequestWithCorrelation, res: Response): Promise<void> {
+    const target = this.parseMemberTarget(req, res);
+    if (target === null) {
+      return;
+    }
+    const { guildId, userId } = target;
+
+    const body = (req.body ?? {}) as MemberExemptRequest;
+    const unknownFields = Object.keys(body).filter(key => key !== 'durationSeconds' && key !== 'reason');
+    if (unknownFields.length > 0) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `Unknown field(s): ${unknownFields.join(', ')}`,
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (
+      typeof body.durationSeconds !== 'number' ||
+      !Number.isInteger(body.durationSeconds) ||
+      body.durationSeconds < MIN_SNOOZE_SECONDS ||
+      body.durationSeconds > MAX_EXEMPTION_SECONDS
+    ) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `durationSeconds must be an integer between ${MIN_SNOOZE_SECONDS} and ${MAX_EXEMPTION_SECONDS}`,
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (
+      body.reason !== undefined &&
+      body.reason !== null &&
+      (typeof body.reason !== 'string' || body.reason.length > MAX_EXEMPTION_REASON_LENGTH)
+    ) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `reason must be a string of at most ${MAX_EXEMPTION_REASON_LENGTH} characters or null`,
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    try {
+      const exemption = await this.exemptionService.grant({
+        guildId,
+        userId,
+        durationSeconds: body.durationSeconds,
+        source: 'api',
+        reason: body.reason ?? null,
+        grantedBy: null,
+        requestedBy: this.getAuditActor(req),
+      });
+
+      this.logger.info(
+        {
+          correlationId: req.correlationId,
+          ip: req.ip,
+          guildId,
+          userId,
+          exemptionId: exemption.id,
+          durationSeconds: body.durationSeconds,
+          action: 'create_exemption',
+        },
+        'Exemption granted via API'
+      );
+
+      res.status(201).json(this.buildExemptionResponse(exemption));
+    } catch (error) {
+      this.logger.error(
+        {
+          correlationId: req.correlationId,
+          error,
+          guildId,
+          userId,
+        },
+        'Failed to grant AFK exemption'
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to grant AFK exemption',
+      } satisfies ErrorResponse);
+    }
+  }
+
+  /**
+   * Names the API caller in audit log entries: the login user for sessions,
+   * otherwise the static token.
+   */
+  private getAuditActor(req: RequestWithCorrelation): string {
+    return req.authType === 'session' && this.username !== undefined ? `api:${this.username}` : 'api:token';
+  }
+
+  /**
+   * Validates the guild and member path parameters of the member action endpoints.
+   *
+   * @returns The IDs, or null once an error response has been sent
+   */
+  private parseMemberTarget(req: RequestWithCorrelation, res: Response): { guildId: string; userId: UserId } | null {
     const guildId = req.params['id'];
 
-    if (guildId === undefined || guildId === '' || !this.isValidGuildId(guildId)) {
+    if (typeof guildId !== 'string' || !this.isValidGuildId(guildId)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid guild ID format',
+      } satisfies ErrorResponse);
+      return null;
+    }
+
+    const userId = userIdSchema.safeParse(req.params['userId']);
+    if (!userId.success) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid user ID format',
+      } satisfies ErrorResponse);
+      return null;
+    }
+
+    if (!this.client.guilds.cache.get(guildId)) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Bot is not in the specified guild',
+      } satisfies ErrorResponse);
+      return null;
+    }
+
+    return { guildId, userId: userId.data };
+  }
+
+  /**
+   * PUT /api/guilds/:id/chime - Replace the guild's warning chime with an uploaded Ogg Opus file.
+   */
+  private async handleChimeUpload(req: RequestWithCorrelation, res: Response): Promise<void> {
+    const guildId = req.params['id'];
+
+    if (typeof guildId !== 'string' || !this.isValidGuildId(guildId)) {
       res.status(400).json({
         error: 'Bad Request',
         message: 'Invalid guild ID format',
@@ -779,9 +3031,7 @@ export class AdminApiService {
       return;
     }
 
-    // Check if bot is in the guild
-    const guild = this.client.guilds.cache.get(guildId);
-    if (!guild) {
+    if (!this.client.guilds.cache.get(guildId)) {
       res.status(404).json({
         error: 'Not Found',
         message: 'Bot is not in the specified guild',
@@ -789,24 +3039,43 @@ export class AdminApiService {
       return;
     }
 
+    const body: unknown = req.body;
+    if (!Buffer.isBuffer(body)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `Chime must be sent with Content-Type ${CHIME_CONTENT_TYPES.join(', ')}`,
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    const chimeError = getChimeError(body);
+    if (chimeError !== null) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: chimeError,
+      } satisfies ErrorResponse);
+      return;
+    }
+
     try {
-      this.guildConfigService.resetConfig(guildId);
+      await this.chimeStore.save(guildId, body);
 
       this.logger.info(
         {
           correlationId: req.correlationId,
           ip: req.ip,
           guildId,
-          action: 'reset_guild_config',
+          bytes: body.length,
+          action: 'upload_chime',
         },
-        'Guild config reset to defaults via API'
+        'Warning chime uploaded via API'
       );
 
       res.json({
         success: true,
         guildId,
-        message: 'Guild configuration reset to defaults',
-      } satisfies ConfigResetResponse);
+        customChime: true,
+      } satisfies ChimeResponse);
     } catch (error) {
       this.logger.error(
         {
@@ -814,12 +3083,70 @@ export class AdminApiService {
           error,
           guildId,
         },
-        'Failed to reset guild config'
+        'Failed to save warning chime'
       );
 
       res.status(500).json({
         error: 'Internal Server Error',
-        message: 'Failed to reset guild config',
+        message: 'Failed to save warning chime',
+      } satisfies ErrorResponse);
+    }
+  }
+
+  /**
+   * DELETE /api/guilds/:id/chime - Go back to the bundled warning chime.
+   */
+  private async handleChimeReset(req: RequestWithCorrelation, res: Response): Promise<void> {
+    const guildId = req.params['id'];
+
+    if (typeof guildId !== 'string' || !this.isValidGuildId(guildId)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid guild ID format',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    if (!this.client.guilds.cache.get(guildId)) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Bot is not in the specified guild',
+      } satisfies ErrorResponse);
+      return;
+    }
+
+    try {
+      const removed = await this.chimeStore.remove(guildId);
+
+      this.logger.info(
+        {
+          correlationId: req.correlationId,
+          ip: req.ip,
+          guildId,
+          removed,
+          action: 'reset_chime',
+        },
+        'Warning chime reset via API'
+      );
+
+      res.json({
+        success: true,
+        guildId,
+        customChime: false,
+      } satisfies ChimeResponse);
+    } catch (error) {
+      this.logger.error(
+        {
+          correlationId: req.correlationId,
+          error,
+          guildId,
+        },
+        'Failed to reset warning chime'
+      );
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to reset warning chime',
       } satisfies ErrorResponse);
     }
   }
@@ -942,6 +3269,296 @@ export class AdminApiService {
     }
   }
 
+  /**
+   * Maps stored guild settings to the public config response shape.
+   */
+  private buildConfigResponse(guildId: string, config: GuildSettings): GuildConfigResponse {
+    return {
+      guildId,
+      enabled: config.enabled,
+      afkTimeoutSeconds: config.afkTimeoutSeconds,
+      warningSecondsBefore: config.warningSecondsBefore,
+      warningChannelId: config.warningChannelId,
+      exemptRoleIds: config.exemptRoleIds,
+      adminRoleIds: config.adminRoleIds,
+      afkAction: config.afkAction,
+      afkMoveChannelId: config.afkMoveChannelId,
+      afkRoleId: config.afkRoleId,
+      memberTimeoutSeconds: config.memberTimeoutSeconds,
+      mode: config.mode,
+      escalationEnabled: config.escalationEnabled,
+      escalationWindowSeconds: config.escalationWindowSeconds,
+      escalationSteps: config.escalationSteps,
+      escalationNotifyChannelId: config.escalationNotifyChannelId,
+      activitySignals: config.activitySignals,
+      activityChannelIds: config.activityChannelIds,
+      scheduleTimeZone: config.scheduleTimeZone,
+      scheduleType: config.scheduleType,
+      scheduleWindows: config.scheduleWindows,
+      minUsersForTracking: config.minUsersForTracking,
+      countDeafenedUsers: config.countDeafenedUsers,
+      countBots: config.countBots,
+      snoozeDailyLimit: config.snoozeDailyLimit,
+      exemptChannelIds: config.exemptChannelIds,
+      messageLocale: config.messageLocale,
+      messageTemplates: config.messageTemplates,
+      kickDmEnabled: config.kickDmEnabled,
+      warningDelivery: config.warningDelivery,
+      warningStages: config.warningStages,
+      warningChimeEnabled: config.warningChimeEnabled,
+      modLogChannelId: config.modLogChannelId,
+    };
+  }
+
+  /**
+   * Maps a stored strike to the public response shape.
+   */
+  private buildStrikeResponse(strike: AFKStrike): StrikeResponse {
+    return {
+      id: strike.id,
+      channelId: strike.channelId,
+      action: strike.action,
+      createdAt: new Date(strike.createdAt).toISOString(),
+    };
+  }
+
+  /**
+   * Maps a stored exemption to the public response shape.
+   */
+  private buildExemptionResponse(exemption: AFKExemption): ExemptionResponse {
+    return {
+      id: exemption.id,
+      userId: exemption.userId,
+      source: exemption.source,
+      reason: exemption.reason,
+      grantedBy: exemption.grantedBy,
+      expiresAt: new Date(exemption.expiresAt).toISOString(),
+      createdAt: new Date(exemption.createdAt).toISOString(),
+    };
+  }
+
+  /**
+   * Checks an escalation ladder from a config update.
+   * @returns An error message, or null when the ladder is valid
+   */
+  private validateEscalationSteps(steps: unknown): string | null {
+    if (!Array.isArray(steps) || steps.length > MAX_ESCALATION_STEPS) {
+      return `escalationSteps must be an array of at most ${MAX_ESCALATION_STEPS} steps`;
+    }
+
+    const seenStrikes = new Set<number>();
+    for (const value of steps as unknown[]) {
+      if (typeof value !== 'object' || value === null) {
+        return 'escalationSteps must contain only objects';
+      }
+      const step = value as Record<string, unknown>;
+      const unknownKeys = Object.keys(step).filter(key => !['strikes', 'action', 'memberTimeoutSeconds', 'notify'].includes(key));
+      if (unknownKeys.length > 0) {
+        return `Unknown escalation step field(s): ${unknownKeys.join(', ')}`;
+      }
+
+      const strikes = step['strikes'];
+      if (typeof strikes !== 'number' || !Number.isInteger(strikes) || strikes < 1 || strikes > MAX_ESCALATION_STRIKES) {
+        return `escalation step strikes must be an integer between 1 and ${MAX_ESCALATION_STRIKES}`;
+      }
+      if (seenStrikes.has(strikes)) {
+        return `escalationSteps has more than one step for ${strikes} strikes`;
+      }
+      seenStrikes.add(strikes);
+
+      if (!(AFK_ACTIONS as readonly unknown[]).includes(step['action'])) {
+        return `escalation step action must be one of: ${AFK_ACTIONS.join(', ')}`;
+      }
+
+      const memberTimeoutSeconds = step['memberTimeoutSeconds'];
+      if (
+        memberTimeoutSeconds !== undefined &&
+        memberTimeoutSeconds !== null &&
+        (typeof memberTimeoutSeconds !== 'number' || memberTimeoutSeconds < 1 || memberTimeoutSeconds > MAX_MEMBER_TIMEOUT_SECONDS)
+      ) {
+        return `escalation step memberTimeoutSeconds must be null or between 1 and ${MAX_MEMBER_TIMEOUT_SECONDS}`;
+      }
+
+      if (step['notify'] !== undefined && typeof step['notify'] !== 'boolean') {
+        return 'escalation step notify must be a boolean';
+      }
+    }
+
+    return null;
+  }
+
+  private validateScheduleWindows(windows: unknown): string | null {
+    if (!Array.isArray(windows) || windows.length > MAX_SCHEDULE_WINDOWS) {
+      return `scheduleWindows must be an array of at most ${MAX_SCHEDULE_WINDOWS} windows`;
+    }
+
+    for (const value of windows as unknown[]) {
+      if (typeof value !== 'object' || value === null) {
+        return 'scheduleWindows must contain only objects';
+      }
+      const window = value as Record<string, unknown>;
+      const unknownKeys = Object.keys(window).filter(key => !['days', 'start', 'end'].includes(key));
+      if (unknownKeys.length > 0) {
+        return `Unknown schedule window field(s): ${unknownKeys.join(', ')}`;
+      }
+
+      if (!Array.isArray(window['days']) || typeof window['start'] !== 'string' || typeof window['end'] !== 'string') {
+        return 'schedule windows need days, start and end';
+      }
+
+      const windowError = validateScheduleWindow(window as unknown as ScheduleWindow);
+      if (windowError !== null) {
+        return `schedule window ${windowError}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Checks message templates from a config update or preview request.
+   * @returns An error message, or null when the templates are valid
+   */
+  private validateMessageTemplates(templates: unknown): string | null {
+    if (typeof templates !== 'object' || templates === null || Array.isArray(templates)) {
+      return 'messageTemplates must be an object';
+    }
+
+    const fields = templates as Record<string, unknown>;
+    const unknownKeys = Object.keys(fields).filter(
+      key => key !== 'warningColor' && !(MESSAGE_TEMPLATE_TEXT_FIELDS as readonly string[]).includes(key)
+    );
+    if (unknownKeys.length > 0) {
+      return `Unknown message template field(s): ${unknownKeys.join(', ')}`;
+    }
+
+    for (const field of MESSAGE_TEMPLATE_TEXT_FIELDS) {
+      const value = fields[field];
+      const maxLength = MESSAGE_TEMPLATE_MAX_LENGTHS[field];
+      if (value !== undefined && (typeof value !== 'string' || value.trim() === '' || value.length > maxLength)) {
+        return `messageTemplates.${field} must be a non-empty string of at most ${maxLength} characters`;
+      }
+    }
+
+    const warningColor = fields['warningColor'];
+    if (
+      warningColor !== undefined &&
+      (typeof warningColor !== 'number' || !Number.isInteger(warningColor) || warningColor < 0 || warningColor > 0xFFFFFF)
+    ) {
+      return 'messageTemplates.warningColor must be an integer between 0 and 16777215';
+    }
+
+    return null;
+  }
+
+  /**
+   * Fills in optional step fields and sorts the ladder by strike threshold.
+   */
+  private normalizeEscalationSteps(steps: EscalationStepRequest[]): EscalationStep[] {
+    return steps
+      .map(step => ({
+        strikes: step.strikes,
+        action: step.action,
+        memberTimeoutSeconds: step.memberTimeoutSeconds ?? null,
+        notify: step.notify ?? false,
+      }))
+      .sort((a, b) => a.strikes - b.strikes);
+  }
+
+  /**
+   * Maps a stored channel override to the public response shape.
+   */
+  private buildChannelOverrideResponse(override: ChannelOverride): ChannelOverrideResponse {
+    return {
+      channelId: override.channelId,
+      enabled: override.enabled,
+      afkTimeoutSeconds: override.afkTimeoutSeconds,
+      warningSecondsBefore: override.warningSecondsBefore,
+      warningChannelId: override.warningChannelId,
+    };
+  }
+
+  /**
+   * Converts a running timer to its API shape, with deadlines as ISO 8601 timestamps.
+   */
+  private buildTrackedUserResponse(tracked: TrackedUser, now: number): TrackedUserResponse {
+    return {
+      userId: tracked.userId,
+      channelId: tracked.channelId,
+      warned: tracked.warned,
+      startedAt: new Date(tracked.startedAt).toISOString(),
+      warningAt: new Date(tracked.warningAt).toISOString(),
+      kickAt: new Date(tracked.kickAt).toISOString(),
+      secondsUntilWarning: Math.max(0, Math.ceil((tracked.warningAt - now) / 1000)),
+      secondsUntilKick: Math.max(0, Math.ceil((tracked.kickAt - now) / 1000)),
+    };
+  }
+
+  /**
+   * Maps a stored audit event to the public response shape.
+   */
+  private buildEventResponse(event: AFKEvent): AFKEventResponse {
+    return {
+      id: event.id,
+      userId: event.userId,
+      channelId: event.channelId,
+      action: event.action,
+      reason: event.reason,
+      configSnapshot: event.configSnapshot,
+      correlationId: event.correlationId,
+      createdAt: new Date(event.createdAt).toISOString(),
+    };
+  }
+
+  /**
+   * Parses an optional ISO 8601 query parameter to epoch milliseconds.
+   * @returns undefined when absent, NaN when unparseable
+   */
+  private parseTimestampParam(value: string | undefined): number | undefined {
+    return value !== undefined ? Date.parse(value) : undefined;
+  }
+
+  /**
+   * Parses a YYYY-MM-DD day to the start of that UTC day, or NaN when it is not a real date.
+   */
+  private parseActivityDay(value: string): number {
+    if (!ACTIVITY_DAY_REGEX.test(value)) {
+      return NaN;
+    }
+
+    const time = Date.parse(`${value}T00:00:00Z`);
+    return !Number.isNaN(time) && toActivityDay(time) === value ? time : NaN;
+  }
+
+  /** Refills the state gauges from scratch so guilds and states that have gone away stop being reported. */
+  private refreshStateGauges(): void {
+    this.metrics.trackedUsers.reset();
+    for (const [guildId, count] of this.afkDetectionService.getTrackedCountsByGuild()) {
+      this.metrics.trackedUsers.set({ guild_id: guildId }, count);
+    }
+
+    this.metrics.voiceConnections.reset();
+    for (const [state, count] of this.voiceConnectionManager.getConnectionStatusCounts()) {
+      this.metrics.voiceConnections.set({ state }, count);
+    }
+
+    this.metrics.rateLimiterWindowActions.reset();
+    for (const [actionType, count] of this.rateLimiter.getActionCountsByType()) {
+      this.metrics.rateLimiterWindowActions.set({ action_type: actionType }, count);
+    }
+  }
+
+  /**
+   * Returns the matched route pattern (e.g. /api/guilds/:id/status), or 'unmatched' for 404s.
+   */
+  private getRouteLabel(req: Request): string {
+    const route: unknown = req.route;
+    if (typeof route === 'object' && route !== null && 'path' in route && typeof route.path === 'string') {
+      return route.path;
+    }
+    return 'unmatched';
+  }
+
   /**
    * Validates that a guild ID is a valid Discord snowflake (17-19 digit numeric string).
    */
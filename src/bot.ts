@@ -1,4 +1,4 @@
-import { Client, GatewayIntentBits, Events } from 'discord.js';
+import { Client, GatewayIntentBits, Events, Partials } from 'discord.js';
 import type { Logger } from 'pino';
 import type Database from 'better-sqlite3';
 import { loadConfig, type EnvConfig } from './config/environment';
@@ -6,18 +6,45 @@ import { createServiceLogger } from './utils/logger';
 import { initDatabase } from './database';
 import { createTables } from './database/schema';
 import { GuildSettingsRepository } from './database/repositories/GuildSettingsRepository';
+import { AFKTrackingRepository } from './database/repositories/AFKTrackingRepository';
+import { ChannelOverrideRepository } from './database/repositories/ChannelOverrideRepository';
+import { AFKEventRepository } from './database/repositories/AFKEventRepository';
+import { AFKStrikeRepository } from './database/repositories/AFKStrikeRepository';
+import { AFKExemptionRepository } from './database/repositories/AFKExemptionRepository';
+import { VoiceActivityRepository } from './database/repositories/VoiceActivityRepository';
 import { GuildConfigService } from './services/GuildConfigService';
 import { WarningService } from './services/WarningService';
-import { AFKDetectionService, MIN_USERS_FOR_AFK_TRACKING } from './services/AFKDetectionService';
+import { EscalationService } from './services/EscalationService';
+import { ModLogService } from './services/ModLogService';
+import { AFKDetectionService } from './services/AFKDetectionService';
 import { VoiceMonitorService } from './services/VoiceMonitorService';
+import { ActivitySignalService } from './services/ActivitySignalService';
+import { ExemptionService } from './services/ExemptionService';
+import { VoiceAnalyticsService } from './services/VoiceAnalyticsService';
 import { SpeakingTracker } from './voice/SpeakingTracker';
 import { VoiceConnectionManager } from './voice/VoiceConnectionManager';
+import { ChimeStore } from './voice/ChimeStore';
 import { createReadyHandler } from './handlers/events/ready';
 import { createVoiceStateUpdateHandler } from './handlers/events/voiceStateUpdate';
 import { createGuildCreateHandler } from './handlers/events/guildCreate';
-import { afkConfigCommand, afkStatusCommand } from './handlers/commands';
+import { createMessageCreateHandler } from './handlers/events/messageCreate';
+import { createMessageReactionAddHandler } from './handlers/events/messageReactionAdd';
+import { createStillHereButtonHandler } from './handlers/components/stillHereButton';
+import {
+  afkConfigCommand,
+  afkStatusCommand,
+  afkHistoryCommand,
+  afkSnoozeCommand,
+  afkExemptCommand,
+  afkStatsCommand,
+  afkMeCommand,
+  type CommandServices,
+} from './handlers/commands';
 import { RateLimiter } from './utils/RateLimiter';
+import { BotMetrics } from './utils/metrics';
 import { generateCorrelationId } from './utils/correlation';
+import { STILL_HERE_BUTTON_PREFIX } from './utils/componentIds';
+import { countThresholdMembers } from './utils/trackingThreshold';
 import { AdminApiService } from './api/AdminApiService';
 
 export interface BotDependencies {
@@ -26,13 +53,26 @@ export interface BotDependencies {
   config: EnvConfig;
   logger: Logger;
   rateLimiter: RateLimiter;
+  metrics: BotMetrics;
   repository: GuildSettingsRepository;
+  trackingRepository: AFKTrackingRepository;
+  overrideRepository: ChannelOverrideRepository;
+  eventRepository: AFKEventRepository;
+  strikeRepository: AFKStrikeRepository;
+  exemptionRepository: AFKExemptionRepository;
+  voiceActivityRepository: VoiceActivityRepository;
   guildConfigService: GuildConfigService;
   warningService: WarningService;
+  escalationService: EscalationService;
+  modLogService: ModLogService;
   afkDetectionService: AFKDetectionService;
   voiceMonitorService: VoiceMonitorService;
+  activitySignalService: ActivitySignalService;
+  exemptionService: ExemptionService;
+  voiceAnalyticsService: VoiceAnalyticsService;
   speakingTracker: SpeakingTracker;
   voiceConnectionManager: VoiceConnectionManager;
+  helperClients: Client[];
   adminApiService?: AdminApiService;
 }
 
@@ -49,8 +89,12 @@ export async function createBot(): Promise<BotDependencies> {
     warnThreshold: config.RATE_LIMIT_WARN_THRESHOLD,
     crashThreshold: config.RATE_LIMIT_CRASH_THRESHOLD,
     windowMs: config.RATE_LIMIT_WINDOW_MS,
+    guildThreshold: config.RATE_LIMIT_GUILD_THRESHOLD,
+    exitOnCrashThreshold: config.RATE_LIMIT_EXIT_ON_CRASH,
   });
 
+  const metrics = new BotMetrics();
+
   rootLogger.info('Initializing Discord AFK kick bot');
 
   const database = initDatabase(config.DATABASE_PATH);
@@ -58,38 +102,79 @@ export async function createBot(): Promise<BotDependencies> {
   rootLogger.info({ databasePath: config.DATABASE_PATH }, 'Database initialized');
 
   const repository = new GuildSettingsRepository(database, dbLogger);
+  const trackingRepository = new AFKTrackingRepository(database, dbLogger);
+  const overrideRepository = new ChannelOverrideRepository(database, dbLogger);
+  const eventRepository = new AFKEventRepository(database, dbLogger);
+  const strikeRepository = new AFKStrikeRepository(database, dbLogger);
+  const exemptionRepository = new AFKExemptionRepository(database, dbLogger);
+  const voiceActivityRepository = new VoiceActivityRepository(database, dbLogger);
 
   const client = new Client({
     intents: [
       GatewayIntentBits.Guilds,
       GatewayIntentBits.GuildVoiceStates,
       GatewayIntentBits.GuildMembers,
+      // Message and reaction activity signals; message content is not needed
+      GatewayIntentBits.GuildMessages,
+      GatewayIntentBits.GuildMessageReactions,
     ],
+    // Reactions on messages sent before startup arrive as partials
+    partials: [Partials.Message, Partials.Reaction],
   });
 
-  const guildConfigService = new GuildConfigService(repository, rootLogger);
+  // Helper identities only join voice channels; all commands and events go through the primary client
+  const helperClients = config.VOICE_HELPER_TOKENS.map(() => new Client({
+    intents: [
+      GatewayIntentBits.Guilds,
+      GatewayIntentBits.GuildVoiceStates,
+    ],
+  }));
+
+  const guildConfigService = new GuildConfigService(repository, rootLogger, undefined, overrideRepository, metrics);
   const speakingTracker = new SpeakingTracker(voiceLogger);
   const voiceConnectionManager = new VoiceConnectionManager(
     speakingTracker,
     client,
     voiceLogger,
-    rateLimiter
+    rateLimiter,
+    helperClients
+  );
+  const chimeStore = new ChimeStore(config.CHIME_DIRECTORY, voiceLogger);
+  const warningService = new WarningService(
+    client,
+    guildConfigService,
+    afkLogger,
+    rateLimiter,
+    metrics,
+    voiceConnectionManager,
+    chimeStore
   );
-  const warningService = new WarningService(client, guildConfigService, afkLogger, rateLimiter);
+  const escalationService = new EscalationService(strikeRepository, client, afkLogger, rateLimiter);
+  const modLogService = new ModLogService(guildConfigService, client, afkLogger, rateLimiter);
   const afkDetectionService = new AFKDetectionService(
     warningService,
     guildConfigService,
     client,
     afkLogger,
-    rateLimiter
+    rateLimiter,
+    trackingRepository,
+    eventRepository,
+    metrics,
+    escalationService,
+    exemptionRepository,
+    modLogService
   );
   const voiceMonitorService = new VoiceMonitorService(
     voiceConnectionManager,
     guildConfigService,
     client,
     voiceLogger,
-    rateLimiter
+    rateLimiter,
+    afkDetectionService
   );
+  const activitySignalService = new ActivitySignalService(guildConfigService, afkDetectionService, afkLogger);
+  const exemptionService = new ExemptionService(exemptionRepository, guildConfigService, afkDetectionService, afkLogger);
+  const voiceAnalyticsService = new VoiceAnalyticsService(voiceActivityRepository, speakingTracker, client, voiceLogger);
 
   speakingTracker.on('userStartedSpeaking', async (userId: string, guildId: string) => {
     const correlationId = generateCorrelationId();
@@ -124,15 +209,20 @@ export async function createBot(): Promise<BotDependencies> {
         return;
       }
 
-      const nonBotCount = voiceChannel.members.filter((m) => !m.user.bot).size;
-      if (nonBotCount < MIN_USERS_FOR_AFK_TRACKING) {
+      const channelConfig = guildConfigService.getEffectiveConfig(guildId, voiceChannel.id, voiceChannel.parentId);
+      const memberCount = countThresholdMembers(
+        voiceChannel,
+        channelConfig,
+        (id) => voiceConnectionManager.isVoiceIdentity(id)
+      );
+      if (memberCount < channelConfig.minUsersForTracking) {
         if (eventLogger.isLevelEnabled('debug')) {
-          eventLogger.debug({ userId, guildId, nonBotCount }, 'Below threshold, skipping reset');
+          eventLogger.debug({ userId, guildId, memberCount }, 'Below threshold, skipping reset');
         }
         return;
       }
 
-      await afkDetectionService.resetTimer(guildId, userId);
+      await afkDetectionService.resetTimer(guildId, userId, 'speaking');
     } catch (error) {
       eventLogger.error({ error, userId, guildId }, 'Failed to reset timer after user started speaking');
     }
@@ -171,10 +261,15 @@ export async function createBot(): Promise<BotDependencies> {
         return;
       }
 
-      const nonBotCount = voiceChannel.members.filter((m) => !m.user.bot).size;
-      if (nonBotCount < MIN_USERS_FOR_AFK_TRACKING) {
+      const channelConfig = guildConfigService.getEffectiveConfig(guildId, voiceChannel.id, voiceChannel.parentId);
+      const memberCount = countThresholdMembers(
+        voiceChannel,
+        channelConfig,
+        (id) => voiceConnectionManager.isVoiceIdentity(id)
+      );
+      if (memberCount < channelConfig.minUsersForTracking) {
         if (eventLogger.isLevelEnabled('debug')) {
-          eventLogger.debug({ userId, guildId, nonBotCount }, 'Below threshold, skipping tracking');
+          eventLogger.debug({ userId, guildId, memberCount }, 'Below threshold, skipping tracking');
         }
         return;
       }
@@ -193,8 +288,23 @@ export async function createBot(): Promise<BotDependencies> {
     }
   });
 
+  speakingTracker.on('userStartedSpeaking', (userId: string, guildId: string, channelId: string) => {
+    voiceAnalyticsService.handleSpeakingStart(guildId, userId, channelId);
+  });
+  speakingTracker.on('userStoppedSpeaking', (userId: string, guildId: string) => {
+    voiceAnalyticsService.handleSpeakingEnd(guildId, userId);
+  });
+  speakingTracker.on('connectionRegistered', (guildId: string, channelId: string) => {
+    voiceAnalyticsService.handleConnectionOpened(guildId, channelId);
+  });
+  speakingTracker.on('connectionUnregistered', (channelId: string) => {
+    voiceAnalyticsService.handleConnectionClosed(channelId);
+  });
+  voiceAnalyticsService.start();
+
   client.on(Events.ClientReady, createReadyHandler({
     voiceMonitor: voiceMonitorService,
+    afkDetection: afkDetectionService,
     logger: rootLogger,
   }));
 
@@ -202,6 +312,8 @@ export async function createBot(): Promise<BotDependencies> {
     voiceMonitor: voiceMonitorService,
     afkDetection: afkDetectionService,
     guildConfig: guildConfigService,
+    activitySignals: activitySignalService,
+    voiceAnalytics: voiceAnalyticsService,
     logger: rootLogger,
   }));
 
@@ -210,7 +322,52 @@ export async function createBot(): Promise<BotDependencies> {
     logger: rootLogger,
   }));
 
+  client.on(Events.MessageCreate, createMessageCreateHandler({
+    activitySignals: activitySignalService,
+    logger: afkLogger,
+  }));
+
+  client.on(Events.MessageReactionAdd, createMessageReactionAddHandler({
+    activitySignals: activitySignalService,
+    logger: afkLogger,
+  }));
+
+  const handleStillHereButton = createStillHereButtonHandler({
+    afkDetection: afkDetectionService,
+    logger: afkLogger,
+  });
+
+  const commandServices: CommandServices = {
+    eventRepository,
+    exemptionService,
+    chimeStore,
+    voiceActivityRepository,
+    afkDetectionService,
+    voiceConnectionManager,
+  };
+
   client.on(Events.InteractionCreate, async (interaction) => {
+    if (interaction.isButton()) {
+      if (!interaction.customId.startsWith(STILL_HERE_BUTTON_PREFIX)) {
+        return;
+      }
+
+      try {
+        await handleStillHereButton(interaction);
+      } catch (error) {
+        rootLogger.error({ error, customId: interaction.customId }, 'Error handling button interaction');
+
+        const errorMessage = 'An error occurred while handling this button.';
+
+        if (interaction.replied || interaction.deferred) {
+          await interaction.followUp({ content: errorMessage, ephemeral: true });
+        } else {
+          await interaction.reply({ content: errorMessage, ephemeral: true });
+        }
+      }
+      return;
+    }
+
     if (!interaction.isChatInputCommand()) {
       return;
     }
@@ -227,11 +384,23 @@ export async function createBot(): Promise<BotDependencies> {
       }, 'Slash command interaction received');
     }
 
+    await activitySignalService.handleCommand(interaction);
+
     try {
       if (interaction.commandName === afkConfigCommand.data.name) {
-        await afkConfigCommand.execute(interaction, guildConfigService, interactionLogger);
+        await afkConfigCommand.execute(interaction, guildConfigService, interactionLogger, commandServices);
       } else if (interaction.commandName === afkStatusCommand.data.name) {
-        await afkStatusCommand.execute(interaction, guildConfigService, interactionLogger);
+        await afkStatusCommand.execute(interaction, guildConfigService, interactionLogger, commandServices);
+      } else if (interaction.commandName === afkHistoryCommand.data.name) {
+        await afkHistoryCommand.execute(interaction, guildConfigService, interactionLogger, commandServices);
+      } else if (interaction.commandName === afkSnoozeCommand.data.name) {
+        await afkSnoozeCommand.execute(interaction, guildConfigService, interactionLogger, commandServices);
+      } else if (interaction.commandName === afkExemptCommand.data.name) {
+        await afkExemptCommand.execute(interaction, guildConfigService, interactionLogger, commandServices);
+      } else if (interaction.commandName === afkStatsCommand.data.name) {
+        await afkStatsCommand.execute(interaction, guildConfigService, interactionLogger, commandServices);
+      } else if (interaction.commandName === afkMeCommand.data.name) {
+        await afkMeCommand.execute(interaction, guildConfigService, interactionLogger, commandServices);
       } else {
         interactionLogger.warn({ commandName: interaction.commandName }, 'Unknown command received');
       }
@@ -261,6 +430,13 @@ export async function createBot(): Promise<BotDependencies> {
       guildConfigService,
       afkDetectionService,
       voiceConnectionManager,
+      eventRepository,
+      escalationService,
+      exemptionService,
+      chimeStore,
+      voiceActivityRepository,
+      rateLimiter,
+      metrics,
       logger: createServiceLogger('admin-api'),
       token: config.ADMIN_API_TOKEN,
       port: config.ADMIN_API_PORT,
@@ -277,13 +453,26 @@ export async function createBot(): Promise<BotDependencies> {
     config,
     logger: rootLogger,
     rateLimiter,
+    metrics,
     repository,
+    trackingRepository,
+    overrideRepository,
+    eventRepository,
+    strikeRepository,
+    exemptionRepository,
+    voiceActivityRepository,
     guildConfigService,
     warningService,
+    escalationService,
+    modLogService,
     afkDetectionService,
     voiceMonitorService,
+    activitySignalService,
+    exemptionService,
+    voiceAnalyticsService,
     speakingTracker,
     voiceConnectionManager,
+    helperClients,
     adminApiService,
   };
 }
@@ -7,11 +7,19 @@ const environmentSchema = z.object({
   DISCORD_TOKEN: z.string().min(1, 'Discord token is required'),
   CLIENT_ID: z.string().min(1, 'Client ID is required'),
   DATABASE_PATH: z.string().default('./data/bot.db'),
+  CHIME_DIRECTORY: z.string().default('./data/chimes'),
   LOG_LEVEL: logLevelSchema.default('info'),
   LOG_FILE_PATH: z.string().optional(),
   RATE_LIMIT_WARN_THRESHOLD: z.coerce.number().default(20),
   RATE_LIMIT_CRASH_THRESHOLD: z.coerce.number().default(50),
   RATE_LIMIT_WINDOW_MS: z.coerce.number().default(60_000),
+  RATE_LIMIT_GUILD_THRESHOLD: z.coerce.number().default(30),
+  RATE_LIMIT_EXIT_ON_CRASH: z.preprocess(
+    (val) => typeof val === 'string'
+      ? val.toLowerCase() === 'true' || val === '1'
+      : val === true,
+    z.boolean()
+  ).default(false),
   ADMIN_API_ENABLED: z.preprocess(
     (val) => typeof val === 'string'
       ? val.toLowerCase() === 'true' || val === '1'
@@ -23,6 +31,12 @@ const environmentSchema = z.object({
   ADMIN_API_BIND_ADDRESS: z.string().default('127.0.0.1'),
   ADMIN_USERNAME: z.string().optional(),
   ADMIN_PASSWORD_HASH: z.string().optional(),
+  VOICE_HELPER_TOKENS: z.preprocess(
+    (val) => typeof val === 'string'
+      ? val.split(',').map((token) => token.trim()).filter((token) => token !== '')
+      : val,
+    z.array(z.string())
+  ).default([]),
 }).refine(
   (data) => {
     // If either ADMIN_USERNAME or ADMIN_PASSWORD_HASH is set, both must be set
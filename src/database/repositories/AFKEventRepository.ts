@@ -0,0 +1,234 @@
+import type Database from 'better-sqlite3';
+import type { Logger } from 'pino';
+import type { GuildSettings } from './GuildSettingsRepository';
+
+/**
+ * Enforcement outcomes recorded in the audit log.
+ * The would_* actions are recorded instead of the real thing in observe and warn-only modes.
+ * stop is only recorded when a moderator ends a member's tracking.
+ */
+export const AFK_EVENT_ACTIONS = ['warning', 'kick', 'kick_failed', 'exempt', 'reset', 'stop', 'would_warn', 'would_kick'] as const;
+
+export type AFKEventAction = typeof AFK_EVENT_ACTIONS[number];
+
+/**
+ * The settings that were in effect when an event happened, so later config
+ * changes don't obscure why a member was warned or kicked.
+ */
+export type AFKEventConfigSnapshot = Pick<
+  GuildSettings,
+  'enabled' | 'afkTimeoutSeconds' | 'warningSecondsBefore' | 'afkAction' | 'mode'
+>;
+
+export interface AFKEvent {
+  id: number;
+  guildId: string;
+  userId: string;
+  channelId: string | null;
+  action: AFKEventAction;
+  reason: string | null;
+  configSnapshot: AFKEventConfigSnapshot | null;
+  correlationId: string | null;
+  /** Unix epoch milliseconds */
+  createdAt: number;
+}
+
+export type NewAFKEvent = Omit<AFKEvent, 'id' | 'createdAt'> & { createdAt?: number };
+
+export interface AFKEventQuery {
+  guildId: string;
+  userId?: string;
+  channelId?: string;
+  actions?: AFKEventAction[];
+  /** Inclusive lower bound, epoch milliseconds */
+  since?: number;
+  /** Exclusive upper bound, epoch milliseconds */
+  until?: number;
+  limit: number;
+  offset: number;
+}
+
+export interface AFKEventPage {
+  events: AFKEvent[];
+  total: number;
+}
+
+/**
+ * How far back the observe-mode summary looks.
+ */
+export const OBSERVED_SUMMARY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Would-be enforcement recorded while a guild was not enforcing.
+ */
+export interface ObservedSummary {
+  /** Start of the summarized window, epoch milliseconds */
+  since: number;
+  wouldWarn: number;
+  wouldKick: number;
+  /** Distinct members that would have had the AFK action applied */
+  wouldKickUsers: number;
+}
+
+interface AFKEventRow {
+  id: number;
+  guild_id: string;
+  user_id: string;
+  channel_id: string | null;
+  action: AFKEventAction;
+  reason: string | null;
+  config_snapshot: string | null;
+  correlation_id: string | null;
+  created_at: number;
+}
+
+export class AFKEventRepository {
+  private db: Database.Database;
+  private logger: Logger;
+
+  constructor(db: Database.Database, logger: Logger) {
+    this.db = db;
+    this.logger = logger;
+  }
+
+  insert(event: NewAFKEvent): void {
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug(
+        { guildId: event.guildId, userId: event.userId, eventAction: event.action, action: 'db_write', operation: 'insert' },
+        'Writing AFK event to database'
+      );
+    }
+
+    const statement = this.db.prepare(`
+      INSERT INTO afk_events (
+        guild_id,
+        user_id,
+        channel_id,
+        action,
+        reason,
+        config_snapshot,
+        correlation_id,
+        created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    statement.run(
+      event.guildId,
+      event.userId,
+      event.channelId,
+      event.action,
+      event.reason,
+      event.configSnapshot ? JSON.stringify(event.configSnapshot) : null,
+      event.correlationId,
+      event.createdAt ?? Date.now()
+    );
+  }
+
+  /**
+   * Returns one page of events, newest first, along with the total number of matches.
+   */
+  find(query: AFKEventQuery): AFKEventPage {
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug(
+        { guildId: query.guildId, action: 'db_query', operation: 'find', limit: query.limit, offset: query.offset },
+        'Querying AFK events from database'
+      );
+    }
+
+    const conditions = ['guild_id = ?'];
+    const params: Array<string | number> = [query.guildId];
+
+    if (query.userId !== undefined) {
+      conditions.push('user_id = ?');
+      params.push(query.userId);
+    }
+    if (query.channelId !== undefined) {
+      conditions.push('channel_id = ?');
+      params.push(query.channelId);
+    }
+    if (query.actions !== undefined && query.actions.length > 0) {
+      conditions.push(`action IN (${query.actions.map(() => '?').join(', ')})`);
+      params.push(...query.actions);
+    }
+    if (query.since !== undefined) {
+      conditions.push('created_at >= ?');
+      params.push(query.since);
+    }
+    if (query.until !== undefined) {
+      conditions.push('created_at < ?');
+      params.push(query.until);
+    }
+
+    const where = conditions.join(' AND ');
+
+    const countRow = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM afk_events WHERE ${where}`)
+      .get(...params) as { total: number };
+
+    const rows = this.db
+      .prepare(`SELECT * FROM afk_events WHERE ${where} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`)
+      .all(...params, query.limit, query.offset) as AFKEventRow[];
+
+    return {
+      events: rows.map(row => this.mapRowToEvent(row)),
+      total: countRow.total,
+    };
+  }
+
+  /**
+   * Counts would-be warnings and actions recorded since the given time.
+   */
+  summarizeObserved(guildId: string, since: number): ObservedSummary {
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug(
+        { guildId, action: 'db_query', operation: 'summarizeObserved', since },
+        'Summarizing observed AFK events from database'
+      );
+    }
+
+    const row = this.db
+      .prepare(`
+        SELECT
+          COUNT(CASE WHEN action = 'would_warn' THEN 1 END) AS would_warn,
+          COUNT(CASE WHEN action = 'would_kick' THEN 1 END) AS would_kick,
+          COUNT(DISTINCT CASE WHEN action = 'would_kick' THEN user_id END) AS would_kick_users
+        FROM afk_events
+        WHERE guild_id = ? AND created_at >= ? AND action IN ('would_warn', 'would_kick')
+      `)
+      .get(guildId, since) as { would_warn: number; would_kick: number; would_kick_users: number };
+
+    return {
+      since,
+      wouldWarn: row.would_warn,
+      wouldKick: row.would_kick,
+      wouldKickUsers: row.would_kick_users,
+    };
+  }
+
+  private mapRowToEvent(row: AFKEventRow): AFKEvent {
+    return {
+      id: row.id,
+      guildId: row.guild_id,
+      userId: row.user_id,
+      channelId: row.channel_id,
+      action: row.action,
+      reason: row.reason,
+      configSnapshot: this.safeParseSnapshot(row.config_snapshot),
+      correlationId: row.correlation_id,
+      createdAt: row.created_at
+    };
+  }
+
+  private safeParseSnapshot(json: string | null): AFKEventConfigSnapshot | null {
+    if (json === null) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(json) as AFKEventConfigSnapshot;
+    } catch (error) {
+      this.logger.warn({ value: json, error }, 'Failed to parse AFK event config snapshot');
+      return null;
+    }
+  }
+}
@@ -0,0 +1,179 @@
+import type Database from 'better-sqlite3';
+import type { Logger } from 'pino';
+
+/**
+ * Where an exemption came from: a moderator's slash command, the admin API,
+ * or a member snoozing their own timer with /afk-snooze.
+ */
+export const EXEMPTION_SOURCES = ['moderator', 'api', 'snooze'] as const;
+
+export type ExemptionSource = typeof EXEMPTION_SOURCES[number];
+
+/**
+ * A temporary exemption for one member. While it is active the member's AFK
+ * clock is held and only starts running once the exemption expires.
+ */
+export interface AFKExemption {
+  id: number;
+  guildId: string;
+  userId: string;
+  source: ExemptionSource;
+  reason: string | null;
+  /** User who granted it; null for the admin API */
+  grantedBy: string | null;
+  /** Unix epoch milliseconds */
+  expiresAt: number;
+  /** Unix epoch milliseconds */
+  createdAt: number;
+}
+
+export type NewAFKExemption = Omit<AFKExemption, 'id' | 'createdAt'> & { createdAt?: number };
+
+interface AFKExemptionRow {
+  id: number;
+  guild_id: string;
+  user_id: string;
+  source: ExemptionSource;
+  reason: string | null;
+  granted_by: string | null;
+  expires_at: number;
+  created_at: number;
+}
+
+export class AFKExemptionRepository {
+  private db: Database.Database;
+  private logger: Logger;
+
+  constructor(db: Database.Database, logger: Logger) {
+    this.db = db;
+    this.logger = logger;
+  }
+
+  insert(exemption: NewAFKExemption): AFKExemption {
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug(
+        { guildId: exemption.guildId, userId: exemption.userId, action: 'db_write', operation: 'insert' },
+        'Writing AFK exemption to database'
+      );
+    }
+
+    const createdAt = exemption.createdAt ?? Date.now();
+    const statement = this.db.prepare(`
+      INSERT INTO afk_exemptions (guild_id, user_id, source, reason, granted_by, expires_at, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const result = statement.run(
+      exemption.guildId,
+      exemption.userId,
+      exemption.source,
+      exemption.reason,
+      exemption.grantedBy,
+      exemption.expiresAt,
+      createdAt
+    );
+
+    return { ...exemption, id: Number(result.lastInsertRowid), createdAt };
+  }
+
+  /**
+   * Returns the member's active exemption that runs longest, or null when none is active at `now`.
+   */
+  findActiveByUser(guildId: string, userId: string, now: number): AFKExemption | null {
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug(
+        { guildId, userId, action: 'db_query', operation: 'findActiveByUser' },
+        'Querying AFK exemptions from database'
+      );
+    }
+
+    const row = this.db
+      .prepare(`
+        SELECT * FROM afk_exemptions
+        WHERE guild_id = ? AND user_id = ? AND expires_at > ?
+        ORDER BY expires_at DESC, id DESC
+        LIMIT 1
+      `)
+      .get(guildId, userId, now) as AFKExemptionRow | undefined;
+
+    return row ? this.mapRowToExemption(row) : null;
+  }
+
+  /**
+   * Returns the guild's active exemptions, soonest to expire first.
+   */
+  findActiveByGuild(guildId: string, now: number): AFKExemption[] {
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug(
+        { guildId, action: 'db_query', operation: 'findActiveByGuild' },
+        'Querying AFK exemptions from database'
+      );
+    }
+
+    const rows = this.db
+      .prepare(`
+        SELECT * FROM afk_exemptions
+        WHERE guild_id = ? AND expires_at > ?
+        ORDER BY expires_at ASC, id ASC
+      `)
+      .all(guildId, now) as AFKExemptionRow[];
+
+    return rows.map(row => this.mapRowToExemption(row));
+  }
+
+  /**
+   * Counts the member's exemptions from one source created at or after `since`, expired or not.
+   */
+  countBySourceSince(guildId: string, userId: string, source: ExemptionSource, since: number): number {
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug(
+        { guildId, userId, source, action: 'db_query', operation: 'countBySourceSince', since },
+        'Counting AFK exemptions in database'
+      );
+    }
+
+    const row = this.db
+      .prepare(`
+        SELECT COUNT(*) AS total FROM afk_exemptions
+        WHERE guild_id = ? AND user_id = ? AND source = ? AND created_at >= ?
+      `)
+      .get(guildId, userId, source, since) as { total: number };
+
+    return row.total;
+  }
+
+  /**
+   * Ends the member's active exemptions by expiring them at `now`. Expired rows are
+   * kept so snoozes still count toward the daily limit.
+   *
+   * @returns The number of exemptions ended
+   */
+  expireByUser(guildId: string, userId: string, now: number): number {
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug(
+        { guildId, userId, action: 'db_write', operation: 'expireByUser' },
+        'Expiring AFK exemptions in database'
+      );
+    }
+
+    const statement = this.db.prepare(`
+      UPDATE afk_exemptions SET expires_at = ?
+      WHERE guild_id = ? AND user_id = ? AND expires_at > ?
+    `);
+
+    return statement.run(now, guildId, userId, now).changes;
+  }
+
+  private mapRowToExemption(row: AFKExemptionRow): AFKExemption {
+    return {
+      id: row.id,
+      guildId: row.guild_id,
+      userId: row.user_id,
+      source: row.source,
+      reason: row.reason,
+      grantedBy: row.granted_by,
+      expiresAt: row.expires_at,
+      createdAt: row.created_at,
+    };
+  }
+}
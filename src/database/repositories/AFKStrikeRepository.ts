@@ -0,0 +1,129 @@
+import type Database from 'better-sqlite3';
+import type { Logger } from 'pino';
+import type { AFKAction } from './GuildSettingsRepository';
+
+/**
+ * One AFK offence: an AFK action that was actually applied to a member.
+ * Strikes drive escalation and decay once they fall outside the guild's window.
+ */
+export interface AFKStrike {
+  id: number;
+  guildId: string;
+  userId: string;
+  channelId: string | null;
+  /** The action applied for this offence */
+  action: AFKAction;
+  /** Unix epoch milliseconds */
+  createdAt: number;
+}
+
+export type NewAFKStrike = Omit<AFKStrike, 'id' | 'createdAt'> & { createdAt?: number };
+
+interface AFKStrikeRow {
+  id: number;
+  guild_id: string;
+  user_id: string;
+  channel_id: string | null;
+  action: AFKAction;
+  created_at: number;
+}
+
+export class AFKStrikeRepository {
+  private db: Database.Database;
+  private logger: Logger;
+
+  constructor(db: Database.Database, logger: Logger) {
+    this.db = db;
+    this.logger = logger;
+  }
+
+  insert(strike: NewAFKStrike): void {
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug(
+        { guildId: strike.guildId, userId: strike.userId, action: 'db_write', operation: 'insert' },
+        'Writing AFK strike to database'
+      );
+    }
+
+    const statement = this.db.prepare(`
+      INSERT INTO afk_strikes (guild_id, user_id, channel_id, action, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    statement.run(
+      strike.guildId,
+      strike.userId,
+      strike.channelId,
+      strike.action,
+      strike.createdAt ?? Date.now()
+    );
+  }
+
+  /**
+   * Returns a member's strikes recorded at or after `since`, newest first.
+   */
+  findByUser(guildId: string, userId: string, since: number): AFKStrike[] {
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug(
+        { guildId, userId, action: 'db_query', operation: 'findByUser', since },
+        'Querying AFK strikes from database'
+      );
+    }
+
+    const rows = this.db
+      .prepare(`
+        SELECT * FROM afk_strikes
+        WHERE guild_id = ? AND user_id = ? AND created_at >= ?
+        ORDER BY created_at DESC, id DESC
+      `)
+      .all(guildId, userId, since) as AFKStrikeRow[];
+
+    return rows.map(row => this.mapRowToStrike(row));
+  }
+
+  countSince(guildId: string, userId: string, since: number): number {
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug(
+        { guildId, userId, action: 'db_query', operation: 'countSince', since },
+        'Counting AFK strikes in database'
+      );
+    }
+
+    const row = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM afk_strikes WHERE guild_id = ? AND user_id = ? AND created_at >= ?`)
+      .get(guildId, userId, since) as { total: number };
+
+    return row.total;
+  }
+
+  /**
+   * Removes every strike a member has in the guild, including decayed ones.
+   *
+   * @returns The number of strikes removed
+   */
+  deleteByUser(guildId: string, userId: string): number {
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug(
+        { guildId, userId, action: 'db_delete', operation: 'deleteByUser' },
+        'Deleting AFK strikes from database'
+      );
+    }
+
+    const statement = this.db.prepare(`
+      DELETE FROM afk_strikes WHERE guild_id = ? AND user_id = ?
+    `);
+
+    return statement.run(guildId, userId).changes;
+  }
+
+  private mapRowToStrike(row: AFKStrikeRow): AFKStrike {
+    return {
+      id: row.id,
+      guildId: row.guild_id,
+      userId: row.user_id,
+      channelId: row.channel_id,
+      action: row.action,
+      createdAt: row.created_at,
+    };
+  }
+}
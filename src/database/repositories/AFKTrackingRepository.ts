@@ -0,0 +1,132 @@
+import type Database from 'better-sqlite3';
+import type { Logger } from 'pino';
+
+/**
+ * Persisted snapshot of a user's AFK countdown.
+ * Timestamps are Unix epoch milliseconds so timers can be rebuilt after a restart.
+ */
+export interface AFKTrackingRecord {
+  guildId: string;
+  userId: string;
+  channelId: string;
+  startedAt: number;
+  warningAt: number;
+  kickAt: number;
+  warned: boolean;
+}
+
+interface AFKTrackingRow {
+  guild_id: string;
+  user_id: string;
+  channel_id: string;
+  started_at: number;
+  warning_at: number;
+  kick_at: number;
+  warned: number;
+}
+
+export class AFKTrackingRepository {
+  private db: Database.Database;
+  private logger: Logger;
+
+  constructor(db: Database.Database, logger: Logger) {
+    this.db = db;
+    this.logger = logger;
+  }
+
+  findAll(): AFKTrackingRecord[] {
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug(
+        { action: 'db_query', operation: 'findAll' },
+        'Querying persisted AFK tracking state'
+      );
+    }
+
+    const statement = this.db.prepare(`
+      SELECT * FROM afk_tracking
+    `);
+
+    const rows = statement.all() as AFKTrackingRow[];
+
+    return rows.map(row => this.mapRowToRecord(row));
+  }
+
+  upsert(record: AFKTrackingRecord): void {
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug(
+        { guildId: record.guildId, userId: record.userId, action: 'db_write', operation: 'upsert' },
+        'Writing AFK tracking state to database'
+      );
+    }
+
+    const statement = this.db.prepare(`
+      INSERT INTO afk_tracking (
+        guild_id,
+        user_id,
+        channel_id,
+        started_at,
+        warning_at,
+        kick_at,
+        warned
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(guild_id, user_id) DO UPDATE SET
+        channel_id = excluded.channel_id,
+        started_at = excluded.started_at,
+        warning_at = excluded.warning_at,
+        kick_at = excluded.kick_at,
+        warned = excluded.warned
+    `);
+
+    statement.run(
+      record.guildId,
+      record.userId,
+      record.channelId,
+      record.startedAt,
+      record.warningAt,
+      record.kickAt,
+      record.warned ? 1 : 0
+    );
+  }
+
+  markWarned(guildId: string, userId: string): void {
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug(
+        { guildId, userId, action: 'db_write', operation: 'markWarned' },
+        'Marking AFK tracking state as warned'
+      );
+    }
+
+    const statement = this.db.prepare(`
+      UPDATE afk_tracking SET warned = 1 WHERE guild_id = ? AND user_id = ?
+    `);
+
+    statement.run(guildId, userId);
+  }
+
+  delete(guildId: string, userId: string): void {
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug(
+        { guildId, userId, action: 'db_delete', operation: 'delete' },
+        'Deleting AFK tracking state from database'
+      );
+    }
+
+    const statement = this.db.prepare(`
+      DELETE FROM afk_tracking WHERE guild_id = ? AND user_id = ?
+    `);
+
+    statement.run(guildId, userId);
+  }
+
+  private mapRowToRecord(row: AFKTrackingRow): AFKTrackingRecord {
+    return {
+      guildId: row.guild_id,
+      userId: row.user_id,
+      channelId: row.channel_id,
+      startedAt: row.started_at,
+      warningAt: row.warning_at,
+      kickAt: row.kick_at,
+      warned: row.warned === 1
+    };
+  }
+}
@@ -0,0 +1,148 @@
+import type Database from 'better-sqlite3';
+import type { Logger } from 'pino';
+
+/**
+ * Settings that can be overridden for a single voice channel or a whole category.
+ * A null field inherits from the category override (if any), then from the guild settings.
+ */
+export interface ChannelOverride {
+  guildId: string;
+  channelId: string;
+  enabled: boolean | null;
+  afkTimeoutSeconds: number | null;
+  warningSecondsBefore: number | null;
+  warningChannelId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ChannelOverrideFields = Pick<
+  ChannelOverride,
+  'enabled' | 'afkTimeoutSeconds' | 'warningSecondsBefore' | 'warningChannelId'
+>;
+
+interface ChannelOverrideRow {
+  guild_id: string;
+  channel_id: string;
+  enabled: number | null;
+  afk_timeout_seconds: number | null;
+  warning_seconds_before: number | null;
+  warning_channel_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export class ChannelOverrideRepository {
+  private db: Database.Database;
+  private logger: Logger;
+
+  constructor(db: Database.Database, logger: Logger) {
+    this.db = db;
+    this.logger = logger;
+  }
+
+  findByGuildId(guildId: string): ChannelOverride[] {
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug(
+        { guildId, action: 'db_query', operation: 'findByGuildId' },
+        'Querying channel overrides from database'
+      );
+    }
+
+    const statement = this.db.prepare(`
+      SELECT * FROM channel_overrides WHERE guild_id = ? ORDER BY channel_id
+    `);
+
+    const rows = statement.all(guildId) as ChannelOverrideRow[];
+
+    return rows.map(row => this.mapRowToOverride(row));
+  }
+
+  /**
+   * Creates or updates an override. Omitted fields keep their stored value;
+   * an explicit null resets the field to inherit.
+   */
+  upsert(override: Partial<ChannelOverrideFields> & { guildId: string; channelId: string }): void {
+    if (this.logger.isLevelEnabled('debug')) {
+      const fields = Object.keys(override).filter(key => key !== 'guildId' && key !== 'channelId');
+      this.logger.debug(
+        { guildId: override.guildId, channelId: override.channelId, action: 'db_write', operation: 'upsert', fields },
+        'Writing channel override to database'
+      );
+    }
+
+    const statement = this.db.prepare(`
+      INSERT INTO channel_overrides (
+        guild_id,
+        channel_id,
+        enabled,
+        afk_timeout_seconds,
+        warning_seconds_before,
+        warning_channel_id,
+        updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(guild_id, channel_id) DO UPDATE SET
+        enabled = CASE WHEN ? THEN excluded.enabled ELSE enabled END,
+        afk_timeout_seconds = CASE WHEN ? THEN excluded.afk_timeout_seconds ELSE afk_timeout_seconds END,
+        warning_seconds_before = CASE WHEN ? THEN excluded.warning_seconds_before ELSE warning_seconds_before END,
+        warning_channel_id = CASE WHEN ? THEN excluded.warning_channel_id ELSE warning_channel_id END,
+        updated_at = CURRENT_TIMESTAMP
+    `);
+
+    statement.run(
+      override.guildId,
+      override.channelId,
+      override.enabled !== undefined && override.enabled !== null ? (override.enabled ? 1 : 0) : null,
+      override.afkTimeoutSeconds ?? null,
+      override.warningSecondsBefore ?? null,
+      override.warningChannelId ?? null,
+      override.enabled !== undefined ? 1 : 0,
+      override.afkTimeoutSeconds !== undefined ? 1 : 0,
+      override.warningSecondsBefore !== undefined ? 1 : 0,
+      override.warningChannelId !== undefined ? 1 : 0
+    );
+  }
+
+  delete(guildId: string, channelId: string): boolean {
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug(
+        { guildId, channelId, action: 'db_delete', operation: 'delete' },
+        'Deleting channel override from database'
+      );
+    }
+
+    const statement = this.db.prepare(`
+      DELETE FROM channel_overrides WHERE guild_id = ? AND channel_id = ?
+    `);
+
+    return statement.run(guildId, channelId).changes > 0;
+  }
+
+  deleteByGuildId(guildId: string): void {
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug(
+        { guildId, action: 'db_delete', operation: 'deleteByGuildId' },
+        'Deleting all channel overrides for guild from database'
+      );
+    }
+
+    const statement = this.db.prepare(`
+      DELETE FROM channel_overrides WHERE guild_id = ?
+    `);
+
+    statement.run(guildId);
+  }
+
+  private mapRowToOverride(row: ChannelOverrideRow): ChannelOverride {
+    return {
+      guildId: row.guild_id,
+      channelId: row.channel_id,
+      enabled: row.enabled === null ? null : row.enabled === 1,
+      afkTimeoutSeconds: row.afk_timeout_seconds,
+      warningSecondsBefore: row.warning_seconds_before,
+      warningChannelId: row.warning_channel_id,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
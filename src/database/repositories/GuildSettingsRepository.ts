@@ -1,6 +1,108 @@
 import type Database from 'better-sqlite3';
 import type { Logger } from 'pino';
 
+/**
+ * What happens to a member once their AFK timeout expires.
+ */
+export const AFK_ACTIONS = ['disconnect', 'move', 'mute', 'timeout', 'role'] as const;
+
+export type AFKAction = typeof AFK_ACTIONS[number];
+
+/**
+ * How far AFK handling goes in a guild:
+ * - enforce: warn, then apply the AFK action
+ * - warn-only: warn, but only record the AFK action that would have been applied
+ * - observe: send nothing and change nothing, only record would-be warnings and actions
+ */
+export const ENFORCEMENT_MODES = ['enforce', 'observe', 'warn-only'] as const;
+
+export type EnforcementMode = typeof ENFORCEMENT_MODES[number];
+
+/**
+ * Activity besides speaking that can reset a member's AFK timer:
+ * - messages: a message in their voice channel's chat or a linked text channel
+ * - reactions: a reaction in their voice channel's chat or a linked text channel
+ * - video: turning their camera on or off
+ * - stream: starting or stopping a screen share
+ * - commands: using any slash command in the guild
+ */
+export const ACTIVITY_SIGNALS = ['messages', 'reactions', 'video', 'stream', 'commands'] as const;
+
+export type ActivitySignal = typeof ACTIVITY_SIGNALS[number];
+
+/**
+ * How a guild's schedule windows are read:
+ * - active: AFK handling only runs inside the windows
+ * - quiet: AFK handling runs except inside the windows
+ */
+export const SCHEDULE_TYPES = ['active', 'quiet'] as const;
+
+export type ScheduleType = typeof SCHEDULE_TYPES[number];
+
+/**
+ * A weekly time range in the guild's schedule time zone. A window whose end is
+ * not after its start runs past midnight into the next day.
+ */
+export interface ScheduleWindow {
+  /** Days the window starts on, 0 (Sunday) to 6 (Saturday) */
+  days: number[];
+  /** Local start time, HH:MM */
+  start: string;
+  /** Local end time, HH:MM */
+  end: string;
+}
+
+/**
+ * One rung of a guild's escalation ladder. The step with the highest `strikes`
+ * not above a member's strike count (including the current offence) is applied.
+ */
+export interface EscalationStep {
+  strikes: number;
+  action: AFKAction;
+  /** Timeout duration for the timeout action; null uses the guild's memberTimeoutSeconds */
+  memberTimeoutSeconds: number | null;
+  /** Also alert moderators when this step is applied */
+  notify: boolean;
+}
+
+/**
+ * Where AFK warnings are delivered:
+ * - channel: the warning channel (falling back to the system or first text channel)
+ * - dm: a direct message, with the warning channel as fallback when the member's DMs are closed
+ * - voice-chat: the voice channel's built-in text chat, with the warning channel as fallback
+ * - both: a direct message and the warning channel
+ */
+export const WARNING_DELIVERY_MODES = ['channel', 'dm', 'voice-chat', 'both'] as const;
+
+export type WarningDeliveryMode = typeof WARNING_DELIVERY_MODES[number];
+
+/**
+ * Languages the built-in warning and kick messages are translated into.
+ */
+export const MESSAGE_LOCALES = ['en', 'de', 'es', 'fr', 'pt-BR'] as const;
+
+export type MessageLocale = typeof MESSAGE_LOCALES[number];
+
+/**
+ * A guild's own wording for the messages it sends. Text fields may use the
+ * placeholders {user}, {channel}, {seconds}, {timeout} and {server}; anything
+ * left out falls back to the built-in translation.
+ */
+export interface MessageTemplates {
+  warningTitle?: string;
+  warningBody?: string;
+  /** Embed color of the warning, 0x000000 to 0xFFFFFF */
+  warningColor?: number;
+  /** Reason shown in Discord's audit log for the AFK action */
+  kickReason?: string;
+  /** Direct message sent to a member after the AFK action, when kickDmEnabled is on */
+  kickDm?: string;
+}
+
+export const MESSAGE_TEMPLATE_TEXT_FIELDS = ['warningTitle', 'warningBody', 'kickReason', 'kickDm'] as const;
+
+export type MessageTemplateTextField = typeof MESSAGE_TEMPLATE_TEXT_FIELDS[number];
+
 export interface GuildSettings {
   guildId: string;
   enabled: boolean;
@@ -9,6 +111,55 @@ export interface GuildSettings {
   warningChannelId: string | null;
   exemptRoleIds: string[];
   adminRoleIds: string[];
+  afkAction: AFKAction;
+  /** Target for the move action; null falls back to the guild's AFK channel */
+  afkMoveChannelId: string | null;
+  /** Role assigned by the role action */
+  afkRoleId: string | null;
+  /** Duration of the native member timeout applied by the timeout action */
+  memberTimeoutSeconds: number;
+  mode: EnforcementMode;
+  /** Escalate the AFK action for repeat offenders using escalationSteps */
+  escalationEnabled: boolean;
+  /** How long a strike counts toward escalation before it decays */
+  escalationWindowSeconds: number;
+  escalationSteps: EscalationStep[];
+  /** Where notify steps alert moderators; null falls back to the warning channel */
+  escalationNotifyChannelId: string | null;
+  /** Activity signals counted on top of speaking; empty means speaking only */
+  activitySignals: ActivitySignal[];
+  /** Text channels whose messages and reactions count as activity, besides voice channel chats */
+  activityChannelIds: string[];
+  /** IANA time zone the schedule windows are read in */
+  scheduleTimeZone: string;
+  scheduleType: ScheduleType;
+  /** Empty means AFK handling is not limited by a schedule */
+  scheduleWindows: ScheduleWindow[];
+  /** Members a voice channel needs before anyone in it is tracked */
+  minUsersForTracking: number;
+  /** Whether deafened members count toward minUsersForTracking */
+  countDeafenedUsers: boolean;
+  /** Whether other bots count toward minUsersForTracking; the bot's own voice identities never do */
+  countBots: boolean;
+  /** How many times a member may use /afk-snooze per 24 hours; 0 turns snoozing off */
+  snoozeDailyLimit: number;
+  /** Voice channels and categories where nobody is tracked; the guild's own AFK channel always is */
+  exemptChannelIds: string[];
+  /** Language of the built-in messages; null follows the guild's preferred locale */
+  messageLocale: MessageLocale | null;
+  messageTemplates: MessageTemplates;
+  /** DM members after the AFK action is applied to them */
+  kickDmEnabled: boolean;
+  warningDelivery: WarningDeliveryMode;
+  /**
+   * Later countdown points, in seconds before the AFK action, at which the warning
+   * is edited to show the time left; points not below warningSecondsBefore are ignored
+   */
+  warningStages: number[];
+  /** Play a short chime in the voice channel when the warning is posted */
+  warningChimeEnabled: boolean;
+  /** Where AFK enforcement outcomes are logged for moderators; null turns the log off */
+  modLogChannelId: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -21,6 +172,32 @@ interface GuildSettingsRow {
   warning_channel_id: string | null;
   exempt_role_ids: string | null;
   admin_role_ids: string | null;
+  afk_action: AFKAction;
+  afk_move_channel_id: string | null;
+  afk_role_id: string | null;
+  member_timeout_seconds: number;
+  mode: EnforcementMode;
+  escalation_enabled: number;
+  escalation_window_seconds: number;
+  escalation_steps: string | null;
+  escalation_notify_channel_id: string | null;
+  activity_signals: string | null;
+  activity_channel_ids: string | null;
+  schedule_time_zone: string;
+  schedule_type: ScheduleType;
+  schedule_windows: string | null;
+  min_users_for_tracking: number;
+  count_deafened_users: number | null;
+  count_bots: number;
+  snooze_daily_limit: number;
+  exempt_channel_ids: string | null;
+  message_locale: MessageLocale | null;
+  message_templates: string | null;
+  kick_dm_enabled: number | null;
+  warning_delivery: WarningDeliveryMode;
+  warning_stages: string | null;
+  warning_chime_enabled: number | null;
+  mod_log_channel_id: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -79,6 +256,34 @@ export class GuildSettingsRepository {
       ? JSON.stringify(settings.adminRoleIds)
       : null;
 
+    const escalationStepsJson = settings.escalationSteps
+      ? JSON.stringify(settings.escalationSteps)
+      : null;
+
+    const activitySignalsJson = settings.activitySignals
+      ? JSON.stringify(settings.activitySignals)
+      : null;
+
+    const activityChannelIdsJson = settings.activityChannelIds
+      ? JSON.stringify(settings.activityChannelIds)
+      : null;
+
+    const scheduleWindowsJson = settings.scheduleWindows
+      ? JSON.stringify(settings.scheduleWindows)
+      : null;
+
+    const exemptChannelIdsJson = settings.exemptChannelIds
+      ? JSON.stringify(settings.exemptChannelIds)
+      : null;
+
+    const messageTemplatesJson = settings.messageTemplates
+      ? JSON.stringify(settings.messageTemplates)
+      : null;
+
+    const warningStagesJson = settings.warningStages
+      ? JSON.stringify(settings.warningStages)
+      : null;
+
     const statement = this.db.prepare(`
       INSERT INTO guild_settings (
         guild_id,
@@ -88,8 +293,34 @@ export class GuildSettingsRepository {
         warning_channel_id,
         exempt_role_ids,
         admin_role_ids,
+        afk_action,
+        afk_move_channel_id,
+        afk_role_id,
+        member_timeout_seconds,
+        mode,
+        escalation_enabled,
+        escalation_window_seconds,
+        escalation_steps,
+        escalation_notify_channel_id,
+        activity_signals,
+        activity_channel_ids,
+        schedule_time_zone,
+        schedule_type,
+        schedule_windows,
+        min_users_for_tracking,
+        count_deafened_users,
+        count_bots,
+        snooze_daily_limit,
+        exempt_channel_ids,
+        message_locale,
+        message_templates,
+        kick_dm_enabled,
+        warning_delivery,
+        warning_stages,
+        warning_chime_enabled,
+        mod_log_channel_id,
         updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
       ON CONFLICT(guild_id) DO UPDATE SET
         enabled = COALESCE(excluded.enabled, enabled),
         afk_timeout_seconds = COALESCE(excluded.afk_timeout_seconds, afk_timeout_seconds),
@@ -97,9 +328,43 @@ export class GuildSettingsRepository {
         warning_channel_id = COALESCE(excluded.warning_channel_id, warning_channel_id),
         exempt_role_ids = COALESCE(excluded.exempt_role_ids, exempt_role_ids),
         admin_role_ids = COALESCE(excluded.admin_role_ids, admin_role_ids),
+        afk_action = COALESCE(excluded.afk_action, afk_action),
+        afk_move_channel_id = CASE WHEN ? THEN excluded.afk_move_channel_id ELSE afk_move_channel_id END,
+        afk_role_id = CASE WHEN ? THEN excluded.afk_role_id ELSE afk_role_id END,
+        member_timeout_seconds = COALESCE(excluded.member_timeout_seconds, member_timeout_seconds),
+        mode = COALESCE(excluded.mode, mode),
+        escalation_enabled = COALESCE(excluded.escalation_enabled, escalation_enabled),
+        escalation_window_seconds = COALESCE(excluded.escalation_window_seconds, escalation_window_seconds),
+        escalation_steps = COALESCE(excluded.escalation_steps, escalation_steps),
+        escalation_notify_channel_id = CASE WHEN ? THEN excluded.escalation_notify_channel_id ELSE escalation_notify_channel_id END,
+        activity_signals = COALESCE(excluded.activity_signals, activity_signals),
+        activity_channel_ids = COALESCE(excluded.activity_channel_ids, activity_channel_ids),
+        schedule_time_zone = COALESCE(excluded.schedule_time_zone, schedule_time_zone),
+        schedule_type = COALESCE(excluded.schedule_type, schedule_type),
+        schedule_windows = COALESCE(excluded.schedule_windows, schedule_windows),
+        min_users_for_tracking = COALESCE(excluded.min_users_for_tracking, min_users_for_tracking),
+        count_deafened_users = COALESCE(excluded.count_deafened_users, count_deafened_users),
+        count_bots = COALESCE(excluded.count_bots, count_bots),
+        snooze_daily_limit = COALESCE(excluded.snooze_daily_limit, snooze_daily_limit),
+        exempt_channel_ids = COALESCE(excluded.exempt_channel_ids, exempt_channel_ids),
+        message_locale = CASE WHEN ? THEN excluded.message_locale ELSE message_locale END,
+        message_templates = COALESCE(excluded.message_templates, message_templates),
+        kick_dm_enabled = COALESCE(excluded.kick_dm_enabled, kick_dm_enabled),
+        warning_delivery = COALESCE(excluded.warning_delivery, warning_delivery),
+        warning_stages = COALESCE(excluded.warning_stages, warning_stages),
+        warning_chime_enabled = COALESCE(excluded.warning_chime_enabled, warning_chime_enabled),
+        mod_log_channel_id = CASE WHEN ? THEN excluded.mod_log_channel_id ELSE mod_log_channel_id END,
         updated_at = CURRENT_TIMESTAMP
     `);
 
+    // Action targets can be cleared with an explicit null, so track whether they were provided
+    const afkMoveChannelIdProvided = settings.afkMoveChannelId !== undefined;
+    const afkRoleIdProvided = settings.afkRoleId !== undefined;
+    const escalationNotifyChannelIdProvided = settings.escalationNotifyChannelId !== undefined;
+    const modLogChannelIdProvided = settings.modLogChannelId !== undefined;
+    // Likewise a null locale goes back to following the guild's preferred locale
+    const messageLocaleProvided = settings.messageLocale !== undefined;
+
     statement.run(
       settings.guildId,
       settings.enabled !== undefined ? (settings.enabled ? 1 : 0) : null,
@@ -107,7 +372,38 @@ export class GuildSettingsRepository {
       settings.warningSecondsBefore ?? null,
       settings.warningChannelId ?? null,
       exemptRoleIdsJson,
-      adminRoleIdsJson
+      adminRoleIdsJson,
+      settings.afkAction ?? null,
+      settings.afkMoveChannelId ?? null,
+      settings.afkRoleId ?? null,
+      settings.memberTimeoutSeconds ?? null,
+      settings.mode ?? null,
+      settings.escalationEnabled !== undefined ? (settings.escalationEnabled ? 1 : 0) : null,
+      settings.escalationWindowSeconds ?? null,
+      escalationStepsJson,
+      settings.escalationNotifyChannelId ?? null,
+      activitySignalsJson,
+      activityChannelIdsJson,
+      settings.scheduleTimeZone ?? null,
+      settings.scheduleType ?? null,
+      scheduleWindowsJson,
+      settings.minUsersForTracking ?? null,
+      settings.countDeafenedUsers !== undefined ? (settings.countDeafenedUsers ? 1 : 0) : null,
+      settings.countBots !== undefined ? (settings.countBots ? 1 : 0) : null,
+      settings.snoozeDailyLimit ?? null,
+      exemptChannelIdsJson,
+      settings.messageLocale ?? null,
+      messageTemplatesJson,
+      settings.kickDmEnabled !== undefined ? (settings.kickDmEnabled ? 1 : 0) : null,
+      settings.warningDelivery ?? null,
+      warningStagesJson,
+      settings.warningChimeEnabled !== undefined ? (settings.warningChimeEnabled ? 1 : 0) : null,
+      settings.modLogChannelId ?? null,
+      afkMoveChannelIdProvided ? 1 : 0,
+      afkRoleIdProvided ? 1 : 0,
+      escalationNotifyChannelIdProvided ? 1 : 0,
+      messageLocaleProvided ? 1 : 0,
+      modLogChannelIdProvided ? 1 : 0
     );
 
     if (this.logger.isLevelEnabled('debug')) {
@@ -136,6 +432,10 @@ export class GuildSettingsRepository {
   private mapRowToSettings(row: GuildSettingsRow): GuildSettings {
     const exemptRoleIds = this.safeParseJsonArray(row.exempt_role_ids, 'exempt_role_ids');
     const adminRoleIds = this.safeParseJsonArray(row.admin_role_ids, 'admin_role_ids');
+    const activitySignals = this.safeParseJsonArray(row.activity_signals, 'activity_signals')
+      .filter((signal): signal is ActivitySignal => (ACTIVITY_SIGNALS as readonly string[]).includes(signal));
+    const activityChannelIds = this.safeParseJsonArray(row.activity_channel_ids, 'activity_channel_ids');
+    const exemptChannelIds = this.safeParseJsonArray(row.exempt_channel_ids, 'exempt_channel_ids');
 
     return {
       guildId: row.guild_id,
@@ -145,11 +445,142 @@ export class GuildSettingsRepository {
       warningChannelId: row.warning_channel_id,
       exemptRoleIds,
       adminRoleIds,
+      afkAction: row.afk_action,
+      afkMoveChannelId: row.afk_move_channel_id,
+      afkRoleId: row.afk_role_id,
+      memberTimeoutSeconds: row.member_timeout_seconds,
+      mode: row.mode,
+      escalationEnabled: row.escalation_enabled === 1,
+      escalationWindowSeconds: row.escalation_window_seconds,
+      escalationSteps: this.safeParseEscalationSteps(row.escalation_steps),
+      escalationNotifyChannelId: row.escalation_notify_channel_id,
+      activitySignals,
+      activityChannelIds,
+      scheduleTimeZone: row.schedule_time_zone,
+      scheduleType: row.schedule_type,
+      scheduleWindows: this.safeParseScheduleWindows(row.schedule_windows),
+      minUsersForTracking: row.min_users_for_tracking,
+      // A row inserted without the flag holds NULL rather than the column default, which counts deafened members
+      countDeafenedUsers: row.count_deafened_users !== 0,
+      countBots: row.count_bots === 1,
+      snoozeDailyLimit: row.snooze_daily_limit,
+      exemptChannelIds,
+      messageLocale: row.message_locale,
+      messageTemplates: this.safeParseMessageTemplates(row.message_templates),
+      kickDmEnabled: row.kick_dm_enabled === 1,
+      warningDelivery: row.warning_delivery,
+      warningStages: this.safeParseWarningStages(row.warning_stages),
+      warningChimeEnabled: row.warning_chime_enabled === 1,
+      modLogChannelId: row.mod_log_channel_id,
       createdAt: row.created_at,
       updatedAt: row.updated_at
     };
   }
 
+  private safeParseEscalationSteps(json: string | null): EscalationStep[] {
+    if (json === null || json === '') {
+      return [];
+    }
+
+    try {
+      const parsed: unknown = JSON.parse(json);
+
+      if (!Array.isArray(parsed) || !parsed.every(isEscalationStep)) {
+        this.logger.warn(
+          { fieldName: 'escalation_steps', value: json },
+          'Escalation steps are malformed, returning empty array'
+        );
+        return [];
+      }
+
+      return parsed;
+    } catch (error) {
+      this.logger.warn(
+        { fieldName: 'escalation_steps', value: json, error },
+        'Failed to parse escalation steps, returning empty array'
+      );
+      return [];
+    }
+  }
+
+  private safeParseScheduleWindows(json: string | null): ScheduleWindow[] {
+    if (json === null || json === '') {
+      return [];
+    }
+
+    try {
+      const parsed: unknown = JSON.parse(json);
+
+      if (!Array.isArray(parsed) || !parsed.every(isScheduleWindow)) {
+        this.logger.warn(
+          { fieldName: 'schedule_windows', value: json },
+          'Schedule windows are malformed, returning empty array'
+        );
+        return [];
+      }
+
+      return parsed;
+    } catch (error) {
+      this.logger.warn(
+        { fieldName: 'schedule_windows', value: json, error },
+        'Failed to parse schedule windows, returning empty array'
+      );
+      return [];
+    }
+  }
+
+  private safeParseMessageTemplates(json: string | null): MessageTemplates {
+    if (json === null || json === '') {
+      return {};
+    }
+
+    try {
+      const parsed: unknown = JSON.parse(json);
+
+      if (!isMessageTemplates(parsed)) {
+        this.logger.warn(
+          { fieldName: 'message_templates', value: json },
+          'Message templates are malformed, returning empty object'
+        );
+        return {};
+      }
+
+      return parsed;
+    } catch (error) {
+      this.logger.warn(
+        { fieldName: 'message_templates', value: json, error },
+        'Failed to parse message templates, returning empty object'
+      );
+      return {};
+    }
+  }
+
+  private safeParseWarningStages(json: string | null): number[] {
+    if (json === null || json === '') {
+      return [];
+    }
+
+    try {
+      const parsed: unknown = JSON.parse(json);
+
+      if (!Array.isArray(parsed) || !parsed.every((stage): stage is number => Number.isInteger(stage) && stage > 0)) {
+        this.logger.warn(
+          { fieldName: 'warning_stages', value: json },
+          'Warning stages are malformed, returning empty array'
+        );
+        return [];
+      }
+
+      return parsed;
+    } catch (error) {
+      this.logger.warn(
+        { fieldName: 'warning_stages', value: json, error },
+        'Failed to parse warning stages, returning empty array'
+      );
+      return [];
+    }
+  }
+
   private safeParseJsonArray(json: string | null, fieldName: string): string[] {
     if (!json) {
       return [];
@@ -184,3 +615,40 @@ export class GuildSettingsRepository {
     }
   }
 }
+
+function isEscalationStep(value: unknown): value is EscalationStep {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const step = value as Record<string, unknown>;
+  return (
+    typeof step['strikes'] === 'number' &&
+    (AFK_ACTIONS as readonly unknown[]).includes(step['action']) &&
+    (step['memberTimeoutSeconds'] === null || typeof step['memberTimeoutSeconds'] === 'number') &&
+    typeof step['notify'] === 'boolean'
+  );
+}
+
+function isScheduleWindow(value: unknown): value is ScheduleWindow {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const window = value as Record<string, unknown>;
+  return (
+    Array.isArray(window['days']) &&
+    window['days'].every(day => typeof day === 'number') &&
+    typeof window['start'] === 'string' &&
+    typeof window['end'] === 'string'
+  );
+}
+
+function isMessageTemplates(value: unknown): value is MessageTemplates {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const templates = value as Record<string, unknown>;
+  return (
+    MESSAGE_TEMPLATE_TEXT_FIELDS.every(field => templates[field] === undefined || typeof templates[field] === 'string') &&
+    (templates['warningColor'] === undefined || typeof templates['warningColor'] === 'number')
+  );
+}
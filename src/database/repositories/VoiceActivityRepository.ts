@@ -0,0 +1,227 @@
+import type Database from 'better-sqlite3';
+import type { Logger } from 'pino';
+
+/**
+ * Time one member spent in one voice channel on one UTC day, while the bot was
+ * connected to the channel and could hear who was speaking.
+ */
+export interface VoiceActivityRollup {
+  guildId: string;
+  userId: string;
+  channelId: string;
+  /** UTC date, YYYY-MM-DD */
+  day: string;
+  speakingMs: number;
+  presentMs: number;
+  /** Times the member started speaking */
+  speakingSessions: number;
+}
+
+/**
+ * Activity to add to a rollup; rows are created on first use.
+ */
+export type VoiceActivityDelta = VoiceActivityRollup;
+
+/**
+ * A member's activity summed over a range of days.
+ */
+export interface VoiceActivityUserSummary {
+  userId: string;
+  speakingMs: number;
+  presentMs: number;
+  speakingSessions: number;
+}
+
+/**
+ * A channel's activity summed over a range of days.
+ */
+export interface VoiceActivityChannelSummary {
+  channelId: string;
+  /** Member time spent in the channel, summed over members */
+  presentMs: number;
+  speakingMs: number;
+  /** Distinct members seen in the channel */
+  members: number;
+}
+
+/**
+ * How to rank members: by time spent speaking, or by time in voice without speaking.
+ */
+export type VoiceActivityUserOrder = 'speaking' | 'silent';
+
+interface VoiceActivityRow {
+  guild_id: string;
+  user_id: string;
+  channel_id: string;
+  day: string;
+  speaking_ms: number;
+  present_ms: number;
+  speaking_sessions: number;
+}
+
+const USER_ORDER_COLUMNS: Record<VoiceActivityUserOrder, string> = {
+  speaking: 'speaking_ms',
+  silent: 'present_ms - speaking_ms',
+};
+
+export class VoiceActivityRepository {
+  private db: Database.Database;
+  private logger: Logger;
+
+  constructor(db: Database.Database, logger: Logger) {
+    this.db = db;
+    this.logger = logger;
+  }
+
+  /**
+   * Adds the deltas to their daily rollups in one transaction.
+   */
+  addActivity(deltas: VoiceActivityDelta[]): void {
+    if (deltas.length === 0) {
+      return;
+    }
+
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug(
+        { action: 'db_write', operation: 'addActivity', rows: deltas.length },
+        'Writing voice activity rollups to database'
+      );
+    }
+
+    const statement = this.db.prepare(`
+      INSERT INTO voice_activity_daily (
+        guild_id,
+        user_id,
+        channel_id,
+        day,
+        speaking_ms,
+        present_ms,
+        speaking_sessions
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(guild_id, day, user_id, channel_id) DO UPDATE SET
+        speaking_ms = speaking_ms + excluded.speaking_ms,
+        present_ms = present_ms + excluded.present_ms,
+        speaking_sessions = speaking_sessions + excluded.speaking_sessions
+    `);
+
+    const addAll = this.db.transaction((rows: VoiceActivityDelta[]) => {
+      for (const row of rows) {
+        statement.run(
+          row.guildId,
+          row.userId,
+          row.channelId,
+          row.day,
+          row.speakingMs,
+          row.presentMs,
+          row.speakingSessions
+        );
+      }
+    });
+
+    addAll(deltas);
+  }
+
+  /**
+   * Returns the rollups for a range of days, both ends inclusive, oldest first.
+   */
+  find(guildId: string, fromDay: string, toDay: string): VoiceActivityRollup[] {
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug(
+        { guildId, action: 'db_query', operation: 'find', fromDay, toDay },
+        'Querying voice activity rollups from database'
+      );
+    }
+
+    const rows = this.db
+      .prepare(`
+        SELECT * FROM voice_activity_daily
+        WHERE guild_id = ? AND day >= ? AND day <= ?
+        ORDER BY day, user_id, channel_id
+      `)
+      .all(guildId, fromDay, toDay) as VoiceActivityRow[];
+
+    return rows.map(row => ({
+      guildId: row.guild_id,
+      userId: row.user_id,
+      channelId: row.channel_id,
+      day: row.day,
+      speakingMs: row.speaking_ms,
+      presentMs: row.present_ms,
+      speakingSessions: row.speaking_sessions,
+    }));
+  }
+
+  /**
+   * Sums activity per member over a range of days and returns the top members.
+   */
+  summarizeUsers(
+    guildId: string,
+    fromDay: string,
+    toDay: string,
+    orderBy: VoiceActivityUserOrder,
+    limit: number
+  ): VoiceActivityUserSummary[] {
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug(
+        { guildId, action: 'db_query', operation: 'summarizeUsers', fromDay, toDay, orderBy },
+        'Summarizing voice activity per member from database'
+      );
+    }
+
+    const rows = this.db
+      .prepare(`
+        SELECT
+          user_id,
+          SUM(speaking_ms) AS speaking_ms,
+          SUM(present_ms) AS present_ms,
+          SUM(speaking_sessions) AS speaking_sessions
+        FROM voice_activity_daily
+        WHERE guild_id = ? AND day >= ? AND day <= ?
+        GROUP BY user_id
+        ORDER BY SUM(${USER_ORDER_COLUMNS[orderBy]}) DESC, user_id
+        LIMIT ?
+      `)
+      .all(guildId, fromDay, toDay, limit) as Array<Pick<VoiceActivityRow, 'user_id' | 'speaking_ms' | 'present_ms' | 'speaking_sessions'>>;
+
+    return rows.map(row => ({
+      userId: row.user_id,
+      speakingMs: row.speaking_ms,
+      presentMs: row.present_ms,
+      speakingSessions: row.speaking_sessions,
+    }));
+  }
+
+  /**
+   * Sums activity per channel over a range of days, busiest first.
+   */
+  summarizeChannels(guildId: string, fromDay: string, toDay: string, limit: number): VoiceActivityChannelSummary[] {
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug(
+        { guildId, action: 'db_query', operation: 'summarizeChannels', fromDay, toDay },
+        'Summarizing voice activity per channel from database'
+      );
+    }
+
+    const rows = this.db
+      .prepare(`
+        SELECT
+          channel_id,
+          SUM(present_ms) AS present_ms,
+          SUM(speaking_ms) AS speaking_ms,
+          COUNT(DISTINCT user_id) AS members
+        FROM voice_activity_daily
+        WHERE guild_id = ? AND day >= ? AND day <= ?
+        GROUP BY channel_id
+        ORDER BY SUM(present_ms) DESC, channel_id
+        LIMIT ?
+      `)
+      .all(guildId, fromDay, toDay, limit) as Array<{ channel_id: string; present_ms: number; speaking_ms: number; members: number }>;
+
+    return rows.map(row => ({
+      channelId: row.channel_id,
+      presentMs: row.present_ms,
+      speakingMs: row.speaking_ms,
+      members: row.members,
+    }));
+  }
+}
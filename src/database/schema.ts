@@ -2,6 +2,55 @@ import type Database from 'better-sqlite3';
 import type { Logger } from 'pino';
 import { formatError } from '../utils/errorUtils';
 
+/**
+ * Columns added to guild_settings after the initial release.
+ * Fresh databases get them through the same path as upgraded ones.
+ */
+const GUILD_SETTINGS_ADDED_COLUMNS: Array<{ name: string; definition: string }> = [
+  { name: 'afk_action', definition: "TEXT DEFAULT 'disconnect'" },
+  { name: 'afk_move_channel_id', definition: 'TEXT' },
+  { name: 'afk_role_id', definition: 'TEXT' },
+  { name: 'member_timeout_seconds', definition: 'INTEGER DEFAULT 600' },
+  { name: 'mode', definition: "TEXT DEFAULT 'enforce'" },
+  { name: 'escalation_enabled', definition: 'INTEGER DEFAULT 0' },
+  { name: 'escalation_window_seconds', definition: 'INTEGER DEFAULT 604800' },
+  { name: 'escalation_steps', definition: 'TEXT' },
+  { name: 'escalation_notify_channel_id', definition: 'TEXT' },
+  { name: 'activity_signals', definition: 'TEXT' },
+  { name: 'activity_channel_ids', definition: 'TEXT' },
+  { name: 'schedule_time_zone', definition: "TEXT DEFAULT 'UTC'" },
+  { name: 'schedule_type', definition: "TEXT DEFAULT 'active'" },
+  { name: 'schedule_windows', definition: 'TEXT' },
+  { name: 'min_users_for_tracking', definition: 'INTEGER DEFAULT 2' },
+  { name: 'count_deafened_users', definition: 'INTEGER DEFAULT 1' },
+  { name: 'count_bots', definition: 'INTEGER DEFAULT 0' },
+  { name: 'snooze_daily_limit', definition: 'INTEGER DEFAULT 3' },
+  { name: 'exempt_channel_ids', definition: 'TEXT' },
+  { name: 'message_locale', definition: 'TEXT' },
+  { name: 'message_templates', definition: 'TEXT' },
+  { name: 'kick_dm_enabled', definition: 'INTEGER DEFAULT 0' },
+  { name: 'warning_delivery', definition: "TEXT DEFAULT 'channel'" },
+  { name: 'warning_stages', definition: 'TEXT' },
+  { name: 'warning_chime_enabled', definition: 'INTEGER DEFAULT 0' },
+  { name: 'mod_log_channel_id', definition: 'TEXT' },
+];
+
+function addMissingColumns(
+  db: Database.Database,
+  table: string,
+  columns: Array<{ name: string; definition: string }>
+): void {
+  const existing = new Set(
+    (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map(col => col.name)
+  );
+
+  for (const column of columns) {
+    if (!existing.has(column.name)) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${column.name} ${column.definition}`);
+    }
+  }
+}
+
 export function createTables(db: Database.Database, logger: Logger): void {
   try {
     db.exec(`
@@ -16,7 +65,84 @@ export function createTables(db: Database.Database, logger: Logger): void {
         created_at TEXT DEFAULT CURRENT_TIMESTAMP,
         updated_at TEXT DEFAULT CURRENT_TIMESTAMP
       );
+
+      CREATE TABLE IF NOT EXISTS afk_tracking (
+        guild_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        channel_id TEXT NOT NULL,
+        started_at INTEGER NOT NULL,
+        warning_at INTEGER NOT NULL,
+        kick_at INTEGER NOT NULL,
+        warned INTEGER DEFAULT 0,
+        PRIMARY KEY (guild_id, user_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS channel_overrides (
+        guild_id TEXT NOT NULL,
+        channel_id TEXT NOT NULL,
+        enabled INTEGER,
+        afk_timeout_seconds INTEGER,
+        warning_seconds_before INTEGER,
+        warning_channel_id TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (guild_id, channel_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS afk_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        guild_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        channel_id TEXT,
+        action TEXT NOT NULL,
+        reason TEXT,
+        config_snapshot TEXT,
+        correlation_id TEXT,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_afk_events_guild_created
+        ON afk_events (guild_id, created_at);
+
+      CREATE TABLE IF NOT EXISTS afk_strikes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        guild_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        channel_id TEXT,
+        action TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_afk_strikes_guild_user_created
+        ON afk_strikes (guild_id, user_id, created_at);
+
+      CREATE TABLE IF NOT EXISTS afk_exemptions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        guild_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        source TEXT NOT NULL,
+        reason TEXT,
+        granted_by TEXT,
+        expires_at INTEGER NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_afk_exemptions_guild_user_expires
+        ON afk_exemptions (guild_id, user_id, expires_at);
+
+      CREATE TABLE IF NOT EXISTS voice_activity_daily (
+        guild_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        channel_id TEXT NOT NULL,
+        day TEXT NOT NULL,
+        speaking_ms INTEGER NOT NULL DEFAULT 0,
+        present_ms INTEGER NOT NULL DEFAULT 0,
+        speaking_sessions INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (guild_id, day, user_id, channel_id)
+      );
     `);
+
+    addMissingColumns(db, 'guild_settings', GUILD_SETTINGS_ADDED_COLUMNS);
   } catch (error) {
     logger.error({ error }, 'Failed to create database tables');
     throw new Error(`Database schema creation failed: ${formatError(error).message}`);
@@ -2,11 +2,82 @@ import {
   SlashCommandBuilder,
   ChatInputCommandInteraction,
   ChannelType,
+  EmbedBuilder,
 } from 'discord.js';
 import type { Logger } from 'pino';
 import { GuildConfigService } from '../../services/GuildConfigService';
-import { hasAFKAdminPermission } from '../../utils/permissions';
+import type {
+  AFKAction,
+  ActivitySignal,
+  EnforcementMode,
+  EscalationStep,
+  GuildSettings,
+  MessageLocale,
+  MessageTemplates,
+  MessageTemplateTextField,
+  ScheduleType,
+  ScheduleWindow,
+  WarningDeliveryMode,
+} from '../../database/repositories/GuildSettingsRepository';
+import type { ChannelOverride, ChannelOverrideFields } from '../../database/repositories/ChannelOverrideRepository';
+import { hasAFKAdminPermission, getMissingAFKActionPermissions } from '../../utils/permissions';
 import { formatError } from '../../utils/errorUtils';
+import { isValidTimeZone, isWithinSchedule, parseTimeOfDay, WEEKDAY_NAMES } from '../../utils/schedule';
+import { MESSAGE_TEMPLATE_MAX_LENGTHS, renderMessages } from '../../utils/messageTemplates';
+import { parseDuration } from '../../utils/duration';
+import { getChimeError, MAX_CHIME_BYTES, type ChimeStore } from '../../voice/ChimeStore';
+import type { CommandServices } from './index';
+
+const ACTIVITY_SIGNAL_CHOICES: Array<{ name: string; value: ActivitySignal }> = [
+  { name: 'Messages in voice channel chat or linked channels', value: 'messages' },
+  { name: 'Reactions in voice channel chat or linked channels', value: 'reactions' },
+  { name: 'Turning the camera on or off', value: 'video' },
+  { name: 'Starting or stopping a screen share', value: 'stream' },
+  { name: 'Using slash commands', value: 'commands' },
+];
+
+const MESSAGE_TEMPLATE_CHOICES: Array<{ name: string; value: MessageTemplateTextField }> = [
+  { name: 'Warning title', value: 'warningTitle' },
+  { name: 'Warning text', value: 'warningBody' },
+  { name: 'Audit log reason for the AFK action', value: 'kickReason' },
+  { name: 'DM sent after the AFK action', value: 'kickDm' },
+];
+
+const MESSAGE_LOCALE_CHOICES: Array<{ name: string; value: MessageLocale }> = [
+  { name: 'English', value: 'en' },
+  { name: 'Deutsch', value: 'de' },
+  { name: 'Español', value: 'es' },
+  { name: 'Français', value: 'fr' },
+  { name: 'Português (Brasil)', value: 'pt-BR' },
+];
+
+const WARNING_DELIVERY_CHOICES: Array<{ name: string; value: WarningDeliveryMode }> = [
+  { name: 'Warning channel', value: 'channel' },
+  { name: 'Direct message, warning channel if DMs are closed', value: 'dm' },
+  { name: "Voice channel's text chat, warning channel as fallback", value: 'voice-chat' },
+  { name: 'Direct message and warning channel', value: 'both' },
+];
+
+const WARNING_DELIVERY_REPLIES: Record<WarningDeliveryMode, string> = {
+  channel: 'Warnings are now posted in the warning channel.',
+  dm: 'Warnings are now sent by DM, falling back to the warning channel when DMs are closed.',
+  'voice-chat': "Warnings are now posted in the voice channel's text chat, falling back to the warning channel.",
+  both: 'Warnings are now sent by DM and posted in the warning channel.',
+};
+
+/**
+ * Day presets offered by /afk-config schedule add, mapped to weekday numbers (0 is Sunday).
+ */
+const SCHEDULE_DAY_PRESETS: Record<string, number[]> = {
+  everyday: [0, 1, 2, 3, 4, 5, 6],
+  weekdays: [1, 2, 3, 4, 5],
+  weekends: [0, 6],
+  ...Object.fromEntries(WEEKDAY_NAMES.map((name, day) => [name.toLowerCase(), [day]])),
+};
+
+const MAX_SCHEDULE_WINDOWS = 20;
+
+const MAX_WARNING_STAGES = 5;
 
 export const data = new SlashCommandBuilder()
   .setName('afk-config')
@@ -47,6 +118,17 @@ export const data = new SlashCommandBuilder()
           .setMaxValue(300)
       )
   )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('countdown')
+      .setDescription('Update the warning as time runs down instead of posting it once')
+      .addStringOption((option) =>
+        option
+          .setName('points')
+          .setDescription('Times left at which to update the warning, e.g. "1m 15s", or "off"')
+          .setRequired(true)
+      )
+  )
   .addSubcommand((subcommand) =>
     subcommand
       .setName('channel')
@@ -59,241 +141,1698 @@ export const data = new SlashCommandBuilder()
           .addChannelTypes(ChannelType.GuildText)
       )
   )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('modlog')
+      .setDescription('Set a channel where moderators see AFK actions, failures and exemptions')
+      .addChannelOption((option) =>
+        option
+          .setName('channel')
+          .setDescription('Channel for the moderator log (leave empty to turn it off)')
+          .addChannelTypes(ChannelType.GuildText)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('action')
+      .setDescription('Set what happens when a user is AFK for too long')
+      .addStringOption((option) =>
+        option
+          .setName('type')
+          .setDescription('Action to take')
+          .setRequired(true)
+          .addChoices(
+            { name: 'Disconnect from voice', value: 'disconnect' },
+            { name: 'Move to AFK channel', value: 'move' },
+            { name: 'Server-mute and deafen', value: 'mute' },
+            { name: 'Discord timeout', value: 'timeout' },
+            { name: 'Assign role', value: 'role' }
+          )
+      )
+      .addChannelOption((option) =>
+        option
+          .setName('channel')
+          .setDescription('Voice channel for the move action (defaults to the server AFK channel)')
+          .addChannelTypes(ChannelType.GuildVoice, ChannelType.GuildStageVoice)
+      )
+      .addRoleOption((option) =>
+        option
+          .setName('role')
+          .setDescription('Role to assign for the role action')
+      )
+      .addIntegerOption((option) =>
+        option
+          .setName('minutes')
+          .setDescription('Timeout duration for the timeout action (1-40320)')
+          .setMinValue(1)
+          .setMaxValue(40320)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('mode')
+      .setDescription('Choose whether AFK users are warned and acted on, or only recorded')
+      .addStringOption((option) =>
+        option
+          .setName('mode')
+          .setDescription('Enforcement mode')
+          .setRequired(true)
+          .addChoices(
+            { name: 'Enforce: warn and apply the AFK action', value: 'enforce' },
+            { name: 'Warn only: warn, record the AFK action without applying it', value: 'warn-only' },
+            { name: 'Observe: record warnings and actions without doing anything', value: 'observe' }
+          )
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('threshold')
+      .setDescription('Set how many members a voice channel needs before AFK users are tracked')
+      .addIntegerOption((option) =>
+        option
+          .setName('min-users')
+          .setDescription('Minimum number of counted members (1-99)')
+          .setRequired(true)
+          .setMinValue(1)
+          .setMaxValue(99)
+      )
+      .addBooleanOption((option) =>
+        option
+          .setName('count-deafened')
+          .setDescription('Whether deafened members count (unchanged if omitted)')
+          .setRequired(false)
+      )
+      .addBooleanOption((option) =>
+        option
+          .setName('count-bots')
+          .setDescription('Whether other bots count (unchanged if omitted)')
+          .setRequired(false)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('snooze-limit')
+      .setDescription('Set how many times a day members may snooze their AFK timer')
+      .addIntegerOption((option) =>
+        option
+          .setName('count')
+          .setDescription('Snoozes per member per 24 hours (0 turns /afk-snooze off)')
+          .setRequired(true)
+          .setMinValue(0)
+          .setMaxValue(20)
+      )
+  )
   .addSubcommandGroup((group) =>
     group
-      .setName('exempt')
-      .setDescription('Manage exempt roles')
+      .setName('channel-override')
+      .setDescription('Override settings for a voice channel or category')
       .addSubcommand((subcommand) =>
         subcommand
-          .setName('add')
-          .setDescription('Add an exempt role')
-          .addRoleOption((option) =>
+          .setName('set')
+          .setDescription('Set override values for a voice channel or category')
+          .addChannelOption((option) =>
             option
-              .setName('role')
-              .setDescription('Role to exempt from AFK kicks')
+              .setName('channel')
+              .setDescription('Voice channel or category to override')
               .setRequired(true)
+              .addChannelTypes(ChannelType.GuildVoice, ChannelType.GuildStageVoice, ChannelType.GuildCategory)
+          )
+          .addBooleanOption((option) =>
+            option
+              .setName('enabled')
+              .setDescription('Whether AFK detection runs in this channel')
+          )
+          .addIntegerOption((option) =>
+            option
+              .setName('timeout')
+              .setDescription('Timeout in seconds (60-3600)')
+              .setMinValue(60)
+              .setMaxValue(3600)
+          )
+          .addIntegerOption((option) =>
+            option
+              .setName('warning')
+              .setDescription('Warning time in seconds (10-300)')
+              .setMinValue(10)
+              .setMaxValue(300)
+          )
+          .addChannelOption((option) =>
+            option
+              .setName('warning-channel')
+              .setDescription('Channel to send warnings to')
+              .addChannelTypes(ChannelType.GuildText)
           )
       )
       .addSubcommand((subcommand) =>
         subcommand
-          .setName('remove')
-          .setDescription('Remove an exempt role')
-          .addRoleOption((option) =>
+          .setName('clear')
+          .setDescription('Remove the override so the channel inherits again')
+          .addChannelOption((option) =>
             option
-              .setName('role')
-              .setDescription('Role to remove from exemptions')
+              .setName('channel')
+              .setDescription('Voice channel or category to clear')
               .setRequired(true)
+              .addChannelTypes(ChannelType.GuildVoice, ChannelType.GuildStageVoice, ChannelType.GuildCategory)
           )
       )
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('list')
+          .setDescription('List channel overrides')
+      )
   )
   .addSubcommandGroup((group) =>
     group
-      .setName('admin')
-      .setDescription('Manage admin roles')
+      .setName('escalation')
+      .setDescription('Escalate the AFK action for repeat offenders')
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('enable')
+          .setDescription('Apply escalation steps based on recent strikes')
+      )
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('disable')
+          .setDescription('Always apply the regular AFK action')
+      )
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('step')
+          .setDescription('Add or replace the step applied at a strike count')
+          .addIntegerOption((option) =>
+            option
+              .setName('strikes')
+              .setDescription('Strikes within the window, including the current one (1-100)')
+              .setRequired(true)
+              .setMinValue(1)
+              .setMaxValue(100)
+          )
+          .addStringOption((option) =>
+            option
+              .setName('type')
+              .setDescription('Action to take')
+              .setRequired(true)
+              .addChoices(
+                { name: 'Disconnect from voice', value: 'disconnect' },
+                { name: 'Move to AFK channel', value: 'move' },
+                { name: 'Server-mute and deafen', value: 'mute' },
+                { name: 'Discord timeout', value: 'timeout' },
+                { name: 'Assign role', value: 'role' }
+              )
+          )
+          .addIntegerOption((option) =>
+            option
+              .setName('minutes')
+              .setDescription('Timeout duration for the timeout action (1-40320)')
+              .setMinValue(1)
+              .setMaxValue(40320)
+          )
+          .addBooleanOption((option) =>
+            option
+              .setName('notify')
+              .setDescription('Also alert moderators when this step is applied')
+          )
+      )
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('remove-step')
+          .setDescription('Remove the step applied at a strike count')
+          .addIntegerOption((option) =>
+            option
+              .setName('strikes')
+              .setDescription('Strike count of the step to remove')
+              .setRequired(true)
+              .setMinValue(1)
+              .setMaxValue(100)
+          )
+      )
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('window')
+          .setDescription('Set how long a strike counts before it decays')
+          .addIntegerOption((option) =>
+            option
+              .setName('days')
+              .setDescription('Decay window in days (1-365)')
+              .setRequired(true)
+              .setMinValue(1)
+              .setMaxValue(365)
+          )
+      )
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('notify-channel')
+          .setDescription('Set where moderators are alerted (defaults to the warning channel)')
+          .addChannelOption((option) =>
+            option
+              .setName('channel')
+              .setDescription('Channel for escalation notices')
+              .setRequired(true)
+              .addChannelTypes(ChannelType.GuildText)
+          )
+      )
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('show')
+          .setDescription('Show the escalation ladder')
+      )
+  )
+  .addSubcommandGroup((group) =>
+    group
+      .setName('activity')
+      .setDescription('Choose what counts as activity besides speaking')
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('enable')
+          .setDescription('Count an activity signal toward resetting AFK timers')
+          .addStringOption((option) =>
+            option
+              .setName('signal')
+              .setDescription('Activity signal')
+              .setRequired(true)
+              .addChoices(...ACTIVITY_SIGNAL_CHOICES)
+          )
+      )
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('disable')
+          .setDescription('Stop counting an activity signal')
+          .addStringOption((option) =>
+            option
+              .setName('signal')
+              .setDescription('Activity signal')
+              .setRequired(true)
+              .addChoices(...ACTIVITY_SIGNAL_CHOICES)
+          )
+      )
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('link-channel')
+          .setDescription('Count messages and reactions in a text channel, not just voice channel chats')
+          .addChannelOption((option) =>
+            option
+              .setName('channel')
+              .setDescription('Text channel to link')
+              .setRequired(true)
+              .addChannelTypes(ChannelType.GuildText)
+          )
+      )
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('unlink-channel')
+          .setDescription('Stop counting messages and reactions in a text channel')
+          .addChannelOption((option) =>
+            option
+              .setName('channel')
+              .setDescription('Text channel to unlink')
+              .setRequired(true)
+              .addChannelTypes(ChannelType.GuildText)
+          )
+      )
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('show')
+          .setDescription('Show which activity signals are counted')
+      )
+  )
+  .addSubcommandGroup((group) =>
+    group
+      .setName('schedule')
+      .setDescription('Limit AFK handling to scheduled times')
       .addSubcommand((subcommand) =>
         subcommand
           .setName('add')
-          .setDescription('Add an admin role')
-          .addRoleOption((option) =>
+          .setDescription('Add a weekly time window')
+          .addStringOption((option) =>
             option
-              .setName('role')
-              .setDescription('Role that can manage AFK settings')
+              .setName('days')
+              .setDescription('Days the window starts on')
+              .setRequired(true)
+              .addChoices(
+                { name: 'Every day', value: 'everyday' },
+                { name: 'Weekdays', value: 'weekdays' },
+                { name: 'Weekends', value: 'weekends' },
+                ...WEEKDAY_NAMES.map((name) => ({ name, value: name.toLowerCase() }))
+              )
+          )
+          .addStringOption((option) =>
+            option
+              .setName('start')
+              .setDescription('Start time, HH:MM (24 hour)')
+              .setRequired(true)
+          )
+          .addStringOption((option) =>
+            option
+              .setName('end')
+              .setDescription('End time, HH:MM (24 hour); earlier than start runs past midnight')
               .setRequired(true)
           )
       )
       .addSubcommand((subcommand) =>
         subcommand
           .setName('remove')
-          .setDescription('Remove an admin role')
-          .addRoleOption((option) =>
+          .setDescription('Remove a time window')
+          .addIntegerOption((option) =>
             option
-              .setName('role')
-              .setDescription('Role to remove from admin list')
+              .setName('number')
+              .setDescription('Window number from /afk-config schedule show')
               .setRequired(true)
+              .setMinValue(1)
           )
       )
-  );
-
-export async function execute(
-  interaction: ChatInputCommandInteraction,
-  configService: GuildConfigService,
-  logger: Logger
-): Promise<void> {
-  const subcommandGroup = interaction.options.getSubcommandGroup();
-  const subcommand = interaction.options.getSubcommand();
-
-  if (logger.isLevelEnabled('debug')) {
-    logger.debug({
-      guildId: interaction.guildId,
-      userId: interaction.user.id,
-      command: 'afk-config',
-      subcommandGroup,
-      subcommand,
-      action: 'command_invoke'
-    }, 'afk-config command invoked');
-  }
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('clear')
+          .setDescription('Remove all windows so AFK handling runs at all times')
+      )
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('timezone')
+          .setDescription('Set the time zone windows are read in')
+          .addStringOption((option) =>
+            option
+              .setName('zone')
+              .setDescription('IANA time zone, e.g. Europe/Berlin or America/New_York')
+              .setRequired(true)
+          )
+      )
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('type')
+          .setDescription('Choose whether windows are enforcement hours or quiet hours')
+          .addStringOption((option) =>
+            option
+              .setName('type')
+              .setDescription('How windows are used')
+              .setRequired(true)
+              .addChoices(
+                { name: 'Active: only handle AFK users inside the windows', value: 'active' },
+                { name: 'Quiet: handle AFK users except inside the windows', value: 'quiet' }
+              )
+          )
+      )
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('show')
+          .setDescription('Show the schedule')
+      )
+  )
+  .addSubcommandGroup((group) =>
+    group
+      .setName('messages')
+      .setDescription('Customize the warning, audit log reason and DM wording')
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('set')
+          .setDescription('Set the wording of a message')
+          .addStringOption((option) =>
+            option
+              .setName('message')
+              .setDescription('Message to change')
+              .setRequired(true)
+              .addChoices(...MESSAGE_TEMPLATE_CHOICES)
+          )
+          .addStringOption((option) =>
+            option
+              .setName('text')
+              .setDescription('New text; may use {user}, {channel}, {seconds}, {timeout} and {server}')
+              .setRequired(true)
+              .setMaxLength(1500)
+          )
+      )
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('color')
+          .setDescription('Set the color of the warning embed')
+          .addStringOption((option) =>
+            option
+              .setName('hex')
+              .setDescription('Hex color, e.g. #FF9900')
+              .setRequired(true)
+          )
+      )
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('reset')
+          .setDescription('Go back to the built-in wording')
+          .addStringOption((option) =>
+            option
+              .setName('message')
+              .setDescription('Message to reset')
+              .setRequired(true)
+              .addChoices(
+                ...MESSAGE_TEMPLATE_CHOICES,
+                { name: 'Warning color', value: 'warningColor' },
+                { name: 'Everything', value: 'all' }
+              )
+          )
+      )
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('language')
+          .setDescription('Choose the language of the built-in messages')
+          .addStringOption((option) =>
+            option
+              .setName('language')
+              .setDescription('Language')
+              .setRequired(true)
+              .addChoices(
+                { name: "Follow the server's language", value: 'auto' },
+                ...MESSAGE_LOCALE_CHOICES
+              )
+          )
+      )
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('dm')
+          .setDescription('DM members after the AFK action is applied to them')
+          .addBooleanOption((option) =>
+            option
+              .setName('enabled')
+              .setDescription('Send the DM')
+              .setRequired(true)
+          )
+      )
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('delivery')
+          .setDescription('Choose where AFK warnings are sent')
+          .addStringOption((option) =>
+            option
+              .setName('mode')
+              .setDescription('Where to send warnings')
+              .setRequired(true)
+              .addChoices(...WARNING_DELIVERY_CHOICES)
+          )
+      )
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('preview')
+          .setDescription('Preview the messages as members will see them')
+      )
+  )
+  .addSubcommandGroup((group) =>
+    group
+      .setName('chime')
+      .setDescription('Play a sound in the voice channel with the AFK warning')
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('enable')
+          .setDescription('Turn the warning chime on or off')
+          .addBooleanOption((option) =>
+            option
+              .setName('enabled')
+              .setDescription('Whether to play the chime')
+              .setRequired(true)
+          )
+      )
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('upload')
+          .setDescription('Use your own chime instead of the built-in one')
+          .addAttachmentOption((option) =>
+            option
+              .setName('file')
+              .setDescription('Ogg Opus file (.ogg or .opus), up to 512 KB and 10 seconds')
+              .setRequired(true)
+          )
+      )
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('reset')
+          .setDescription('Go back to the built-in chime')
+      )
+  )
+  .addSubcommandGroup((group) =>
+    group
+      .setName('exempt')
+      .setDescription('Manage exempt roles and voice channels')
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('add')
+          .setDescription('Add an exempt role')
+          .addRoleOption((option) =>
+            option
+              .setName('role')
+              .setDescription('Role to exempt from AFK kicks')
+              .setRequired(true)
+          )
+      )
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('remove')
+          .setDescription('Remove an exempt role')
+          .addRoleOption((option) =>
+            option
+              .setName('role')
+              .setDescription('Role to remove from exemptions')
+              .setRequired(true)
+          )
+      )
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('add-channel')
+          .setDescription('Never track anyone in a voice channel or category')
+          .addChannelOption((option) =>
+            option
+              .setName('channel')
+              .setDescription('Voice channel or category to exempt')
+              .setRequired(true)
+              .addChannelTypes(ChannelType.GuildVoice, ChannelType.GuildStageVoice, ChannelType.GuildCategory)
+          )
+      )
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('remove-channel')
+          .setDescription('Track members in a voice channel or category again')
+          .addChannelOption((option) =>
+            option
+              .setName('channel')
+              .setDescription('Voice channel or category to remove from exemptions')
+              .setRequired(true)
+              .addChannelTypes(ChannelType.GuildVoice, ChannelType.GuildStageVoice, ChannelType.GuildCategory)
+          )
+      )
+  )
+  .addSubcommandGroup((group) =>
+    group
+      .setName('admin')
+      .setDescription('Manage admin roles')
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('add')
+          .setDescription('Add an admin role')
+          .addRoleOption((option) =>
+            option
+              .setName('role')
+              .setDescription('Role that can manage AFK settings')
+              .setRequired(true)
+          )
+      )
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName('remove')
+          .setDescription('Remove an admin role')
+          .addRoleOption((option) =>
+            option
+              .setName('role')
+              .setDescription('Role to remove from admin list')
+              .setRequired(true)
+          )
+      )
+  );
+
+export async function execute(
+  interaction: ChatInputCommandInteraction,
+  configService: GuildConfigService,
+  logger: Logger,
+  services: CommandServices
+): Promise<void> {
+  const subcommandGroup = interaction.options.getSubcommandGroup();
+  const subcommand = interaction.options.getSubcommand();
+
+  if (logger.isLevelEnabled('debug')) {
+    logger.debug({
+      guildId: interaction.guildId,
+      userId: interaction.user.id,
+      command: 'afk-config',
+      subcommandGroup,
+      subcommand,
+      action: 'command_invoke'
+    }, 'afk-config command invoked');
+  }
+
+  if (!interaction.guildId) {
+    await interaction.reply({
+      content: 'This command can only be used in a server.',
+      ephemeral: true,
+    });
+    return;
+  }
+
+  const guildId = interaction.guildId;
+
+  if (!hasAFKAdminPermission(interaction, configService)) {
+    await interaction.reply({
+      content: 'You do not have permission to use this command. You need Administrator permission or an admin role.',
+      ephemeral: true,
+    });
+    return;
+  }
+
+  try {
+    if (subcommandGroup === 'exempt') {
+      await handleExemptSubcommands(interaction, configService, subcommand, guildId);
+      return;
+    }
+
+    if (subcommandGroup === 'channel-override') {
+      await handleChannelOverrideSubcommands(interaction, configService, subcommand, guildId);
+      return;
+    }
+
+    if (subcommandGroup === 'admin') {
+      await handleAdminSubcommands(interaction, configService, subcommand, guildId);
+      return;
+    }
+
+    if (subcommandGroup === 'escalation') {
+      await handleEscalationSubcommands(interaction, configService, subcommand, guildId);
+      return;
+    }
+
+    if (subcommandGroup === 'activity') {
+      await handleActivitySubcommands(interaction, configService, subcommand, guildId);
+      return;
+    }
+
+    if (subcommandGroup === 'schedule') {
+      await handleScheduleSubcommands(interaction, configService, subcommand, guildId);
+      return;
+    }
+
+    if (subcommandGroup === 'messages') {
+      await handleMessagesSubcommands(interaction, configService, subcommand, guildId);
+      return;
+    }
+
+    if (subcommandGroup === 'chime') {
+      await handleChimeSubcommands(interaction, configService, subcommand, guildId, services.chimeStore);
+      return;
+    }
+
+    switch (subcommand) {
+      case 'enable':
+        await handleEnableCommand(interaction, configService, guildId);
+        break;
+      case 'disable':
+        await handleDisableCommand(interaction, configService, guildId);
+        break;
+      case 'timeout':
+        await handleTimeoutCommand(interaction, configService, guildId);
+        break;
+      case 'warning':
+        await handleWarningCommand(interaction, configService, guildId);
+        break;
+      case 'countdown':
+        await handleCountdownCommand(interaction, configService, guildId);
+        break;
+      case 'channel':
+        await handleChannelCommand(interaction, configService, guildId);
+        break;
+      case 'modlog':
+        await handleModLogCommand(interaction, configService, guildId);
+        break;
+      case 'action':
+        await handleActionCommand(interaction, configService, guildId);
+        break;
+      case 'mode':
+        await handleModeCommand(interaction, configService, guildId);
+        break;
+      case 'threshold':
+        await handleThresholdCommand(interaction, configService, guildId);
+        break;
+      case 'snooze-limit':
+        await handleSnoozeLimitCommand(interaction, configService, guildId);
+        break;
+      default:
+        await interaction.reply({
+          content: 'Unknown subcommand.',
+          ephemeral: true,
+        });
+    }
+  } catch (error) {
+    logger.error({ error, guildId, subcommand: interaction.options.getSubcommand() }, 'Error executing afk-config command');
+    const errorMessage = formatError(error).message;
+
+    if (interaction.replied || interaction.deferred) {
+      await interaction.followUp({
+        content: `Error: ${errorMessage}`,
+        ephemeral: true,
+      });
+    } else {
+      await interaction.reply({
+        content: `Error: ${errorMessage}`,
+        ephemeral: true,
+      });
+    }
+  }
+}
+
+async function handleEnableCommand(
+  interaction: ChatInputCommandInteraction,
+  configService: GuildConfigService,
+  guildId: string
+): Promise<void> {
+  await configService.updateConfig(guildId, { enabled: true });
+  await interaction.reply({
+    content: 'AFK detection has been enabled.',
+    ephemeral: true,
+  });
+}
+
+async function handleDisableCommand(
+  interaction: ChatInputCommandInteraction,
+  configService: GuildConfigService,
+  guildId: string
+): Promise<void> {
+  await configService.updateConfig(guildId, { enabled: false });
+  await interaction.reply({
+    content: 'AFK detection has been disabled.',
+    ephemeral: true,
+  });
+}
+
+async function handleTimeoutCommand(
+  interaction: ChatInputCommandInteraction,
+  configService: GuildConfigService,
+  guildId: string
+): Promise<void> {
+  const timeoutSeconds = interaction.options.getInteger('seconds', true);
+  const currentConfig = configService.getConfig(guildId);
+
+  if (timeoutSeconds <= currentConfig.warningSecondsBefore) {
+    await interaction.reply({
+      content: `Timeout (${timeoutSeconds}s) must be greater than warning time (${currentConfig.warningSecondsBefore}s).`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  await configService.updateConfig(guildId, {
+    afkTimeoutSeconds: timeoutSeconds,
+  });
+
+  const timeoutMinutes = Math.floor(timeoutSeconds / 60);
+  await interaction.reply({
+    content: `AFK timeout set to ${timeoutSeconds} seconds (${timeoutMinutes} minutes).`,
+    ephemeral: true,
+  });
+}
+
+async function handleWarningCommand(
+  interaction: ChatInputCommandInteraction,
+  configService: GuildConfigService,
+  guildId: string
+): Promise<void> {
+  const warningSeconds = interaction.options.getInteger('seconds', true);
+  const currentConfig = configService.getConfig(guildId);
+
+  if (warningSeconds >= currentConfig.afkTimeoutSeconds) {
+    await interaction.reply({
+      content: `Warning time (${warningSeconds}s) must be less than timeout (${currentConfig.afkTimeoutSeconds}s).`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  await configService.updateConfig(guildId, {
+    warningSecondsBefore: warningSeconds,
+  });
+
+  await interaction.reply({
+    content: `AFK warning time set to ${warningSeconds} seconds.`,
+    ephemeral: true,
+  });
+}
+
+async function handleCountdownCommand(
+  interaction: ChatInputCommandInteraction,
+  configService: GuildConfigService,
+  guildId: string
+): Promise<void> {
+  const input = interaction.options.getString('points', true).trim().toLowerCase();
+  const currentConfig = configService.getConfig(guildId);
+
+  if (input === 'off') {
+    await configService.updateConfig(guildId, { warningStages: [] });
+    await interaction.reply({
+      content: 'The AFK warning will be posted once, without a countdown.',
+      ephemeral: true,
+    });
+    return;
+  }
+
+  const stages = input.split(/[\s,]+/).map(parseDuration);
+  if (stages.some(stage => stage === null)) {
+    await interaction.reply({
+      content: 'Countdown points look like 1m, 30s or 1m30s, separated by spaces.',
+      ephemeral: true,
+    });
+    return;
+  }
+
+  const warningStages = [...new Set(stages as number[])].sort((a, b) => b - a);
+
+  if (warningStages.length > MAX_WARNING_STAGES) {
+    await interaction.reply({
+      content: `A countdown can have at most ${MAX_WARNING_STAGES} points.`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (warningStages.some(stage => stage >= currentConfig.warningSecondsBefore)) {
+    await interaction.reply({
+      content: `Countdown points must be less than the warning time (${currentConfig.warningSecondsBefore}s).`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  await configService.updateConfig(guildId, { warningStages });
+
+  await interaction.reply({
+    content: `The AFK warning will be posted ${currentConfig.warningSecondsBefore}s before the AFK action and updated at ${warningStages.map(stage => `${stage}s`).join(', ')} left.`,
+    ephemeral: true,
+  });
+}
+
+async function handleChannelCommand(
+  interaction: ChatInputCommandInteraction,
+  configService: GuildConfigService,
+  guildId: string
+): Promise<void> {
+  const channel = interaction.options.getChannel('channel', true);
+
+  await configService.updateConfig(guildId, {
+    warningChannelId: channel.id,
+  });
+
+  await interaction.reply({
+    content: `AFK warning channel set to <#${channel.id}>.`,
+    ephemeral: true,
+  });
+}
+
+async function handleModLogCommand(
+  interaction: ChatInputCommandInteraction,
+  configService: GuildConfigService,
+  guildId: string
+): Promise<void> {
+  const channel = interaction.options.getChannel('channel');
+
+  await configService.updateConfig(guildId, {
+    modLogChannelId: channel?.id ?? null,
+  });
+
+  await interaction.reply({
+    content: channel
+      ? `AFK actions, failed actions and exemptions will be logged in <#${channel.id}>.`
+      : 'The moderator log is now off.',
+    ephemeral: true,
+  });
+}
+
+async function handleActionCommand(
+  interaction: ChatInputCommandInteraction,
+  configService: GuildConfigService,
+  guildId: string
+): Promise<void> {
+  const action = interaction.options.getString('type', true) as AFKAction;
+  const channel = interaction.options.getChannel('channel');
+  const role = interaction.options.getRole('role');
+  const minutes = interaction.options.getInteger('minutes');
+  const botMember = interaction.guild?.members.me;
+
+  const missingPermissions = getMissingAFKActionPermissions(botMember, action);
+  if (missingPermissions.length > 0) {
+    await interaction.reply({
+      content: `I need the ${missingPermissions.join(', ')} permission(s) to use the "${action}" action.`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  const updates: Partial<GuildSettings> = { afkAction: action };
+  let detail = '';
+
+  if (action === 'move') {
+    const afkChannelId = interaction.guild?.afkChannelId ?? null;
+    if (!channel && afkChannelId === null) {
+      await interaction.reply({
+        content: 'This server has no AFK channel. Pick a voice channel for the move action.',
+        ephemeral: true,
+      });
+      return;
+    }
+    updates.afkMoveChannelId = channel?.id ?? null;
+    detail = channel ? ` Users will be moved to <#${channel.id}>.` : ' Users will be moved to the server AFK channel.';
+  }
+
+  if (action === 'role') {
+    if (!role) {
+      await interaction.reply({
+        content: 'The role action requires a role.',
+        ephemeral: true,
+      });
+      return;
+    }
+    if (botMember && role.position >= botMember.roles.highest.position) {
+      await interaction.reply({
+        content: `Role ${role.name} is above my highest role, so I cannot assign it.`,
+        ephemeral: true,
+      });
+      return;
+    }
+    updates.afkRoleId = role.id;
+    detail = ` Users will be given the ${role.name} role.`;
+  }
+
+  if (action === 'timeout') {
+    if (minutes !== null) {
+      updates.memberTimeoutSeconds = minutes * 60;
+    }
+    const timeoutMinutes = Math.floor((updates.memberTimeoutSeconds ?? configService.getConfig(guildId).memberTimeoutSeconds) / 60);
+    detail = ` Users will be timed out for ${timeoutMinutes} minutes.`;
+  }
+
+  await configService.updateConfig(guildId, updates);
+
+  await interaction.reply({
+    content: `AFK action set to ${action}.${detail}`,
+    ephemeral: true,
+  });
+}
+
+async function handleChannelOverrideSubcommands(
+  interaction: ChatInputCommandInteraction,
+  configService: GuildConfigService,
+  subcommand: string,
+  guildId: string
+): Promise<void> {
+  if (subcommand === 'list') {
+    const overrides = configService.getChannelOverrides(guildId);
+    const content = overrides.length === 0
+      ? 'No channel overrides configured.'
+      : overrides.map(override => `<#${override.channelId}>: ${formatChannelOverride(override)}`).join('\n');
+
+    await interaction.reply({ content, ephemeral: true });
+    return;
+  }
+
+  const channel = interaction.options.getChannel('channel', true);
+
+  if (subcommand === 'clear') {
+    const removed = configService.removeChannelOverride(guildId, channel.id);
+    await interaction.reply({
+      content: removed
+        ? `Override for <#${channel.id}> removed. It now inherits the server settings.`
+        : `<#${channel.id}> has no override.`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (subcommand === 'set') {
+    const enabled = interaction.options.getBoolean('enabled');
+    const timeoutSeconds = interaction.options.getInteger('timeout');
+    const warningSeconds = interaction.options.getInteger('warning');
+    const warningChannel = interaction.options.getChannel('warning-channel');
+
+    const updates: Partial<ChannelOverrideFields> = {};
+    if (enabled !== null) updates.enabled = enabled;
+    if (timeoutSeconds !== null) updates.afkTimeoutSeconds = timeoutSeconds;
+    if (warningSeconds !== null) updates.warningSecondsBefore = warningSeconds;
+    if (warningChannel !== null) updates.warningChannelId = warningChannel.id;
+
+    if (Object.keys(updates).length === 0) {
+      await interaction.reply({
+        content: 'Provide at least one setting to override.',
+        ephemeral: true,
+      });
+      return;
+    }
+
+    // Validate against what the channel will actually use once inheritance is applied
+    const parentId = interaction.guild?.channels.cache.get(channel.id)?.parentId ?? null;
+    const current = configService.getEffectiveConfig(guildId, channel.id, parentId);
+    const effectiveTimeout = timeoutSeconds ?? current.afkTimeoutSeconds;
+    const effectiveWarning = warningSeconds ?? current.warningSecondsBefore;
+
+    if (effectiveWarning >= effectiveTimeout) {
+      await interaction.reply({
+        content: `Warning time (${effectiveWarning}s) must be less than timeout (${effectiveTimeout}s).`,
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const override = configService.setChannelOverride(guildId, channel.id, updates);
+
+    await interaction.reply({
+      content: `Override for <#${channel.id}> updated: ${formatChannelOverride(override)}.`,
+      ephemeral: true,
+    });
+  }
+}
+
+function formatChannelOverride(override: ChannelOverride): string {
+  const parts: string[] = [];
+  if (override.enabled !== null) parts.push(override.enabled ? 'enabled' : 'disabled');
+  if (override.afkTimeoutSeconds !== null) parts.push(`timeout ${override.afkTimeoutSeconds}s`);
+  if (override.warningSecondsBefore !== null) parts.push(`warning ${override.warningSecondsBefore}s`);
+  if (override.warningChannelId !== null) parts.push(`warnings in <#${override.warningChannelId}>`);
+  return parts.length > 0 ? parts.join(', ') : 'inherits everything';
+}
+
+const MODE_DESCRIPTIONS: Record<EnforcementMode, string> = {
+  enforce: 'AFK users will be warned and the AFK action will be applied.',
+  'warn-only': 'AFK users will be warned, but the AFK action will only be recorded. See /afk-status settings and /afk-history.',
+  observe: 'Nothing will be sent or changed; would-be warnings and actions are recorded. See /afk-status settings and /afk-history.',
+};
+
+async function handleModeCommand(
+  interaction: ChatInputCommandInteraction,
+  configService: GuildConfigService,
+  guildId: string
+): Promise<void> {
+  const mode = interaction.options.getString('mode', true) as EnforcementMode;
+
+  await configService.updateConfig(guildId, { mode });
+
+  await interaction.reply({
+    content: `Enforcement mode set to ${mode}. ${MODE_DESCRIPTIONS[mode]}`,
+    ephemeral: true,
+  });
+}
+
+async function handleThresholdCommand(
+  interaction: ChatInputCommandInteraction,
+  configService: GuildConfigService,
+  guildId: string
+): Promise<void> {
+  const minUsersForTracking = interaction.options.getInteger('min-users', true);
+  const countDeafened = interaction.options.getBoolean('count-deafened');
+  const countBots = interaction.options.getBoolean('count-bots');
+  const currentConfig = configService.getConfig(guildId);
+
+  const countDeafenedUsers = countDeafened ?? currentConfig.countDeafenedUsers;
+  const countOtherBots = countBots ?? currentConfig.countBots;
+
+  await configService.updateConfig(guildId, {
+    minUsersForTracking,
+    ...(countDeafened !== null && { countDeafenedUsers: countDeafened }),
+    ...(countBots !== null && { countBots }),
+  });
+
+  const counted = ['members', ...(countOtherBots ? ['other bots'] : [])].join(' and ');
+  await interaction.reply({
+    content:
+      `AFK users are now tracked once a voice channel has ${minUsersForTracking} or more ${counted}. ` +
+      `Deafened members ${countDeafenedUsers ? 'count' : 'do not count'}.`,
+    ephemeral: true,
+  });
+}
+
+async function handleSnoozeLimitCommand(
+  interaction: ChatInputCommandInteraction,
+  configService: GuildConfigService,
+  guildId: string
+): Promise<void> {
+  const snoozeDailyLimit = interaction.options.getInteger('count', true);
+
+  await configService.updateConfig(guildId, { snoozeDailyLimit });
+
+  await interaction.reply({
+    content: snoozeDailyLimit === 0
+      ? 'Members can no longer snooze their AFK timer.'
+      : `Members can now snooze their AFK timer ${snoozeDailyLimit} time${snoozeDailyLimit === 1 ? '' : 's'} per 24 hours.`,
+    ephemeral: true,
+  });
+}
+
+async function handleEscalationSubcommands(
+  interaction: ChatInputCommandInteraction,
+  configService: GuildConfigService,
+  subcommand: string,
+  guildId: string
+): Promise<void> {
+  const currentConfig = configService.getConfig(guildId);
+
+  if (subcommand === 'enable' || subcommand === 'disable') {
+    const enabled = subcommand === 'enable';
+    await configService.updateConfig(guildId, { escalationEnabled: enabled });
+    const hint = enabled && currentConfig.escalationSteps.length === 0
+      ? ' No steps are configured yet, so the regular AFK action still applies. Add one with /afk-config escalation step.'
+      : '';
+    await interaction.reply({
+      content: `AFK escalation has been ${enabled ? 'enabled' : 'disabled'}.${hint}`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (subcommand === 'step') {
+    const strikes = interaction.options.getInteger('strikes', true);
+    const action = interaction.options.getString('type', true) as AFKAction;
+    const minutes = interaction.options.getInteger('minutes');
+    const notify = interaction.options.getBoolean('notify') ?? false;
+
+    const missingPermissions = getMissingAFKActionPermissions(interaction.guild?.members.me, action);
+    if (missingPermissions.length > 0) {
+      await interaction.reply({
+        content: `I need the ${missingPermissions.join(', ')} permission(s) to use the "${action}" action.`,
+        ephemeral: true,
+      });
+      return;
+    }
+
+    if (action === 'role' && currentConfig.afkRoleId === null) {
+      await interaction.reply({
+        content: 'Escalation steps use the AFK role from /afk-config action. Set one there first.',
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const step: EscalationStep = {
+      strikes,
+      action,
+      memberTimeoutSeconds: action === 'timeout' && minutes !== null ? minutes * 60 : null,
+      notify,
+    };
+    const steps = [...currentConfig.escalationSteps.filter(existing => existing.strikes !== strikes), step]
+      .sort((a, b) => a.strikes - b.strikes);
+
+    await configService.updateConfig(guildId, { escalationSteps: steps });
+
+    await interaction.reply({
+      content: `Escalation step set: ${formatEscalationStep(step, currentConfig)}.`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (subcommand === 'remove-step') {
+    const strikes = interaction.options.getInteger('strikes', true);
+    const steps = currentConfig.escalationSteps.filter(step => step.strikes !== strikes);
+
+    if (steps.length === currentConfig.escalationSteps.length) {
+      await interaction.reply({
+        content: `There is no escalation step for ${strikes} strikes.`,
+        ephemeral: true,
+      });
+      return;
+    }
+
+    await configService.updateConfig(guildId, { escalationSteps: steps });
+    await interaction.reply({
+      content: `Escalation step for ${strikes} strikes removed.`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (subcommand === 'window') {
+    const days = interaction.options.getInteger('days', true);
+    await configService.updateConfig(guildId, { escalationWindowSeconds: days * 86400 });
+    await interaction.reply({
+      content: `Strikes now count toward escalation for ${days} days.`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (subcommand === 'notify-channel') {
+    const channel = interaction.options.getChannel('channel', true);
+    await configService.updateConfig(guildId, { escalationNotifyChannelId: channel.id });
+    await interaction.reply({
+      content: `Escalation notices will be sent to <#${channel.id}>.`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (subcommand === 'show') {
+    await interaction.reply({
+      content: formatEscalationLadder(currentConfig),
+      ephemeral: true,
+    });
+  }
+}
+
+function formatEscalationStep(step: EscalationStep, config: GuildSettings): string {
+  let description = `${step.strikes} ${step.strikes === 1 ? 'strike' : 'strikes'}: ${step.action}`;
+  if (step.action === 'timeout') {
+    description += ` for ${Math.floor((step.memberTimeoutSeconds ?? config.memberTimeoutSeconds) / 60)} minutes`;
+  }
+  if (step.notify) {
+    description += ', notify moderators';
+  }
+  return description;
+}
+
+function formatEscalationLadder(config: GuildSettings): string {
+  const windowDays = Math.round(config.escalationWindowSeconds / 86400);
+  const lines = [
+    `Escalation is ${config.escalationEnabled ? 'enabled' : 'disabled'}. Strikes count for ${windowDays} days.`,
+    `Below the first step: ${config.afkAction}.`,
+    ...config.escalationSteps.map(step => formatEscalationStep(step, config)),
+  ];
+  if (config.escalationSteps.length === 0) {
+    lines.push('No steps configured.');
+  }
+  const notifyChannelId = config.escalationNotifyChannelId ?? config.warningChannelId;
+  if (notifyChannelId !== null) {
+    lines.push(`Moderator notices go to <#${notifyChannelId}>.`);
+  }
+  return lines.join('\n');
+}
+
+async function handleActivitySubcommands(
+  interaction: ChatInputCommandInteraction,
+  configService: GuildConfigService,
+  subcommand: string,
+  guildId: string
+): Promise<void> {
+  const currentConfig = configService.getConfig(guildId);
+
+  if (subcommand === 'enable' || subcommand === 'disable') {
+    const signal = interaction.options.getString('signal', true) as ActivitySignal;
+    const enabled = subcommand === 'enable';
+    const activitySignals = currentConfig.activitySignals.filter(existing => existing !== signal);
+    if (enabled) {
+      activitySignals.push(signal);
+    }
+
+    await configService.updateConfig(guildId, { activitySignals });
+
+    await interaction.reply({
+      content: enabled
+        ? `The ${signal} activity signal now resets AFK timers.`
+        : `The ${signal} activity signal no longer resets AFK timers.`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (subcommand === 'link-channel' || subcommand === 'unlink-channel') {
+    const channel = interaction.options.getChannel('channel', true);
+    const linked = currentConfig.activityChannelIds.includes(channel.id);
+
+    if (subcommand === 'link-channel') {
+      if (linked) {
+        await interaction.reply({
+          content: `<#${channel.id}> is already linked.`,
+          ephemeral: true,
+        });
+        return;
+      }
+
+      await configService.updateConfig(guildId, {
+        activityChannelIds: [...currentConfig.activityChannelIds, channel.id],
+      });
+
+      await interaction.reply({
+        content: `Messages and reactions in <#${channel.id}> now count as activity for members in voice.`,
+        ephemeral: true,
+      });
+      return;
+    }
+
+    if (!linked) {
+      await interaction.reply({
+        content: `<#${channel.id}> is not linked.`,
+        ephemeral: true,
+      });
+      return;
+    }
+
+    await configService.updateConfig(guildId, {
+      activityChannelIds: currentConfig.activityChannelIds.filter(id => id !== channel.id),
+    });
+
+    await interaction.reply({
+      content: `<#${channel.id}> has been unlinked.`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (subcommand === 'show') {
+    const signals = currentConfig.activitySignals.length > 0
+      ? `Speaking, ${currentConfig.activitySignals.join(', ')}`
+      : 'Speaking only';
+    const channels = currentConfig.activityChannelIds.length > 0
+      ? currentConfig.activityChannelIds.map(id => `<#${id}>`).join(', ')
+      : 'None';
+
+    await interaction.reply({
+      content: `Activity signals: ${signals}.\nLinked text channels: ${channels}.`,
+      ephemeral: true,
+    });
+  }
+}
+
+async function handleScheduleSubcommands(
+  interaction: ChatInputCommandInteraction,
+  configService: GuildConfigService,
+  subcommand: string,
+  guildId: string
+): Promise<void> {
+  const currentConfig = configService.getConfig(guildId);
+
+  if (subcommand === 'add') {
+    const days = SCHEDULE_DAY_PRESETS[interaction.options.getString('days', true)] ?? [];
+    const start = interaction.options.getString('start', true).trim();
+    const end = interaction.options.getString('end', true).trim();
+
+    if (parseTimeOfDay(start) === null || parseTimeOfDay(end) === null) {
+      await interaction.reply({
+        content: 'Times must be in 24 hour HH:MM format, e.g. 09:00 or 23:30.',
+        ephemeral: true,
+      });
+      return;
+    }
+
+    if (start === end) {
+      await interaction.reply({
+        content: 'Start and end must be different times.',
+        ephemeral: true,
+      });
+      return;
+    }
+
+    if (currentConfig.scheduleWindows.length >= MAX_SCHEDULE_WINDOWS) {
+      await interaction.reply({
+        content: `A schedule can have at most ${MAX_SCHEDULE_WINDOWS} windows. Remove one first.`,
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const window: ScheduleWindow = { days, start, end };
+    await configService.updateConfig(guildId, {
+      scheduleWindows: [...currentConfig.scheduleWindows, window],
+    });
+
+    await interaction.reply({
+      content: `Schedule window added: ${formatScheduleWindow(window)} (${currentConfig.scheduleTimeZone}).`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (subcommand === 'remove') {
+    const number = interaction.options.getInteger('number', true);
+    const removed = currentConfig.scheduleWindows[number - 1];
+
+    if (removed === undefined) {
+      await interaction.reply({
+        content: `There is no schedule window ${number}.`,
+        ephemeral: true,
+      });
+      return;
+    }
+
+    await configService.updateConfig(guildId, {
+      scheduleWindows: currentConfig.scheduleWindows.filter((_, index) => index !== number - 1),
+    });
 
-  if (!interaction.guildId) {
     await interaction.reply({
-      content: 'This command can only be used in a server.',
+      content: `Schedule window removed: ${formatScheduleWindow(removed)}.`,
       ephemeral: true,
     });
     return;
   }
 
-  const guildId = interaction.guildId;
-
-  if (!hasAFKAdminPermission(interaction, configService)) {
+  if (subcommand === 'clear') {
+    await configService.updateConfig(guildId, { scheduleWindows: [] });
     await interaction.reply({
-      content: 'You do not have permission to use this command. You need Administrator permission or an admin role.',
+      content: 'Schedule cleared. AFK handling now runs at all times.',
       ephemeral: true,
     });
     return;
   }
 
-  try {
-    if (subcommandGroup === 'exempt') {
-      await handleExemptSubcommands(interaction, configService, subcommand, guildId);
-      return;
-    }
-
-    if (subcommandGroup === 'admin') {
-      await handleAdminSubcommands(interaction, configService, subcommand, guildId);
-      return;
-    }
-
-    switch (subcommand) {
-      case 'enable':
-        await handleEnableCommand(interaction, configService, guildId);
-        break;
-      case 'disable':
-        await handleDisableCommand(interaction, configService, guildId);
-        break;
-      case 'timeout':
-        await handleTimeoutCommand(interaction, configService, guildId);
-        break;
-      case 'warning':
-        await handleWarningCommand(interaction, configService, guildId);
-        break;
-      case 'channel':
-        await handleChannelCommand(interaction, configService, guildId);
-        break;
-      default:
-        await interaction.reply({
-          content: 'Unknown subcommand.',
-          ephemeral: true,
-        });
-    }
-  } catch (error) {
-    logger.error({ error, guildId, subcommand: interaction.options.getSubcommand() }, 'Error executing afk-config command');
-    const errorMessage = formatError(error).message;
+  if (subcommand === 'timezone') {
+    const zone = interaction.options.getString('zone', true).trim();
 
-    if (interaction.replied || interaction.deferred) {
-      await interaction.followUp({
-        content: `Error: ${errorMessage}`,
-        ephemeral: true,
-      });
-    } else {
+    if (!isValidTimeZone(zone)) {
       await interaction.reply({
-        content: `Error: ${errorMessage}`,
+        content: `"${zone}" is not a known time zone. Use an IANA name such as Europe/Berlin.`,
         ephemeral: true,
       });
+      return;
     }
+
+    await configService.updateConfig(guildId, { scheduleTimeZone: zone });
+    await interaction.reply({
+      content: `Schedule time zone set to ${zone}.`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (subcommand === 'type') {
+    const scheduleType = interaction.options.getString('type', true) as ScheduleType;
+
+    await configService.updateConfig(guildId, { scheduleType });
+    await interaction.reply({
+      content: scheduleType === 'active'
+        ? 'AFK users are now only handled inside the schedule windows.'
+        : 'AFK users are now handled except inside the schedule windows.',
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (subcommand === 'show') {
+    await interaction.reply({
+      content: formatSchedule(currentConfig),
+      ephemeral: true,
+    });
   }
 }
 
-async function handleEnableCommand(
-  interaction: ChatInputCommandInteraction,
-  configService: GuildConfigService,
-  guildId: string
-): Promise<void> {
-  await configService.updateConfig(guildId, { enabled: true });
-  await interaction.reply({
-    content: 'AFK detection has been enabled.',
-    ephemeral: true,
-  });
+function formatScheduleWindow(window: ScheduleWindow): string {
+  const days = window.days.map(day => WEEKDAY_NAMES[day] ?? `day ${day}`).join(', ');
+  return `${days} ${window.start}-${window.end}`;
 }
 
-async function handleDisableCommand(
-  interaction: ChatInputCommandInteraction,
-  configService: GuildConfigService,
-  guildId: string
-): Promise<void> {
-  await configService.updateConfig(guildId, { enabled: false });
-  await interaction.reply({
-    content: 'AFK detection has been disabled.',
-    ephemeral: true,
+function formatSchedule(config: GuildSettings): string {
+  if (config.scheduleWindows.length === 0) {
+    return 'No schedule is set. AFK handling runs at all times.';
+  }
+
+  const heading = config.scheduleType === 'active'
+    ? `AFK users are only handled inside these windows (${config.scheduleTimeZone}):`
+    : `AFK users are handled except inside these quiet windows (${config.scheduleTimeZone}):`;
+  const lines = [heading];
+  config.scheduleWindows.forEach((window, index) => {
+    lines.push(`${index + 1}. ${formatScheduleWindow(window)}`);
   });
+  lines.push(isWithinSchedule(config) ? 'AFK handling is currently running.' : 'AFK handling is currently paused.');
+  return lines.join('\n');
 }
 
-async function handleTimeoutCommand(
+async function handleMessagesSubcommands(
   interaction: ChatInputCommandInteraction,
   configService: GuildConfigService,
+  subcommand: string,
   guildId: string
 ): Promise<void> {
-  const timeoutSeconds = interaction.options.getInteger('seconds', true);
   const currentConfig = configService.getConfig(guildId);
 
-  if (timeoutSeconds <= currentConfig.warningSecondsBefore) {
+  if (subcommand === 'set') {
+    const field = interaction.options.getString('message', true) as MessageTemplateTextField;
+    const text = interaction.options.getString('text', true).trim();
+    const maxLength = MESSAGE_TEMPLATE_MAX_LENGTHS[field];
+
+    if (text === '' || text.length > maxLength) {
+      await interaction.reply({
+        content: `That message must be between 1 and ${maxLength} characters.`,
+        ephemeral: true,
+      });
+      return;
+    }
+
+    await configService.updateConfig(guildId, {
+      messageTemplates: { ...currentConfig.messageTemplates, [field]: text },
+    });
     await interaction.reply({
-      content: `Timeout (${timeoutSeconds}s) must be greater than warning time (${currentConfig.warningSecondsBefore}s).`,
+      content: `${formatMessageTemplateName(field)} updated. Use \`/afk-config messages preview\` to see it.`,
       ephemeral: true,
     });
     return;
   }
 
-  await configService.updateConfig(guildId, {
-    afkTimeoutSeconds: timeoutSeconds,
-  });
+  if (subcommand === 'color') {
+    const hex = interaction.options.getString('hex', true).trim().replace(/^#/, '');
 
-  const timeoutMinutes = Math.floor(timeoutSeconds / 60);
-  await interaction.reply({
-    content: `AFK timeout set to ${timeoutSeconds} seconds (${timeoutMinutes} minutes).`,
-    ephemeral: true,
-  });
-}
+    if (!/^[0-9a-f]{6}$/i.test(hex)) {
+      await interaction.reply({
+        content: 'Colors are six hex digits, e.g. #FF9900.',
+        ephemeral: true,
+      });
+      return;
+    }
 
-async function handleWarningCommand(
-  interaction: ChatInputCommandInteraction,
-  configService: GuildConfigService,
-  guildId: string
-): Promise<void> {
-  const warningSeconds = interaction.options.getInteger('seconds', true);
-  const currentConfig = configService.getConfig(guildId);
+    await configService.updateConfig(guildId, {
+      messageTemplates: { ...currentConfig.messageTemplates, warningColor: parseInt(hex, 16) },
+    });
+    await interaction.reply({
+      content: `Warning color set to #${hex.toUpperCase()}.`,
+      ephemeral: true,
+    });
+    return;
+  }
 
-  if (warningSeconds >= currentConfig.afkTimeoutSeconds) {
+  if (subcommand === 'reset') {
+    const field = interaction.options.getString('message', true);
+    const messageTemplates = field === 'all'
+      ? {}
+      : Object.fromEntries(Object.entries(currentConfig.messageTemplates).filter(([key]) => key !== field)) as MessageTemplates;
+
+    await configService.updateConfig(guildId, { messageTemplates });
     await interaction.reply({
-      content: `Warning time (${warningSeconds}s) must be less than timeout (${currentConfig.afkTimeoutSeconds}s).`,
+      content: field === 'all'
+        ? 'All messages now use the built-in wording.'
+        : `${field === 'warningColor' ? 'Warning color' : formatMessageTemplateName(field as MessageTemplateTextField)} reset to the built-in default.`,
       ephemeral: true,
     });
     return;
   }
 
-  await configService.updateConfig(guildId, {
-    warningSecondsBefore: warningSeconds,
-  });
+  if (subcommand === 'language') {
+    const language = interaction.options.getString('language', true);
+    const messageLocale = language === 'auto' ? null : language as MessageLocale;
 
-  await interaction.reply({
-    content: `AFK warning time set to ${warningSeconds} seconds.`,
-    ephemeral: true,
-  });
+    await configService.updateConfig(guildId, { messageLocale });
+    await interaction.reply({
+      content: messageLocale === null
+        ? "Built-in messages now follow the server's language."
+        : `Built-in messages are now in ${MESSAGE_LOCALE_CHOICES.find(choice => choice.value === messageLocale)?.name ?? messageLocale}.`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (subcommand === 'dm') {
+    const enabled = interaction.options.getBoolean('enabled', true);
+
+    await configService.updateConfig(guildId, { kickDmEnabled: enabled });
+    await interaction.reply({
+      content: enabled
+        ? 'Members will get a DM after the AFK action is applied to them.'
+        : 'Members will no longer get a DM after the AFK action.',
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (subcommand === 'delivery') {
+    const warningDelivery = interaction.options.getString('mode', true) as WarningDeliveryMode;
+
+    await configService.updateConfig(guildId, { warningDelivery });
+    await interaction.reply({
+      content: WARNING_DELIVERY_REPLIES[warningDelivery],
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (subcommand === 'preview') {
+    const messages = renderMessages(currentConfig, interaction.guild?.preferredLocale, {
+      user: `<@${interaction.user.id}>`,
+      channel: '#voice-channel',
+      serverName: interaction.guild?.name ?? 'this server',
+    });
+    const language = MESSAGE_LOCALE_CHOICES.find(choice => choice.value === messages.locale)?.name ?? messages.locale;
+
+    const embed = new EmbedBuilder()
+      .setColor(messages.warningColor)
+      .setTitle(messages.warningTitle)
+      .setDescription(messages.warningBody)
+      .addFields(
+        { name: 'Audit log reason', value: messages.kickReason },
+        { name: currentConfig.kickDmEnabled ? 'DM after the AFK action' : 'DM after the AFK action (off)', value: messages.kickDm }
+      )
+      .setFooter({ text: `Built-in language: ${language}` });
+
+    await interaction.reply({
+      embeds: [embed],
+      ephemeral: true,
+    });
+  }
 }
 
-async function handleChannelCommand(
+function formatMessageTemplateName(field: MessageTemplateTextField): string {
+  return MESSAGE_TEMPLATE_CHOICES.find(choice => choice.value === field)?.name ?? field;
+}
+
+async function handleChimeSubcommands(
   interaction: ChatInputCommandInteraction,
   configService: GuildConfigService,
-  guildId: string
+  subcommand: string,
+  guildId: string,
+  chimeStore: ChimeStore
 ): Promise<void> {
-  const channel = interaction.options.getChannel('channel', true);
+  if (subcommand === 'enable') {
+    const enabled = interaction.options.getBoolean('enabled', true);
 
-  await configService.updateConfig(guildId, {
-    warningChannelId: channel.id,
-  });
+    await configService.updateConfig(guildId, { warningChimeEnabled: enabled });
+    await interaction.reply({
+      content: enabled
+        ? 'A chime will now play in the voice channel when the AFK warning is posted.'
+        : 'The AFK warning will no longer play a chime.',
+      ephemeral: true,
+    });
+    return;
+  }
 
-  await interaction.reply({
-    content: `AFK warning channel set to <#${channel.id}>.`,
-    ephemeral: true,
-  });
+  if (subcommand === 'upload') {
+    const file = interaction.options.getAttachment('file', true);
+
+    if (file.size > MAX_CHIME_BYTES) {
+      await interaction.reply({
+        content: `Chimes can be at most ${MAX_CHIME_BYTES / 1024} KB.`,
+        ephemeral: true,
+      });
+      return;
+    }
+
+    // Downloading the attachment can outlast the 3 second reply window
+    await interaction.deferReply({ ephemeral: true });
+
+    let data: Buffer;
+    try {
+      const response = await fetch(file.url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      data = Buffer.from(await response.arrayBuffer());
+    } catch (error) {
+      await interaction.editReply({ content: `Could not download the file: ${formatError(error).message}` });
+      return;
+    }
+
+    const chimeError = getChimeError(data);
+    if (chimeError !== null) {
+      await interaction.editReply({ content: `${chimeError}.` });
+      return;
+    }
+
+    await chimeStore.save(guildId, data);
+    await interaction.editReply({
+      content: configService.getConfig(guildId).warningChimeEnabled
+        ? 'Chime uploaded. It will play with the next AFK warning.'
+        : 'Chime uploaded. Turn it on with `/afk-config chime enable`.',
+    });
+    return;
+  }
+
+  if (subcommand === 'reset') {
+    const removed = await chimeStore.remove(guildId);
+
+    await interaction.reply({
+      content: removed
+        ? 'The built-in chime will play again.'
+        : 'This server already uses the built-in chime.',
+      ephemeral: true,
+    });
+  }
 }
 
 async function handleExemptSubcommands(
@@ -302,6 +1841,11 @@ async function handleExemptSubcommands(
   subcommand: string,
   guildId: string
 ): Promise<void> {
+  if (subcommand === 'add-channel' || subcommand === 'remove-channel') {
+    await handleExemptChannelSubcommands(interaction, configService, subcommand, guildId);
+    return;
+  }
+
   const role = interaction.options.getRole('role', true);
   const currentConfig = configService.getConfig(guildId);
 
@@ -346,6 +1890,54 @@ async function handleExemptSubcommands(
   }
 }
 
+async function handleExemptChannelSubcommands(
+  interaction: ChatInputCommandInteraction,
+  configService: GuildConfigService,
+  subcommand: string,
+  guildId: string
+): Promise<void> {
+  const channel = interaction.options.getChannel('channel', true);
+  const currentConfig = configService.getConfig(guildId);
+  const exempt = currentConfig.exemptChannelIds.includes(channel.id);
+
+  if (subcommand === 'add-channel') {
+    if (exempt) {
+      await interaction.reply({
+        content: `<#${channel.id}> is already exempt from AFK handling.`,
+        ephemeral: true,
+      });
+      return;
+    }
+
+    await configService.updateConfig(guildId, {
+      exemptChannelIds: [...currentConfig.exemptChannelIds, channel.id],
+    });
+
+    await interaction.reply({
+      content: `Members in <#${channel.id}> are no longer tracked for AFK.`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (!exempt) {
+    await interaction.reply({
+      content: `<#${channel.id}> is not in the exempt list.`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  await configService.updateConfig(guildId, {
+    exemptChannelIds: currentConfig.exemptChannelIds.filter(id => id !== channel.id),
+  });
+
+  await interaction.reply({
+    content: `<#${channel.id}> has been removed from AFK channel exemptions.`,
+    ephemeral: true,
+  });
+}
+
 async function handleAdminSubcommands(
   interaction: ChatInputCommandInteraction,
   configService: GuildConfigService,
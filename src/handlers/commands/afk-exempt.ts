@@ -0,0 +1,171 @@
+import {
+  SlashCommandBuilder,
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+} from 'discord.js';
+import type { Logger } from 'pino';
+import { GuildConfigService } from '../../services/GuildConfigService';
+import { MAX_EXEMPTION_SECONDS } from '../../services/ExemptionService';
+import type { AFKExemption } from '../../database/repositories/AFKExemptionRepository';
+import { hasAFKAdminPermission } from '../../utils/permissions';
+import { parseDuration } from '../../utils/duration';
+import { formatError } from '../../utils/errorUtils';
+import type { CommandServices } from './index';
+
+export const data = new SlashCommandBuilder()
+  .setName('afk-exempt')
+  .setDescription('Temporarily exempt a member from AFK handling')
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('add')
+      .setDescription('Exempt a member for a while')
+      .addUserOption((option) =>
+        option
+          .setName('user')
+          .setDescription('Member to exempt')
+          .setRequired(true)
+      )
+      .addStringOption((option) =>
+        option
+          .setName('duration')
+          .setDescription('How long, e.g. 30m, 3h or 2d (up to 30d)')
+          .setRequired(true)
+      )
+      .addStringOption((option) =>
+        option
+          .setName('reason')
+          .setDescription('Why the member is exempt, shown in the list and audit log')
+          .setRequired(false)
+          .setMaxLength(200)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('remove')
+      .setDescription("End a member's exemptions, including snoozes")
+      .addUserOption((option) =>
+        option
+          .setName('user')
+          .setDescription('Member whose exemptions to end')
+          .setRequired(true)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('list')
+      .setDescription('List active exemptions')
+  );
+
+export async function execute(
+  interaction: ChatInputCommandInteraction,
+  configService: GuildConfigService,
+  logger: Logger,
+  services: CommandServices
+): Promise<void> {
+  const subcommand = interaction.options.getSubcommand();
+
+  if (logger.isLevelEnabled('debug')) {
+    logger.debug({
+      guildId: interaction.guildId,
+      userId: interaction.user.id,
+      command: 'afk-exempt',
+      subcommand,
+      action: 'command_invoke'
+    }, 'afk-exempt command invoked');
+  }
+
+  if (interaction.guildId === null) {
+    await interaction.reply({
+      content: 'This command can only be used in a server.',
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (!hasAFKAdminPermission(interaction, configService)) {
+    await interaction.reply({
+      content: 'You do not have permission to use this command. You need Administrator permission or an admin role.',
+      ephemeral: true,
+    });
+    return;
+  }
+
+  const guildId = interaction.guildId;
+
+  try {
+    switch (subcommand) {
+      case 'add': {
+        const user = interaction.options.getUser('user', true);
+        const durationSeconds = parseDuration(interaction.options.getString('duration', true));
+        if (durationSeconds === null || durationSeconds > MAX_EXEMPTION_SECONDS) {
+          await interaction.reply({
+            content: 'Durations look like 30m, 3h, 2d or 1h30m, up to 30 days.',
+            ephemeral: true,
+          });
+          return;
+        }
+
+        const exemption = await services.exemptionService.grant({
+          guildId,
+          userId: user.id,
+          durationSeconds,
+          source: 'moderator',
+          reason: interaction.options.getString('reason'),
+          grantedBy: interaction.user.id,
+        });
+
+        const expiresAt = Math.floor(exemption.expiresAt / 1000);
+        await interaction.reply({
+          content: `<@${user.id}> is exempt from AFK handling until <t:${expiresAt}:f> (<t:${expiresAt}:R>).`,
+          ephemeral: true,
+        });
+        break;
+      }
+      case 'remove': {
+        const user = interaction.options.getUser('user', true);
+        const revoked = await services.exemptionService.revoke(guildId, user.id);
+        await interaction.reply({
+          content: revoked > 0
+            ? `Ended ${revoked} exemption${revoked === 1 ? '' : 's'} for <@${user.id}>.`
+            : `<@${user.id}> has no active exemptions.`,
+          ephemeral: true,
+        });
+        break;
+      }
+      case 'list': {
+        const exemptions = services.exemptionService.getActiveExemptions(guildId);
+        const embed = new EmbedBuilder()
+          .setTitle('Active AFK Exemptions')
+          .setColor(0x0099ff)
+          .setDescription(exemptions.length > 0 ? exemptions.map(formatExemption).join('\n') : 'No active exemptions.')
+          .setTimestamp();
+
+        await interaction.reply({
+          embeds: [embed],
+          ephemeral: true,
+        });
+        break;
+      }
+      default:
+        await interaction.reply({
+          content: 'Unknown subcommand.',
+          ephemeral: true,
+        });
+    }
+  } catch (error) {
+    logger.error({ error, guildId, subcommand }, 'Error executing afk-exempt command');
+    const errorMessage = formatError(error).message;
+
+    await interaction.reply({
+      content: `Error: ${errorMessage}`,
+      ephemeral: true,
+    });
+  }
+}
+
+function formatExemption(exemption: AFKExemption): string {
+  const expiresAt = Math.floor(exemption.expiresAt / 1000);
+  const grantedBy = exemption.source !== 'snooze' && exemption.grantedBy !== null ? ` by <@${exemption.grantedBy}>` : '';
+  const reason = exemption.reason !== null ? ` - ${exemption.reason}` : '';
+  return `<@${exemption.userId}> until <t:${expiresAt}:R> (${exemption.source}${grantedBy})${reason}`;
+}
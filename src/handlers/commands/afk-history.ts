@@ -0,0 +1,111 @@
+import {
+  SlashCommandBuilder,
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+} from 'discord.js';
+import type { Logger } from 'pino';
+import { GuildConfigService } from '../../services/GuildConfigService';
+import { AFK_EVENT_ACTIONS, type AFKEvent, type AFKEventAction } from '../../database/repositories/AFKEventRepository';
+import { hasAFKAdminPermission } from '../../utils/permissions';
+import { formatError } from '../../utils/errorUtils';
+import type { CommandServices } from './index';
+
+const DEFAULT_LIMIT = 10;
+
+export const data = new SlashCommandBuilder()
+  .setName('afk-history')
+  .setDescription('View recent AFK enforcement events')
+  .addUserOption((option) =>
+    option
+      .setName('user')
+      .setDescription('Only show events for this member')
+      .setRequired(false)
+  )
+  .addStringOption((option) =>
+    option
+      .setName('action')
+      .setDescription('Only show events of this type')
+      .setRequired(false)
+      .addChoices(...AFK_EVENT_ACTIONS.map((action) => ({ name: action, value: action })))
+  )
+  .addIntegerOption((option) =>
+    option
+      .setName('limit')
+      .setDescription(`Number of events to show (default ${DEFAULT_LIMIT})`)
+      .setRequired(false)
+      .setMinValue(1)
+      .setMaxValue(25)
+  );
+
+export async function execute(
+  interaction: ChatInputCommandInteraction,
+  configService: GuildConfigService,
+  logger: Logger,
+  services: CommandServices
+): Promise<void> {
+  if (logger.isLevelEnabled('debug')) {
+    logger.debug({
+      guildId: interaction.guildId,
+      userId: interaction.user.id,
+      command: 'afk-history',
+      action: 'command_invoke'
+    }, 'afk-history command invoked');
+  }
+
+  if (interaction.guildId === null) {
+    await interaction.reply({
+      content: 'This command can only be used in a server.',
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (!hasAFKAdminPermission(interaction, configService)) {
+    await interaction.reply({
+      content: 'You do not have permission to use this command. You need Administrator permission or an admin role.',
+      ephemeral: true,
+    });
+    return;
+  }
+
+  try {
+    const user = interaction.options.getUser('user');
+    const action = interaction.options.getString('action') as AFKEventAction | null;
+    const limit = interaction.options.getInteger('limit') ?? DEFAULT_LIMIT;
+
+    const { events, total } = services.eventRepository.find({
+      guildId: interaction.guildId,
+      userId: user?.id,
+      actions: action !== null ? [action] : undefined,
+      limit,
+      offset: 0,
+    });
+
+    const embed = new EmbedBuilder()
+      .setTitle('AFK History')
+      .setColor(0x0099ff)
+      .setDescription(events.length > 0 ? events.map(formatEvent).join('\n') : 'No matching events recorded.')
+      .setFooter({ text: `Showing ${events.length} of ${total} events` })
+      .setTimestamp();
+
+    await interaction.reply({
+      embeds: [embed],
+      ephemeral: true,
+    });
+  } catch (error) {
+    logger.error({ error, guildId: interaction.guildId }, 'Error executing afk-history command');
+    const errorMessage = formatError(error).message;
+
+    await interaction.reply({
+      content: `Error retrieving AFK history: ${errorMessage}`,
+      ephemeral: true,
+    });
+  }
+}
+
+function formatEvent(event: AFKEvent): string {
+  const timestamp = `<t:${Math.floor(event.createdAt / 1000)}:f>`;
+  const channel = event.channelId !== null ? ` in <#${event.channelId}>` : '';
+  const reason = event.reason !== null ? ` — ${event.reason}` : '';
+  return `${timestamp} **${event.action}** <@${event.userId}>${channel}${reason}`;
+}
@@ -0,0 +1,169 @@
+import {
+  SlashCommandBuilder,
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+  type GuildMember,
+  type VoiceBasedChannel,
+} from 'discord.js';
+import type { Logger } from 'pino';
+import { GuildConfigService } from '../../services/GuildConfigService';
+import type { TrackedUser } from '../../services/AFKDetectionService';
+import type { GuildSettings } from '../../database/repositories/GuildSettingsRepository';
+import type { AFKExemption } from '../../database/repositories/AFKExemptionRepository';
+import { isExemptChannel } from '../../utils/exemptChannels';
+import { isWithinSchedule } from '../../utils/schedule';
+import { formatDuration } from '../../utils/duration';
+import { formatError } from '../../utils/errorUtils';
+import { formatAFKAction } from './afk-status';
+import type { CommandServices } from './index';
+
+export const data = new SlashCommandBuilder()
+  .setName('afk-me')
+  .setDescription('See whether your AFK timer is running and when it runs out');
+
+export async function execute(
+  interaction: ChatInputCommandInteraction,
+  configService: GuildConfigService,
+  logger: Logger,
+  services: CommandServices
+): Promise<void> {
+  if (logger.isLevelEnabled('debug')) {
+    logger.debug({
+      guildId: interaction.guildId,
+      userId: interaction.user.id,
+      command: 'afk-me',
+      action: 'command_invoke'
+    }, 'afk-me command invoked');
+  }
+
+  if (interaction.guildId === null) {
+    await interaction.reply({
+      content: 'This command can only be used in a server.',
+      ephemeral: true,
+    });
+    return;
+  }
+
+  try {
+    const guildId = interaction.guildId;
+    const userId = interaction.user.id;
+    const now = Date.now();
+
+    const member = interaction.guild?.members.cache.get(userId) ?? null;
+    const channel = member?.voice.channel ?? null;
+    const config = channel !== null
+      ? configService.getEffectiveConfig(guildId, channel.id, channel.parentId)
+      : configService.getConfig(guildId);
+    const tracked = services.afkDetectionService.getTrackedUser(guildId, userId);
+    const exemptions = services.exemptionService
+      .getActiveExemptions(guildId, now)
+      .filter(exemption => exemption.userId === userId);
+
+    const embed = new EmbedBuilder()
+      .setTitle('Your AFK Status')
+      .setColor(tracked !== null ? 0xffa500 : 0x00ff00)
+      .setDescription(formatTrackingStatus(tracked, channel))
+      .setTimestamp();
+
+    if (tracked !== null) {
+      embed.addFields(
+        {
+          name: 'Warning',
+          value: tracked.warned ? 'Sent' : formatCountdown(tracked.warningAt, now),
+          inline: true,
+        },
+        {
+          name: config.mode === 'enforce' ? 'AFK Action' : 'AFK Action (not applied)',
+          value: formatCountdown(tracked.kickAt, now),
+          inline: true,
+        }
+      );
+    }
+
+    embed.addFields(
+      {
+        name: 'Exemptions',
+        value: formatExemptions(config, member, channel, exemptions, interaction.guild?.afkChannelId ?? null, now),
+        inline: false,
+      },
+      {
+        name: channel !== null ? 'Settings for This Channel' : 'Server Settings',
+        value: formatSettings(config),
+        inline: false,
+      }
+    );
+
+    await interaction.reply({
+      embeds: [embed],
+      ephemeral: true,
+    });
+  } catch (error) {
+    logger.error({ error, guildId: interaction.guildId, userId: interaction.user.id }, 'Error executing afk-me command');
+    const errorMessage = formatError(error).message;
+
+    await interaction.reply({
+      content: `Error retrieving your AFK status: ${errorMessage}`,
+      ephemeral: true,
+    });
+  }
+}
+
+function formatTrackingStatus(tracked: TrackedUser | null, channel: VoiceBasedChannel | null): string {
+  if (tracked !== null) {
+    return `Your AFK timer is running in <#${tracked.channelId}> (started <t:${Math.floor(tracked.startedAt / 1000)}:R>). ` +
+      'Speaking or other activity resets it.';
+  }
+  if (channel === null) {
+    return 'You are not in a voice channel, so you are not being tracked.';
+  }
+  return `You are not being tracked in <#${channel.id}>.`;
+}
+
+function formatCountdown(at: number, now: number): string {
+  const seconds = Math.max(0, Math.ceil((at - now) / 1000));
+  return `in ${seconds}s (<t:${Math.floor(at / 1000)}:R>)`;
+}
+
+/**
+ * Lists everything that keeps the member from being tracked or holds their timer.
+ */
+function formatExemptions(
+  config: GuildSettings,
+  member: GuildMember | null,
+  channel: VoiceBasedChannel | null,
+  exemptions: AFKExemption[],
+  afkChannelId: string | null,
+  now: number
+): string {
+  const reasons: string[] = [];
+
+  if (!config.enabled) {
+    reasons.push(channel !== null ? 'AFK detection is off for this channel' : 'AFK detection is off in this server');
+  } else if (!isWithinSchedule(config, now)) {
+    reasons.push('Outside the enforcement schedule');
+  }
+  if (channel !== null && isExemptChannel(channel, config, afkChannelId)) {
+    reasons.push('This channel is exempt');
+  }
+  for (const roleId of config.exemptRoleIds) {
+    if (member?.roles.cache.has(roleId) === true) {
+      reasons.push(`Exempt role <@&${roleId}>`);
+    }
+  }
+  for (const exemption of exemptions) {
+    const until = `<t:${Math.floor(exemption.expiresAt / 1000)}:f>`;
+    reasons.push(exemption.source === 'snooze' ? `Snoozed until ${until}` : `Exempt until ${until}`);
+  }
+
+  return reasons.length > 0 ? reasons.join('\n') : 'None';
+}
+
+function formatSettings(config: GuildSettings): string {
+  return [
+    `Timeout: ${formatDuration(config.afkTimeoutSeconds)}`,
+    `Warning: ${formatDuration(config.warningSecondsBefore)} before`,
+    `Action: ${formatAFKAction(config)}`,
+    `Mode: ${config.mode}`,
+    `Tracking starts with ${config.minUsersForTracking} or more members in the channel`,
+  ].join('\n');
+}
@@ -0,0 +1,84 @@
+import { SlashCommandBuilder, ChatInputCommandInteraction } from 'discord.js';
+import type { Logger } from 'pino';
+import { GuildConfigService } from '../../services/GuildConfigService';
+import { MAX_SNOOZE_SECONDS, MIN_SNOOZE_SECONDS } from '../../services/ExemptionService';
+import { parseDuration } from '../../utils/duration';
+import { formatError } from '../../utils/errorUtils';
+import type { CommandServices } from './index';
+
+export const data = new SlashCommandBuilder()
+  .setName('afk-snooze')
+  .setDescription('Hold your AFK timer for a while, e.g. while you step away or stream')
+  .addStringOption((option) =>
+    option
+      .setName('duration')
+      .setDescription('How long to snooze, e.g. 30m or 1h (up to 2h)')
+      .setRequired(true)
+  );
+
+export async function execute(
+  interaction: ChatInputCommandInteraction,
+  _configService: GuildConfigService,
+  logger: Logger,
+  services: CommandServices
+): Promise<void> {
+  if (logger.isLevelEnabled('debug')) {
+    logger.debug({
+      guildId: interaction.guildId,
+      userId: interaction.user.id,
+      command: 'afk-snooze',
+      action: 'command_invoke'
+    }, 'afk-snooze command invoked');
+  }
+
+  if (interaction.guildId === null) {
+    await interaction.reply({
+      content: 'This command can only be used in a server.',
+      ephemeral: true,
+    });
+    return;
+  }
+
+  const durationSeconds = parseDuration(interaction.options.getString('duration', true));
+  if (durationSeconds === null || durationSeconds < MIN_SNOOZE_SECONDS || durationSeconds > MAX_SNOOZE_SECONDS) {
+    await interaction.reply({
+      content: 'Snooze for between 1 minute and 2 hours, e.g. 30m, 90m or 1h30m.',
+      ephemeral: true,
+    });
+    return;
+  }
+
+  try {
+    const result = await services.exemptionService.snooze(interaction.guildId, interaction.user.id, durationSeconds);
+
+    let content: string;
+    switch (result.status) {
+      case 'disabled':
+        content = 'Snoozing is turned off in this server.';
+        break;
+      case 'limit_reached':
+        content = `You have already snoozed ${result.limit} times in the last 24 hours.`;
+        break;
+      case 'snoozed': {
+        const expiresAt = Math.floor(result.exemption.expiresAt / 1000);
+        content =
+          `Your AFK timer is snoozed until <t:${expiresAt}:t> (<t:${expiresAt}:R>). ` +
+          `Snoozes left in the next 24 hours: ${result.remaining}.`;
+        break;
+      }
+    }
+
+    await interaction.reply({
+      content,
+      ephemeral: true,
+    });
+  } catch (error) {
+    logger.error({ error, guildId: interaction.guildId, userId: interaction.user.id }, 'Error executing afk-snooze command');
+    const errorMessage = formatError(error).message;
+
+    await interaction.reply({
+      content: `Error snoozing your AFK timer: ${errorMessage}`,
+      ephemeral: true,
+    });
+  }
+}
@@ -0,0 +1,124 @@
+import {
+  SlashCommandBuilder,
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+} from 'discord.js';
+import type { Logger } from 'pino';
+import { GuildConfigService } from '../../services/GuildConfigService';
+import type {
+  VoiceActivityChannelSummary,
+  VoiceActivityUserSummary,
+} from '../../database/repositories/VoiceActivityRepository';
+import { toActivityDay } from '../../services/VoiceAnalyticsService';
+import { hasAFKAdminPermission } from '../../utils/permissions';
+import { formatDuration } from '../../utils/duration';
+import { formatError } from '../../utils/errorUtils';
+import type { CommandServices } from './index';
+
+const DEFAULT_DAYS = 7;
+const TOP_LIMIT = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const data = new SlashCommandBuilder()
+  .setName('afk-stats')
+  .setDescription('View voice activity: top speakers, silent time and channel occupancy')
+  .addIntegerOption((option) =>
+    option
+      .setName('days')
+      .setDescription(`Number of days to include, counting today (default ${DEFAULT_DAYS})`)
+      .setRequired(false)
+      .setMinValue(1)
+      .setMaxValue(90)
+  );
+
+export async function execute(
+  interaction: ChatInputCommandInteraction,
+  configService: GuildConfigService,
+  logger: Logger,
+  services: CommandServices
+): Promise<void> {
+  if (logger.isLevelEnabled('debug')) {
+    logger.debug({
+      guildId: interaction.guildId,
+      userId: interaction.user.id,
+      command: 'afk-stats',
+      action: 'command_invoke'
+    }, 'afk-stats command invoked');
+  }
+
+  if (interaction.guildId === null) {
+    await interaction.reply({
+      content: 'This command can only be used in a server.',
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (!hasAFKAdminPermission(interaction, configService)) {
+    await interaction.reply({
+      content: 'You do not have permission to use this command. You need Administrator permission or an admin role.',
+      ephemeral: true,
+    });
+    return;
+  }
+
+  try {
+    const days = interaction.options.getInteger('days') ?? DEFAULT_DAYS;
+    const now = Date.now();
+    const fromDay = toActivityDay(now - (days - 1) * DAY_MS);
+    const toDay = toActivityDay(now);
+    const repository = services.voiceActivityRepository;
+
+    const speakers = repository.summarizeUsers(interaction.guildId, fromDay, toDay, 'speaking', TOP_LIMIT);
+    const silent = repository.summarizeUsers(interaction.guildId, fromDay, toDay, 'silent', TOP_LIMIT);
+    const channels = repository.summarizeChannels(interaction.guildId, fromDay, toDay, TOP_LIMIT);
+
+    const embed = new EmbedBuilder()
+      .setTitle('Voice Activity')
+      .setColor(0x0099ff)
+      .setDescription(`${fromDay} to ${toDay}`)
+      .setFooter({ text: 'UTC days. Only channels the bot was connected to are counted.' })
+      .setTimestamp();
+
+    if (channels.length === 0) {
+      embed.addFields({ name: 'No activity', value: 'No voice activity recorded in this period.' });
+    } else {
+      embed.addFields(
+        { name: 'Top Speakers', value: formatList(speakers.filter(user => user.speakingMs > 0), formatSpeaker) },
+        { name: 'Most Silent', value: formatList(silent.filter(user => user.presentMs > user.speakingMs), formatSilent) },
+        { name: 'Channel Occupancy', value: formatList(channels, formatChannel) }
+      );
+    }
+
+    await interaction.reply({
+      embeds: [embed],
+      ephemeral: true,
+    });
+  } catch (error) {
+    logger.error({ error, guildId: interaction.guildId }, 'Error executing afk-stats command');
+    const errorMessage = formatError(error).message;
+
+    await interaction.reply({
+      content: `Error retrieving voice activity: ${errorMessage}`,
+      ephemeral: true,
+    });
+  }
+}
+
+function formatList<T>(items: T[], format: (item: T) => string): string {
+  return items.length > 0 ? items.map((item, index) => `${index + 1}. ${format(item)}`).join('\n') : 'None';
+}
+
+function formatSpeaker(user: VoiceActivityUserSummary): string {
+  const sessions = user.speakingSessions === 1 ? '1 session' : `${user.speakingSessions} sessions`;
+  return `<@${user.userId}> — ${formatDuration(user.speakingMs / 1000)} speaking (${sessions})`;
+}
+
+function formatSilent(user: VoiceActivityUserSummary): string {
+  return `<@${user.userId}> — ${formatDuration((user.presentMs - user.speakingMs) / 1000)} silent of ${formatDuration(user.presentMs / 1000)}`;
+}
+
+function formatChannel(channel: VoiceActivityChannelSummary): string {
+  const members = channel.members === 1 ? '1 member' : `${channel.members} members`;
+  return `<#${channel.channelId}> — ${formatDuration(channel.presentMs / 1000)} member time, ${members}`;
+}
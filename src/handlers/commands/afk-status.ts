@@ -5,17 +5,35 @@ import {
 } from 'discord.js';
 import type { Logger } from 'pino';
 import { GuildConfigService } from '../../services/GuildConfigService';
+import type { GuildSettings } from '../../database/repositories/GuildSettingsRepository';
+import { OBSERVED_SUMMARY_WINDOW_MS, type ObservedSummary } from '../../database/repositories/AFKEventRepository';
+import type { TrackedUser } from '../../services/AFKDetectionService';
 import { hasAFKAdminPermission } from '../../utils/permissions';
 import { formatError } from '../../utils/errorUtils';
+import type { CommandServices } from './index';
+
+/** Tracked members listed in the live view; the rest are counted */
+const LIVE_LIST_LIMIT = 20;
 
 export const data = new SlashCommandBuilder()
   .setName('afk-status')
-  .setDescription('View AFK kick settings');
+  .setDescription('View AFK kick settings and live tracking')
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('settings')
+      .setDescription('View AFK kick settings')
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName('live')
+      .setDescription('See who is being timed right now and how long they have left')
+  );
 
 export async function execute(
   interaction: ChatInputCommandInteraction,
   configService: GuildConfigService,
-  logger: Logger
+  logger: Logger,
+  services: CommandServices
 ): Promise<void> {
   if (logger.isLevelEnabled('debug')) {
     logger.debug({
@@ -42,6 +60,11 @@ export async function execute(
     return;
   }
 
+  if (interaction.options.getSubcommand() === 'live') {
+    await handleLiveCommand(interaction, logger, services, interaction.guildId);
+    return;
+  }
+
   try {
     const config = configService.getConfig(interaction.guildId);
 
@@ -59,6 +82,10 @@ export async function execute(
       ? `<#${config.warningChannelId}>`
       : 'Not set';
 
+    const modLogChannelDisplay = config.modLogChannelId !== null
+      ? `<#${config.modLogChannelId}>`
+      : 'Off';
+
     let exemptRolesDisplay = 'None';
     if (config.exemptRoleIds.length > 0) {
       exemptRolesDisplay = config.exemptRoleIds
@@ -97,6 +124,21 @@ export async function execute(
           value: warningChannelDisplay,
           inline: false,
         },
+        {
+          name: 'Mod Log',
+          value: modLogChannelDisplay,
+          inline: false,
+        },
+        {
+          name: 'AFK Action',
+          value: formatAFKAction(config),
+          inline: false,
+        },
+        {
+          name: 'Mode',
+          value: config.mode,
+          inline: true,
+        },
         {
           name: 'Exempt Roles',
           value: exemptRolesDisplay,
@@ -110,6 +152,18 @@ export async function execute(
       )
       .setTimestamp();
 
+    if (config.mode !== 'enforce') {
+      const summary = services.eventRepository.summarizeObserved(
+        interaction.guildId,
+        Date.now() - OBSERVED_SUMMARY_WINDOW_MS
+      );
+      embed.addFields({
+        name: 'Observed (last 24h)',
+        value: formatObservedSummary(summary),
+        inline: false,
+      });
+    }
+
     await interaction.reply({
       embeds: [embed],
       ephemeral: true,
@@ -124,3 +178,76 @@ export async function execute(
     });
   }
 }
+
+async function handleLiveCommand(
+  interaction: ChatInputCommandInteraction,
+  logger: Logger,
+  services: CommandServices,
+  guildId: string
+): Promise<void> {
+  try {
+    const trackedUsers = services.afkDetectionService.getTrackedUsers(guildId);
+    const monitoredChannelIds = services.voiceConnectionManager.getChannelIds(guildId);
+
+    const lines = trackedUsers.slice(0, LIVE_LIST_LIMIT).map(formatTrackedUser);
+    if (trackedUsers.length > LIVE_LIST_LIMIT) {
+      lines.push(`…and ${trackedUsers.length - LIVE_LIST_LIMIT} more`);
+    }
+
+    const embed = new EmbedBuilder()
+      .setTitle('AFK Tracking (Live)')
+      .setColor(0x0099ff)
+      .setDescription(lines.length > 0 ? lines.join('\n') : 'Nobody is being timed right now.')
+      .addFields({
+        name: 'Monitored Channels',
+        value: monitoredChannelIds.length > 0
+          ? monitoredChannelIds.map((channelId) => `<#${channelId}>`).join(', ')
+          : 'Not connected to any voice channel',
+        inline: false,
+      })
+      .setFooter({ text: `${trackedUsers.length} members tracked, soonest AFK action first` })
+      .setTimestamp();
+
+    await interaction.reply({
+      embeds: [embed],
+      ephemeral: true,
+    });
+  } catch (error) {
+    logger.error({ error, guildId }, 'Error executing afk-status live command');
+    const errorMessage = formatError(error).message;
+
+    await interaction.reply({
+      content: `Error retrieving live AFK tracking: ${errorMessage}`,
+      ephemeral: true,
+    });
+  }
+}
+
+function formatTrackedUser(tracked: TrackedUser): string {
+  const started = `started <t:${Math.floor(tracked.startedAt / 1000)}:R>`;
+  const warning = tracked.warned ? 'warned' : `warning <t:${Math.floor(tracked.warningAt / 1000)}:R>`;
+  const action = `action <t:${Math.floor(tracked.kickAt / 1000)}:R>`;
+  return `<@${tracked.userId}> in <#${tracked.channelId}> — ${started}, ${warning}, ${action}`;
+}
+
+export function formatAFKAction(config: GuildSettings): string {
+  switch (config.afkAction) {
+    case 'move':
+      return config.afkMoveChannelId !== null
+        ? `Move to <#${config.afkMoveChannelId}>`
+        : 'Move to server AFK channel';
+    case 'mute':
+      return 'Server-mute and deafen';
+    case 'timeout':
+      return `Timeout for ${Math.floor(config.memberTimeoutSeconds / 60)}m`;
+    case 'role':
+      return config.afkRoleId !== null ? `Assign <@&${config.afkRoleId}>` : 'Assign role (not set)';
+    case 'disconnect':
+    default:
+      return 'Disconnect';
+  }
+}
+
+function formatObservedSummary(summary: ObservedSummary): string {
+  return `${summary.wouldWarn} would-be warnings, ${summary.wouldKick} would-be AFK actions (${summary.wouldKickUsers} members). See /afk-history for details.`;
+}
@@ -1,13 +1,37 @@
 import { ChatInputCommandInteraction } from 'discord.js';
 import type { Logger } from 'pino';
 import { GuildConfigService } from '../../services/GuildConfigService';
+import type { AFKEventRepository } from '../../database/repositories/AFKEventRepository';
+import type { ExemptionService } from '../../services/ExemptionService';
+import type { AFKDetectionService } from '../../services/AFKDetectionService';
+import type { VoiceConnectionManager } from '../../voice/VoiceConnectionManager';
+import type { ChimeStore } from '../../voice/ChimeStore';
+import type { VoiceActivityRepository } from '../../database/repositories/VoiceActivityRepository';
 import * as afkConfig from './afk-config';
 import * as afkStatus from './afk-status';
+import * as afkHistory from './afk-history';
+import * as afkSnooze from './afk-snooze';
+import * as afkExempt from './afk-exempt';
+import * as afkStats from './afk-stats';
+import * as afkMe from './afk-me';
+
+/**
+ * Services beyond guild config that some commands need.
+ */
+export interface CommandServices {
+  eventRepository: AFKEventRepository;
+  exemptionService: ExemptionService;
+  chimeStore: ChimeStore;
+  voiceActivityRepository: VoiceActivityRepository;
+  afkDetectionService: AFKDetectionService;
+  voiceConnectionManager: VoiceConnectionManager;
+}
 
 export type CommandHandler = (
   interaction: ChatInputCommandInteraction,
   configService: GuildConfigService,
-  logger: Logger
+  logger: Logger,
+  services: CommandServices
 ) => Promise<void>;
 
 export interface Command {
@@ -28,9 +52,39 @@ export const afkStatusCommand: Command = {
   execute: afkStatus.execute,
 };
 
+export const afkHistoryCommand: Command = {
+  data: afkHistory.data,
+  execute: afkHistory.execute,
+};
+
+export const afkSnoozeCommand: Command = {
+  data: afkSnooze.data,
+  execute: afkSnooze.execute,
+};
+
+export const afkExemptCommand: Command = {
+  data: afkExempt.data,
+  execute: afkExempt.execute,
+};
+
+export const afkStatsCommand: Command = {
+  data: afkStats.data,
+  execute: afkStats.execute,
+};
+
+export const afkMeCommand: Command = {
+  data: afkMe.data,
+  execute: afkMe.execute,
+};
+
 export const commands = [
   afkConfig.data,
   afkStatus.data,
+  afkHistory.data,
+  afkSnooze.data,
+  afkExempt.data,
+  afkStats.data,
+  afkMe.data,
 ];
 
-export { afkConfig, afkStatus };
+export { afkConfig, afkStatus, afkHistory, afkSnooze, afkExempt, afkStats, afkMe };
@@ -0,0 +1,58 @@
+import { ButtonInteraction, EmbedBuilder } from 'discord.js';
+import { Logger } from 'pino';
+import type { AFKDetectionService } from '../../services/AFKDetectionService';
+import { parseStillHereButtonId } from '../../utils/componentIds';
+import { generateCorrelationId } from '../../utils/correlation';
+
+export interface StillHereButtonHandlerDeps {
+  afkDetection: AFKDetectionService;
+  logger: Logger;
+}
+
+export function createStillHereButtonHandler(deps: StillHereButtonHandlerDeps) {
+  const { afkDetection, logger } = deps;
+
+  return async (interaction: ButtonInteraction): Promise<void> => {
+    const correlationId = generateCorrelationId();
+    const eventLogger = logger.child({ correlationId });
+
+    // Warnings sent by DM are clicked outside the guild, where guildId is null
+    const target = parseStillHereButtonId(interaction.customId);
+    if (!target || (interaction.guildId !== null && target.guildId !== interaction.guildId)) {
+      eventLogger.warn({ customId: interaction.customId, guildId: interaction.guildId }, 'Invalid still-here button ID');
+      await interaction.reply({ content: 'This button is no longer valid.', ephemeral: true });
+      return;
+    }
+
+    const { guildId, userId } = target;
+
+    if (interaction.user.id !== userId) {
+      if (eventLogger.isLevelEnabled('debug')) {
+        eventLogger.debug(
+          { guildId, userId, clickedBy: interaction.user.id, action: 'still_here_rejected' },
+          'Still-here button pressed by another user'
+        );
+      }
+      await interaction.reply({ content: 'Only the warned user can confirm they are still here.', ephemeral: true });
+      return;
+    }
+
+    if (!afkDetection.isTracking(guildId, userId)) {
+      await interaction.reply({ content: 'You are no longer being tracked for inactivity.', ephemeral: true });
+      return;
+    }
+
+    await afkDetection.resetTimer(guildId, userId, 'still_here_button');
+
+    const originalEmbed = interaction.message.embeds[0];
+    const confirmedEmbed = (originalEmbed ? EmbedBuilder.from(originalEmbed) : new EmbedBuilder())
+      .setColor(0x57F287)
+      .setTitle('AFK Warning Dismissed')
+      .setDescription(`<@${userId}> confirmed they are still here.`)
+      .setTimestamp();
+
+    await interaction.update({ embeds: [confirmedEmbed], components: [] });
+
+    eventLogger.info({ guildId, userId, action: 'still_here_confirmed' }, 'User confirmed presence from AFK warning');
+  };
+}
@@ -0,0 +1,27 @@
+import { Message } from 'discord.js';
+import { Logger } from 'pino';
+import type { ActivitySignalService } from '../../services/ActivitySignalService';
+import { generateCorrelationId } from '../../utils/correlation';
+
+export interface MessageCreateHandlerDeps {
+  activitySignals: ActivitySignalService;
+  logger: Logger;
+}
+
+export function createMessageCreateHandler(deps: MessageCreateHandlerDeps) {
+  const { activitySignals, logger } = deps;
+
+  return async (message: Message): Promise<void> => {
+    const correlationId = generateCorrelationId();
+    const eventLogger = logger.child({ correlationId });
+
+    try {
+      await activitySignals.handleMessage(message);
+    } catch (error) {
+      eventLogger.error(
+        { error, guildId: message.guildId, channelId: message.channelId, userId: message.author.id },
+        'Error handling message create event'
+      );
+    }
+  };
+}
@@ -0,0 +1,27 @@
+import { MessageReaction, PartialMessageReaction, PartialUser, User } from 'discord.js';
+import { Logger } from 'pino';
+import type { ActivitySignalService } from '../../services/ActivitySignalService';
+import { generateCorrelationId } from '../../utils/correlation';
+
+export interface MessageReactionAddHandlerDeps {
+  activitySignals: ActivitySignalService;
+  logger: Logger;
+}
+
+export function createMessageReactionAddHandler(deps: MessageReactionAddHandlerDeps) {
+  const { activitySignals, logger } = deps;
+
+  return async (reaction: MessageReaction | PartialMessageReaction, user: User | PartialUser): Promise<void> => {
+    const correlationId = generateCorrelationId();
+    const eventLogger = logger.child({ correlationId });
+
+    try {
+      await activitySignals.handleReaction(reaction, user);
+    } catch (error) {
+      eventLogger.error(
+        { error, guildId: reaction.message.guildId, channelId: reaction.message.channelId, userId: user.id },
+        'Error handling message reaction add event'
+      );
+    }
+  };
+}
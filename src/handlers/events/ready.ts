@@ -1,15 +1,17 @@
 import { Logger } from 'pino';
 import type { Client } from 'discord.js';
 import type { VoiceMonitorService } from '../../services/VoiceMonitorService';
+import type { AFKDetectionService } from '../../services/AFKDetectionService';
 import { generateCorrelationId } from '../../utils/correlation';
 
 export interface ReadyHandlerDeps {
   voiceMonitor: VoiceMonitorService;
+  afkDetection: AFKDetectionService;
   logger: Logger;
 }
 
 export function createReadyHandler(deps: ReadyHandlerDeps) {
-  const { voiceMonitor, logger } = deps;
+  const { voiceMonitor, afkDetection, logger } = deps;
 
   return async (client: Client) => {
     const correlationId = generateCorrelationId();
@@ -19,6 +21,14 @@ export function createReadyHandler(deps: ReadyHandlerDeps) {
     eventLogger.info({ botTag }, `Logged in as ${botTag}`);
     eventLogger.info('Ready to monitor voice channels');
 
+    // Restore timers before joining channels so persisted countdowns continue where they left off;
+    // initialize drops the ones in channels it could not join
+    try {
+      await afkDetection.restoreTracking();
+    } catch (error) {
+      eventLogger.error({ error }, 'Failed to restore AFK tracking state on startup');
+    }
+
     try {
       await voiceMonitor.initialize();
     } catch (error) {
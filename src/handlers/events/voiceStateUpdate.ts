@@ -2,22 +2,105 @@ import { VoiceState, VoiceBasedChannel } from 'discord.js';
 import { Logger } from 'pino';
 import type { VoiceMonitorService } from '../../services/VoiceMonitorService';
 import type { AFKDetectionService } from '../../services/AFKDetectionService';
-import { MIN_USERS_FOR_AFK_TRACKING } from '../../services/AFKDetectionService';
 import type { GuildConfigService } from '../../services/GuildConfigService';
+import type { ActivitySignalService } from '../../services/ActivitySignalService';
+import type { VoiceAnalyticsService } from '../../services/VoiceAnalyticsService';
 import { generateCorrelationId } from '../../utils/correlation';
+import { countsTowardThreshold, countThresholdMembers } from '../../utils/trackingThreshold';
+import { isExemptChannel } from '../../utils/exemptChannels';
 
 export interface VoiceStateHandlerDeps {
   voiceMonitor: VoiceMonitorService;
   afkDetection: AFKDetectionService;
   guildConfig: GuildConfigService;
+  /** Counts camera and screen share toggles as activity */
+  activitySignals?: ActivitySignalService;
+  /** Records time members spend in channels the bot is connected to */
+  voiceAnalytics?: VoiceAnalyticsService;
   logger: Logger;
 }
 
-const countNonBotMembers = (channel: VoiceBasedChannel): number =>
-  channel.members.filter(m => !m.user.bot).size;
-
 export function createVoiceStateUpdateHandler(deps: VoiceStateHandlerDeps) {
-  const { voiceMonitor, afkDetection, guildConfig, logger } = deps;
+  const { voiceMonitor, afkDetection, guildConfig, activitySignals, voiceAnalytics, logger } = deps;
+  const isVoiceIdentity = (userId: string): boolean => voiceMonitor.isVoiceIdentity(userId);
+
+  /**
+   * Starts or stops tracking for a whole channel after a change that moves it across the
+   * threshold without a tracked member joining or leaving: another bot coming or going,
+   * or a member deafening when deafened members don't count.
+   */
+  const syncChannelThreshold = async (guildId: string, channel: VoiceBasedChannel): Promise<void> => {
+    const config = guildConfig.getEffectiveConfig(guildId, channel.id, channel.parentId);
+    if (!config.enabled || isExemptChannel(channel, config, channel.guild.afkChannelId)) {
+      return;
+    }
+
+    if (countThresholdMembers(channel, config, isVoiceIdentity) < config.minUsersForTracking) {
+      afkDetection.stopAllTrackingForChannel(guildId, channel.id);
+      return;
+    }
+
+    if (!voiceMonitor.hasChannelConnection(channel.id)) {
+      return;
+    }
+
+    const untrackedUserIds = Array.from(
+      channel.members.filter(m => !m.user.bot && !afkDetection.isTracking(guildId, m.id)).keys()
+    );
+    if (untrackedUserIds.length > 0) {
+      await afkDetection.startTrackingAllInChannel(guildId, channel.id, untrackedUserIds);
+    }
+  };
+
+  /**
+   * Applies the threshold after a member joined: tracks everyone once the channel just
+   * reached it, or only the newcomer when it was already met.
+   */
+  const handleThresholdJoin = async (
+    guildId: string,
+    userId: string,
+    channel: VoiceBasedChannel,
+    state: VoiceState
+  ): Promise<void> => {
+    // Without a connection nobody hears the channel, so speaking could not reset timers
+    if (!voiceMonitor.hasChannelConnection(channel.id)) {
+      if (logger.isLevelEnabled('debug')) {
+        logger.debug({ guildId, userId, channelId: channel.id }, 'Bot not connected to channel, not tracking');
+      }
+      return;
+    }
+
+    const config = guildConfig.getEffectiveConfig(guildId, channel.id, channel.parentId);
+    const count = countThresholdMembers(channel, config, isVoiceIdentity);
+    if (count < config.minUsersForTracking) {
+      return;
+    }
+
+    const joinerCounted = state.member !== null && countsTowardThreshold(state.member, config, isVoiceIdentity);
+    const previousCount = joinerCounted ? count - 1 : count;
+    if (previousCount < config.minUsersForTracking) {
+      // Just reached threshold - start tracking all users
+      const userIds = Array.from(channel.members.filter(m => !m.user.bot).keys());
+      await afkDetection.startTrackingAllInChannel(guildId, channel.id, userIds);
+    } else {
+      // Already above threshold - track just the new user
+      await afkDetection.startTracking(guildId, userId, channel.id);
+    }
+  };
+
+  /**
+   * Applies the threshold to the channel a member just left.
+   */
+  const handleThresholdLeave = (guildId: string, userId: string, channel: VoiceBasedChannel): void => {
+    const config = guildConfig.getEffectiveConfig(guildId, channel.id, channel.parentId);
+    if (countThresholdMembers(channel, config, isVoiceIdentity) < config.minUsersForTracking) {
+      // Dropped below threshold - stop tracking everyone in channel
+      afkDetection.stopAllTrackingForChannel(guildId, channel.id);
+    } else {
+      // Still above threshold - just stop tracking the leaving user
+      afkDetection.stopTracking(guildId, userId);
+    }
+  };
 
   return async (oldState: VoiceState, newState: VoiceState): Promise<void> => {
     const correlationId = generateCorrelationId();
@@ -44,23 +127,52 @@ export function createVoiceStateUpdateHandler(deps: VoiceStateHandlerDeps) {
 
       const isBot = newState.member?.user.bot || oldState.member?.user.bot;
       if (isBot) {
+        // Bots are never tracked, but guilds can count them toward the threshold
+        if (
+          oldState.channelId !== newState.channelId &&
+          guildConfig.getConfig(guildId).countBots &&
+          !isVoiceIdentity(userId)
+        ) {
+          if (oldState.channel) {
+            await syncChannelThreshold(guildId, oldState.channel);
+          }
+          if (newState.channel) {
+            await syncChannelThreshold(guildId, newState.channel);
+          }
+        }
         if (eventLogger.isLevelEnabled('debug')) {
           eventLogger.debug({ userId, guildId }, 'Skipping bot user');
         }
         return;
       }
 
-      const config = guildConfig.getConfig(guildId);
-      if (!config.enabled) {
+      voiceAnalytics?.handleVoiceStateChange(oldState, newState);
+
+      const oldChannel = oldState.channel;
+      const newChannel = newState.channel;
+
+      // Channel overrides can enable or disable monitoring per channel or category, and
+      // nobody is tracked in exempt channels or the guild's AFK channel
+      const isMonitored = (channel: VoiceBasedChannel | null): boolean => {
+        if (channel === null) {
+          return false;
+        }
+        const config = guildConfig.getEffectiveConfig(guildId, channel.id, channel.parentId);
+        return config.enabled && !isExemptChannel(channel, config, newState.guild.afkChannelId);
+      };
+      const oldMonitored = isMonitored(oldChannel);
+      const newMonitored = isMonitored(newChannel);
+
+      if (!oldMonitored && !newMonitored) {
         if (eventLogger.isLevelEnabled('debug')) {
-          eventLogger.debug({ guildId }, 'Guild monitoring not enabled');
+          eventLogger.debug(
+            { guildId, oldChannelId: oldChannel?.id, newChannelId: newChannel?.id },
+            'Guild monitoring not enabled'
+          );
         }
         return;
       }
 
-      const oldChannel = oldState.channel;
-      const newChannel = newState.channel;
-
     // User joined a channel
     if (!oldChannel && newChannel) {
       if (eventLogger.isLevelEnabled('debug')) {
@@ -68,17 +180,7 @@ export function createVoiceStateUpdateHandler(deps: VoiceStateHandlerDeps) {
       }
 
       await voiceMonitor.handleUserJoin(newChannel);
-
-      const count = countNonBotMembers(newChannel);
-      if (count === MIN_USERS_FOR_AFK_TRACKING) {
-        // Just reached threshold - start tracking all users
-        const userIds = Array.from(newChannel.members.filter(m => !m.user.bot).keys());
-        await afkDetection.startTrackingAllInChannel(guildId, newChannel.id, userIds);
-      } else if (count > MIN_USERS_FOR_AFK_TRACKING) {
-        // Already above threshold - track just the new user
-        await afkDetection.startTracking(guildId, userId, newChannel.id);
-      }
-      // If count < MIN_USERS_FOR_AFK_TRACKING, don't start tracking
+      await handleThresholdJoin(guildId, userId, newChannel, newState);
 
       return;
     }
@@ -89,14 +191,8 @@ export function createVoiceStateUpdateHandler(deps: VoiceStateHandlerDeps) {
         eventLogger.debug({ userId, guildId, channelId: oldChannel.id }, 'User left voice channel');
       }
 
-      const remainingCount = countNonBotMembers(oldChannel);
-      if (remainingCount < MIN_USERS_FOR_AFK_TRACKING) {
-        // Dropped below threshold - stop tracking everyone in channel
-        afkDetection.stopAllTrackingForChannel(guildId, oldChannel.id);
-      } else {
-        // Still above threshold - just stop tracking the leaving user
-        afkDetection.stopTracking(guildId, userId);
-      }
+      handleThresholdLeave(guildId, userId, oldChannel);
+      afkDetection.endVoiceSession(guildId, userId);
 
       await voiceMonitor.handleUserLeave(guildId, oldChannel.id);
       return;
@@ -112,35 +208,33 @@ export function createVoiceStateUpdateHandler(deps: VoiceStateHandlerDeps) {
       }
 
       // Apply leave logic to old channel
-      const oldCount = countNonBotMembers(oldChannel);
-      if (oldCount < MIN_USERS_FOR_AFK_TRACKING) {
-        // Dropped below threshold - stop tracking everyone in channel
-        afkDetection.stopAllTrackingForChannel(guildId, oldChannel.id);
+      if (oldMonitored) {
+        handleThresholdLeave(guildId, userId, oldChannel);
+        await voiceMonitor.handleUserLeave(guildId, oldChannel.id);
       } else {
-        // Still above threshold - just stop tracking the leaving user
         afkDetection.stopTracking(guildId, userId);
       }
-      await voiceMonitor.handleUserLeave(guildId, oldChannel.id);
+      afkDetection.endVoiceSession(guildId, userId);
 
       // Apply join logic to new channel
-      await voiceMonitor.handleUserJoin(newChannel);
-      const newCount = countNonBotMembers(newChannel);
-      if (newCount === MIN_USERS_FOR_AFK_TRACKING) {
-        // Just reached threshold - start tracking all users
-        const userIds = Array.from(newChannel.members.filter(m => !m.user.bot).keys());
-        await afkDetection.startTrackingAllInChannel(guildId, newChannel.id, userIds);
-      } else if (newCount > MIN_USERS_FOR_AFK_TRACKING) {
-        // Already above threshold - track just the new user
-        await afkDetection.startTracking(guildId, userId, newChannel.id);
+      if (newMonitored) {
+        await voiceMonitor.handleUserJoin(newChannel);
+        await handleThresholdJoin(guildId, userId, newChannel, newState);
       }
 
       return;
     }
 
-      // Other state changes (mute, deafen, etc.) - no action needed
+      // Other state changes (mute, deafen, camera, stream) - only camera and stream can count as activity
       if (eventLogger.isLevelEnabled('debug')) {
         eventLogger.debug({ userId, guildId }, 'Voice state updated (no channel change)');
       }
+
+      if (newChannel && oldState.deaf !== newState.deaf && !guildConfig.getConfig(guildId).countDeafenedUsers) {
+        await syncChannelThreshold(guildId, newChannel);
+      }
+
+      await activitySignals?.handleVoiceStateChange(oldState, newState);
     } catch (error) {
       const userId = newState.member?.user.id || oldState.member?.user.id;
       const guildId = newState.guild.id;
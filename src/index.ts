@@ -1,5 +1,6 @@
 import 'dotenv/config'; // MUST be first - loads .env before other imports
-import { REST, Routes } from 'discord.js';
+import { once } from 'events';
+import { Events, REST, Routes } from 'discord.js';
 import { createBot } from './bot';
 import { loadConfig } from './config/environment';
 import { commands } from './handlers/commands';
@@ -7,7 +8,18 @@ import { commands } from './handlers/commands';
 async function main(): Promise<void> {
   const config = loadConfig();
 
-  const { client, logger, voiceConnectionManager, speakingTracker, database, adminApiService } = await createBot();
+  const {
+    client,
+    logger,
+    voiceConnectionManager,
+    voiceMonitorService,
+    modLogService,
+    voiceAnalyticsService,
+    speakingTracker,
+    database,
+    helperClients,
+    adminApiService,
+  } = await createBot();
 
   logger.info('Registering slash commands with Discord API');
 
@@ -27,6 +39,20 @@ async function main(): Promise<void> {
     throw error;
   }
 
+  // Log in helper identities used to monitor additional voice channels first. The primary's
+  // ready handler scans every guild straight away, and a helper can only be handed a channel
+  // once its own guild cache is filled
+  await Promise.all(
+    helperClients.map(async (helperClient, index) => {
+      const ready = once(helperClient, Events.ClientReady);
+      await helperClient.login(config.VOICE_HELPER_TOKENS[index]);
+      await ready;
+    })
+  );
+  if (helperClients.length > 0) {
+    logger.info({ helperCount: helperClients.length }, 'Voice helper identities ready');
+  }
+
   await client.login(config.DISCORD_TOKEN);
   logger.info('Bot started successfully');
 
@@ -39,15 +65,24 @@ async function main(): Promise<void> {
     logger.info({ signal }, 'Received shutdown signal, cleaning up');
 
     try {
+      voiceMonitorService.stopScheduleWatcher();
+      // Post the last batch of outcomes while the client can still send
+      await modLogService.stop();
       speakingTracker.clear();
       voiceConnectionManager.disconnectAll();
       client.destroy();
+      for (const helperClient of helperClients) {
+        helperClient.destroy();
+      }
 
       // Stop Admin API before closing database
       if (adminApiService) {
         await adminApiService.stop();
       }
 
+      // Write the last voice activity before closing database
+      voiceAnalyticsService.stop();
+
       database.close();
       logger.info('Bot shutdown complete');
       process.exit(0);
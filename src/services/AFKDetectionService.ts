@@ -1,10 +1,25 @@
-import { Client } from 'discord.js';
+import { Client, Guild, GuildMember } from 'discord.js';
 import type { Logger } from 'pino';
 import { WarningService } from './WarningService';
 import { GuildConfigService } from './GuildConfigService';
 import { RateLimiter } from '../utils/RateLimiter';
+import type { AFKTrackingRepository, AFKTrackingRecord } from '../database/repositories/AFKTrackingRepository';
+import type { GuildSettings } from '../database/repositories/GuildSettingsRepository';
+import type { AFKEventRepository, NewAFKEvent } from '../database/repositories/AFKEventRepository';
+import type { AFKExemption, AFKExemptionRepository } from '../database/repositories/AFKExemptionRepository';
+import { getMissingAFKActionPermissions } from '../utils/permissions';
+import { generateCorrelationId } from '../utils/correlation';
+import { formatError, getErrorCode } from '../utils/errorUtils';
+import type { BotMetrics } from '../utils/metrics';
+import { isWithinSchedule } from '../utils/schedule';
+import { meetsTrackingThreshold } from '../utils/trackingThreshold';
+import { isExemptChannel } from '../utils/exemptChannels';
+import { renderMessages } from '../utils/messageTemplates';
+import { getBasePenalty, type AFKPenalty, type EscalationService } from './EscalationService';
+import type { ModLogService } from './ModLogService';
 
-export const MIN_USERS_FOR_AFK_TRACKING = 2;
+// setTimeout fires almost at once when given a longer delay, so longer waits are re-armed in steps
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
 
 interface UserTrackingState {
   userId: string;
@@ -13,6 +28,39 @@ interface UserTrackingState {
   warningTimer: NodeJS.Timeout | null;
   kickTimer: NodeJS.Timeout | null;
   warned: boolean;
+  // Epoch milliseconds, persisted so timers survive restarts
+  startedAt: number;
+  warningAt: number;
+  kickAt: number;
+  // Ties together the audit events of one tracking session
+  correlationId: string;
+}
+
+/**
+ * A read-only copy of one tracked member's timer.
+ */
+export interface TrackedUser {
+  guildId: string;
+  userId: string;
+  channelId: string;
+  /** Whether the warning has been sent (or recorded, in observe mode) */
+  warned: boolean;
+  /** Epoch milliseconds */
+  startedAt: number;
+  /** Epoch milliseconds; later than startedAt plus the timeout while a temporary exemption holds the clock */
+  warningAt: number;
+  /** Epoch milliseconds */
+  kickAt: number;
+}
+
+/**
+ * What the kick timer ended up doing, as recorded in the audit log.
+ */
+export interface AFKActionOutcome {
+  action: 'kick' | 'kick_failed';
+  reason: string;
+  // Failure code for metrics: a Discord API error code or a bot-side reason
+  errorCode?: string;
 }
 
 export class AFKDetectionService {
@@ -21,21 +69,44 @@ export class AFKDetectionService {
   private client: Client;
   private logger: Logger;
   private rateLimiter: RateLimiter;
+  private trackingRepository: AFKTrackingRepository;
+  private eventRepository: AFKEventRepository;
+  private metrics: BotMetrics | null;
+  private escalationService: EscalationService | null;
+  private exemptionRepository: AFKExemptionRepository | null;
+  private modLogService: ModLogService | null;
   private tracking: Map<string, UserTrackingState>;
+  // Last exemption recorded per member in their current voice session, as "channelId:reason".
+  // startTracking runs again every time an exempt member stops speaking, so without this
+  // each utterance would add another audit row and mod log entry
+  private recordedExemptions: Map<string, string>;
 
   constructor(
     warningService: WarningService,
     configService: GuildConfigService,
     client: Client,
     logger: Logger,
-    rateLimiter: RateLimiter
+    rateLimiter: RateLimiter,
+    trackingRepository: AFKTrackingRepository,
+    eventRepository: AFKEventRepository,
+    metrics: BotMetrics | null = null,
+    escalationService: EscalationService | null = null,
+    exemptionRepository: AFKExemptionRepository | null = null,
+    modLogService: ModLogService | null = null
   ) {
     this.warningService = warningService;
     this.configService = configService;
     this.client = client;
     this.logger = logger;
     this.rateLimiter = rateLimiter;
+    this.trackingRepository = trackingRepository;
+    this.eventRepository = eventRepository;
+    this.metrics = metrics;
+    this.escalationService = escalationService;
+    this.exemptionRepository = exemptionRepository;
+    this.modLogService = modLogService;
     this.tracking = new Map();
+    this.recordedExemptions = new Map();
   }
 
   async startTracking(guildId: string, userId: string, channelId: string): Promise<void> {
@@ -43,18 +114,23 @@ export class AFKDetectionService {
 
     this.stopTracking(guildId, userId);
 
-    const config = this.configService.getConfig(guildId);
+    const config = this.getChannelConfig(guildId, channelId);
 
     if (!config.enabled) {
       return;
     }
 
+    if (!isWithinSchedule(config)) {
+      this.logger.debug({ guildId, userId, action: 'schedule_check' }, 'Outside enforcement schedule, not tracking user');
+      return;
+    }
+
     // Check exempt roles
     if (config.exemptRoleIds.length > 0) {
       try {
-        this.rateLimiter.recordAction('client.guilds.fetch');
+        this.rateLimiter.recordAction('client.guilds.fetch', guildId);
         const guild = await this.client.guilds.fetch(guildId);
-        this.rateLimiter.recordAction('guild.members.fetch');
+        this.rateLimiter.recordAction('guild.members.fetch', guildId);
         const member = await guild.members.fetch(userId);
         const matchedRole = member.roles.cache.find(role =>
           config.exemptRoleIds.includes(role.id)
@@ -64,6 +140,16 @@ export class AFKDetectionService {
             { guildId, userId, action: 'exempt_check', matchedRoleId: matchedRole.id },
             'User is exempt from AFK tracking'
           );
+          this.recordExemption(
+            guildId,
+            userId,
+            channelId,
+            `role:${matchedRole.id}`,
+            `exempt role <@&${matchedRole.id}>`,
+            config,
+            null,
+            Date.now()
+          );
           return;
         }
       } catch (error) {
@@ -100,35 +186,60 @@ export class AFKDetectionService {
       return;
     }
 
-    const warningTimeMs = (config.afkTimeoutSeconds - config.warningSecondsBefore) * 1000;
-    const kickTimeMs = config.afkTimeoutSeconds * 1000;
+    const now = Date.now();
+    let exemption: AFKExemption | null;
+    try {
+      exemption = this.exemptionRepository?.findActiveByUser(guildId, userId, now) ?? null;
+    } catch (error) {
+      this.logger.error({ error, guildId, userId }, 'Failed to check user exemptions');
+      return;
+    }
 
-    const warningTimer = setTimeout(() => {
-      this.handleWarning(key).catch((error) => {
-        this.logger.error(
-          { error, key, guildId, userId },
-          'Unhandled error in warning timer callback'
-        );
-      });
-    }, warningTimeMs);
+    const correlationId = generateCorrelationId();
 
-    const kickTimer = setTimeout(() => {
-      this.handleKick(key).catch((error) => {
-        this.logger.error(
-          { error, key, guildId, userId },
-          'Unhandled error in kick timer callback'
-        );
-      });
-    }, kickTimeMs);
+    // A temporary exemption holds the AFK clock until it expires, so the member is
+    // still tracked and picked up without needing another voice event
+    if (exemption !== null) {
+      this.logger.debug(
+        { guildId, userId, action: 'exempt_check', exemptionId: exemption.id, expiresAt: exemption.expiresAt },
+        'User has a temporary exemption, holding AFK timer until it expires'
+      );
+      this.recordExemption(
+        guildId,
+        userId,
+        channelId,
+        `exemption:${exemption.id}`,
+        `temporary exemption until <t:${Math.floor(exemption.expiresAt / 1000)}:f>`,
+        config,
+        correlationId,
+        now
+      );
+    }
 
-    this.tracking.set(key, {
+    const clockStartsAt = exemption?.expiresAt ?? now;
+    const warningTimeMs = clockStartsAt - now + (config.afkTimeoutSeconds - config.warningSecondsBefore) * 1000;
+    const kickTimeMs = clockStartsAt - now + config.afkTimeoutSeconds * 1000;
+
+    const state: UserTrackingState = {
       userId,
       guildId,
       channelId,
-      warningTimer,
-      kickTimer,
+      warningTimer: null,
+      kickTimer: null,
       warned: false,
-    });
+      startedAt: now,
+      warningAt: now + warningTimeMs,
+      kickAt: now + kickTimeMs,
+      correlationId,
+    };
+
+    if (exemption !== null) {
+      this.scheduleExemptionEnd(key, state, exemption.expiresAt);
+    } else {
+      this.scheduleTimers(key, state, warningTimeMs, kickTimeMs);
+    }
+    this.tracking.set(key, state);
+    this.persistState(state);
 
     this.logger.debug(
       { guildId, userId, channelId, action: 'timer_start', warningTimeMs, kickTimeMs },
@@ -136,25 +247,70 @@ export class AFKDetectionService {
     );
   }
 
-  async resetTimer(guildId: string, userId: string): Promise<void> {
+  /**
+   * Starts a tracked member's timer again without recording activity, so a
+   * granted or revoked exemption takes effect straight away.
+   */
+  async restartTracking(guildId: string, userId: string): Promise<void> {
+    const state = this.tracking.get(this.getTrackingKey(guildId, userId));
+    if (!state) {
+      return;
+    }
+
+    await this.startTracking(guildId, userId, state.channelId);
+  }
+
+  /**
+   * @param reason - Recorded in the audit log to show what counted as activity
+   * @returns False when the member was not being tracked, so nothing was reset or recorded
+   */
+  async resetTimer(guildId: string, userId: string, reason = 'activity'): Promise<boolean> {
     const key = this.getTrackingKey(guildId, userId);
     const state = this.tracking.get(key);
 
     if (!state) {
-      return;
+      return false;
     }
 
     this.logger.debug({ guildId, userId, action: 'timer_reset' }, 'User activity detected, resetting timer');
 
+    this.recordEvent({
+      guildId,
+      userId,
+      channelId: state.channelId,
+      action: 'reset',
+      reason,
+      configSnapshot: null,
+      correlationId: state.correlationId,
+    });
+
     await this.startTracking(guildId, userId, state.channelId);
+    return true;
   }
 
-  stopTracking(guildId: string, userId: string): void {
+  /**
+   * @param auditReason - When set, records a stop event in the audit log; leave unset
+   * for routine stops such as the member leaving voice
+   * @returns False when the member was not being tracked, so nothing was stopped or recorded
+   */
+  stopTracking(guildId: string, userId: string, auditReason: string | null = null): boolean {
     const key = this.getTrackingKey(guildId, userId);
     const state = this.tracking.get(key);
 
     if (!state) {
-      return;
+      return false;
+    }
+
+    if (auditReason !== null) {
+      this.recordEvent({
+        guildId,
+        userId,
+        channelId: state.channelId,
+        action: 'stop',
+        reason: auditReason,
+        configSnapshot: null,
+        correlationId: state.correlationId,
+      });
     }
 
     if (state.warningTimer) {
@@ -166,8 +322,75 @@ export class AFKDetectionService {
     }
 
     this.tracking.delete(key);
+    this.removePersistedState(guildId, userId);
+
+    if (state.warned) {
+      this.warningService.clearWarning(guildId, userId, 'dismiss').catch((error) => {
+        this.logger.error({ error, guildId, userId }, 'Failed to dismiss AFK warning');
+      });
+    }
 
     this.logger.debug({ guildId, userId, action: 'timer_stop' }, 'Stopped tracking user');
+    return true;
+  }
+
+  /**
+   * Applies the AFK action to a tracked member straight away, as if their timer
+   * had run out. A moderator asked for it, so observe and warn-only modes and the
+   * kick pause are not consulted.
+   *
+   * @param reason - Shown in Discord's audit log and recorded with the outcome
+   * @returns The outcome, or null when the member is not tracked or has already left voice
+   */
+  async forceAction(guildId: string, userId: string, reason: string): Promise<AFKActionOutcome | null> {
+    const key = this.getTrackingKey(guildId, userId);
+    const state = this.tracking.get(key);
+
+    if (!state) {
+      return null;
+    }
+
+    if (state.warningTimer) {
+      clearTimeout(state.warningTimer);
+    }
+
+    if (state.kickTimer) {
+      clearTimeout(state.kickTimer);
+    }
+
+    this.logger.info({ guildId, userId, channelId: state.channelId, reason }, 'Forcing AFK action');
+
+    const config = this.configService.getConfig(guildId);
+    return this.enforceAFKAction(key, state, config, this.resolvePenalty(state, config), reason);
+  }
+
+  /**
+   * Records a newly granted exemption in the audit log, under the member's current
+   * session when they are tracked.
+   *
+   * @param grantedBy - The granting member as a mention, or who asked for it through the admin API
+   */
+  recordExemptionGrant(exemption: AFKExemption, durationSeconds: number, grantedBy: string): void {
+    const state = this.tracking.get(this.getTrackingKey(exemption.guildId, exemption.userId));
+    const reason = exemption.reason !== null ? `: ${exemption.reason}` : '';
+
+    this.recordEvent({
+      guildId: exemption.guildId,
+      userId: exemption.userId,
+      channelId: state?.channelId ?? null,
+      action: 'exempt',
+      reason: `granted exemption:${exemption.id} for ${durationSeconds}s via ${exemption.source} by ${grantedBy}${reason}`,
+      configSnapshot: null,
+      correlationId: state?.correlationId ?? null,
+    });
+  }
+
+  /**
+   * Forgets the exemption recorded for a member's voice session once they leave or
+   * switch channels, so it is logged again when they next join.
+   */
+  endVoiceSession(guildId: string, userId: string): void {
+    this.recordedExemptions.delete(this.getTrackingKey(guildId, userId));
   }
 
   isTracking(guildId: string, userId: string): boolean {
@@ -175,6 +398,123 @@ export class AFKDetectionService {
     return this.tracking.has(key);
   }
 
+  /**
+   * Looks up a member's running timer without changing it.
+   *
+   * @returns A copy of the timer, or null when the member is not being tracked
+   */
+  getTrackedUser(guildId: string, userId: string): TrackedUser | null {
+    const state = this.tracking.get(this.getTrackingKey(guildId, userId));
+    return state !== undefined ? this.toTrackedUser(state) : null;
+  }
+
+  /**
+   * Lists the running timers in a guild, soonest AFK action first.
+   */
+  getTrackedUsers(guildId: string): TrackedUser[] {
+    const users: TrackedUser[] = [];
+
+    for (const state of this.tracking.values()) {
+      if (state.guildId === guildId) {
+        users.push(this.toTrackedUser(state));
+      }
+    }
+
+    return users.sort((a, b) => a.kickAt - b.kickAt);
+  }
+
+  /**
+   * Rebuilds AFK timers from the database after a restart.
+   *
+   * Must run once the client is ready so guild voice states are cached. Records for
+   * users who are no longer in their tracked channel, or whose channel no longer meets
+   * the tracking threshold, are discarded instead of restored. Voice connections do not
+   * exist yet at this point, so VoiceMonitorService.initialize stops restored timers in
+   * channels it fails to rejoin.
+   */
+  async restoreTracking(): Promise<void> {
+    let records: AFKTrackingRecord[];
+    try {
+      records = this.trackingRepository.findAll();
+    } catch (error) {
+      this.logger.error({ error }, 'Failed to load persisted AFK tracking state');
+      return;
+    }
+
+    const now = Date.now();
+    let restored = 0;
+    let discarded = 0;
+
+    for (const record of records) {
+      const key = this.getTrackingKey(record.guildId, record.userId);
+      if (this.tracking.has(key)) {
+        continue;
+      }
+
+      const staleReason = this.getStaleReason(record);
+      if (staleReason !== null) {
+        this.removePersistedState(record.guildId, record.userId);
+        discarded++;
+
+        if (this.logger.isLevelEnabled('debug')) {
+          this.logger.debug(
+            { guildId: record.guildId, userId: record.userId, channelId: record.channelId, action: 'restore_discard', reason: staleReason },
+            'Discarded persisted AFK tracking state'
+          );
+        }
+        continue;
+      }
+
+      let exemption: AFKExemption | null;
+      try {
+        exemption = this.exemptionRepository?.findActiveByUser(record.guildId, record.userId, now) ?? null;
+      } catch (error) {
+        this.logger.error({ error, guildId: record.guildId, userId: record.userId }, 'Failed to check user exemptions');
+        continue;
+      }
+
+      this.restoreRecord(key, record, now, exemption);
+      restored++;
+    }
+
+    this.logger.info(
+      { action: 'restore_tracking', restored, discarded },
+      'Restored AFK tracking state from database'
+    );
+  }
+
+  /**
+   * Counts tracked users per voice channel in a guild.
+   *
+   * @returns Map of channel ID to number of users currently being timed
+   */
+  getTrackedCountsByChannel(guildId: string): Map<string, number> {
+    const counts = new Map<string, number>();
+
+    for (const state of this.tracking.values()) {
+      if (state.guildId === guildId) {
+        counts.set(state.channelId, (counts.get(state.channelId) ?? 0) + 1);
+      }
+    }
+
+    return counts;
+  }
+
+  /**
+   * Counts tracked users per guild.
+   *
+   * @returns Map of guild ID to number of users currently being timed
+   */
+  getTrackedCountsByGuild(): Map<string, number> {
+    const counts = new Map<string, number>();
+
+    for (const state of this.tracking.values()) {
+      counts.set(state.guildId, (counts.get(state.guildId) ?? 0) + 1);
+    }
+
+    return counts;
+  }
+
   stopAllTrackingForChannel(guildId: string, channelId: string): void {
     const keysToStop: string[] = [];
 
@@ -197,6 +537,25 @@ export class AFKDetectionService {
     );
   }
 
+  /**
+   * Stops every timer in the guild, e.g. when its enforcement schedule window closes.
+   */
+  stopAllTrackingForGuild(guildId: string): void {
+    const userIds: string[] = [];
+
+    for (const state of this.tracking.values()) {
+      if (state.guildId === guildId) {
+        userIds.push(state.userId);
+      }
+    }
+
+    for (const userId of userIds) {
+      this.stopTracking(guildId, userId);
+    }
+
+    this.logger.debug({ guildId, count: userIds.length }, 'Stopped tracking all users in guild');
+  }
+
   async startTrackingAllInChannel(
     guildId: string,
     channelId: string,
@@ -219,14 +578,51 @@ export class AFKDetectionService {
       return;
     }
 
+    const config = this.getChannelConfig(state.guildId, state.channelId);
+
+    if (config.mode === 'observe') {
+      state.warned = true;
+      this.persistWarned(state.guildId, state.userId);
+      this.recordEvent({
+        guildId: state.guildId,
+        userId: state.userId,
+        channelId: state.channelId,
+        action: 'would_warn',
+        reason: null,
+        configSnapshot: this.toConfigSnapshot(config),
+        correlationId: state.correlationId,
+      });
+      this.logger.info(
+        { guildId: state.guildId, userId: state.userId, channelId: state.channelId, mode: config.mode },
+        'AFK warning not sent: guild is in observe mode'
+      );
+      return;
+    }
+
     try {
-      await this.warningService.sendWarning(state.guildId, state.userId, state.channelId);
+      const delivered = await this.warningService.sendWarning(state.guildId, state.userId, state.channelId);
       state.warned = true;
+      this.persistWarned(state.guildId, state.userId);
+
+      this.recordEvent({
+        guildId: state.guildId,
+        userId: state.userId,
+        channelId: state.channelId,
+        action: 'warning',
+        // Which delivery paths reached the member, e.g. dm or dm+channel
+        reason: delivered.length > 0 ? delivered.join('+') : 'undelivered',
+        configSnapshot: this.toConfigSnapshot(config),
+        correlationId: state.correlationId,
+      });
 
       this.logger.info(
         { guildId: state.guildId, userId: state.userId },
         'Warning sent for AFK user'
       );
+
+      if (this.tracking.get(key) === state) {
+        this.scheduleNextStage(key, state, config);
+      }
     } catch (error) {
       this.logger.error(
         { error, guildId: state.guildId, userId: state.userId },
@@ -235,6 +631,24 @@ export class AFKDetectionService {
     }
   }
 
+  /**
+   * Edits the member's warning to show the time left, then schedules the next stage.
+   */
+  private async handleWarningStage(key: string, secondsLeft: number): Promise<void> {
+    const state = this.tracking.get(key);
+
+    if (!state) {
+      return;
+    }
+
+    await this.warningService.updateWarning(state.guildId, state.userId, state.channelId, secondsLeft);
+
+    // Activity while the warning was being edited has already replaced this session
+    if (this.tracking.get(key) === state) {
+      this.scheduleNextStage(key, state, this.getChannelConfig(state.guildId, state.channelId));
+    }
+  }
+
   private async handleKick(key: string): Promise<void> {
     const state = this.tracking.get(key);
 
@@ -242,20 +656,57 @@ export class AFKDetectionService {
       return;
     }
 
+    const config = this.configService.getConfig(state.guildId);
+    if (config.mode !== 'enforce') {
+      this.recordWouldKick(key, state, config);
+      return;
+    }
+
+    const pauseMs = this.rateLimiter.getKickPauseRemainingMs(state.guildId);
+    if (pauseMs > 0) {
+      this.deferKick(key, state, pauseMs);
+      return;
+    }
+
+    await this.enforceAFKAction(key, state, config, this.resolvePenalty(state, config), null);
+  }
+
+  /**
+   * Applies the AFK action, records the outcome and ends tracking.
+   *
+   * @param forcedReason - Set when a moderator forced the action; replaces the templated
+   * Discord audit log reason and is added to the recorded outcome
+   * @returns The outcome, or null when the member had already left voice
+   */
+  private async enforceAFKAction(
+    key: string,
+    state: UserTrackingState,
+    config: GuildSettings,
+    penalty: AFKPenalty,
+    forcedReason: string | null
+  ): Promise<AFKActionOutcome | null> {
+    let outcome: AFKActionOutcome | null = null;
+
     try {
-      this.rateLimiter.recordAction('client.guilds.fetch');
+      this.rateLimiter.recordAction('client.guilds.fetch', state.guildId);
       const guild = await this.client.guilds.fetch(state.guildId);
-      this.rateLimiter.recordAction('guild.members.fetch');
+      this.rateLimiter.recordAction('guild.members.fetch', state.guildId);
       const member = await guild.members.fetch(state.userId);
 
       if (member.voice.channel) {
-        this.rateLimiter.recordAction('voice.disconnect');
-        await member.voice.disconnect('AFK timeout');
-
-        this.logger.info(
-          { guildId: state.guildId, userId: state.userId, channelId: state.channelId },
-          'User disconnected due to AFK timeout'
-        );
+        const messages = renderMessages(this.getChannelConfig(state.guildId, state.channelId), guild.preferredLocale, {
+          user: `<@${state.userId}>`,
+          channel: `<#${state.channelId}>`,
+          serverName: guild.name,
+        });
+        outcome = await this.applyAFKAction(guild, member, state, penalty, forcedReason ?? messages.kickReason);
+        this.recordKickOutcome(state, this.withForcedReason(outcome, forcedReason), penalty);
+        if (outcome.action === 'kick') {
+          await this.recordOffence(state, config, penalty);
+          if (config.kickDmEnabled) {
+            await this.warningService.sendKickDm(member, messages.kickDm);
+          }
+        }
       } else {
         this.logger.debug(
           { guildId: state.guildId, userId: state.userId },
@@ -267,9 +718,501 @@ export class AFKDetectionService {
         { error, guildId: state.guildId, userId: state.userId },
         'Failed to kick AFK user'
       );
+      outcome = {
+        action: 'kick_failed',
+        reason: formatError(error).message,
+        errorCode: getErrorCode(error),
+      };
+      this.recordKickOutcome(state, this.withForcedReason(outcome, forcedReason), penalty);
     } finally {
       this.tracking.delete(key);
+      this.removePersistedState(state.guildId, state.userId);
+      if (state.warned) {
+        await this.warningService.clearWarning(state.guildId, state.userId, 'delete');
+      }
     }
+
+    return outcome;
+  }
+
+  /**
+   * Performs the AFK action chosen for this offence on a member whose timeout expired.
+   *
+   * @param auditReason - Shown in Discord's audit log, from the guild's kick reason template
+   */
+  private async applyAFKAction(
+    guild: Guild,
+    member: GuildMember,
+    state: UserTrackingState,
+    penalty: AFKPenalty,
+    auditReason: string
+  ): Promise<AFKActionOutcome> {
+    const config = this.configService.getConfig(state.guildId);
+    const logContext = { guildId: state.guildId, userId: state.userId, channelId: state.channelId, afkAction: penalty.action };
+
+    // Only pre-check when the bot member is cached; otherwise let Discord reject the request
+    const botMember = guild.members.me;
+    if (botMember) {
+      const missingPermissions = getMissingAFKActionPermissions(botMember, penalty.action);
+      if (missingPermissions.length > 0) {
+        this.logger.warn(
+          { ...logContext, missingPermissions },
+          'Missing permissions for AFK action, skipping'
+        );
+        return {
+          action: 'kick_failed',
+          reason: `missing_permissions: ${missingPermissions.join(', ')}`,
+          errorCode: 'missing_permissions',
+        };
+      }
+    }
+
+    switch (penalty.action) {
+      case 'move':
+        return { action: 'kick', reason: await this.moveToAFKChannel(guild, member, config, auditReason, logContext) };
+      case 'mute':
+        this.rateLimiter.recordAction('voice.setMute', state.guildId);
+        await member.voice.setMute(true, auditReason);
+        this.rateLimiter.recordAction('voice.setDeaf', state.guildId);
+        await member.voice.setDeaf(true, auditReason);
+        this.logger.info(logContext, 'User server-muted and deafened due to AFK timeout');
+        return { action: 'kick', reason: 'mute' };
+      case 'timeout':
+        this.rateLimiter.recordAction('member.timeout', state.guildId);
+        await member.timeout(penalty.memberTimeoutSeconds * 1000, auditReason);
+        this.logger.info(
+          { ...logContext, memberTimeoutSeconds: penalty.memberTimeoutSeconds },
+          'User timed out due to AFK timeout'
+        );
+        return { action: 'kick', reason: 'timeout' };
+      case 'role':
+        if (config.afkRoleId === null) {
+          this.logger.warn(logContext, 'No AFK role configured, skipping AFK action');
+          return { action: 'kick_failed', reason: 'no_afk_role_configured', errorCode: 'no_afk_role_configured' };
+        }
+        this.rateLimiter.recordAction('member.roles.add', state.guildId);
+        await member.roles.add(config.afkRoleId, auditReason);
+        this.logger.info({ ...logContext, roleId: config.afkRoleId }, 'AFK role assigned due to AFK timeout');
+        return { action: 'kick', reason: 'role' };
+      case 'disconnect':
+      default:
+        this.rateLimiter.recordAction('voice.disconnect', state.guildId);
+        await member.voice.disconnect(auditReason);
+        this.logger.info(
+          { guildId: state.guildId, userId: state.userId, channelId: state.channelId },
+          'User disconnected due to AFK timeout'
+        );
+        return { action: 'kick', reason: 'disconnect' };
+    }
+  }
+
+  /**
+   * @returns The action actually taken, for the audit log
+   */
+  private async moveToAFKChannel(
+    guild: Guild,
+    member: GuildMember,
+    config: GuildSettings,
+    auditReason: string,
+    logContext: Record<string, unknown>
+  ): Promise<string> {
+    const targetChannelId = config.afkMoveChannelId ?? guild.afkChannelId;
+
+    if (targetChannelId === null) {
+      this.logger.warn(logContext, 'No AFK channel configured for move action, disconnecting instead');
+      this.rateLimiter.recordAction('voice.disconnect', guild.id);
+      await member.voice.disconnect(auditReason);
+      return 'disconnect (no AFK channel)';
+    }
+
+    if (member.voice.channelId === targetChannelId) {
+      if (this.logger.isLevelEnabled('debug')) {
+        this.logger.debug({ ...logContext, targetChannelId }, 'User already in AFK channel');
+      }
+      return 'move (already in AFK channel)';
+    }
+
+    this.rateLimiter.recordAction('voice.setChannel', guild.id);
+    await member.voice.setChannel(targetChannelId, auditReason);
+    this.logger.info({ ...logContext, targetChannelId }, 'User moved to AFK channel due to AFK timeout');
+    return 'move';
+  }
+
+  /**
+   * Ends a tracking session whose kick timer fired while the guild was not enforcing,
+   * recording the configured AFK action instead of applying it.
+   */
+  private recordWouldKick(key: string, state: UserTrackingState, config: GuildSettings): void {
+    this.tracking.delete(key);
+    this.removePersistedState(state.guildId, state.userId);
+    if (state.warned) {
+      this.warningService.clearWarning(state.guildId, state.userId, 'delete').catch((error) => {
+        this.logger.error({ error, guildId: state.guildId, userId: state.userId }, 'Failed to delete AFK warning');
+      });
+    }
+
+    this.recordEvent({
+      guildId: state.guildId,
+      userId: state.userId,
+      channelId: state.channelId,
+      action: 'would_kick',
+      reason: config.afkAction,
+      configSnapshot: this.toConfigSnapshot(config),
+      correlationId: state.correlationId,
+    });
+    this.logger.info(
+      {
+        guildId: state.guildId,
+        userId: state.userId,
+        channelId: state.channelId,
+        afkAction: config.afkAction,
+        mode: config.mode,
+      },
+      'AFK action not applied: guild is not in enforce mode'
+    );
+  }
+
+  /**
+   * Pushes a due AFK action back while the rate limiter has enforcement paused.
+   * The user stays tracked, so activity in the meantime still resets their timer.
+   */
+  private deferKick(key: string, state: UserTrackingState, delayMs: number): void {
+    state.kickAt = Date.now() + delayMs;
+    this.scheduleTimers(key, state, null, delayMs);
+    this.persistState(state);
+
+    this.logger.warn(
+      { guildId: state.guildId, userId: state.userId, channelId: state.channelId, delayMs, action: 'kick_deferred' },
+      'AFK enforcement paused by rate limiter, deferring action'
+    );
+  }
+
+  private scheduleTimers(
+    key: string,
+    state: UserTrackingState,
+    warningDelayMs: number | null,
+    kickDelayMs: number
+  ): void {
+    const { guildId, userId } = state;
+
+    if (warningDelayMs !== null) {
+      state.warningTimer = setTimeout(() => {
+        this.handleWarning(key).catch((error) => {
+          this.logger.error(
+            { error, key, guildId, userId },
+            'Unhandled error in warning timer callback'
+          );
+        });
+      }, warningDelayMs);
+    }
+
+    state.kickTimer = setTimeout(() => {
+      this.handleKick(key).catch((error) => {
+        this.logger.error(
+          { error, key, guildId, userId },
+          'Unhandled error in kick timer callback'
+        );
+      });
+    }, kickDelayMs);
+  }
+
+  /**
+   * Holds a temporary exemption with a single timer that starts the AFK clock once it
+   * expires. Exemptions can outlast the longest setTimeout delay, so a longer one is
+   * re-checked when that delay runs out.
+   */
+  private scheduleExemptionEnd(key: string, state: UserTrackingState, expiresAt: number): void {
+    const { guildId, userId } = state;
+
+    state.kickTimer = setTimeout(() => {
+      this.restartTracking(guildId, userId).catch((error) => {
+        this.logger.error(
+          { error, key, guildId, userId },
+          'Unhandled error in exemption timer callback'
+        );
+      });
+    }, Math.min(Math.max(0, expiresAt - Date.now()), MAX_TIMER_DELAY_MS));
+  }
+
+  /**
+   * Schedules the next of the guild's warning stages still ahead of the AFK action,
+   * reusing the warning timer so stopping the session cancels it.
+   */
+  private scheduleNextStage(key: string, state: UserTrackingState, config: GuildSettings): void {
+    const { guildId, userId } = state;
+    const secondsLeft = (state.kickAt - Date.now()) / 1000;
+    const nextStage = config.warningStages
+      .filter(stage => stage < config.warningSecondsBefore && stage < secondsLeft)
+      .reduce<number | null>((next, stage) => (next === null || stage > next ? stage : next), null);
+
+    if (nextStage === null) {
+      return;
+    }
+
+    state.warningTimer = setTimeout(() => {
+      this.handleWarningStage(key, nextStage).catch((error) => {
+        this.logger.error(
+          { error, key, guildId, userId },
+          'Unhandled error in warning stage timer callback'
+        );
+      });
+    }, state.kickAt - nextStage * 1000 - Date.now());
+  }
+
+  private restoreRecord(key: string, record: AFKTrackingRecord, now: number, exemption: AFKExemption | null): void {
+    const state: UserTrackingState = {
+      ...record,
+      warningTimer: null,
+      kickTimer: null,
+      correlationId: generateCorrelationId(),
+    };
+
+    if (exemption !== null) {
+      this.scheduleExemptionEnd(key, state, exemption.expiresAt);
+      this.tracking.set(key, state);
+
+      if (this.logger.isLevelEnabled('debug')) {
+        this.logger.debug(
+          { guildId: record.guildId, userId: record.userId, channelId: record.channelId, action: 'timer_restore', exemptionId: exemption.id, expiresAt: exemption.expiresAt },
+          'Restored AFK timer held by a temporary exemption'
+        );
+      }
+      return;
+    }
+
+    const config = this.getChannelConfig(record.guildId, record.channelId);
+
+    // A warning that came due while the bot was offline is sent now, and the kick is
+    // pushed back so the user still gets the full warning window to respond
+    if (!record.warned && record.warningAt <= now) {
+      state.kickAt = Math.max(record.kickAt, now + config.warningSecondsBefore * 1000);
+    }
+
+    const warningDelayMs = record.warned ? null : Math.max(0, record.warningAt - now);
+    const kickDelayMs = Math.max(0, state.kickAt - now);
+
+    this.scheduleTimers(key, state, warningDelayMs, kickDelayMs);
+    this.tracking.set(key, state);
+
+    // The warning messages are not kept across restarts, so the next stage posts a fresh one
+    if (record.warned) {
+      this.scheduleNextStage(key, state, config);
+    }
+
+    if (state.kickAt !== record.kickAt) {
+      this.persistState(state);
+    }
+
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug(
+        { guildId: record.guildId, userId: record.userId, channelId: record.channelId, action: 'timer_restore', warningDelayMs, kickDelayMs },
+        'Restored AFK timer for user'
+      );
+    }
+  }
+
+  private getStaleReason(record: AFKTrackingRecord): string | null {
+    const config = this.getChannelConfig(record.guildId, record.channelId);
+    if (!config.enabled) {
+      return 'monitoring_disabled';
+    }
+
+    const guild = this.client.guilds.cache.get(record.guildId);
+    if (!guild) {
+      return 'guild_unavailable';
+    }
+
+    const channel = guild.voiceStates.cache.get(record.userId)?.channel;
+    if (!channel || channel.id !== record.channelId) {
+      return 'left_channel';
+    }
+
+    if (isExemptChannel(channel, config, guild.afkChannelId)) {
+      return 'channel_exempt';
+    }
+
+    // Helper identities are not in voice yet while timers are restored, so only the primary bot is skipped
+    if (!meetsTrackingThreshold(channel, config, userId => userId === this.client.user?.id)) {
+      return 'below_threshold';
+    }
+
+    return null;
+  }
+
+  private persistState(state: UserTrackingState): void {
+    try {
+      this.trackingRepository.upsert({
+        guildId: state.guildId,
+        userId: state.userId,
+        channelId: state.channelId,
+        startedAt: state.startedAt,
+        warningAt: state.warningAt,
+        kickAt: state.kickAt,
+        warned: state.warned,
+      });
+    } catch (error) {
+      this.logger.error(
+        { error, guildId: state.guildId, userId: state.userId },
+        'Failed to persist AFK tracking state'
+      );
+    }
+  }
+
+  private persistWarned(guildId: string, userId: string): void {
+    try {
+      this.trackingRepository.markWarned(guildId, userId);
+    } catch (error) {
+      this.logger.error({ error, guildId, userId }, 'Failed to persist AFK warning state');
+    }
+  }
+
+  private removePersistedState(guildId: string, userId: string): void {
+    try {
+      this.trackingRepository.delete(guildId, userId);
+    } catch (error) {
+      this.logger.error({ error, guildId, userId }, 'Failed to remove persisted AFK tracking state');
+    }
+  }
+
+  private recordKickOutcome(state: UserTrackingState, outcome: AFKActionOutcome, penalty: AFKPenalty): void {
+    const config = this.configService.getConfig(state.guildId);
+
+    if (outcome.action === 'kick') {
+      this.metrics?.afkActions.inc({ action: penalty.action });
+    } else {
+      this.metrics?.afkActionFailures.inc({ code: outcome.errorCode ?? 'unknown' });
+    }
+
+    const reason = penalty.strikeCount !== null ? `${outcome.reason} (strike ${penalty.strikeCount})` : outcome.reason;
+
+    this.recordEvent({
+      guildId: state.guildId,
+      userId: state.userId,
+      channelId: state.channelId,
+      action: outcome.action,
+      reason,
+      configSnapshot: this.toConfigSnapshot(config),
+      correlationId: state.correlationId,
+    });
+
+    this.modLogService?.log({
+      guildId: state.guildId,
+      userId: state.userId,
+      channelId: state.channelId,
+      outcome: outcome.action,
+      detail: reason,
+      errorCode: outcome.errorCode ?? null,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Writes an exemption hit to the audit and mod logs, once per voice session.
+   */
+  private recordExemption(
+    guildId: string,
+    userId: string,
+    channelId: string,
+    reason: string,
+    detail: string,
+    config: GuildSettings,
+    correlationId: string | null,
+    timestamp: number
+  ): void {
+    const key = this.getTrackingKey(guildId, userId);
+    const marker = `${channelId}:${reason}`;
+    if (this.recordedExemptions.get(key) === marker) {
+      return;
+    }
+    this.recordedExemptions.set(key, marker);
+
+    this.recordEvent({
+      guildId,
+      userId,
+      channelId,
+      action: 'exempt',
+      reason,
+      configSnapshot: this.toConfigSnapshot(config),
+      correlationId,
+    });
+    this.modLogService?.log({
+      guildId,
+      userId,
+      channelId,
+      outcome: 'exempt',
+      detail,
+      errorCode: null,
+      timestamp,
+    });
+  }
+
+  private withForcedReason(outcome: AFKActionOutcome, forcedReason: string | null): AFKActionOutcome {
+    return forcedReason !== null ? { ...outcome, reason: `${outcome.reason} (forced: ${forcedReason})` } : outcome;
+  }
+
+  private resolvePenalty(state: UserTrackingState, config: GuildSettings): AFKPenalty {
+    return this.escalationService?.resolvePenalty(config, state.userId) ?? getBasePenalty(config);
+  }
+
+  /**
+   * Adds a strike for an applied AFK action and alerts moderators when the
+   * escalation step asks for it.
+   */
+  private async recordOffence(state: UserTrackingState, config: GuildSettings, penalty: AFKPenalty): Promise<void> {
+    if (this.escalationService === null || !config.escalationEnabled) {
+      return;
+    }
+
+    this.escalationService.recordStrike(state.guildId, state.userId, state.channelId, penalty.action);
+
+    if (penalty.notify) {
+      await this.escalationService.notifyModerators(config, state.userId, state.channelId, penalty);
+    }
+  }
+
+  /**
+   * Writes to the audit log. Failures are logged and swallowed so auditing
+   * never interferes with enforcement.
+   */
+  private recordEvent(event: NewAFKEvent): void {
+    try {
+      this.eventRepository.insert(event);
+    } catch (error) {
+      this.logger.error(
+        { error, guildId: event.guildId, userId: event.userId, eventAction: event.action },
+        'Failed to record AFK event'
+      );
+    }
+  }
+
+  private toConfigSnapshot(config: GuildSettings): NewAFKEvent['configSnapshot'] {
+    return {
+      enabled: config.enabled,
+      afkTimeoutSeconds: config.afkTimeoutSeconds,
+      warningSecondsBefore: config.warningSecondsBefore,
+      afkAction: config.afkAction,
+      mode: config.mode,
+    };
+  }
+
+  /**
+   * Resolves the effective config for a voice channel, including its category's overrides.
+   */
+  private getChannelConfig(guildId: string, channelId: string): GuildSettings {
+    const channel = this.client.guilds.cache.get(guildId)?.channels.cache.get(channelId);
+    return this.configService.getEffectiveConfig(guildId, channelId, channel?.parentId ?? null);
+  }
+
+  private toTrackedUser(state: UserTrackingState): TrackedUser {
+    return {
+      guildId: state.guildId,
+      userId: state.userId,
+      channelId: state.channelId,
+      warned: state.warned,
+      startedAt: state.startedAt,
+      warningAt: state.warningAt,
+      kickAt: state.kickAt,
+    };
   }
 
   private getTrackingKey(guildId: string, userId: string): string {
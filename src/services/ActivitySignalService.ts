@@ -0,0 +1,125 @@
+import type {
+  ChatInputCommandInteraction,
+  GuildMember,
+  Message,
+  MessageReaction,
+  PartialMessageReaction,
+  PartialUser,
+  User,
+  VoiceState,
+} from 'discord.js';
+import type { Logger } from 'pino';
+import type { ActivitySignal, GuildSettings } from '../database/repositories/GuildSettingsRepository';
+import type { GuildConfigService } from './GuildConfigService';
+import type { AFKDetectionService } from './AFKDetectionService';
+
+/**
+ * Turns activity other than speaking into AFK timer resets, for the signals each
+ * guild has enabled. Event handlers pass in raw Discord events; new sources can
+ * call recordActivity directly.
+ */
+export class ActivitySignalService {
+  private configService: GuildConfigService;
+  private afkDetectionService: AFKDetectionService;
+  private logger: Logger;
+
+  constructor(configService: GuildConfigService, afkDetectionService: AFKDetectionService, logger: Logger) {
+    this.configService = configService;
+    this.afkDetectionService = afkDetectionService;
+    this.logger = logger;
+  }
+
+  /**
+   * Counts a message posted in the author's voice channel chat or a linked text channel.
+   */
+  async handleMessage(message: Message): Promise<void> {
+    if (message.guildId === null || message.author.bot) {
+      return;
+    }
+
+    await this.recordChannelActivity(message.guildId, message.author.id, message.channelId, message.member, 'messages');
+  }
+
+  /**
+   * Counts a reaction added in the reacting member's voice channel chat or a linked text channel.
+   */
+  async handleReaction(reaction: MessageReaction | PartialMessageReaction, user: User | PartialUser): Promise<void> {
+    const guildId = reaction.message.guildId;
+    if (guildId === null || user.bot === true) {
+      return;
+    }
+
+    const member = reaction.message.guild?.members.cache.get(user.id) ?? null;
+    await this.recordChannelActivity(guildId, user.id, reaction.message.channelId, member, 'reactions');
+  }
+
+  /**
+   * Counts camera and screen share toggles. Channel moves are handled by the voice state handler.
+   */
+  async handleVoiceStateChange(oldState: VoiceState, newState: VoiceState): Promise<void> {
+    const userId = newState.id;
+    const guildId = newState.guild.id;
+
+    if (oldState.selfVideo !== newState.selfVideo) {
+      await this.recordActivity(guildId, userId, 'video');
+    }
+
+    if (oldState.streaming !== newState.streaming) {
+      await this.recordActivity(guildId, userId, 'stream');
+    }
+  }
+
+  async handleCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+    if (interaction.guildId === null) {
+      return;
+    }
+
+    await this.recordActivity(interaction.guildId, interaction.user.id, 'commands');
+  }
+
+  /**
+   * Resets the member's AFK timer if the guild counts this signal and the member is being tracked.
+   * Failures are logged and swallowed so a signal never breaks the event that produced it.
+   */
+  async recordActivity(guildId: string, userId: string, signal: ActivitySignal): Promise<void> {
+    try {
+      const config = this.configService.getConfig(guildId);
+      if (!this.isSignalEnabled(config, signal) || !this.afkDetectionService.isTracking(guildId, userId)) {
+        return;
+      }
+
+      if (this.logger.isLevelEnabled('debug')) {
+        this.logger.debug({ guildId, userId, signal, action: 'activity_signal' }, 'Activity signal received, resetting AFK timer');
+      }
+
+      await this.afkDetectionService.resetTimer(guildId, userId, signal);
+    } catch (error) {
+      this.logger.error({ error, guildId, userId, signal }, 'Failed to reset AFK timer from activity signal');
+    }
+  }
+
+  private async recordChannelActivity(
+    guildId: string,
+    userId: string,
+    channelId: string,
+    member: GuildMember | null,
+    signal: ActivitySignal
+  ): Promise<void> {
+    const config = this.configService.getConfig(guildId);
+    if (!this.isSignalEnabled(config, signal)) {
+      return;
+    }
+
+    // A voice channel's built-in chat shares the voice channel's ID
+    const voiceChannelId = member?.voice.channelId ?? null;
+    if (channelId !== voiceChannelId && !config.activityChannelIds.includes(channelId)) {
+      return;
+    }
+
+    await this.recordActivity(guildId, userId, signal);
+  }
+
+  private isSignalEnabled(config: GuildSettings, signal: ActivitySignal): boolean {
+    return config.activitySignals.includes(signal);
+  }
+}
@@ -0,0 +1,177 @@
+import { ChannelType, Client, EmbedBuilder } from 'discord.js';
+import type { Logger } from 'pino';
+import type { AFKAction, EscalationStep, GuildSettings } from '../database/repositories/GuildSettingsRepository';
+import type { AFKStrike, AFKStrikeRepository } from '../database/repositories/AFKStrikeRepository';
+import { RateLimiter } from '../utils/RateLimiter';
+
+/**
+ * The AFK action to apply for one offence, after escalation.
+ */
+export interface AFKPenalty {
+  action: AFKAction;
+  memberTimeoutSeconds: number;
+  notify: boolean;
+  /** The member's strike count including this offence; null when escalation is off */
+  strikeCount: number | null;
+}
+
+/**
+ * The guild's configured AFK action, as applied without escalation.
+ */
+export function getBasePenalty(config: GuildSettings): AFKPenalty {
+  return {
+    action: config.afkAction,
+    memberTimeoutSeconds: config.memberTimeoutSeconds,
+    notify: false,
+    strikeCount: null,
+  };
+}
+
+/**
+ * Picks the highest step whose strike threshold the member has reached.
+ */
+export function selectEscalationStep(steps: EscalationStep[], strikeCount: number): EscalationStep | null {
+  let selected: EscalationStep | null = null;
+  for (const step of steps) {
+    if (step.strikes <= strikeCount && (selected === null || step.strikes > selected.strikes)) {
+      selected = step;
+    }
+  }
+  return selected;
+}
+
+export class EscalationService {
+  private strikeRepository: AFKStrikeRepository;
+  private client: Client;
+  private logger: Logger;
+  private rateLimiter: RateLimiter;
+
+  constructor(
+    strikeRepository: AFKStrikeRepository,
+    client: Client,
+    logger: Logger,
+    rateLimiter: RateLimiter
+  ) {
+    this.strikeRepository = strikeRepository;
+    this.client = client;
+    this.logger = logger;
+    this.rateLimiter = rateLimiter;
+  }
+
+  /**
+   * Works out what to do to a member whose AFK timeout expired, based on the strikes
+   * they collected within the guild's escalation window. Falls back to the guild's
+   * AFK action when escalation is off, no step applies yet, or strikes can't be read.
+   */
+  resolvePenalty(config: GuildSettings, userId: string, now: number = Date.now()): AFKPenalty {
+    const basePenalty = getBasePenalty(config);
+
+    if (!config.escalationEnabled) {
+      return basePenalty;
+    }
+
+    let strikeCount: number;
+    try {
+      strikeCount = this.strikeRepository.countSince(config.guildId, userId, this.getWindowStart(config, now)) + 1;
+    } catch (error) {
+      this.logger.error({ error, guildId: config.guildId, userId }, 'Failed to count AFK strikes, using base AFK action');
+      return basePenalty;
+    }
+
+    const step = selectEscalationStep(config.escalationSteps, strikeCount);
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug(
+        { guildId: config.guildId, userId, strikeCount, stepStrikes: step?.strikes ?? null, action: 'escalation_resolve' },
+        'Resolved escalation step for AFK offence'
+      );
+    }
+
+    if (step === null) {
+      return { ...basePenalty, strikeCount };
+    }
+
+    return {
+      action: step.action,
+      memberTimeoutSeconds: step.memberTimeoutSeconds ?? config.memberTimeoutSeconds,
+      notify: step.notify,
+      strikeCount,
+    };
+  }
+
+  /**
+   * Adds an offence to the member's history. Failures are logged and swallowed
+   * so a database problem never blocks enforcement.
+   */
+  recordStrike(guildId: string, userId: string, channelId: string, action: AFKAction): void {
+    try {
+      this.strikeRepository.insert({ guildId, userId, channelId, action });
+    } catch (error) {
+      this.logger.error({ error, guildId, userId }, 'Failed to record AFK strike');
+    }
+  }
+
+  /**
+   * Returns the strikes that still count toward escalation, newest first.
+   */
+  getActiveStrikes(config: GuildSettings, userId: string, now: number = Date.now()): AFKStrike[] {
+    return this.strikeRepository.findByUser(config.guildId, userId, this.getWindowStart(config, now));
+  }
+
+  /**
+   * @returns The number of strikes removed
+   */
+  clearStrikes(guildId: string, userId: string): number {
+    const cleared = this.strikeRepository.deleteByUser(guildId, userId);
+    this.logger.info({ guildId, userId, cleared }, 'AFK strikes cleared');
+    return cleared;
+  }
+
+  /**
+   * Alerts moderators that a repeat offender reached a notify step. Posts to the
+   * escalation channel, or the warning channel when none is set, mentioning admin roles.
+   */
+  async notifyModerators(config: GuildSettings, userId: string, voiceChannelId: string, penalty: AFKPenalty): Promise<void> {
+    const guildId = config.guildId;
+    const channelId = config.escalationNotifyChannelId ?? config.warningChannelId;
+
+    if (channelId === null) {
+      this.logger.warn({ guildId, userId }, 'No channel configured for escalation notices');
+      return;
+    }
+
+    try {
+      const channel = this.client.guilds.cache.get(guildId)?.channels.cache.get(channelId);
+      if (!channel || channel.type !== ChannelType.GuildText) {
+        this.logger.warn({ guildId, channelId }, 'Escalation notice channel not found or not a text channel');
+        return;
+      }
+
+      const windowDays = Math.round(config.escalationWindowSeconds / 86400);
+      const embed = new EmbedBuilder()
+        .setColor(0xCC0000)
+        .setTitle('Repeat AFK offender')
+        .setDescription(
+          `<@${userId}> was AFK in <#${voiceChannelId}> again: ${penalty.strikeCount ?? 1} strikes in the last ${windowDays} days. Action taken: ${penalty.action}.`
+        )
+        .setTimestamp();
+
+      if (!(await this.rateLimiter.acquire('channel.send', guildId))) {
+        this.logger.warn({ guildId, userId, channelId }, 'Escalation notice dropped due to rate limiting');
+        return;
+      }
+      await channel.send({
+        content: config.adminRoleIds.length > 0 ? config.adminRoleIds.map(roleId => `<@&${roleId}>`).join(' ') : undefined,
+        embeds: [embed],
+        allowedMentions: { roles: config.adminRoleIds },
+      });
+
+      this.logger.info({ guildId, userId, channelId, strikeCount: penalty.strikeCount }, 'Escalation notice sent to moderators');
+    } catch (error) {
+      this.logger.error({ error, guildId, userId, channelId }, 'Failed to send escalation notice');
+    }
+  }
+
+  private getWindowStart(config: GuildSettings, now: number): number {
+    return now - config.escalationWindowSeconds * 1000;
+  }
+}
@@ -0,0 +1,150 @@
+import type { Logger } from 'pino';
+import type {
+  AFKExemption,
+  AFKExemptionRepository,
+  ExemptionSource,
+} from '../database/repositories/AFKExemptionRepository';
+import type { GuildConfigService } from './GuildConfigService';
+import type { AFKDetectionService } from './AFKDetectionService';
+
+/**
+ * Longest exemption a moderator or the admin API can grant (30 days).
+ */
+export const MAX_EXEMPTION_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Shortest and longest duration a member can snooze their own timer for.
+ */
+export const MIN_SNOOZE_SECONDS = 60;
+export const MAX_SNOOZE_SECONDS = 2 * 60 * 60;
+
+/**
+ * Window the snooze daily limit is counted over.
+ */
+export const SNOOZE_LIMIT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface ExemptionGrant {
+  guildId: string;
+  userId: string;
+  durationSeconds: number;
+  source: Exclude<ExemptionSource, 'snooze'>;
+  reason: string | null;
+  grantedBy: string | null;
+  /** Who asked for it when there is no granting member, such as the admin API login */
+  requestedBy?: string;
+}
+
+export type SnoozeResult =
+  | { status: 'snoozed'; exemption: AFKExemption; remaining: number }
+  | { status: 'disabled' }
+  | { status: 'limit_reached'; limit: number };
+
+/**
+ * Grants, lists and revokes temporary per-member exemptions. AFKDetectionService
+ * reads them when starting a timer; this service restarts the member's timer
+ * whenever an exemption starts or ends so the change applies straight away.
+ */
+export class ExemptionService {
+  private exemptionRepository: AFKExemptionRepository;
+  private configService: GuildConfigService;
+  private afkDetectionService: AFKDetectionService;
+  private logger: Logger;
+
+  constructor(
+    exemptionRepository: AFKExemptionRepository,
+    configService: GuildConfigService,
+    afkDetectionService: AFKDetectionService,
+    logger: Logger
+  ) {
+    this.exemptionRepository = exemptionRepository;
+    this.configService = configService;
+    this.afkDetectionService = afkDetectionService;
+    this.logger = logger;
+  }
+
+  async grant(grant: ExemptionGrant, now: number = Date.now()): Promise<AFKExemption> {
+    const exemption = this.exemptionRepository.insert({
+      guildId: grant.guildId,
+      userId: grant.userId,
+      source: grant.source,
+      reason: grant.reason,
+      grantedBy: grant.grantedBy,
+      expiresAt: now + grant.durationSeconds * 1000,
+      createdAt: now,
+    });
+
+    this.logger.info(
+      {
+        guildId: grant.guildId,
+        userId: grant.userId,
+        exemptionId: exemption.id,
+        source: grant.source,
+        grantedBy: grant.grantedBy,
+        durationSeconds: grant.durationSeconds,
+      },
+      'AFK exemption granted'
+    );
+
+    // Tracked members also get an exempt event when their timer restarts, but the
+    // grant itself is recorded whether or not they are in voice
+    this.afkDetectionService.recordExemptionGrant(
+      exemption,
+      grant.durationSeconds,
+      grant.grantedBy !== null ? `<@${grant.grantedBy}>` : grant.requestedBy ?? grant.source
+    );
+    await this.afkDetectionService.restartTracking(grant.guildId, grant.userId);
+    return exemption;
+  }
+
+  /**
+   * Lets a member hold their own AFK clock, up to the guild's daily limit.
+   */
+  async snooze(guildId: string, userId: string, durationSeconds: number, now: number = Date.now()): Promise<SnoozeResult> {
+    const limit = this.configService.getConfig(guildId).snoozeDailyLimit;
+    if (limit === 0) {
+      return { status: 'disabled' };
+    }
+
+    const used = this.exemptionRepository.countBySourceSince(guildId, userId, 'snooze', now - SNOOZE_LIMIT_WINDOW_MS);
+    if (used >= limit) {
+      if (this.logger.isLevelEnabled('debug')) {
+        this.logger.debug({ guildId, userId, used, limit, action: 'snooze_limit' }, 'Snooze refused, daily limit reached');
+      }
+      return { status: 'limit_reached', limit };
+    }
+
+    const exemption = this.exemptionRepository.insert({
+      guildId,
+      userId,
+      source: 'snooze',
+      reason: null,
+      grantedBy: userId,
+      expiresAt: now + durationSeconds * 1000,
+      createdAt: now,
+    });
+
+    this.logger.info({ guildId, userId, exemptionId: exemption.id, durationSeconds }, 'AFK timer snoozed');
+
+    await this.afkDetectionService.restartTracking(guildId, userId);
+    return { status: 'snoozed', exemption, remaining: limit - used - 1 };
+  }
+
+  getActiveExemptions(guildId: string, now: number = Date.now()): AFKExemption[] {
+    return this.exemptionRepository.findActiveByGuild(guildId, now);
+  }
+
+  /**
+   * Ends every active exemption the member has, including snoozes.
+   *
+   * @returns The number of exemptions ended
+   */
+  async revoke(guildId: string, userId: string, now: number = Date.now()): Promise<number> {
+    const revoked = this.exemptionRepository.expireByUser(guildId, userId, now);
+    this.logger.info({ guildId, userId, revoked }, 'AFK exemptions revoked');
+
+    if (revoked > 0) {
+      await this.afkDetectionService.restartTracking(guildId, userId);
+    }
+    return revoked;
+  }
+}
@@ -1,6 +1,12 @@
 import { GuildSettingsRepository, type GuildSettings } from '../database/repositories/GuildSettingsRepository';
+import type {
+  ChannelOverrideRepository,
+  ChannelOverride,
+  ChannelOverrideFields,
+} from '../database/repositories/ChannelOverrideRepository';
 import type { Logger } from 'pino';
 import { formatError } from '../utils/errorUtils';
+import type { BotMetrics } from '../utils/metrics';
 
 const DEFAULT_CONFIG: Omit<GuildSettings, 'guildId' | 'createdAt' | 'updatedAt'> = {
   enabled: false,
@@ -9,6 +15,32 @@ const DEFAULT_CONFIG: Omit<GuildSettings, 'guildId' | 'createdAt' | 'updatedAt'>
   warningChannelId: null,
   exemptRoleIds: [],
   adminRoleIds: [],
+  afkAction: 'disconnect',
+  afkMoveChannelId: null,
+  afkRoleId: null,
+  memberTimeoutSeconds: 600,
+  mode: 'enforce',
+  escalationEnabled: false,
+  escalationWindowSeconds: 7 * 24 * 60 * 60,
+  escalationSteps: [],
+  escalationNotifyChannelId: null,
+  activitySignals: [],
+  activityChannelIds: [],
+  scheduleTimeZone: 'UTC',
+  scheduleType: 'active',
+  scheduleWindows: [],
+  minUsersForTracking: 2,
+  countDeafenedUsers: true,
+  countBots: false,
+  snoozeDailyLimit: 3,
+  exemptChannelIds: [],
+  messageLocale: null,
+  messageTemplates: {},
+  kickDmEnabled: false,
+  warningDelivery: 'channel',
+  warningStages: [],
+  warningChimeEnabled: false,
+  modLogChannelId: null,
 };
 
 /**
@@ -64,12 +96,28 @@ class LRUCache<K, V> {
 export class GuildConfigService {
   private repository: GuildSettingsRepository;
   private cache: LRUCache<string, GuildSettings>;
+  private overrideRepository: ChannelOverrideRepository | null;
+  private overrideCache: LRUCache<string, ChannelOverride[]>;
   private logger: Logger;
+  private metrics: BotMetrics | null;
 
-  constructor(repository: GuildSettingsRepository, logger: Logger, maxCacheSize: number = 1000) {
+  /**
+   * @param overrideRepository - Source of per-channel overrides; without it every channel uses the guild config
+   * @param metrics - Receives config cache hit/miss counts when provided
+   */
+  constructor(
+    repository: GuildSettingsRepository,
+    logger: Logger,
+    maxCacheSize: number = 1000,
+    overrideRepository: ChannelOverrideRepository | null = null,
+    metrics: BotMetrics | null = null
+  ) {
     this.repository = repository;
     this.logger = logger;
     this.cache = new LRUCache(maxCacheSize);
+    this.overrideRepository = overrideRepository;
+    this.overrideCache = new LRUCache(maxCacheSize);
+    this.metrics = metrics;
   }
 
   /**
@@ -84,16 +132,28 @@ export class GuildConfigService {
       ...config,
       afkTimeoutSeconds: config.afkTimeoutSeconds ?? DEFAULT_CONFIG.afkTimeoutSeconds,
       warningSecondsBefore: config.warningSecondsBefore ?? DEFAULT_CONFIG.warningSecondsBefore,
+      afkAction: config.afkAction ?? DEFAULT_CONFIG.afkAction,
+      memberTimeoutSeconds: config.memberTimeoutSeconds ?? DEFAULT_CONFIG.memberTimeoutSeconds,
+      mode: config.mode ?? DEFAULT_CONFIG.mode,
+      escalationWindowSeconds: config.escalationWindowSeconds ?? DEFAULT_CONFIG.escalationWindowSeconds,
+      scheduleTimeZone: config.scheduleTimeZone ?? DEFAULT_CONFIG.scheduleTimeZone,
+      scheduleType: config.scheduleType ?? DEFAULT_CONFIG.scheduleType,
+      minUsersForTracking: config.minUsersForTracking ?? DEFAULT_CONFIG.minUsersForTracking,
+      snoozeDailyLimit: config.snoozeDailyLimit ?? DEFAULT_CONFIG.snoozeDailyLimit,
+      warningDelivery: config.warningDelivery ?? DEFAULT_CONFIG.warningDelivery,
     };
   }
 
   getConfig(guildId: string): GuildSettings {
     const cached = this.cache.get(guildId);
     if (cached) {
+      this.metrics?.configCacheLookups.inc({ result: 'hit' });
       this.logger.debug({ guildId, action: 'cache_hit' }, 'Config retrieved from cache');
       return cached;
     }
 
+    this.metrics?.configCacheLookups.inc({ result: 'miss' });
+
     const fromDatabase = this.repository.findByGuildId(guildId);
     if (fromDatabase) {
       this.logger.debug({ guildId, action: 'cache_miss', source: 'database' }, 'Config loaded from database');
@@ -113,6 +173,113 @@ export class GuildConfigService {
     return defaultConfig;
   }
 
+  /**
+   * Resolves the config that applies to a specific voice channel.
+   * Precedence: channel override, then category override, then guild config.
+   *
+   * @param parentId - The channel's category, if any
+   */
+  getEffectiveConfig(guildId: string, channelId: string, parentId: string | null = null): GuildSettings {
+    const guildConfig = this.getConfig(guildId);
+    const overrides = this.getChannelOverrides(guildId);
+    if (overrides.length === 0) {
+      return guildConfig;
+    }
+
+    const categoryOverride = parentId !== null
+      ? overrides.find(override => override.channelId === parentId)
+      : undefined;
+    const channelOverride = overrides.find(override => override.channelId === channelId);
+
+    let effective = guildConfig;
+    for (const override of [categoryOverride, channelOverride]) {
+      if (override) {
+        effective = {
+          ...effective,
+          enabled: override.enabled ?? effective.enabled,
+          afkTimeoutSeconds: override.afkTimeoutSeconds ?? effective.afkTimeoutSeconds,
+          warningSecondsBefore: override.warningSecondsBefore ?? effective.warningSecondsBefore,
+          warningChannelId: override.warningChannelId ?? effective.warningChannelId,
+        };
+      }
+    }
+
+    if (this.logger.isLevelEnabled('debug') && effective !== guildConfig) {
+      this.logger.debug(
+        {
+          guildId,
+          channelId,
+          parentId,
+          action: 'override_resolve',
+          channelOverride: channelOverride !== undefined,
+          categoryOverride: categoryOverride !== undefined,
+        },
+        'Applied channel overrides to guild config'
+      );
+    }
+
+    return effective;
+  }
+
+  getChannelOverrides(guildId: string): ChannelOverride[] {
+    if (!this.overrideRepository) {
+      return [];
+    }
+
+    const cached = this.overrideCache.get(guildId);
+    if (cached) {
+      return cached;
+    }
+
+    const overrides = this.overrideRepository.findByGuildId(guildId);
+    this.overrideCache.set(guildId, overrides);
+    return overrides;
+  }
+
+  setChannelOverride(
+    guildId: string,
+    channelId: string,
+    updates: Partial<ChannelOverrideFields>
+  ): ChannelOverride {
+    if (!this.overrideRepository) {
+      throw new Error('Channel overrides are not available');
+    }
+
+    try {
+      this.overrideRepository.upsert({ guildId, channelId, ...updates });
+    } catch (error) {
+      this.logger.error({ error, guildId, channelId, updates }, 'Failed to upsert channel override to database');
+      throw new Error(
+        `Failed to update channel override for channel ${channelId}: ${formatError(error).message}`
+      );
+    }
+
+    this.overrideCache.delete(guildId);
+    const updated = this.getChannelOverrides(guildId).find(override => override.channelId === channelId);
+    if (!updated) {
+      throw new Error(`Failed to retrieve updated override for channel ${channelId}`);
+    }
+
+    this.logger.info({ guildId, channelId, updates }, 'Channel override updated');
+    return updated;
+  }
+
+  /**
+   * @returns false when the channel had no override
+   */
+  removeChannelOverride(guildId: string, channelId: string): boolean {
+    if (!this.overrideRepository) {
+      return false;
+    }
+
+    const removed = this.overrideRepository.delete(guildId, channelId);
+    this.overrideCache.delete(guildId);
+    if (removed) {
+      this.logger.info({ guildId, channelId }, 'Channel override removed');
+    }
+    return removed;
+  }
+
   updateConfig(guildId: string, updates: Partial<GuildSettings>): GuildSettings {
     try {
       this.repository.upsert({
@@ -137,20 +304,24 @@ export class GuildConfigService {
   }
 
   /**
-   * Resets a guild's configuration to defaults by deleting it from the database.
-   * The next getConfig() call will return default values.
+   * Resets a guild's configuration to defaults by deleting it and its channel
+   * overrides from the database. The next getConfig() call will return default values.
    */
   resetConfig(guildId: string): void {
     this.repository.delete(guildId);
+    this.overrideRepository?.deleteByGuildId(guildId);
     this.cache.delete(guildId);
+    this.overrideCache.delete(guildId);
     this.logger.info({ guildId }, 'Guild config reset to defaults');
   }
 
   clearCache(guildId?: string): void {
     if (guildId) {
       this.cache.delete(guildId);
+      this.overrideCache.delete(guildId);
     } else {
       this.cache.clear();
+      this.overrideCache.clear();
     }
   }
 
@@ -160,6 +331,7 @@ export class GuildConfigService {
    */
   onGuildDelete(guildId: string): void {
     this.cache.delete(guildId);
+    this.overrideCache.delete(guildId);
     this.logger.debug({ guildId }, 'Cleared guild config cache on guild delete');
   }
 }
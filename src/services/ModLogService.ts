@@ -0,0 +1,224 @@
+import { ChannelType, Client, EmbedBuilder } from 'discord.js';
+import type { Logger } from 'pino';
+import { GuildConfigService } from './GuildConfigService';
+import { RateLimiter } from '../utils/RateLimiter';
+
+/** How long entries are collected before they are posted together */
+export const MOD_LOG_BATCH_MS = 5_000;
+/** Longest shutdown waits for queued entries to be posted */
+export const MOD_LOG_STOP_TIMEOUT_MS = 3_000;
+/** Discord's limit on embeds per message; larger batches are posted as one summary */
+const MAX_EMBEDS_PER_MESSAGE = 10;
+/** Entries kept per guild while posting is held back; older ones are counted but not shown */
+const MAX_QUEUED_ENTRIES = 50;
+const MAX_DESCRIPTION_LENGTH = 4096;
+
+/**
+ * One AFK enforcement outcome, using the same actions as the audit log.
+ */
+export interface ModLogEntry {
+  guildId: string;
+  userId: string;
+  channelId: string;
+  outcome: 'kick' | 'kick_failed' | 'exempt';
+  /** The action taken, why it failed or which exemption matched */
+  detail: string;
+  /** Discord API error code or bot-side reason, for failures */
+  errorCode: string | null;
+  timestamp: number;
+}
+
+interface GuildBatch {
+  entries: ModLogEntry[];
+  omitted: number;
+  timer: NodeJS.Timeout;
+}
+
+const OUTCOME_TITLES: Record<ModLogEntry['outcome'], string> = {
+  kick: 'AFK action applied',
+  kick_failed: 'AFK action failed',
+  exempt: 'AFK exemption matched',
+};
+
+const OUTCOME_COLORS: Record<ModLogEntry['outcome'], number> = {
+  kick: 0xFFA500,
+  kick_failed: 0xCC0000,
+  exempt: 0x808080,
+};
+
+function describeEntry(entry: ModLogEntry): string {
+  const code = entry.errorCode !== null ? ` (code ${entry.errorCode})` : '';
+  return `<@${entry.userId}> in <#${entry.channelId}>: ${entry.detail}${code}`;
+}
+
+/**
+ * Posts AFK enforcement outcomes to a guild's mod log channel.
+ *
+ * Entries are batched per guild so a burst of kicks becomes one message, and
+ * posting waits while the guild's enforcement is paused by the rate limiter.
+ */
+export class ModLogService {
+  private configService: GuildConfigService;
+  private client: Client;
+  private logger: Logger;
+  private rateLimiter: RateLimiter;
+  private batches: Map<string, GuildBatch>;
+
+  constructor(
+    configService: GuildConfigService,
+    client: Client,
+    logger: Logger,
+    rateLimiter: RateLimiter
+  ) {
+    this.configService = configService;
+    this.client = client;
+    this.logger = logger;
+    this.rateLimiter = rateLimiter;
+    this.batches = new Map();
+  }
+
+  /**
+   * Queues an outcome for the guild's mod log. Does nothing when the guild has no
+   * mod log channel.
+   */
+  log(entry: ModLogEntry): void {
+    if (this.configService.getConfig(entry.guildId).modLogChannelId === null) {
+      return;
+    }
+
+    const batch = this.batches.get(entry.guildId);
+    if (batch === undefined) {
+      this.batches.set(entry.guildId, {
+        entries: [entry],
+        omitted: 0,
+        timer: setTimeout(() => void this.flush(entry.guildId), MOD_LOG_BATCH_MS),
+      });
+      return;
+    }
+
+    batch.entries.push(entry);
+    if (batch.entries.length > MAX_QUEUED_ENTRIES) {
+      batch.entries.shift();
+      batch.omitted++;
+    }
+  }
+
+  /**
+   * Posts every queued batch straight away, even for guilds whose enforcement is
+   * paused, then cancels pending posts. Waits at most MOD_LOG_STOP_TIMEOUT_MS so
+   * a slow Discord never holds up shutdown.
+   */
+  async stop(): Promise<void> {
+    const guildIds = Array.from(this.batches.keys());
+    for (const batch of this.batches.values()) {
+      clearTimeout(batch.timer);
+    }
+
+    if (guildIds.length > 0) {
+      let timeout: NodeJS.Timeout | undefined;
+      const timedOut = await Promise.race([
+        Promise.all(guildIds.map(guildId => this.flush(guildId, true))).then(() => false),
+        new Promise<boolean>(resolve => {
+          timeout = setTimeout(() => resolve(true), MOD_LOG_STOP_TIMEOUT_MS);
+        }),
+      ]);
+      clearTimeout(timeout);
+
+      if (timedOut) {
+        this.logger.warn({ guilds: guildIds.length }, 'Mod log entries not posted before shutdown');
+      }
+    }
+
+    for (const batch of this.batches.values()) {
+      clearTimeout(batch.timer);
+    }
+    this.batches.clear();
+  }
+
+  /**
+   * @param ignorePause - Post even while the guild's enforcement is paused, for shutdown
+   */
+  private async flush(guildId: string, ignorePause = false): Promise<void> {
+    const batch = this.batches.get(guildId);
+    if (batch === undefined) {
+      return;
+    }
+
+    // Posting now would add to the activity that paused the guild, so wait it out
+    const pauseMs = ignorePause ? 0 : this.rateLimiter.getKickPauseRemainingMs(guildId);
+    if (pauseMs > 0) {
+      if (this.logger.isLevelEnabled('debug')) {
+        this.logger.debug({ guildId, pauseMs, queued: batch.entries.length }, 'Mod log held while enforcement is paused');
+      }
+      batch.timer = setTimeout(() => void this.flush(guildId), pauseMs);
+      return;
+    }
+
+    this.batches.delete(guildId);
+
+    const channelId = this.configService.getConfig(guildId).modLogChannelId;
+    if (channelId === null) {
+      return;
+    }
+
+    try {
+      const channel = this.client.guilds.cache.get(guildId)?.channels.cache.get(channelId);
+      if (!channel || channel.type !== ChannelType.GuildText) {
+        this.logger.warn({ guildId, channelId }, 'Mod log channel not found or not a text channel');
+        return;
+      }
+
+      if (!(await this.rateLimiter.acquire('channel.send', guildId))) {
+        this.logger.warn({ guildId, channelId, dropped: batch.entries.length + batch.omitted }, 'Mod log entries dropped due to rate limiting');
+        return;
+      }
+      await channel.send({ embeds: this.buildEmbeds(batch), allowedMentions: { parse: [] } });
+
+      this.logger.info({ guildId, channelId, entries: batch.entries.length + batch.omitted }, 'Mod log entries posted');
+    } catch (error) {
+      this.logger.error({ error, guildId, channelId }, 'Failed to post mod log entries');
+    }
+  }
+
+  private buildEmbeds(batch: GuildBatch): EmbedBuilder[] {
+    if (batch.omitted === 0 && batch.entries.length <= MAX_EMBEDS_PER_MESSAGE) {
+      return batch.entries.map(entry => {
+        const embed = new EmbedBuilder()
+          .setColor(OUTCOME_COLORS[entry.outcome])
+          .setTitle(OUTCOME_TITLES[entry.outcome])
+          .setDescription(`<@${entry.userId}> in <#${entry.channelId}>: ${entry.detail}`)
+          .setTimestamp(entry.timestamp);
+        if (entry.errorCode !== null) {
+          embed.addFields({ name: 'Error code', value: entry.errorCode, inline: true });
+        }
+        return embed;
+      });
+    }
+
+    const lines: string[] = [];
+    let length = 0;
+    let hidden = batch.omitted;
+    for (const [index, entry] of batch.entries.entries()) {
+      const line = `<t:${Math.floor(entry.timestamp / 1000)}:T> **${OUTCOME_TITLES[entry.outcome]}** ${describeEntry(entry)}`;
+      // Leave room for the closing "and N more" line
+      if (length + line.length + 1 > MAX_DESCRIPTION_LENGTH - 32) {
+        hidden += batch.entries.length - index;
+        break;
+      }
+      lines.push(line);
+      length += line.length + 1;
+    }
+    if (hidden > 0) {
+      lines.push(`…and ${hidden} more`);
+    }
+
+    const failures = batch.entries.filter(entry => entry.outcome === 'kick_failed').length;
+    return [
+      new EmbedBuilder()
+        .setColor(failures > 0 ? OUTCOME_COLORS.kick_failed : OUTCOME_COLORS.kick)
+        .setTitle(`${batch.entries.length + batch.omitted} AFK enforcement outcomes`)
+        .setDescription(lines.join('\n'))
+        .setTimestamp(),
+    ];
+  }
+}
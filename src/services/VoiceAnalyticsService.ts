@@ -0,0 +1,222 @@
+import type { Client, VoiceState } from 'discord.js';
+import type { Logger } from 'pino';
+import type { VoiceActivityDelta, VoiceActivityRepository } from '../database/repositories/VoiceActivityRepository';
+import type { SpeakingTracker } from '../voice/SpeakingTracker';
+
+/** How often open intervals are credited and buffered activity is written to the database */
+export const ANALYTICS_FLUSH_INTERVAL_MS = 60_000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The UTC date an instant falls on, as stored in the rollups.
+ */
+export function toActivityDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+interface OpenInterval {
+  guildId: string;
+  userId: string;
+  channelId: string;
+  since: number;
+}
+
+type ActivityField = 'speakingMs' | 'presentMs' | 'speakingSessions';
+
+/**
+ * Turns speaking events and voice presence into per-member, per-channel daily rollups.
+ *
+ * Presence is only recorded while the bot is connected to a channel, since that is
+ * the only place it can hear who speaks; time present but not speaking is silent time.
+ * Activity is buffered in memory and written once a minute.
+ */
+export class VoiceAnalyticsService {
+  private repository: VoiceActivityRepository;
+  private speakingTracker: SpeakingTracker;
+  private client: Client;
+  private logger: Logger;
+  /** Open presence intervals, keyed by guild and member */
+  private presence = new Map<string, OpenInterval>();
+  /** Open speaking sessions, keyed by guild and member */
+  private speaking = new Map<string, OpenInterval>();
+  /** Activity not yet written, keyed by guild, day, member and channel */
+  private pending = new Map<string, VoiceActivityDelta>();
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    repository: VoiceActivityRepository,
+    speakingTracker: SpeakingTracker,
+    client: Client,
+    logger: Logger
+  ) {
+    this.repository = repository;
+    this.speakingTracker = speakingTracker;
+    this.client = client;
+    this.logger = logger;
+  }
+
+  start(): void {
+    if (this.flushTimer !== null) {
+      return;
+    }
+
+    this.flushTimer = setInterval(() => this.flush(), ANALYTICS_FLUSH_INTERVAL_MS);
+  }
+
+  /**
+   * Stops the flush timer and writes everything recorded so far, crediting open
+   * intervals up to now.
+   */
+  stop(): void {
+    if (this.flushTimer !== null) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    this.flush();
+  }
+
+  /**
+   * Starts presence for everyone already in a channel the bot just connected to.
+   */
+  handleConnectionOpened(guildId: string, channelId: string, now: number = Date.now()): void {
+    const channel = this.client.guilds.cache.get(guildId)?.channels.cache.get(channelId);
+    if (channel === undefined || !channel.isVoiceBased()) {
+      return;
+    }
+
+    for (const member of channel.members.values()) {
+      if (!member.user.bot) {
+        this.openPresence(guildId, member.id, channelId, now);
+      }
+    }
+  }
+
+  /**
+   * Ends presence for everyone in a channel the bot is no longer connected to.
+   */
+  handleConnectionClosed(channelId: string, now: number = Date.now()): void {
+    for (const [key, interval] of this.presence) {
+      if (interval.channelId === channelId) {
+        this.closePresence(key, now);
+      }
+    }
+  }
+
+  /**
+   * Follows members joining, leaving and switching voice channels.
+   */
+  handleVoiceStateChange(oldState: VoiceState, newState: VoiceState, now: number = Date.now()): void {
+    const member = newState.member ?? oldState.member;
+    if (member === null || member.user.bot || oldState.channelId === newState.channelId) {
+      return;
+    }
+
+    const guildId = newState.guild.id;
+    this.closePresence(this.getKey(guildId, member.id), now);
+
+    if (newState.channelId !== null && this.speakingTracker.hasConnection(newState.channelId)) {
+      this.openPresence(guildId, member.id, newState.channelId, now);
+    }
+  }
+
+  handleSpeakingStart(guildId: string, userId: string, channelId: string, now: number = Date.now()): void {
+    const key = this.getKey(guildId, userId);
+
+    // Only members whose presence is being recorded count, which leaves out bots
+    if (this.presence.get(key)?.channelId !== channelId || this.speaking.has(key)) {
+      return;
+    }
+
+    this.speaking.set(key, { guildId, userId, channelId, since: now });
+    this.add(guildId, userId, channelId, toActivityDay(now), 'speakingSessions', 1);
+  }
+
+  handleSpeakingEnd(guildId: string, userId: string, now: number = Date.now()): void {
+    const key = this.getKey(guildId, userId);
+    const session = this.speaking.get(key);
+    if (session === undefined) {
+      return;
+    }
+
+    this.credit(session, now, 'speakingMs');
+    this.speaking.delete(key);
+  }
+
+  /**
+   * Credits open intervals up to now and writes all buffered activity. A failed
+   * write is logged and its activity dropped, so the buffer cannot grow without bound.
+   */
+  flush(now: number = Date.now()): void {
+    for (const interval of this.presence.values()) {
+      this.credit(interval, now, 'presentMs');
+      interval.since = now;
+    }
+    for (const session of this.speaking.values()) {
+      this.credit(session, now, 'speakingMs');
+      session.since = now;
+    }
+
+    if (this.pending.size === 0) {
+      return;
+    }
+
+    const deltas = Array.from(this.pending.values());
+    this.pending.clear();
+
+    try {
+      this.repository.addActivity(deltas);
+    } catch (error) {
+      this.logger.error({ error, rows: deltas.length }, 'Failed to write voice activity rollups');
+    }
+  }
+
+  private openPresence(guildId: string, userId: string, channelId: string, now: number): void {
+    const key = this.getKey(guildId, userId);
+    if (this.presence.get(key)?.channelId === channelId) {
+      return;
+    }
+
+    this.closePresence(key, now);
+    this.presence.set(key, { guildId, userId, channelId, since: now });
+  }
+
+  private closePresence(key: string, now: number): void {
+    const interval = this.presence.get(key);
+    if (interval === undefined) {
+      return;
+    }
+
+    this.handleSpeakingEnd(interval.guildId, interval.userId, now);
+    this.credit(interval, now, 'presentMs');
+    this.presence.delete(key);
+  }
+
+  /**
+   * Adds the time from interval.since to now, split at UTC midnight so each day
+   * gets its own share.
+   */
+  private credit(interval: OpenInterval, now: number, field: ActivityField): void {
+    let start = interval.since;
+    while (start < now) {
+      const end = Math.min(now, (Math.floor(start / DAY_MS) + 1) * DAY_MS);
+      this.add(interval.guildId, interval.userId, interval.channelId, toActivityDay(start), field, end - start);
+      start = end;
+    }
+  }
+
+  private add(guildId: string, userId: string, channelId: string, day: string, field: ActivityField, amount: number): void {
+    const key = `${guildId}:${day}:${userId}:${channelId}`;
+    let delta = this.pending.get(key);
+    if (delta === undefined) {
+      delta = { guildId, userId, channelId, day, speakingMs: 0, presentMs: 0, speakingSessions: 0 };
+      this.pending.set(key, delta);
+    }
+    delta[field] += amount;
+  }
+
+  private getKey(guildId: string, userId: string): string {
+    return `${guildId}:${userId}`;
+  }
+}
@@ -2,17 +2,25 @@ import { VoiceBasedChannel, Client, Guild } from 'discord.js';
 import { Logger } from 'pino';
 import { VoiceConnectionManager } from '../voice/VoiceConnectionManager';
 import { GuildConfigService } from './GuildConfigService';
-import { MIN_USERS_FOR_AFK_TRACKING } from './AFKDetectionService';
+import { AFKDetectionService } from './AFKDetectionService';
 import { RateLimiter } from '../utils/RateLimiter';
 import { formatError } from '../utils/errorUtils';
+import { isWithinSchedule, SCHEDULE_CHECK_INTERVAL_MS } from '../utils/schedule';
+import { countThresholdMembers } from '../utils/trackingThreshold';
+import { isExemptChannel } from '../utils/exemptChannels';
 
 export class VoiceMonitorService {
+  /** Whether each scheduled guild was inside its enforcement schedule at the last check */
+  private scheduleStates = new Map<string, boolean>();
+  private scheduleTimer: NodeJS.Timeout | null = null;
+
   constructor(
     private connectionManager: VoiceConnectionManager,
     private guildConfig: GuildConfigService,
     private client: Client,
     private logger: Logger,
-    private rateLimiter: RateLimiter
+    private rateLimiter: RateLimiter,
+    private afkDetection: AFKDetectionService
   ) {}
 
   async handleUserJoin(channel: VoiceBasedChannel): Promise<void> {
@@ -27,7 +35,7 @@ export class VoiceMonitorService {
       );
     }
 
-    const config = this.guildConfig.getConfig(guildId);
+    const config = this.guildConfig.getEffectiveConfig(guildId, channelId, channel.parentId);
     if (!config.enabled) {
       if (this.logger.isLevelEnabled('debug')) {
         this.logger.debug({ guildId, channelId }, 'Guild monitoring not enabled');
@@ -35,7 +43,21 @@ export class VoiceMonitorService {
       return;
     }
 
-    const isAlreadyInChannel = this.connectionManager.hasConnection(guildId);
+    if (isExemptChannel(channel, config, channel.guild.afkChannelId)) {
+      if (this.logger.isLevelEnabled('debug')) {
+        this.logger.debug({ guildId, channelId }, 'Channel is exempt from AFK handling, not joining');
+      }
+      return;
+    }
+
+    if (!isWithinSchedule(config)) {
+      if (this.logger.isLevelEnabled('debug')) {
+        this.logger.debug({ guildId, channelId }, 'Outside enforcement schedule, not joining');
+      }
+      return;
+    }
+
+    const isAlreadyInChannel = this.connectionManager.hasChannelConnection(channelId);
     if (isAlreadyInChannel) {
       if (this.logger.isLevelEnabled('debug')) {
         this.logger.debug({ guildId, channelId }, 'Bot already in this channel');
@@ -43,6 +65,13 @@ export class VoiceMonitorService {
       return;
     }
 
+    if (!this.connectionManager.hasAvailableIdentity(guildId)) {
+      if (this.logger.isLevelEnabled('debug')) {
+        this.logger.debug({ guildId, channelId }, 'No voice identity available, channel not monitored');
+      }
+      return;
+    }
+
     this.logger.info({ guildId, channelId }, 'Joining voice channel');
     await this.connectionManager.joinChannel(channel);
   }
@@ -64,23 +93,50 @@ export class VoiceMonitorService {
     }
 
     this.logger.info({ guildId, channelId }, 'Channel empty, leaving voice channel');
-    await this.connectionManager.leaveChannel(guildId);
+    this.connectionManager.leaveChannel(channelId);
+  }
+
+  /**
+   * Returns true if the user is one of the bot's own voice identities, which never
+   * count toward a guild's minimum-user threshold.
+   */
+  isVoiceIdentity(userId: string): boolean {
+    return this.connectionManager.isVoiceIdentity(userId);
+  }
+
+  /**
+   * Returns true if the bot is connected to the channel and can hear who is speaking.
+   * Channels it could not join, for lack of a free voice identity or a failed join,
+   * must not be tracked.
+   */
+  hasChannelConnection(channelId: string): boolean {
+    return this.connectionManager.hasChannelConnection(channelId);
   }
 
   async scanGuild(guild: Guild): Promise<void> {
     try {
       const guildId = guild.id;
       const config = this.guildConfig.getConfig(guildId);
+      const hasEnabledOverride = this.guildConfig
+        .getChannelOverrides(guildId)
+        .some(override => override.enabled === true);
 
-      if (!config.enabled) {
+      if (!config.enabled && !hasEnabledOverride) {
         if (this.logger.isLevelEnabled('debug')) {
           this.logger.debug({ guildId }, 'Guild monitoring not enabled, skipping scan');
         }
         return;
       }
 
+      if (!isWithinSchedule(config)) {
+        if (this.logger.isLevelEnabled('debug')) {
+          this.logger.debug({ guildId }, 'Outside enforcement schedule, skipping scan');
+        }
+        return;
+      }
+
       // Fetch all channels in the guild
-      this.rateLimiter.recordAction('guild.channels.fetch');
+      this.rateLimiter.recordAction('guild.channels.fetch', guildId);
       const channels = await guild.channels.fetch();
 
       const voiceChannelCount = channels.filter(
@@ -94,12 +150,14 @@ export class VoiceMonitorService {
         );
       }
 
-      // Filter to voice-based channels with 2+ non-bot members
+      // Filter to voice-based channels that meet the guild's minimum-user threshold
       const eligibleChannels = channels.filter((channel): channel is VoiceBasedChannel => {
         if (channel === null) return false;
         if (!channel.isVoiceBased()) return false;
-        const nonBotCount = channel.members.filter(m => !m.user.bot).size;
-        const shouldTrack = nonBotCount >= MIN_USERS_FOR_AFK_TRACKING;
+        const channelConfig = this.guildConfig.getEffectiveConfig(guildId, channel.id, channel.parentId);
+        if (!channelConfig.enabled || isExemptChannel(channel, channelConfig, guild.afkChannelId)) return false;
+        const memberCount = countThresholdMembers(channel, channelConfig, userId => this.isVoiceIdentity(userId));
+        const shouldTrack = memberCount >= channelConfig.minUsersForTracking;
 
         if (this.logger.isLevelEnabled('debug')) {
           this.logger.debug(
@@ -107,8 +165,8 @@ export class VoiceMonitorService {
               guildId,
               channelId: channel.id,
               action: 'threshold_check',
-              nonBotCount,
-              threshold: MIN_USERS_FOR_AFK_TRACKING,
+              memberCount,
+              threshold: channelConfig.minUsersForTracking,
               result: shouldTrack
             },
             'Threshold check for AFK tracking'
@@ -128,23 +186,31 @@ export class VoiceMonitorService {
         return;
       }
 
-      // Check if already connected to this guild
-      if (this.connectionManager.hasConnection(guildId)) {
-        if (this.logger.isLevelEnabled('debug')) {
-          this.logger.debug({ guildId }, 'Bot already connected to guild, skipping scan');
+      // Join every eligible channel we are not in yet, as long as the identity pool allows
+      for (const channel of eligibleChannels.values()) {
+        if (this.connectionManager.hasChannelConnection(channel.id)) {
+          if (this.logger.isLevelEnabled('debug')) {
+            this.logger.debug({ guildId, channelId: channel.id }, 'Bot already connected to channel, skipping');
+          }
+          continue;
+        }
+
+        if (!this.connectionManager.hasAvailableIdentity(guildId)) {
+          this.logger.info(
+            { guildId, unmonitoredChannelId: channel.id },
+            'No voice identity available for remaining eligible channels'
+          );
+          break;
         }
-        return;
-      }
 
-      // Join the first matching channel
-      const firstChannel = eligibleChannels.first();
-      if (firstChannel) {
         this.logger.info(
-          { guildId, channelId: firstChannel.id, channelName: firstChannel.name },
+          { guildId, channelId: channel.id, channelName: channel.name },
           'Joining voice channel during guild scan'
         );
-        await this.connectionManager.joinChannel(firstChannel);
+        await this.connectionManager.joinChannel(channel);
       }
+
+      await this.seedTracking(guildId, Array.from(eligibleChannels.values()));
     } catch (error) {
       this.logger.error(
         {
@@ -177,14 +243,144 @@ export class VoiceMonitorService {
       }
     }
 
+    this.dropUnconnectedTracking();
+    this.startScheduleWatcher();
+
     this.logger.info('VoiceMonitorService initialization complete');
   }
 
+  /**
+   * Begins checking enforcement schedules every minute. Timers restored from the
+   * database for guilds that are outside their schedule are dropped right away.
+   */
+  startScheduleWatcher(now: number = Date.now()): void {
+    if (this.scheduleTimer !== null) {
+      return;
+    }
+
+    for (const guildId of this.client.guilds.cache.keys()) {
+      const config = this.guildConfig.getConfig(guildId);
+      if (config.scheduleWindows.length === 0) {
+        continue;
+      }
+
+      const active = isWithinSchedule(config, now);
+      this.scheduleStates.set(guildId, active);
+      if (!active) {
+        this.afkDetection.stopAllTrackingForGuild(guildId);
+      }
+    }
+
+    this.scheduleTimer = setInterval(() => {
+      void this.checkSchedules();
+    }, SCHEDULE_CHECK_INTERVAL_MS);
+  }
+
+  stopScheduleWatcher(): void {
+    if (this.scheduleTimer !== null) {
+      clearInterval(this.scheduleTimer);
+      this.scheduleTimer = null;
+    }
+  }
+
+  /**
+   * Starts or stops AFK handling in guilds whose schedule window opened or closed
+   * since the last check, including guilds whose schedule was just configured.
+   */
+  async checkSchedules(now: number = Date.now()): Promise<void> {
+    for (const [guildId, guild] of this.client.guilds.cache) {
+      try {
+        const config = this.guildConfig.getConfig(guildId);
+        if (config.scheduleWindows.length === 0) {
+          this.scheduleStates.delete(guildId);
+          continue;
+        }
+
+        const active = isWithinSchedule(config, now);
+        const wasActive = this.scheduleStates.get(guildId);
+        this.scheduleStates.set(guildId, active);
+
+        if (active === wasActive) {
+          continue;
+        }
+
+        if (active) {
+          this.logger.info({ guildId, action: 'schedule_start' }, 'Enforcement schedule window opened, scanning guild');
+          await this.scanGuild(guild);
+        } else {
+          this.logger.info({ guildId, action: 'schedule_stop' }, 'Enforcement schedule window closed, stopping AFK tracking');
+          this.afkDetection.stopAllTrackingForGuild(guildId);
+          this.connectionManager.leaveGuild(guildId);
+        }
+      } catch (error) {
+        this.logger.error({ error: formatError(error), guildId }, 'Error checking enforcement schedule');
+      }
+    }
+  }
+
+  /**
+   * Stops timers restored from the database in channels the startup scan could not
+   * join, since nobody is listening there for the speech that would reset them.
+   */
+  private dropUnconnectedTracking(): void {
+    for (const guildId of this.client.guilds.cache.keys()) {
+      for (const [channelId, count] of this.afkDetection.getTrackedCountsByChannel(guildId)) {
+        if (this.connectionManager.hasChannelConnection(channelId)) {
+          continue;
+        }
+
+        this.logger.info(
+          { guildId, channelId, count, action: 'restore_discard', reason: 'not_connected' },
+          'Dropping restored AFK timers in a channel the bot is not connected to'
+        );
+        this.afkDetection.stopAllTrackingForChannel(guildId, channelId);
+      }
+    }
+  }
+
+  /**
+   * Starts AFK tracking for members who were already sitting in monitored channels
+   * before the bot joined, since no voice state event will fire for them.
+   * Exempt members are filtered out by AFKDetectionService.startTracking.
+   */
+  private async seedTracking(guildId: string, channels: VoiceBasedChannel[]): Promise<void> {
+    let channelCount = 0;
+    let seeded = 0;
+    let alreadyTracked = 0;
+    let skipped = 0;
+
+    for (const channel of channels) {
+      if (!this.connectionManager.hasChannelConnection(channel.id)) {
+        continue;
+      }
+      channelCount++;
+
+      const userIds = Array.from(channel.members.filter(m => !m.user.bot).keys());
+      const untrackedUserIds = userIds.filter(userId => !this.afkDetection.isTracking(guildId, userId));
+      alreadyTracked += userIds.length - untrackedUserIds.length;
+
+      await this.afkDetection.startTrackingAllInChannel(guildId, channel.id, untrackedUserIds);
+
+      for (const userId of untrackedUserIds) {
+        if (this.afkDetection.isTracking(guildId, userId)) {
+          seeded++;
+        } else {
+          skipped++;
+        }
+      }
+    }
+
+    this.logger.info(
+      { guildId, action: 'tracking_seed', channelCount, seeded, alreadyTracked, skipped },
+      'Seeded AFK tracking for members already in voice'
+    );
+  }
+
   private async isChannelEmpty(guildId: string, channelId: string): Promise<boolean> {
     try {
-      this.rateLimiter.recordAction('client.guilds.fetch');
+      this.rateLimiter.recordAction('client.guilds.fetch', guildId);
       const guild = await this.client.guilds.fetch(guildId);
-      this.rateLimiter.recordAction('guild.channels.fetch');
+      this.rateLimiter.recordAction('guild.channels.fetch', guildId);
       const channel = await guild.channels.fetch(channelId);
 
       if (!channel?.isVoiceBased()) {
@@ -1,96 +1,448 @@
-import { Client, EmbedBuilder, TextChannel, ChannelType, Guild, GuildBasedChannel, PermissionFlagsBits } from 'discord.js';
+import {
+  Client,
+  EmbedBuilder,
+  TextChannel,
+  ChannelType,
+  Guild,
+  GuildBasedChannel,
+  PermissionFlagsBits,
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  GuildMember,
+  Message,
+} from 'discord.js';
 import type { Logger } from 'pino';
 import { GuildConfigService } from './GuildConfigService';
+import type { GuildSettings } from '../database/repositories/GuildSettingsRepository';
 import { RateLimiter } from '../utils/RateLimiter';
+import { buildStillHereButtonId } from '../utils/componentIds';
+import { renderMessages } from '../utils/messageTemplates';
+import type { BotMetrics } from '../utils/metrics';
+import { getErrorCode } from '../utils/errorUtils';
+import type { VoiceConnectionManager } from '../voice/VoiceConnectionManager';
+import type { ChimeStore } from '../voice/ChimeStore';
+
+/**
+ * Discord's "Cannot send messages to this user" error, returned when a member has DMs closed.
+ */
+const DM_CLOSED_ERROR_CODE = '50007';
+
+/**
+ * Where a warning was delivered, as recorded in the audit log.
+ */
+export type WarningDeliveryPath = 'dm' | 'channel' | 'voice_chat';
+
+/**
+ * What happens to a posted warning once it no longer applies.
+ */
+export type WarningCleanup = 'dismiss' | 'delete';
+
+interface WarningPayload {
+  embeds: EmbedBuilder[];
+  components: ActionRowBuilder<ButtonBuilder>[];
+}
 
 export class WarningService {
   private client: Client;
   private configService: GuildConfigService;
   private logger: Logger;
   private rateLimiter: RateLimiter;
+  private metrics: BotMetrics | null;
+  private voiceConnectionManager: VoiceConnectionManager | null;
+  private chimeStore: ChimeStore | null;
+  // Messages of each member's current warning, keyed by guild and user; kept in memory only
+  private activeWarnings: Map<string, Message[]>;
 
-  constructor(client: Client, configService: GuildConfigService, logger: Logger, rateLimiter: RateLimiter) {
+  constructor(
+    client: Client,
+    configService: GuildConfigService,
+    logger: Logger,
+    rateLimiter: RateLimiter,
+    metrics: BotMetrics | null = null,
+    voiceConnectionManager: VoiceConnectionManager | null = null,
+    chimeStore: ChimeStore | null = null
+  ) {
     this.client = client;
     this.configService = configService;
     this.logger = logger;
     this.rateLimiter = rateLimiter;
+    this.metrics = metrics;
+    this.voiceConnectionManager = voiceConnectionManager;
+    this.chimeStore = chimeStore;
+    this.activeWarnings = new Map();
   }
 
-  async sendWarning(guildId: string, userId: string, voiceChannelId: string): Promise<void> {
+  /**
+   * Delivers the AFK warning the way the guild's warningDelivery asks for, and
+   * starts the chime in the voice channel when warningChimeEnabled is on.
+   * Errors are logged, never thrown.
+   *
+   * @param secondsLeft - Time left before the AFK action; defaults to the channel's warningSecondsBefore
+   * @returns Where the warning was delivered; empty when it reached nobody
+   */
+  async sendWarning(
+    guildId: string,
+    userId: string,
+    voiceChannelId: string,
+    secondsLeft: number | null = null
+  ): Promise<WarningDeliveryPath[]> {
     this.logger.debug({ guildId, userId, voiceChannelId, action: 'warning_start' }, 'Starting to send AFK warning');
 
+    const sent = new Map<WarningDeliveryPath, Message>();
+
     try {
-      const config = this.configService.getConfig(guildId);
-      this.rateLimiter.recordAction('client.guilds.fetch');
+      this.rateLimiter.recordAction('client.guilds.fetch', guildId);
       const guild = await this.client.guilds.fetch(guildId);
 
       if (!guild) {
         this.logger.error({ guildId }, 'Guild not found for warning');
-        return;
+        return [];
       }
 
-      const warningChannel = await this.findWarningChannel(guild, config.warningChannelId, guildId);
+      const voiceChannel = guild.channels.cache.get(voiceChannelId);
+      const config = this.configService.getEffectiveConfig(guildId, voiceChannelId, voiceChannel?.parentId ?? null);
 
-      if (!warningChannel) {
-        this.logger.warn({ guildId }, 'No warning channel found');
-        return;
+      // Observe mode must not post anything; AFKDetectionService records the would-be warning instead
+      if (config.mode === 'observe') {
+        this.logger.debug({ guildId, userId, voiceChannelId, action: 'warning_skipped' }, 'Guild is in observe mode, not sending warning');
+        return [];
       }
 
-      // Check if bot has SEND_MESSAGES permission in the warning channel
-      const botMember = guild.members.me;
-      if (!botMember) {
-        this.logger.warn({ guildId }, 'Bot member not cached in guild');
-        return;
+      if (config.warningChimeEnabled) {
+        this.playChime(guildId, userId, voiceChannelId);
       }
-      const botPermissions = warningChannel.permissionsFor(botMember);
-      const hasPermission = botPermissions?.has(PermissionFlagsBits.SendMessages) ?? false;
-      const permissionsNull = botPermissions === null;
 
-      this.logger.debug(
-        {
-          guildId,
-          channelId: warningChannel.id,
-          action: 'permission_check',
-          hasPermission,
-          ...(permissionsNull && { permissionsNull: true })
-        },
-        'Checking bot permissions in warning channel'
-      );
+      const payload = this.buildWarningPayload(guild, config, userId, voiceChannelId, secondsLeft);
+      const track = (path: WarningDeliveryPath, message: Message | null): boolean => {
+        if (message !== null) {
+          sent.set(path, message);
+        }
+        return message !== null;
+      };
+
+      switch (config.warningDelivery) {
+        case 'dm':
+          if (!track('dm', await this.sendToMember(guild, userId, payload))) {
+            track('channel', await this.sendToWarningChannel(guild, config.warningChannelId, userId, voiceChannelId, payload));
+          }
+          break;
+        case 'both':
+          track('dm', await this.sendToMember(guild, userId, payload));
+          track('channel', await this.sendToWarningChannel(guild, config.warningChannelId, userId, voiceChannelId, payload));
+          break;
+        case 'voice-chat':
+          if (!track('voice_chat', await this.sendToVoiceChat(guild, voiceChannel ?? null, userId, payload))) {
+            track('channel', await this.sendToWarningChannel(guild, config.warningChannelId, userId, voiceChannelId, payload));
+          }
+          break;
+        case 'channel':
+        default:
+          track('channel', await this.sendToWarningChannel(guild, config.warningChannelId, userId, voiceChannelId, payload));
+      }
 
-      if (!hasPermission) {
-        this.logger.warn(
-          { guildId, channelId: warningChannel.id },
-          'Bot lacks SEND_MESSAGES permission in warning channel'
+      if (sent.size > 0) {
+        this.metrics?.warningsSent.inc();
+        this.logger.info(
+          { guildId, userId, channelId: voiceChannelId, delivery: [...sent.keys()] },
+          'Warning sent to user'
         );
+      }
+    } catch (error) {
+      this.logger.error(
+        { error, guildId, userId, voiceChannelId },
+        'Failed to send warning'
+      );
+    }
+
+    // Later warning stages edit these messages instead of posting new ones
+    if (sent.size > 0) {
+      this.activeWarnings.set(this.getWarningKey(guildId, userId), [...sent.values()]);
+    }
+
+    return [...sent.keys()];
+  }
+
+  /**
+   * Edits the member's posted warning to count down to the AFK action. A fresh
+   * warning is sent when there is nothing left to edit, e.g. after a restart or
+   * when the message was deleted. Errors are logged, never thrown.
+   */
+  async updateWarning(guildId: string, userId: string, voiceChannelId: string, secondsLeft: number): Promise<void> {
+    const key = this.getWarningKey(guildId, userId);
+    const messages = this.activeWarnings.get(key) ?? [];
+    const kept: Message[] = [];
+
+    if (messages.length > 0) {
+      try {
+        this.rateLimiter.recordAction('client.guilds.fetch', guildId);
+        const guild = await this.client.guilds.fetch(guildId);
+        const voiceChannel = guild.channels.cache.get(voiceChannelId);
+        const config = this.configService.getEffectiveConfig(guildId, voiceChannelId, voiceChannel?.parentId ?? null);
+        const payload = this.buildWarningPayload(guild, config, userId, voiceChannelId, secondsLeft);
+
+        for (const message of messages) {
+          try {
+            // A skipped edit only leaves the countdown behind, so the message is still worth keeping
+            if (await this.rateLimiter.acquire('message.edit', guildId)) {
+              await message.edit(payload);
+            }
+            kept.push(message);
+          } catch (error) {
+            this.logger.debug({ error, guildId, userId, messageId: message.id }, 'Could not edit AFK warning');
+          }
+        }
+      } catch (error) {
+        this.logger.error({ error, guildId, userId, voiceChannelId }, 'Failed to update warning');
         return;
       }
+    }
 
-      const voiceChannel = guild.channels.cache.get(voiceChannelId);
-      const voiceChannelMention = voiceChannel ? `<#${voiceChannelId}>` : 'voice channel';
+    if (kept.length === 0) {
+      this.activeWarnings.delete(key);
+      await this.sendWarning(guildId, userId, voiceChannelId, secondsLeft);
+      return;
+    }
+
+    this.activeWarnings.set(key, kept);
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug({ guildId, userId, secondsLeft, action: 'warning_update' }, 'Updated AFK warning countdown');
+    }
+  }
+
+  /**
+   * Tidies up the member's posted warning once it no longer applies, so channels
+   * are not left with stale countdowns. Errors are logged, never thrown.
+   *
+   * @param cleanup - dismiss edits the warning to say it no longer applies; delete removes it
+   */
+  async clearWarning(guildId: string, userId: string, cleanup: WarningCleanup): Promise<void> {
+    const key = this.getWarningKey(guildId, userId);
+    const messages = this.activeWarnings.get(key);
+
+    if (messages === undefined) {
+      return;
+    }
+    this.activeWarnings.delete(key);
+
+    for (const message of messages) {
+      try {
+        if (cleanup === 'delete') {
+          if (await this.rateLimiter.acquire('message.delete', guildId)) {
+            await message.delete();
+          }
+        } else if (await this.rateLimiter.acquire('message.edit', guildId)) {
+          const dismissedEmbed = new EmbedBuilder()
+            .setColor(0x57F287)
+            .setTitle('AFK Warning Dismissed')
+            .setDescription(`This warning for <@${userId}> no longer applies.`)
+            .setTimestamp();
+          await message.edit({ embeds: [dismissedEmbed], components: [] });
+        }
+      } catch (error) {
+        this.logger.debug({ error, guildId, userId, messageId: message.id, cleanup }, 'Could not clean up AFK warning');
+      }
+    }
+  }
+
+  /**
+   * Starts the guild's chime in the member's voice channel without waiting for it.
+   * Only channels the bot is connected to can hear it, so others are skipped.
+   */
+  private playChime(guildId: string, userId: string, voiceChannelId: string): void {
+    if (this.voiceConnectionManager === null || this.chimeStore === null) {
+      return;
+    }
+
+    this.voiceConnectionManager
+      .playClip(voiceChannelId, this.chimeStore.getChimePath(guildId))
+      .then((played) => {
+        if (played) {
+          this.logger.debug({ guildId, userId, voiceChannelId, action: 'chime_played' }, 'Played AFK warning chime');
+        }
+      })
+      .catch((error) => {
+        this.logger.warn({ error, guildId, userId, voiceChannelId }, 'Failed to play AFK warning chime');
+      });
+  }
+
+  private buildWarningPayload(
+    guild: Guild,
+    config: GuildSettings,
+    userId: string,
+    voiceChannelId: string,
+    secondsLeft: number | null
+  ): WarningPayload {
+    const voiceChannel = guild.channels.cache.get(voiceChannelId);
+    const voiceChannelMention = voiceChannel ? `<#${voiceChannelId}>` : 'voice channel';
+    const messages = renderMessages(
+      secondsLeft === null ? config : { ...config, warningSecondsBefore: secondsLeft },
+      guild.preferredLocale,
+      {
+        user: `<@${userId}>`,
+        channel: voiceChannelMention,
+        serverName: guild.name,
+      }
+    );
+
+    const embed = new EmbedBuilder()
+      .setColor(messages.warningColor)
+      .setTitle(messages.warningTitle)
+      .setDescription(messages.warningBody)
+      .setTimestamp();
 
-      const embed = new EmbedBuilder()
-        .setColor(0xFF9900)
-        .setTitle('AFK Warning')
-        .setDescription(
-          `<@${userId}> you will be disconnected from ${voiceChannelMention} in ${config.warningSecondsBefore} seconds due to inactivity.`
-        )
-        .setTimestamp();
+    const stillHereButton = new ButtonBuilder()
+      .setCustomId(buildStillHereButtonId(guild.id, userId))
+      .setLabel("I'm still here")
+      .setStyle(ButtonStyle.Primary);
 
-      this.logger.debug({ guildId, channelId: warningChannel.id, userId, voiceChannelId, action: 'message_send' }, 'Sending warning message');
+    return {
+      embeds: [embed],
+      components: [new ActionRowBuilder<ButtonBuilder>().addComponents(stillHereButton)],
+    };
+  }
+
+  /**
+   * Posts the warning in the configured warning channel, or the guild's fallback channel.
+   *
+   * @returns The posted message, or null when it was not posted
+   */
+  private async sendToWarningChannel(
+    guild: Guild,
+    warningChannelId: string | null,
+    userId: string,
+    voiceChannelId: string,
+    payload: WarningPayload
+  ): Promise<Message | null> {
+    const guildId = guild.id;
+    const warningChannel = await this.findWarningChannel(guild, warningChannelId, guildId);
+
+    if (!warningChannel) {
+      this.logger.warn({ guildId }, 'No warning channel found');
+      return null;
+    }
+
+    // Check if bot has SEND_MESSAGES permission in the warning channel
+    const botMember = guild.members.me;
+    if (!botMember) {
+      this.logger.warn({ guildId }, 'Bot member not cached in guild');
+      return null;
+    }
+    const botPermissions = warningChannel.permissionsFor(botMember);
+    const hasPermission = botPermissions?.has(PermissionFlagsBits.SendMessages) ?? false;
+    const permissionsNull = botPermissions === null;
 
-      this.rateLimiter.recordAction('channel.send');
-      await warningChannel.send({ embeds: [embed] });
+    this.logger.debug(
+      {
+        guildId,
+        channelId: warningChannel.id,
+        action: 'permission_check',
+        hasPermission,
+        ...(permissionsNull && { permissionsNull: true })
+      },
+      'Checking bot permissions in warning channel'
+    );
 
-      this.logger.info(
-        { guildId, userId, channelId: voiceChannelId },
-        'Warning sent to user'
+    if (!hasPermission) {
+      this.logger.warn(
+        { guildId, channelId: warningChannel.id },
+        'Bot lacks SEND_MESSAGES permission in warning channel'
       );
+      return null;
+    }
+
+    this.logger.debug({ guildId, channelId: warningChannel.id, userId, voiceChannelId, action: 'message_send' }, 'Sending warning message');
+
+    // Warnings are non-critical: wait briefly for a token, otherwise skip rather than push the bot into safe mode
+    if (!(await this.rateLimiter.acquire('channel.send', guildId))) {
+      this.logger.warn({ guildId, userId, channelId: warningChannel.id }, 'Warning dropped due to rate limiting');
+      return null;
+    }
+    return warningChannel.send(payload);
+  }
+
+  /**
+   * DMs the warning to the member. Members with DMs closed are expected, so
+   * failures are logged and reported as not delivered.
+   */
+  private async sendToMember(guild: Guild, userId: string, payload: WarningPayload): Promise<Message | null> {
+    const guildId = guild.id;
+
+    try {
+      this.rateLimiter.recordAction('guild.members.fetch', guildId);
+      const member = await guild.members.fetch(userId);
+
+      if (!(await this.rateLimiter.acquire('member.send', guildId))) {
+        this.logger.warn({ guildId, userId }, 'Warning DM dropped due to rate limiting');
+        return null;
+      }
+      return await member.send(payload);
     } catch (error) {
-      this.logger.error(
-        { error, guildId, userId, voiceChannelId },
-        'Failed to send warning'
+      if (getErrorCode(error) === DM_CLOSED_ERROR_CODE) {
+        this.logger.info({ guildId, userId }, 'Member has DMs closed, warning not sent by DM');
+      } else {
+        this.logger.warn({ error, guildId, userId }, 'Failed to send warning DM');
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Posts the warning in the voice channel's built-in text chat.
+   *
+   * @returns The posted message, or null when it was not posted
+   */
+  private async sendToVoiceChat(
+    guild: Guild,
+    voiceChannel: GuildBasedChannel | null,
+    userId: string,
+    payload: WarningPayload
+  ): Promise<Message | null> {
+    const guildId = guild.id;
+
+    if (voiceChannel === null || !voiceChannel.isVoiceBased()) {
+      this.logger.warn({ guildId, userId }, 'Voice channel not found for voice chat warning');
+      return null;
+    }
+
+    const botMember = guild.members.me;
+    const hasPermission = botMember ? voiceChannel.permissionsFor(botMember)?.has(PermissionFlagsBits.SendMessages) ?? false : false;
+    if (!hasPermission) {
+      this.logger.warn(
+        { guildId, channelId: voiceChannel.id },
+        'Bot lacks SEND_MESSAGES permission in voice channel chat'
       );
+      return null;
+    }
+
+    if (!(await this.rateLimiter.acquire('channel.send', guildId))) {
+      this.logger.warn({ guildId, userId, channelId: voiceChannel.id }, 'Warning dropped due to rate limiting');
+      return null;
     }
+    return voiceChannel.send(payload);
+  }
+
+  /**
+   * Tells a member the AFK action was applied to them. Members often have DMs
+   * closed, so failures are only logged.
+   */
+  async sendKickDm(member: GuildMember, content: string): Promise<void> {
+    const guildId = member.guild.id;
+
+    try {
+      if (!(await this.rateLimiter.acquire('member.send', guildId))) {
+        this.logger.warn({ guildId, userId: member.id }, 'AFK action DM dropped due to rate limiting');
+        return;
+      }
+      await member.send({ content });
+      this.logger.info({ guildId, userId: member.id }, 'AFK action DM sent to user');
+    } catch (error) {
+      this.logger.warn({ error, guildId, userId: member.id }, 'Failed to send AFK action DM');
+    }
+  }
+
+  private getWarningKey(guildId: string, userId: string): string {
+    return `${guildId}:${userId}`;
   }
 
   private async findWarningChannel(guild: Guild, warningChannelId: string | null, guildId: string): Promise<TextChannel | null> {
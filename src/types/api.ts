@@ -10,9 +10,32 @@ import {
   type GuildId,
   type ChannelId,
   type RoleId,
+  type UserId,
   channelIdSchema,
   roleIdSchema,
+  userIdSchema,
 } from './ids';
+import {
+  ACTIVITY_SIGNALS,
+  AFK_ACTIONS,
+  ENFORCEMENT_MODES,
+  MESSAGE_LOCALES,
+  SCHEDULE_TYPES,
+  WARNING_DELIVERY_MODES,
+  type AFKAction,
+  type ActivitySignal,
+  type EnforcementMode,
+  type MessageLocale,
+  type ScheduleType,
+  type WarningDeliveryMode,
+} from '../database/repositories/GuildSettingsRepository';
+import {
+  AFK_EVENT_ACTIONS,
+  type AFKEventAction,
+  type AFKEventConfigSnapshot,
+} from '../database/repositories/AFKEventRepository';
+import type { ExemptionSource } from '../database/repositories/AFKExemptionRepository';
+import { isValidTimeZone } from '../utils/schedule';
 
 // ============================================================================
 // Health & Status Responses
@@ -35,7 +58,10 @@ export interface HealthResponse {
  */
 export interface StatusResponse {
   guilds: number;
+  /** Number of monitored voice channels across all guilds */
   voiceConnections: number;
+  /** Number of bot identities (primary plus helpers) available for voice */
+  voiceIdentities: number;
   memory: {
     heapUsed: number;
     heapTotal: number;
@@ -56,7 +82,64 @@ export interface GuildStatusResponse {
   enabled: boolean;
   afkTimeoutSeconds: number;
   warningSecondsBefore: number;
+  /** enforce, observe or warn-only */
+  mode: EnforcementMode;
   connected: boolean;
+  channels: MonitoredChannelStatus[];
+  /** Would-be enforcement over the last 24 hours; null while the guild is enforcing */
+  observedSummary: ObservedSummaryResponse | null;
+}
+
+/**
+ * Would-be warnings and AFK actions recorded in observe and warn-only modes.
+ */
+export interface ObservedSummaryResponse {
+  /** Start of the summarized window, epoch milliseconds */
+  since: number;
+  wouldWarn: number;
+  wouldKick: number;
+  /** Distinct members that would have had the AFK action applied */
+  wouldKickUsers: number;
+}
+
+/**
+ * Monitoring status of a single voice channel.
+ * One entry per channel a bot identity is currently connected to.
+ */
+export interface MonitoredChannelStatus {
+  channelId: ChannelId;
+  trackedUsers: number;
+}
+
+/**
+ * One member's running AFK timer.
+ */
+export interface TrackedUserResponse {
+  userId: UserId;
+  /** Voice channel the member is being timed in */
+  channelId: ChannelId;
+  /** Whether the warning has been sent (or recorded, in observe mode) */
+  warned: boolean;
+  /** ISO 8601 timestamp */
+  startedAt: string;
+  /** ISO 8601 timestamp; held back while a temporary exemption is active */
+  warningAt: string;
+  /** ISO 8601 timestamp */
+  kickAt: string;
+  secondsUntilWarning: number;
+  secondsUntilKick: number;
+}
+
+/**
+ * Live AFK tracking state.
+ * Returned by GET /api/guilds/:id/tracking.
+ */
+export interface GuildTrackingResponse {
+  guildId: GuildId;
+  /** Voice channels a bot identity is connected to */
+  monitoredChannelIds: ChannelId[];
+  /** Soonest AFK action first */
+  trackedUsers: TrackedUserResponse[];
 }
 
 /**
@@ -107,8 +190,142 @@ export interface GuildConfigResponse {
   warningChannelId: ChannelId | null;
   exemptRoleIds: RoleId[];
   adminRoleIds: RoleId[];
+  /** Action taken when a member's AFK timeout expires */
+  afkAction: AFKAction;
+  /** Target channel for the move action; null uses the guild's AFK channel */
+  afkMoveChannelId: ChannelId | null;
+  /** Role assigned by the role action */
+  afkRoleId: RoleId | null;
+  /** Duration of the native member timeout used by the timeout action */
+  memberTimeoutSeconds: number;
+  /** Whether AFK handling warns and acts, only warns, or only records */
+  mode: EnforcementMode;
+  /** Escalate the AFK action for repeat offenders */
+  escalationEnabled: boolean;
+  /** How long a strike counts toward escalation */
+  escalationWindowSeconds: number;
+  /** Escalation ladder, sorted by strike threshold */
+  escalationSteps: EscalationStepResponse[];
+  /** Where notify steps alert moderators; null uses the warning channel */
+  escalationNotifyChannelId: ChannelId | null;
+  /** Activity signals that reset AFK timers besides speaking */
+  activitySignals: ActivitySignal[];
+  /** Text channels whose messages and reactions count as activity */
+  activityChannelIds: ChannelId[];
+  /** IANA time zone the schedule windows are read in */
+  scheduleTimeZone: string;
+  /** Whether AFK handling runs only inside the windows (active) or except inside them (quiet) */
+  scheduleType: ScheduleType;
+  /** Weekly windows; empty means no schedule */
+  scheduleWindows: ScheduleWindowResponse[];
+  /** Members a voice channel needs before anyone in it is tracked */
+  minUsersForTracking: number;
+  /** Whether deafened members count toward minUsersForTracking */
+  countDeafenedUsers: boolean;
+  /** Whether other bots count toward minUsersForTracking */
+  countBots: boolean;
+  /** Snoozes each member may take per 24 hours; 0 disables /afk-snooze */
+  snoozeDailyLimit: number;
+  /** Voice channels and categories where nobody is tracked, besides the guild's AFK channel */
+  exemptChannelIds: ChannelId[];
+  /** Language of the built-in messages; null follows the guild's preferred locale */
+  messageLocale: MessageLocale | null;
+  /** The guild's own wording; omitted fields use the built-in translation */
+  messageTemplates: MessageTemplatesResponse;
+  /** Whether members get a DM after the AFK action is applied to them */
+  kickDmEnabled: boolean;
+  /** Where warnings go: channel, dm (channel as fallback), voice-chat (channel as fallback) or both */
+  warningDelivery: WarningDeliveryMode;
+  /** Seconds before the AFK action at which the warning is edited with the time left, largest first */
+  warningStages: number[];
+  /** Whether a chime plays in the voice channel when the warning is posted */
+  warningChimeEnabled: boolean;
+  /** Channel where kicks, failed kicks and exemption matches are logged; null means no log */
+  modLogChannelId: ChannelId | null;
+}
+
+/**
+ * A guild's message templates. Text fields may use the placeholders {user},
+ * {channel}, {seconds}, {timeout} (AFK timeout in minutes) and {server}.
+ */
+export interface MessageTemplatesResponse {
+  warningTitle?: string;
+  warningBody?: string;
+  /** Embed color, 0 to 16777215 */
+  warningColor?: number;
+  /** Reason shown in Discord's audit log for the AFK action */
+  kickReason?: string;
+  kickDm?: string;
+}
+
+/**
+ * Zod schema for message templates in a config update or preview request.
+ */
+export const messageTemplatesSchema = z
+  .object({
+    warningTitle: z.string().trim().min(1).max(200).optional(),
+    warningBody: z.string().trim().min(1).max(1500).optional(),
+    warningColor: z.number().int().min(0).max(0xffffff).optional(),
+    kickReason: z.string().trim().min(1).max(200).optional(),
+    kickDm: z.string().trim().min(1).max(1500).optional(),
+  })
+  .strict();
+
+/**
+ * A weekly time range in the guild's schedule time zone. A window whose end is
+ * not after its start runs past midnight.
+ */
+export interface ScheduleWindowResponse {
+  /** Days the window starts on, 0 (Sunday) to 6 (Saturday) */
+  days: number[];
+  /** Local start time, HH:MM */
+  start: string;
+  /** Local end time, HH:MM */
+  end: string;
+}
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:MM format');
+
+/**
+ * Zod schema for one schedule window in a config update.
+ */
+export const scheduleWindowSchema = z
+  .object({
+    days: z
+      .array(z.number().int().min(0).max(6))
+      .min(1)
+      .refine((days) => new Set(days).size === days.length, { message: 'days must be distinct' }),
+    start: timeOfDaySchema,
+    end: timeOfDaySchema,
+  })
+  .strict()
+  .refine((window) => window.start !== window.end, { message: 'start and end must differ' });
+
+/**
+ * One rung of the escalation ladder. Applied once a member has `strikes` strikes
+ * (including the current one) within the escalation window.
+ */
+export interface EscalationStepResponse {
+  strikes: number;
+  action: AFKAction;
+  /** Timeout duration for the timeout action; null uses memberTimeoutSeconds */
+  memberTimeoutSeconds: number | null;
+  /** Also alert moderators when this step is applied */
+  notify: boolean;
 }
 
+/**
+ * Zod schema for one escalation step in a config update.
+ */
+export const escalationStepSchema = z
+  .object({
+    strikes: z.number().int().min(1).max(100),
+    action: z.enum(AFK_ACTIONS),
+    memberTimeoutSeconds: z.union([z.number().int().min(1).max(2419200), z.null()]).optional(),
+    notify: z.boolean().optional(),
+  })
+  .strict();
+
 /**
  * Zod schema for guild configuration update requests.
  * Validates PUT /api/guilds/:id/config request bodies.
@@ -120,6 +337,32 @@ export interface GuildConfigResponse {
  * - warningChannelId: valid channel ID or null (optional)
  * - exemptRoleIds: array of valid role IDs (optional)
  * - adminRoleIds: array of valid role IDs (optional)
+ * - afkAction: one of disconnect, move, mute, timeout, role (optional)
+ * - afkMoveChannelId: valid channel ID or null (optional)
+ * - afkRoleId: valid role ID or null (optional)
+ * - memberTimeoutSeconds: number between 1 and 2419200 (28 days) (optional)
+ * - mode: one of enforce, observe, warn-only (optional)
+ * - escalationEnabled: boolean (optional)
+ * - escalationWindowSeconds: number between 3600 and 31536000 (365 days) (optional)
+ * - escalationSteps: up to 10 steps with distinct strike thresholds (optional)
+ * - escalationNotifyChannelId: valid channel ID or null (optional)
+ * - activitySignals: array of messages, reactions, video, stream, commands (optional)
+ * - activityChannelIds: array of valid channel IDs (optional)
+ * - scheduleTimeZone: IANA time zone such as Europe/Berlin (optional)
+ * - scheduleType: one of active, quiet (optional)
+ * - scheduleWindows: up to 20 weekly windows (optional)
+ * - minUsersForTracking: number between 1 and 99 (optional)
+ * - countDeafenedUsers: boolean (optional)
+ * - countBots: boolean (optional)
+ * - snoozeDailyLimit: number between 0 and 20 (optional)
+ * - exemptChannelIds: array of valid channel IDs (optional)
+ * - messageLocale: one of en, de, es, fr, pt-BR, or null to follow the guild (optional)
+ * - messageTemplates: message templates, replacing the saved ones (optional)
+ * - kickDmEnabled: boolean (optional)
+ * - warningDelivery: one of channel, dm, voice-chat, both (optional)
+ * - warningStages: up to 5 distinct positive integers (optional)
+ * - warningChimeEnabled: boolean (optional)
+ * - modLogChannelId: valid channel ID or null to turn the log off (optional)
  * - No unknown fields allowed (strict mode)
  * - At least one field must be provided
  */
@@ -135,6 +378,50 @@ export const guildConfigUpdateSchema = z
     warningChannelId: z.union([channelIdSchema, z.null()]).optional(),
     exemptRoleIds: z.array(roleIdSchema).optional(),
     adminRoleIds: z.array(roleIdSchema).optional(),
+    afkAction: z.enum(AFK_ACTIONS).optional(),
+    afkMoveChannelId: z.union([channelIdSchema, z.null()]).optional(),
+    afkRoleId: z.union([roleIdSchema, z.null()]).optional(),
+    memberTimeoutSeconds: z
+      .number()
+      .int()
+      .min(1, 'memberTimeoutSeconds must be greater than 0')
+      .max(2419200, 'memberTimeoutSeconds must be at most 28 days')
+      .optional(),
+    mode: z.enum(ENFORCEMENT_MODES).optional(),
+    escalationEnabled: z.boolean().optional(),
+    escalationWindowSeconds: z.number().int().min(3600).max(31536000).optional(),
+    escalationSteps: z
+      .array(escalationStepSchema)
+      .max(10)
+      .refine((steps) => new Set(steps.map((step) => step.strikes)).size === steps.length, {
+        message: 'escalationSteps must have distinct strike thresholds',
+      })
+      .optional(),
+    escalationNotifyChannelId: z.union([channelIdSchema, z.null()]).optional(),
+    activitySignals: z.array(z.enum(ACTIVITY_SIGNALS)).optional(),
+    activityChannelIds: z.array(channelIdSchema).optional(),
+    scheduleTimeZone: z
+      .string()
+      .refine(isValidTimeZone, { message: 'scheduleTimeZone must be a valid IANA time zone' })
+      .optional(),
+    scheduleType: z.enum(SCHEDULE_TYPES).optional(),
+    scheduleWindows: z.array(scheduleWindowSchema).max(20).optional(),
+    minUsersForTracking: z.number().int().min(1).max(99).optional(),
+    countDeafenedUsers: z.boolean().optional(),
+    countBots: z.boolean().optional(),
+    snoozeDailyLimit: z.number().int().min(0).max(20).optional(),
+    exemptChannelIds: z.array(channelIdSchema).optional(),
+    messageLocale: z.union([z.enum(MESSAGE_LOCALES), z.null()]).optional(),
+    messageTemplates: messageTemplatesSchema.optional(),
+    kickDmEnabled: z.boolean().optional(),
+    warningDelivery: z.enum(WARNING_DELIVERY_MODES).optional(),
+    warningStages: z
+      .array(z.number().int().positive())
+      .max(5)
+      .refine((stages) => new Set(stages).size === stages.length, { message: 'warningStages must be distinct' })
+      .optional(),
+    warningChimeEnabled: z.boolean().optional(),
+    modLogChannelId: z.union([channelIdSchema, z.null()]).optional(),
   })
   .strict()
   .refine((data) => Object.keys(data).length > 0, {
@@ -157,6 +444,429 @@ export interface ConfigResetResponse {
   message: string;
 }
 
+// ============================================================================
+// Channel Override Types
+// ============================================================================
+
+/**
+ * Settings overridden for one voice channel or category.
+ * Null fields inherit from the category override, then the guild config.
+ */
+export interface ChannelOverrideResponse {
+  channelId: ChannelId;
+  enabled: boolean | null;
+  afkTimeoutSeconds: number | null;
+  warningSecondsBefore: number | null;
+  warningChannelId: ChannelId | null;
+}
+
+/**
+ * Response from GET /api/guilds/:id/channel-overrides.
+ */
+export interface ChannelOverridesListResponse {
+  guildId: GuildId;
+  overrides: ChannelOverrideResponse[];
+}
+
+/**
+ * Zod schema for channel override update requests.
+ * Validates PUT /api/guilds/:id/channel-overrides/:channelId request bodies.
+ *
+ * Validation rules:
+ * - Same field rules as guildConfigUpdateSchema, but null resets a field to inherit
+ * - No unknown fields allowed (strict mode)
+ * - At least one field must be provided
+ */
+export const channelOverrideUpdateSchema = z
+  .object({
+    enabled: z.union([z.boolean(), z.null()]).optional(),
+    afkTimeoutSeconds: z
+      .union([z.number().int().min(1, 'afkTimeoutSeconds must be greater than 0'), z.null()])
+      .optional(),
+    warningSecondsBefore: z
+      .union([z.number().int().min(0, 'warningSecondsBefore must be greater than or equal to 0'), z.null()])
+      .optional(),
+    warningChannelId: z.union([channelIdSchema, z.null()]).optional(),
+  })
+  .strict()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+/**
+ * Type for channel override update requests.
+ * Inferred from the Zod schema to ensure consistency.
+ */
+export type ChannelOverrideUpdateRequest = z.infer<typeof channelOverrideUpdateSchema>;
+
+// ============================================================================
+// Rate Limit Types
+// ============================================================================
+
+/**
+ * Response from GET /api/rate-limits.
+ * While safeMode is true, or a guild is listed in pausedGuilds, AFK actions are deferred.
+ */
+export interface RateLimitsResponse {
+  windowMs: number;
+  actionCount: number;
+  warnThreshold: number;
+  crashThreshold: number;
+  guildThreshold: number;
+  safeMode: boolean;
+  safeModeResumesInMs: number;
+  pausedGuilds: Array<{ guildId: GuildId; actionCount: number; resumesInMs: number }>;
+  buckets: Array<{ actionType: string; tokens: number; capacity: number; queued: number; dropped: number }>;
+}
+
+// ============================================================================
+// Audit Event Types
+// ============================================================================
+
+/**
+ * One recorded enforcement outcome.
+ * Correlation IDs are shared by the events of a single tracking session.
+ */
+export interface AFKEventResponse {
+  id: number;
+  userId: UserId;
+  channelId: ChannelId | null;
+  action: AFKEventAction;
+  reason: string | null;
+  configSnapshot: AFKEventConfigSnapshot | null;
+  correlationId: string | null;
+  /** ISO 8601 timestamp */
+  createdAt: string;
+}
+
+/**
+ * Response from GET /api/guilds/:id/events.
+ */
+export interface AFKEventsListResponse {
+  guildId: GuildId;
+  events: AFKEventResponse[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Zod schema for GET /api/guilds/:id/events query parameters.
+ *
+ * Validation rules:
+ * - userId, channelId: Discord snowflakes (optional)
+ * - action: comma-separated list of event actions (optional)
+ * - since, until: ISO 8601 timestamps (optional)
+ * - limit: integer 1-100, default 50
+ * - offset: non-negative integer, default 0
+ */
+export const afkEventsQuerySchema = z
+  .object({
+    userId: userIdSchema.optional(),
+    channelId: channelIdSchema.optional(),
+    action: z
+      .string()
+      .transform((value) => value.split(','))
+      .pipe(z.array(z.enum(AFK_EVENT_ACTIONS)))
+      .optional(),
+    since: z.string().datetime({ offset: true }).optional(),
+    until: z.string().datetime({ offset: true }).optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+    offset: z.coerce.number().int().min(0).default(0),
+  })
+  .strict();
+
+/**
+ * Type for parsed events query parameters.
+ * Inferred from the Zod schema to ensure consistency.
+ */
+export type AFKEventsQuery = z.infer<typeof afkEventsQuerySchema>;
+
+// ============================================================================
+// Voice Analytics Types
+// ============================================================================
+
+/**
+ * A member's voice activity summed over the requested days.
+ */
+export interface VoiceActivityUserResponse {
+  userId: UserId;
+  speakingMs: number;
+  /** Time in channels the bot was connected to; silent time is presentMs - speakingMs */
+  presentMs: number;
+  speakingSessions: number;
+}
+
+/**
+ * A channel's voice activity summed over the requested days.
+ */
+export interface VoiceActivityChannelResponse {
+  channelId: ChannelId;
+  /** Member time spent in the channel, summed over members */
+  presentMs: number;
+  speakingMs: number;
+  /** Distinct members seen in the channel */
+  members: number;
+}
+
+/**
+ * Response from GET /api/guilds/:id/analytics. With format=csv the endpoint
+ * instead returns the daily rollups as a CSV attachment.
+ */
+export interface VoiceAnalyticsResponse {
+  guildId: GuildId;
+  /** First UTC day included, YYYY-MM-DD */
+  from: string;
+  /** Last UTC day included, YYYY-MM-DD */
+  to: string;
+  /** Top 100 members by speaking time */
+  users: VoiceActivityUserResponse[];
+  /** Top 100 channels by member time */
+  channels: VoiceActivityChannelResponse[];
+}
+
+const activityDaySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Day must be in YYYY-MM-DD format');
+
+/**
+ * Zod schema for GET /api/guilds/:id/analytics query parameters.
+ *
+ * Validation rules:
+ * - from, to: UTC days in YYYY-MM-DD format, both inclusive (optional, default the last 7 days)
+ * - format: json or csv, default json
+ */
+export const voiceAnalyticsQuerySchema = z
+  .object({
+    from: activityDaySchema.optional(),
+    to: activityDaySchema.optional(),
+    format: z.enum(['json', 'csv']).default('json'),
+  })
+  .strict();
+
+/**
+ * Type for parsed analytics query parameters.
+ * Inferred from the Zod schema to ensure consistency.
+ */
+export type VoiceAnalyticsQuery = z.infer<typeof voiceAnalyticsQuerySchema>;
+
+// ============================================================================
+// Strike Types
+// ============================================================================
+
+/**
+ * One AFK offence counted toward escalation.
+ */
+export interface StrikeResponse {
+  id: number;
+  channelId: ChannelId | null;
+  action: AFKAction;
+  /** ISO 8601 timestamp */
+  createdAt: string;
+}
+
+/**
+ * Response from GET /api/guilds/:id/strikes/:userId.
+ * Only strikes inside the escalation window are listed and counted.
+ */
+export interface UserStrikesResponse {
+  guildId: GuildId;
+  userId: UserId;
+  escalationEnabled: boolean;
+  windowSeconds: number;
+  strikeCount: number;
+  strikes: StrikeResponse[];
+}
+
+/**
+ * Response from DELETE /api/guilds/:id/strikes/:userId.
+ */
+export interface StrikesClearedResponse {
+  success: boolean;
+  guildId: GuildId;
+  userId: UserId;
+  /** Strikes removed, including ones that had already decayed */
+  cleared: number;
+}
+
+// ============================================================================
+// Exemption Types
+// ============================================================================
+
+/**
+ * A temporary exemption. The member's AFK clock is held until it expires.
+ */
+export interface ExemptionResponse {
+  id: number;
+  userId: UserId;
+  source: ExemptionSource;
+  reason: string | null;
+  /** Member who granted it; null when granted through the API */
+  grantedBy: UserId | null;
+  /** ISO 8601 timestamp */
+  expiresAt: string;
+  /** ISO 8601 timestamp */
+  createdAt: string;
+}
+
+/**
+ * Response from GET /api/guilds/:id/exemptions, soonest to expire first.
+ */
+export interface ExemptionsListResponse {
+  guildId: GuildId;
+  exemptions: ExemptionResponse[];
+}
+
+/**
+ * Zod schema for POST /api/guilds/:id/exemptions request bodies.
+ *
+ * Validation rules:
+ * - userId: valid user ID
+ * - durationSeconds: number between 60 and 2592000 (30 days)
+ * - reason: string of at most 200 characters or null (optional)
+ * - No unknown fields allowed (strict mode)
+ */
+export const exemptionCreateSchema = z
+  .object({
+    userId: userIdSchema,
+    durationSeconds: z.number().int().min(60).max(2592000),
+    reason: z.union([z.string().max(200), z.null()]).optional(),
+  })
+  .strict();
+
+/**
+ * Type for exemption create requests.
+ * Inferred from the Zod schema to ensure consistency.
+ */
+export type ExemptionCreateRequest = z.infer<typeof exemptionCreateSchema>;
+
+/**
+ * Response from DELETE /api/guilds/:id/exemptions/:userId.
+ */
+export interface ExemptionsRevokedResponse {
+  success: boolean;
+  guildId: GuildId;
+  userId: UserId;
+  /** Active exemptions ended, including snoozes */
+  revoked: number;
+}
+
+// ============================================================================
+// Member Action Types
+// ============================================================================
+
+/**
+ * Response from POST /api/guilds/:id/members/:userId/reset and .../stop.
+ */
+export interface MemberTrackingActionResponse {
+  success: boolean;
+  guildId: GuildId;
+  userId: UserId;
+  action: 'reset' | 'stop';
+}
+
+/**
+ * Zod schema for POST /api/guilds/:id/members/:userId/kick request bodies.
+ *
+ * Validation rules:
+ * - reason: non-blank string of at most 200 characters
+ * - No unknown fields allowed (strict mode)
+ */
+export const memberKickSchema = z
+  .object({
+    reason: z.string().max(200).refine(reason => reason.trim() !== '', 'Reason must not be blank'),
+  })
+  .strict();
+
+/**
+ * Type for member kick requests.
+ * Inferred from the Zod schema to ensure consistency.
+ */
+export type MemberKickRequest = z.infer<typeof memberKickSchema>;
+
+/**
+ * Response from POST /api/guilds/:id/members/:userId/kick.
+ */
+export interface MemberKickResponse {
+  /** False when Discord rejected the AFK action */
+  success: boolean;
+  guildId: GuildId;
+  userId: UserId;
+  outcome: 'kick' | 'kick_failed';
+  /** What was done (e.g. disconnect, move) or why it failed, as recorded in the audit log */
+  detail: string;
+}
+
+/**
+ * Zod schema for POST /api/guilds/:id/members/:userId/exempt request bodies.
+ * Responds with an ExemptionResponse.
+ *
+ * Validation rules:
+ * - durationSeconds: number between 60 and 2592000 (30 days)
+ * - reason: string of at most 200 characters or null (optional)
+ * - No unknown fields allowed (strict mode)
+ */
+export const memberExemptSchema = exemptionCreateSchema.omit({ userId: true }).strict();
+
+/**
+ * Type for member exempt requests.
+ * Inferred from the Zod schema to ensure consistency.
+ */
+export type MemberExemptRequest = z.infer<typeof memberExemptSchema>;
+
+// ============================================================================
+// Warning Chime Types
+// ============================================================================
+
+/**
+ * Response from PUT and DELETE /api/guilds/:id/chime. PUT takes the raw Ogg Opus
+ * file (Content-Type audio/ogg, at most 512 KB and 10 seconds) as its body.
+ */
+export interface ChimeResponse {
+  success: boolean;
+  guildId: GuildId;
+  /** Whether the guild plays its own chime rather than the bundled one */
+  customChime: boolean;
+}
+
+// ============================================================================
+// Message Preview Types
+// ============================================================================
+
+/**
+ * Zod schema for POST /api/guilds/:id/messages/preview request bodies.
+ *
+ * Validation rules:
+ * - messageLocale: one of en, de, es, fr, pt-BR, or null to follow the guild (optional)
+ * - messageTemplates: message templates to preview instead of the saved ones (optional)
+ * - No unknown fields allowed (strict mode)
+ */
+export const messagePreviewSchema = z
+  .object({
+    messageLocale: z.union([z.enum(MESSAGE_LOCALES), z.null()]).optional(),
+    messageTemplates: messageTemplatesSchema.optional(),
+  })
+  .strict();
+
+/**
+ * Type for message preview requests.
+ * Inferred from the Zod schema to ensure consistency.
+ */
+export type MessagePreviewRequest = z.infer<typeof messagePreviewSchema>;
+
+/**
+ * Response from POST /api/guilds/:id/messages/preview, rendered with a sample
+ * member (@member) and channel (#voice-channel).
+ */
+export interface MessagePreviewResponse {
+  guildId: GuildId;
+  /** Language the built-in messages were taken from */
+  locale: MessageLocale;
+  warningTitle: string;
+  warningBody: string;
+  warningColor: number;
+  kickReason: string;
+  kickDm: string;
+}
+
 // ============================================================================
 // Operation Response Types
 // ============================================================================
@@ -223,7 +933,7 @@ export interface LoginResponse {
  * Re-export ID types for convenience.
  * Consumers can import all API types from a single module.
  */
-export type { GuildId, ChannelId, RoleId };
+export type { GuildId, ChannelId, RoleId, AFKAction, EnforcementMode };
 
 /**
  * Type alias for guild configuration updates with validated types.
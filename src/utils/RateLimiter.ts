@@ -4,6 +4,10 @@ interface RateLimiterConfig {
   readonly windowMs: number;
   readonly warnThreshold: number;
   readonly crashThreshold: number;
+  readonly guildThreshold: number;
+  readonly bucketCapacity: number;
+  readonly maxQueueMs: number;
+  readonly exitOnCrashThreshold: boolean;
 }
 
 /**
@@ -18,76 +22,160 @@ interface RateLimiterConfig {
  *   Most Discord endpoints allow 5-50 requests per minute. 20 requests/min
  *   is conservative enough to warn before hitting most limits.
  *
- * - `crashThreshold: 50`: Hard limit to prevent API bans. Discord's global
- *   rate limit is 50 requests/second across all endpoints, but per-endpoint
- *   limits are lower. Crashing at 50 requests/min (< 1/sec) ensures we stay
- *   well below both per-endpoint and global limits.
+ * - `crashThreshold: 50`: Global saturation point. Discord's global rate limit
+ *   is 50 requests/second across all endpoints, but per-endpoint limits are
+ *   lower. At 50 requests/min (< 1/sec) the bot enters safe mode and pauses
+ *   AFK enforcement everywhere until the window drains.
+ *
+ * - `guildThreshold: 30`: One busy guild pauses its own enforcement long before
+ *   it can push the whole bot into safe mode.
+ *
+ * - `bucketCapacity: 20`: Each action type (e.g. `channel.send`) gets its own
+ *   token bucket refilled over one window, so a burst of one kind of call
+ *   cannot starve the others.
+ *
+ * - `maxQueueMs: 10_000`: Non-critical work waits at most this long for a
+ *   token before it is dropped.
+ *
+ * - `exitOnCrashThreshold: false`: Exiting takes every guild down, so it is
+ *   only done when explicitly configured as a last resort.
  */
 const DEFAULT_CONFIG: RateLimiterConfig = {
   windowMs: 60_000,
   warnThreshold: 20,
   crashThreshold: 50,
+  guildThreshold: 30,
+  bucketCapacity: 20,
+  maxQueueMs: 10_000,
+  exitOnCrashThreshold: false,
 };
 
+interface TokenBucket {
+  tokens: number;
+  lastRefill: number;
+  queued: number;
+  dropped: number;
+}
+
+export interface RateLimiterBucketState {
+  actionType: string;
+  tokens: number;
+  capacity: number;
+  queued: number;
+  dropped: number;
+}
+
+export interface RateLimiterPausedGuild {
+  guildId: string;
+  actionCount: number;
+  resumesInMs: number;
+}
+
 /**
- * Rate limiter using a sliding window counter algorithm.
+ * Snapshot of limiter state for the admin API.
+ */
+export interface RateLimiterState {
+  windowMs: number;
+  actionCount: number;
+  warnThreshold: number;
+  crashThreshold: number;
+  guildThreshold: number;
+  safeMode: boolean;
+  safeModeResumesInMs: number;
+  pausedGuilds: RateLimiterPausedGuild[];
+  buckets: RateLimiterBucketState[];
+}
+
+/**
+ * Rate limiter combining sliding window counters with per-action token buckets.
  *
- * Tracks action timestamps and enforces thresholds:
- * - Warns when approaching the configured threshold
- * - Crashes the process when exceeding the crash threshold to prevent API bans
+ * - Warns when the global window count approaches the configured threshold
+ * - Enters safe mode at the crash threshold, pausing AFK enforcement globally;
+ *   a guild over its own threshold pauses only that guild's enforcement
+ * - Queues, then drops, non-critical work whose action type has no tokens left
+ * - Exits the process only when `exitOnCrashThreshold` is set
  */
 export class RateLimiter {
   private readonly logger: Logger;
   private readonly config: RateLimiterConfig;
   private readonly timestamps: number[];
+  private readonly guildTimestamps: Map<string, number[]>;
+  private readonly actionTypeTimestamps: Map<string, number[]>;
+  private readonly buckets: Map<string, TokenBucket>;
+  private safeMode: boolean = false;
   private exited: boolean = false;
 
   constructor(logger: Logger, config?: Partial<RateLimiterConfig>) {
     this.logger = logger;
     this.config = { ...DEFAULT_CONFIG, ...config };
     this.timestamps = [];
+    this.guildTimestamps = new Map();
+    this.actionTypeTimestamps = new Map();
+    this.buckets = new Map();
   }
 
   /**
    * Records an action and checks rate limit thresholds.
    *
-   * Prunes old timestamps outside the sliding window, adds the current timestamp,
-   * and enforces warn/crash thresholds.
+   * Used for critical calls that must go ahead regardless of backpressure. Prunes old
+   * timestamps outside the sliding window, adds the current timestamp, spends a token
+   * from the action type's bucket and enforces warn/safe-mode thresholds.
    *
-   * @param actionType - Optional description of the action being rate-limited for debug logging
+   * @param actionType - Optional description of the action being rate-limited, also used as the bucket key
+   * @param guildId - Guild the action is made for, counted towards that guild's pause threshold
    */
-  recordAction(actionType?: string): void {
+  recordAction(actionType?: string, guildId?: string): void {
     const now = Date.now();
-    const windowStart = now - this.config.windowMs;
 
-    // Prune timestamps outside the sliding window
-    let firstTimestamp = this.timestamps[0];
-    while (firstTimestamp !== undefined && firstTimestamp < windowStart) {
-      this.timestamps.shift();
-      firstTimestamp = this.timestamps[0];
+    this.prune(this.timestamps, now);
+    this.timestamps.push(now);
+
+    if (guildId !== undefined) {
+      this.recordGuildAction(guildId, now, actionType);
     }
 
-    // Record the current action
-    this.timestamps.push(now);
+    if (actionType !== undefined) {
+      this.recordActionType(actionType, now);
+      const bucket = this.getBucket(actionType, now);
+      bucket.tokens = Math.max(0, bucket.tokens - 1);
+    }
 
     const count = this.timestamps.length;
 
+    if (this.safeMode && count < this.config.crashThreshold) {
+      this.leaveSafeMode(count);
+    }
+
     // Guard debug log with level check since this is called frequently
     if (this.logger.isLevelEnabled('debug')) {
       this.logger.debug(
-        { actionCount: count, windowMs: this.config.windowMs, actionType },
+        { actionCount: count, windowMs: this.config.windowMs, actionType, guildId },
         'Action recorded'
       );
     }
 
     // Check crash threshold first (more severe)
-    if (count >= this.config.crashThreshold && !this.exited) {
-      this.exited = true;
-      this.logger.error(
-        { actionCount: count, crashThreshold: this.config.crashThreshold, actionType },
-        'Rate limit exceeded - crashing bot to prevent API ban'
-      );
-      process.exit(1);
+    if (count >= this.config.crashThreshold) {
+      if (this.config.exitOnCrashThreshold) {
+        if (!this.exited) {
+          this.exited = true;
+          this.logger.error(
+            { actionCount: count, crashThreshold: this.config.crashThreshold, actionType },
+            'Rate limit exceeded - crashing bot to prevent API ban'
+          );
+          process.exit(1);
+        }
+        return;
+      }
+
+      if (!this.safeMode) {
+        this.safeMode = true;
+        this.logger.error(
+          { actionCount: count, crashThreshold: this.config.crashThreshold, actionType },
+          'Rate limit exceeded - entering safe mode and pausing AFK enforcement'
+        );
+      }
+      return;
     }
 
     // Check warn threshold
@@ -99,6 +187,80 @@ export class RateLimiter {
     }
   }
 
+  /**
+   * Takes a token for non-critical work without waiting.
+   *
+   * @returns false when the action type's bucket is empty; the caller should skip the work
+   */
+  tryAcquire(actionType: string, guildId?: string): boolean {
+    const bucket = this.getBucket(actionType, Date.now());
+
+    if (bucket.tokens < 1) {
+      return false;
+    }
+
+    this.recordAction(actionType, guildId);
+    return true;
+  }
+
+  /**
+   * Takes a token for non-critical work, queueing until one is available.
+   *
+   * Waits at most `maxQueueMs`; work that would wait longer is dropped.
+   *
+   * @returns false when the work was dropped and should be skipped
+   */
+  async acquire(actionType: string, guildId?: string): Promise<boolean> {
+    if (this.tryAcquire(actionType, guildId)) {
+      return true;
+    }
+
+    const bucket = this.getBucket(actionType, Date.now());
+    const refillIntervalMs = this.config.windowMs / this.config.bucketCapacity;
+    const waitMs = Math.ceil((1 - bucket.tokens) * refillIntervalMs) + bucket.queued * refillIntervalMs;
+
+    if (waitMs > this.config.maxQueueMs) {
+      this.drop(bucket, actionType, guildId, waitMs);
+      return false;
+    }
+
+    bucket.queued++;
+    try {
+      await new Promise<void>((resolve) => setTimeout(resolve, waitMs));
+    } finally {
+      bucket.queued--;
+    }
+
+    if (this.tryAcquire(actionType, guildId)) {
+      return true;
+    }
+
+    this.drop(bucket, actionType, guildId, waitMs);
+    return false;
+  }
+
+  /**
+   * Whether AFK enforcement (kicks and other configured actions) should be held back
+   * for a guild, either because of global safe mode or the guild's own activity.
+   */
+  isKickingPaused(guildId: string): boolean {
+    return this.getKickPauseRemainingMs(guildId) > 0;
+  }
+
+  /**
+   * @returns How long until enforcement may resume for the guild, 0 when it is not paused
+   */
+  getKickPauseRemainingMs(guildId: string): number {
+    const now = Date.now();
+    const globalRemaining = this.getSafeModeRemainingMs(now);
+    const guildTimestamps = this.guildTimestamps.get(guildId);
+    const guildRemaining = guildTimestamps
+      ? this.getRemainingOverThreshold(guildTimestamps, this.config.guildThreshold, now)
+      : 0;
+
+    return Math.max(globalRemaining, guildRemaining);
+  }
+
   /**
    * Returns the current number of actions within the sliding window.
    * Primarily intended for testing purposes.
@@ -110,4 +272,156 @@ export class RateLimiter {
     // Count timestamps within the window without mutating the array
     return this.timestamps.filter((timestamp) => timestamp >= windowStart).length;
   }
+
+  /**
+   * Counts actions within the sliding window per action type, for metrics.
+   *
+   * @returns Map of action type to window count; types seen earlier but idle now report 0
+   */
+  getActionCountsByType(): Map<string, number> {
+    const now = Date.now();
+    const counts = new Map<string, number>();
+
+    for (const [actionType, timestamps] of this.actionTypeTimestamps) {
+      this.prune(timestamps, now);
+      counts.set(actionType, timestamps.length);
+    }
+
+    return counts;
+  }
+
+  getState(): RateLimiterState {
+    const now = Date.now();
+    const safeModeResumesInMs = this.getSafeModeRemainingMs(now);
+
+    const pausedGuilds: RateLimiterPausedGuild[] = [];
+    for (const [guildId, timestamps] of this.guildTimestamps) {
+      this.prune(timestamps, now);
+      const resumesInMs = this.getRemainingOverThreshold(timestamps, this.config.guildThreshold, now);
+      if (resumesInMs > 0) {
+        pausedGuilds.push({ guildId, actionCount: timestamps.length, resumesInMs });
+      }
+    }
+
+    const buckets: RateLimiterBucketState[] = [];
+    for (const actionType of this.buckets.keys()) {
+      const bucket = this.getBucket(actionType, now);
+      buckets.push({
+        actionType,
+        tokens: Math.floor(bucket.tokens),
+        capacity: this.config.bucketCapacity,
+        queued: bucket.queued,
+        dropped: bucket.dropped,
+      });
+    }
+
+    return {
+      windowMs: this.config.windowMs,
+      actionCount: this.getActionCount(),
+      warnThreshold: this.config.warnThreshold,
+      crashThreshold: this.config.crashThreshold,
+      guildThreshold: this.config.guildThreshold,
+      safeMode: safeModeResumesInMs > 0,
+      safeModeResumesInMs,
+      pausedGuilds,
+      buckets,
+    };
+  }
+
+  private recordGuildAction(guildId: string, now: number, actionType: string | undefined): void {
+    let timestamps = this.guildTimestamps.get(guildId);
+    if (!timestamps) {
+      timestamps = [];
+      this.guildTimestamps.set(guildId, timestamps);
+    }
+
+    this.prune(timestamps, now);
+    timestamps.push(now);
+
+    if (timestamps.length === this.config.guildThreshold) {
+      this.logger.warn(
+        { guildId, actionCount: timestamps.length, guildThreshold: this.config.guildThreshold, actionType },
+        'Guild rate limit reached - pausing AFK enforcement for guild'
+      );
+    }
+  }
+
+  private recordActionType(actionType: string, now: number): void {
+    let timestamps = this.actionTypeTimestamps.get(actionType);
+    if (!timestamps) {
+      timestamps = [];
+      this.actionTypeTimestamps.set(actionType, timestamps);
+    }
+
+    this.prune(timestamps, now);
+    timestamps.push(now);
+  }
+
+  /**
+   * Safe mode ends once the window count falls back below the crash threshold.
+   */
+  private getSafeModeRemainingMs(now: number): number {
+    if (!this.safeMode) {
+      return 0;
+    }
+
+    const remaining = this.getRemainingOverThreshold(this.timestamps, this.config.crashThreshold, now);
+    if (remaining === 0) {
+      this.leaveSafeMode(this.getActionCount());
+    }
+    return remaining;
+  }
+
+  private leaveSafeMode(actionCount: number): void {
+    this.safeMode = false;
+    this.logger.info({ actionCount }, 'Rate limit recovered - leaving safe mode');
+  }
+
+  /**
+   * How long until enough timestamps leave the window for the count to drop below the threshold.
+   */
+  private getRemainingOverThreshold(timestamps: number[], threshold: number, now: number): number {
+    const windowStart = now - this.config.windowMs;
+    const inWindow = timestamps.filter((timestamp) => timestamp >= windowStart);
+    if (inWindow.length < threshold) {
+      return 0;
+    }
+
+    const expiringTimestamp = inWindow[inWindow.length - threshold];
+    return expiringTimestamp === undefined ? 0 : expiringTimestamp + this.config.windowMs - now + 1;
+  }
+
+  private getBucket(actionType: string, now: number): TokenBucket {
+    let bucket = this.buckets.get(actionType);
+    if (!bucket) {
+      bucket = { tokens: this.config.bucketCapacity, lastRefill: now, queued: 0, dropped: 0 };
+      this.buckets.set(actionType, bucket);
+      return bucket;
+    }
+
+    const elapsed = Math.max(0, now - bucket.lastRefill);
+    bucket.tokens = Math.min(
+      this.config.bucketCapacity,
+      bucket.tokens + (elapsed * this.config.bucketCapacity) / this.config.windowMs
+    );
+    bucket.lastRefill = now;
+    return bucket;
+  }
+
+  private drop(bucket: TokenBucket, actionType: string, guildId: string | undefined, waitMs: number): void {
+    bucket.dropped++;
+    this.logger.warn(
+      { actionType, guildId, waitMs, maxQueueMs: this.config.maxQueueMs, dropped: bucket.dropped },
+      'Rate limit bucket empty - dropping non-critical action'
+    );
+  }
+
+  private prune(timestamps: number[], now: number): void {
+    const windowStart = now - this.config.windowMs;
+    let firstTimestamp = timestamps[0];
+    while (firstTimestamp !== undefined && firstTimestamp < windowStart) {
+      timestamps.shift();
+      firstTimestamp = timestamps[0];
+    }
+  }
 }
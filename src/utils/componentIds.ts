@@ -0,0 +1,30 @@
+/**
+ * Custom ID prefix for the "I'm still here" button attached to AFK warnings.
+ */
+export const STILL_HERE_BUTTON_PREFIX = 'afk-still-here';
+
+/**
+ * Encodes the warned user into the button's custom ID so the click handler
+ * can check who is allowed to press it without any stored state.
+ */
+export function buildStillHereButtonId(guildId: string, userId: string): string {
+  return `${STILL_HERE_BUTTON_PREFIX}:${guildId}:${userId}`;
+}
+
+/**
+ * @returns null when the custom ID does not belong to a still-here button
+ */
+export function parseStillHereButtonId(customId: string): { guildId: string; userId: string } | null {
+  const [prefix, guildId, userId, ...rest] = customId.split(':');
+  if (
+    prefix !== STILL_HERE_BUTTON_PREFIX ||
+    guildId === undefined ||
+    guildId === '' ||
+    userId === undefined ||
+    userId === '' ||
+    rest.length > 0
+  ) {
+    return null;
+  }
+  return { guildId, userId };
+}
@@ -0,0 +1,59 @@
+const DURATION_UNIT_SECONDS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+};
+
+const DURATION_REGEX = /^(?:\d+[smhd])+$/;
+const DURATION_PART_REGEX = /(\d+)([smhd])/g;
+
+/**
+ * Parses a duration such as `30m`, `3h` or `1h30m`. Units are s, m, h and d;
+ * a bare number is read as minutes.
+ *
+ * @returns The duration in seconds, or null when the input is not a positive duration
+ */
+export function parseDuration(input: string): number | null {
+  const value = input.trim().toLowerCase().replace(/\s+/g, '');
+
+  if (/^\d+$/.test(value)) {
+    const minutes = Number(value);
+    return minutes > 0 ? minutes * 60 : null;
+  }
+
+  if (!DURATION_REGEX.test(value)) {
+    return null;
+  }
+
+  let seconds = 0;
+  for (const [, amount, unit] of value.matchAll(DURATION_PART_REGEX)) {
+    seconds += Number(amount) * (DURATION_UNIT_SECONDS[unit ?? ''] ?? 0);
+  }
+
+  return seconds > 0 ? seconds : null;
+}
+
+/**
+ * Formats a duration for display, such as `2d 3h`, `1h 5m` or `40s`. Seconds are
+ * only shown for durations under a minute.
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  if (total < 60) {
+    return `${total}s`;
+  }
+
+  const parts: string[] = [];
+  let remaining = Math.floor(total / 60) * 60;
+  for (const unit of ['d', 'h', 'm']) {
+    const unitSeconds = DURATION_UNIT_SECONDS[unit] ?? 1;
+    const amount = Math.floor(remaining / unitSeconds);
+    if (amount > 0) {
+      parts.push(`${amount}${unit}`);
+      remaining -= amount * unitSeconds;
+    }
+  }
+
+  return parts.join(' ');
+}
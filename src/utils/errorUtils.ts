@@ -53,3 +53,21 @@ export function formatError(error: unknown): { message: string; stack?: string }
     message: String(error),
   };
 }
+
+/**
+ * Extracts a machine-readable code from an error, such as the numeric code of a
+ * DiscordAPIError (e.g. 50013 for missing permissions) or a Node.js error code.
+ *
+ * @param error - The error value to inspect (can be any thrown value)
+ * @returns The code as a string, or 'unknown' when the error carries none
+ */
+export function getErrorCode(error: unknown): string {
+  if (error !== null && typeof error === 'object' && 'code' in error) {
+    const code = error.code;
+    if (typeof code === 'number' || (typeof code === 'string' && code !== '')) {
+      return String(code);
+    }
+  }
+
+  return 'unknown';
+}
@@ -0,0 +1,20 @@
+import type { VoiceBasedChannel } from 'discord.js';
+import type { GuildSettings } from '../database/repositories/GuildSettingsRepository';
+
+/**
+ * Whether nobody in the channel is tracked: the guild's own AFK channel, or a channel
+ * or category listed in the guild's exempt channels.
+ *
+ * @param afkChannelId - The guild's native AFK channel, if it has one
+ */
+export function isExemptChannel(
+  channel: Pick<VoiceBasedChannel, 'id' | 'parentId'>,
+  config: Pick<GuildSettings, 'exemptChannelIds'>,
+  afkChannelId: string | null
+): boolean {
+  if (channel.id === afkChannelId) {
+    return true;
+  }
+  return config.exemptChannelIds.includes(channel.id) ||
+    (channel.parentId !== null && config.exemptChannelIds.includes(channel.parentId));
+}
@@ -0,0 +1,139 @@
+import {
+  MESSAGE_LOCALES,
+  type GuildSettings,
+  type MessageLocale,
+  type MessageTemplateTextField,
+} from '../database/repositories/GuildSettingsRepository';
+
+export const DEFAULT_WARNING_COLOR = 0xFF9900;
+
+/**
+ * Longest text a guild may set for each template, leaving room for placeholders
+ * to expand within Discord's embed, DM and audit log reason limits.
+ */
+export const MESSAGE_TEMPLATE_MAX_LENGTHS: Record<MessageTemplateTextField, number> = {
+  warningTitle: 200,
+  warningBody: 1500,
+  kickReason: 200,
+  kickDm: 1500,
+};
+
+export const MESSAGE_PLACEHOLDERS = ['user', 'channel', 'seconds', 'timeout', 'server'] as const;
+
+const BUILT_IN_MESSAGES: Record<MessageLocale, Record<MessageTemplateTextField, string>> = {
+  en: {
+    warningTitle: 'AFK Warning',
+    warningBody: '{user} you will be disconnected from {channel} in {seconds} seconds due to inactivity.',
+    kickReason: 'AFK timeout',
+    kickDm: 'You were marked AFK in {channel} on {server} after {timeout} minutes without activity.',
+  },
+  de: {
+    warningTitle: 'AFK-Warnung',
+    warningBody: '{user}, du wirst in {seconds} Sekunden wegen Inaktivität aus {channel} entfernt.',
+    kickReason: 'AFK-Zeitüberschreitung',
+    kickDm: 'Du wurdest in {channel} auf {server} nach {timeout} Minuten ohne Aktivität als AFK markiert.',
+  },
+  es: {
+    warningTitle: 'Aviso de AFK',
+    warningBody: '{user}, serás desconectado de {channel} en {seconds} segundos por inactividad.',
+    kickReason: 'Tiempo de inactividad agotado',
+    kickDm: 'Se te marcó como AFK en {channel} de {server} tras {timeout} minutos sin actividad.',
+  },
+  fr: {
+    warningTitle: 'Avertissement AFK',
+    warningBody: '{user}, tu seras déconnecté de {channel} dans {seconds} secondes pour inactivité.',
+    kickReason: "Délai d'inactivité dépassé",
+    kickDm: 'Tu as été marqué AFK dans {channel} sur {server} après {timeout} minutes sans activité.',
+  },
+  'pt-BR': {
+    warningTitle: 'Aviso de AFK',
+    warningBody: '{user}, você será desconectado de {channel} em {seconds} segundos por inatividade.',
+    kickReason: 'Tempo de inatividade esgotado',
+    kickDm: 'Você foi marcado como AFK em {channel} no servidor {server} após {timeout} minutos sem atividade.',
+  },
+};
+
+/**
+ * Who and where a message is about.
+ */
+export interface MessageContext {
+  /** Mention of the member */
+  user: string;
+  /** Voice channel mention, or a plain description when the channel is unknown */
+  channel: string;
+  serverName: string;
+}
+
+export interface RenderedMessages {
+  locale: MessageLocale;
+  warningTitle: string;
+  warningBody: string;
+  warningColor: number;
+  kickReason: string;
+  kickDm: string;
+}
+
+/**
+ * Picks the language of the built-in messages: the guild's chosen locale, else
+ * its Discord preferred locale (matched exactly, then by language), else English.
+ */
+export function resolveMessageLocale(
+  configured: MessageLocale | null,
+  preferredLocale: string | null | undefined
+): MessageLocale {
+  if (configured !== null) {
+    return configured;
+  }
+  if (preferredLocale === null || preferredLocale === undefined) {
+    return 'en';
+  }
+
+  const exact = MESSAGE_LOCALES.find(locale => locale === preferredLocale);
+  if (exact !== undefined) {
+    return exact;
+  }
+
+  const language = preferredLocale.split('-')[0];
+  return MESSAGE_LOCALES.find(locale => locale.split('-')[0] === language) ?? 'en';
+}
+
+/**
+ * Replaces known placeholders; anything else in braces is left as written.
+ */
+export function renderTemplate(template: string, values: Record<typeof MESSAGE_PLACEHOLDERS[number], string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    (MESSAGE_PLACEHOLDERS as readonly string[]).includes(name) ? values[name as keyof typeof values] : match
+  );
+}
+
+/**
+ * Renders every message a guild sends about an AFK member, from its templates
+ * with the built-in translation filling any gaps.
+ *
+ * @param config - The effective config of the member's voice channel, so {seconds} and {timeout} match its timers
+ */
+export function renderMessages(
+  config: Pick<GuildSettings, 'messageLocale' | 'messageTemplates' | 'warningSecondsBefore' | 'afkTimeoutSeconds'>,
+  preferredLocale: string | null | undefined,
+  context: MessageContext
+): RenderedMessages {
+  const locale = resolveMessageLocale(config.messageLocale, preferredLocale);
+  const builtIn = BUILT_IN_MESSAGES[locale];
+  const templates = config.messageTemplates;
+  const values = {
+    user: context.user,
+    channel: context.channel,
+    seconds: String(config.warningSecondsBefore),
+    timeout: String(Math.max(1, Math.round(config.afkTimeoutSeconds / 60))),
+    server: context.serverName,
+  };
+
+  return {
+    locale,
+    warningTitle: renderTemplate(templates.warningTitle ?? builtIn.warningTitle, values),
+    warningBody: renderTemplate(templates.warningBody ?? builtIn.warningBody, values),
+    warningColor: templates.warningColor ?? DEFAULT_WARNING_COLOR,
+    kickReason: renderTemplate(templates.kickReason ?? builtIn.kickReason, values),
+    kickDm: renderTemplate(templates.kickDm ?? builtIn.kickDm, values),
+  };
+}
@@ -0,0 +1,227 @@
+/**
+ * Minimal Prometheus text exposition format (version 0.0.4) support.
+ *
+ * Only counters, gauges and histograms with string labels are implemented,
+ * which covers what the admin API exposes without pulling in a client library.
+ */
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+export type MetricLabels = Record<string, string>;
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Default latency buckets in seconds, tuned for an admin API that mostly
+ * answers from memory or SQLite.
+ */
+const DEFAULT_DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5];
+
+interface Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: MetricType;
+  collect(): string[];
+}
+
+/**
+ * Keys a labelled series. Label names are sorted so call order does not create duplicates.
+ */
+function serializeLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels).sort(([a], [b]) => a.localeCompare(b));
+  if (entries.length === 0) {
+    return '';
+  }
+  const pairs = entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return `{${pairs.join(',')}}`;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) {
+    return '+Inf';
+  }
+  if (value === -Infinity) {
+    return '-Inf';
+  }
+  return String(value);
+}
+
+/**
+ * Counter or gauge: one number per label set.
+ */
+abstract class ScalarMetric implements Metric {
+  abstract readonly type: MetricType;
+  readonly name: string;
+  readonly help: string;
+  protected readonly values: Map<string, number> = new Map();
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.values.get(serializeLabels(labels)) ?? 0;
+  }
+
+  collect(): string[] {
+    const lines: string[] = [];
+    for (const [labels, value] of this.values) {
+      lines.push(`${this.name}${labels} ${formatValue(value)}`);
+    }
+    return lines;
+  }
+}
+
+export class Counter extends ScalarMetric {
+  readonly type = 'counter';
+
+  inc(labels: MetricLabels = {}, amount: number = 1): void {
+    if (amount < 0) {
+      throw new Error(`Counter ${this.name} cannot be decreased`);
+    }
+    const key = serializeLabels(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + amount);
+  }
+}
+
+export class Gauge extends ScalarMetric {
+  readonly type = 'gauge';
+
+  set(labels: MetricLabels, value: number): void {
+    this.values.set(serializeLabels(labels), value);
+  }
+
+  /**
+   * Drops every series; used before refreshing gauges whose label sets come and go
+   * (e.g. guilds that no longer have tracked users).
+   */
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+interface HistogramSeries {
+  labels: MetricLabels;
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram implements Metric {
+  readonly type = 'histogram';
+  readonly name: string;
+  readonly help: string;
+  private readonly buckets: number[];
+  private readonly series: Map<string, HistogramSeries> = new Map();
+
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_DURATION_BUCKETS) {
+    this.name = name;
+    this.help = help;
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const key = serializeLabels(labels);
+    const series = this.series.get(key) ?? { labels, bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.series.set(key, series);
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.bucketCounts[index] = (series.bucketCounts[index] ?? 0) + 1;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  getCount(labels: MetricLabels = {}): number {
+    return this.series.get(serializeLabels(labels))?.count ?? 0;
+  }
+
+  collect(): string[] {
+    const lines: string[] = [];
+    for (const [key, series] of this.series) {
+      this.buckets.forEach((bound, index) => {
+        const bucketLabels = serializeLabels({ ...series.labels, le: formatValue(bound) });
+        lines.push(`${this.name}_bucket${bucketLabels} ${series.bucketCounts[index] ?? 0}`);
+      });
+      lines.push(`${this.name}_bucket${serializeLabels({ ...series.labels, le: '+Inf' })} ${series.count}`);
+      lines.push(`${this.name}_sum${key} ${formatValue(series.sum)}`);
+      lines.push(`${this.name}_count${key} ${series.count}`);
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics: Map<string, Metric> = new Map();
+
+  register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+
+  /**
+   * Renders every registered metric in the Prometheus text format.
+   */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.collect());
+    }
+    return `${lines.join('\n')}\n`;
+  }
+}
+
+/**
+ * The bot's metrics. Counters and the latency histogram are updated as events happen;
+ * gauges describing current state are refreshed when `/metrics` is scraped.
+ */
+export class BotMetrics {
+  readonly registry = new MetricsRegistry();
+
+  readonly warningsSent = this.registry.register(
+    new Counter('shawnbot_warnings_sent_total', 'AFK warnings delivered to a text channel')
+  );
+
+  /** Labelled by the configured AFK action (disconnect, move, mute, timeout, role). */
+  readonly afkActions = this.registry.register(
+    new Counter('shawnbot_afk_actions_total', 'AFK actions applied to members whose timeout expired')
+  );
+
+  /** Labelled by Discord API error code, or a bot-side reason such as missing_permissions. */
+  readonly afkActionFailures = this.registry.register(
+    new Counter('shawnbot_afk_action_failures_total', 'AFK actions that could not be applied')
+  );
+
+  readonly trackedUsers = this.registry.register(
+    new Gauge('shawnbot_tracked_users', 'Members currently being timed for AFK, per guild')
+  );
+
+  readonly voiceConnections = this.registry.register(
+    new Gauge('shawnbot_voice_connections', 'Monitored voice connections by connection state')
+  );
+
+  readonly rateLimiterWindowActions = this.registry.register(
+    new Gauge('shawnbot_rate_limiter_window_actions', 'Discord API actions in the current rate limiter window, per action type')
+  );
+
+  /** Labelled by result: hit or miss. */
+  readonly configCacheLookups = this.registry.register(
+    new Counter('shawnbot_config_cache_lookups_total', 'Guild config cache lookups')
+  );
+
+  readonly apiRequestDuration = this.registry.register(
+    new Histogram('shawnbot_api_request_duration_seconds', 'Admin API request latency')
+  );
+}
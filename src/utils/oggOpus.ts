@@ -0,0 +1,60 @@
+const OGG_CAPTURE_PATTERN = 'OggS';
+const OGG_PAGE_HEADER_LENGTH = 27;
+const OPUS_HEAD_MAGIC = 'OpusHead';
+/** Opus granule positions always count 48 kHz samples, whatever the input rate was */
+const OPUS_GRANULE_RATE = 48_000;
+
+/**
+ * Reads the length of an Ogg Opus file from the granule position of its last page.
+ * @discordjs/voice plays Ogg Opus by demuxing alone, so a file that passes this
+ * check needs no FFmpeg or Opus encoder to play.
+ *
+ * @returns The duration in seconds, or null when the data is not a complete Ogg Opus stream
+ */
+export function getOggOpusDuration(data: Buffer): number | null {
+  let offset = 0;
+  let preSkip: number | null = null;
+  let lastGranule = -1n;
+
+  while (offset < data.length) {
+    if (offset + OGG_PAGE_HEADER_LENGTH > data.length
+      || data.toString('latin1', offset, offset + 4) !== OGG_CAPTURE_PATTERN) {
+      return null;
+    }
+
+    const segmentCount = data[offset + 26] ?? 0;
+    const bodyStart = offset + OGG_PAGE_HEADER_LENGTH + segmentCount;
+    if (bodyStart > data.length) {
+      return null;
+    }
+
+    let bodyLength = 0;
+    for (let index = offset + OGG_PAGE_HEADER_LENGTH; index < bodyStart; index++) {
+      bodyLength += data[index] ?? 0;
+    }
+    if (bodyStart + bodyLength > data.length) {
+      return null;
+    }
+
+    if (preSkip === null) {
+      if (bodyLength < 19 || data.toString('latin1', bodyStart, bodyStart + 8) !== OPUS_HEAD_MAGIC) {
+        return null;
+      }
+      preSkip = data.readUInt16LE(bodyStart + 10);
+    }
+
+    // -1 marks a page on which no packet ends
+    const granule = data.readBigInt64LE(offset + 6);
+    if (granule >= 0n) {
+      lastGranule = granule;
+    }
+
+    offset = bodyStart + bodyLength;
+  }
+
+  if (preSkip === null || lastGranule <= BigInt(preSkip)) {
+    return null;
+  }
+
+  return Number(lastGranule - BigInt(preSkip)) / OPUS_GRANULE_RATE;
+}
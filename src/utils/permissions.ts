@@ -1,5 +1,6 @@
-import { ChatInputCommandInteraction, PermissionFlagsBits } from 'discord.js';
+import { ChatInputCommandInteraction, GuildMember, PermissionFlagsBits, type PermissionsString } from 'discord.js';
 import { GuildConfigService } from '../services/GuildConfigService';
+import type { AFKAction } from '../database/repositories/GuildSettingsRepository';
 
 /**
  * Checks if the user has permission to manage AFK settings.
@@ -36,3 +37,34 @@ export function hasAFKAdminPermission(
 
   return config.adminRoleIds.some(roleId => memberRoles.cache.has(roleId));
 }
+
+/**
+ * Bot permissions required to carry out each AFK action.
+ */
+export const AFK_ACTION_PERMISSIONS: Record<AFKAction, PermissionsString[]> = {
+  disconnect: ['MoveMembers'],
+  move: ['MoveMembers'],
+  mute: ['MuteMembers', 'DeafenMembers'],
+  timeout: ['ModerateMembers'],
+  role: ['ManageRoles'],
+};
+
+/**
+ * Lists the permissions the bot is missing for an AFK action.
+ *
+ * @param botMember - The bot's own member in the guild (guild.members.me)
+ * @param action - The configured AFK action
+ * @returns Names of missing permissions; empty when the action can be performed
+ */
+export function getMissingAFKActionPermissions(
+  botMember: GuildMember | null | undefined,
+  action: AFKAction
+): PermissionsString[] {
+  const required = AFK_ACTION_PERMISSIONS[action];
+
+  if (!botMember) {
+    return [...required];
+  }
+
+  return botMember.permissions.missing(required);
+}
@@ -0,0 +1,111 @@
+import type { GuildSettings, ScheduleWindow } from '../database/repositories/GuildSettingsRepository';
+
+/**
+ * How often enforcement schedules are re-evaluated. Windows are set to the minute,
+ * so this is also how late enforcement can start or stop after a boundary.
+ */
+export const SCHEDULE_CHECK_INTERVAL_MS = 60 * 1000;
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'] as const;
+
+const TIME_OF_DAY_REGEX = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const SHORT_WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * @returns Minutes after midnight, or null when the value is not HH:MM (00:00-23:59)
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = TIME_OF_DAY_REGEX.exec(value);
+  if (match === null) {
+    return null;
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns why a window is invalid, or null when it is valid.
+ */
+export function validateScheduleWindow(window: ScheduleWindow): string | null {
+  if (
+    window.days.length === 0 ||
+    !window.days.every(day => Number.isInteger(day) && day >= 0 && day <= 6) ||
+    new Set(window.days).size !== window.days.length
+  ) {
+    return 'days must be a non-empty list of distinct weekdays from 0 (Sunday) to 6 (Saturday)';
+  }
+
+  const start = parseTimeOfDay(window.start);
+  const end = parseTimeOfDay(window.end);
+  if (start === null || end === null) {
+    return 'start and end must be times in HH:MM format';
+  }
+
+  if (start === end) {
+    return 'start and end must differ';
+  }
+
+  return null;
+}
+
+/**
+ * Whether AFK handling should run for the guild at `now`. Guilds without
+ * schedule windows are always active.
+ */
+export function isWithinSchedule(
+  config: Pick<GuildSettings, 'scheduleTimeZone' | 'scheduleType' | 'scheduleWindows'>,
+  now: number = Date.now()
+): boolean {
+  if (config.scheduleWindows.length === 0) {
+    return true;
+  }
+
+  // A zone dropped from the runtime's time zone data falls back to UTC instead of throwing
+  const timeZone = isValidTimeZone(config.scheduleTimeZone) ? config.scheduleTimeZone : 'UTC';
+  const { weekday, minutes } = getLocalTime(timeZone, now);
+  const inWindow = config.scheduleWindows.some(window => isInWindow(window, weekday, minutes));
+
+  return config.scheduleType === 'active' ? inWindow : !inWindow;
+}
+
+function isInWindow(window: ScheduleWindow, weekday: number, minutes: number): boolean {
+  const start = parseTimeOfDay(window.start);
+  const end = parseTimeOfDay(window.end);
+  if (start === null || end === null) {
+    return false;
+  }
+
+  if (start < end) {
+    return window.days.includes(weekday) && minutes >= start && minutes < end;
+  }
+
+  // Overnight window: the part after midnight belongs to the day it started on
+  const previousDay = (weekday + 6) % 7;
+  return (window.days.includes(weekday) && minutes >= start) || (window.days.includes(previousDay) && minutes < end);
+}
+
+function getLocalTime(timeZone: string, now: number): { weekday: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+
+  const part = (type: Intl.DateTimeFormatPartTypes): string => parts.find(p => p.type === type)?.value ?? '';
+
+  return {
+    weekday: SHORT_WEEKDAYS.indexOf(part('weekday')),
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
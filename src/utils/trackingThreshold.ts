@@ -0,0 +1,39 @@
+import type { GuildMember, VoiceBasedChannel } from 'discord.js';
+import type { GuildSettings } from '../database/repositories/GuildSettingsRepository';
+
+export type TrackingThresholdRules = Pick<GuildSettings, 'minUsersForTracking' | 'countDeafenedUsers' | 'countBots'>;
+
+/**
+ * Whether a member counts toward the guild's minimum-user threshold.
+ *
+ * @param isVoiceIdentity - Recognises the bot's own voice identities, which never count
+ */
+export function countsTowardThreshold(
+  member: GuildMember,
+  rules: TrackingThresholdRules,
+  isVoiceIdentity: (userId: string) => boolean
+): boolean {
+  if (member.user.bot) {
+    return rules.countBots && !isVoiceIdentity(member.id);
+  }
+  return rules.countDeafenedUsers || member.voice.deaf !== true;
+}
+
+export function countThresholdMembers(
+  channel: VoiceBasedChannel,
+  rules: TrackingThresholdRules,
+  isVoiceIdentity: (userId: string) => boolean
+): number {
+  return channel.members.filter(member => countsTowardThreshold(member, rules, isVoiceIdentity)).size;
+}
+
+/**
+ * Whether the channel has enough counted members for anyone in it to be tracked.
+ */
+export function meetsTrackingThreshold(
+  channel: VoiceBasedChannel,
+  rules: TrackingThresholdRules,
+  isVoiceIdentity: (userId: string) => boolean
+): boolean {
+  return countThresholdMembers(channel, rules, isVoiceIdentity) >= rules.minUsersForTracking;
+}
@@ -0,0 +1,97 @@
+import { existsSync } from 'fs';
+import { mkdir, rename, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import type { Logger } from 'pino';
+import { getOggOpusDuration } from '../utils/oggOpus';
+
+/** Chime played for guilds that have not uploaded their own */
+export const BUNDLED_CHIME_PATH = fileURLToPath(new URL('../../assets/warning-chime.ogg', import.meta.url));
+
+export const MAX_CHIME_BYTES = 512 * 1024;
+export const MAX_CHIME_SECONDS = 10;
+
+/**
+ * Explains why audio cannot be used as a chime.
+ *
+ * @returns An error message, or null when the audio is a short enough Ogg Opus file
+ */
+export function getChimeError(data: Buffer): string | null {
+  if (data.length === 0 || data.length > MAX_CHIME_BYTES) {
+    return `Chime must be an Ogg Opus file of at most ${MAX_CHIME_BYTES / 1024} KB`;
+  }
+
+  const duration = getOggOpusDuration(data);
+  if (duration === null) {
+    return 'Chime must be an Ogg Opus file (.ogg or .opus); other formats would need FFmpeg to play';
+  }
+  if (duration > MAX_CHIME_SECONDS) {
+    return `Chime must be at most ${MAX_CHIME_SECONDS} seconds long`;
+  }
+
+  return null;
+}
+
+/**
+ * Keeps guild-uploaded warning chimes on disk, one Ogg Opus file per guild.
+ */
+export class ChimeStore {
+  private directory: string;
+  private logger: Logger;
+
+  constructor(directory: string, logger: Logger) {
+    this.directory = directory;
+    this.logger = logger;
+  }
+
+  /**
+   * Returns the file to play for a guild: its uploaded chime, else the bundled one.
+   */
+  getChimePath(guildId: string): string {
+    const customPath = this.getCustomPath(guildId);
+    return existsSync(customPath) ? customPath : BUNDLED_CHIME_PATH;
+  }
+
+  hasCustomChime(guildId: string): boolean {
+    return existsSync(this.getCustomPath(guildId));
+  }
+
+  /**
+   * Stores a guild's chime, replacing any earlier upload. The audio must already
+   * have passed getChimeError.
+   */
+  async save(guildId: string, data: Buffer): Promise<void> {
+    const customPath = this.getCustomPath(guildId);
+    const partialPath = `${customPath}.partial`;
+
+    await mkdir(this.directory, { recursive: true });
+    // Write then rename so a warning never plays a half-written file
+    await writeFile(partialPath, data);
+    await rename(partialPath, customPath);
+
+    this.logger.info({ guildId, bytes: data.length }, 'Custom warning chime saved');
+  }
+
+  /**
+   * Deletes a guild's chime so the bundled one plays again.
+   *
+   * @returns true if the guild had a chime to delete
+   */
+  async remove(guildId: string): Promise<boolean> {
+    if (!this.hasCustomChime(guildId)) {
+      return false;
+    }
+
+    await rm(this.getCustomPath(guildId), { force: true });
+    this.logger.info({ guildId }, 'Custom warning chime removed');
+    return true;
+  }
+
+  private getCustomPath(guildId: string): string {
+    // Guild IDs become file names, so anything but a snowflake is refused
+    if (!/^\d+$/.test(guildId)) {
+      throw new Error(`Invalid guild ID for chime: ${guildId}`);
+    }
+    return join(this.directory, `${guildId}.ogg`);
+  }
+}
@@ -3,8 +3,11 @@ import { VoiceConnection } from '@discordjs/voice';
 import type { Logger } from 'pino';
 
 export interface SpeakingTrackerEvents {
-  userStartedSpeaking: (userId: string, guildId: string) => void;
-  userStoppedSpeaking: (userId: string, guildId: string) => void;
+  userStartedSpeaking: (userId: string, guildId: string, channelId: string) => void;
+  userStoppedSpeaking: (userId: string, guildId: string, channelId: string) => void;
+  /** The bot can now hear who speaks in the channel */
+  connectionRegistered: (guildId: string, channelId: string) => void;
+  connectionUnregistered: (channelId: string) => void;
 }
 
 // ESLint disable for intentional declaration merging pattern (typed EventEmitter)
@@ -28,6 +31,7 @@ export declare interface SpeakingTracker {
 
 // eslint-disable-next-line @typescript-eslint/no-unsafe-declaration-merging
 export class SpeakingTracker extends EventEmitter {
+  /** Voice connections keyed by channel ID */
   private connections: Map<string, VoiceConnection>;
   private logger: Logger;
 
@@ -37,65 +41,75 @@ export class SpeakingTracker extends EventEmitter {
     this.logger = logger;
   }
 
-  public registerConnection(guildId: string, connection: VoiceConnection): void {
-    if (this.connections.has(guildId)) {
-      this.logger.warn({ guildId }, 'Connection already registered, replacing');
-      this.unregisterConnection(guildId);
+  public registerConnection(guildId: string, channelId: string, connection: VoiceConnection): void {
+    if (this.connections.has(channelId)) {
+      this.logger.warn({ guildId, channelId }, 'Connection already registered, replacing');
+      this.unregisterConnection(channelId);
     }
 
-    this.connections.set(guildId, connection);
+    this.connections.set(channelId, connection);
 
     const receiver = connection.receiver;
 
     receiver.speaking.on('start', (userId: string) => {
       if (this.logger.isLevelEnabled('debug')) {
-        this.logger.debug({ userId, guildId, action: 'speaking_start' }, 'User started speaking');
+        this.logger.debug({ userId, guildId, channelId, action: 'speaking_start' }, 'User started speaking');
       }
       try {
-        this.emit('userStartedSpeaking', userId, guildId);
+        this.emit('userStartedSpeaking', userId, guildId, channelId);
       } catch (error) {
-        this.logger.error({ error, userId, guildId }, 'Error emitting userStartedSpeaking event');
+        this.logger.error({ error, userId, guildId, channelId }, 'Error emitting userStartedSpeaking event');
       }
     });
 
     receiver.speaking.on('end', (userId: string) => {
       if (this.logger.isLevelEnabled('debug')) {
-        this.logger.debug({ userId, guildId, action: 'speaking_stop' }, 'User stopped speaking');
+        this.logger.debug({ userId, guildId, channelId, action: 'speaking_stop' }, 'User stopped speaking');
       }
       try {
-        this.emit('userStoppedSpeaking', userId, guildId);
+        this.emit('userStoppedSpeaking', userId, guildId, channelId);
       } catch (error) {
-        this.logger.error({ error, userId, guildId }, 'Error emitting userStoppedSpeaking event');
+        this.logger.error({ error, userId, guildId, channelId }, 'Error emitting userStoppedSpeaking event');
       }
     });
 
-    this.logger.info({ guildId }, 'Voice connection registered for speaking tracking');
+    this.logger.info({ guildId, channelId }, 'Voice connection registered for speaking tracking');
+    try {
+      this.emit('connectionRegistered', guildId, channelId);
+    } catch (error) {
+      this.logger.error({ error, guildId, channelId }, 'Error emitting connectionRegistered event');
+    }
     if (this.logger.isLevelEnabled('debug')) {
-      this.logger.debug({ guildId, action: 'tracker_register' }, 'Registered speaking tracker for connection');
+      this.logger.debug({ guildId, channelId, action: 'tracker_register' }, 'Registered speaking tracker for connection');
     }
   }
 
-  public unregisterConnection(guildId: string): void {
-    const connection = this.connections.get(guildId);
+  public unregisterConnection(channelId: string): void {
+    const connection = this.connections.get(channelId);
 
     if (connection) {
       connection.receiver.speaking.removeAllListeners();
-      this.connections.delete(guildId);
-      this.logger.info({ guildId }, 'Voice connection unregistered from speaking tracking');
+      this.connections.delete(channelId);
+      this.logger.info({ channelId }, 'Voice connection unregistered from speaking tracking');
+      try {
+        this.emit('connectionUnregistered', channelId);
+      } catch (error) {
+        this.logger.error({ error, channelId }, 'Error emitting connectionUnregistered event');
+      }
     }
   }
 
-  public getConnection(guildId: string): VoiceConnection | undefined {
-    return this.connections.get(guildId);
+  public getConnection(channelId: string): VoiceConnection | undefined {
+    return this.connections.get(channelId);
   }
 
-  public hasConnection(guildId: string): boolean {
-    return this.connections.has(guildId);
+  public hasConnection(channelId: string): boolean {
+    return this.connections.has(channelId);
   }
 
   public clear(): void {
-    for (const guildId of this.connections.keys()) {
-      this.unregisterConnection(guildId);
+    for (const channelId of this.connections.keys()) {
+      this.unregisterConnection(channelId);
     }
     this.logger.info('All connections cleared from speaking tracker');
   }
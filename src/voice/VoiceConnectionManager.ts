@@ -7,13 +7,15 @@ import {
   createAudioResource,
   StreamType,
   AudioPlayerStatus,
-  DiscordGatewayAdapterCreator
+  DiscordGatewayAdapterCreator,
+  type PlayerSubscription
 } from '@discordjs/voice';
 import type { VoiceBasedChannel, Client } from 'discord.js';
 import type { Logger } from 'pino';
 import { SpeakingTracker } from './SpeakingTracker';
 import { RateLimiter } from '../utils/RateLimiter';
 import { Readable } from 'stream';
+import { createReadStream } from 'fs';
 
 /**
  * A minimal valid Opus packet representing silence.
@@ -30,56 +32,346 @@ interface ConnectionEventListeners {
   onDestroyed: () => void;
 }
 
+/**
+ * A bot account that can hold one voice connection per guild.
+ * Discord only allows a single voice connection per bot user in a guild, so
+ * monitoring several channels at once needs one identity per channel.
+ * The group is passed to @discordjs/voice to keep each identity's connections apart.
+ */
+interface VoiceIdentity {
+  group: string;
+  client: Client;
+}
+
+/**
+ * A join still waiting for its connection to become ready. It holds the identity
+ * so a concurrent join in the same guild picks another one.
+ */
+interface PendingJoin {
+  guildId: string;
+  group: string;
+  connection: Promise<VoiceConnection>;
+}
+
+/**
+ * Group name @discordjs/voice uses when none is given; reserved for the primary bot.
+ */
+const PRIMARY_VOICE_GROUP = 'default';
+
+/**
+ * Longest a clip may keep a connection unmuted, in case the player never goes idle.
+ */
+const MAX_CLIP_MS = 15_000;
+
 export class VoiceConnectionManager {
+  /** Voice connections keyed by channel ID */
   private connections: Map<string, VoiceConnection>;
   private connectionListeners: Map<string, ConnectionEventListeners>;
+  /** Joins in progress keyed by channel ID */
+  private pendingJoins: Map<string, PendingJoin>;
   private speakingTracker: SpeakingTracker;
   private client: Client;
   private logger: Logger;
   private rateLimiter: RateLimiter;
-
-  constructor(speakingTracker: SpeakingTracker, client: Client, logger: Logger, rateLimiter: RateLimiter) {
+  private identities: VoiceIdentity[];
+  /** Channels where a clip is playing right now */
+  private playingClips: Set<string>;
+
+  constructor(
+    speakingTracker: SpeakingTracker,
+    client: Client,
+    logger: Logger,
+    rateLimiter: RateLimiter,
+    helperClients: Client[] = []
+  ) {
     this.connections = new Map();
     this.connectionListeners = new Map();
+    this.pendingJoins = new Map();
+    this.playingClips = new Set();
     this.speakingTracker = speakingTracker;
     this.client = client;
     this.logger = logger;
     this.rateLimiter = rateLimiter;
+    this.identities = [
+      { group: PRIMARY_VOICE_GROUP, client },
+      ...helperClients.map((helperClient, index) => ({ group: `helper-${index + 1}`, client: helperClient })),
+    ];
   }
 
   public async joinChannel(channel: VoiceBasedChannel): Promise<VoiceConnection> {
     const guildId = channel.guild.id;
+    const channelId = channel.id;
 
-    const existingConnection = this.connections.get(guildId);
+    const existingConnection = this.connections.get(channelId);
     if (existingConnection) {
-      this.logger.warn({ guildId, channelId: channel.id }, 'Already connected to a channel in this guild');
+      this.logger.warn({ guildId, channelId }, 'Already connected to this channel');
       return existingConnection;
     }
 
+    const pendingJoin = this.pendingJoins.get(channelId);
+    if (pendingJoin) {
+      if (this.logger.isLevelEnabled('debug')) {
+        this.logger.debug({ guildId, channelId, action: 'connection_join_pending' }, 'Already joining this channel');
+      }
+      return pendingJoin.connection;
+    }
+
+    const identity = this.findAvailableIdentity(guildId);
+    if (!identity) {
+      this.logger.warn(
+        { guildId, channelId, identityCount: this.identities.length },
+        'No voice identity available in this guild'
+      );
+      throw new Error(`No voice identity available to join channel ${channelId} in guild ${guildId}`);
+    }
+
+    // Reserved before the first await, until the join succeeds or fails
+    const connection = this.connectIdentity(channel, identity);
+    this.pendingJoins.set(channelId, { guildId, group: identity.group, connection });
+
+    try {
+      return await connection;
+    } finally {
+      this.pendingJoins.delete(channelId);
+    }
+  }
+
+  public leaveChannel(channelId: string): void {
+    const connection = this.connections.get(channelId);
+
+    if (connection) {
+      const guildId = connection.joinConfig?.guildId;
+      if (this.logger.isLevelEnabled('debug')) {
+        this.logger.debug({ guildId, channelId, action: 'connection_leave' }, 'Leaving voice channel');
+      }
+
+      // Remove event listeners before destroying to prevent memory leaks
+      const listeners = this.connectionListeners.get(channelId);
+      if (listeners) {
+        connection.off(VoiceConnectionStatus.Disconnected, listeners.onDisconnected);
+        connection.off(VoiceConnectionStatus.Destroyed, listeners.onDestroyed);
+        this.connectionListeners.delete(channelId);
+      }
+
+      this.speakingTracker.unregisterConnection(channelId);
+      connection.destroy();
+      this.connections.delete(channelId);
+    }
+  }
+
+  /**
+   * Leaves every monitored channel in a guild.
+   */
+  public leaveGuild(guildId: string): void {
+    for (const channelId of this.getChannelIds(guildId)) {
+      this.leaveChannel(channelId);
+    }
+  }
+
+  /**
+   * Plays an Ogg Opus file in a monitored channel, unmuting for the playback and
+   * self-muting again afterward. Ogg Opus is only demuxed, never transcoded, so
+   * this works without FFmpeg.
+   *
+   * @returns true if the clip played, false if the channel is not monitored, already playing a clip, or playback failed
+   */
+  public async playClip(channelId: string, filePath: string): Promise<boolean> {
+    const connection = this.connections.get(channelId);
+    if (!connection || this.playingClips.has(channelId)) {
+      return false;
+    }
+
+    const guildId = connection.joinConfig.guildId;
+    const player = createAudioPlayer();
+    let subscription: PlayerSubscription | undefined;
+    this.playingClips.add(channelId);
+
+    try {
+      this.setSelfMute(connection, false);
+      subscription = connection.subscribe(player);
+      player.play(createAudioResource(createReadStream(filePath), { inputType: StreamType.OggOpus }));
+
+      await new Promise<void>((resolve, reject) => {
+        const timeout = setTimeout(resolve, MAX_CLIP_MS);
+        player.on(AudioPlayerStatus.Idle, () => {
+          clearTimeout(timeout);
+          resolve();
+        });
+        player.on('error', (error) => {
+          clearTimeout(timeout);
+          reject(error);
+        });
+      });
+
+      if (this.logger.isLevelEnabled('debug')) {
+        this.logger.debug({ guildId, channelId, filePath, action: 'clip_played' }, 'Played audio clip');
+      }
+      return true;
+    } catch (error) {
+      this.logger.warn({ guildId, channelId, filePath, error }, 'Failed to play audio clip');
+      return false;
+    } finally {
+      player.stop();
+      subscription?.unsubscribe();
+      // The connection may have been left while the clip played
+      if (this.connections.get(channelId) === connection) {
+        this.setSelfMute(connection, true);
+      }
+      this.playingClips.delete(channelId);
+    }
+  }
+
+  public getConnection(channelId: string): VoiceConnection | undefined {
+    return this.connections.get(channelId);
+  }
+
+  /**
+   * Returns true if any identity is connected to a voice channel in the guild.
+   */
+  public hasConnection(guildId: string): boolean {
+    for (const connection of this.connections.values()) {
+      if (connection.joinConfig?.guildId === guildId) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  public hasChannelConnection(channelId: string): boolean {
+    return this.connections.has(channelId);
+  }
+
+  /**
+   * Returns true if an identity in the pool can still join another channel in the guild.
+   */
+  public hasAvailableIdentity(guildId: string): boolean {
+    return this.findAvailableIdentity(guildId) !== null;
+  }
+
+  /**
+   * Returns the IDs of monitored channels, optionally limited to one guild.
+   */
+  public getChannelIds(guildId?: string): string[] {
+    const channelIds: string[] = [];
+    for (const [channelId, connection] of this.connections) {
+      if (guildId === undefined || connection.joinConfig?.guildId === guildId) {
+        channelIds.push(channelId);
+      }
+    }
+    return channelIds;
+  }
+
+  public getAllGuildIds(): string[] {
+    const guildIds = new Set<string>();
+    for (const connection of this.connections.values()) {
+      const guildId = connection.joinConfig?.guildId;
+      if (guildId !== undefined) {
+        guildIds.add(guildId);
+      }
+    }
+    return Array.from(guildIds);
+  }
+
+  /**
+   * Counts monitored connections by their current @discordjs/voice status (e.g. ready, signalling).
+   */
+  public getConnectionStatusCounts(): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const connection of this.connections.values()) {
+      const status = connection.state.status;
+      counts.set(status, (counts.get(status) ?? 0) + 1);
+    }
+    return counts;
+  }
+
+  public getIdentityCount(): number {
+    return this.identities.length;
+  }
+
+  /**
+   * Returns true if the user is the primary bot or one of the helper identities.
+   */
+  public isVoiceIdentity(userId: string): boolean {
+    return this.identities.some(identity => identity.client.user?.id === userId);
+  }
+
+  public disconnectAll(): void {
+    this.logger.info('Disconnecting all voice connections');
+    for (const channelId of this.connections.keys()) {
+      this.leaveChannel(channelId);
+    }
+  }
+
+  /**
+   * Picks the first identity that is a member of the guild and has no connection or pending
+   * join there yet. The primary bot is always considered a member since events only arrive
+   * for its guilds.
+   */
+  private findAvailableIdentity(guildId: string): VoiceIdentity | null {
+    const usedGroups = new Set<string>();
+    for (const connection of this.connections.values()) {
+      if (connection.joinConfig?.guildId === guildId) {
+        usedGroups.add(connection.joinConfig.group ?? PRIMARY_VOICE_GROUP);
+      }
+    }
+    for (const pendingJoin of this.pendingJoins.values()) {
+      if (pendingJoin.guildId === guildId) {
+        usedGroups.add(pendingJoin.group);
+      }
+    }
+
+    for (const identity of this.identities) {
+      if (usedGroups.has(identity.group)) {
+        continue;
+      }
+      if (identity.group !== PRIMARY_VOICE_GROUP && !identity.client.guilds.cache.has(guildId)) {
+        continue;
+      }
+      return identity;
+    }
+
+    return null;
+  }
+
+  /**
+   * Connects the identity to the channel and starts listening once the connection is ready.
+   */
+  private async connectIdentity(channel: VoiceBasedChannel, identity: VoiceIdentity): Promise<VoiceConnection> {
+    const guildId = channel.guild.id;
+    const channelId = channel.id;
+
+    const adapterCreator = identity.group === PRIMARY_VOICE_GROUP
+      ? channel.guild.voiceAdapterCreator
+      : identity.client.guilds.cache.get(guildId)?.voiceAdapterCreator;
+
     if (this.logger.isLevelEnabled('debug')) {
-      this.logger.debug({ guildId, channelId: channel.id, action: 'connection_join' }, 'Joining voice channel');
+      this.logger.debug(
+        { guildId, channelId, group: identity.group, action: 'connection_join' },
+        'Joining voice channel'
+      );
     }
 
-    this.rateLimiter.recordAction('joinVoiceChannel');
+    this.rateLimiter.recordAction('joinVoiceChannel', guildId);
 
     const connection = joinVoiceChannel({
-      channelId: channel.id,
+      channelId,
       guildId: guildId,
-      adapterCreator: channel.guild.voiceAdapterCreator as DiscordGatewayAdapterCreator,
+      group: identity.group,
+      adapterCreator: adapterCreator as DiscordGatewayAdapterCreator,
       selfDeaf: false,
       selfMute: true
     });
 
     try {
       await entersState(connection, VoiceConnectionStatus.Ready, 30_000);
-      this.logger.info({ guildId, channelId: channel.id }, 'Voice connection ready');
+      this.logger.info({ guildId, channelId, group: identity.group }, 'Voice connection ready');
     } catch (error) {
-      this.logger.error({ guildId, channelId: channel.id, error }, 'Failed to establish voice connection');
+      this.logger.error({ guildId, channelId, error }, 'Failed to establish voice connection');
       connection.destroy();
       throw error;
     }
 
-    this.connections.set(guildId, connection);
+    this.connections.set(channelId, connection);
 
     // Store event listener references for proper cleanup
     const onDisconnected = async (): Promise<void> => {
@@ -88,71 +380,36 @@ export class VoiceConnectionManager {
           entersState(connection, VoiceConnectionStatus.Signalling, 5_000),
           entersState(connection, VoiceConnectionStatus.Connecting, 5_000)
         ]);
-        this.logger.info({ guildId }, 'Voice connection reconnecting');
+        this.logger.info({ guildId, channelId }, 'Voice connection reconnecting');
       } catch (error) {
-        this.logger.warn({ guildId, error }, 'Voice connection disconnected, cleaning up');
-        this.leaveChannel(guildId);
+        this.logger.warn({ guildId, channelId, error }, 'Voice connection disconnected, cleaning up');
+        this.leaveChannel(channelId);
       }
     };
 
     const onDestroyed = (): void => {
       if (this.logger.isLevelEnabled('debug')) {
-        this.logger.debug({ guildId, action: 'connection_destroyed' }, 'Voice connection destroyed');
+        this.logger.debug({ guildId, channelId, action: 'connection_destroyed' }, 'Voice connection destroyed');
       }
-      this.leaveChannel(guildId);
+      this.leaveChannel(channelId);
     };
 
     connection.on(VoiceConnectionStatus.Disconnected, onDisconnected);
     connection.on(VoiceConnectionStatus.Destroyed, onDestroyed);
 
-    this.connectionListeners.set(guildId, { onDisconnected, onDestroyed });
+    this.connectionListeners.set(channelId, { onDisconnected, onDestroyed });
 
     await this.playSilence(connection);
 
-    this.speakingTracker.registerConnection(guildId, connection);
+    this.speakingTracker.registerConnection(guildId, channelId, connection);
 
     return connection;
   }
 
-  public leaveChannel(guildId: string): void {
-    const connection = this.connections.get(guildId);
-
-    if (connection) {
-      if (this.logger.isLevelEnabled('debug')) {
-        this.logger.debug({ guildId, action: 'connection_leave' }, 'Leaving voice channel');
-      }
-
-      // Remove event listeners before destroying to prevent memory leaks
-      const listeners = this.connectionListeners.get(guildId);
-      if (listeners) {
-        connection.off(VoiceConnectionStatus.Disconnected, listeners.onDisconnected);
-        connection.off(VoiceConnectionStatus.Destroyed, listeners.onDestroyed);
-        this.connectionListeners.delete(guildId);
-      }
-
-      this.speakingTracker.unregisterConnection(guildId);
-      connection.destroy();
-      this.connections.delete(guildId);
-    }
-  }
-
-  public getConnection(guildId: string): VoiceConnection | undefined {
-    return this.connections.get(guildId);
-  }
-
-  public hasConnection(guildId: string): boolean {
-    return this.connections.has(guildId);
-  }
-
-  public getAllGuildIds(): string[] {
-    return Array.from(this.connections.keys());
-  }
-
-  public disconnectAll(): void {
-    this.logger.info('Disconnecting all voice connections');
-    for (const guildId of this.connections.keys()) {
-      this.leaveChannel(guildId);
-    }
+  private setSelfMute(connection: VoiceConnection, selfMute: boolean): void {
+    const { channelId, guildId, selfDeaf } = connection.joinConfig;
+    this.rateLimiter.recordAction('voiceStateUpdate', guildId);
+    connection.rejoin({ channelId, selfDeaf, selfMute });
   }
 
   private async playSilence(connection: VoiceConnection): Promise<void> {